@@ -0,0 +1,56 @@
+import type { Embedder } from './types.js';
+import type { EmbeddingCache } from '../../services/embeddingCache.js';
+
+/**
+ * Embedder that serves repeated texts from the embedding cache
+ *
+ * Only cache misses reach the wrapped embedder; a batch with a few changed
+ * chunks embeds just those. The cache key includes the model name and
+ * dimensions, so vectors from different models never mix.
+ */
+export class CachedEmbedder implements Embedder {
+  readonly inner: Embedder;
+  private cache: EmbeddingCache;
+  private cacheKey: string;
+
+  constructor(inner: Embedder, cache: EmbeddingCache, provider: string) {
+    this.inner = inner;
+    this.cache = cache;
+    this.cacheKey = `${provider}:${inner.modelName ?? 'default'}`;
+  }
+
+  get dimensions(): number {
+    return this.inner.dimensions;
+  }
+
+  get modelName(): string | undefined {
+    return this.inner.modelName;
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const cached = this.cache.get(this.cacheKey, this.dimensions, text);
+    if (cached) return cached;
+
+    const vector = await this.inner.embed(text);
+    this.cache.set(this.cacheKey, this.dimensions, text, vector);
+    return vector;
+  }
+
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    const vectors = this.cache.getMany(this.cacheKey, this.dimensions, texts);
+    const missing = texts.map((_, idx) => idx).filter(idx => vectors[idx] === null);
+
+    if (missing.length > 0) {
+      const embedded = await this.inner.embedBatch(missing.map(idx => texts[idx]));
+      missing.forEach((textIdx, i) => {
+        vectors[textIdx] = embedded[i];
+      });
+      this.cache.setMany(this.cacheKey, this.dimensions, missing.map((textIdx, i) => ({
+        text: texts[textIdx],
+        vector: embedded[i],
+      })));
+    }
+
+    return vectors as number[][];
+  }
+}
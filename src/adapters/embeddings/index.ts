@@ -2,11 +2,28 @@ import type { Embedder } from './types.js';
 import { XenovaAdapter } from './xenova.js';
 import { OpenAIAdapter } from './openai.js';
 import { OllamaAdapter } from './ollama.js';
+import { CachedEmbedder } from './cached.js';
+import { getEmbeddingCache } from '../../services/embeddingCache.js';
 import type { RAGConfig } from '../../types/index.js';
 
 export { Embedder } from './types.js';
+export { CachedEmbedder } from './cached.js';
 
+/**
+ * Create an embedder, wrapped in the embedding cache unless
+ * `embeddingCache.enabled` is false
+ */
 export async function createEmbedder(type: string, config: RAGConfig): Promise<Embedder> {
+  const embedder = await createUncachedEmbedder(type, config);
+  if (config.embeddingCache?.enabled === false) {
+    return embedder;
+  }
+
+  const cache = getEmbeddingCache(undefined, { maxEntries: config.embeddingCache?.maxEntries });
+  return new CachedEmbedder(embedder, cache, type);
+}
+
+async function createUncachedEmbedder(type: string, config: RAGConfig): Promise<Embedder> {
   switch (type) {
     case 'xenova':
       return await XenovaAdapter.create(config);
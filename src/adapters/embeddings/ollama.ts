@@ -16,6 +16,10 @@ export class OllamaAdapter implements Embedder {
     });
   }
 
+  get modelName(): string {
+    return this.model;
+  }
+
   async embed(text: string): Promise<number[]> {
     const response = await this.client.embeddings({
       model: this.model,
@@ -16,6 +16,10 @@ export class OpenAIAdapter implements Embedder {
     this.client = new OpenAI({ apiKey });
   }
 
+  get modelName(): string {
+    return this.model;
+  }
+
   async embed(text: string): Promise<number[]> {
     const response = await this.client.embeddings.create({
       model: this.model,
@@ -2,4 +2,6 @@ export interface Embedder {
   embed(text: string): Promise<number[]>;
   embedBatch(texts: string[]): Promise<number[][]>;
   dimensions: number;
+  /** Model identifier, recorded alongside ingested sources */
+  modelName?: string;
 }
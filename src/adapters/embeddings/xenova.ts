@@ -2,9 +2,12 @@ import { pipeline } from '@xenova/transformers';
 import type { Embedder } from './types.js';
 import type { RAGConfig } from '../../types/index.js';
 
+const MODEL_NAME = 'Xenova/all-MiniLM-L6-v2';
+
 export class XenovaAdapter implements Embedder {
   private model: any;
   dimensions = 384; // all-MiniLM-L6-v2 dimensions
+  modelName = MODEL_NAME;
 
   private constructor(model: any) {
     this.model = model;
@@ -14,7 +17,7 @@ export class XenovaAdapter implements Embedder {
     // Initialize the embedding model
     const model = await pipeline(
       'feature-extraction',
-      'Xenova/all-MiniLM-L6-v2'
+      MODEL_NAME
     );
     return new XenovaAdapter(model);
   }
@@ -27,6 +27,7 @@ import { DeepSeekProvider } from './deepseek.js';
 import { GroqProvider } from './groq.js';
 import { OllamaProvider } from './ollama.js';
 import { OpenRouterProvider } from './openrouter.js';
+import { CircuitBreaker, type CircuitBreakerState } from '../../services/rlmSafeguards.js';
 
 // Re-export provider classes
 export { OpenAIProvider } from './openai.js';
@@ -217,8 +218,26 @@ function buildConfigFromFile(config: LLMConfigFile): LLMProviderConfig[] {
   return providers;
 }
 
+export interface LLMProviderManagerOptions {
+  /** Consecutive failures before a provider is skipped (default: 3) */
+  circuitBreakerThreshold?: number;
+  /** How long a tripped provider is skipped before one trial call (default: 60000ms) */
+  circuitBreakerResetMs?: number;
+}
+
+export interface ProviderCircuitStatus {
+  provider: string;
+  type: LLMProviderType;
+  state: CircuitBreakerState;
+  failures: number;
+}
+
 /**
  * LLM Provider Manager with fallback support
+ *
+ * Each provider has its own circuit breaker: after repeated failures it is
+ * skipped and requests fail over to the next provider until the reset time
+ * has passed, so a hung local model does not slow down every call.
  */
 export class LLMProviderManager implements LLMProvider {
   readonly type: LLMProviderType;
@@ -226,15 +245,24 @@ export class LLMProviderManager implements LLMProvider {
 
   private providers: LLMProvider[] = [];
   private primaryProvider: LLMProvider;
+  private configs = new Map<LLMProvider, LLMProviderConfig>();
+  private breakers = new Map<LLMProvider, CircuitBreaker>();
   private totalTokens: number = 0;
   private totalCost: number = 0;
 
-  constructor(configs: LLMProviderConfig[]) {
+  constructor(configs: LLMProviderConfig[], options: LLMProviderManagerOptions = {}) {
     if (configs.length === 0) {
       throw new Error('At least one provider configuration is required');
     }
 
     this.providers = configs.map(c => createProvider(c));
+    this.providers.forEach((provider, i) => {
+      this.configs.set(provider, configs[i]);
+      this.breakers.set(provider, new CircuitBreaker(
+        options.circuitBreakerThreshold ?? 3,
+        options.circuitBreakerResetMs ?? 60000
+      ));
+    });
     this.primaryProvider = this.providers[0];
     this.type = this.primaryProvider.type;
     this.name = `${this.primaryProvider.name} (with ${this.providers.length - 1} fallbacks)`;
@@ -242,7 +270,7 @@ export class LLMProviderManager implements LLMProvider {
 
   async isAvailable(): Promise<boolean> {
     for (const provider of this.providers) {
-      if (await provider.isAvailable()) {
+      if (!this.breakers.get(provider)!.isOpen() && await provider.isAvailable()) {
         return true;
       }
     }
@@ -265,12 +293,23 @@ export class LLMProviderManager implements LLMProvider {
     let lastError: Error | undefined;
 
     for (const provider of this.providers) {
+      const breaker = this.breakers.get(provider)!;
+      if (breaker.isOpen()) {
+        lastError = new LLMError(
+          `Provider ${provider.name} skipped after ${breaker.getFailures()} consecutive failures`,
+          'PROVIDER_UNAVAILABLE',
+          provider.type,
+          true
+        );
+        continue;
+      }
+
       try {
         if (!(await provider.isAvailable())) {
           continue;
         }
 
-        const response = await provider.chat(messages, options);
+        const response = await breaker.execute(() => provider.chat(messages, options));
         
         // Track usage
         if (response.usage) {
@@ -316,6 +355,29 @@ export class LLMProviderManager implements LLMProvider {
     }
   }
 
+  /**
+   * Circuit breaker state for each provider, in fallback order
+   */
+  getCircuitStatus(): ProviderCircuitStatus[] {
+    return this.providers.map(provider => {
+      const breaker = this.breakers.get(provider)!;
+      return {
+        provider: provider.name,
+        type: provider.type,
+        state: breaker.isOpen() ? 'open' : breaker.getState(),
+        failures: breaker.getFailures(),
+      };
+    });
+  }
+
+  /**
+   * Model used by the primary provider
+   */
+  getPrimaryModel(): string {
+    const config = this.configs.get(this.primaryProvider);
+    return config?.defaultModel ?? DEFAULT_MODELS[this.primaryProvider.type];
+  }
+
   /**
    * Get the primary provider
    */
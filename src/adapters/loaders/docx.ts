@@ -0,0 +1,29 @@
+import mammoth from 'mammoth';
+import { parseHTML } from 'linkedom';
+import { htmlToMarkdown, splitMarkdownSections } from './html.js';
+import type { DocumentLoader, DocumentLoaderInput, LoadedDocument } from './types.js';
+
+/**
+ * Word documents, converted through HTML so heading styles, lists and
+ * tables keep their structure
+ */
+export class DocxLoader implements DocumentLoader {
+  name = 'docx';
+  extensions = ['.docx'];
+  mimeTypes = ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'];
+
+  async load(input: DocumentLoaderInput): Promise<LoadedDocument> {
+    const { value: html } = await mammoth.convertToHtml({ buffer: input.data });
+    const { document } = parseHTML(`<!DOCTYPE html><html><body>${html}</body></html>`);
+
+    const markdown = htmlToMarkdown(document.body as any);
+    const sections = splitMarkdownSections(markdown);
+
+    return {
+      text: markdown,
+      sections,
+      title: markdown.match(/^#\s+(.+)$/m)?.[1]?.trim(),
+      format: this.name,
+    };
+  }
+}
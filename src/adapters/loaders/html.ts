@@ -0,0 +1,221 @@
+import { parseHTML } from 'linkedom';
+import { Readability } from '@mozilla/readability';
+import type { DocumentLoader, DocumentLoaderInput, DocumentSection, LoadedDocument } from './types.js';
+
+/** The subset of the DOM the markdown renderer walks */
+interface HtmlNode {
+  nodeType: number;
+  nodeName: string;
+  textContent: string | null;
+  childNodes: ArrayLike<HtmlNode>;
+}
+
+const ELEMENT_NODE = 1;
+const TEXT_NODE = 3;
+
+/** Elements that never hold readable content */
+const SKIPPED_TAGS = new Set([
+  'SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE', 'SVG', 'CANVAS', 'IFRAME', 'FORM', 'BUTTON', 'SELECT',
+  'NAV', 'FOOTER', 'ASIDE',
+]);
+
+const BLOCK_TAGS = new Set([
+  'P', 'DIV', 'SECTION', 'ARTICLE', 'MAIN', 'HEADER', 'FIGURE', 'FIGCAPTION', 'DL', 'DT', 'DD',
+  'ADDRESS', 'DETAILS', 'SUMMARY',
+]);
+
+const FENCE = '```';
+
+/**
+ * HTML pages, reduced to their main content
+ *
+ * Readability strips navigation, sidebars and other boilerplate; the article
+ * is then rendered as markdown so headings, lists, code and tables survive
+ * for the chunker. Pages Readability cannot make sense of fall back to the
+ * whole body.
+ */
+export class HtmlLoader implements DocumentLoader {
+  name = 'html';
+  extensions = ['.html', '.htm', '.xhtml'];
+  mimeTypes = ['text/html', 'application/xhtml+xml'];
+
+  async load(input: DocumentLoaderInput): Promise<LoadedDocument> {
+    const { document } = parseHTML(input.data.toString('utf-8'));
+    const pageTitle = document.title?.trim() || undefined;
+
+    let root: HtmlNode = document.body as unknown as HtmlNode;
+    let title = pageTitle;
+    try {
+      const article = new Readability<HtmlNode>(document as any, {
+        serializer: (node: any) => node as HtmlNode,
+      }).parse();
+      if (article?.content) {
+        root = article.content;
+        title = article.title?.trim() || pageTitle;
+      }
+    } catch {
+      // Keep the full body
+    }
+
+    const markdown = htmlToMarkdown(root);
+    return {
+      text: markdown,
+      sections: splitMarkdownSections(markdown),
+      title,
+      format: this.name,
+    };
+  }
+}
+
+/**
+ * Render a DOM subtree as markdown
+ */
+export function htmlToMarkdown(root: HtmlNode): string {
+  return normalizeMarkdown(renderNode(root));
+}
+
+/**
+ * Split markdown into one section per heading
+ *
+ * Each section's `heading` metadata is the path of headings above it, e.g.
+ * `Install > Linux`. Headings inside code fences are ignored.
+ */
+export function splitMarkdownSections(markdown: string): DocumentSection[] {
+  const sections: DocumentSection[] = [];
+  const headings: Array<{ level: number; text: string }> = [];
+  let current: string[] = [];
+  let inFence = false;
+
+  const flush = () => {
+    const text = current.join('\n').trim();
+    if (text) {
+      sections.push({
+        text,
+        metadata: headings.length > 0 ? { heading: headings.map(h => h.text).join(' > ') } : {},
+      });
+    }
+    current = [];
+  };
+
+  for (const line of markdown.split('\n')) {
+    if (line.startsWith(FENCE)) {
+      inFence = !inFence;
+    }
+
+    const match = inFence ? null : line.match(/^(#{1,6})\s+(.+)$/);
+    if (match) {
+      flush();
+      const level = match[1].length;
+      while (headings.length > 0 && headings[headings.length - 1].level >= level) {
+        headings.pop();
+      }
+      headings.push({ level, text: match[2].trim() });
+    }
+    current.push(line);
+  }
+  flush();
+
+  return sections;
+}
+
+function renderNode(node: HtmlNode): string {
+  if (node.nodeType === TEXT_NODE) {
+    return (node.textContent ?? '').replace(/\s+/g, ' ');
+  }
+  if (node.nodeType !== ELEMENT_NODE && node.nodeName !== '#document-fragment') {
+    return '';
+  }
+
+  const tag = node.nodeName.toUpperCase();
+  if (SKIPPED_TAGS.has(tag)) return '';
+
+  const heading = tag.match(/^H([1-6])$/);
+  if (heading) {
+    const text = renderChildren(node).replace(/\s+/g, ' ').trim();
+    return text ? `\n\n${'#'.repeat(Number(heading[1]))} ${text}\n\n` : '';
+  }
+
+  switch (tag) {
+    case 'BR':
+      return '\n';
+    case 'HR':
+      return '\n\n---\n\n';
+    case 'PRE':
+      return `\n\n${FENCE}\n${(node.textContent ?? '').replace(/\n+$/, '')}\n${FENCE}\n\n`;
+    case 'CODE':
+      return `\`${node.textContent ?? ''}\``;
+    case 'UL':
+    case 'OL':
+      return `\n\n${renderList(node, tag === 'OL')}\n\n`;
+    case 'TABLE':
+      return `\n\n${renderTable(node)}\n\n`;
+    case 'BLOCKQUOTE':
+      return `\n\n${normalizeMarkdown(renderChildren(node)).split('\n').map(line => `> ${line}`).join('\n')}\n\n`;
+    default:
+      return BLOCK_TAGS.has(tag) ? `\n\n${renderChildren(node)}\n\n` : renderChildren(node);
+  }
+}
+
+function renderChildren(node: HtmlNode): string {
+  return Array.from(node.childNodes).map(renderNode).join('');
+}
+
+function renderList(list: HtmlNode, ordered: boolean): string {
+  const items = childElements(list, 'LI');
+  return items
+    .map((item, idx) => {
+      const marker = ordered ? `${idx + 1}.` : '-';
+      const body = normalizeMarkdown(renderChildren(item)).split('\n').join('\n   ');
+      return `${marker} ${body}`;
+    })
+    .join('\n');
+}
+
+function renderTable(table: HtmlNode): string {
+  const rows = collectRows(table).map(row =>
+    childElements(row, 'TD', 'TH').map(cell => renderChildren(cell).replace(/\s+/g, ' ').replace(/\|/g, '\\|').trim())
+  );
+  if (rows.length === 0) return '';
+
+  const width = Math.max(...rows.map(r => r.length));
+  const lines = rows.map(cells => `| ${[...cells, ...Array(width - cells.length).fill('')].join(' | ')} |`);
+  lines.splice(1, 0, `|${' --- |'.repeat(width)}`);
+  return lines.join('\n');
+}
+
+function collectRows(node: HtmlNode): HtmlNode[] {
+  const rows: HtmlNode[] = [];
+  for (const child of Array.from(node.childNodes)) {
+    if (child.nodeType !== ELEMENT_NODE) continue;
+    if (child.nodeName.toUpperCase() === 'TR') {
+      rows.push(child);
+    } else if (child.nodeName.toUpperCase() !== 'TABLE') {
+      rows.push(...collectRows(child));
+    }
+  }
+  return rows;
+}
+
+function childElements(node: HtmlNode, ...tags: string[]): HtmlNode[] {
+  return Array.from(node.childNodes).filter(
+    child => child.nodeType === ELEMENT_NODE && tags.includes(child.nodeName.toUpperCase())
+  );
+}
+
+/**
+ * Tidy whitespace outside code fences: trim lines and collapse blank runs
+ */
+function normalizeMarkdown(markdown: string): string {
+  const parts = markdown.split(new RegExp(`(${FENCE}[\\s\\S]*?${FENCE})`));
+  return parts
+    .map((part, idx) => {
+      if (idx % 2 === 1) return part;
+      return part
+        .split('\n')
+        .map(line => line.replace(/[ \t]+/g, ' ').trim())
+        .join('\n');
+    })
+    .join('')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
@@ -0,0 +1,92 @@
+import { extname } from 'path';
+import type { DocumentLoader, DocumentLoaderInput, LoadedDocument } from './types.js';
+import { TextLoader } from './text.js';
+import { HtmlLoader } from './html.js';
+import { PdfLoader, isPdf } from './pdf.js';
+import { DocxLoader } from './docx.js';
+import { NotebookLoader } from './notebook.js';
+import { CsvLoader, JsonLoader } from './structured.js';
+
+export type { DocumentLoader, DocumentLoaderInput, DocumentSection, LoadedDocument } from './types.js';
+export { TextLoader } from './text.js';
+export { HtmlLoader, htmlToMarkdown, splitMarkdownSections } from './html.js';
+export { PdfLoader } from './pdf.js';
+export { DocxLoader } from './docx.js';
+export { NotebookLoader } from './notebook.js';
+export { CsvLoader, JsonLoader, parseDelimited } from './structured.js';
+
+const textLoader = new TextLoader();
+const htmlLoader = new HtmlLoader();
+const pdfLoader = new PdfLoader();
+
+const loaders: DocumentLoader[] = [
+  htmlLoader,
+  pdfLoader,
+  new DocxLoader(),
+  new NotebookLoader(),
+  new CsvLoader(),
+  new JsonLoader(),
+];
+
+/**
+ * Register a loader; it takes precedence over the built-in ones for its
+ * extensions and MIME types
+ */
+export function registerDocumentLoader(loader: DocumentLoader): void {
+  loaders.unshift(loader);
+}
+
+/**
+ * Find the loader for a file path/URL extension or MIME type
+ *
+ * A known extension wins, since servers often send generic types such as
+ * `application/octet-stream` or `application/json` for notebooks; the MIME
+ * type covers URLs like `/page.php` or `/docs/intro`. Returns null for
+ * plain text.
+ */
+export function findDocumentLoader(input: { path?: string; mimeType?: string }): DocumentLoader | null {
+  const extension = input.path ? getExtension(input.path) : '';
+  if (extension) {
+    const byExtension = loaders.find(loader => loader.extensions.includes(extension));
+    if (byExtension) return byExtension;
+  }
+
+  const mimeType = input.mimeType?.split(';')[0].trim().toLowerCase();
+  if (mimeType) {
+    return loaders.find(loader => loader.mimeTypes.includes(mimeType)) ?? null;
+  }
+
+  return null;
+}
+
+/**
+ * Extract text and structure from raw document bytes
+ *
+ * Without a matching extension or MIME type, PDFs and HTML are recognised
+ * from their first bytes; anything else is read as UTF-8 text.
+ */
+export async function loadDocument(input: DocumentLoaderInput): Promise<LoadedDocument> {
+  const loader = findDocumentLoader(input) ?? sniffLoader(input.data);
+  return loader.load(input);
+}
+
+function sniffLoader(data: Buffer): DocumentLoader {
+  if (isPdf(data)) return pdfLoader;
+
+  const head = data.subarray(0, 512).toString('utf-8').trimStart().toLowerCase();
+  if (head.startsWith('<!doctype html') || head.startsWith('<html')) return htmlLoader;
+
+  return textLoader;
+}
+
+function getExtension(pathOrUrl: string): string {
+  let path = pathOrUrl;
+  if (/^https?:\/\//i.test(pathOrUrl)) {
+    try {
+      path = new URL(pathOrUrl).pathname;
+    } catch {
+      // Not a valid URL; use it as a path
+    }
+  }
+  return extname(path).toLowerCase();
+}
@@ -0,0 +1,83 @@
+import type { DocumentLoader, DocumentLoaderInput, DocumentSection, LoadedDocument } from './types.js';
+
+/** Cell outputs longer than this are truncated */
+const MAX_OUTPUT_CHARS = 2000;
+
+interface NotebookCell {
+  cell_type: 'markdown' | 'code' | 'raw';
+  source: string | string[];
+  outputs?: Array<{
+    output_type: string;
+    text?: string | string[];
+    data?: Record<string, string | string[]>;
+  }>;
+}
+
+interface Notebook {
+  cells?: NotebookCell[];
+  metadata?: {
+    kernelspec?: { language?: string };
+    language_info?: { name?: string };
+  };
+}
+
+/**
+ * Jupyter notebooks, one section per cell
+ *
+ * Markdown cells are kept as-is; code cells become fenced blocks in the
+ * kernel's language followed by their text output. Chunks carry the 1-based
+ * `cell` number and `cellType`.
+ */
+export class NotebookLoader implements DocumentLoader {
+  name = 'ipynb';
+  extensions = ['.ipynb'];
+  mimeTypes = ['application/x-ipynb+json'];
+
+  async load(input: DocumentLoaderInput): Promise<LoadedDocument> {
+    const notebook = JSON.parse(input.data.toString('utf-8')) as Notebook;
+    const language = notebook.metadata?.language_info?.name ?? notebook.metadata?.kernelspec?.language ?? '';
+
+    const sections: DocumentSection[] = [];
+    (notebook.cells ?? []).forEach((cell, idx) => {
+      const source = joinText(cell.source).trim();
+      if (!source) return;
+
+      let text = source;
+      if (cell.cell_type === 'code') {
+        text = `\`\`\`${language}\n${source}\n\`\`\``;
+        const output = renderOutputs(cell).trim();
+        if (output) {
+          text += `\n\nOutput:\n\`\`\`\n${output}\n\`\`\``;
+        }
+      }
+
+      sections.push({ text, metadata: { cell: idx + 1, cellType: cell.cell_type } });
+    });
+
+    const firstMarkdown = sections.find(s => s.metadata.cellType === 'markdown');
+    return {
+      text: sections.map(s => s.text).join('\n\n'),
+      sections,
+      title: firstMarkdown?.text.match(/^#\s+(.+)$/m)?.[1]?.trim(),
+      format: this.name,
+    };
+  }
+}
+
+function renderOutputs(cell: NotebookCell): string {
+  const parts: string[] = [];
+  for (const output of cell.outputs ?? []) {
+    if (output.output_type === 'stream' && output.text) {
+      parts.push(joinText(output.text));
+    } else if (output.data?.['text/plain']) {
+      parts.push(joinText(output.data['text/plain']));
+    }
+  }
+
+  const text = parts.join('\n');
+  return text.length > MAX_OUTPUT_CHARS ? `${text.slice(0, MAX_OUTPUT_CHARS)}\n...` : text;
+}
+
+function joinText(value: string | string[]): string {
+  return Array.isArray(value) ? value.join('') : value;
+}
@@ -0,0 +1,43 @@
+import { PDFParse } from 'pdf-parse';
+import type { DocumentLoader, DocumentLoaderInput, DocumentSection, LoadedDocument } from './types.js';
+
+/**
+ * PDF text extraction, one section per page
+ *
+ * Chunks carry the `page` they came from. Scanned PDFs without a text layer
+ * produce no text; OCR is out of scope.
+ */
+export class PdfLoader implements DocumentLoader {
+  name = 'pdf';
+  extensions = ['.pdf'];
+  mimeTypes = ['application/pdf'];
+
+  async load(input: DocumentLoaderInput): Promise<LoadedDocument> {
+    const parser = new PDFParse({ data: new Uint8Array(input.data) });
+
+    try {
+      const result = await parser.getText();
+      const info = await parser.getInfo().catch(() => null);
+
+      const sections: DocumentSection[] = result.pages
+        .map(page => ({ text: page.text.trim(), metadata: { page: page.num } }))
+        .filter(section => section.text.length > 0);
+
+      return {
+        text: sections.map(s => s.text).join('\n\n'),
+        sections,
+        title: info?.info?.Title?.trim() || undefined,
+        format: this.name,
+      };
+    } finally {
+      await parser.destroy();
+    }
+  }
+}
+
+/**
+ * Whether a buffer starts with the PDF magic bytes
+ */
+export function isPdf(data: Buffer): boolean {
+  return data.subarray(0, 5).toString('latin1') === '%PDF-';
+}
@@ -0,0 +1,149 @@
+import { extname } from 'path';
+import type { DocumentLoader, DocumentLoaderInput, DocumentSection, LoadedDocument } from './types.js';
+
+/** Rows (or array items) grouped into one section */
+const ROWS_PER_SECTION = 25;
+
+/**
+ * CSV and TSV tables
+ *
+ * Every row is written as `column: value` pairs so each chunk is readable
+ * without the header row. Chunks carry the 1-based `rowStart` and `rowEnd`
+ * of the data rows they hold.
+ */
+export class CsvLoader implements DocumentLoader {
+  name = 'csv';
+  extensions = ['.csv', '.tsv'];
+  mimeTypes = ['text/csv', 'text/tab-separated-values'];
+
+  async load(input: DocumentLoaderInput): Promise<LoadedDocument> {
+    const text = input.data.toString('utf-8').replace(/^\uFEFF/, '');
+    const isTsv = input.mimeType?.startsWith('text/tab-separated-values') ||
+      (!!input.path && extname(input.path).toLowerCase() === '.tsv');
+
+    const [header = [], ...rows] = parseDelimited(text, isTsv ? '\t' : ',')
+      .filter(row => row.some(cell => cell.trim() !== ''));
+    const columns = header.map((name, idx) => name.trim() || `column${idx + 1}`);
+
+    const lines = rows.map(row =>
+      row
+        .map((value, idx) => `${columns[idx] ?? `column${idx + 1}`}: ${value.trim()}`)
+        .join('; ')
+    );
+
+    const sections = groupRows(lines);
+    return {
+      text: sections.map(s => s.text).join('\n\n'),
+      sections,
+      format: this.name,
+    };
+  }
+}
+
+/**
+ * JSON documents
+ *
+ * Arrays of objects are treated like tables (one line per record); anything
+ * else is flattened to `path: value` lines with one section per top-level
+ * key, recorded as `jsonPath`.
+ */
+export class JsonLoader implements DocumentLoader {
+  name = 'json';
+  extensions = ['.json'];
+  mimeTypes = ['application/json'];
+
+  async load(input: DocumentLoaderInput): Promise<LoadedDocument> {
+    const value = JSON.parse(input.data.toString('utf-8'));
+    let sections: DocumentSection[];
+
+    if (Array.isArray(value) && value.every(item => item !== null && typeof item === 'object' && !Array.isArray(item))) {
+      sections = groupRows(value.map(item => flatten(item).join('; ')));
+    } else if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+      sections = Object.entries(value)
+        .map(([key, child]) => ({ text: flatten(child, key).join('\n'), metadata: { jsonPath: key } }))
+        .filter(section => section.text.length > 0);
+    } else {
+      sections = [{ text: flatten(value).join('\n'), metadata: {} }];
+    }
+
+    return {
+      text: sections.map(s => s.text).join('\n\n'),
+      sections,
+      format: this.name,
+    };
+  }
+}
+
+/**
+ * Parse delimited text, honouring quoted fields with embedded delimiters,
+ * newlines and doubled quotes
+ */
+export function parseDelimited(text: string, delimiter: string = ','): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+function groupRows(lines: string[]): DocumentSection[] {
+  const sections: DocumentSection[] = [];
+  for (let start = 0; start < lines.length; start += ROWS_PER_SECTION) {
+    const group = lines.slice(start, start + ROWS_PER_SECTION);
+    sections.push({
+      text: group.join('\n'),
+      metadata: { rowStart: start + 1, rowEnd: start + group.length },
+    });
+  }
+  return sections;
+}
+
+function flatten(value: unknown, path: string = ''): string[] {
+  if (value === null || typeof value !== 'object') {
+    return [path ? `${path}: ${String(value)}` : String(value)];
+  }
+
+  if (Array.isArray(value) && value.every(item => item === null || typeof item !== 'object')) {
+    return [`${path || 'items'}: ${value.map(String).join(', ')}`];
+  }
+
+  const entries = Array.isArray(value)
+    ? value.map((item, idx) => [`${path}[${idx}]`, item] as const)
+    : Object.entries(value).map(([key, item]) => [path ? `${path}.${key}` : key, item] as const);
+
+  return entries.flatMap(([childPath, item]) => flatten(item, childPath));
+}
@@ -0,0 +1,21 @@
+import type { DocumentLoader, DocumentLoaderInput, LoadedDocument } from './types.js';
+
+/**
+ * Plain text, markdown and source code, passed through unchanged
+ *
+ * Used for anything no other loader claims.
+ */
+export class TextLoader implements DocumentLoader {
+  name = 'text';
+  extensions: string[] = [];
+  mimeTypes = ['text/plain', 'text/markdown'];
+
+  async load(input: DocumentLoaderInput): Promise<LoadedDocument> {
+    const text = input.data.toString('utf-8');
+    return {
+      text,
+      sections: [{ text, metadata: {} }],
+      format: this.name,
+    };
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * A run of extracted text with the structure it came from
+ */
+export interface DocumentSection {
+  text: string;
+  /** Attached to every chunk of the section, e.g. heading, page, cell or rows */
+  metadata: Record<string, string | number>;
+}
+
+export interface LoadedDocument {
+  /** Full extracted text; the content hash is taken over this */
+  text: string;
+  sections: DocumentSection[];
+  /** Title found in the document itself, if any */
+  title?: string;
+  /** Name of the loader that produced the text */
+  format: string;
+}
+
+export interface DocumentLoaderInput {
+  data: Buffer;
+  /** File path or URL, used to pick a loader by extension */
+  path?: string;
+  /** MIME type, e.g. from a Content-Type header */
+  mimeType?: string;
+}
+
+export interface DocumentLoader {
+  name: string;
+  /** Lower-case extensions including the dot */
+  extensions: string[];
+  mimeTypes: string[];
+  load(input: DocumentLoaderInput): Promise<LoadedDocument>;
+}
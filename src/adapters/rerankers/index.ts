@@ -0,0 +1,52 @@
+import type { Reranker } from './types.js';
+import type { XenovaCrossEncoderReranker } from './xenova.js';
+import { LLMListwiseReranker } from './llm.js';
+import { getLLMProvider } from '../llm/index.js';
+import type { LLMProvider } from '../../types/llmProvider.js';
+import type { RAGConfig, RerankerType } from '../../types/index.js';
+
+export { Reranker } from './types.js';
+export type { RerankerType } from '../../types/index.js';
+export type { XenovaCrossEncoderReranker } from './xenova.js';
+export { LLMListwiseReranker, parseRanking } from './llm.js';
+
+export const RERANKER_TYPES: RerankerType[] = ['none', 'cross-encoder', 'llm'];
+
+/** Cross-encoder models are loaded once per process */
+const crossEncoders = new Map<string, Promise<XenovaCrossEncoderReranker>>();
+
+/**
+ * Create the reranker for a type, or null for `none`
+ *
+ * `llm` defaults to the shared `LLMProviderManager`.
+ */
+export async function createReranker(
+  type: RerankerType,
+  config: RAGConfig,
+  llm?: LLMProvider | null
+): Promise<Reranker | null> {
+  switch (type) {
+    case 'none':
+      return null;
+    case 'cross-encoder': {
+      const key = config.search?.rerankModel ?? 'default';
+      let loading = crossEncoders.get(key);
+      if (!loading) {
+        // Imported on demand so plain searches never load the transformers runtime
+        loading = import('./xenova.js').then(({ XenovaCrossEncoderReranker }) => XenovaCrossEncoderReranker.create(config));
+        loading.catch(() => crossEncoders.delete(key));
+        crossEncoders.set(key, loading);
+      }
+      return await loading;
+    }
+    case 'llm': {
+      const provider = llm === undefined ? getLLMProvider() : llm;
+      if (!provider) {
+        throw new Error('LLM reranking needs an LLM provider');
+      }
+      return new LLMListwiseReranker(provider);
+    }
+    default:
+      throw new Error(`Unknown reranker: ${type}`);
+  }
+}
@@ -0,0 +1,82 @@
+import type { LLMProvider } from '../../types/llmProvider.js';
+import type { Reranker } from './types.js';
+
+export interface ListwiseRerankerOptions {
+  /** Documents shown to the model; the rest keep a score of 0 */
+  maxDocuments: number;
+  /** Characters of each document included in the prompt */
+  maxCharsPerDocument: number;
+}
+
+const DEFAULT_OPTIONS: ListwiseRerankerOptions = {
+  maxDocuments: 20,
+  maxCharsPerDocument: 600,
+};
+
+const SYSTEM_PROMPT = `You rank search results by how well they answer a query.
+Reply with the passage numbers only, most relevant first, separated by " > ", e.g. [3] > [1] > [2].
+Include every passage exactly once.`;
+
+/**
+ * Listwise reranker that asks the LLM to order all candidates in one call
+ *
+ * Goes through the provider it is given (normally `LLMProviderManager`, so
+ * fallbacks and circuit breakers apply). Rank positions become scores from
+ * 1 down towards 0; passages the model leaves out follow in their original
+ * order.
+ */
+export class LLMListwiseReranker implements Reranker {
+  private llm: LLMProvider;
+  private options: ListwiseRerankerOptions;
+  readonly name: string;
+
+  constructor(llm: LLMProvider, options?: Partial<ListwiseRerankerOptions>) {
+    this.llm = llm;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.name = `llm:${llm.name}`;
+  }
+
+  async score(query: string, documents: string[]): Promise<number[]> {
+    const window = documents.slice(0, this.options.maxDocuments);
+    if (window.length === 0) return [];
+
+    const passages = window
+      .map((doc, idx) => `[${idx + 1}] ${doc.slice(0, this.options.maxCharsPerDocument).replace(/\s+/g, ' ').trim()}`)
+      .join('\n\n');
+
+    const response = await this.llm.chat([
+      { role: 'system', content: SYSTEM_PROMPT },
+      { role: 'user', content: `## Query\n${query}\n\n## Passages\n${passages}\n\nRanking:` },
+    ], {
+      maxTokens: 10 + window.length * 6,
+      temperature: 0,
+    });
+
+    const ranked = parseRanking(response.content, window.length);
+    if (ranked.length === 0) {
+      throw new Error('LLM reranker returned no ranking');
+    }
+
+    const order = [...ranked, ...window.map((_, idx) => idx).filter(idx => !ranked.includes(idx))];
+    const scores = new Array<number>(documents.length).fill(0);
+    order.forEach((docIndex, rank) => {
+      scores[docIndex] = 1 - rank / window.length;
+    });
+    return scores;
+  }
+}
+
+/**
+ * Zero-based passage indexes in the order the model listed them,
+ * ignoring duplicates and out-of-range numbers
+ */
+export function parseRanking(text: string, count: number): number[] {
+  const ranked: number[] = [];
+  for (const match of text.matchAll(/\d+/g)) {
+    const index = parseInt(match[0], 10) - 1;
+    if (index >= 0 && index < count && !ranked.includes(index)) {
+      ranked.push(index);
+    }
+  }
+  return ranked;
+}
@@ -0,0 +1,6 @@
+export interface Reranker {
+  /** Label reported with reranked results, e.g. `cross-encoder:Xenova/ms-marco-MiniLM-L-6-v2` */
+  readonly name: string;
+  /** Relevance of each document to the query in [0, 1], in document order */
+  score(query: string, documents: string[]): Promise<number[]>;
+}
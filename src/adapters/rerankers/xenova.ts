@@ -0,0 +1,53 @@
+import { AutoTokenizer, AutoModelForSequenceClassification } from '@xenova/transformers';
+import type { Reranker } from './types.js';
+import type { RAGConfig } from '../../types/index.js';
+
+const MODEL_NAME = 'Xenova/ms-marco-MiniLM-L-6-v2';
+
+/** Query/document pairs scored per model call */
+const BATCH_SIZE = 16;
+
+/**
+ * Local cross-encoder reranker; scores each query/document pair jointly,
+ * which is slower than embedding similarity but far more precise
+ */
+export class XenovaCrossEncoderReranker implements Reranker {
+  private tokenizer: any;
+  private model: any;
+  readonly name: string;
+
+  private constructor(tokenizer: any, model: any, modelName: string) {
+    this.tokenizer = tokenizer;
+    this.model = model;
+    this.name = `cross-encoder:${modelName}`;
+  }
+
+  static async create(config: RAGConfig): Promise<XenovaCrossEncoderReranker> {
+    const modelName = config.search?.rerankModel ?? MODEL_NAME;
+    const [tokenizer, model] = await Promise.all([
+      AutoTokenizer.from_pretrained(modelName),
+      AutoModelForSequenceClassification.from_pretrained(modelName),
+    ]);
+    return new XenovaCrossEncoderReranker(tokenizer, model, modelName);
+  }
+
+  async score(query: string, documents: string[]): Promise<number[]> {
+    const scores: number[] = [];
+
+    for (let i = 0; i < documents.length; i += BATCH_SIZE) {
+      const batch = documents.slice(i, i + BATCH_SIZE);
+      const inputs = this.tokenizer(new Array(batch.length).fill(query), {
+        text_pair: batch,
+        padding: true,
+        truncation: true,
+      });
+      const { logits } = await this.model(inputs);
+      // One relevance logit per pair; squash to [0, 1]
+      for (const logit of Array.from(logits.data as Float32Array)) {
+        scores.push(1 / (1 + Math.exp(-logit)));
+      }
+    }
+
+    return scores;
+  }
+}
@@ -1,6 +1,8 @@
-import { ChromaClient } from 'chromadb';
-import type { VectorStore, VectorDocument, SearchResult, SearchOptions } from '../../types/index.js';
-import type { RAGConfig } from '../../types/index.js';
+import { ChromaClient, IncludeEnum } from 'chromadb';
+import type { VectorStore, VectorDocument, SearchResult, SearchOptions, VectorStoreScanPage, VectorStoreScanOptions } from '../../types/index.js';
+import type { RAGConfig, FilterNode } from '../../types/index.js';
+import { parseMetadataFilter, unsupportedFilter } from '../../services/metadataFilter.js';
+import { DEFAULT_COLLECTION, scopedName } from '../../services/collections.js';
 
 /**
  * ChromaDB Adapter
@@ -13,10 +15,11 @@ import type { RAGConfig } from '../../types/index.js';
 export class ChromaAdapter implements VectorStore {
   private client: ChromaClient;
   private collection: any;
-  private collectionName = 'cursor-rag-knowledge-base';
+  private collectionName: string;
   private serverUrl: string;
 
-  constructor(config: RAGConfig) {
+  constructor(config: RAGConfig, collection: string = DEFAULT_COLLECTION) {
+    this.collectionName = scopedName('cursor-rag-knowledge-base', collection);
     // ChromaDB requires a running server - default to localhost:8000
     this.serverUrl = config.vectorStoreConfig?.chromaUrl || 'http://localhost:8000';
     this.client = new ChromaClient({
@@ -62,12 +65,13 @@ export class ChromaAdapter implements VectorStore {
   }
 
   async search(embedding: number[], options: SearchOptions): Promise<SearchResult[]> {
+    const where = toChromaWhere(parseMetadataFilter(options.filter));
     await this.initialize();
 
     const results = await this.collection.query({
       queryEmbeddings: [embedding],
       nResults: options.topK,
-      where: options.filter || undefined
+      where
     });
 
     // Transform Chroma results to our format
@@ -103,4 +107,55 @@ export class ChromaAdapter implements VectorStore {
     const count = await this.collection.count();
     return count;
   }
+
+  async scan(cursor: string | null, limit: number, options: VectorStoreScanOptions = {}): Promise<VectorStoreScanPage> {
+    await this.initialize();
+
+    const offset = cursor ? parseInt(cursor, 10) : 0;
+    const include = [IncludeEnum.Documents, IncludeEnum.Metadatas];
+    if (options.includeEmbeddings) include.push(IncludeEnum.Embeddings);
+    const results = await this.collection.get({ limit, offset, include });
+    const ids: string[] = results.ids || [];
+
+    return {
+      chunks: ids.map((id, i) => ({
+        id,
+        content: results.documents?.[i] || '',
+        metadata: results.metadatas?.[i] || {},
+        ...(options.includeEmbeddings && results.embeddings?.[i] ? { embedding: results.embeddings[i] } : {}),
+      })),
+      nextCursor: ids.length === limit ? String(offset + ids.length) : null,
+    };
+  }
+
+  /**
+   * Drop the collection; it is recreated on next use
+   */
+  async clear(): Promise<void> {
+    await this.initialize();
+    await this.client.deleteCollection({ name: this.collectionName });
+    this.collection = undefined;
+  }
+}
+
+/**
+ * Translate a parsed filter into a Chroma `where` clause
+ *
+ * Chroma has no operator for missing fields, so `$exists` is rejected.
+ */
+export function toChromaWhere(node: FilterNode | null): Record<string, any> | undefined {
+  if (!node) return undefined;
+
+  switch (node.op) {
+    case '$and':
+    case '$or':
+      return { [node.op]: node.filters.map(toChromaWhere) };
+    case '$exists':
+      throw unsupportedFilter('Chroma', '$exists');
+    case '$in':
+    case '$nin':
+      return { [node.field]: { [node.op]: node.values } };
+    default:
+      return { [node.field]: { [node.op]: node.value } };
+  }
 }
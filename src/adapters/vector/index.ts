@@ -3,31 +3,37 @@ import { ChromaAdapter } from './chroma.js';
 import { QdrantAdapter } from './qdrant.js';
 import { VectorizeAdapter } from './vectorize.js';
 import { MemoryAdapter } from './memory.js';
+import { LocalAdapter } from './local.js';
 import { RedisAdapter } from './redis.js';
 import { RedisNativeAdapter } from './redis-native.js';
 import type { RAGConfig } from '../../types/index.js';
 
 export { VectorStore, VectorDocument, SearchResult, SearchOptions };
 
-export function createVectorStore(type: string, config: RAGConfig): VectorStore {
+/**
+ * Create the configured vector store, scoped to a collection (default: "default")
+ */
+export function createVectorStore(type: string, config: RAGConfig, collection?: string): VectorStore {
   switch (type) {
     case 'memory':
-      return new MemoryAdapter(config);
+      return new MemoryAdapter(config, collection);
+    case 'local':
+      return new LocalAdapter(config, collection);
     case 'chroma':
-      return new ChromaAdapter(config);
+      return new ChromaAdapter(config, collection);
     case 'qdrant':
-      return new QdrantAdapter(config);
+      return new QdrantAdapter(config, collection);
     case 'redis':
       // Use native Redis 8.x adapter by default, fall back to RediSearch if specified
       if (config.vectorStoreConfig?.useRediSearch) {
-        return new RedisAdapter(config);
+        return new RedisAdapter(config, collection);
       }
-      return new RedisNativeAdapter(config);
+      return new RedisNativeAdapter(config, collection);
     case 'redis-stack':
       // Explicit Redis Stack/RediSearch adapter
-      return new RedisAdapter(config);
+      return new RedisAdapter(config, collection);
     case 'vectorize':
-      return new VectorizeAdapter(config);
+      return new VectorizeAdapter(config, collection);
     default:
       throw new Error(`Unknown vector store: ${type}`);
   }
@@ -0,0 +1,670 @@
+import {
+  appendFileSync,
+  closeSync,
+  existsSync,
+  mkdirSync,
+  openSync,
+  readFileSync,
+  readSync,
+  renameSync,
+  rmSync,
+  statSync,
+  truncateSync,
+  writeFileSync,
+  writeSync,
+} from 'fs';
+import { randomInt } from 'crypto';
+import { join } from 'path';
+import type { VectorStore, VectorDocument, SearchResult, SearchOptions, VectorStoreScanPage, VectorStoreScanOptions } from '../../types/index.js';
+import type { RAGConfig, VectorQuantization } from '../../types/index.js';
+import { DEFAULT_COLLECTION, getCollectionDir } from '../../services/collections.js';
+import { HnswIndex, type HnswMatch } from '../../services/hnswIndex.js';
+import { matchesFilter, parseMetadataFilter } from '../../services/metadataFilter.js';
+
+const LOG_MAGIC = 'CRAGVEC1';
+const LOG_VERSION = 1;
+const LOG_HEADER_BYTES = 20;
+const RECORD_HEADER_BYTES = 5;
+const OP_PUT = 1;
+const OP_DELETE = 2;
+
+const SNAPSHOT_MAGIC = 'CRAGIDX1';
+const SNAPSHOT_HEADER_BYTES = 12;
+
+const QUANTIZATION_CODES: VectorQuantization[] = ['none', 'float16', 'int8'];
+
+/** Nodes added since the last graph snapshot before a new one is written */
+const SNAPSHOT_INTERVAL = 1000;
+
+/** Compact once at least this many deleted or replaced chunks make up half the file */
+const COMPACT_MIN_DEAD = 1000;
+const COMPACT_DEAD_RATIO = 0.5;
+
+/** Below this many candidate chunks, search compares every one exactly */
+const EXACT_SEARCH_LIMIT = 1000;
+
+/** Filtered searches widen the HNSW candidate list by this factor */
+const FILTER_EF_FACTOR = 4;
+
+/** A write lock older than this was left behind by a crashed process */
+const LOCK_STALE_MS = 30_000;
+/** Longest wait for another process to finish writing */
+const LOCK_TIMEOUT_MS = 10_000;
+const LOCK_RETRY_MS = 10;
+
+interface LocalNode {
+  id: string;
+  metadata: Record<string, any>;
+  /** Byte range of the chunk content in the log, read on demand */
+  contentOffset: number;
+  contentLength: number;
+}
+
+interface LogState {
+  dimensions: number;
+  quantization: VectorQuantization;
+  /** Random ID of this log file, so a snapshot of an older log is never applied */
+  generation: number;
+}
+
+/**
+ * Local vector store with an HNSW index. No external services required.
+ *
+ * Data is kept in ~/.cursor-rag/local-store (`vectorStoreConfig.localPath`),
+ * or a `collections/<name>` directory within it for other collections:
+ * - `vectors.log`: a header, then put and delete records appended on every
+ *   write. Chunk content is read from it on demand rather than held in memory.
+ * - `index.hnsw`: a snapshot of the HNSW graph. Records written after it are
+ *   linked into the graph on load.
+ *
+ * Deleted and replaced chunks are dropped by compaction, which rewrites both
+ * files once they make up half of the log.
+ *
+ * Several processes may share a store (the MCP server next to
+ * `ingest --watch`): writes hold `vectors.log.lock`, and every operation
+ * first reads what others appended, or reloads after a compaction.
+ */
+export class LocalAdapter implements VectorStore {
+  private dir: string;
+  private logPath: string;
+  private snapshotPath: string;
+  private lockPath: string;
+  private lockDepth = 0;
+  private quantization: VectorQuantization;
+  private hnswOptions: { m?: number; efConstruction?: number; efSearch?: number };
+
+  private index: HnswIndex | null = null;
+  private log: LogState | null = null;
+  private nodes: LocalNode[] = [];
+  private ids = new Map<string, number>();
+  private logSize = 0;
+  private snapshotNodes = 0;
+  private loaded = false;
+
+  constructor(config: RAGConfig, collection: string = DEFAULT_COLLECTION) {
+    const storeConfig = config.vectorStoreConfig ?? {};
+    this.dir = storeConfig.localPath
+      ? join(storeConfig.localPath, ...(collection === DEFAULT_COLLECTION ? [] : ['collections', collection]))
+      : join(getCollectionDir(collection), 'local-store');
+    this.logPath = join(this.dir, 'vectors.log');
+    this.snapshotPath = join(this.dir, 'index.hnsw');
+    this.lockPath = `${this.logPath}.lock`;
+    this.quantization = storeConfig.localQuantization ?? 'none';
+    if (!QUANTIZATION_CODES.includes(this.quantization)) {
+      throw new Error(`localQuantization must be one of ${QUANTIZATION_CODES.join(', ')}`);
+    }
+    this.hnswOptions = {
+      m: storeConfig.hnswM,
+      efConstruction: storeConfig.hnswEfConstruction,
+      efSearch: storeConfig.hnswEfSearch,
+    };
+  }
+
+  async add(docs: VectorDocument[]): Promise<void> {
+    if (docs.length === 0) return;
+    this.withLock(() => this.append(docs));
+  }
+
+  private append(docs: VectorDocument[]): void {
+    this.prepareWrite();
+    if (!this.index) this.createLog(docs[0].embedding.length);
+    const index = this.index!;
+
+    const records: Buffer[] = [];
+    const puts: Array<{ doc: VectorDocument; encoded: Uint8Array; contentOffset: number }> = [];
+    let offset = this.logSize;
+    for (const doc of docs) {
+      if (doc.embedding.length !== index.dimensions) {
+        throw new Error(
+          `The local vector store holds ${index.dimensions}-dimension vectors but chunk ${doc.id} has ${doc.embedding.length}. ` +
+          'Run "cursor-rag reindex --embeddings <type>" to re-embed the store.'
+        );
+      }
+      const encoded = index.encode(doc.embedding);
+      const { record, contentOffset } = encodePut(doc.id, doc.metadata, doc.content, encoded);
+      puts.push({ doc, encoded, contentOffset: offset + contentOffset });
+      records.push(record);
+      offset += record.length;
+    }
+
+    appendFileSync(this.logPath, Buffer.concat(records));
+    this.logSize = offset;
+
+    for (const { doc, encoded, contentOffset } of puts) {
+      const node = this.applyPut(doc.id, doc.metadata, contentOffset, Buffer.byteLength(doc.content), encoded);
+      index.link(node);
+    }
+
+    if (!this.maybeCompact() && index.size - this.snapshotNodes >= SNAPSHOT_INTERVAL) {
+      this.saveSnapshot();
+    }
+  }
+
+  async search(embedding: number[], options: SearchOptions): Promise<SearchResult[]> {
+    this.refresh();
+    const filter = parseMetadataFilter(options.filter);
+    if (!this.index || this.ids.size === 0) return [];
+
+    const index = this.index;
+    if (embedding.length !== index.dimensions) {
+      throw new Error(
+        `The query has ${embedding.length} dimensions but the local vector store holds ${index.dimensions}-dimension vectors. ` +
+        'The embedder changed since these chunks were stored; run "cursor-rag reindex --embeddings <type>".'
+      );
+    }
+
+    const topK = options.topK || 10;
+    let matches: HnswMatch[];
+
+    if (!filter) {
+      matches = this.ids.size <= EXACT_SEARCH_LIMIT
+        ? index.exactSearch(embedding, topK, this.ids.values())
+        : index.search(embedding, topK);
+    } else {
+      const candidates = Array.from(this.ids.values()).filter(node => matchesFilter(this.nodes[node].metadata, filter));
+      if (candidates.length <= EXACT_SEARCH_LIMIT) {
+        matches = index.exactSearch(embedding, topK, candidates);
+      } else {
+        const accepted = new Set(candidates);
+        matches = index.search(embedding, topK, {
+          ef: Math.max(index.efSearch, topK) * FILTER_EF_FACTOR,
+          accept: node => accepted.has(node),
+        });
+        if (matches.length < topK) {
+          matches = index.exactSearch(embedding, topK, candidates);
+        }
+      }
+    }
+
+    const contents = this.readContents(matches.map(m => m.node));
+    return matches.map((match, i) => {
+      const node = this.nodes[match.node];
+      return { id: node.id, content: contents[i], metadata: node.metadata, score: match.score };
+    });
+  }
+
+  async delete(ids: string[]): Promise<void> {
+    this.withLock(() => {
+      this.prepareWrite();
+      const existing = Array.from(new Set(ids)).filter(id => this.ids.has(id));
+      if (existing.length === 0) return;
+
+      const records = existing.map(encodeDelete);
+      appendFileSync(this.logPath, Buffer.concat(records));
+      this.logSize += records.reduce((sum, record) => sum + record.length, 0);
+
+      for (const id of existing) {
+        this.applyDelete(id);
+      }
+      this.maybeCompact();
+    });
+  }
+
+  async count(): Promise<number> {
+    this.refresh();
+    return this.ids.size;
+  }
+
+  async scan(cursor: string | null, limit: number, options: VectorStoreScanOptions = {}): Promise<VectorStoreScanPage> {
+    this.refresh();
+
+    const live: number[] = [];
+    let node = cursor ? parseInt(cursor, 10) : 0;
+    for (; node < this.nodes.length && live.length < limit; node++) {
+      if (this.isLive(node)) live.push(node);
+    }
+    while (node < this.nodes.length && !this.isLive(node)) node++;
+
+    const contents = this.readContents(live);
+    return {
+      chunks: live.map((n, i) => ({
+        id: this.nodes[n].id,
+        content: contents[i],
+        metadata: this.nodes[n].metadata,
+        ...(options.includeEmbeddings ? { embedding: this.index!.getVector(n) } : {}),
+      })),
+      nextCursor: node < this.nodes.length ? String(node) : null,
+    };
+  }
+
+  async clear(): Promise<void> {
+    this.withLock(() => {
+      rmSync(this.logPath, { force: true });
+      rmSync(this.snapshotPath, { force: true });
+      this.reset();
+      this.loaded = true;
+    });
+  }
+
+  /**
+   * Rewrite the log without deleted and replaced chunks, and drop them from
+   * the graph. Runs automatically once they make up half of the log.
+   */
+  async compact(): Promise<void> {
+    this.withLock(() => {
+      this.prepareWrite();
+      this.rewrite();
+    });
+  }
+
+  private rewrite(): void {
+    if (!this.index || !this.log || this.index.deletedCount === 0) return;
+
+    const index = this.index;
+    const contents = this.readContents(this.nodes.map((_, node) => node).filter(node => this.isLive(node)));
+    const mapping = index.compact();
+
+    const generation = randomInt(0, 2 ** 32);
+    const records: Buffer[] = [encodeHeader({ ...this.log, generation })];
+    const nodes: LocalNode[] = [];
+    let offset = LOG_HEADER_BYTES;
+    mapping.forEach((newNode, oldNode) => {
+      if (newNode === -1) return;
+      const { id, metadata } = this.nodes[oldNode];
+      const content = contents[newNode];
+      const { record, contentOffset } = encodePut(id, metadata, content, index.getEncoded(newNode));
+      nodes.push({ id, metadata, contentOffset: offset + contentOffset, contentLength: Buffer.byteLength(content) });
+      records.push(record);
+      offset += record.length;
+    });
+
+    const tmpPath = `${this.logPath}.tmp`;
+    writeFileSync(tmpPath, Buffer.concat(records));
+    renameSync(tmpPath, this.logPath);
+
+    this.log.generation = generation;
+    this.logSize = offset;
+    this.nodes = nodes;
+    this.ids = new Map(nodes.map((node, i) => [node.id, i]));
+    this.saveSnapshot();
+  }
+
+  private load(): void {
+    if (this.loaded) return;
+    this.loaded = true;
+
+    if (!existsSync(this.dir)) {
+      mkdirSync(this.dir, { recursive: true });
+    }
+    if (!existsSync(this.logPath)) return;
+
+    const data = readFileSync(this.logPath);
+    this.log = decodeHeader(data, this.logPath);
+    const index = this.createIndex(this.log);
+
+    // A partial record at the end is left for the next write to discard
+    this.logSize = this.applyRecords(data.subarray(LOG_HEADER_BYTES), LOG_HEADER_BYTES);
+
+    const restored = this.restoreSnapshot(index);
+    for (let node = restored; node < index.size; node++) {
+      index.link(node);
+    }
+    if (restored < index.size) {
+      this.withLock(() => this.saveSnapshot());
+    }
+  }
+
+  /**
+   * Load the log, or catch up with what other processes wrote since the
+   * last operation: read appended records, and reload after a compaction
+   * (new generation) or a clear
+   */
+  private refresh(): void {
+    if (!this.loaded) {
+      this.load();
+      return;
+    }
+
+    if (!existsSync(this.logPath)) {
+      if (this.log) this.reset();
+      this.loaded = true;
+      return;
+    }
+
+    const size = statSync(this.logPath).size;
+    if (!this.log || size < this.logSize || this.readGeneration() !== this.log.generation) {
+      this.reset();
+      this.load();
+      return;
+    }
+    if (size === this.logSize) return;
+
+    const data = Buffer.alloc(size - this.logSize);
+    const fd = openSync(this.logPath, 'r');
+    try {
+      readSync(fd, data, 0, data.length, this.logSize);
+    } finally {
+      closeSync(fd);
+    }
+
+    const index = this.index!;
+    const firstNew = index.size;
+    this.logSize = this.applyRecords(data, this.logSize);
+    for (let node = firstNew; node < index.size; node++) {
+      index.link(node);
+    }
+  }
+
+  /**
+   * Catch up before a write (under the lock) and drop a record left
+   * incomplete by a crashed writer, so new records start at a record boundary
+   */
+  private prepareWrite(): void {
+    this.refresh();
+    if (this.log && statSync(this.logPath).size > this.logSize) {
+      console.warn(`Discarding an incomplete record at the end of ${this.logPath}`);
+      truncateSync(this.logPath, this.logSize);
+    }
+  }
+
+  /**
+   * Apply the complete put and delete records in `data`, which starts at
+   * byte `base` of the log
+   *
+   * @returns Log offset after the last complete record
+   */
+  private applyRecords(data: Buffer, base: number): number {
+    let offset = 0;
+    while (offset + RECORD_HEADER_BYTES <= data.length) {
+      const op = data.readUInt8(offset);
+      const end = offset + RECORD_HEADER_BYTES + data.readUInt32LE(offset + 1);
+      if (end > data.length) break;
+
+      let cursor = offset + RECORD_HEADER_BYTES;
+      const idLength = data.readUInt16LE(cursor);
+      const id = data.toString('utf-8', cursor + 2, cursor + 2 + idLength);
+      cursor += 2 + idLength;
+
+      if (op === OP_PUT) {
+        const metadataLength = data.readUInt32LE(cursor);
+        const metadata = JSON.parse(data.toString('utf-8', cursor + 4, cursor + 4 + metadataLength));
+        cursor += 4 + metadataLength;
+        const contentLength = data.readUInt32LE(cursor);
+        const contentOffset = cursor + 4;
+        cursor = contentOffset + contentLength;
+        this.applyPut(id, metadata, base + contentOffset, contentLength, data.subarray(cursor, end));
+      } else if (op === OP_DELETE) {
+        this.applyDelete(id);
+      } else {
+        throw new Error(`${this.logPath} has an unknown record type ${op} at byte ${base + offset}`);
+      }
+      offset = end;
+    }
+    return base + offset;
+  }
+
+  private readGeneration(): number | null {
+    const header = Buffer.alloc(LOG_HEADER_BYTES);
+    const fd = openSync(this.logPath, 'r');
+    try {
+      if (readSync(fd, header, 0, LOG_HEADER_BYTES, 0) < LOG_HEADER_BYTES) return null;
+    } finally {
+      closeSync(fd);
+    }
+    return header.readUInt32LE(16);
+  }
+
+  private reset(): void {
+    this.index = null;
+    this.log = null;
+    this.nodes = [];
+    this.ids.clear();
+    this.logSize = 0;
+    this.snapshotNodes = 0;
+    this.loaded = false;
+  }
+
+  /**
+   * Run `fn` holding the store's write lock. Reentrant within this adapter.
+   */
+  private withLock<T>(fn: () => T): T {
+    if (this.lockDepth === 0) this.acquireLock();
+    this.lockDepth++;
+    try {
+      return fn();
+    } finally {
+      if (--this.lockDepth === 0) {
+        rmSync(this.lockPath, { force: true });
+      }
+    }
+  }
+
+  private acquireLock(): void {
+    if (!existsSync(this.dir)) {
+      mkdirSync(this.dir, { recursive: true });
+    }
+
+    const deadline = Date.now() + LOCK_TIMEOUT_MS;
+    for (;;) {
+      try {
+        const fd = openSync(this.lockPath, 'wx');
+        writeSync(fd, String(process.pid));
+        closeSync(fd);
+        return;
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code !== 'EEXIST') throw err;
+      }
+
+      if (this.isStaleLock()) {
+        rmSync(this.lockPath, { force: true });
+        continue;
+      }
+      if (Date.now() > deadline) {
+        throw new Error(
+          `Another process is still writing to ${this.logPath}. ` +
+          `If no other cursor-rag process is running, delete ${this.lockPath}.`
+        );
+      }
+      // Writes are synchronous, so wait without returning to the event loop
+      Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, LOCK_RETRY_MS);
+    }
+  }
+
+  private isStaleLock(): boolean {
+    try {
+      const age = Date.now() - statSync(this.lockPath).mtimeMs;
+      const pid = parseInt(readFileSync(this.lockPath, 'utf-8'), 10);
+      return age > LOCK_STALE_MS || (pid > 0 && !isProcessAlive(pid));
+    } catch {
+      // Released in the meantime
+      return false;
+    }
+  }
+
+  private createLog(dimensions: number): void {
+    this.log = { dimensions, quantization: this.quantization, generation: randomInt(0, 2 ** 32) };
+    this.createIndex(this.log);
+    writeFileSync(this.logPath, encodeHeader(this.log));
+    this.logSize = LOG_HEADER_BYTES;
+  }
+
+  private createIndex(log: LogState): HnswIndex {
+    this.index = new HnswIndex({ dimensions: log.dimensions, quantization: log.quantization, ...this.hnswOptions });
+    return this.index;
+  }
+
+  private applyPut(id: string, metadata: Record<string, any>, contentOffset: number, contentLength: number, encoded: Uint8Array): number {
+    const node = this.index!.appendEncoded(encoded);
+    this.nodes[node] = { id, metadata, contentOffset, contentLength };
+
+    const previous = this.ids.get(id);
+    if (previous !== undefined) this.index!.markDeleted(previous);
+    this.ids.set(id, node);
+    return node;
+  }
+
+  private applyDelete(id: string): void {
+    const node = this.ids.get(id);
+    if (node === undefined) return;
+    this.index!.markDeleted(node);
+    this.ids.delete(id);
+  }
+
+  private isLive(node: number): boolean {
+    return this.ids.get(this.nodes[node].id) === node;
+  }
+
+  private maybeCompact(): boolean {
+    const dead = this.index?.deletedCount ?? 0;
+    if (dead < COMPACT_MIN_DEAD || dead < this.index!.size * COMPACT_DEAD_RATIO) return false;
+    this.rewrite();
+    return true;
+  }
+
+  private readContents(nodes: number[]): string[] {
+    if (nodes.length === 0) return [];
+
+    const fd = openSync(this.logPath, 'r');
+    try {
+      return nodes.map(node => {
+        const { contentOffset, contentLength } = this.nodes[node];
+        const buffer = Buffer.alloc(contentLength);
+        readSync(fd, buffer, 0, contentLength, contentOffset);
+        return buffer.toString('utf-8');
+      });
+    } finally {
+      closeSync(fd);
+    }
+  }
+
+  private saveSnapshot(): void {
+    const header = Buffer.alloc(SNAPSHOT_HEADER_BYTES);
+    header.write(SNAPSHOT_MAGIC, 0, 'ascii');
+    header.writeUInt32LE(this.log!.generation, 8);
+
+    const tmpPath = `${this.snapshotPath}.tmp`;
+    writeFileSync(tmpPath, Buffer.concat([header, this.index!.serializeGraph()]));
+    renameSync(tmpPath, this.snapshotPath);
+    this.snapshotNodes = this.index!.size;
+  }
+
+  /**
+   * Restore the graph snapshot if it belongs to this log
+   *
+   * @returns Number of nodes it covers (0 when missing or stale)
+   */
+  private restoreSnapshot(index: HnswIndex): number {
+    if (!existsSync(this.snapshotPath)) return 0;
+
+    try {
+      const data = readFileSync(this.snapshotPath);
+      if (data.toString('ascii', 0, 8) !== SNAPSHOT_MAGIC || data.readUInt32LE(8) !== this.log!.generation) {
+        return 0;
+      }
+      this.snapshotNodes = index.restoreGraph(data.subarray(SNAPSHOT_HEADER_BYTES));
+      return this.snapshotNodes;
+    } catch {
+      // restoreGraph validates before changing the index, so relinking every node rebuilds it
+      return 0;
+    }
+  }
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (err) {
+    // EPERM: the process exists but belongs to another user
+    return (err as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+function encodeHeader(log: LogState): Buffer {
+  const header = Buffer.alloc(LOG_HEADER_BYTES);
+  header.write(LOG_MAGIC, 0, 'ascii');
+  header.writeUInt16LE(LOG_VERSION, 8);
+  header.writeUInt8(QUANTIZATION_CODES.indexOf(log.quantization), 10);
+  header.writeUInt32LE(log.dimensions, 12);
+  header.writeUInt32LE(log.generation, 16);
+  return header;
+}
+
+function decodeHeader(data: Buffer, path: string): LogState {
+  if (data.length < LOG_HEADER_BYTES || data.toString('ascii', 0, 8) !== LOG_MAGIC) {
+    throw new Error(`${path} is not a cursor-rag vector log`);
+  }
+  const version = data.readUInt16LE(8);
+  if (version !== LOG_VERSION) {
+    throw new Error(`${path} is format version ${version}; this version of cursor-rag reads version ${LOG_VERSION}`);
+  }
+  const quantization = QUANTIZATION_CODES[data.readUInt8(10)];
+  if (!quantization) {
+    throw new Error(`${path} uses an unknown vector encoding`);
+  }
+  return { dimensions: data.readUInt32LE(12), quantization, generation: data.readUInt32LE(16) };
+}
+
+/**
+ * Put record: op, body length, then ID, metadata JSON, content and vector
+ *
+ * @returns The record and the content's offset within it
+ */
+function encodePut(
+  id: string,
+  metadata: Record<string, any>,
+  content: string,
+  encoded: Uint8Array
+): { record: Buffer; contentOffset: number } {
+  const idBytes = encodeId(id);
+  const metadataBytes = Buffer.from(JSON.stringify(metadata ?? {}));
+  const contentBytes = Buffer.from(content);
+
+  const fields = [
+    uint32(metadataBytes.length), metadataBytes,
+    uint32(contentBytes.length), contentBytes,
+    Buffer.from(encoded.buffer, encoded.byteOffset, encoded.byteLength),
+  ];
+  const record = Buffer.concat([recordHeader(OP_PUT, idBytes, fields), idBytes, ...fields]);
+  const contentOffset = RECORD_HEADER_BYTES + idBytes.length + 4 + metadataBytes.length + 4;
+  return { record, contentOffset };
+}
+
+function encodeDelete(id: string): Buffer {
+  const idBytes = encodeId(id);
+  return Buffer.concat([recordHeader(OP_DELETE, idBytes, []), idBytes]);
+}
+
+function recordHeader(op: number, idBytes: Buffer, fields: Buffer[]): Buffer {
+  const header = Buffer.alloc(RECORD_HEADER_BYTES);
+  header.writeUInt8(op, 0);
+  header.writeUInt32LE(idBytes.length + fields.reduce((sum, field) => sum + field.length, 0), 1);
+  return header;
+}
+
+/** Chunk ID prefixed with its byte length */
+function encodeId(id: string): Buffer {
+  const bytes = Buffer.from(id);
+  if (bytes.length > 0xffff) {
+    throw new Error(`Chunk ID "${id.slice(0, 40)}…" is longer than 65535 bytes`);
+  }
+  const length = Buffer.alloc(2);
+  length.writeUInt16LE(bytes.length);
+  return Buffer.concat([length, bytes]);
+}
+
+function uint32(value: number): Buffer {
+  const buffer = Buffer.alloc(4);
+  buffer.writeUInt32LE(value);
+  return buffer;
+}
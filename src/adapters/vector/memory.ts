@@ -1,22 +1,24 @@
 import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
 import { join, dirname } from 'path';
-import type { VectorStore, VectorDocument, SearchResult, SearchOptions } from '../../types/index.js';
+import type { VectorStore, VectorDocument, SearchResult, SearchOptions, VectorStoreScanPage, VectorStoreScanOptions } from '../../types/index.js';
 import type { RAGConfig } from '../../types/index.js';
-import { CONFIG_DIR } from '../../services/config.js';
+import { DEFAULT_COLLECTION, getCollectionDir } from '../../services/collections.js';
+import { matchesFilter, parseMetadataFilter } from '../../services/metadataFilter.js';
 
 /**
  * Simple file-based vector store for local development and testing.
  * No external dependencies required.
  * 
- * Data is persisted to ~/.cursor-rag/memory-store.json
+ * Data is persisted to ~/.cursor-rag/memory-store.json, or to the
+ * collection's directory for other collections
  */
 export class MemoryAdapter implements VectorStore {
   private documents: Map<string, VectorDocument> = new Map();
   private storagePath: string;
   private loaded = false;
 
-  constructor(_config: RAGConfig) {
-    this.storagePath = join(CONFIG_DIR, 'memory-store.json');
+  constructor(_config: RAGConfig, collection: string = DEFAULT_COLLECTION) {
+    this.storagePath = join(getCollectionDir(collection), 'memory-store.json');
   }
 
   private load(): void {
@@ -60,15 +62,12 @@ export class MemoryAdapter implements VectorStore {
   async search(embedding: number[], options: SearchOptions): Promise<SearchResult[]> {
     this.load();
     
+    const filter = parseMetadataFilter(options.filter);
     const results: Array<{ doc: VectorDocument; score: number }> = [];
     
     for (const doc of this.documents.values()) {
-      // Apply source filter if provided
-      if (options.filter?.source) {
-        const filterSources = options.filter.source.$in || [options.filter.source];
-        if (!filterSources.includes(doc.metadata?.source)) {
-          continue;
-        }
+      if (!matchesFilter(doc.metadata, filter)) {
+        continue;
       }
       
       const score = this.cosineSimilarity(embedding, doc.embedding);
@@ -102,9 +101,36 @@ export class MemoryAdapter implements VectorStore {
     return this.documents.size;
   }
 
+  async scan(cursor: string | null, limit: number, options: VectorStoreScanOptions = {}): Promise<VectorStoreScanPage> {
+    this.load();
+
+    const start = cursor ? parseInt(cursor, 10) : 0;
+    const page = Array.from(this.documents.values()).slice(start, start + limit);
+    const next = start + page.length;
+
+    return {
+      chunks: page.map(doc => ({
+        id: doc.id,
+        content: doc.content,
+        metadata: doc.metadata,
+        ...(options.includeEmbeddings ? { embedding: doc.embedding } : {}),
+      })),
+      nextCursor: next < this.documents.size ? String(next) : null,
+    };
+  }
+
+  async clear(): Promise<void> {
+    this.load();
+    this.documents.clear();
+    this.save();
+  }
+
   private cosineSimilarity(a: number[], b: number[]): number {
     if (a.length !== b.length) {
-      throw new Error('Vectors must have the same length');
+      throw new Error(
+        `Vectors must have the same length (query has ${a.length} dimensions, stored chunk has ${b.length}). ` +
+        'The embedder changed since these chunks were stored; run "cursor-rag reindex --embeddings <type>".'
+      );
     }
     
     let dotProduct = 0;
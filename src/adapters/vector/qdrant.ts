@@ -1,13 +1,16 @@
 import { QdrantClient } from '@qdrant/js-client-rest';
-import type { VectorStore, VectorDocument, SearchResult, SearchOptions } from '../../types/index.js';
-import type { RAGConfig } from '../../types/index.js';
+import type { VectorStore, VectorDocument, SearchResult, SearchOptions, VectorStoreScanPage, VectorStoreScanOptions, StoredChunk } from '../../types/index.js';
+import type { RAGConfig, FilterNode } from '../../types/index.js';
+import { parseMetadataFilter } from '../../services/metadataFilter.js';
+import { DEFAULT_COLLECTION, scopedName } from '../../services/collections.js';
 
 export class QdrantAdapter implements VectorStore {
   private client: QdrantClient;
-  private collectionName = 'cursor-rag-knowledge-base';
+  private collectionName: string;
   private config: RAGConfig;
 
-  constructor(config: RAGConfig) {
+  constructor(config: RAGConfig, collection: string = DEFAULT_COLLECTION) {
+    this.collectionName = scopedName('cursor-rag-knowledge-base', collection);
     const url = config.apiKeys?.qdrant?.url || 'http://localhost:6333';
     const apiKey = config.apiKeys?.qdrant?.apiKey;
     this.config = config;
@@ -77,36 +80,10 @@ export class QdrantAdapter implements VectorStore {
     // Infer vector size from query embedding if collection doesn't exist
     await this.initialize(embedding.length);
 
-    // Convert filter format from generic { source: { $in: [...] } } to Qdrant format
-    let qdrantFilter: any = undefined;
-    if (options.filter) {
-      const filterEntries = Object.entries(options.filter);
-      if (filterEntries.length > 0) {
-        qdrantFilter = {
-          must: filterEntries.map(([key, value]: [string, any]) => {
-            // Handle $in operator for arrays
-            if (value && typeof value === 'object' && '$in' in value && Array.isArray(value.$in)) {
-              return {
-                key: key,
-                match: {
-                  any: value.$in
-                }
-              };
-            }
-            // Handle direct value match
-            return {
-              key: key,
-              match: { value: value }
-            };
-          })
-        };
-      }
-    }
-
     const response = await this.client.search(this.collectionName, {
       vector: embedding,
       limit: options.topK,
-      filter: qdrantFilter
+      filter: toQdrantFilter(parseMetadataFilter(options.filter))
     });
 
     return response.map(result => ({
@@ -133,4 +110,77 @@ export class QdrantAdapter implements VectorStore {
     const info = await this.client.getCollection(this.collectionName);
     return info.points_count || 0;
   }
+
+  async scan(cursor: string | null, limit: number, options: VectorStoreScanOptions = {}): Promise<VectorStoreScanPage> {
+    await this.initialize();
+    const response = await this.client.scroll(this.collectionName, {
+      limit,
+      offset: cursor ?? undefined,
+      with_payload: true,
+      with_vector: !!options.includeEmbeddings,
+    });
+
+    return {
+      chunks: response.points.map(point => {
+        const { content, ...metadata } = (point.payload || {}) as Record<string, any>;
+        const chunk: StoredChunk = { id: point.id.toString(), content: content || '', metadata };
+        if (options.includeEmbeddings && Array.isArray(point.vector)) {
+          chunk.embedding = point.vector as number[];
+        }
+        return chunk;
+      }),
+      nextCursor: response.next_page_offset != null ? String(response.next_page_offset) : null,
+    };
+  }
+
+  /**
+   * Drop the collection; the next add recreates it with the new vector size
+   */
+  async clear(): Promise<void> {
+    const collections = await this.client.getCollections();
+    if (collections.collections.some(c => c.name === this.collectionName)) {
+      await this.client.deleteCollection(this.collectionName);
+    }
+  }
+}
+
+/**
+ * Translate a parsed filter into a Qdrant filter
+ *
+ * `$ne`, `$nin` and `$exists: true` use `must_not`, so like the other stores
+ * they match points where the field is missing.
+ */
+export function toQdrantFilter(node: FilterNode | null): Record<string, any> | undefined {
+  if (!node) return undefined;
+  if (node.op === '$and') return { must: node.filters.map(toQdrantCondition) };
+  if (node.op === '$or') return { should: node.filters.map(toQdrantCondition) };
+  return { must: [toQdrantCondition(node)] };
+}
+
+function toQdrantCondition(node: FilterNode): Record<string, any> {
+  switch (node.op) {
+    case '$and':
+    case '$or':
+      return toQdrantFilter(node)!;
+    case '$eq':
+      return { key: node.field, match: { value: node.value } };
+    case '$ne':
+      return { must_not: [{ key: node.field, match: { value: node.value } }] };
+    case '$in':
+      return { key: node.field, match: { any: node.values } };
+    case '$nin':
+      return { must_not: [{ key: node.field, match: { any: node.values } }] };
+    case '$exists':
+      return node.value
+        ? { must_not: [{ is_empty: { key: node.field } }] }
+        : { is_empty: { key: node.field } };
+    case '$gt':
+      return { key: node.field, range: { gt: node.value } };
+    case '$gte':
+      return { key: node.field, range: { gte: node.value } };
+    case '$lt':
+      return { key: node.field, range: { lt: node.value } };
+    case '$lte':
+      return { key: node.field, range: { lte: node.value } };
+  }
 }
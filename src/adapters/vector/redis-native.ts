@@ -1,9 +1,14 @@
 import { createClient } from 'redis';
-import type { VectorStore, VectorDocument, SearchResult, SearchOptions } from '../../types/index.js';
+import type { VectorStore, VectorDocument, SearchResult, SearchOptions, VectorStoreScanPage, VectorStoreScanOptions, StoredChunk } from '../../types/index.js';
 import type { RAGConfig } from '../../types/index.js';
+import { matchesFilter, parseMetadataFilter } from '../../services/metadataFilter.js';
+import { DEFAULT_COLLECTION, scopedName } from '../../services/collections.js';
 
 type RedisClientType = ReturnType<typeof createClient>;
 
+/** Candidates fetched per requested result when a filter is applied after VSIM */
+const FILTER_OVERFETCH = 10;
+
 /**
  * Redis 8.x Native Vector Adapter
  * 
@@ -23,13 +28,15 @@ type RedisClientType = ReturnType<typeof createClient>;
  */
 export class RedisNativeAdapter implements VectorStore {
   private client: RedisClientType;
-  private setName = 'cursor-rag-vectors';
-  private metadataPrefix = 'cursor-rag:meta:';
+  private setName: string;
+  private metadataPrefix: string;
   private vectorDim: number;
   private isConnected = false;
   private redisUrl: string;
 
-  constructor(config: RAGConfig) {
+  constructor(config: RAGConfig, collection: string = DEFAULT_COLLECTION) {
+    this.setName = scopedName('cursor-rag-vectors', collection, ':');
+    this.metadataPrefix = `${scopedName('cursor-rag', collection, ':c:')}:meta:`;
     this.redisUrl = config.apiKeys?.redis?.url || config.vectorStoreConfig?.redisUrl || 'redis://localhost:6379';
     this.vectorDim = config.vectorStoreConfig?.vectorDim || 384;
     this.client = createClient({ url: this.redisUrl });
@@ -98,6 +105,9 @@ export class RedisNativeAdapter implements VectorStore {
     await this.initialize();
 
     const topK = options.topK || 10;
+    // Metadata lives outside the vector set, so filters are evaluated on over-fetched candidates
+    const filter = parseMetadataFilter(options.filter);
+    const count = filter ? Math.max(topK * FILTER_OVERFETCH, 100) : topK;
 
     try {
       // VSIM key VALUES dim v1 v2 ... vN COUNT count WITHSCORES
@@ -107,7 +117,7 @@ export class RedisNativeAdapter implements VectorStore {
         'VALUES',
         embedding.length.toString(),
         ...embedding.map(v => v.toString()),
-        'COUNT', topK.toString(),
+        'COUNT', count.toString(),
         'WITHSCORES'
       ];
       
@@ -120,7 +130,7 @@ export class RedisNativeAdapter implements VectorStore {
       // Results come as [id1, score1, id2, score2, ...]
       const searchResults: SearchResult[] = [];
       
-      for (let i = 0; i < results.length; i += 2) {
+      for (let i = 0; i < results.length && searchResults.length < topK; i += 2) {
         const id = results[i] as string;
         const score = parseFloat(results[i + 1] as string);
         
@@ -136,14 +146,8 @@ export class RedisNativeAdapter implements VectorStore {
             // Keep default
           }
 
-          // Apply source filter if specified
-          if (options.filter?.source) {
-            const allowedSources = Array.isArray(options.filter.source.$in)
-              ? options.filter.source.$in
-              : [options.filter.source];
-            if (!allowedSources.includes(metadata.source)) {
-              continue;
-            }
+          if (!matchesFilter(metadata, filter)) {
+            continue;
           }
 
           searchResults.push({
@@ -187,6 +191,48 @@ export class RedisNativeAdapter implements VectorStore {
     }
   }
 
+  async scan(cursor: string | null, limit: number, options: VectorStoreScanOptions = {}): Promise<VectorStoreScanPage> {
+    await this.initialize();
+
+    const reply = await this.client.scan(cursor ? parseInt(cursor, 10) : 0, {
+      MATCH: `${this.metadataPrefix}*`,
+      COUNT: limit,
+    });
+
+    const chunks: StoredChunk[] = [];
+    for (const key of reply.keys) {
+      const metadataRaw = await this.client.hGetAll(key);
+      let metadata: Record<string, any> = { source: metadataRaw.source || 'unknown' };
+      try {
+        metadata = JSON.parse(metadataRaw.metadata || '{}');
+      } catch {
+        // Keep default
+      }
+      const chunk: StoredChunk = { id: key.replace(this.metadataPrefix, ''), content: metadataRaw.content || '', metadata };
+      if (options.includeEmbeddings) {
+        // VEMB key element returns the stored vector
+        const values = await this.client.sendCommand(['VEMB', this.setName, chunk.id]) as string[] | null;
+        if (values) chunk.embedding = values.map(Number);
+      }
+      chunks.push(chunk);
+    }
+
+    return { chunks, nextCursor: reply.cursor === 0 ? null : String(reply.cursor) };
+  }
+
+  /**
+   * Delete the vector set and all chunk metadata; the set takes the
+   * dimension of the next vector added
+   */
+  async clear(): Promise<void> {
+    await this.initialize();
+
+    await this.client.del(this.setName);
+    for await (const key of this.client.scanIterator({ MATCH: `${this.metadataPrefix}*` })) {
+      await this.client.del(key);
+    }
+  }
+
   async disconnect(): Promise<void> {
     if (this.isConnected) {
       await this.client.quit();
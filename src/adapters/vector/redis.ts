@@ -1,9 +1,17 @@
-import { createClient, SchemaFieldTypes, VectorAlgorithms } from 'redis';
-import type { VectorStore, VectorDocument, SearchResult, SearchOptions } from '../../types/index.js';
-import type { RAGConfig } from '../../types/index.js';
+import { commandOptions, createClient, SchemaFieldTypes, VectorAlgorithms } from 'redis';
+import type { VectorStore, VectorDocument, SearchResult, SearchOptions, VectorStoreScanPage, VectorStoreScanOptions, StoredChunk } from '../../types/index.js';
+import type { RAGConfig, FilterNode, FilterScalar } from '../../types/index.js';
+import { MetadataFilterError, getFilterFields, parseMetadataFilter, unsupportedFilter } from '../../services/metadataFilter.js';
+import { DEFAULT_COLLECTION, scopedName } from '../../services/collections.js';
 
 type RedisClientType = ReturnType<typeof createClient>;
 
+/** Metadata fields copied into the hash and indexed as TAG fields; arrays are joined */
+const TAG_FIELDS = ['source', 'type', 'chunkType', 'language', 'tags'];
+/** Metadata fields indexed as NUMERIC fields (epoch milliseconds for dates) */
+const NUMERIC_FIELDS = ['createdAt'];
+const TAG_SEPARATOR = ',';
+
 /**
  * Redis Vector Search Adapter
  * 
@@ -17,13 +25,16 @@ type RedisClientType = ReturnType<typeof createClient>;
  */
 export class RedisAdapter implements VectorStore {
   private client: RedisClientType;
-  private indexName = 'cursor-rag-idx';
-  private keyPrefix = 'cursor-rag:doc:';
+  private indexName: string;
+  private keyPrefix: string;
   private vectorDim: number;
   private isConnected = false;
   private redisUrl: string;
 
-  constructor(config: RAGConfig) {
+  constructor(config: RAGConfig, collection: string = DEFAULT_COLLECTION) {
+    this.indexName = scopedName('cursor-rag-idx', collection, ':');
+    // Other collections' keys must never match the default collection's prefix
+    this.keyPrefix = `${scopedName('cursor-rag', collection, ':c:')}:doc:`;
     this.redisUrl = config.apiKeys?.redis?.url || config.vectorStoreConfig?.redisUrl || 'redis://localhost:6379';
     this.vectorDim = config.vectorStoreConfig?.vectorDim || 384; // Default for all-MiniLM-L6-v2
     this.client = createClient({ url: this.redisUrl });
@@ -49,14 +60,32 @@ export class RedisAdapter implements VectorStore {
     }
 
     // Create index if it doesn't exist
+    let info;
     try {
-      await this.client.ft.info(this.indexName);
+      info = await this.client.ft.info(this.indexName);
     } catch {
       // Index doesn't exist, create it
       await this.createIndex();
+      return;
+    }
+
+    // Indexes created before filter fields existed get them added; RediSearch rescans existing hashes
+    const indexed = new Set(info.attributes.map(a => String(a.identifier)));
+    const missing = [...TAG_FIELDS, ...NUMERIC_FIELDS].filter(field => !indexed.has(field));
+    if (missing.length > 0) {
+      await this.client.ft.alter(this.indexName, this.filterSchema(missing));
     }
   }
 
+  private filterSchema(fields: string[] = [...TAG_FIELDS, ...NUMERIC_FIELDS]) {
+    return Object.fromEntries(fields.map(field => [
+      field,
+      NUMERIC_FIELDS.includes(field)
+        ? { type: SchemaFieldTypes.NUMERIC }
+        : { type: SchemaFieldTypes.TAG, SEPARATOR: TAG_SEPARATOR },
+    ])) as Record<string, { type: typeof SchemaFieldTypes.NUMERIC } | { type: typeof SchemaFieldTypes.TAG; SEPARATOR: string }>;
+  }
+
   private async createIndex(): Promise<void> {
     try {
       await this.client.ft.create(
@@ -66,9 +95,7 @@ export class RedisAdapter implements VectorStore {
             type: SchemaFieldTypes.TEXT,
             SORTABLE: true
           },
-          source: {
-            type: SchemaFieldTypes.TAG
-          },
+          ...this.filterSchema(),
           embedding: {
             type: SchemaFieldTypes.VECTOR,
             TYPE: 'FLOAT32',
@@ -94,6 +121,10 @@ export class RedisAdapter implements VectorStore {
     return Buffer.from(new Float32Array(arr).buffer);
   }
 
+  private bufferToFloat32(buffer: Buffer): number[] {
+    return Array.from(new Float32Array(new Uint8Array(buffer).buffer));
+  }
+
   async add(docs: VectorDocument[]): Promise<void> {
     await this.initialize();
 
@@ -104,6 +135,7 @@ export class RedisAdapter implements VectorStore {
       await this.client.hSet(key, {
         id: doc.id,
         content: doc.content,
+        ...toFilterFields(doc.metadata),
         source: doc.metadata?.source || 'unknown',
         metadata: JSON.stringify(doc.metadata || {}),
         embedding: embeddingBuffer
@@ -112,20 +144,14 @@ export class RedisAdapter implements VectorStore {
   }
 
   async search(embedding: number[], options: SearchOptions): Promise<SearchResult[]> {
+    const filterQuery = toRediSearchQuery(parseMetadataFilter(options.filter));
+    if (filterQuery === null) return [];
+
     await this.initialize();
 
     const topK = options.topK || 10;
     const embeddingBuffer = this.float32ToBuffer(embedding);
 
-    // Build query with optional filters
-    let filterQuery = '*';
-    if (options.filter?.source) {
-      const sources = Array.isArray(options.filter.source.$in) 
-        ? options.filter.source.$in 
-        : [options.filter.source];
-      filterQuery = `@source:{${sources.map((s: string) => s.replace(/[^a-zA-Z0-9]/g, '_')).join('|')}}`;
-    }
-
     try {
       const results = await this.client.ft.search(
         this.indexName,
@@ -183,6 +209,44 @@ export class RedisAdapter implements VectorStore {
     }
   }
 
+  async scan(cursor: string | null, limit: number, options: VectorStoreScanOptions = {}): Promise<VectorStoreScanPage> {
+    await this.initialize();
+
+    const reply = await this.client.scan(cursor ? parseInt(cursor, 10) : 0, {
+      MATCH: `${this.keyPrefix}*`,
+      COUNT: limit,
+    });
+
+    const chunks: StoredChunk[] = [];
+    for (const key of reply.keys) {
+      const value = await this.client.hGetAll(key);
+      let metadata: Record<string, any> = { source: value.source };
+      try {
+        metadata = JSON.parse(value.metadata || '{}');
+      } catch {
+        // Keep default metadata
+      }
+      const chunk: StoredChunk = { id: key.replace(this.keyPrefix, ''), content: value.content || '', metadata };
+      if (options.includeEmbeddings) {
+        // The vector is binary, so it has to be read without string decoding
+        const raw = await this.client.hGet(commandOptions({ returnBuffers: true }), key, 'embedding');
+        if (raw) chunk.embedding = this.bufferToFloat32(raw);
+      }
+      chunks.push(chunk);
+    }
+
+    return { chunks, nextCursor: reply.cursor === 0 ? null : String(reply.cursor) };
+  }
+
+  /**
+   * Drop the index with its documents; it is recreated on next use with
+   * the configured `vectorDim`
+   */
+  async clear(): Promise<void> {
+    await this.initialize();
+    await this.client.ft.dropIndex(this.indexName, { DD: true });
+  }
+
   async disconnect(): Promise<void> {
     if (this.isConnected) {
       await this.client.quit();
@@ -190,3 +254,97 @@ export class RedisAdapter implements VectorStore {
     }
   }
 }
+
+/**
+ * Hash fields for the indexed metadata of a chunk
+ */
+function toFilterFields(metadata: Record<string, any> = {}): Record<string, string | number> {
+  const fields: Record<string, string | number> = {};
+  for (const field of TAG_FIELDS) {
+    const value = metadata[field];
+    if (value === undefined || value === null) continue;
+    fields[field] = Array.isArray(value) ? value.map(String).join(TAG_SEPARATOR) : String(value);
+  }
+  for (const field of NUMERIC_FIELDS) {
+    const value = metadata[field];
+    const time = typeof value === 'string' ? Date.parse(value) : value;
+    if (typeof time === 'number' && Number.isFinite(time)) fields[field] = time;
+  }
+  return fields;
+}
+
+/**
+ * Translate a parsed filter into a RediSearch (DIALECT 2) query
+ *
+ * Returns `*` for no filter and null for a filter that matches nothing (an
+ * empty `$in`). Only the indexed TAG and NUMERIC fields can be filtered on.
+ */
+export function toRediSearchQuery(node: FilterNode | null): string | null {
+  if (!node) return '*';
+
+  const unknown = getFilterFields(node).filter(field => !TAG_FIELDS.includes(field) && !NUMERIC_FIELDS.includes(field));
+  if (unknown.length > 0) {
+    throw new MetadataFilterError(
+      `Redis Stack can only filter on ${[...TAG_FIELDS, ...NUMERIC_FIELDS].join(', ')}; not on ${unknown.join(', ')}`
+    );
+  }
+
+  return toQueryPart(node);
+}
+
+function toQueryPart(node: FilterNode): string | null {
+  if ('filters' in node) {
+    const parts = node.filters.map(toQueryPart);
+    if (node.op === '$and') {
+      return parts.includes(null) ? null : `(${parts.join(' ')})`;
+    }
+    const matching = parts.filter((p): p is string => p !== null);
+    return matching.length === 0 ? null : `(${matching.join(' | ')})`;
+  }
+
+  const numeric = NUMERIC_FIELDS.includes(node.field);
+  const field = `@${node.field}`;
+
+  switch (node.op) {
+    case '$eq':
+    case '$ne': {
+      const match = numeric ? `${field}:[${toNumber(node.field, node.value)} ${toNumber(node.field, node.value)}]` : `${field}:{${escapeTag(node.value)}}`;
+      return node.op === '$eq' ? match : `-${match}`;
+    }
+    case '$in':
+    case '$nin': {
+      if (node.values.length === 0) return node.op === '$in' ? null : '*';
+      const match = numeric
+        ? `(${node.values.map(v => `${field}:[${toNumber(node.field, v)} ${toNumber(node.field, v)}]`).join(' | ')})`
+        : `${field}:{${node.values.map(escapeTag).join(' | ')}}`;
+      return node.op === '$in' ? match : `-${match}`;
+    }
+    case '$exists':
+      if (!numeric) throw unsupportedFilter('Redis Stack', `$exists on the tag field "${node.field}"`);
+      return node.value ? `${field}:[-inf +inf]` : `-${field}:[-inf +inf]`;
+    default: {
+      if (!numeric) throw unsupportedFilter('Redis Stack', `${node.op} on the tag field "${node.field}"`);
+      const range = {
+        $gt: `(${node.value} +inf`,
+        $gte: `${node.value} +inf`,
+        $lt: `-inf (${node.value}`,
+        $lte: `-inf ${node.value}`,
+      }[node.op];
+      return `${field}:[${range}]`;
+    }
+  }
+}
+
+function toNumber(field: string, value: FilterScalar): number {
+  if (typeof value !== 'number') {
+    throw new MetadataFilterError(`"${field}" is numeric in Redis Stack; compare it with numbers`);
+  }
+  return value;
+}
+
+/**
+ * Escape tag punctuation and spaces with backslashes
+ */
+function escapeTag(value: FilterScalar): string {
+  return String(value).replace(/[^\p{L}\p{N}_]/gu, '\\$&');
+}
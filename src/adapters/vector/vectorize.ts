@@ -1,29 +1,426 @@
-import type { VectorStore, VectorDocument, SearchResult, SearchOptions } from '../../types/index.js';
-import type { RAGConfig } from '../../types/index.js';
+import type { VectorStore, VectorDocument, SearchResult, SearchOptions, VectorStoreScanPage, StoredChunk, VectorStoreScanOptions } from '../../types/index.js';
+import type { RAGConfig, FilterNode } from '../../types/index.js';
+import { MetadataFilterError, parseMetadataFilter, unsupportedFilter } from '../../services/metadataFilter.js';
+import { DEFAULT_COLLECTION, scopedName } from '../../services/collections.js';
 
+const DEFAULT_API_URL = 'https://api.cloudflare.com/client/v4';
+const DEFAULT_INDEX = 'cursor-rag-knowledge-base';
+
+/** Vectors per upsert or delete request (the REST API accepts up to 5,000) */
+const WRITE_BATCH_SIZE = 1000;
+/** IDs per get_by_ids request */
+const READ_BATCH_SIZE = 20;
+/** Largest topK that may return metadata; larger queries fetch it by ID */
+const MAX_TOP_K_WITH_METADATA = 20;
+const MAX_TOP_K = 100;
+const MAX_ID_BYTES = 64;
+const MAX_NAMESPACE_BYTES = 64;
+const MAX_METADATA_BYTES = 10 * 1024;
+const MAX_RETRIES = 2;
+const DEFAULT_TIMEOUT_MS = 30_000;
+/** First wait before retrying a rate-limited request without a usable Retry-After; doubles per attempt */
+const RETRY_BASE_MS = 1000;
+const MAX_RETRY_WAIT_MS = 30_000;
+
+/**
+ * Metadata properties indexed for filtering when the index is created
+ *
+ * Vectorize only filters on indexed properties, and only indexes vectors
+ * upserted after the property index exists.
+ */
+const FILTERABLE_PROPERTIES: Record<string, 'string' | 'number'> = {
+  source: 'string',
+  type: 'string',
+  chunkType: 'string',
+  language: 'string',
+  createdAt: 'number',
+};
+
+interface VectorizeResponse<T> {
+  success: boolean;
+  errors?: Array<{ code: number; message: string }>;
+  result: T;
+}
+
+interface VectorizeMatch {
+  id: string;
+  score: number;
+  namespace?: string;
+  metadata?: Record<string, any>;
+  values?: number[];
+}
+
+interface VectorizeIndexInfo {
+  dimensions: number;
+  vectorCount: number;
+}
+
+export class VectorizeApiError extends Error {
+  constructor(message: string, public readonly status: number, public readonly code?: number) {
+    super(message);
+    this.name = 'VectorizeApiError';
+  }
+}
+
+/**
+ * Rate limits and account or index limits that retrying immediately won't fix
+ */
+export class VectorizeQuotaError extends VectorizeApiError {
+  constructor(message: string, status: number, code?: number) {
+    super(message, status, code);
+    this.name = 'VectorizeQuotaError';
+  }
+}
+
+/**
+ * Cloudflare Vectorize over the REST API
+ *
+ * Chunk content is stored in vector metadata. Writes are applied
+ * asynchronously by Vectorize, so new vectors may take a few seconds to
+ * appear in search results and counts.
+ */
 export class VectorizeAdapter implements VectorStore {
-  // Cloudflare Vectorize is accessed via environment bindings in Workers
-  // For a Node.js MCP server, this would need to use Cloudflare API
-  // This is a placeholder implementation
-  
-  constructor(config: RAGConfig) {
-    // TODO: Initialize Cloudflare API client or worker bindings
-    throw new Error('Cloudflare Vectorize adapter not yet implemented. Use ChromaDB or Qdrant for now.');
+  private apiUrl: string;
+  private accountId: string;
+  private apiToken: string;
+  private indexName: string;
+  private namespace?: string;
+  private timeoutMs: number;
+  private dimensions: number | null = null;
+
+  constructor(config: RAGConfig, collection: string = DEFAULT_COLLECTION) {
+    const accountId = config.apiKeys?.cloudflare?.accountId;
+    const apiToken = config.apiKeys?.cloudflare?.apiToken;
+    if (!accountId || !apiToken) {
+      throw new Error('Cloudflare Vectorize requires apiKeys.cloudflare.accountId and apiKeys.cloudflare.apiToken. Run "cursor-rag setup".');
+    }
+
+    this.accountId = accountId;
+    this.apiToken = apiToken;
+    this.apiUrl = (config.vectorStoreConfig?.vectorizeApiUrl || DEFAULT_API_URL).replace(/\/+$/, '');
+    // Queries without a namespace see every namespace, so collections get their own index
+    this.indexName = scopedName(config.vectorStoreConfig?.vectorizeIndex || DEFAULT_INDEX, collection);
+    this.namespace = config.vectorStoreConfig?.vectorizeNamespace || undefined;
+    this.timeoutMs = config.vectorStoreConfig?.vectorizeTimeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+    if (this.namespace && Buffer.byteLength(this.namespace) > MAX_NAMESPACE_BYTES) {
+      throw new Error(`Vectorize namespace "${this.namespace}" is longer than ${MAX_NAMESPACE_BYTES} bytes`);
+    }
+  }
+
+  /**
+   * Create the index with the given dimensions if it doesn't exist yet
+   */
+  async initialize(vectorSize?: number): Promise<void> {
+    if (this.dimensions !== null) return;
+
+    const existing = await this.getIndex();
+    if (existing) {
+      this.dimensions = existing.dimensions;
+      return;
+    }
+    if (!vectorSize) return;
+
+    await this.request('POST', '/indexes', {
+      name: this.indexName,
+      description: 'cursor-recursive-rag knowledge base',
+      config: { dimensions: vectorSize, metric: 'cosine' },
+    });
+    for (const [propertyName, indexType] of Object.entries(FILTERABLE_PROPERTIES)) {
+      await this.request('POST', `${this.indexPath()}/metadata_index/create`, { propertyName, indexType });
+    }
+    this.dimensions = vectorSize;
   }
 
   async add(docs: VectorDocument[]): Promise<void> {
-    throw new Error('Not implemented');
+    if (docs.length === 0) return;
+    await this.initialize(docs[0].embedding.length);
+
+    const lines = docs.map(doc => {
+      if (doc.embedding.length !== this.dimensions) {
+        throw new Error(
+          `Vectorize index "${this.indexName}" has ${this.dimensions} dimensions but chunk ${doc.id} has ${doc.embedding.length}. ` +
+          'Run "cursor-rag reindex --embeddings <type>" to re-embed the store.'
+        );
+      }
+      if (Buffer.byteLength(doc.id) > MAX_ID_BYTES) {
+        throw new Error(`Chunk ID "${doc.id}" is longer than the ${MAX_ID_BYTES} bytes Vectorize allows`);
+      }
+
+      const metadata = { ...doc.metadata, content: doc.content };
+      const metadataBytes = Buffer.byteLength(JSON.stringify(metadata));
+      if (metadataBytes > MAX_METADATA_BYTES) {
+        throw new VectorizeQuotaError(
+          `Chunk ${doc.id} has ${metadataBytes} bytes of content and metadata; Vectorize allows ${MAX_METADATA_BYTES}. Use a smaller chunking.chunkSize.`,
+          400
+        );
+      }
+
+      return JSON.stringify({
+        id: doc.id,
+        values: doc.embedding,
+        metadata,
+        ...(this.namespace ? { namespace: this.namespace } : {}),
+      });
+    });
+
+    for (let i = 0; i < lines.length; i += WRITE_BATCH_SIZE) {
+      await this.request('POST', `${this.indexPath()}/upsert`, lines.slice(i, i + WRITE_BATCH_SIZE).join('\n'), 'application/x-ndjson');
+    }
   }
 
   async search(embedding: number[], options: SearchOptions): Promise<SearchResult[]> {
-    throw new Error('Not implemented');
+    const filter = toVectorizeFilter(parseMetadataFilter(options.filter));
+    await this.initialize();
+    if (this.dimensions === null) return [];
+
+    const topK = Math.min(options.topK, MAX_TOP_K);
+    const withMetadata = topK <= MAX_TOP_K_WITH_METADATA;
+
+    const result = await this.request<{ matches: VectorizeMatch[] }>('POST', `${this.indexPath()}/query`, {
+      vector: embedding,
+      topK,
+      returnValues: false,
+      returnMetadata: withMetadata ? 'all' : 'none',
+      ...(filter ? { filter } : {}),
+      ...(this.namespace ? { namespace: this.namespace } : {}),
+    });
+
+    let matches = result.matches;
+    if (!withMetadata && matches.length > 0) {
+      const byId = new Map((await this.getByIds(matches.map(m => m.id))).map(v => [v.id, v]));
+      matches = matches.map(m => ({ ...m, metadata: byId.get(m.id)?.metadata }));
+    }
+
+    return matches.map(match => {
+      const { content, ...metadata } = match.metadata || {};
+      return { id: match.id, content: content || '', metadata, score: match.score };
+    });
   }
 
   async delete(ids: string[]): Promise<void> {
-    throw new Error('Not implemented');
+    if (ids.length === 0) return;
+    await this.initialize();
+    if (this.dimensions === null) return;
+
+    for (let i = 0; i < ids.length; i += WRITE_BATCH_SIZE) {
+      await this.request('POST', `${this.indexPath()}/delete_by_ids`, { ids: ids.slice(i, i + WRITE_BATCH_SIZE) });
+    }
   }
 
+  /**
+   * Vectors in the index, or in the namespace when one is configured
+   *
+   * Vectorize only reports index-wide counts, so a namespace is counted by
+   * listing its vectors.
+   */
   async count(): Promise<number> {
-    throw new Error('Not implemented');
+    await this.initialize();
+    if (this.dimensions === null) return 0;
+
+    if (!this.namespace) {
+      const info = await this.request<VectorizeIndexInfo>('GET', `${this.indexPath()}/info`);
+      return info.vectorCount || 0;
+    }
+
+    let total = 0;
+    let cursor: string | null = null;
+    do {
+      const page = await this.scan(cursor, 1000);
+      total += page.chunks.length;
+      cursor = page.nextCursor;
+    } while (cursor);
+    return total;
   }
+
+  async scan(cursor: string | null, limit: number, options: VectorStoreScanOptions = {}): Promise<VectorStoreScanPage> {
+    await this.initialize();
+    if (this.dimensions === null) return { chunks: [], nextCursor: null };
+
+    const params = new URLSearchParams({ count: String(Math.min(limit, 1000)) });
+    if (cursor) params.set('cursor', cursor);
+    const page = await this.request<{ vectors: Array<{ id: string }>; isTruncated: boolean; nextCursor?: string | null }>(
+      'GET',
+      `${this.indexPath()}/list?${params}`
+    );
+
+    const vectors = await this.getByIds(page.vectors.map(v => v.id));
+    const chunks: StoredChunk[] = vectors
+      .filter(v => !this.namespace || v.namespace === this.namespace)
+      .map(v => {
+        const { content, ...metadata } = v.metadata || {};
+        const chunk: StoredChunk = { id: v.id, content: content || '', metadata };
+        if (options.includeEmbeddings && v.values) chunk.embedding = v.values;
+        return chunk;
+      });
+
+    return { chunks, nextCursor: page.isTruncated && page.nextCursor ? page.nextCursor : null };
+  }
+
+  /**
+   * Delete the index, or only the namespace's vectors when one is configured
+   *
+   * Without a namespace the next add recreates the index with the new vector
+   * size. Namespaces share their index's dimensions.
+   */
+  async clear(): Promise<void> {
+    const existing = await this.getIndex();
+    if (!existing) return;
+
+    if (!this.namespace) {
+      await this.request('DELETE', this.indexPath());
+      this.dimensions = null;
+      return;
+    }
+
+    this.dimensions = existing.dimensions;
+    const ids: string[] = [];
+    let cursor: string | null = null;
+    do {
+      const page = await this.scan(cursor, 1000);
+      ids.push(...page.chunks.map(c => c.id));
+      cursor = page.nextCursor;
+    } while (cursor);
+    await this.delete(ids);
+  }
+
+  private async getIndex(): Promise<{ dimensions: number } | null> {
+    try {
+      const index = await this.request<{ config: { dimensions: number } }>('GET', this.indexPath());
+      return { dimensions: index.config.dimensions };
+    } catch (error) {
+      if (error instanceof VectorizeApiError && error.status === 404) return null;
+      throw error;
+    }
+  }
+
+  private async getByIds(ids: string[]): Promise<VectorizeMatch[]> {
+    const vectors: VectorizeMatch[] = [];
+    for (let i = 0; i < ids.length; i += READ_BATCH_SIZE) {
+      vectors.push(...await this.request<VectorizeMatch[]>('POST', `${this.indexPath()}/get_by_ids`, { ids: ids.slice(i, i + READ_BATCH_SIZE) }));
+    }
+    return vectors;
+  }
+
+  private indexPath(): string {
+    return `/indexes/${encodeURIComponent(this.indexName)}`;
+  }
+
+  /**
+   * Call the Vectorize API, retrying rate-limited requests after Retry-After
+   */
+  private async request<T = unknown>(method: string, path: string, body?: unknown, contentType = 'application/json'): Promise<T> {
+    const url = `${this.apiUrl}/accounts/${encodeURIComponent(this.accountId)}/vectorize/v2${path}`;
+
+    for (let attempt = 0; ; attempt++) {
+      let response: Response;
+      try {
+        response = await fetch(url, {
+          method,
+          headers: {
+            Authorization: `Bearer ${this.apiToken}`,
+            ...(body !== undefined ? { 'Content-Type': contentType } : {}),
+          },
+          body: body === undefined ? undefined : typeof body === 'string' ? body : JSON.stringify(body),
+          signal: AbortSignal.timeout(this.timeoutMs),
+        });
+      } catch (error) {
+        if (error instanceof Error && error.name === 'TimeoutError') {
+          throw new Error(`Vectorize ${method} ${path.split('?')[0]} timed out after ${this.timeoutMs}ms`);
+        }
+        throw error;
+      }
+
+      let payload: VectorizeResponse<T> | null = null;
+      try {
+        payload = await response.json() as VectorizeResponse<T>;
+      } catch {
+        // Non-JSON error pages from proxies or gateways
+      }
+
+      if (response.ok && payload?.success !== false) {
+        return payload?.result as T;
+      }
+
+      if (response.status === 429 && attempt < MAX_RETRIES) {
+        await new Promise(resolve => setTimeout(resolve, retryDelayMs(response.headers.get('retry-after'), attempt)));
+        continue;
+      }
+
+      throw this.toError(method, path, response.status, payload);
+    }
+  }
+
+  private toError(method: string, path: string, status: number, payload: VectorizeResponse<unknown> | null): VectorizeApiError {
+    const first = payload?.errors?.[0];
+    const detail = payload?.errors?.map(e => `${e.message} (code ${e.code})`).join('; ') || `HTTP ${status}`;
+    const where = `Vectorize ${method} ${path.split('?')[0]}`;
+
+    if (status === 429) {
+      return new VectorizeQuotaError(`${where} was rate limited after ${MAX_RETRIES + 1} attempts: ${detail}`, status, first?.code);
+    }
+    if (/quota|limit|exceed/i.test(detail)) {
+      return new VectorizeQuotaError(
+        `${where} hit a Vectorize limit on index "${this.indexName}": ${detail}. ` +
+        'Check the Vectorize limits of your Cloudflare plan, or delete unused sources.',
+        status,
+        first?.code
+      );
+    }
+    if (status === 401 || status === 403) {
+      return new VectorizeApiError(`${where} was rejected: ${detail}. Check apiKeys.cloudflare.apiToken has Vectorize edit permission.`, status, first?.code);
+    }
+    return new VectorizeApiError(`${where} failed: ${detail}`, status, first?.code);
+  }
+}
+
+/**
+ * Milliseconds to wait before retrying a rate-limited request
+ *
+ * Retry-After may be a number of seconds or an HTTP date. Without a usable
+ * value the wait backs off exponentially from one second.
+ */
+export function retryDelayMs(retryAfter: string | null, attempt: number, now: number = Date.now()): number {
+  const value = retryAfter?.trim() ?? '';
+  let wait = RETRY_BASE_MS * 2 ** attempt;
+  if (/^\d+(\.\d+)?$/.test(value)) {
+    wait = Number(value) * 1000;
+  } else if (value && !Number.isNaN(Date.parse(value))) {
+    wait = Math.max(0, Date.parse(value) - now);
+  }
+  return Math.min(wait, MAX_RETRY_WAIT_MS);
+}
+
+/**
+ * Translate a parsed filter into a Vectorize metadata filter
+ *
+ * Vectorize ANDs the conditions of its filter object and has no `$or` or
+ * `$exists`, and filters only on the indexed `FILTERABLE_PROPERTIES`.
+ */
+export function toVectorizeFilter(node: FilterNode | null): Record<string, any> | undefined {
+  if (!node) return undefined;
+
+  const filter: Record<string, Record<string, any>> = {};
+  const add = (child: FilterNode): void => {
+    if ('filters' in child) {
+      if (child.op === '$or') throw unsupportedFilter('Vectorize', '$or');
+      child.filters.forEach(add);
+      return;
+    }
+    if (child.op === '$exists') throw unsupportedFilter('Vectorize', '$exists');
+    if (!(child.field in FILTERABLE_PROPERTIES)) {
+      throw new MetadataFilterError(
+        `Vectorize can only filter on ${Object.keys(FILTERABLE_PROPERTIES).join(', ')}; not on ${child.field}`
+      );
+    }
+
+    const conditions = filter[child.field] ??= {};
+    if (child.op in conditions) {
+      throw unsupportedFilter('Vectorize', `two ${child.op} conditions on "${child.field}"`);
+    }
+    conditions[child.op] = 'values' in child ? child.values : child.value;
+  };
+
+  add(node);
+  return filter;
 }
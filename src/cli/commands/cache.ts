@@ -0,0 +1,60 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { loadConfig } from '../../services/config.js';
+import { getEmbeddingCache } from '../../services/embeddingCache.js';
+
+const cacheCommand = new Command('cache')
+  .description('Inspect or clear the embedding cache');
+
+cacheCommand
+  .command('stats')
+  .description('Show cache size, hit rate and cached models')
+  .action(() => {
+    try {
+      const config = loadConfig();
+      const stats = getEmbeddingCache(undefined, { maxEntries: config.embeddingCache?.maxEntries }).getStats();
+
+      console.log(chalk.bold('\n🗄️  Embedding cache:'));
+      if (config.embeddingCache?.enabled === false) {
+        console.log(chalk.yellow('  Disabled in config (embeddingCache.enabled = false)'));
+      }
+      console.log(`  Path: ${chalk.gray(stats.path)}`);
+      console.log(`  Entries: ${chalk.cyan(stats.entries.toLocaleString())} of ${stats.maxEntries.toLocaleString()} (${formatBytes(stats.sizeBytes)})`);
+      console.log(`  Hits: ${chalk.cyan(stats.hits.toLocaleString())}, misses: ${chalk.cyan(stats.misses.toLocaleString())} (${(stats.hitRate * 100).toFixed(1)}% hit rate)`);
+      console.log(`  Evictions: ${stats.evictions.toLocaleString()}`);
+
+      if (stats.models.length > 0) {
+        console.log(chalk.bold('\n  Models:'));
+        for (const model of stats.models) {
+          console.log(`    - ${model.model} ${chalk.gray(`(${model.dimensions}d)`)}: ${model.entries.toLocaleString()} entries`);
+        }
+      }
+      console.log('');
+    } catch (error) {
+      console.error(chalk.red(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`));
+      process.exit(1);
+    }
+  });
+
+cacheCommand
+  .command('clear')
+  .description('Remove cached embeddings')
+  .option('--model <model>', 'Only remove entries of this model (as listed by "cache stats", e.g. xenova:Xenova/all-MiniLM-L6-v2)')
+  .action((options) => {
+    try {
+      const removed = getEmbeddingCache().clear(options.model);
+      const scope = options.model ? ` for ${options.model}` : '';
+      console.log(chalk.green(`\n✓ Removed ${removed.toLocaleString()} cached embedding(s)${scope}\n`));
+    } catch (error) {
+      console.error(chalk.red(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`));
+      process.exit(1);
+    }
+  });
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export { cacheCommand };
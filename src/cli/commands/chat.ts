@@ -15,6 +15,7 @@ import {
 } from '../../services/conversationProcessor.js';
 import { getMemoryMetadataStore } from '../../services/memoryMetadataStore.js';
 import { createEnhancedVectorStore } from '../../services/enhancedVectorStore.js';
+import { getLexicalIndex } from '../../services/lexicalIndex.js';
 import { createKnowledgeExtractor } from '../../services/knowledgeExtractor.js';
 import { createKnowledgeStorageService } from '../../services/knowledgeStorage.js';
 import { countExtractedItems } from '../../types/extractedKnowledge.js';
@@ -114,7 +115,7 @@ chatCommand
       const vectorStore = createVectorStore(config.vectorStore, config);
       const embedder = await createEmbedder(config.embeddings, config);
       const metadataStore = getMemoryMetadataStore();
-      const enhancedStore = createEnhancedVectorStore(vectorStore);
+      const enhancedStore = createEnhancedVectorStore(vectorStore, { lexicalIndex: getLexicalIndex() });
 
       spinner.succeed('Configuration loaded');
 
@@ -295,7 +296,7 @@ chatCommand
     const vectorStore = createVectorStore(config.vectorStore, config);
     const embedder = await createEmbedder(config.embeddings, config);
     const metadataStore = getMemoryMetadataStore();
-    const enhancedStore = createEnhancedVectorStore(vectorStore);
+    const enhancedStore = createEnhancedVectorStore(vectorStore, { lexicalIndex: getLexicalIndex() });
     const reader = createCursorChatReader();
     const processor = createConversationProcessor();
 
@@ -0,0 +1,143 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import ora from 'ora';
+import inquirer from 'inquirer';
+import { existsSync } from 'fs';
+import { join } from 'path';
+import { loadConfig, writeConfig } from '../../services/config.js';
+import {
+  DEFAULT_COLLECTION,
+  addCollection,
+  findCollectionForPath,
+  getCollectionDir,
+  listCollections,
+  removeCollection,
+} from '../../services/collections.js';
+import { deleteCollectionData } from '../../services/collectionStores.js';
+import { SourceRegistry, getSourceRegistry } from '../../services/sourceRegistry.js';
+
+const collectionsCommand = new Command('collections')
+  .description('List, create and delete named collections (separate knowledge bases)');
+
+collectionsCommand
+  .command('list')
+  .description('List collections with their workspace paths and sizes')
+  .action(() => {
+    try {
+      const config = loadConfig();
+      const current = findCollectionForPath(config, process.cwd());
+
+      console.log(chalk.bold(`\n🗂️  Collections:\n`));
+      for (const collection of listCollections(config)) {
+        const sources = listCollectionSources(collection.name);
+        const chunks = sources.reduce((sum, s) => sum + s.chunkIds.length, 0);
+        const markers = [
+          collection.isDefault ? 'default' : null,
+          collection.name === current ? 'this directory' : null,
+        ].filter(Boolean);
+
+        console.log(
+          `  ${chalk.cyan(collection.name)}${markers.length ? chalk.green(` (${markers.join(', ')})`) : ''} ` +
+          chalk.gray(`${sources.length} sources, ${chunks} chunks`)
+        );
+        if (collection.description) {
+          console.log(chalk.gray(`      ${collection.description}`));
+        }
+        for (const path of collection.paths) {
+          console.log(chalk.gray(`      ${path}`));
+        }
+      }
+      console.log('');
+    } catch (error) {
+      console.error(chalk.red(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`));
+      process.exit(1);
+    }
+  });
+
+collectionsCommand
+  .command('create <name>')
+  .description('Create a collection, optionally selected automatically for workspaces under the given paths')
+  .option('--path <dirs...>', 'Workspace directories that use this collection')
+  .option('--description <text>', 'What the collection holds')
+  .option('--default', 'Use this collection when no collection is named and no path matches')
+  .action((name: string, options) => {
+    try {
+      const config = addCollection(loadConfig(), name, {
+        description: options.description,
+        paths: options.path,
+      });
+      if (options.default) {
+        config.defaultCollection = name;
+      }
+      writeConfig(config);
+
+      console.log(chalk.green(`\n✓ Created collection "${name}"`));
+      for (const path of config.collections![name].paths ?? []) {
+        console.log(chalk.gray(`  Used for workspaces under ${path}`));
+      }
+      console.log(chalk.gray(`  Ingest into it with: cursor-rag ingest <source> --collection ${name}\n`));
+    } catch (error) {
+      console.error(chalk.red(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`));
+      process.exit(1);
+    }
+  });
+
+collectionsCommand
+  .command('delete <name>')
+  .description('Delete a collection and every chunk, source and memory in it')
+  .option('--yes', 'Do not ask for confirmation')
+  .action(async (name: string, options) => {
+    try {
+      const config = loadConfig();
+      // Validate before asking; removeCollection throws for the default and unknown names
+      const updated = removeCollection(config, name);
+
+      if (!options.yes) {
+        const { confirmed } = await inquirer.prompt([{
+          type: 'confirm',
+          name: 'confirmed',
+          message: `Delete collection "${name}" and everything ingested into it?`,
+          default: false
+        }]);
+        if (!confirmed) {
+          console.log(chalk.gray('Cancelled.'));
+          return;
+        }
+      }
+
+      const spinner = ora(`Deleting ${name}...`).start();
+      try {
+        await deleteCollectionData(config, name);
+      } catch (error) {
+        spinner.fail('Delete failed');
+        throw error;
+      }
+      // Only forget the collection once its data is gone, so a failed delete can be retried
+      writeConfig(updated);
+      spinner.succeed(`Deleted collection "${name}"`);
+    } catch (error) {
+      console.error(chalk.red(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`));
+      process.exit(1);
+    }
+  });
+
+/**
+ * Sources of a collection, read without opening its vector store
+ */
+function listCollectionSources(collection: string) {
+  if (collection === DEFAULT_COLLECTION) {
+    return getSourceRegistry().listSources();
+  }
+  const dbPath = join(getCollectionDir(collection), 'sources.db');
+  if (!existsSync(dbPath)) {
+    return [];
+  }
+  const registry = new SourceRegistry(dbPath);
+  try {
+    return registry.listSources();
+  } finally {
+    registry.close();
+  }
+}
+
+export { collectionsCommand };
@@ -0,0 +1,51 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import ora from 'ora';
+import { resolve } from 'path';
+import { loadConfig } from '../../services/config.js';
+import { resolveCollection } from '../../services/collections.js';
+import { getCollectionStores } from '../../services/collectionStores.js';
+import { ARCHIVE_EXTENSION, exportKnowledgeBase } from '../../services/knowledgeArchive.js';
+import { describeEmbedder } from '../../services/embeddingMigration.js';
+
+export const exportCommand = new Command('export')
+  .description('Write the knowledge base (chunks, vectors, memory metadata, sources) to a portable archive')
+  .argument('[file]', `Archive to write (default: cursor-rag-<collection>-<date>${ARCHIVE_EXTENSION})`)
+  .option('--collection <name>', 'Collection to export (default: the one configured for this directory)')
+  .option('--no-embeddings', 'Leave vectors out; the archive must then be re-embedded on import')
+  .option('--force', 'Overwrite an existing file')
+  .action(async (file: string | undefined, options) => {
+    const spinner = ora('Exporting knowledge base...').start();
+
+    try {
+      const config = loadConfig();
+      const collection = resolveCollection(config, options.collection, process.cwd());
+      const path = resolve(file ?? `cursor-rag-${collection}-${new Date().toISOString().slice(0, 10)}${ARCHIVE_EXTENSION}`);
+
+      const result = await exportKnowledgeBase({ ...getCollectionStores(config, collection), config }, path, {
+        includeEmbeddings: options.embeddings,
+        overwrite: !!options.force,
+        onProgress: (done) => {
+          spinner.text = `Exporting chunks... ${done}`;
+        },
+      });
+
+      spinner.succeed(
+        `Exported ${result.info.chunks} chunks from ${collection} (${config.vectorStore}) ` +
+        `in ${(result.durationMs / 1000).toFixed(1)}s`
+      );
+      console.log(chalk.gray(`  ${result.path} (${(result.bytes / 1024 / 1024).toFixed(1)} MB)`));
+      if (result.info.embedder) {
+        const vectors = result.info.includesEmbeddings ? 'Vectors' : 'Vectors left out; made';
+        console.log(chalk.gray(`  ${vectors} with ${describeEmbedder(result.info.embedder)}`));
+      }
+      const tables = Object.entries(result.info.tables).map(([table, rows]) => `${table} ${rows}`).join(', ');
+      if (tables) {
+        console.log(chalk.gray(`  Tables: ${tables}`));
+      }
+    } catch (error) {
+      spinner.fail('Export failed');
+      console.error(chalk.red(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`));
+      process.exit(1);
+    }
+  });
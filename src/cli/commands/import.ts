@@ -0,0 +1,112 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import ora from 'ora';
+import { loadConfig, writeConfig } from '../../services/config.js';
+import { createVectorStore } from '../../adapters/vector/index.js';
+import { createEmbedder } from '../../adapters/embeddings/index.js';
+import { resolveCollection } from '../../services/collections.js';
+import { getCollectionStores } from '../../services/collectionStores.js';
+import { importKnowledgeBase, readArchiveInfo, type ArchiveInfo } from '../../services/knowledgeArchive.js';
+import { describeEmbedder } from '../../services/embeddingMigration.js';
+import type { RAGConfig } from '../../types/index.js';
+
+const EMBEDDER_TYPES: RAGConfig['embeddings'][] = ['xenova', 'openai', 'ollama'];
+
+export const importCommand = new Command('import')
+  .description('Load an archive written by "cursor-rag export", optionally into another vector store')
+  .argument('<file>', 'Archive to import')
+  .option('--collection <name>', 'Collection to import into (default: the one configured for this directory)')
+  .option('--store <type>', 'Vector store to import into, e.g. qdrant; the config is switched to it afterwards')
+  .option('--embeddings <type>', 'Embedder for the imported chunks: xenova, openai, or ollama (default: the configured one)')
+  .option('--reembed', 'Embed the chunk text again instead of using the archived vectors')
+  .option('--replace', 'Empty the collection first instead of merging into it')
+  .option('--batch-size <n>', 'Chunks embedded per batch when re-embedding', '32')
+  .option('--info', 'Only describe the archive')
+  .action(async (file: string, options) => {
+    const spinner = ora('Reading archive...').start();
+
+    try {
+      const info = readArchiveInfo(file);
+      if (options.info) {
+        spinner.stop();
+        printArchiveInfo(file, info);
+        return;
+      }
+
+      const config = loadConfig();
+      const type = (options.embeddings || config.embeddings) as RAGConfig['embeddings'];
+      if (!EMBEDDER_TYPES.includes(type)) {
+        throw new Error(`Invalid embeddings "${options.embeddings}". Use one of: ${EMBEDDER_TYPES.join(', ')}`);
+      }
+
+      const targetConfig: RAGConfig = {
+        ...config,
+        vectorStore: (options.store || config.vectorStore) as RAGConfig['vectorStore'],
+        embeddings: type,
+      };
+      const embedder = await createEmbedder(type, targetConfig);
+      if (targetConfig.vectorStore.startsWith('redis') || config.vectorStoreConfig?.vectorDim !== undefined) {
+        // Redis indexes are created with the configured dimension
+        targetConfig.vectorStoreConfig = { ...config.vectorStoreConfig, vectorDim: embedder.dimensions };
+      }
+
+      const collection = resolveCollection(config, options.collection, process.cwd());
+      const stores = {
+        ...getCollectionStores(config, collection),
+        vectorStore: createVectorStore(targetConfig.vectorStore, targetConfig, collection),
+        config: targetConfig,
+        embedder,
+      };
+
+      spinner.text = `Importing ${info.chunks} chunks into ${collection} (${targetConfig.vectorStore})...`;
+      const result = await importKnowledgeBase(stores, file, {
+        reembed: !!options.reembed,
+        replace: !!options.replace,
+        batchSize: parseInt(options.batchSize, 10) || undefined,
+        onProgress: (done, total) => {
+          spinner.text = `${options.reembed ? 'Re-embedding' : 'Importing'} chunks... ${done}/${total}`;
+        },
+      });
+
+      const configChanged = config.vectorStore !== targetConfig.vectorStore
+        || config.embeddings !== targetConfig.embeddings
+        || config.vectorStoreConfig !== targetConfig.vectorStoreConfig;
+      if (configChanged) {
+        writeConfig(targetConfig);
+      }
+
+      spinner.succeed(
+        `Imported ${result.chunks} chunks into ${collection} (${targetConfig.vectorStore}) ` +
+        `in ${(result.durationMs / 1000).toFixed(1)}s`
+      );
+      console.log(chalk.gray(`  ${result.reembedded ? 'Re-embedded' : 'Vectors'} with ${describeEmbedder(result.embedder)}`));
+      const tables = Object.entries(result.tables).map(([table, rows]) => `${table} ${rows}`).join(', ');
+      if (tables) {
+        console.log(chalk.gray(`  Tables: ${tables}`));
+      }
+      if (config.vectorStore !== targetConfig.vectorStore) {
+        console.log(chalk.gray(`Config updated: vectorStore = ${targetConfig.vectorStore}`));
+      }
+      if (config.embeddings !== targetConfig.embeddings) {
+        console.log(chalk.gray(`Config updated: embeddings = ${targetConfig.embeddings}`));
+      }
+    } catch (error) {
+      spinner.fail('Import failed');
+      console.error(chalk.red(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`));
+      process.exit(1);
+    }
+  });
+
+function printArchiveInfo(file: string, info: ArchiveInfo): void {
+  console.log(chalk.bold(`\n📦 ${file}\n`));
+  console.log(`  Created: ${info.createdAt.toLocaleString()}`);
+  console.log(`  From: ${info.collection} (${info.vectorStore})`);
+  console.log(`  Chunks: ${info.chunks}`);
+  if (info.embedder) {
+    console.log(`  Embedder: ${describeEmbedder(info.embedder)}${info.includesEmbeddings ? '' : chalk.yellow(' (vectors left out)')}`);
+  }
+  for (const [table, rows] of Object.entries(info.tables)) {
+    console.log(chalk.gray(`  ${table}: ${rows} rows`));
+  }
+  console.log('');
+}
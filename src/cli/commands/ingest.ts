@@ -1,13 +1,41 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
 import ora from 'ora';
-import { readFileSync, statSync, readdirSync } from 'fs';
-import { join, extname } from 'path';
+import { existsSync, statSync } from 'fs';
 import { loadConfig } from '../../services/config.js';
-import { createVectorStore } from '../../adapters/vector/index.js';
 import { createEmbedder } from '../../adapters/embeddings/index.js';
 import { crawlAndIngestTool } from '../../server/tools/crawl.js';
 import { ingestDocumentTool } from '../../server/tools/ingest.js';
+import { resolveCollection } from '../../services/collections.js';
+import { getCollectionStores } from '../../services/collectionStores.js';
+import { createDirectoryIngestor, type DirectorySyncResult } from '../../services/directoryIngestor.js';
+import type { ChunkBoundaryMode, ChunkOptions, ChunkStrategy } from '../../types/index.js';
+
+/**
+ * Add the chunking flags shared by ingest and sources reingest
+ */
+export function addChunkingOptions(command: Command): Command {
+  return command
+    .option('--chunk-size <tokens>', 'Maximum chunk size in tokens')
+    .option('--chunk-overlap <percent>', 'Sliding-window overlap as a percentage of the window')
+    .option('--boundaries <mode>', 'Split on semantic boundaries, paragraphs only, or none (semantic, paragraph, none)')
+    .option('--tokenizer <model>', 'tiktoken model used to count tokens (e.g. gpt-4o)')
+    .option('--chunk-strategy <strategy>', 'auto (code-aware for source files) or text');
+}
+
+/**
+ * Collect chunking overrides from parsed flags; undefined when none were given
+ */
+export function chunkingFromOptions(options: Record<string, any>): ChunkOptions | undefined {
+  const chunking: ChunkOptions = {
+    chunkSize: options.chunkSize !== undefined ? parseInt(options.chunkSize, 10) : undefined,
+    chunkOverlap: options.chunkOverlap !== undefined ? parseFloat(options.chunkOverlap) : undefined,
+    boundaryMode: options.boundaries as ChunkBoundaryMode | undefined,
+    tokenizerModel: options.tokenizer,
+    strategy: options.chunkStrategy as ChunkStrategy | undefined,
+  };
+  return Object.values(chunking).some(value => value !== undefined) ? chunking : undefined;
+}
 
 export const ingestCommand = new Command('ingest')
   .description('Ingest documents into knowledge base')
@@ -15,15 +43,39 @@ export const ingestCommand = new Command('ingest')
   .option('--crawl', 'Crawl website (for URLs)')
   .option('--max-pages <n>', 'Max pages to crawl', '100')
   .option('--max-depth <n>', 'Max crawl depth', '3')
+  .option('--local', 'Use the built-in crawler even when a Firecrawl API key is configured')
+  .option('--path-prefix <path>', 'Only crawl URLs under this path, e.g. /docs/ (built-in crawler)')
+  .option('--cross-origin', 'Follow links to other origins (built-in crawler)')
+  .option('--ignore-robots', 'Do not honour robots.txt (built-in crawler)')
+  .option('--force', 'Re-embed sources even if their content is unchanged')
+  .option('--watch', 'Keep running and re-ingest files in a directory when they change')
+  .option('--include <globs...>', 'Only ingest files matching these globs (directories)')
+  .option('--exclude <globs...>', 'Skip files matching these globs (directories)')
+  .option('--no-gitignore', 'Ignore .gitignore rules when scanning directories')
+  .option('--interval <seconds>', 'Full rescan interval in watch mode', '30')
+  .option('--collection <name>', 'Collection to ingest into (default: the one configured for this directory)');
+
+addChunkingOptions(ingestCommand)
   .action(async (source, options) => {
+    const intervalSeconds = Number(options.interval);
+    if (!Number.isFinite(intervalSeconds) || intervalSeconds < 1) {
+      console.error(chalk.red(`Error: --interval must be a number of seconds of at least 1, got "${options.interval}"`));
+      process.exit(1);
+    }
+    if (options.watch && (source.startsWith('http') || (existsSync(source) && !statSync(source).isDirectory()))) {
+      console.error(chalk.red('Error: --watch only works with a local directory'));
+      process.exit(1);
+    }
+
     const spinner = ora('Loading configuration...').start();
     
     try {
       const config = loadConfig();
-      const vectorStore = createVectorStore(config.vectorStore, config);
+      const stores = getCollectionStores(config, resolveCollection(config, options.collection, process.cwd()));
       const embedder = await createEmbedder(config.embeddings, config);
 
-      const deps = { vectorStore, embedder, config };
+      const chunking = chunkingFromOptions(options);
+      const deps = { ...stores, embedder, config };
 
       spinner.succeed('Configuration loaded');
 
@@ -32,7 +84,13 @@ export const ingestCommand = new Command('ingest')
         const result = await crawlAndIngestTool({
           url: source,
           maxPages: parseInt(options.maxPages || '100', 10),
-          maxDepth: parseInt(options.maxDepth || '3', 10)
+          maxDepth: parseInt(options.maxDepth || '3', 10),
+          engine: options.local ? 'local' : undefined,
+          pathPrefix: options.pathPrefix,
+          sameOrigin: !options.crossOrigin,
+          respectRobots: !options.ignoreRobots,
+          chunking,
+          force: !!options.force
         }, deps);
         
         spinner.stop();
@@ -44,70 +102,67 @@ export const ingestCommand = new Command('ingest')
         }
       } else if (source.startsWith('http')) {
         spinner.start('Fetching and ingesting single page...');
-        try {
-          const response = await fetch(source);
-          if (!response.ok) {
-            throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-          }
-          const text = await response.text();
-          
-          const result = await ingestDocumentTool({
-            source: text,
-            title: new URL(source).pathname.split('/').pop() || source,
-            metadata: { source, url: source }
-          }, deps);
-          
-          spinner.stop();
-          if (result.isError) {
-            console.error(chalk.red(result.content[0].text));
-            process.exit(1);
-          } else {
-            console.log(chalk.green(result.content[0].text));
-          }
-        } catch (error) {
+        const result = await ingestDocumentTool({
+          source,
+          title: new URL(source).pathname.split('/').pop() || source,
+          metadata: { url: source },
+          chunking,
+          force: !!options.force
+        }, deps);
+
+        if (result.isError) {
           spinner.fail('Failed to fetch URL');
-          console.error(chalk.red(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`));
+          console.error(chalk.red(result.content[0].text));
           console.log(chalk.yellow('\nTip: Use --crawl flag for better web content extraction with Firecrawl'));
           process.exit(1);
         }
+
+        spinner.stop();
+        console.log(chalk.green(result.content[0].text));
       } else {
         spinner.start('Ingesting local files...');
         try {
           const stats = statSync(source);
           if (stats.isDirectory()) {
-            const files = readdirSync(source, { recursive: true })
-              .map((f): string => join(source, typeof f === 'string' ? f : f.toString()))
-              .filter(f => {
-                const ext = extname(f).toLowerCase();
-                return ['.txt', '.md', '.json', '.js', '.ts', '.jsx', '.tsx', '.py', '.java', '.cpp', '.c', '.h', '.cs', '.go', '.rs', '.rb', '.php', '.html', '.css', '.xml', '.yaml', '.yml'].includes(ext);
+            const ingestor = createDirectoryIngestor(source, deps, {
+              include: options.include,
+              exclude: options.exclude,
+              gitignore: options.gitignore,
+              chunking,
+              force: !!options.force,
+              pollIntervalMs: intervalSeconds * 1000
+            });
+
+            const result = await ingestor.sync();
+            spinner.succeed(
+              `Scanned ${result.scanned} files: ${result.added.length} added, ${result.updated.length} updated, ` +
+              `${result.unchanged} unchanged, ${result.removed.length} removed (${result.chunksCreated} chunks created)`
+            );
+            printSyncErrors(result);
+
+            if (options.watch) {
+              console.log(chalk.cyan(`\n👀 Watching ${ingestor.getRoot()} for changes...`));
+              console.log(chalk.gray('Press Ctrl+C to stop\n'));
+
+              ingestor.watch(
+                (syncResult) => printSyncChanges(syncResult),
+                (error) => console.warn(chalk.yellow(`Watch warning: ${error.message}`))
+              );
+
+              process.on('SIGINT', () => {
+                ingestor.stop();
+                console.log(chalk.yellow('\n\n👋 Stopped watching.'));
+                process.exit(0);
               });
-            
-            let totalChunks = 0;
-            for (const file of files) {
-              try {
-                const fileContent = readFileSync(file, 'utf-8') as string;
-                const result = await ingestDocumentTool({
-                  source: fileContent,
-                  title: file,
-                  metadata: { source: file, path: file }
-                }, deps);
-                
-                if (!result.isError) {
-                  const match = result.content[0].text.match(/(\d+)\s+chunks/);
-                  if (match) totalChunks += parseInt(match[1], 10);
-                }
-              } catch (error) {
-                console.warn(chalk.yellow(`Skipped ${file}: ${error instanceof Error ? error.message : 'Unknown error'}`));
-              }
+              return;
             }
-            
-            spinner.succeed(`Ingested ${files.length} files (${totalChunks} total chunks)`);
           } else {
-            const content = readFileSync(source, 'utf-8') as string;
             const result = await ingestDocumentTool({
-              source: content,
+              source,
               title: source,
-              metadata: { source, path: source }
+              metadata: { path: source },
+              chunking,
+              force: !!options.force
             }, deps);
             
             spinner.stop();
@@ -132,3 +187,17 @@ export const ingestCommand = new Command('ingest')
       process.exit(1);
     }
   });
+
+function printSyncChanges(result: DirectorySyncResult): void {
+  const time = chalk.gray(new Date().toLocaleTimeString());
+  for (const path of result.added) console.log(`${time} ${chalk.green('+')} ${path}`);
+  for (const path of result.updated) console.log(`${time} ${chalk.cyan('~')} ${path}`);
+  for (const path of result.removed) console.log(`${time} ${chalk.red('-')} ${path}`);
+  printSyncErrors(result);
+}
+
+function printSyncErrors(result: DirectorySyncResult): void {
+  for (const { path, error } of result.errors) {
+    console.warn(chalk.yellow(`Skipped ${path}: ${error}`));
+  }
+}
@@ -4,12 +4,100 @@ import ora from 'ora';
 import {
   MaintenanceScheduler,
   getMaintenanceScheduler,
+  schedulerConfigFromMaintenanceConfig,
   type MaintenanceJobType,
   type MaintenanceJobResult,
 } from '../../services/maintenanceScheduler.js';
-import { getMemoryMetadataStore } from '../../services/memoryMetadataStore.js';
-import { getRelationshipGraph } from '../../services/relationshipGraph.js';
+import { MemoryMetadataStore, getMemoryMetadataStore } from '../../services/memoryMetadataStore.js';
+import { RelationshipGraph, getRelationshipGraph } from '../../services/relationshipGraph.js';
 import { getCategoryManager } from '../../services/categoryManager.js';
+import { loadConfig } from '../../services/config.js';
+import { loadMemoryConfig } from '../../config/memoryConfig.js';
+import { createVectorStore } from '../../adapters/vector/index.js';
+import { createEmbedder } from '../../adapters/embeddings/index.js';
+import { getSourceRegistry } from '../../services/sourceRegistry.js';
+import { createEmbeddingReindexRunner } from '../../services/embeddingMigration.js';
+import { getLexicalIndex } from '../../services/lexicalIndex.js';
+import { createSnapshotRunner } from '../../services/knowledgeArchive.js';
+import { DEFAULT_COLLECTION, listCollections, resolveCollection } from '../../services/collections.js';
+import { getCollectionStores } from '../../services/collectionStores.js';
+import type { RAGConfig } from '../../types/index.js';
+import {
+  consolidateDuplicates,
+  type ConsolidationReport,
+  type DuplicateConsolidationStores,
+} from '../../services/duplicateConsolidation.js';
+
+/**
+ * The scheduler with the cron schedules from the memory config
+ */
+function getScheduler(metadataStore?: MemoryMetadataStore): MaintenanceScheduler {
+  return getMaintenanceScheduler(
+    metadataStore,
+    schedulerConfigFromMaintenanceConfig(loadMemoryConfig().maintenanceConfig)
+  );
+}
+
+/**
+ * Give the scheduler what the monthly reindex needs to re-embed chunks
+ */
+async function attachEmbeddingReindex(scheduler: MaintenanceScheduler): Promise<void> {
+  const config = loadConfig();
+  scheduler.setEmbeddingReindex(createEmbeddingReindexRunner({
+    vectorStore: createVectorStore(config.vectorStore, config),
+    embedder: await createEmbedder(config.embeddings, config),
+    config,
+    sourceRegistry: getSourceRegistry(),
+  }));
+}
+
+/**
+ * Let the scheduler back up the knowledge base before cleanup and weekly
+ */
+function attachSnapshotRunner(scheduler: MaintenanceScheduler): void {
+  const config = loadConfig();
+  scheduler.setSnapshotRunner(createSnapshotRunner({
+    vectorStore: createVectorStore(config.vectorStore, config),
+    config,
+    sourceRegistry: getSourceRegistry(),
+    metadataStore: getMemoryMetadataStore(),
+    lexicalIndex: getLexicalIndex(),
+  }, config.snapshots));
+}
+
+/**
+ * Stores of a collection the duplicate consolidation reads vectors from and
+ * deletes them in
+ */
+function duplicateStores(config: RAGConfig, collection: string): DuplicateConsolidationStores {
+  const { vectorStore, metadataStore, lexicalIndex } = getCollectionStores(config, collection);
+  return {
+    vectorStore,
+    metadataStore,
+    lexicalIndex,
+    relationshipGraph: collection === DEFAULT_COLLECTION
+      ? getRelationshipGraph(metadataStore)
+      : new RelationshipGraph(metadataStore),
+  };
+}
+
+/**
+ * Let the nightly consolidation merge near-duplicate chunks in every collection
+ */
+function attachDuplicateConsolidator(scheduler: MaintenanceScheduler): void {
+  const threshold = loadMemoryConfig().maintenanceConfig.duplicateThreshold;
+  scheduler.setDuplicateConsolidator(async () => {
+    const config = loadConfig();
+    const totals = { clusters: [] as ConsolidationReport['clusters'], duplicatesMerged: 0, vectorsDeleted: 0 };
+    for (const { name } of listCollections(config)) {
+      const report = await consolidateDuplicates(duplicateStores(config, name), { threshold });
+      totals.clusters.push(...report.clusters);
+      totals.duplicatesMerged += report.duplicatesMerged;
+      totals.vectorsDeleted += report.vectorsDeleted;
+    }
+    return totals;
+  });
+}
 
 const maintenanceCommand = new Command('maintenance')
   .description('Memory system maintenance operations');
@@ -20,13 +108,14 @@ maintenanceCommand
   .addHelpText('after', `
 Available jobs:
   decay       - Update decay scores for all chunks
-  consolidate - Nightly consolidation (decay, duplicates, hot items)
+  consolidate - Nightly consolidation (decay, near-duplicate merging, hot items)
   summarize   - Weekly category summarization
-  reindex     - Monthly reindex (cleanup, optimization)
-  cleanup     - Remove archived data (use with caution)`)
+  reindex     - Monthly reindex (cleanup, optimization, re-embedding after an embedder change)
+  cleanup     - Remove archived data after taking a snapshot (use with caution)
+  snapshot    - Back up the knowledge base to ~/.cursor-rag/snapshots`)
   .option('--dry-run', 'Show what would happen without making changes (cleanup only)')
   .action(async (job: string, options) => {
-    const validJobs: MaintenanceJobType[] = ['decay', 'consolidate', 'summarize', 'reindex', 'cleanup'];
+    const validJobs: MaintenanceJobType[] = ['decay', 'consolidate', 'summarize', 'reindex', 'cleanup', 'snapshot'];
     
     if (!validJobs.includes(job as MaintenanceJobType)) {
       console.error(chalk.red(`Unknown job: ${job}`));
@@ -37,14 +126,19 @@ Available jobs:
     const spinner = ora(`Running ${job} maintenance...`).start();
 
     try {
-      const scheduler = getMaintenanceScheduler();
-      let result: MaintenanceJobResult;
+      const scheduler = getScheduler();
 
-      if (job === 'cleanup' && options.dryRun) {
-        result = await scheduler.runCleanup(true);
-      } else {
-        result = await scheduler.runJob(job as MaintenanceJobType);
+      if (job === 'reindex') {
+        await attachEmbeddingReindex(scheduler);
       }
+      if (job === 'consolidate') {
+        attachDuplicateConsolidator(scheduler);
+      }
+      if ((job === 'cleanup' && !options.dryRun) || job === 'snapshot') {
+        attachSnapshotRunner(scheduler);
+      }
+
+      const result = await scheduler.runJob(job as MaintenanceJobType, { dryRun: !!options.dryRun });
 
       if (result.success) {
         spinner.succeed(`${job} maintenance completed`);
@@ -83,15 +177,14 @@ maintenanceCommand
     console.log(chalk.cyan('\n🔧 Starting maintenance scheduler...\n'));
 
     try {
-      const scheduler = getMaintenanceScheduler();
+      const scheduler = getScheduler();
+      await attachEmbeddingReindex(scheduler);
+      attachSnapshotRunner(scheduler);
+      attachDuplicateConsolidator(scheduler);
       scheduler.start();
 
-      console.log(chalk.green('Scheduler is running.'));
-      console.log(chalk.gray('\nScheduled jobs:'));
-      console.log(chalk.gray('  - Hourly: Decay score updates'));
-      console.log(chalk.gray('  - Daily (3 AM): Nightly consolidation'));
-      console.log(chalk.gray('  - Weekly (Sunday 4 AM): Category summarization'));
-      console.log(chalk.gray('  - Monthly (1st, 5 AM): Reindex and optimization'));
+      console.log(chalk.green('\nScheduler is running.'));
+      console.log(chalk.gray('Runs missed while stopped or asleep are caught up once.'));
       console.log(chalk.gray('\nPress Ctrl+C to stop.\n'));
 
       process.on('SIGINT', () => {
@@ -124,7 +217,7 @@ maintenanceCommand
       const metadataStore = getMemoryMetadataStore();
       const relationshipGraph = getRelationshipGraph(metadataStore);
       const categoryManager = getCategoryManager(metadataStore);
-      const scheduler = getMaintenanceScheduler(metadataStore);
+      const scheduler = getScheduler(metadataStore);
 
       await categoryManager.initialize();
 
@@ -138,6 +231,8 @@ maintenanceCommand
           memory: memoryStats,
           graph: graphStats,
           scheduler: schedulerStats,
+          schedule: scheduler.getSchedule(),
+          locks: metadataStore.getMaintenanceLocks(),
           categories: categoriesWithStats,
         }, null, 2));
         return;
@@ -186,8 +281,10 @@ maintenanceCommand
       console.log(chalk.bold('\nMaintenance Scheduler:'));
       console.log(`  Jobs run: ${schedulerStats.totalJobsRun}`);
       console.log(`  Total errors: ${schedulerStats.totalErrors}`);
-      console.log(`  Running: ${scheduler.isRunning() ? chalk.green('Yes') : chalk.gray('No')}`);
-      
+      for (const lock of metadataStore.getMaintenanceLocks()) {
+        console.log(`  Running now: ${lock.jobName} (pid ${lock.pid} on ${lock.host} since ${lock.acquiredAt.toLocaleString()})`);
+      }
+
       if (schedulerStats.lastDecayUpdate) {
         console.log(`  Last decay update: ${schedulerStats.lastDecayUpdate.toLocaleString()}`);
       }
@@ -200,14 +297,20 @@ maintenanceCommand
       if (schedulerStats.lastReindex) {
         console.log(`  Last reindex: ${schedulerStats.lastReindex.toLocaleString()}`);
       }
+      if (schedulerStats.lastSnapshot) {
+        console.log(`  Last snapshot: ${schedulerStats.lastSnapshot.toLocaleString()}`);
+      }
+
+      console.log(chalk.bold('\nSchedule:'));
+      for (const schedule of scheduler.getSchedule()) {
+        console.log(`  ${schedule.name} (${schedule.cron}): ${schedule.jobs.join(', ')}, next ${schedule.nextRun.toLocaleString()}`);
+      }
 
       if (schedulerStats.jobHistory.length > 0) {
         console.log(chalk.bold('\nRecent Jobs:'));
         const recentJobs = schedulerStats.jobHistory.slice(-5);
         for (const job of recentJobs) {
-          const status = job.success ? chalk.green('✓') : chalk.red('✗');
-          const time = job.startTime.toLocaleTimeString();
-          console.log(`  ${status} ${job.jobName} at ${time} (${(job.duration / 1000).toFixed(1)}s)`);
+          printJobRun(job);
         }
       }
 
@@ -224,6 +327,7 @@ maintenanceCommand
   .description('Clean up archived and stale data')
   .option('--dry-run', 'Show what would be deleted without actually deleting')
   .option('--confirm', 'Confirm deletion (required without --dry-run)')
+  .option('--no-snapshot', 'Do not back up the knowledge base before deleting')
   .action(async (options) => {
     try {
       if (!options.dryRun && !options.confirm) {
@@ -237,8 +341,11 @@ maintenanceCommand
 
       const spinner = ora(options.dryRun ? 'Analyzing data...' : 'Cleaning up data...').start();
 
-      const scheduler = getMaintenanceScheduler();
-      const result = await scheduler.runCleanup(options.dryRun);
+      const scheduler = getScheduler();
+      if (!options.dryRun && options.snapshot) {
+        attachSnapshotRunner(scheduler);
+      }
+      const result = await scheduler.runJob('cleanup', { dryRun: !!options.dryRun });
 
       if (result.success) {
         spinner.succeed(options.dryRun ? 'Analysis complete' : 'Cleanup complete');
@@ -259,6 +366,9 @@ maintenanceCommand
         console.log(`  Would delete: ${result.metrics.wouldDelete} chunks`);
       } else {
         console.log(`  Deleted: ${result.metrics.deleted} chunks`);
+        if (result.metrics.snapshotBytes !== undefined) {
+          console.log(chalk.gray(`  Snapshot taken first (${(result.metrics.snapshotBytes / 1024 / 1024).toFixed(1)} MB)`));
+        }
       }
 
       if (result.errors.length > 0) {
@@ -276,4 +386,109 @@ maintenanceCommand
     }
   });
 
+maintenanceCommand
+  .command('duplicates')
+  .description('Report near-duplicate memory chunks, or merge them with --apply')
+  .option('--threshold <n>', 'Cosine similarity for two chunks to count as duplicates (default: maintenanceConfig.duplicateThreshold)')
+  .option('--apply', 'Merge each cluster into its canonical chunk and delete the redundant vectors')
+  .option('--collection <name>', 'Collection to check (default: the one configured for this directory)')
+  .option('--json', 'Output as JSON')
+  .action(async (options) => {
+    const spinner = options.json ? null : ora('Comparing chunk embeddings...').start();
+
+    try {
+      const config = loadConfig();
+      const collection = resolveCollection(config, options.collection, process.cwd());
+      const threshold = options.threshold !== undefined
+        ? parseFloat(options.threshold)
+        : loadMemoryConfig().maintenanceConfig.duplicateThreshold;
+      const report = await consolidateDuplicates(duplicateStores(config, collection), { threshold, dryRun: !options.apply });
+
+      if (options.json) {
+        console.log(JSON.stringify(report, null, 2));
+        return;
+      }
+
+      spinner?.succeed(
+        `Compared ${report.chunksCompared} chunks` +
+        (collection === DEFAULT_COLLECTION ? '' : ` in the "${collection}" collection`) +
+        ` at similarity ≥ ${report.threshold}`
+      );
+      printConsolidationReport(report);
+
+    } catch (error) {
+      spinner?.fail('Duplicate consolidation failed');
+      console.error(chalk.red(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`));
+      process.exit(1);
+    }
+  });
+
+maintenanceCommand
+  .command('history')
+  .description('Show past maintenance job runs')
+  .option('--job <name>', 'Only runs of this job')
+  .option('-n, --limit <n>', 'Number of runs to show', '20')
+  .option('--json', 'Output as JSON')
+  .action((options) => {
+    try {
+      const runs = getMemoryMetadataStore().getMaintenanceRuns({
+        jobName: options.job,
+        limit: parseInt(options.limit, 10) || 20,
+      });
+
+      if (options.json) {
+        console.log(JSON.stringify(runs, null, 2));
+        return;
+      }
+
+      if (runs.length === 0) {
+        console.log(chalk.gray(`\nNo ${options.job ? `${options.job} ` : ''}maintenance runs recorded yet.\n`));
+        return;
+      }
+
+      console.log(chalk.cyan('\n🕒 Maintenance History\n'));
+      for (const run of runs) {
+        printJobRun(run);
+        for (const error of run.errors) {
+          console.log(chalk.yellow(`      ${error}`));
+        }
+      }
+      console.log('');
+
+    } catch (error) {
+      console.error(chalk.red(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`));
+      process.exit(1);
+    }
+  });
+
+function printConsolidationReport(report: ConsolidationReport): void {
+  if (report.clusters.length === 0) {
+    console.log(chalk.gray('\nNo near-duplicates found.\n'));
+    return;
+  }
+
+  console.log(chalk.cyan(`\n🔁 ${report.clusters.length} duplicate clusters\n`));
+  for (const cluster of report.clusters) {
+    console.log(`  ${chalk.green('keep')} ${cluster.canonical.chunkId} ${chalk.gray(`[${cluster.canonical.chunkType}]`)}`);
+    console.log(chalk.gray(`       ${cluster.canonical.preview}`));
+    for (const duplicate of cluster.duplicates) {
+      console.log(`  ${chalk.yellow('drop')} ${duplicate.chunkId} ${chalk.gray(`(${duplicate.similarity.toFixed(3)})`)}`);
+      console.log(chalk.gray(`       ${duplicate.preview}`));
+    }
+    console.log('');
+  }
+
+  if (report.dryRun) {
+    const total = report.clusters.reduce((sum, c) => sum + c.duplicates.length, 0);
+    console.log(chalk.yellow(`DRY RUN - ${total} chunks would be merged. Run with --apply to merge them.\n`));
+  } else {
+    console.log(chalk.green(`Merged ${report.duplicatesMerged} chunks and deleted ${report.vectorsDeleted} vectors.\n`));
+  }
+}
+
+function printJobRun(job: MaintenanceJobResult): void {
+  const status = job.success ? chalk.green('✓') : chalk.red('✗');
+  console.log(`  ${status} ${job.jobName} at ${job.startTime.toLocaleString()} (${(job.duration / 1000).toFixed(1)}s)`);
+}
+
 export { maintenanceCommand };
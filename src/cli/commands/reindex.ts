@@ -0,0 +1,98 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import ora from 'ora';
+import { loadConfig, writeConfig } from '../../services/config.js';
+import { createEmbedder } from '../../adapters/embeddings/index.js';
+import { getEmbedderInfo } from '../../services/sourceRegistry.js';
+import { DEFAULT_COLLECTION, resolveCollection } from '../../services/collections.js';
+import { getCollectionStores } from '../../services/collectionStores.js';
+import { describeEmbedder, getEmbeddingReindexer, sameEmbedder } from '../../services/embeddingMigration.js';
+import type { RAGConfig } from '../../types/index.js';
+
+const EMBEDDER_TYPES: RAGConfig['embeddings'][] = ['xenova', 'openai', 'ollama'];
+
+export const reindexCommand = new Command('reindex')
+  .description('Re-embed every stored chunk with another embedder (resumes an interrupted run)')
+  .option('--embeddings <type>', 'Embedder to move to: xenova, openai, or ollama (default: the unfinished job, else the configured one)')
+  .option('--collection <name>', 'Collection to re-embed (default: the one configured for this directory)')
+  .option('--batch-size <n>', 'Chunks embedded per batch', '32')
+  .option('--force', 'Re-embed even if the store already uses this embedder')
+  .action(async (options) => {
+    const spinner = ora('Preparing re-embedding...').start();
+    let started = false;
+    let collection = DEFAULT_COLLECTION;
+
+    try {
+      const config = loadConfig();
+      collection = resolveCollection(config, options.collection, process.cwd());
+      const reindexer = getEmbeddingReindexer();
+      const activeJob = reindexer.getActiveJob(config.vectorStore, collection);
+
+      const type = (options.embeddings || activeJob?.target.provider || config.embeddings) as RAGConfig['embeddings'];
+      if (!EMBEDDER_TYPES.includes(type)) {
+        throw new Error(`Invalid embeddings "${options.embeddings}". Use one of: ${EMBEDDER_TYPES.join(', ')}`);
+      }
+
+      const targetConfig: RAGConfig = { ...config, embeddings: type };
+      const embedder = await createEmbedder(type, targetConfig);
+      if (config.vectorStore.startsWith('redis') || config.vectorStoreConfig?.vectorDim !== undefined) {
+        // Redis indexes are created with the configured dimension
+        targetConfig.vectorStoreConfig = { ...config.vectorStoreConfig, vectorDim: embedder.dimensions };
+      }
+
+      // Opened with the target config so Redis indexes get the new dimension
+      const { vectorStore, sourceRegistry } = getCollectionStores(targetConfig, collection);
+      const target = getEmbedderInfo(embedder, targetConfig);
+      const stored = sourceRegistry.getStoreEmbedder(config.vectorStore);
+      if (!activeJob && !options.force && stored && sameEmbedder(stored, target)) {
+        spinner.succeed(
+          `The ${config.vectorStore} store of the "${collection}" collection already uses ${describeEmbedder(target)}; ` +
+          'nothing to re-embed'
+        );
+        return;
+      }
+
+      if (activeJob) {
+        spinner.info(`Resuming re-embedding job #${activeJob.id} (${activeJob.done}/${activeJob.total} chunks done)`);
+        spinner.start();
+      }
+
+      started = true;
+      const result = await reindexer.run({
+        vectorStore,
+        embedder,
+        config: targetConfig,
+        sourceRegistry,
+        collection,
+      }, {
+        batchSize: parseInt(options.batchSize, 10) || undefined,
+        onProgress: (progress) => {
+          spinner.text = progress.phase === 'snapshot'
+            ? `Copying chunks from the store... ${progress.done}`
+            : `Re-embedding with ${describeEmbedder(target)}... ${progress.done}/${progress.total}`;
+        },
+      });
+
+      if (config.embeddings !== targetConfig.embeddings || config.vectorStoreConfig !== targetConfig.vectorStoreConfig) {
+        writeConfig(targetConfig);
+      }
+
+      spinner.succeed(
+        `Re-embedded ${result.total} chunks` +
+        (collection === DEFAULT_COLLECTION ? '' : ` of the "${collection}" collection`) +
+        ` with ${describeEmbedder(result.embedder)} ` +
+        `in ${(result.durationMs / 1000).toFixed(1)}s`
+      );
+      if (config.embeddings !== type) {
+        console.log(chalk.gray(`Config updated: embeddings = ${type}`));
+      }
+    } catch (error) {
+      spinner.fail('Re-embedding failed');
+      console.error(chalk.red(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`));
+      if (started) {
+        const again = collection === DEFAULT_COLLECTION ? 'cursor-rag reindex' : `cursor-rag reindex --collection ${collection}`;
+        console.error(chalk.yellow(`Progress is saved; run "${again}" again to resume.`));
+      }
+      process.exit(1);
+    }
+  });
@@ -7,14 +7,24 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
 import ora from 'ora';
-import { resolve, relative, basename } from 'path';
-import { existsSync, mkdirSync, writeFileSync, copyFileSync } from 'fs';
+import { resolve, relative, join } from 'path';
+import { existsSync } from 'fs';
 
 import { getRulesParser, parseRulesDirectory } from '../../services/rulesParser.js';
 import { getRulesAnalyzer } from '../../services/rulesAnalyzer.js';
 import { getRulesMerger } from '../../services/rulesMerger.js';
 import { loadConfig } from '../../services/config.js';
-import type { OptimizationReport, ParsedRule, DuplicateMatch, RuleConflict, OutdatedRule, MergeCandidate } from '../../types/rulesOptimizer.js';
+import {
+  createRulesBackup,
+  diffRulesBackup,
+  listRulesRuns,
+  readRulesBackup,
+  restoreRulesBackup,
+  type RulesBackupManifest,
+  type RulesRunSummary,
+} from '../../services/rulesHistory.js';
+import { lintRules, type RulesLintReport } from '../../services/rulesLinter.js';
+import type { OptimizationReport, ParsedRule, DuplicateMatch, RuleConflict, OutdatedRule, MergeCandidate, FileChange } from '../../types/rulesOptimizer.js';
 
 const rulesCommand = new Command('rules')
   .description('Analyze and optimize Cursor rules and AGENTS.md files');
@@ -166,6 +176,8 @@ rulesCommand
 rulesCommand
   .command('outdated <folder>')
   .description('Show outdated rules')
+  .option('--project <dir>', 'Project to read framework versions from (default: nearest manifest above the folder)')
+  .option('--no-project-versions', 'Only use the configured version checks')
   .option('--json', 'Output as JSON')
   .action(async (folder: string, options) => {
     const folderPath = resolve(folder);
@@ -186,8 +198,11 @@ rulesCommand
         detectOutdated: true,
       });
 
-      const report = await analyzer.analyzeRules(rules, folderPath);
-      const outdated = report.findings.outdated;
+      const outdated = analyzer.findOutdatedRules(rules, {
+        projectRoot: options.project ? resolve(options.project) : undefined,
+        // Without --no-project-versions the analysis.projectVersions setting applies
+        projectVersions: options.projectVersions === false ? false : undefined,
+      });
 
       spinner.succeed(`Found ${outdated.length} potentially outdated rules`);
 
@@ -210,6 +225,60 @@ rulesCommand
     }
   });
 
+rulesCommand
+  .command('lint <folder>')
+  .description('Check rule globs, alwaysApply token cost, conflicts and descriptions against a project')
+  .option('--project <root>', 'Project the globs refer to (default: nearest manifest above the folder)')
+  .option('--file <path>', 'Show the rules that apply to this file and their token cost')
+  .option('--budget <tokens>', 'Token budget for all alwaysApply rules (default: lint.alwaysApplyTokenBudget)')
+  .option('--json', 'Output as JSON')
+  .action(async (folder: string, options) => {
+    const folderPath = resolve(folder);
+    
+    if (!existsSync(folderPath)) {
+      console.error(chalk.red(`Folder not found: ${folderPath}`));
+      process.exit(1);
+    }
+
+    const budget = options.budget !== undefined ? parseInt(options.budget, 10) : undefined;
+    if (budget !== undefined && (isNaN(budget) || budget < 0)) {
+      console.error(chalk.red(`Error: Invalid token budget: ${options.budget}`));
+      process.exit(1);
+    }
+
+    const spinner = ora('Linting rules...').start();
+
+    try {
+      const config = await loadConfig();
+      const rules = parseRulesDirectory(folderPath);
+      const analyzer = getRulesAnalyzer(config, { useLLM: false });
+
+      const report = lintRules(rules, analyzer, {
+        folder: folderPath,
+        projectRoot: options.project ? resolve(options.project) : undefined,
+        alwaysApplyTokenBudget: budget,
+        file: options.file,
+      });
+
+      spinner.succeed(`Linted ${report.rules.length} rule files against ${report.filesScanned} project files`);
+
+      if (options.json) {
+        console.log(JSON.stringify(report, null, 2));
+      } else {
+        printLintReport(report, folderPath);
+      }
+
+      if (report.summary.errors > 0) {
+        process.exit(1);
+      }
+
+    } catch (error) {
+      spinner.fail('Lint failed');
+      console.error(chalk.red(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`));
+      process.exit(1);
+    }
+  });
+
 rulesCommand
   .command('optimize <folder>')
   .description('Optimize rules (dry-run by default)')
@@ -261,7 +330,12 @@ rulesCommand
         // Create backups
         const backupDir = resolve(options.backup);
         spinner.text = 'Creating backups...';
-        createBackups(rules, backupDir);
+        const backup = createRulesBackup(backupDir, {
+          command: 'optimize',
+          folder: folderPath,
+          changes: report.fileChanges,
+          report,
+        });
 
         // Apply optimizations
         spinner.text = 'Applying optimizations...';
@@ -273,7 +347,7 @@ rulesCommand
         console.log(`  Files modified: ${result.filesModified}`);
         console.log(`  Files deleted: ${result.filesDeleted}`);
         console.log(`  Tokens saved: ${chalk.green(result.tokensSaved.toLocaleString())}`);
-        console.log(`  Backup location: ${chalk.gray(backupDir)}`);
+        printBackupCreated(backup, options.backup);
         console.log('');
       }
 
@@ -362,10 +436,16 @@ rulesCommand
       if (!isDryRun && mergeCandidates.length > 0) {
         // Create backups
         const backupDir = resolve(options.backup);
-        const allRules = mergeCandidates.flatMap(c => c.rules);
-        createBackups(allRules, backupDir);
-        
-        console.log(chalk.cyan(`\n📁 Backups created at: ${backupDir}`));
+        const backup = createRulesBackup(backupDir, {
+          command: 'merge',
+          folder: folderPath,
+          changes: mergeCandidates.flatMap(mergeChanges),
+          report,
+          tokensBefore: mergeCandidates.reduce((sum, c) => sum + c.tokensBefore, 0),
+          tokensAfter: mergeCandidates.reduce((sum, c) => sum + c.tokensAfter, 0),
+        });
+
+        printBackupCreated(backup, options.backup);
         console.log(chalk.yellow('\n⚠️  Actual file writing not yet implemented. Review merge candidates above.\n'));
       }
 
@@ -475,8 +555,15 @@ rulesCommand
 
       if (!isDryRun && rewrites.length > 0) {
         const backupDir = resolve(options.backup);
-        createBackups(rewrites.map(r => r.rule), backupDir);
-        console.log(chalk.cyan(`\n📁 Backups created at: ${backupDir}`));
+        const backup = createRulesBackup(backupDir, {
+          command: 'rewrite',
+          folder: folderPath,
+          changes: rewriteChanges(rewrites),
+          tokensBefore: rewrites.reduce((sum, r) => sum + r.tokensBefore, 0),
+          tokensAfter: rewrites.reduce((sum, r) => sum + r.tokensAfter, 0),
+        });
+
+        printBackupCreated(backup, options.backup);
         console.log(chalk.yellow('\n⚠️  Actual file writing not yet implemented. Review rewrites above.\n'));
       }
 
@@ -487,6 +574,108 @@ rulesCommand
     }
   });
 
+rulesCommand
+  .command('history')
+  .description('List applied optimizer runs with their token savings')
+  .option('--backup <dir>', 'Backup directory', '.cursor-rag/rules-backup')
+  .option('-n, --limit <number>', 'Number of runs to show', '20')
+  .option('--json', 'Output as JSON')
+  .action((options) => {
+    try {
+      const runs = listRulesRuns(resolve(options.backup)).slice(0, parseInt(options.limit, 10));
+
+      if (options.json) {
+        console.log(JSON.stringify(runs, null, 2));
+        return;
+      }
+
+      printRulesRuns(runs);
+    } catch (error) {
+      console.error(chalk.red(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`));
+      process.exit(1);
+    }
+  });
+
+rulesCommand
+  .command('restore <run-id>')
+  .description('Roll back the file changes of an optimizer run')
+  .option('--backup <dir>', 'Backup directory', '.cursor-rag/rules-backup')
+  .option('--file <path...>', 'Only restore these files (relative to the rules folder)')
+  .option('--dry-run', 'Show what would be restored without changing files')
+  .option('--json', 'Output as JSON')
+  .action((runId: string, options) => {
+    try {
+      const backupDir = resolve(options.backup);
+      const manifest = readRulesBackup(backupDir, runId);
+      const result = restoreRulesBackup(backupDir, runId, { paths: options.file, dryRun: options.dryRun });
+
+      if (options.json) {
+        console.log(JSON.stringify(result, null, 2));
+        return;
+      }
+
+      const heading = result.dryRun ? `Restore of ${runId} (dry-run)` : `Restored ${runId}`;
+      console.log(chalk.cyan(`\n⏪ ${heading}\n`));
+      for (const path of result.restored) {
+        console.log(`  ${chalk.green('restored')} ${relative(manifest.folder, path)}`);
+      }
+      for (const path of result.removed) {
+        console.log(`  ${chalk.red('removed')}  ${relative(manifest.folder, path)}`);
+      }
+      if (result.restored.length === 0 && result.removed.length === 0) {
+        console.log(chalk.gray('  Nothing to restore'));
+      }
+
+      if (result.backupId) {
+        console.log(chalk.gray(`\n  Undo with: cursor-rag rules restore ${result.backupId}${backupOptionHint(options.backup)}`));
+      }
+      console.log('');
+    } catch (error) {
+      console.error(chalk.red(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`));
+      process.exit(1);
+    }
+  });
+
+rulesCommand
+  .command('diff <run-id>')
+  .description('Show unified diffs of the file changes of an optimizer run')
+  .option('--backup <dir>', 'Backup directory', '.cursor-rag/rules-backup')
+  .option('--file <path...>', 'Only diff these files (relative to the rules folder)')
+  .option('--json', 'Output as JSON')
+  .action((runId: string, options) => {
+    try {
+      const diffs = diffRulesBackup(resolve(options.backup), runId, options.file);
+
+      if (options.json) {
+        console.log(JSON.stringify(diffs, null, 2));
+        return;
+      }
+
+      for (const { diff } of diffs) {
+        for (const line of diff.split('\n').slice(0, -1)) {
+          if (line.startsWith('---') || line.startsWith('+++')) {
+            console.log(chalk.bold(line));
+          } else if (line.startsWith('@@')) {
+            console.log(chalk.cyan(line));
+          } else if (line.startsWith('+')) {
+            console.log(chalk.green(line));
+          } else if (line.startsWith('-')) {
+            console.log(chalk.red(line));
+          } else {
+            console.log(line);
+          }
+        }
+      }
+
+      if (diffs.every(d => d.diff === '')) {
+        console.log(chalk.gray('No differences'));
+      }
+    } catch (error) {
+      console.error(chalk.red(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`));
+      process.exit(1);
+    }
+  });
+
 rulesCommand
   .command('list <folder>')
   .description('List all rules in a folder')
@@ -668,7 +857,8 @@ function printOutdated(outdated: OutdatedRule[], folderPath: string): void {
     
     for (const ref of out.outdatedReferences.slice(0, 3)) {
       if (ref.suggestedUpdate) {
-        console.log(`   - Update "${ref.reference}" → "${ref.suggestedUpdate}"`);
+        const source = ref.source ? chalk.gray(` (${ref.source})`) : '';
+        console.log(`   - Update "${ref.reference}" → "${ref.suggestedUpdate}"${source}`);
       } else {
         console.log(`   - ${ref.reference}`);
       }
@@ -677,6 +867,56 @@ function printOutdated(outdated: OutdatedRule[], folderPath: string): void {
   }
 }
 
+function printLintReport(report: RulesLintReport, folderPath: string): void {
+  const severityColor = { error: chalk.red, warning: chalk.yellow, info: chalk.gray };
+
+  console.log(chalk.cyan('\n🔎 Rules Lint\n'));
+  console.log(`  Project: ${chalk.gray(report.projectRoot)}`);
+  const budgetColor = report.alwaysApplyTokens > report.alwaysApplyTokenBudget ? chalk.red : chalk.green;
+  console.log(`  alwaysApply tokens: ${budgetColor(report.alwaysApplyTokens.toLocaleString())} / ${report.alwaysApplyTokenBudget.toLocaleString()}`);
+  console.log('');
+
+  if (report.issues.length === 0) {
+    console.log(chalk.green('✓ No problems found!\n'));
+  }
+
+  for (const issue of report.issues) {
+    const color = severityColor[issue.severity];
+    const file = issue.path === report.folder ? '.' : relative(folderPath, issue.path);
+    console.log(`${color(issue.severity.padEnd(7))} ${chalk.bold(file)} ${chalk.gray(issue.code)}`);
+    console.log(`        ${issue.message}`);
+
+    if (issue.code === 'always-apply-budget') {
+      for (const path of issue.related ?? []) {
+        const rule = report.rules.find(r => r.path === path);
+        console.log(chalk.gray(`        - ${relative(folderPath, path)} (${rule?.tokens ?? 0} tokens)`));
+      }
+    }
+    if (issue.files && issue.files.length > 0) {
+      const more = (issue.sharedFiles ?? 0) > issue.files.length ? `, +${issue.sharedFiles! - issue.files.length} more` : '';
+      console.log(chalk.gray(`        Files: ${issue.files.join(', ')}${more}`));
+    }
+    for (const statement of (issue.statements ?? []).slice(0, 2)) {
+      console.log(`        - "${statement.statement1}"`);
+      console.log(`          vs "${statement.statement2}"`);
+    }
+  }
+
+  console.log(chalk.gray(`\n  ${report.summary.errors} error(s), ${report.summary.warnings} warning(s), ${report.summary.info} info\n`));
+
+  if (report.activeFor) {
+    const active = report.activeFor;
+    console.log(chalk.cyan(`📄 Rules applied to ${active.file}\n`));
+    if (active.rules.length === 0) {
+      console.log(chalk.gray('  No rules apply to this file'));
+    }
+    for (const rule of active.rules) {
+      console.log(`  ${String(rule.tokens).padStart(6)}  ${relative(folderPath, rule.path)} ${chalk.gray(`(${rule.reason})`)}`);
+    }
+    console.log(chalk.bold(`\n  Total: ${active.totalTokens.toLocaleString()} tokens\n`));
+  }
+}
+
 function printMergeCandidates(candidates: MergeCandidate[], folderPath: string): void {
   console.log(chalk.cyan('\n🔀 Merge Candidates\n'));
 
@@ -749,23 +989,60 @@ function printOptimizationPlan(report: OptimizationReport, folderPath: string):
   console.log(chalk.gray('Run with --apply to execute these changes (backups will be created).\n'));
 }
 
-function createBackups(rules: ParsedRule[], backupDir: string): void {
-  if (!existsSync(backupDir)) {
-    mkdirSync(backupDir, { recursive: true });
+/**
+ * A merge rewrites the first rule's file and deletes the other files
+ */
+function mergeChanges(candidate: MergeCandidate): FileChange[] {
+  const [target, ...others] = [...new Set(candidate.rules.map(r => r.sourceFile.path))];
+  return [
+    { path: target, changeType: 'modify', newContent: candidate.mergedContent },
+    ...others.map((path): FileChange => ({ path, changeType: 'delete' })),
+  ];
+}
+
+/**
+ * File changes of the rewrites; a rewritten section replaces its text within its file
+ */
+function rewriteChanges(rewrites: Array<{ rule: ParsedRule; newContent: string }>): FileChange[] {
+  const files = new Map<string, string>();
+  for (const { rule, newContent } of rewrites) {
+    const current = files.get(rule.sourceFile.path) ?? rule.sourceFile.content;
+    files.set(
+      rule.sourceFile.path,
+      rule.isSection && current.includes(rule.content) ? current.replace(rule.content, newContent) : newContent
+    );
   }
+  return [...files].map(([path, newContent]) => ({ path, changeType: 'modify', newContent }));
+}
 
-  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-  const versionDir = resolve(backupDir, timestamp);
-  mkdirSync(versionDir, { recursive: true });
+function backupOptionHint(backupOption: string): string {
+  return resolve(backupOption) === resolve('.cursor-rag/rules-backup') ? '' : ` --backup ${backupOption}`;
+}
 
-  const backedUp = new Set<string>();
-  for (const rule of rules) {
-    if (backedUp.has(rule.sourceFile.path)) continue;
-    backedUp.add(rule.sourceFile.path);
-    
-    const backupPath = resolve(versionDir, basename(rule.sourceFile.path));
-    copyFileSync(rule.sourceFile.path, backupPath);
+function printBackupCreated(backup: RulesBackupManifest, backupOption: string): void {
+  console.log(chalk.cyan(`\n📁 Backup set ${backup.id} created at: ${join(resolve(backupOption), backup.id)}`));
+  console.log(chalk.gray(`   Undo with: cursor-rag rules restore ${backup.id}${backupOptionHint(backupOption)}`));
+}
+
+function printRulesRuns(runs: RulesRunSummary[]): void {
+  console.log(chalk.cyan('\n🕘 Optimizer History\n'));
+
+  if (runs.length === 0) {
+    console.log(chalk.gray('  No runs recorded yet. Runs are recorded by rules optimize/merge/rewrite --apply.\n'));
+    return;
+  }
+
+  for (const run of runs) {
+    const saved = run.tokensSaved >= 0
+      ? chalk.green(`-${run.tokensSaved.toLocaleString()} tokens`)
+      : chalk.yellow(`+${(-run.tokensSaved).toLocaleString()} tokens`);
+    const restored = run.restoredAt ? chalk.yellow(` (restored ${run.restoredAt.toLocaleString()})`) : '';
+
+    console.log(`  ${chalk.bold(run.id)}  ${run.command}${restored}`);
+    console.log(`    ${chalk.gray(run.folder)} • ${run.files} files • ${saved} • ${run.createdAt.toLocaleString()}`);
   }
+
+  console.log('');
 }
 
 function applyOptimizations(report: OptimizationReport, outputDir: string): {
@@ -1,25 +1,70 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
 import { loadConfig } from '../../services/config.js';
-import { createVectorStore } from '../../adapters/vector/index.js';
 import { createEmbedder } from '../../adapters/embeddings/index.js';
+import { resolveCollection } from '../../services/collections.js';
+import { getCollectionStores } from '../../services/collectionStores.js';
+import { hybridSearch } from '../../services/hybridSearch.js';
+import { createReranker, RERANKER_TYPES } from '../../adapters/rerankers/index.js';
+import { formatSourceLocation } from '../../server/tools/search.js';
+import { parseMetadataFilter } from '../../services/metadataFilter.js';
+import type { MetadataFilter, RerankerType, SearchMode } from '../../types/index.js';
+
+const SEARCH_MODES: SearchMode[] = ['vector', 'lexical', 'hybrid'];
 
 export const searchCommand = new Command('search')
   .description('Test search from CLI')
   .argument('<query>', 'Search query')
   .option('--top-k <n>', 'Number of results', '5')
+  .option('--mode <mode>', 'Retrieval mode: vector, lexical, or hybrid')
+  .option('--rerank <type>', 'Rerank over-fetched results: none, cross-encoder, or llm')
+  .option('--filter <json>', 'Metadata filter as JSON, e.g. \'{"language":"typescript","createdAt":{"$gt":"2026-01-01"}}\'')
+  .option('--collection <name>', 'Collection to search (default: the one configured for this directory)')
   .action(async (query, options) => {
     try {
       const config = loadConfig();
-      const vectorStore = createVectorStore(config.vectorStore, config);
+      const mode: SearchMode = options.mode || config.search?.defaultMode || 'hybrid';
+      if (!SEARCH_MODES.includes(mode)) {
+        throw new Error(`Invalid mode "${options.mode}". Use one of: ${SEARCH_MODES.join(', ')}`);
+      }
+      const rerank: RerankerType = options.rerank || config.search?.reranker || 'none';
+      if (!RERANKER_TYPES.includes(rerank)) {
+        throw new Error(`Invalid reranker "${options.rerank}". Use one of: ${RERANKER_TYPES.join(', ')}`);
+      }
+
+      let filter: MetadataFilter | undefined;
+      if (options.filter) {
+        try {
+          filter = JSON.parse(options.filter);
+        } catch {
+          throw new Error(`--filter is not valid JSON: ${options.filter}`);
+        }
+        parseMetadataFilter(filter);
+      }
+
+      const { vectorStore, lexicalIndex } = getCollectionStores(config, resolveCollection(config, options.collection, process.cwd()));
       const embedder = await createEmbedder(config.embeddings, config);
+      const reranker = await createReranker(rerank, config);
 
-      console.log(chalk.bold(`\n🔍 Searching for: "${query}"\n`));
+      console.log(chalk.bold(`\n🔍 Searching for: "${query}" (${mode})\n`));
 
-      const embedding = await embedder.embed(query);
-      const results = await vectorStore.search(embedding, { 
-        topK: parseInt(options.topK || '5', 10) 
-      });
+      const { results, reranker: rerankedBy, rerankError } = await hybridSearch(
+        query,
+        { vectorStore, embedder, lexicalIndex },
+        {
+          topK: parseInt(options.topK || '5', 10),
+          filter,
+          mode,
+          rrfK: config.search?.rrfK,
+          reranker: reranker ?? undefined,
+        }
+      );
+
+      if (rerankedBy) {
+        console.log(chalk.gray(`Reranked by ${rerankedBy}`));
+      } else if (rerankError) {
+        console.log(chalk.yellow(`Reranking skipped: ${rerankError}`));
+      }
 
       if (results.length === 0) {
         console.log(chalk.yellow('No results found.'));
@@ -30,7 +75,7 @@ export const searchCommand = new Command('search')
       results.forEach((result: any, index: number) => {
         console.log(chalk.bold(`\n${index + 1}. Score: ${result.score.toFixed(4)}`));
         if (result.metadata.source) {
-          console.log(chalk.gray(`   Source: ${result.metadata.source}`));
+          console.log(chalk.gray(`   Source: ${formatSourceLocation(result.metadata)}`));
         }
         console.log(chalk.white(result.content.substring(0, 200) + (result.content.length > 200 ? '...' : '')));
       });
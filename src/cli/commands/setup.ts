@@ -80,6 +80,7 @@ async function promptVectorStore(): Promise<string> {
       { name: 'Redis Stack (Docker, RediSearch) - docker run -p 6379:6379 redis/redis-stack-server', value: 'redis-stack' },
       { name: 'Redis 8.x Native (Homebrew) - brew install redis', value: 'redis' },
       { name: 'Qdrant (Docker or cloud) - docker run -p 6333:6333 qdrant/qdrant', value: 'qdrant' },
+      { name: 'Local (HNSW index on disk, no services required)', value: 'local' },
       { name: 'Memory (in-process, non-persistent, testing only)', value: 'memory' },
       { name: 'ChromaDB (requires server) - docker run -p 8000:8000 chromadb/chroma', value: 'chroma' },
       { name: 'Cloudflare Vectorize (serverless, requires Cloudflare account)', value: 'vectorize' }
@@ -180,6 +181,28 @@ async function promptApiKeys(vectorStore: string, embeddings: string): Promise<R
     };
   }
 
+  // Cloudflare configuration (if using Vectorize)
+  if (vectorStore === 'vectorize') {
+    const { accountId } = await inquirer.prompt([{
+      type: 'input',
+      name: 'accountId',
+      message: 'Cloudflare account ID:',
+      validate: (input: string) => input.trim() ? true : 'Account ID is required'
+    }]);
+
+    const { apiToken } = await inquirer.prompt([{
+      type: 'password',
+      name: 'apiToken',
+      message: 'Cloudflare API token (needs Vectorize edit permission):',
+      validate: (input: string) => input.trim() ? true : 'API token is required'
+    }]);
+
+    apiKeys.cloudflare = {
+      accountId: accountId.trim(),
+      apiToken: apiToken.trim()
+    };
+  }
+
   // Ollama configuration (if using Ollama)
   if (embeddings === 'ollama') {
     const { ollamaUrl } = await inquirer.prompt([{
@@ -341,6 +364,10 @@ async function validateConfig(config: RAGConfig): Promise<void> {
     throw new Error('OpenAI API key is required for OpenAI embeddings');
   }
 
+  if (config.vectorStore === 'vectorize' && (!config.apiKeys?.cloudflare?.accountId || !config.apiKeys?.cloudflare?.apiToken)) {
+    throw new Error('Cloudflare account ID and API token are required for Vectorize');
+  }
+
   // Validate proxy config if enabled
   if (config.proxy?.enabled) {
     if (!config.proxy.username || !config.proxy.password) {
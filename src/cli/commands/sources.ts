@@ -0,0 +1,108 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import ora from 'ora';
+import { loadConfig } from '../../services/config.js';
+import { createEmbedder } from '../../adapters/embeddings/index.js';
+import { resolveCollection } from '../../services/collections.js';
+import { getCollectionStores } from '../../services/collectionStores.js';
+import { deleteSource } from '../../services/sourceManager.js';
+import { reingestSourceTool } from '../../server/tools/reingest-source.js';
+import type { SourceKind } from '../../types/sources.js';
+import { addChunkingOptions, chunkingFromOptions } from './ingest.js';
+
+const sourcesCommand = new Command('sources')
+  .description('List, delete and re-ingest knowledge base sources');
+
+sourcesCommand
+  .command('list')
+  .description('List ingested sources')
+  .option('--kind <kind>', 'Only show sources of this kind (file, url, crawl, text)')
+  .option('--collection <name>', 'Collection to list (default: the one configured for this directory)')
+  .action((options) => {
+    try {
+      const config = loadConfig();
+      const { sourceRegistry } = getCollectionStores(config, resolveCollection(config, options.collection, process.cwd()));
+      const sources = sourceRegistry.listSources({ kind: options.kind as SourceKind | undefined });
+
+      if (sources.length === 0) {
+        console.log(chalk.yellow('\nNo sources found. Ingest documents with: cursor-rag ingest <source>\n'));
+        return;
+      }
+
+      console.log(chalk.bold(`\n📚 ${sources.length} source(s):\n`));
+      for (const source of sources) {
+        console.log(`  ${chalk.cyan(source.id)}  ${source.title} ${chalk.gray(`(${source.chunkIds.length} chunks, ${source.kind})`)}`);
+        if (source.uri) {
+          console.log(chalk.gray(`                    ${source.uri}`));
+        }
+      }
+      console.log('');
+    } catch (error) {
+      console.error(chalk.red(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`));
+      process.exit(1);
+    }
+  });
+
+sourcesCommand
+  .command('delete <source>')
+  .description('Delete a source (ID, path/URL, or name) and all of its chunks')
+  .option('--collection <name>', 'Collection to delete from (default: the one configured for this directory)')
+  .action(async (ref: string, options) => {
+    const spinner = ora(`Deleting ${ref}...`).start();
+
+    try {
+      const config = loadConfig();
+      const stores = getCollectionStores(config, resolveCollection(config, options.collection, process.cwd()));
+      const result = await deleteSource(ref, stores);
+
+      if (!result) {
+        spinner.fail(`Source not found: ${ref}`);
+        console.log(chalk.gray('Run "cursor-rag sources list" to see source IDs.'));
+        process.exit(1);
+      }
+
+      spinner.succeed(`Deleted "${result.source.title}" (${result.chunksDeleted} chunks)`);
+    } catch (error) {
+      spinner.fail('Delete failed');
+      console.error(chalk.red(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`));
+      process.exit(1);
+    }
+  });
+
+addChunkingOptions(
+  sourcesCommand
+    .command('reingest <source>')
+    .description('Re-read a source from its original location and replace its chunks')
+    .option('--force', 'Re-embed even if the content is unchanged')
+    .option('--collection <name>', 'Collection of the source (default: the one configured for this directory)')
+)
+  .action(async (ref: string, options) => {
+    const spinner = ora(`Re-ingesting ${ref}...`).start();
+
+    try {
+      const config = loadConfig();
+      const stores = getCollectionStores(config, resolveCollection(config, options.collection, process.cwd()));
+      const result = await reingestSourceTool({
+        source: ref,
+        chunking: chunkingFromOptions(options),
+        force: !!options.force
+      }, {
+        ...stores,
+        embedder: await createEmbedder(config.embeddings, config),
+        config,
+      });
+
+      if (result.isError) {
+        spinner.fail(result.content[0].text);
+        process.exit(1);
+      }
+
+      spinner.succeed(result.content[0].text);
+    } catch (error) {
+      spinner.fail('Re-ingest failed');
+      console.error(chalk.red(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`));
+      process.exit(1);
+    }
+  });
+
+export { sourcesCommand };
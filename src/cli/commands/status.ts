@@ -2,6 +2,9 @@ import { Command } from 'commander';
 import chalk from 'chalk';
 import { loadConfig } from '../../services/config.js';
 import { createVectorStore } from '../../adapters/vector/index.js';
+import { getSourceRegistry } from '../../services/sourceRegistry.js';
+import { findUntrackedSources } from '../../services/sourceManager.js';
+import { describeEmbedder, getEmbeddingReindexer } from '../../services/embeddingMigration.js';
 
 export const statusCommand = new Command('status')
   .description('Show configuration and statistics')
@@ -20,14 +23,34 @@ export const statusCommand = new Command('status')
         const count = await vectorStore.count();
         console.log(`  Total chunks: ${chalk.cyan(count.toString())}`);
 
-        // Try to list sources if supported
-        if ('listSources' in vectorStore && typeof vectorStore.listSources === 'function') {
-          const sources = await (vectorStore as any).listSources();
-          console.log(`  Sources: ${chalk.cyan(sources.length.toString())}`);
-          for (const source of sources.slice(0, 10)) {
-            console.log(`    - ${source.name || source.id} (${source.chunks || '?'} chunks)`);
+        const registry = getSourceRegistry();
+        const stats = registry.getStats();
+        const sources = registry.listSources();
+        console.log(`  Sources: ${chalk.cyan(stats.totalSources.toString())} (${stats.totalChunks} registered chunks)`);
+        for (const source of sources.slice(0, 10)) {
+          console.log(`    - ${source.title} (${source.chunkIds.length} chunks, ${source.kind}) ${chalk.gray(source.ingestedAt.toLocaleString())}`);
+        }
+        if (sources.length > 10) {
+          console.log(chalk.gray(`    ... and ${sources.length - 10} more`));
+        }
+        if (sources.length === 0 && count > 0) {
+          const untracked = await findUntrackedSources(vectorStore, registry);
+          const from = untracked ? ` from ${untracked.length} source(s)` : '';
+          console.log(chalk.yellow(`  ⚠ ${count} chunks${from} were ingested before sources were tracked; re-ingest them to manage them with "cursor-rag sources"`));
+        }
+
+        const stored = registry.getStoreEmbedder(config.vectorStore);
+        if (stored) {
+          console.log(`  Stored vectors: ${chalk.cyan(describeEmbedder(stored))}`);
+          if (stored.provider !== config.embeddings) {
+            console.log(chalk.yellow(`  ⚠ Configured embedder is ${config.embeddings}; run "cursor-rag reindex --embeddings ${config.embeddings}"`));
           }
         }
+
+        const job = getEmbeddingReindexer().getActiveJob(config.vectorStore);
+        if (job) {
+          console.log(chalk.yellow(`  ⚠ Unfinished re-embedding to ${describeEmbedder(job.target)}: ${job.done}/${job.total} chunks; run "cursor-rag reindex" to resume`));
+        }
       } catch (error) {
         console.warn(chalk.yellow(`  Could not fetch statistics: ${error instanceof Error ? error.message : 'Unknown error'}`));
       }
@@ -11,6 +11,12 @@ import { dashboardCommand } from './commands/dashboard.js';
 import { chatCommand } from './commands/chat.js';
 import { maintenanceCommand } from './commands/maintenance.js';
 import { rulesCommand } from './commands/rules.js';
+import { sourcesCommand } from './commands/sources.js';
+import { cacheCommand } from './commands/cache.js';
+import { reindexCommand } from './commands/reindex.js';
+import { collectionsCommand } from './commands/collections.js';
+import { exportCommand } from './commands/export.js';
+import { importCommand } from './commands/import.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -40,5 +46,11 @@ program.addCommand(dashboardCommand);
 program.addCommand(chatCommand);
 program.addCommand(maintenanceCommand);
 program.addCommand(rulesCommand);
+program.addCommand(sourcesCommand);
+program.addCommand(cacheCommand);
+program.addCommand(reindexCommand);
+program.addCommand(collectionsCommand);
+program.addCommand(exportCommand);
+program.addCommand(importCommand);
 
 program.parse();
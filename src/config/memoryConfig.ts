@@ -31,6 +31,14 @@ const MaintenanceConfigSchema = z.object({
   weeklyHour: z.number().min(0).max(23).default(4),
   monthlyDay: z.number().min(1).max(28).default(1),
   monthlyHour: z.number().min(0).max(23).default(5),
+  // Cron expressions; each takes precedence over the matching day/hour settings
+  hourlyCron: z.string().optional(),
+  nightlyCron: z.string().optional(),
+  weeklyCron: z.string().optional(),
+  monthlyCron: z.string().optional(),
+  catchUpMissedRuns: z.boolean().default(true),
+  // Cosine similarity above which nightly consolidation merges memory chunks
+  duplicateThreshold: z.number().min(0).max(1).default(0.95),
   autoArchiveOnDecayUpdate: z.boolean().default(false),
 });
 
@@ -21,10 +21,14 @@ export const VersionCheckSchema = z.object({
   name: z.string(),
   /** Regex pattern to match version mentions (should have one capture group for version) */
   pattern: z.string(),
-  /** Current/expected version number */
-  currentVersion: z.string(),
+  /** Current/expected version number or semver range (e.g. "19", "^18.2.0", ">=4.2 <6") */
+  currentVersion: z.string().optional(),
+  /** Package to read the current version from in the analyzed project (e.g. "npm:react", "django") */
+  package: z.string().optional(),
   /** Whether this check is enabled */
   enabled: z.boolean().default(true),
+}).refine(check => check.currentVersion || check.package, {
+  message: 'A version check needs a currentVersion or a package',
 });
 
 export type VersionCheck = z.infer<typeof VersionCheckSchema>;
@@ -121,6 +125,10 @@ export const RulesAnalyzerConfigSchema = z.object({
     detectConflicts: z.boolean().default(true),
     /** Whether to detect outdated rules */
     detectOutdated: z.boolean().default(true),
+    /** Read current versions from the analyzed project's manifests and lockfiles */
+    projectVersions: z.boolean().default(true),
+    /** Project to read versions from (default: nearest directory above the rules with a manifest) */
+    projectRoot: z.string().optional(),
     /** Whether to use LLM for enhanced analysis */
     useLLM: z.boolean().default(false),
   }).default({}),
@@ -159,6 +167,12 @@ export const RulesAnalyzerConfigSchema = z.object({
     /** Backup directory */
     backupDir: z.string().default('.cursor-rag/rules-backup'),
   }).default({}),
+
+  /** Lint settings (rules lint) */
+  lint: z.object({
+    /** Maximum tokens of all alwaysApply rules together */
+    alwaysApplyTokenBudget: z.number().min(0).default(3000),
+  }).default({}),
 });
 
 export type RulesAnalyzerConfig = z.infer<typeof RulesAnalyzerConfigSchema>;
@@ -173,6 +187,7 @@ export const DEFAULT_RULES_CONFIG: RulesAnalyzerConfig = {
     oldYearThreshold: 2,
     detectConflicts: true,
     detectOutdated: true,
+    projectVersions: true,
     useLLM: false,
   },
   llm: {},
@@ -190,6 +205,9 @@ export const DEFAULT_RULES_CONFIG: RulesAnalyzerConfig = {
     createBackups: true,
     backupDir: '.cursor-rag/rules-backup',
   },
+  lint: {
+    alwaysApplyTokenBudget: 3000,
+  },
 };
 
 /**
@@ -213,36 +231,42 @@ export const EXAMPLE_PATTERNS = {
       name: 'Laravel',
       pattern: '\\blaravel\\s+(\\d+)',
       currentVersion: '11',
+      package: 'composer:laravel/framework',
       enabled: false,
     },
     {
       name: 'React',
       pattern: '\\breact\\s+(\\d+)',
       currentVersion: '19',
+      package: 'npm:react',
       enabled: false,
     },
     {
       name: 'Vue',
       pattern: '\\bvue\\s+(\\d+)',
       currentVersion: '3',
+      package: 'npm:vue',
       enabled: false,
     },
     {
       name: 'Node.js',
       pattern: '\\bnode\\.?js?\\s+(\\d+)',
       currentVersion: '22',
+      package: 'runtime:node',
       enabled: false,
     },
     {
       name: 'TypeScript',
       pattern: '\\btypescript\\s+(\\d+\\.?\\d*)',
       currentVersion: '5.7',
+      package: 'npm:typescript',
       enabled: false,
     },
     {
       name: 'PHP',
       pattern: '\\bphp\\s+(\\d+\\.?\\d*)',
       currentVersion: '8.3',
+      package: 'runtime:php',
       enabled: false,
     },
   ],
@@ -281,6 +305,39 @@ export const EXAMPLE_PATTERNS = {
   ],
 };
 
+/** Capture group for a version mention: "18", "18.2", "v5.0.0-beta.1" */
+const VERSION_CAPTURE = 'v?(\\d+(?:\\.\\d+(?:\\.\\d+(?:-[0-9a-z.]+)?)?)?)';
+
+/**
+ * Frameworks and runtimes checked against the analyzed project's own versions
+ * (analysis.projectVersions). A check only runs when the project declares the
+ * package, and a configured version check with the same name replaces it.
+ */
+export const PROJECT_VERSION_CHECKS: VersionCheck[] = [
+  { name: 'React', pattern: `\\breact(?:\\.js)?\\s+${VERSION_CAPTURE}`, package: 'npm:react' },
+  { name: 'Next.js', pattern: `\\bnext\\.?js\\s+${VERSION_CAPTURE}`, package: 'npm:next' },
+  { name: 'Vue', pattern: `\\bvue(?:\\.js)?\\s+${VERSION_CAPTURE}`, package: 'npm:vue' },
+  { name: 'Nuxt', pattern: `\\bnuxt(?:\\.js)?\\s+${VERSION_CAPTURE}`, package: 'npm:nuxt' },
+  { name: 'Angular', pattern: `\\bangular\\s+${VERSION_CAPTURE}`, package: 'npm:@angular/core' },
+  { name: 'Svelte', pattern: `\\bsvelte\\s+${VERSION_CAPTURE}`, package: 'npm:svelte' },
+  { name: 'Tailwind CSS', pattern: `\\btailwind(?:\\s*css)?\\s+${VERSION_CAPTURE}`, package: 'npm:tailwindcss' },
+  { name: 'TypeScript', pattern: `\\btypescript\\s+${VERSION_CAPTURE}`, package: 'npm:typescript' },
+  { name: 'Express', pattern: `\\bexpress(?:\\.js)?\\s+${VERSION_CAPTURE}`, package: 'npm:express' },
+  { name: 'Vite', pattern: `\\bvite\\s+${VERSION_CAPTURE}`, package: 'npm:vite' },
+  { name: 'ESLint', pattern: `\\beslint\\s+${VERSION_CAPTURE}`, package: 'npm:eslint' },
+  { name: 'Node.js', pattern: `\\bnode(?:\\.?js)?\\s+${VERSION_CAPTURE}`, package: 'runtime:node' },
+  { name: 'Laravel', pattern: `\\blaravel\\s+${VERSION_CAPTURE}`, package: 'composer:laravel/framework' },
+  { name: 'Symfony', pattern: `\\bsymfony\\s+${VERSION_CAPTURE}`, package: 'composer:symfony/framework-bundle' },
+  { name: 'PHP', pattern: `\\bphp\\s+${VERSION_CAPTURE}`, package: 'runtime:php' },
+  { name: 'Django', pattern: `\\bdjango\\s+${VERSION_CAPTURE}`, package: 'python:django' },
+  { name: 'Flask', pattern: `\\bflask\\s+${VERSION_CAPTURE}`, package: 'python:flask' },
+  { name: 'FastAPI', pattern: `\\bfastapi\\s+${VERSION_CAPTURE}`, package: 'python:fastapi' },
+  { name: 'Pydantic', pattern: `\\bpydantic\\s+${VERSION_CAPTURE}`, package: 'python:pydantic' },
+  { name: 'Python', pattern: `\\bpython\\s+${VERSION_CAPTURE}`, package: 'runtime:python' },
+  { name: 'Go', pattern: `\\b(?:go|golang)\\s+${VERSION_CAPTURE}`, package: 'runtime:go' },
+  { name: 'Gin', pattern: `\\bgin\\s+${VERSION_CAPTURE}`, package: 'go:github.com/gin-gonic/gin' },
+].map(check => ({ ...check, enabled: true }));
+
 /**
  * Get config file path
  */
@@ -346,6 +403,10 @@ export function mergeRulesConfig(
       ...DEFAULT_RULES_CONFIG.optimization,
       ...userConfig.optimization,
     },
+    lint: {
+      ...DEFAULT_RULES_CONFIG.lint,
+      ...userConfig.lint,
+    },
   });
 }
 
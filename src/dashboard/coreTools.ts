@@ -1,12 +1,15 @@
-import type { ToolDefinition, ToolExecutor, ToolResult } from './toolRegistry.js';
+import type { ToolDefinition, ToolExecutor, ToolParameter, ToolResult } from './toolRegistry.js';
 import { ToolCategory, getToolRegistry } from './toolRegistry.js';
 import { loadConfig } from '../services/config.js';
 import { createVectorStore } from '../adapters/vector/index.js';
 import { createEmbedder } from '../adapters/embeddings/index.js';
 import { searchKnowledgeTool } from '../server/tools/search.js';
+import { recursiveQueryTool } from '../server/tools/recursive-query.js';
 import { ingestDocumentTool } from '../server/tools/ingest.js';
 import { crawlAndIngestTool } from '../server/tools/crawl.js';
 import { listSourcesTool } from '../server/tools/list-sources.js';
+import { deleteSourceTool } from '../server/tools/delete-source.js';
+import { reingestSourceTool } from '../server/tools/reingest-source.js';
 import {
   searchPastSolutionsTool,
   findSimilarIssuesTool,
@@ -18,13 +21,81 @@ import {
 } from '../server/tools/memory.js';
 import { createCursorChatReader } from '../services/cursorChatReader.js';
 import { getMemoryMetadataStore } from '../services/memoryMetadataStore.js';
+import { getLexicalIndex } from '../services/lexicalIndex.js';
+import { getSourceRegistry } from '../services/sourceRegistry.js';
 import { logActivity } from '../services/activity-log.js';
 
-async function getDependencies() {
+/**
+ * Chunking overrides accepted by the ingest tools
+ */
+const CHUNKING_PARAMETER: ToolParameter = {
+  name: 'chunking',
+  type: 'object',
+  description: 'Chunking overrides; unset fields use the source\'s recorded settings, then the config defaults',
+  required: false,
+  properties: {
+    chunkSize: {
+      name: 'chunkSize',
+      type: 'number',
+      description: 'Maximum chunk size in tokens (default: 512)',
+      required: false,
+    },
+    chunkOverlap: {
+      name: 'chunkOverlap',
+      type: 'number',
+      description: 'Sliding-window overlap as a percentage, 0-99 (default: 50)',
+      required: false,
+    },
+    boundaryMode: {
+      name: 'boundaryMode',
+      type: 'string',
+      description: 'Where to split before windowing (default: semantic)',
+      required: false,
+      enum: ['semantic', 'paragraph', 'none'],
+    },
+    tokenizerModel: {
+      name: 'tokenizerModel',
+      type: 'string',
+      description: 'tiktoken model used to count tokens (default: gpt-3.5-turbo)',
+      required: false,
+    },
+    strategy: {
+      name: 'strategy',
+      type: 'string',
+      description: 'auto chunks source files on declarations; text always uses text chunking (default: auto)',
+      required: false,
+      enum: ['auto', 'text'],
+    },
+  },
+};
+
+const RERANK_PARAMETER: ToolParameter = {
+  name: 'rerank',
+  type: 'string',
+  description: 'Rerank over-fetched candidates with a local cross-encoder or the LLM (default: search.reranker from config, else none)',
+  required: false,
+  enum: ['none', 'cross-encoder', 'llm'],
+};
+
+const FILTER_PARAMETER: ToolParameter = {
+  name: 'filter',
+  type: 'object',
+  description: 'Metadata filter, e.g. {"chunkType": "code", "createdAt": {"$gt": "2026-01-01"}}; supports $eq, $ne, $in, $nin, $gt, $gte, $lt, $lte, $exists, $and and $or',
+  required: false,
+};
+
+export async function getDependencies() {
   const config = loadConfig();
   const vectorStore = createVectorStore(config.vectorStore, config);
   const embedder = await createEmbedder(config.embeddings, config);
-  return { vectorStore, embedder, config };
+  return {
+    vectorStore,
+    embedder,
+    config,
+    lexicalIndex: getLexicalIndex(),
+    sourceRegistry: getSourceRegistry(),
+    metadataStore: getMemoryMetadataStore(),
+  };
 }
 
 function wrapMcpTool(
@@ -85,10 +156,84 @@ export const coreToolDefinitions: Array<{ definition: ToolDefinition; executor:
           required: false,
           items: { type: 'string' },
         },
+        FILTER_PARAMETER,
+        {
+          name: 'mode',
+          type: 'string',
+          description: 'Retrieval mode: vector, lexical (BM25), or hybrid',
+          required: false,
+          default: 'hybrid',
+          enum: ['vector', 'lexical', 'hybrid'],
+        },
+        RERANK_PARAMETER,
       ],
     },
     executor: wrapMcpTool(searchKnowledgeTool),
   },
+  {
+    definition: {
+      name: 'recursive_query',
+      displayName: 'Recursive Query',
+      description: 'Answer a question with multi-hop retrieval, choosing direct or LLM-driven recursive retrieval by query complexity, and report the strategy, iterations, cost, token budget, time and termination reason.',
+      category: ToolCategory.SEARCH,
+      parameters: [
+        {
+          name: 'query',
+          type: 'string',
+          description: 'The question to answer',
+          required: true,
+        },
+        {
+          name: 'strategy',
+          type: 'string',
+          description: 'auto picks from query complexity and what the model can handle; direct and iterative fill gaps with follow-up searches; recursive runs LLM-driven iterations within the limits for the model',
+          required: false,
+          default: 'auto',
+          enum: ['auto', 'direct', 'iterative', 'recursive'],
+        },
+        {
+          name: 'maxIterations',
+          type: 'number',
+          description: 'Maximum number of retrieval iterations',
+          required: false,
+          default: 5,
+        },
+        {
+          name: 'costBudget',
+          type: 'number',
+          description: 'Maximum estimated LLM spend in USD for recursive retrieval',
+          required: false,
+          default: 0.5,
+        },
+        {
+          name: 'timeoutMs',
+          type: 'number',
+          description: 'Wall-clock limit for the whole query in milliseconds; a quarter is kept for writing the answer',
+          required: false,
+          default: 120000,
+        },
+        {
+          name: 'seedChunkIds',
+          type: 'array',
+          description: 'Chunk IDs known to be relevant; related chunks are ranked higher',
+          required: false,
+          items: { type: 'string' },
+        },
+        RERANK_PARAMETER,
+        {
+          name: 'sources',
+          type: 'array',
+          description: 'Filter results by specific sources',
+          required: false,
+          items: { type: 'string' },
+        },
+        FILTER_PARAMETER,
+      ],
+      isLongRunning: true,
+      estimatedDuration: '5-120 seconds',
+    },
+    executor: wrapMcpTool(recursiveQueryTool),
+  },
   {
     definition: {
       name: 'ingest_document',
@@ -108,6 +253,7 @@ export const coreToolDefinitions: Array<{ definition: ToolDefinition; executor:
           description: 'Optional title for the document',
           required: false,
         },
+        CHUNKING_PARAMETER,
       ],
       isLongRunning: true,
       estimatedDuration: '10-60 seconds',
@@ -118,7 +264,7 @@ export const coreToolDefinitions: Array<{ definition: ToolDefinition; executor:
     definition: {
       name: 'crawl_and_ingest',
       displayName: 'Crawl & Ingest Website',
-      description: 'Crawl a website using Firecrawl and ingest all pages into the knowledge base.',
+      description: 'Crawl a website and ingest all pages into the knowledge base. Uses Firecrawl when an API key is configured, otherwise the built-in crawler.',
       category: ToolCategory.INGEST,
       parameters: [
         {
@@ -141,6 +287,34 @@ export const coreToolDefinitions: Array<{ definition: ToolDefinition; executor:
           required: false,
           default: 3,
         },
+        {
+          name: 'engine',
+          type: 'string',
+          description: 'Crawler to use (defaults to Firecrawl when an API key is configured, otherwise local)',
+          required: false,
+          enum: ['firecrawl', 'local'],
+        },
+        {
+          name: 'pathPrefix',
+          type: 'string',
+          description: 'Local crawler only: only crawl URLs under this path, e.g. /docs/',
+          required: false,
+        },
+        {
+          name: 'sameOrigin',
+          type: 'boolean',
+          description: 'Local crawler only: stay on the starting URL\'s origin',
+          required: false,
+          default: true,
+        },
+        {
+          name: 'respectRobots',
+          type: 'boolean',
+          description: 'Local crawler only: honour robots.txt',
+          required: false,
+          default: true,
+        },
+        CHUNKING_PARAMETER,
       ],
       isLongRunning: true,
       estimatedDuration: '1-10 minutes',
@@ -153,10 +327,60 @@ export const coreToolDefinitions: Array<{ definition: ToolDefinition; executor:
       displayName: 'List Sources',
       description: 'List all sources (documents, URLs) that have been ingested into the knowledge base.',
       category: ToolCategory.UTILITY,
-      parameters: [],
+      parameters: [
+        {
+          name: 'kind',
+          type: 'string',
+          description: 'Only list sources of this kind',
+          required: false,
+          enum: ['file', 'url', 'crawl', 'text'],
+        },
+      ],
     },
     executor: wrapMcpTool(listSourcesTool),
   },
+  {
+    definition: {
+      name: 'delete_source',
+      displayName: 'Delete Source',
+      description: 'Delete a source and all of its chunks from the knowledge base.',
+      category: ToolCategory.UTILITY,
+      parameters: [
+        {
+          name: 'source',
+          type: 'string',
+          description: 'Source ID, URL/path, or name as shown by list_sources',
+          required: true,
+        },
+      ],
+    },
+    executor: wrapMcpTool(deleteSourceTool),
+  },
+  {
+    definition: {
+      name: 'reingest_source',
+      displayName: 'Re-ingest Source',
+      description: 'Re-read a source from its original location and replace its chunks in place.',
+      category: ToolCategory.INGEST,
+      parameters: [
+        {
+          name: 'source',
+          type: 'string',
+          description: 'Source ID, URL/path, or name as shown by list_sources',
+          required: true,
+        },
+        {
+          name: 'force',
+          type: 'boolean',
+          description: 'Re-embed even if the content is unchanged',
+          required: false,
+          default: false,
+        },
+        CHUNKING_PARAMETER,
+      ],
+    },
+    executor: wrapMcpTool(reingestSourceTool),
+  },
   {
     definition: {
       name: 'chat_list',
@@ -1,6 +1,6 @@
 import { createServer, IncomingMessage, ServerResponse } from 'http';
 import { readFileSync, existsSync } from 'fs';
-import { join, extname } from 'path';
+import { join, extname, resolve } from 'path';
 import { fileURLToPath } from 'url';
 import { dirname } from 'path';
 import type { RAGConfig } from '../types/index.js';
@@ -9,6 +9,12 @@ import { createVectorStore } from '../adapters/vector/index.js';
 import { createEmbedder } from '../adapters/embeddings/index.js';
 import { createOpenSkillsClient } from '../integrations/openskills.js';
 import { logActivity as sharedLogActivity, getActivityLog } from '../services/activity-log.js';
+import { getSourceRegistry } from '../services/sourceRegistry.js';
+import { getEmbeddingCache, type EmbeddingCacheStats } from '../services/embeddingCache.js';
+import { CollectionError, resolveCollection } from '../services/collections.js';
+import { getCollectionStores, type CollectionStores } from '../services/collectionStores.js';
+import { deleteSource, findUntrackedSources, type UntrackedSource } from '../services/sourceManager.js';
+import { reingestSourceTool } from '../server/tools/reingest-source.js';
 import { getToolRegistry, ToolCategory, JobStatus } from './toolRegistry.js';
 import { registerCoreTools } from './coreTools.js';
 import { 
@@ -25,8 +31,17 @@ import type { LLMProviderConfig } from '../types/llmProvider.js';
 import { RulesParser } from '../services/rulesParser.js';
 import { getRulesAnalyzer } from '../services/rulesAnalyzer.js';
 import { getRulesMerger } from '../services/rulesMerger.js';
-import type { ParsedRule } from '../types/rulesOptimizer.js';
-import { writeFileSync, unlinkSync, mkdirSync, copyFileSync } from 'fs';
+import type { FileChange, ParsedRule } from '../types/rulesOptimizer.js';
+import {
+  RulesHistoryError,
+  createRulesBackup,
+  diffRulesBackup,
+  listRulesRuns,
+  readRulesBackup,
+  restoreRulesBackup,
+} from '../services/rulesHistory.js';
+import { RulesLintError, lintRules } from '../services/rulesLinter.js';
+import { writeFileSync, unlinkSync } from 'fs';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -35,7 +50,20 @@ interface DashboardStats {
   vectorStore: string;
   embeddings: string;
   totalChunks: number;
-  sources: Array<{ name: string; chunks: number }>;
+  totalSources: number;
+  sources: Array<{
+    id: string;
+    name: string;
+    title: string;
+    kind: string;
+    uri: string | null;
+    chunks: number;
+    ingestedAt: string;
+  }>;
+  /** Chunks grouped by `metadata.source` when chunks exist but no sources are recorded */
+  untrackedSources: UntrackedSource[];
+  /** Null when the cache is disabled in the config */
+  embeddingCache: EmbeddingCacheStats | null;
   proxyEnabled: boolean;
   firecrawlConfigured: boolean;
   mcpGatewayEnabled: boolean;
@@ -70,11 +98,34 @@ async function getStats(): Promise<DashboardStats> {
       // Vector store might not be initialized yet
     }
 
+    const registry = getSourceRegistry();
+    const sources = registry.listSources().map(source => ({
+      id: source.id,
+      name: source.name,
+      title: source.title,
+      kind: source.kind,
+      uri: source.uri,
+      chunks: source.chunkIds.length,
+      ingestedAt: source.ingestedAt.toISOString(),
+    }));
+
+    // Chunks ingested before sources were recorded
+    const untrackedSources = sources.length === 0 && totalChunks > 0
+      ? await findUntrackedSources(vectorStore, registry) ?? []
+      : [];
+
+    const embeddingCache = config.embeddingCache?.enabled === false
+      ? null
+      : getEmbeddingCache(undefined, { maxEntries: config.embeddingCache?.maxEntries }).getStats();
+
     return {
       vectorStore: config.vectorStore,
       embeddings: config.embeddings,
       totalChunks,
-      sources: [], // Would need to implement source tracking
+      totalSources: sources.length,
+      sources,
+      untrackedSources,
+      embeddingCache,
       proxyEnabled: config.proxy?.enabled || false,
       firecrawlConfigured: !!config.apiKeys?.firecrawl,
       mcpGatewayEnabled: config.mcpGateway?.enabled || false,
@@ -87,7 +138,10 @@ async function getStats(): Promise<DashboardStats> {
       vectorStore: 'unknown',
       embeddings: 'unknown',
       totalChunks: 0,
+      totalSources: 0,
       sources: [],
+      untrackedSources: [],
+      embeddingCache: null,
       proxyEnabled: false,
       firecrawlConfigured: false,
       mcpGatewayEnabled: false,
@@ -98,6 +152,15 @@ async function getStats(): Promise<DashboardStats> {
   }
 }
 
+/**
+ * Stores of the collection named by the `collection` query parameter, or of
+ * the one configured for the dashboard's working directory
+ */
+function getRequestStores(req: IncomingMessage, config: RAGConfig): CollectionStores {
+  const query = new URL(req.url || '', `http://${req.headers.host}`).searchParams;
+  return getCollectionStores(config, resolveCollection(config, query.get('collection'), process.cwd()));
+}
+
 async function handleAPI(req: IncomingMessage, res: ServerResponse, path: string): Promise<void> {
   res.setHeader('Content-Type', 'application/json');
 
@@ -214,6 +277,69 @@ async function handleAPI(req: IncomingMessage, res: ServerResponse, path: string
       return;
     }
 
+    if (path === '/api/sources' && req.method === 'GET') {
+      try {
+        const { collection, sourceRegistry } = getRequestStores(req, loadConfig());
+        const sources = sourceRegistry.listSources();
+        res.end(JSON.stringify({ collection, sources, total: sources.length }));
+      } catch (e) {
+        res.statusCode = e instanceof CollectionError ? 400 : 500;
+        res.end(JSON.stringify({ error: e instanceof Error ? e.message : 'Failed to list sources' }));
+      }
+      return;
+    }
+
+    // Delete a source and its chunks
+    const sourceMatch = path.match(/^\/api\/sources\/([^/]+)$/);
+    if (sourceMatch && req.method === 'DELETE') {
+      try {
+        const result = await deleteSource(decodeURIComponent(sourceMatch[1]), getRequestStores(req, loadConfig()));
+
+        if (!result) {
+          res.statusCode = 404;
+          res.end(JSON.stringify({ error: 'Source not found' }));
+          return;
+        }
+
+        logActivity('ingest', `Deleted source: "${result.source.title}"`, { chunksDeleted: result.chunksDeleted });
+        res.end(JSON.stringify({ success: true, sourceId: result.source.id, chunksDeleted: result.chunksDeleted }));
+      } catch (e) {
+        res.statusCode = e instanceof CollectionError ? 400 : 500;
+        res.end(JSON.stringify({ error: e instanceof Error ? e.message : 'Failed to delete source' }));
+      }
+      return;
+    }
+
+    // Re-ingest a source from its original location
+    const reingestMatch = path.match(/^\/api\/sources\/([^/]+)\/reingest$/);
+    if (reingestMatch && req.method === 'POST') {
+      let body = '';
+      req.on('data', chunk => body += chunk);
+      req.on('end', async () => {
+        try {
+          const { force = false } = body ? JSON.parse(body) : {};
+          const config = loadConfig();
+          const deps = {
+            ...getRequestStores(req, config),
+            embedder: await createEmbedder(config.embeddings, config),
+            config,
+          };
+          const result = await reingestSourceTool({ source: decodeURIComponent(reingestMatch[1]), force }, deps);
+
+          if (result.isError) {
+            res.statusCode = 400;
+            res.end(JSON.stringify({ error: result.content[0].text }));
+            return;
+          }
+          res.end(JSON.stringify({ success: true, message: result.content[0].text }));
+        } catch (e) {
+          res.statusCode = e instanceof CollectionError ? 400 : 500;
+          res.end(JSON.stringify({ error: e instanceof Error ? e.message : 'Failed to re-ingest source' }));
+        }
+      });
+      return;
+    }
+
     if (path === '/api/skills' && req.method === 'GET') {
       try {
         const config = loadConfig();
@@ -891,6 +1017,40 @@ async function handleAPI(req: IncomingMessage, res: ServerResponse, path: string
       return;
     }
 
+    // Lint rule globs, alwaysApply budget, overlapping conflicts and descriptions against a project
+    if (path === '/api/rules/lint' && req.method === 'POST') {
+      let body = '';
+      req.on('data', chunk => body += chunk);
+      req.on('end', () => {
+        try {
+          const { folder, projectRoot, file, budget } = JSON.parse(body || '{}');
+          if (!folder) {
+            res.statusCode = 400;
+            res.end(JSON.stringify({ error: 'folder is required' }));
+            return;
+          }
+          if (budget !== undefined && (typeof budget !== 'number' || budget < 0)) {
+            res.statusCode = 400;
+            res.end(JSON.stringify({ error: 'budget must be a non-negative number' }));
+            return;
+          }
+
+          const rules = new RulesParser().parseDirectory(folder);
+          const report = lintRules(rules, getRulesAnalyzer(loadConfig()), {
+            folder,
+            projectRoot: projectRoot || undefined,
+            alwaysApplyTokenBudget: budget,
+            file: file || undefined,
+          });
+          res.end(JSON.stringify({ success: true, ...report }));
+        } catch (e) {
+          res.statusCode = e instanceof RulesLintError ? 400 : 500;
+          res.end(JSON.stringify({ error: e instanceof Error ? e.message : 'Lint failed' }));
+        }
+      });
+      return;
+    }
+
     // Auto-optimize rules (analyze + merge + cleanup in one step)
     if (path === '/api/rules/auto-optimize' && req.method === 'POST') {
       let body = '';
@@ -1057,19 +1217,21 @@ async function handleAPI(req: IncomingMessage, res: ServerResponse, path: string
           }
 
           // Step 4: Apply changes if not dry run and LLM was used for merging
+          let backupId: string | null = null;
           if (!dryRun && useLLM && actions.some(a => a.type === 'merge' || a.type === 'delete')) {
-            const backupFolder = join(folder, '.rules-backup-' + Date.now());
-            mkdirSync(backupFolder, { recursive: true });
+            const changes = actions.flatMap((action): FileChange[] => {
+              if (action.type === 'merge' && action.content) {
+                return [{ path: action.path, changeType: 'modify', newContent: action.content }];
+              }
+              return action.type === 'delete' ? [{ path: action.path, changeType: 'delete' }] : [];
+            });
+            backupId = createRulesBackup(rulesBackupDir(folder), { command: 'auto-optimize', folder, changes }).id;
             
             for (const action of actions) {
               try {
                 if (action.type === 'merge' && action.content) {
-                  const filename = action.path.split('/').pop() || 'rule';
-                  copyFileSync(action.path, join(backupFolder, filename));
                   writeFileSync(action.path, action.content, 'utf-8');
                 } else if (action.type === 'delete') {
-                  const filename = action.path.split('/').pop() || 'rule';
-                  copyFileSync(action.path, join(backupFolder, filename));
                   unlinkSync(action.path);
                 }
               } catch (fileError) {
@@ -1096,6 +1258,7 @@ async function handleAPI(req: IncomingMessage, res: ServerResponse, path: string
             dryRun,
             usedLLM: useLLM,
             message,
+            backupId,
             stats: {
               totalRules: rules.length,
               duplicates: duplicates.length,
@@ -1175,6 +1338,78 @@ async function handleAPI(req: IncomingMessage, res: ServerResponse, path: string
       return;
     }
 
+    // Applied optimizer runs with their token savings
+    if (path === '/api/rules/history' && req.method === 'GET') {
+      const query = new URL(req.url || '', `http://${req.headers.host}`).searchParams;
+      const folder = query.get('folder');
+      if (!folder) {
+        res.statusCode = 400;
+        res.end(JSON.stringify({ error: 'folder is required' }));
+        return;
+      }
+
+      const backupDir = rulesBackupDir(folder, query.get('backupDir') ?? undefined);
+      res.end(JSON.stringify({ backupDir, runs: listRulesRuns(backupDir) }));
+      return;
+    }
+
+    // Manifest and file diffs of one run
+    const historyMatch = path.match(/^\/api\/rules\/history\/([^/]+)(\/diff)?$/);
+    if (historyMatch && req.method === 'GET') {
+      const query = new URL(req.url || '', `http://${req.headers.host}`).searchParams;
+      const folder = query.get('folder');
+      if (!folder) {
+        res.statusCode = 400;
+        res.end(JSON.stringify({ error: 'folder is required' }));
+        return;
+      }
+
+      try {
+        const backupDir = rulesBackupDir(folder, query.get('backupDir') ?? undefined);
+        const runId = decodeURIComponent(historyMatch[1]);
+        if (historyMatch[2]) {
+          res.end(JSON.stringify({ runId, diffs: diffRulesBackup(backupDir, runId, query.getAll('path')) }));
+        } else {
+          res.end(JSON.stringify(readRulesBackup(backupDir, runId)));
+        }
+      } catch (e) {
+        res.statusCode = e instanceof RulesHistoryError ? 400 : 500;
+        res.end(JSON.stringify({ error: e instanceof Error ? e.message : 'Failed to read run' }));
+      }
+      return;
+    }
+
+    // Roll back all or selected file changes of a run
+    const restoreMatch = path.match(/^\/api\/rules\/history\/([^/]+)\/restore$/);
+    if (restoreMatch && req.method === 'POST') {
+      let body = '';
+      req.on('data', chunk => body += chunk);
+      req.on('end', () => {
+        try {
+          const { folder, backupDir, paths, dryRun = false } = JSON.parse(body || '{}');
+          if (!folder) {
+            res.statusCode = 400;
+            res.end(JSON.stringify({ error: 'folder is required' }));
+            return;
+          }
+
+          const runId = decodeURIComponent(restoreMatch[1]);
+          const result = restoreRulesBackup(rulesBackupDir(folder, backupDir), runId, { paths, dryRun });
+          if (!dryRun) {
+            logActivity('query', `Restored rules from optimizer run ${runId}`, {
+              restored: result.restored.length,
+              removed: result.removed.length,
+            });
+          }
+          res.end(JSON.stringify({ success: true, ...result }));
+        } catch (e) {
+          res.statusCode = e instanceof RulesHistoryError ? 400 : 500;
+          res.end(JSON.stringify({ error: e instanceof Error ? e.message : 'Restore failed' }));
+        }
+      });
+      return;
+    }
+
     // ==================== END RULES OPTIMIZER ENDPOINTS ====================
 
     res.statusCode = 404;
@@ -1185,6 +1420,13 @@ async function handleAPI(req: IncomingMessage, res: ServerResponse, path: string
   }
 }
 
+/**
+ * Backup sets of a rules folder; a relative backup directory is resolved against the folder
+ */
+function rulesBackupDir(folder: string, backupDir?: string): string {
+  return resolve(folder, backupDir ?? loadRulesConfig().optimization.backupDir);
+}
+
 async function serveDocsPage(req: IncomingMessage, res: ServerResponse, path: string, port: number): Promise<void> {
   res.setHeader('Content-Type', 'text/html');
   
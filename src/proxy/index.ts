@@ -1,3 +1,4 @@
+import { ProxyAgent, fetch as undiciFetch } from 'undici';
 import type { RAGConfig } from '../types/index.js';
 
 export interface ProxyConfig {
@@ -29,6 +30,7 @@ function getRandomUserAgent(): string {
 
 export class ProxyManager {
   private config: ProxyConfig;
+  private agents = new Map<string, ProxyAgent>();
 
   constructor(ragConfig: RAGConfig) {
     this.config = ragConfig.proxy || {
@@ -134,7 +136,11 @@ export class ProxyManager {
   }
 
   /**
-   * Create a fetch function that uses the proxy
+   * Fetch through the configured proxy
+   *
+   * Uses an undici ProxyAgent (HTTP CONNECT) when the proxy is enabled and a
+   * direct request with browser-like headers otherwise. Headers in `options`
+   * override the generated ones.
    */
   async fetchWithProxy(url: string, options: RequestInit = {}): Promise<Response> {
     const proxyConfig = this.getProxyConfig();
@@ -143,21 +149,30 @@ export class ProxyManager {
       ...options,
       headers: {
         ...proxyConfig.headers,
-        ...options.headers,
+        ...(options.headers as Record<string, string> | undefined),
       },
     };
 
-    // Note: Node.js fetch doesn't natively support proxies
-    // For proxy support, we'd need to use a library like node-fetch-native with proxy-agent
-    // or undici with ProxyAgent. For now, we'll set headers and let users
-    // configure system-level proxy if needed.
+    if (!proxyConfig.proxyUrl) {
+      return fetch(url, fetchOptions);
+    }
 
-    if (proxyConfig.proxyUrl) {
-      // In a full implementation, use undici ProxyAgent or similar
-      console.warn('Proxy URL configured but Node.js fetch requires additional setup. Using direct connection with proxy headers.');
+    let agent = this.agents.get(proxyConfig.proxyUrl);
+    if (!agent) {
+      agent = new ProxyAgent(proxyConfig.proxyUrl);
+      this.agents.set(proxyConfig.proxyUrl, agent);
     }
 
-    return fetch(url, fetchOptions);
+    // Node's global fetch cannot take an undici dispatcher from another undici version
+    return undiciFetch(url, { ...(fetchOptions as any), dispatcher: agent }) as unknown as Promise<Response>;
+  }
+
+  /**
+   * Close pooled proxy connections
+   */
+  async close(): Promise<void> {
+    await Promise.all(Array.from(this.agents.values()).map(agent => agent.close()));
+    this.agents.clear();
   }
 }
 
@@ -5,19 +5,21 @@ import {
   ListToolsRequestSchema
 } from '@modelcontextprotocol/sdk/types.js';
 import { loadConfig } from '../services/config.js';
-import { createVectorStore } from '../adapters/vector/index.js';
 import { createEmbedder } from '../adapters/embeddings/index.js';
 import { registerTools } from './tools/index.js';
+import { getWorkspacePath, resolveCollection } from '../services/collections.js';
+import { getCollectionStores } from '../services/collectionStores.js';
+import { checkEmbedderCompatibility } from '../services/embeddingMigration.js';
 import { ingestSkillsTool } from './tools/skills.js';
 import { logActivity } from '../services/activity-log.js';
 
-async function autoIngestSkills(config: any): Promise<void> {
+async function autoIngestSkills(config: any, collection: string): Promise<void> {
   if (!config.openSkills?.enabled || !config.openSkills?.autoIngestSkills) {
     return;
   }
   
   try {
-    const result = await ingestSkillsTool(config);
+    const result = await ingestSkillsTool(config, collection);
     if (result.ingested > 0) {
       logActivity('ingest', `Auto-ingested ${result.ingested} skills`, { 
         skills: result.skills 
@@ -49,11 +51,25 @@ async function main() {
     process.exit(1);
   }
   
-  const vectorStore = createVectorStore(config.vectorStore, config);
   const embedder = await createEmbedder(config.embeddings, config);
 
+  // Tools default to the collection configured for the workspace Cursor started us in
+  const workspacePath = getWorkspacePath();
+  const forCollection = (requested?: string) => ({
+    ...getCollectionStores(config, resolveCollection(config, requested, workspacePath)),
+    embedder,
+    config,
+  });
+  const workspaceDeps = forCollection();
+
+  // Searches fail once the embedder no longer matches the stored vectors; say why up front
+  const mismatch = checkEmbedderCompatibility(embedder, config, workspaceDeps.sourceRegistry, workspaceDeps.collection);
+  if (mismatch) {
+    console.error(`Warning: ${mismatch.message}`);
+  }
+
   // Auto-ingest skills if enabled
-  await autoIngestSkills(config);
+  await autoIngestSkills(config, workspaceDeps.collection);
 
   const server = new Server(
     {
@@ -65,7 +81,7 @@ async function main() {
     }
   );
 
-  registerTools(server, { vectorStore, embedder, config });
+  registerTools(server, { ...workspaceDeps, forCollection });
 
   const transport = new StdioServerTransport();
   await server.connect(transport);
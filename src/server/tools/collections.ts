@@ -0,0 +1,30 @@
+import type { RAGConfig } from '../../types/index.js';
+import { DEFAULT_COLLECTION, listCollections } from '../../services/collections.js';
+
+export function listCollectionsTool(
+  deps: { config: RAGConfig; collection?: string }
+): any {
+  const current = deps.collection ?? DEFAULT_COLLECTION;
+
+  const collectionList = listCollections(deps.config)
+    .map(c => {
+      const markers = [
+        c.name === current ? 'current workspace' : null,
+        c.isDefault ? 'default' : null,
+      ].filter(Boolean);
+      const lines = [`- ${c.name}${markers.length ? ` (${markers.join(', ')})` : ''}`];
+      if (c.description) lines.push(`  ${c.description}`);
+      if (c.paths.length) lines.push(`  paths: ${c.paths.join(', ')}`);
+      return lines.join('\n');
+    })
+    .join('\n');
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: `Collections (pass "collection" to the knowledge and memory tools to pick one):\n\n${collectionList}`
+      }
+    ]
+  };
+}
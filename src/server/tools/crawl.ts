@@ -1,105 +1,167 @@
-import { randomUUID } from 'crypto';
 import FirecrawlApp from '@mendable/firecrawl-js';
 import type { VectorStore } from '../../adapters/vector/index.js';
 import type { Embedder } from '../../adapters/embeddings/index.js';
-import type { RAGConfig, VectorDocument } from '../../types/index.js';
-import { chunkDocument } from '../../services/chunker.js';
+import type { ChunkOptions, RAGConfig } from '../../types/index.js';
+import type { DocumentSection } from '../../adapters/loaders/index.js';
+import type { LexicalIndex } from '../../services/lexicalIndex.js';
+import type { SourceRegistry } from '../../services/sourceRegistry.js';
+import type { MemoryMetadataStore } from '../../services/memoryMetadataStore.js';
+import { ingestSourceContent } from '../../services/sourceManager.js';
+import { createWebCrawler } from '../../services/webCrawler.js';
 import { logActivity } from '../../services/activity-log.js';
 
 interface CrawlAndIngestArgs {
   url: string;
   maxPages?: number;
   maxDepth?: number;
+  /** Defaults to Firecrawl when an API key is configured, else the built-in crawler */
+  engine?: 'firecrawl' | 'local';
+  /** Built-in crawler only: restrict to URLs under this path */
+  pathPrefix?: string;
+  /** Built-in crawler only: follow links to other origins */
+  sameOrigin?: boolean;
+  /** Built-in crawler only: honour robots.txt */
+  respectRobots?: boolean;
+  chunking?: ChunkOptions;
+  force?: boolean;
 }
 
+type CrawlDeps = {
+  vectorStore: VectorStore;
+  embedder: Embedder;
+  config: RAGConfig;
+  lexicalIndex?: LexicalIndex | null;
+  sourceRegistry?: SourceRegistry | null;
+  metadataStore?: MemoryMetadataStore | null;
+};
+
+interface CrawlTotals {
+  pagesIngested: number;
+  unchangedPages: number;
+  totalChunks: number;
+}
+
+/**
+ * Crawl a site and ingest every page as its own `crawl` source
+ *
+ * Uses Firecrawl when an API key is configured and the built-in crawler
+ * otherwise (or when `engine: 'local'` is passed). The built-in crawler
+ * honours robots.txt, follows sitemaps, rate-limits and routes through the
+ * configured proxy.
+ */
 export async function crawlAndIngestTool(
   args: CrawlAndIngestArgs,
-  deps: { vectorStore: VectorStore; embedder: Embedder; config: RAGConfig }
+  deps: CrawlDeps
 ): Promise<any> {
-  const { url, maxPages = 100, maxDepth = 3 } = args;
-  const { vectorStore, embedder, config } = deps;
+  const { url, maxPages = 100, maxDepth = 3, chunking, force = false } = args;
+  const { config } = deps;
 
   const firecrawlApiKey = config.apiKeys?.firecrawl;
-  if (!firecrawlApiKey) {
+  const engine = args.engine ?? (firecrawlApiKey ? 'firecrawl' : 'local');
+  if (engine === 'firecrawl' && !firecrawlApiKey) {
     return {
       content: [
         {
           type: 'text',
-          text: 'Firecrawl API key not configured. Run "cursor-rag setup" and provide a Firecrawl API key to enable web crawling.'
+          text: 'Firecrawl API key not configured. Run "cursor-rag setup" and provide a Firecrawl API key, or use engine "local" for the built-in crawler.'
         }
       ],
       isError: true
     };
   }
 
-  try {
-    const app = new FirecrawlApp({ apiKey: firecrawlApiKey });
-
-    // Crawl the site
-    const result = await app.crawlUrl(url, {
-      limit: maxPages,
-      maxDepth,
-      scrapeOptions: {
-        formats: ['markdown'],
-        onlyMainContent: true
-      }
-    });
-
-    // Check if crawl was successful
-    if (!result.success || !('data' in result) || !result.data || result.data.length === 0) {
-      const errorMsg = 'error' in result ? result.error : 'No pages were retrieved';
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `Crawl completed but no pages were retrieved from ${url}: ${errorMsg}`
-          }
-        ]
-      };
+  const totals: CrawlTotals = { pagesIngested: 0, unchangedPages: 0, totalChunks: 0 };
+  const ingestPage = async (pageUrl: string, page: { content: string; title?: string; sections?: DocumentSection[]; format?: string }) => {
+    const pageResult = await ingestSourceContent({
+      content: page.content,
+      sections: page.sections,
+      name: pageUrl,
+      title: page.title || 'Untitled',
+      kind: 'crawl',
+      uri: pageUrl,
+      metadata: page.format ? { crawlRoot: url, format: page.format } : { crawlRoot: url },
+      chunking,
+      force
+    }, deps);
+
+    totals.pagesIngested++;
+    if (pageResult.skipped) {
+      totals.unchangedPages++;
     }
+    totals.totalChunks += pageResult.chunksCreated;
+  };
 
-    // Process each page
-    let totalChunks = 0;
-    const documents: VectorDocument[] = [];
-
-    for (const page of result.data) {
-      if (!page.markdown) continue;
-
-      const chunks = chunkDocument(page.markdown, {
-        chunkSize: 512,
-        chunkOverlap: 50,
-        respectBoundaries: true
+  try {
+    let skippedPages = 0;
+
+    if (engine === 'firecrawl') {
+      const app = new FirecrawlApp({ apiKey: firecrawlApiKey! });
+
+      // Crawl the site
+      const result = await app.crawlUrl(url, {
+        limit: maxPages,
+        maxDepth,
+        scrapeOptions: {
+          formats: ['markdown'],
+          onlyMainContent: true
+        }
       });
 
-      // Generate embeddings for chunks
-      const embeddings = await embedder.embedBatch(chunks.map(c => c.text));
-
-      // Create vector documents
-      for (let i = 0; i < chunks.length; i++) {
-        documents.push({
-          id: randomUUID(),
-          embedding: embeddings[i],
-          content: chunks[i].text,
-          metadata: {
-            source: page.url || url,
-            title: page.metadata?.title || 'Untitled',
-            chunkIndex: chunks[i].index
-          }
-        });
+      // Check if crawl was successful
+      if (!result.success || !('data' in result) || !result.data || result.data.length === 0) {
+        const errorMsg = 'error' in result ? result.error : 'No pages were retrieved';
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Crawl completed but no pages were retrieved from ${url}: ${errorMsg}`
+            }
+          ]
+        };
       }
 
-      totalChunks += chunks.length;
-    }
+      for (const page of result.data) {
+        if (!page.markdown) continue;
+        await ingestPage(page.url || url, { content: page.markdown, title: page.metadata?.title });
+      }
+    } else {
+      const crawler = createWebCrawler(config, {
+        maxPages,
+        maxDepth,
+        pathPrefix: args.pathPrefix,
+        sameOrigin: args.sameOrigin,
+        respectRobots: args.respectRobots
+      });
 
-    // Add all documents to vector store in batches
-    const batchSize = 100;
-    for (let i = 0; i < documents.length; i += batchSize) {
-      const batch = documents.slice(i, i + batchSize);
-      await vectorStore.add(batch);
+      const summary = await crawler.crawl(url, page =>
+        ingestPage(page.url, {
+          content: page.document.text,
+          title: page.title,
+          sections: page.document.sections,
+          format: page.document.format
+        })
+      );
+      skippedPages = summary.skipped.length;
+
+      if (summary.pagesCrawled === 0) {
+        const reasons = summary.skipped.slice(0, 5).map(s => `${s.url} (${s.reason})`).join(', ');
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Crawl completed but no pages were retrieved from ${url}${reasons ? `: ${reasons}` : ''}`
+            }
+          ]
+        };
+      }
     }
 
+    const { pagesIngested, unchangedPages, totalChunks } = totals;
     logActivity('crawl', `Crawled: ${url}`, {
-      pagesIngested: result.data.length,
+      engine,
+      pagesIngested,
+      unchangedPages,
+      skippedPages,
       chunksCreated: totalChunks
     });
 
@@ -107,7 +169,9 @@ export async function crawlAndIngestTool(
       content: [
         {
           type: 'text',
-          text: `Successfully crawled and ingested ${result.data.length} pages from ${url}. Created ${totalChunks} chunks.`
+          text: `Successfully crawled and ingested ${pagesIngested} pages from ${url}. Created ${totalChunks} chunks.` +
+            (unchangedPages > 0 ? ` Skipped ${unchangedPages} unchanged pages.` : '') +
+            (skippedPages > 0 ? ` ${skippedPages} URLs were not ingested (robots.txt, errors or unsupported content).` : '')
         }
       ]
     };
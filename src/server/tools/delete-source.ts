@@ -0,0 +1,73 @@
+import type { VectorStore } from '../../adapters/vector/index.js';
+import type { Embedder } from '../../adapters/embeddings/index.js';
+import type { RAGConfig } from '../../types/index.js';
+import type { LexicalIndex } from '../../services/lexicalIndex.js';
+import type { SourceRegistry } from '../../services/sourceRegistry.js';
+import type { MemoryMetadataStore } from '../../services/memoryMetadataStore.js';
+import { deleteSource } from '../../services/sourceManager.js';
+import { logActivity } from '../../services/activity-log.js';
+
+interface DeleteSourceArgs {
+  source: string;
+}
+
+export async function deleteSourceTool(
+  args: DeleteSourceArgs,
+  deps: {
+    vectorStore: VectorStore;
+    embedder: Embedder;
+    config: RAGConfig;
+    lexicalIndex?: LexicalIndex | null;
+    sourceRegistry?: SourceRegistry | null;
+    metadataStore?: MemoryMetadataStore | null;
+  }
+): Promise<any> {
+  const { sourceRegistry } = deps;
+
+  if (!sourceRegistry) {
+    return {
+      content: [{ type: 'text', text: 'Source registry is not available.' }],
+      isError: true
+    };
+  }
+
+  try {
+    const result = await deleteSource(args.source, { ...deps, sourceRegistry });
+
+    if (!result) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Source not found: ${args.source}. Use list_sources to see source IDs and names.`
+          }
+        ],
+        isError: true
+      };
+    }
+
+    logActivity('ingest', `Deleted source: "${result.source.title}"`, {
+      sourceId: result.source.id,
+      chunksDeleted: result.chunksDeleted
+    });
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Deleted source "${result.source.title}" (${result.source.id}) and its ${result.chunksDeleted} chunks.`
+        }
+      ]
+    };
+  } catch (error) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Error deleting source: ${error instanceof Error ? error.message : 'Unknown error'}`
+        }
+      ],
+      isError: true
+    };
+  }
+}
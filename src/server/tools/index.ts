@@ -6,11 +6,17 @@ import {
 import type { VectorStore } from '../../adapters/vector/index.js';
 import type { Embedder } from '../../adapters/embeddings/index.js';
 import type { RAGConfig } from '../../types/index.js';
+import type { LexicalIndex } from '../../services/lexicalIndex.js';
+import type { SourceRegistry } from '../../services/sourceRegistry.js';
+import type { MemoryMetadataStore } from '../../services/memoryMetadataStore.js';
 import { recursiveQueryTool } from './recursive-query.js';
 import { searchKnowledgeTool } from './search.js';
 import { ingestDocumentTool } from './ingest.js';
 import { crawlAndIngestTool } from './crawl.js';
 import { listSourcesTool } from './list-sources.js';
+import { deleteSourceTool } from './delete-source.js';
+import { reingestSourceTool } from './reingest-source.js';
+import { listCollectionsTool } from './collections.js';
 import { gatewaySearchToolsTool, gatewayCallToolTool, gatewayExecuteSkillTool, gatewayHealthTool } from './gateway.js';
 import { listOpenSkillsTool, readOpenSkillTool, ingestSkillsTool, searchSkillsTool } from './skills.js';
 import {
@@ -24,12 +30,66 @@ import {
   memoryToolDefinitions,
 } from './memory.js';
 
+/** Per-ingest chunking overrides shared by the ingest tools */
+const CHUNKING_SCHEMA = {
+  type: 'object',
+  description: 'Chunking overrides; unset fields use the settings recorded for the source, then the config defaults',
+  properties: {
+    chunkSize: {
+      type: 'number',
+      description: 'Maximum chunk size in tokens (default: 512)'
+    },
+    chunkOverlap: {
+      type: 'number',
+      description: 'Sliding-window overlap as a percentage of the previous window, 0-99 (default: 50)'
+    },
+    boundaryMode: {
+      type: 'string',
+      enum: ['semantic', 'paragraph', 'none'],
+      description: 'Split on paragraphs and headings, paragraphs only, or not at all before windowing (default: semantic)'
+    },
+    tokenizerModel: {
+      type: 'string',
+      description: 'tiktoken model used to count tokens (default: gpt-3.5-turbo)'
+    },
+    strategy: {
+      type: 'string',
+      enum: ['auto', 'text'],
+      description: 'auto chunks source files on declarations; text always uses text chunking (default: auto)'
+    }
+  }
+};
+
+/** Collection argument shared by the knowledge and memory tools */
+const COLLECTION_SCHEMA = {
+  type: 'string',
+  description: 'Collection (separate knowledge base) to use; defaults to the collection configured for the current workspace, else "default". See list_collections'
+};
+
+/** Metadata filter accepted by the search tools */
+const FILTER_SCHEMA = {
+  type: 'object',
+  description: 'Metadata filter, ANDed with sources. Fields such as chunkType, language, type, tags and createdAt take a value, ' +
+    'an array (any of), or operators $eq, $ne, $in, $nin, $gt, $gte, $lt, $lte and $exists; combine filters with $and and $or. ' +
+    'Dates are ISO 8601 strings. Example: {"language": {"$in": ["typescript", "go"]}, "createdAt": {"$gt": "2026-01-01"}}'
+};
+
+export interface ToolDependencies {
+  vectorStore: VectorStore;
+  embedder: Embedder;
+  config: RAGConfig;
+  lexicalIndex?: LexicalIndex | null;
+  sourceRegistry?: SourceRegistry | null;
+  metadataStore?: MemoryMetadataStore | null;
+  /** Collection these dependencies belong to */
+  collection?: string;
+}
+
 export function registerTools(
   server: Server,
-  dependencies: {
-    vectorStore: VectorStore;
-    embedder: Embedder;
-    config: RAGConfig;
+  dependencies: ToolDependencies & {
+    /** Dependencies of the named (or workspace) collection; without it every call uses `dependencies` */
+    forCollection?: (collection?: string) => ToolDependencies;
   }
 ): void {
   // List available tools
@@ -37,7 +97,7 @@ export function registerTools(
     tools: [
       {
         name: 'recursive_query',
-        description: 'Perform recursive multi-hop retrieval across knowledge base. Decomposes complex queries into sub-questions, iteratively retrieves relevant chunks, and synthesizes a comprehensive answer.',
+        description: 'Perform recursive multi-hop retrieval across knowledge base. Decomposes complex queries into sub-questions, assesses complexity to choose direct retrieval or LLM-driven recursive exploration of the retrieved context (within a cost budget and timeout), and synthesizes an answer with numbered citations to the source chunks. Iteration, sub-call and token limits follow the model in use. Reports the strategy, iterations, cost, token budget, time and why retrieval stopped.',
         inputSchema: {
           type: 'object',
           properties: {
@@ -59,6 +119,39 @@ export function registerTools(
               type: 'array',
               items: { type: 'string' },
               description: 'Filter to specific document sources (optional)'
+            },
+            filter: FILTER_SCHEMA,
+            collection: COLLECTION_SCHEMA,
+            mode: {
+              type: 'string',
+              enum: ['vector', 'lexical', 'hybrid'],
+              description: 'Retrieval mode: vector similarity, BM25 keyword, or both fused with reciprocal rank fusion (default: hybrid)'
+            },
+            strategy: {
+              type: 'string',
+              enum: ['auto', 'direct', 'iterative', 'recursive'],
+              description: 'auto picks from query complexity and what the model can handle; direct and iterative fill gaps with follow-up searches; recursive runs LLM-driven iterations within the limits for the model (default: auto)',
+              default: 'auto'
+            },
+            costBudget: {
+              type: 'number',
+              description: 'Maximum estimated LLM spend in USD for recursive retrieval (default: 0.5)',
+              default: 0.5
+            },
+            timeoutMs: {
+              type: 'number',
+              description: 'Wall-clock limit for the whole query in milliseconds; a quarter is kept for writing the answer (default: 120000)',
+              default: 120000
+            },
+            seedChunkIds: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Chunk IDs known to be relevant; related chunks are ranked higher (optional)'
+            },
+            rerank: {
+              type: 'string',
+              enum: ['none', 'cross-encoder', 'llm'],
+              description: 'Rerank over-fetched candidates with a local cross-encoder model or a listwise LLM pass (default: search.reranker from config, else none)'
             }
           },
           required: ['query']
@@ -66,7 +159,7 @@ export function registerTools(
       },
       {
         name: 'search_knowledge',
-        description: 'Direct vector similarity search in the knowledge base. Use for simple queries that don\'t require recursive retrieval.',
+        description: 'Direct search in the knowledge base. Combines vector similarity with BM25 keyword matching by default so exact identifiers and error codes are found. Use for simple queries that don\'t require recursive retrieval.',
         inputSchema: {
           type: 'object',
           properties: {
@@ -83,6 +176,18 @@ export function registerTools(
               type: 'array',
               items: { type: 'string' },
               description: 'Filter to specific document sources (optional)'
+            },
+            filter: FILTER_SCHEMA,
+            collection: COLLECTION_SCHEMA,
+            mode: {
+              type: 'string',
+              enum: ['vector', 'lexical', 'hybrid'],
+              description: 'Retrieval mode: vector similarity, BM25 keyword, or both fused with reciprocal rank fusion (default: hybrid)'
+            },
+            rerank: {
+              type: 'string',
+              enum: ['none', 'cross-encoder', 'llm'],
+              description: 'Rerank over-fetched candidates with a local cross-encoder model or a listwise LLM pass (default: search.reranker from config, else none)'
             }
           },
           required: ['query']
@@ -90,7 +195,7 @@ export function registerTools(
       },
       {
         name: 'ingest_document',
-        description: 'Add a single document to the knowledge base. Accepts URL, file path, or raw text.',
+        description: 'Add a single document to the knowledge base. Accepts URL, file path, or raw text. Re-ingesting the same source replaces its previous chunks; unchanged content is skipped.',
         inputSchema: {
           type: 'object',
           properties: {
@@ -105,14 +210,21 @@ export function registerTools(
             metadata: {
               type: 'object',
               description: 'Optional metadata to attach to chunks'
-            }
+            },
+            chunking: CHUNKING_SCHEMA,
+            force: {
+              type: 'boolean',
+              description: 'Re-embed even if the content hash is unchanged (default: false)',
+              default: false
+            },
+            collection: COLLECTION_SCHEMA
           },
           required: ['source']
         }
       },
       {
         name: 'crawl_and_ingest',
-        description: 'Crawl a website using Firecrawl and add all pages to the knowledge base.',
+        description: 'Crawl a website and add all pages to the knowledge base. Uses Firecrawl when an API key is configured, otherwise the built-in crawler (robots.txt, sitemaps, rate limiting and the configured proxy).',
         inputSchema: {
           type: 'object',
           properties: {
@@ -129,14 +241,91 @@ export function registerTools(
               type: 'number',
               description: 'Maximum crawl depth (default: 3)',
               default: 3
-            }
+            },
+            engine: {
+              type: 'string',
+              enum: ['firecrawl', 'local'],
+              description: 'Crawler to use (default: firecrawl when an API key is configured, otherwise local)'
+            },
+            pathPrefix: {
+              type: 'string',
+              description: 'Local crawler only: only crawl URLs whose path starts with this prefix, e.g. /docs/'
+            },
+            sameOrigin: {
+              type: 'boolean',
+              description: 'Local crawler only: stay on the starting URL\'s origin (default: true)',
+              default: true
+            },
+            respectRobots: {
+              type: 'boolean',
+              description: 'Local crawler only: honour robots.txt (default: true)',
+              default: true
+            },
+            chunking: CHUNKING_SCHEMA,
+            force: {
+              type: 'boolean',
+              description: 'Re-embed pages even if their content is unchanged (default: false)',
+              default: false
+            },
+            collection: COLLECTION_SCHEMA
           },
           required: ['url']
         }
       },
       {
         name: 'list_sources',
-        description: 'List all document sources indexed in the knowledge base.',
+        description: 'List all document sources indexed in the knowledge base with exact chunk counts, content hashes, ingest times and the embedder used.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            kind: {
+              type: 'string',
+              enum: ['file', 'url', 'crawl', 'text'],
+              description: 'Only list sources of this kind (optional)'
+            },
+            collection: COLLECTION_SCHEMA
+          }
+        }
+      },
+      {
+        name: 'delete_source',
+        description: 'Delete a source and all of its chunks from the vector store, keyword index and memory metadata.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            source: {
+              type: 'string',
+              description: 'Source ID, URL/path, or name as shown by list_sources'
+            },
+            collection: COLLECTION_SCHEMA
+          },
+          required: ['source']
+        }
+      },
+      {
+        name: 'reingest_source',
+        description: 'Re-read a source from its original file, URL or crawled page and replace its chunks in place, using the chunking settings recorded at ingest unless overridden. Skipped when neither the content nor the settings changed.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            source: {
+              type: 'string',
+              description: 'Source ID, URL/path, or name as shown by list_sources'
+            },
+            chunking: CHUNKING_SCHEMA,
+            force: {
+              type: 'boolean',
+              description: 'Re-embed even if the content hash is unchanged (default: false)',
+              default: false
+            },
+            collection: COLLECTION_SCHEMA
+          },
+          required: ['source']
+        }
+      },
+      {
+        name: 'list_collections',
+        description: 'List the collections (separate knowledge bases) and which one this workspace uses by default.',
         inputSchema: {
           type: 'object',
           properties: {}
@@ -242,7 +431,9 @@ export function registerTools(
         description: 'Ingest all installed OpenSkills into the RAG knowledge base for semantic search.',
         inputSchema: {
           type: 'object',
-          properties: {}
+          properties: {
+            collection: COLLECTION_SCHEMA
+          }
         }
       },
       {
@@ -259,13 +450,17 @@ export function registerTools(
               type: 'number',
               description: 'Number of results (default: 5)',
               default: 5
-            }
+            },
+            collection: COLLECTION_SCHEMA
           },
           required: ['query']
         }
       },
-      // Memory tools
-      ...memoryToolDefinitions
+      // Memory tools, scoped to a collection like the knowledge tools
+      ...memoryToolDefinitions.map(tool => ({
+        ...tool,
+        inputSchema: { ...tool.inputSchema, properties: { ...tool.inputSchema.properties, collection: COLLECTION_SCHEMA } }
+      }))
     ]
   }));
 
@@ -274,17 +469,26 @@ export function registerTools(
     const { name, arguments: args } = request.params;
 
     try {
+      const collection = (args as { collection?: string } | undefined)?.collection;
+      const deps = dependencies.forCollection ? dependencies.forCollection(collection) : dependencies;
+
       switch (name) {
         case 'recursive_query':
-          return await recursiveQueryTool(args as any, dependencies);
+          return await recursiveQueryTool(args as any, deps);
         case 'search_knowledge':
-          return await searchKnowledgeTool(args as any, dependencies);
+          return await searchKnowledgeTool(args as any, deps);
         case 'ingest_document':
-          return await ingestDocumentTool(args as any, dependencies);
+          return await ingestDocumentTool(args as any, deps);
         case 'crawl_and_ingest':
-          return await crawlAndIngestTool(args as any, dependencies);
+          return await crawlAndIngestTool(args as any, deps);
         case 'list_sources':
-          return await listSourcesTool(args as any, dependencies);
+          return await listSourcesTool(args as any, deps);
+        case 'delete_source':
+          return await deleteSourceTool(args as any, deps);
+        case 'reingest_source':
+          return await reingestSourceTool(args as any, deps);
+        case 'list_collections':
+          return listCollectionsTool(deps);
         // MCP Gateway tools
         case 'gateway_search_tools':
           const gatewaySearchResult = await gatewaySearchToolsTool(dependencies.config, args as any);
@@ -306,26 +510,26 @@ export function registerTools(
           const skillContent = await readOpenSkillTool(dependencies.config, args as any);
           return { content: [{ type: 'text', text: JSON.stringify(skillContent, null, 2) }] };
         case 'ingest_openskills':
-          const ingestResult = await ingestSkillsTool(dependencies.config);
+          const ingestResult = await ingestSkillsTool(deps.config, deps.collection);
           return { content: [{ type: 'text', text: JSON.stringify(ingestResult, null, 2) }] };
         case 'search_openskills':
-          const searchResult = await searchSkillsTool(dependencies.config, args as any);
+          const searchResult = await searchSkillsTool(deps.config, args as any, deps.collection);
           return { content: [{ type: 'text', text: JSON.stringify(searchResult, null, 2) }] };
         // Memory tools
         case 'search_past_solutions':
-          return await searchPastSolutionsTool(args as any, dependencies);
+          return await searchPastSolutionsTool(args as any, deps);
         case 'find_similar_issues':
-          return await findSimilarIssuesTool(args as any, dependencies);
+          return await findSimilarIssuesTool(args as any, deps);
         case 'get_project_patterns':
-          return await getProjectPatternsTool(args as any, dependencies);
+          return await getProjectPatternsTool(args as any, deps);
         case 'recall_decision':
-          return await recallDecisionTool(args as any, dependencies);
+          return await recallDecisionTool(args as any, deps);
         case 'get_category_summary':
-          return await getCategorySummaryTool(args as any, dependencies);
+          return await getCategorySummaryTool(args as any, deps);
         case 'ingest_chat_history':
-          return await ingestChatHistoryTool(args as any, dependencies);
+          return await ingestChatHistoryTool(args as any, deps);
         case 'memory_stats':
-          return await memoryStatsTool(dependencies);
+          return await memoryStatsTool(deps);
         default:
           throw new Error(`Unknown tool: ${name}`);
       }
@@ -1,37 +1,57 @@
-import { randomUUID } from 'crypto';
 import { existsSync, readFileSync } from 'fs';
+import { resolve } from 'path';
 import type { VectorStore } from '../../adapters/vector/index.js';
 import type { Embedder } from '../../adapters/embeddings/index.js';
-import type { RAGConfig, VectorDocument } from '../../types/index.js';
-import { chunkDocument } from '../../services/chunker.js';
+import type { ChunkOptions, RAGConfig } from '../../types/index.js';
+import type { SourceKind } from '../../types/sources.js';
+import type { LexicalIndex } from '../../services/lexicalIndex.js';
+import type { SourceRegistry } from '../../services/sourceRegistry.js';
+import type { MemoryMetadataStore } from '../../services/memoryMetadataStore.js';
+import { loadDocument, type LoadedDocument } from '../../adapters/loaders/index.js';
+import { ingestSourceContent } from '../../services/sourceManager.js';
 import { logActivity } from '../../services/activity-log.js';
 
 interface IngestDocumentArgs {
   source: string;
   title?: string;
+  /** Name to record the source under instead of `title || source`, e.g. when re-ingesting */
+  name?: string;
   metadata?: Record<string, any>;
+  chunking?: ChunkOptions;
+  force?: boolean;
 }
 
 export async function ingestDocumentTool(
   args: IngestDocumentArgs,
-  deps: { vectorStore: VectorStore; embedder: Embedder; config: RAGConfig }
+  deps: {
+    vectorStore: VectorStore;
+    embedder: Embedder;
+    config: RAGConfig;
+    lexicalIndex?: LexicalIndex | null;
+    sourceRegistry?: SourceRegistry | null;
+    metadataStore?: MemoryMetadataStore | null;
+  }
 ): Promise<any> {
-  const { source, title, metadata = {} } = args;
-  const { vectorStore, embedder } = deps;
+  const { source, title, name, metadata = {}, chunking, force = false } = args;
 
+  let loaded: LoadedDocument | null = null;
   let content: string;
   let docSource: string;
+  let kind: SourceKind;
+  let uri: string | null = null;
 
   // Determine if source is URL, file path, or text
   if (source.startsWith('http://') || source.startsWith('https://')) {
     // Fetch URL content using fetch API
+    let data: Buffer;
+    let mimeType: string | undefined;
     try {
       const response = await fetch(source);
       if (!response.ok) {
         throw new Error(`HTTP ${response.status}: ${response.statusText}`);
       }
-      content = await response.text();
-      docSource = title || source;
+      data = Buffer.from(await response.arrayBuffer());
+      mimeType = response.headers.get('content-type') ?? undefined;
     } catch (error) {
       return {
         content: [
@@ -43,11 +63,21 @@ export async function ingestDocumentTool(
         isError: true
       };
     }
+
+    try {
+      loaded = await loadDocument({ data, path: source, mimeType });
+    } catch (error) {
+      return extractionError(source, error);
+    }
+    content = loaded.text;
+    docSource = name ?? (title || source);
+    kind = 'url';
+    uri = source;
   } else if (source.startsWith('/') || source.startsWith('./') || source.includes('\\') || existsSync(source)) {
     // File path - read file
+    let data: Buffer;
     try {
-      content = readFileSync(source, 'utf-8');
-      docSource = title || source;
+      data = readFileSync(source);
     } catch (error) {
       return {
         content: [
@@ -59,47 +89,93 @@ export async function ingestDocumentTool(
         isError: true
       };
     }
+
+    try {
+      loaded = await loadDocument({ data, path: source });
+    } catch (error) {
+      return extractionError(source, error);
+    }
+    content = loaded.text;
+    docSource = name ?? (title || source);
+    kind = 'file';
+    uri = resolve(source);
   } else {
     // Assume it's text content
     content = source;
     docSource = title || 'manual-input';
+    kind = 'text';
   }
 
-  // Chunk the document
-  const chunks = chunkDocument(content, {
-    chunkSize: 512,
-    chunkOverlap: 50,
-    respectBoundaries: true
-  });
-
-  // Generate embeddings and add to vector store
-  const embeddings = await embedder.embedBatch(chunks.map(c => c.text));
+  let result;
+  try {
+    result = await ingestSourceContent({
+      content,
+      name: docSource,
+      title: title || loaded?.title || docSource,
+      kind,
+      uri,
+      sections: loaded?.sections,
+      metadata: loaded ? { ...metadata, format: loaded.format } : metadata,
+      chunking,
+      force
+    }, deps);
+  } catch (error) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Failed to ingest "${title || docSource}": ${error instanceof Error ? error.message : 'Unknown error'}`
+        }
+      ],
+      isError: true
+    };
+  }
 
-  const documents: VectorDocument[] = chunks.map((chunk, idx) => ({
-    id: randomUUID(),
-    embedding: embeddings[idx],
-    content: chunk.text,
-    metadata: {
-      ...metadata,
+  if (result.skipped) {
+    logActivity('ingest', `Skipped unchanged: "${title || docSource}"`, {
       source: docSource,
-      title: title || docSource,
-      chunkIndex: chunk.index
-    }
-  }));
+      sourceId: result.sourceId
+    });
 
-  await vectorStore.add(documents);
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Skipped "${title || docSource}": content unchanged since the last ingest. Pass force to re-embed anyway.`
+        }
+      ]
+    };
+  }
 
   logActivity('ingest', `Ingested: "${title || docSource}"`, {
-    chunksCreated: documents.length,
-    source: docSource
+    chunksCreated: result.chunksCreated,
+    staleChunksRemoved: result.staleChunksRemoved,
+    source: docSource,
+    sourceId: result.sourceId
   });
 
+  const replaced = result.staleChunksRemoved > 0
+    ? ` Replaced ${result.staleChunksRemoved} stale chunks from the previous version.`
+    : '';
+
   return {
     content: [
       {
         type: 'text',
-        text: `Successfully ingested document "${title || docSource}". Created ${documents.length} chunks.`
+        text: `Successfully ingested document "${title || docSource}". Created ${result.chunksCreated} chunks.${replaced}`
       }
     ]
   };
 }
+
+function extractionError(source: string, error: unknown): any {
+  return {
+    content: [
+      {
+        type: 'text',
+        text: `Failed to extract text from ${source}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      }
+    ],
+    isError: true
+  };
+}
@@ -1,43 +1,44 @@
 import type { VectorStore } from '../../adapters/vector/index.js';
 import type { Embedder } from '../../adapters/embeddings/index.js';
 import type { RAGConfig } from '../../types/index.js';
+import type { SourceKind } from '../../types/sources.js';
+import type { SourceRegistry } from '../../services/sourceRegistry.js';
+import { findUntrackedSources } from '../../services/sourceManager.js';
+
+/** Untracked source names listed before the rest are summarised */
+const MAX_UNTRACKED_LISTED = 20;
+
+interface ListSourcesArgs {
+  kind?: SourceKind;
+}
 
 export async function listSourcesTool(
-  args: Record<string, any>,
-  deps: { vectorStore: VectorStore; embedder: Embedder; config: RAGConfig }
+  args: ListSourcesArgs,
+  deps: { vectorStore: VectorStore; embedder: Embedder; config: RAGConfig; sourceRegistry?: SourceRegistry | null }
 ): Promise<any> {
-  const { vectorStore, embedder } = deps;
+  const { sourceRegistry } = deps;
+
+  if (!sourceRegistry) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: 'Source registry is not available.'
+        }
+      ],
+      isError: true
+    };
+  }
 
   try {
-    // Sample a representative query to get some results
-    // We'll use a generic query to retrieve chunks and extract unique sources
-    const sampleQuery = 'documentation guide tutorial';
-    const embedding = await embedder.embed(sampleQuery);
-    
-    // Get a large sample to find sources (up to 1000 results)
-    const results = await vectorStore.search(embedding, { topK: 1000 });
-    
-    // Extract unique sources from metadata
-    const sourceMap = new Map<string, { chunks: number; title?: string }>();
-    
-    for (const result of results) {
-      const source = result.metadata?.source || result.metadata?.path || 'unknown';
-      if (!sourceMap.has(source)) {
-        sourceMap.set(source, {
-          chunks: 0,
-          title: result.metadata?.title
-        });
+    const sources = sourceRegistry.listSources({ kind: args?.kind });
+
+    if (sources.length === 0 && !args?.kind) {
+      const untracked = await describeUntrackedChunks(deps.vectorStore, sourceRegistry);
+      if (untracked) {
+        return { content: [{ type: 'text', text: untracked }] };
       }
-      const sourceInfo = sourceMap.get(source)!;
-      sourceInfo.chunks++;
     }
-    
-    const sources = Array.from(sourceMap.entries()).map(([source, info]) => ({
-      id: source,
-      name: info.title || source,
-      chunks: info.chunks,
-      url: source.startsWith('http') ? source : undefined
-    }));
 
     if (sources.length === 0) {
       return {
@@ -50,15 +51,27 @@ export async function listSourcesTool(
       };
     }
 
+    const totalChunks = sources.reduce((sum, s) => sum + s.chunkIds.length, 0);
+
     const sourceList = sources
-      .map(s => `- ${s.name} (${s.chunks} chunks)${s.url ? `\n  ${s.url}` : ''}`)
+      .map(s => {
+        const name = s.title !== s.name ? `${s.title} [${s.name}]` : s.name;
+        const embedder = s.embedder.model ? `${s.embedder.provider}/${s.embedder.model}` : s.embedder.provider;
+        const lines = [`- ${name} (${s.chunkIds.length} chunks, ${s.kind})`];
+        if (s.uri) lines.push(`  ${s.uri}`);
+        lines.push(`  id: ${s.id} | ingested: ${s.ingestedAt.toISOString()} | embedder: ${embedder} (${s.embedder.dimensions}d)`);
+        if (s.chunking.chunkSize) {
+          lines.push(`  chunking: ${s.chunking.chunkSize} tokens, ${s.chunking.chunkOverlap ?? 50}% overlap, ${s.chunking.boundaryMode ?? 'semantic'} boundaries`);
+        }
+        return lines.join('\n');
+      })
       .join('\n');
 
     return {
       content: [
         {
           type: 'text',
-          text: `Found ${sources.length} source(s) in the knowledge base:\n\n${sourceList}\n\nNote: This is a sample-based listing. The actual count may be higher.`
+          text: `Found ${sources.length} source(s) with ${totalChunks} chunks in the knowledge base:\n\n${sourceList}`
         }
       ]
     };
@@ -74,3 +87,23 @@ export async function listSourcesTool(
     };
   }
 }
+
+/**
+ * Describe chunks stored before sources were recorded, or null when there are none
+ */
+async function describeUntrackedChunks(vectorStore: VectorStore, sourceRegistry: SourceRegistry): Promise<string | null> {
+  const total = await vectorStore.count();
+  if (total === 0) return null;
+
+  const untracked = await findUntrackedSources(vectorStore, sourceRegistry);
+  const advice = 'Re-ingest them with ingest_document or crawl_and_ingest to list, delete and re-ingest them as sources.';
+  if (!untracked) {
+    return `No sources are recorded, but the knowledge base holds ${total} chunks ingested before sources were tracked. ${advice}`;
+  }
+
+  const listed = untracked.slice(0, MAX_UNTRACKED_LISTED).map(s => `- ${s.name} (${s.chunks} chunks)`);
+  if (untracked.length > MAX_UNTRACKED_LISTED) {
+    listed.push(`... and ${untracked.length - MAX_UNTRACKED_LISTED} more`);
+  }
+  return `No sources are recorded, but the knowledge base holds ${total} chunks from ${untracked.length} source(s) ingested before sources were tracked:\n\n${listed.join('\n')}\n\n${advice}`;
+}
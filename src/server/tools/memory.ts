@@ -2,11 +2,12 @@ import type { VectorStore } from '../../adapters/vector/index.js';
 import type { Embedder } from '../../adapters/embeddings/index.js';
 import type { RAGConfig } from '../../types/index.js';
 import { ChunkType, RelationshipType } from '../../types/memory.js';
-import { getMemoryMetadataStore } from '../../services/memoryMetadataStore.js';
-import { getRelationshipGraph } from '../../services/relationshipGraph.js';
-import { getCategoryManager } from '../../services/categoryManager.js';
-import { getHybridScorer } from '../../services/hybridScorer.js';
-import { createEnhancedVectorStore } from '../../services/enhancedVectorStore.js';
+import { getMemoryMetadataStore, type MemoryMetadataStore } from '../../services/memoryMetadataStore.js';
+import type { LexicalIndex } from '../../services/lexicalIndex.js';
+import { RelationshipGraph, getRelationshipGraph } from '../../services/relationshipGraph.js';
+import { CategoryManager, getCategoryManager } from '../../services/categoryManager.js';
+import { HybridScorer, getHybridScorer } from '../../services/hybridScorer.js';
+import { EnhancedVectorStore, createEnhancedVectorStore } from '../../services/enhancedVectorStore.js';
 import { createCursorChatReader } from '../../services/cursorChatReader.js';
 import { createConversationProcessor } from '../../services/conversationProcessor.js';
 import { createKnowledgeExtractor } from '../../services/knowledgeExtractor.js';
@@ -17,6 +18,39 @@ interface ToolDependencies {
   vectorStore: VectorStore;
   embedder: Embedder;
   config: RAGConfig;
+  /** The collection's metadata store; the shared one when unset */
+  metadataStore?: MemoryMetadataStore | null;
+  /** The collection's keyword index, kept in step with stored memories */
+  lexicalIndex?: LexicalIndex | null;
+}
+
+/**
+ * Memory services over the collection's metadata store
+ *
+ * Without a metadata store in the dependencies the shared singletons are used.
+ */
+function getMemoryServices(deps: ToolDependencies) {
+  if (!deps.metadataStore) {
+    const metadataStore = getMemoryMetadataStore();
+    return {
+      metadataStore,
+      enhancedStore: createEnhancedVectorStore(deps.vectorStore, { lexicalIndex: deps.lexicalIndex }),
+      graph: getRelationshipGraph(metadataStore),
+      categoryManager: getCategoryManager(metadataStore),
+      hybridScorer: getHybridScorer(),
+    };
+  }
+
+  const metadataStore = deps.metadataStore;
+  const graph = new RelationshipGraph(metadataStore);
+  const categoryManager = new CategoryManager(metadataStore);
+  return {
+    metadataStore,
+    enhancedStore: new EnhancedVectorStore(deps.vectorStore, { metadataStore, lexicalIndex: deps.lexicalIndex }),
+    graph,
+    categoryManager,
+    hybridScorer: new HybridScorer(graph, metadataStore, categoryManager),
+  };
 }
 
 export interface SearchPastSolutionsArgs {
@@ -30,9 +64,7 @@ export async function searchPastSolutionsTool(
   deps: ToolDependencies
 ): Promise<{ content: { type: string; text: string }[] }> {
   const { problem, topK = 5, minScore = 0.3 } = args;
-  const enhancedStore = createEnhancedVectorStore(deps.vectorStore);
-  const metadataStore = getMemoryMetadataStore();
-  const hybridScorer = getHybridScorer();
+  const { enhancedStore, metadataStore, hybridScorer } = getMemoryServices(deps);
 
   const embedding = await deps.embedder.embed(problem);
   
@@ -87,9 +119,7 @@ export async function findSimilarIssuesTool(
   deps: ToolDependencies
 ): Promise<{ content: { type: string; text: string }[] }> {
   const { issue, topK = 5 } = args;
-  const enhancedStore = createEnhancedVectorStore(deps.vectorStore);
-  const hybridScorer = getHybridScorer();
-  const graph = getRelationshipGraph();
+  const { enhancedStore, hybridScorer, graph } = getMemoryServices(deps);
 
   const embedding = await deps.embedder.embed(issue);
   
@@ -151,8 +181,7 @@ export async function getProjectPatternsTool(
   deps: ToolDependencies
 ): Promise<{ content: { type: string; text: string }[] }> {
   const { category, topK = 10 } = args;
-  const metadataStore = getMemoryMetadataStore();
-  const categoryManager = getCategoryManager(metadataStore);
+  const { metadataStore, categoryManager } = getMemoryServices(deps);
 
   await categoryManager.initialize();
 
@@ -212,8 +241,7 @@ export async function recallDecisionTool(
   deps: ToolDependencies
 ): Promise<{ content: { type: string; text: string }[] }> {
   const { topic, topK = 5 } = args;
-  const enhancedStore = createEnhancedVectorStore(deps.vectorStore);
-  const hybridScorer = getHybridScorer();
+  const { enhancedStore, hybridScorer } = getMemoryServices(deps);
 
   const embedding = await deps.embedder.embed(`decision about ${topic}`);
   
@@ -268,8 +296,7 @@ export async function getCategorySummaryTool(
   deps: ToolDependencies
 ): Promise<{ content: { type: string; text: string }[] }> {
   const { category } = args;
-  const metadataStore = getMemoryMetadataStore();
-  const categoryManager = getCategoryManager(metadataStore);
+  const { metadataStore, categoryManager } = getMemoryServices(deps);
 
   await categoryManager.initialize();
 
@@ -317,8 +344,7 @@ export async function ingestChatHistoryTool(
   deps: ToolDependencies
 ): Promise<{ content: { type: string; text: string }[] }> {
   const { limit, extract = false, since } = args;
-  const enhancedStore = createEnhancedVectorStore(deps.vectorStore);
-  const metadataStore = getMemoryMetadataStore();
+  const { enhancedStore, metadataStore } = getMemoryServices(deps);
 
   const reader = createCursorChatReader();
   
@@ -426,9 +452,7 @@ export async function ingestChatHistoryTool(
 export async function memoryStatsTool(
   deps: ToolDependencies
 ): Promise<{ content: { type: string; text: string }[] }> {
-  const metadataStore = getMemoryMetadataStore();
-  const graph = getRelationshipGraph(metadataStore);
-  const categoryManager = getCategoryManager(metadataStore);
+  const { metadataStore, graph, categoryManager } = getMemoryServices(deps);
 
   await categoryManager.initialize();
 
@@ -1,101 +1,292 @@
 import type { VectorStore } from '../../adapters/vector/index.js';
 import type { Embedder } from '../../adapters/embeddings/index.js';
-import type { RAGConfig } from '../../types/index.js';
-import { decomposeQuery, generateFollowUps, assessConfidence } from '../../services/query-decomposer.js';
+import type { MetadataFilter, RAGConfig, RerankerType, SearchMode, SearchResult } from '../../types/index.js';
+import { getLLMProvider, LLMProviderManager, type LLMProvider } from '../../adapters/llm/index.js';
+import { DEFAULT_MODELS } from '../../types/llmProvider.js';
+import type { LexicalIndex } from '../../services/lexicalIndex.js';
+import { hybridSearch } from '../../services/hybridSearch.js';
+import { combineFilters } from '../../services/metadataFilter.js';
+import { createQueryDecomposer, assessConfidence, type RetrievalContext } from '../../services/query-decomposer.js';
+import {
+  createAnswerSynthesizer,
+  formatCitations,
+  DEFAULT_SYNTHESIZER_OPTIONS,
+} from '../../services/answerSynthesizer.js';
+import {
+  createRecursiveRetrievalController,
+  createProviderLLMService,
+  DEFAULT_RETRIEVAL_CONFIG,
+  type RetrievalResult,
+} from '../../services/recursiveRetrieval.js';
+import { withTimeout, estimateTokenCost, TimeoutError, type LLMService } from '../../services/contextEnvironment.js';
+import { TokenBudgetManager } from '../../services/rlmSafeguards.js';
 import { logActivity } from '../../services/activity-log.js';
+import { loadReranker } from './search.js';
+
+export type RetrievalStrategy = 'auto' | 'direct' | 'iterative' | 'recursive';
+
+/** Share of `timeoutMs` kept back for writing the answer */
+const ANSWER_TIME_RATIO = 0.25;
 
 interface RecursiveQueryArgs {
   query: string;
   maxIterations?: number;
   minConfidence?: number;
   sources?: string[];
+  /** Metadata filter, ANDed with `sources` */
+  filter?: MetadataFilter;
+  mode?: SearchMode;
+  /** `auto` lets the controller pick from query complexity and the model (default) */
+  strategy?: RetrievalStrategy;
+  /** Maximum estimated LLM spend in USD for recursive retrieval */
+  costBudget?: number;
+  /** Wall-clock limit for the whole query, including the answer, in milliseconds */
+  timeoutMs?: number;
+  /** Chunks known to be relevant; their graph neighbours are boosted */
+  seedChunkIds?: string[];
+  /** Rerank each search's over-fetched candidates (default: `search.reranker` from config, else none) */
+  rerank?: RerankerType;
 }
 
+/**
+ * Answer a question with `RecursiveRetrievalController`
+ *
+ * The query is decomposed into sub-questions that seed the initial
+ * retrieval. The controller picks a strategy from query complexity and what
+ * the model can handle: `direct` and `iterative` run follow-up searches that
+ * fill gaps until `minConfidence` is reached, while `recursive` runs
+ * RLM-style iterations over the context with the LLM. Both loops are held to
+ * the model's safeguard limits, `costBudget` and three quarters of
+ * `timeoutMs`, and follow-up generation is charged to the same token and
+ * cost budgets; the rest of the time and the reserved output tokens go to the
+ * answer synthesizer, which writes the answer with citations.
+ */
 export async function recursiveQueryTool(
   args: RecursiveQueryArgs,
-  deps: { vectorStore: VectorStore; embedder: Embedder; config: RAGConfig }
+  deps: {
+    vectorStore: VectorStore;
+    embedder: Embedder;
+    config: RAGConfig;
+    llm?: LLMProvider | null;
+    lexicalIndex?: LexicalIndex | null;
+  }
 ): Promise<any> {
   const {
     query,
     maxIterations = 5,
     minConfidence = 0.7,
-    sources
+    sources,
+    mode = deps.config.search?.defaultMode ?? 'hybrid',
+    strategy = 'auto',
+    costBudget = DEFAULT_RETRIEVAL_CONFIG.costBudget,
+    timeoutMs = DEFAULT_RETRIEVAL_CONFIG.timeoutMs,
+    seedChunkIds,
+    rerank = deps.config.search?.reranker ?? 'none'
   } = args;
+  const llm = deps.llm === undefined ? getLLMProvider() : deps.llm;
+  const modelName = !llm
+    ? 'default'
+    : llm instanceof LLMProviderManager
+      ? llm.getPrimaryModel()
+      : DEFAULT_MODELS[llm.type] ?? 'default';
 
-  const { vectorStore, embedder } = deps;
+  const startedAt = Date.now();
+  const retrievalDeadline = startedAt + timeoutMs * (1 - ANSWER_TIME_RATIO);
+  const timeLeft = (deadline: number) => Math.max(0, deadline - Date.now());
 
-  // Step 1: Decompose complex query into sub-questions
-  const subQuestions = decomposeQuery(query);
+  const filter = combineFilters(
+    sources && sources.length > 0 ? { source: { $in: sources } } : undefined,
+    args.filter
+  );
 
-  // Step 2: Initial retrieval for each sub-question
-  const context: Array<{ question: string; chunks: any[]; iteration?: number }> = [];
-  
-  for (const subQ of subQuestions) {
-    const embedding = await embedder.embed(subQ);
-    const searchOptions: any = { topK: 10 };
-    if (sources && sources.length > 0) {
-      searchOptions.filter = { source: { $in: sources } };
+  const loaded = await loadReranker(rerank, deps.config, llm);
+  let rerankError = loaded.error;
+
+  // Every chunk seen, so controller output can be mapped back to scored results
+  const retrieved = new Map<string, SearchResult>();
+  const retrieve = async (question: string, topK: number) => {
+    const search = await hybridSearch(question, deps, {
+      topK,
+      filter,
+      mode,
+      rrfK: deps.config.search?.rrfK,
+      reranker: loaded.reranker,
+    });
+    const { results } = search;
+    rerankError = rerankError ?? search.rerankError;
+    for (const result of results) {
+      if (!retrieved.has(result.id)) retrieved.set(result.id, result);
     }
-    const chunks = await vectorStore.search(embedding, searchOptions);
-    context.push({ question: subQ, chunks, iteration: 0 });
+    return results;
+  };
+
+  // Step 1: Decompose complex query into sub-questions (heuristic fallback when no LLM)
+  const decomposer = createQueryDecomposer(llm);
+  let subQuestions: string[];
+  try {
+    subQuestions = (await withTimeout(decomposer.decompose(query), timeLeft(retrievalDeadline))).map(s => s.question);
+  } catch {
+    subQuestions = [query];
   }
 
-  // Step 3: Iterative refinement
-  for (let i = 0; i < maxIterations; i++) {
-    // Generate follow-up questions based on current context
-    const followUps = generateFollowUps(query, context, 3);
-    if (followUps.length === 0) break;
-
-    // Retrieve for follow-ups
-    for (const followUp of followUps) {
-      const embedding = await embedder.embed(followUp.query);
-      const searchOptions: any = { topK: 5 };
-      if (sources && sources.length > 0) {
-        searchOptions.filter = { source: { $in: sources } };
+  // Step 2: Initial retrieval and strategy choice; recursive iterations need an LLM
+  const noLlm: LLMService = {
+    invoke: async () => {
+      throw new Error('No LLM provider configured');
+    },
+  };
+  const controller = createRecursiveRetrievalController(
+    deps.vectorStore,
+    deps.embedder,
+    llm ? createProviderLLMService(llm) : noLlm,
+    undefined,
+    { initialRetrievalK: 10, maxIterations, costBudget, timeoutMs: timeLeft(retrievalDeadline), modelName }
+  );
+  const result: RetrievalResult = await controller.retrieve(query, {
+    forceStrategy: strategy !== 'auto' ? strategy : undefined,
+    allowRecursive: llm !== null,
+    seedChunkIds,
+    retriever: retrieve,
+    initialQueries: subQuestions,
+  });
+
+  // Follow-up generation is charged to the same output token and cost budgets as the iterations
+  const tokenBudget = new TokenBudgetManager(modelName);
+  tokenBudget.useTokens(result.safeguards.thinkingTokensUsed);
+  let cost = result.cost;
+  const followUpPlanner = createQueryDecomposer(llm, {
+    onUsage: usage => {
+      tokenBudget.useTokens(usage.completionTokens);
+      cost += estimateTokenCost(usage.promptTokens, usage.completionTokens);
+    },
+  });
+
+  let iterations = result.iterations;
+  let terminationReason = result.terminationReason;
+  let chunks = result.chunks
+    .map(chunk => retrieved.get(chunk.id))
+    .filter((chunk): chunk is SearchResult => chunk !== undefined);
+
+  // Step 3: Direct and iterative strategies - follow-up searches targeting gaps in the context
+  if (result.strategy !== 'recursive') {
+    const context: RetrievalContext[] = [{ question: query, chunks, iteration: 0 }];
+    terminationReason = strategy !== 'auto'
+      ? `${strategy[0].toUpperCase()}${strategy.slice(1)} strategy requested`
+      : result.strategy === 'direct'
+        ? 'Simple query; no recursion needed'
+        : `Recursion not used for ${llm ? modelName : 'retrieval without an LLM'}`;
+
+    for (let i = 0; i < result.safeguards.maxIterations; i++) {
+      if (assessConfidence(query, context) >= minConfidence) {
+        terminationReason = 'Confidence threshold reached';
+        break;
+      }
+      if (tokenBudget.getRemainingThinkingTokens() <= 0) {
+        terminationReason = 'Token budget exhausted';
+        break;
+      }
+      if (cost >= costBudget) {
+        terminationReason = 'Budget exceeded';
+        break;
+      }
+
+      let followUps;
+      try {
+        followUps = await withTimeout(followUpPlanner.generateFollowUps(query, context, 3), timeLeft(retrievalDeadline));
+      } catch (error) {
+        terminationReason = error instanceof TimeoutError
+          ? 'Timeout'
+          : `Follow-up generation failed: ${error instanceof Error ? error.message : String(error)}`;
+        break;
+      }
+      if (followUps.length === 0) {
+        terminationReason = 'No further follow-up questions';
+        break;
+      }
+
+      for (const followUp of followUps) {
+        context.push({ question: followUp.query, chunks: await retrieve(followUp.query, 5), iteration: i + 1 });
       }
-      const chunks = await vectorStore.search(embedding, searchOptions);
-      context.push({
-        question: followUp.query,
-        chunks,
-        iteration: i + 1
-      });
+      iterations++;
+      terminationReason = 'Max iterations reached';
     }
 
-    // Check if we have sufficient coverage
-    const confidence = assessConfidence(query, context);
-    if (confidence >= minConfidence) break;
+    const byId = new Map(context.flatMap(c => c.chunks).map(c => [c.id, c]));
+    const followUpChunks = Array.from(byId.values()).filter(c => !chunks.some(existing => existing.id === c.id));
+    followUpChunks.sort((a, b) => (b.score || 0) - (a.score || 0));
+    chunks = [...chunks, ...followUpChunks];
   }
 
-  // Step 4: Synthesize final answer
-  // For now, return all relevant chunks with scores
-  // In a full implementation, this would use an LLM to synthesize
-  const allChunks = context.flatMap(c => c.chunks);
-  const uniqueChunks = Array.from(
-    new Map(allChunks.map(c => [c.id, c])).values()
-  );
-  
-  // Sort by score descending
-  uniqueChunks.sort((a, b) => (b.score || 0) - (a.score || 0));
-  
-  // Take top chunks for answer synthesis
-  const topChunks = uniqueChunks.slice(0, 20);
-  
-  // Simple synthesis: combine top chunks
-  const answer = topChunks
-    .map((chunk, idx) => `[${idx + 1}] ${chunk.content}`)
-    .join('\n\n');
+  // Step 4: Write a cited answer with the configured LLM (falls back to the raw chunks),
+  // using the reserved output tokens and whatever time is left
+  const { safeguards } = result;
+  const thinkingTokensUsed = tokenBudget.getBudget().currentUsed;
+  const answerTokens = safeguards.reservedForAnswer + Math.max(0, tokenBudget.getRemainingThinkingTokens());
+  const synthesizer = createAnswerSynthesizer(llm, {
+    maxTokens: Math.min(DEFAULT_SYNTHESIZER_OPTIONS.maxTokens, answerTokens),
+    timeoutMs: timeLeft(startedAt + timeoutMs),
+  });
+  const synthesis = await synthesizer.synthesize(query, chunks, result.answer);
+  const elapsedMs = Date.now() - startedAt;
+
+  const openCircuits = llm instanceof LLMProviderManager
+    ? llm.getCircuitStatus().filter(c => c.state !== 'closed')
+    : [];
 
   logActivity('query', `Query: "${query.substring(0, 50)}${query.length > 50 ? '...' : ''}"`, {
     subQuestions: subQuestions.length,
-    retrievalSteps: context.length,
-    chunksFound: uniqueChunks.length
+    strategy: result.strategy,
+    complexity: result.complexity,
+    iterations,
+    maxIterations: safeguards.maxIterations,
+    cost,
+    costBudget,
+    thinkingTokens: thinkingTokensUsed,
+    maxThinkingTokens: safeguards.maxThinkingTokens,
+    reservedForAnswer: safeguards.reservedForAnswer,
+    rejectedAnswers: safeguards.rejectedAnswers,
+    elapsedMs,
+    timeoutMs,
+    reranker: loaded.reranker?.name,
+    rerankError,
+    safeguardModel: safeguards.model,
+    openCircuits: openCircuits.map(c => c.provider),
+    terminationReason,
+    chunksFound: chunks.length,
+    mode,
+    synthesized: synthesis.synthesized,
+    model: synthesis.model,
+    fallbackReason: synthesis.fallbackReason
   });
 
+  const sourceList = formatCitations(
+    synthesis.citations,
+    synthesis.synthesized ? synthesis.citedIndexes : undefined
+  );
+  const note = synthesis.synthesized
+    ? `Answer synthesized by ${synthesis.model} from ${synthesis.citations.length} chunks.`
+    : `LLM synthesis unavailable (${synthesis.fallbackReason}); showing top chunks.`;
+
+  const report = [
+    `- Strategy: ${result.strategy}${result.complexity ? ` (complexity: ${result.complexity})` : ''}`,
+    `- Iterations: ${iterations} of ${safeguards.maxIterations} (limits for ${safeguards.model})`,
+    `- Cost: $${cost.toFixed(4)} of $${costBudget.toFixed(2)} budget`,
+    `- Tokens: ${thinkingTokensUsed} of ${safeguards.maxThinkingTokens} thinking tokens; ${safeguards.reservedForAnswer} reserved for the answer`,
+    `- Time: ${(elapsedMs / 1000).toFixed(1)}s of ${(timeoutMs / 1000).toFixed(1)}s`,
+    `- Terminated: ${terminationReason ?? 'completed'}`,
+    ...(safeguards.rejectedAnswers > 0 ? [`- Rejected answers: ${safeguards.rejectedAnswers}`] : []),
+    ...openCircuits.map(c => `- Provider ${c.provider}: circuit ${c.state} after ${c.failures} failures`),
+    `- Chunks: ${chunks.length} from ${subQuestions.length} sub-questions`,
+    ...(loaded.reranker || rerankError
+      ? [`- Reranker: ${rerankError ? `skipped (${rerankError})` : loaded.reranker!.name}`]
+      : []),
+  ].join('\n');
+
   return {
     content: [
       {
         type: 'text',
-        text: `## Answer\n\n${answer}\n\n## Sources\n\nFound ${uniqueChunks.length} relevant chunks from ${context.length} retrieval steps.`
+        text: `## Answer\n\n${synthesis.answer}\n\n## Sources\n\n${sourceList ? `${sourceList}\n\n` : ''}${note}\n\n## Retrieval\n\n${report}`
       }
     ]
   };
@@ -0,0 +1,179 @@
+import { existsSync } from 'fs';
+import FirecrawlApp from '@mendable/firecrawl-js';
+import type { VectorStore } from '../../adapters/vector/index.js';
+import type { Embedder } from '../../adapters/embeddings/index.js';
+import type { ChunkOptions, RAGConfig } from '../../types/index.js';
+import type { SourceRecord } from '../../types/sources.js';
+import type { LexicalIndex } from '../../services/lexicalIndex.js';
+import type { SourceRegistry } from '../../services/sourceRegistry.js';
+import type { MemoryMetadataStore } from '../../services/memoryMetadataStore.js';
+import { ingestSourceContent } from '../../services/sourceManager.js';
+import { DEFAULT_CRAWLER_USER_AGENT } from '../../services/webCrawler.js';
+import { createProxyManager } from '../../proxy/index.js';
+import { loadDocument, type DocumentSection } from '../../adapters/loaders/index.js';
+import { logActivity } from '../../services/activity-log.js';
+import { ingestDocumentTool } from './ingest.js';
+
+interface ReingestSourceArgs {
+  source: string;
+  /** Overrides for the chunking settings recorded with the source */
+  chunking?: ChunkOptions;
+  force?: boolean;
+}
+
+type ReingestDeps = {
+  vectorStore: VectorStore;
+  embedder: Embedder;
+  config: RAGConfig;
+  lexicalIndex?: LexicalIndex | null;
+  sourceRegistry?: SourceRegistry | null;
+  metadataStore?: MemoryMetadataStore | null;
+};
+
+/**
+ * Re-read a registered source from its original location and replace its chunks
+ *
+ * Chunks with the settings recorded for the source, merged with any
+ * `chunking` overrides. Skips the work when neither the content hash nor the
+ * settings changed, unless `force` is set.
+ */
+export async function reingestSourceTool(
+  args: ReingestSourceArgs,
+  deps: ReingestDeps
+): Promise<any> {
+  const { source: ref, chunking, force = false } = args;
+  const { sourceRegistry } = deps;
+
+  if (!sourceRegistry) {
+    return errorResult('Source registry is not available.');
+  }
+
+  const source = sourceRegistry.findSource(ref);
+  if (!source) {
+    return errorResult(`Source not found: ${ref}. Use list_sources to see source IDs and names.`);
+  }
+
+  try {
+    switch (source.kind) {
+      case 'file':
+        if (!source.uri || !existsSync(source.uri)) {
+          return errorResult(`File no longer exists: ${source.uri}. Use delete_source to remove it.`);
+        }
+        return await ingestDocumentTool(
+          { source: source.uri, title: source.title, name: source.name, metadata: source.metadata, chunking, force },
+          deps
+        );
+      case 'url':
+        return await ingestDocumentTool(
+          { source: source.uri!, title: source.title, name: source.name, metadata: source.metadata, chunking, force },
+          deps
+        );
+      case 'crawl':
+        return await reingestCrawledPage(source, chunking, force, deps);
+      case 'text':
+        return errorResult(
+          `Source "${source.title}" was ingested from raw text and has no location to re-read. ` +
+          'Ingest the new text with the same title to replace it.'
+        );
+    }
+  } catch (error) {
+    logActivity('error', `Re-ingest failed: ${source.title}`, {
+      sourceId: source.id,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+
+    return errorResult(`Error re-ingesting ${source.title}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+async function reingestCrawledPage(
+  source: SourceRecord,
+  chunking: ChunkOptions | undefined,
+  force: boolean,
+  deps: ReingestDeps
+): Promise<any> {
+  const page = await fetchCrawledPage(source.uri!, deps.config);
+  if ('error' in page) {
+    return errorResult(`Failed to re-fetch ${source.uri}: ${page.error}`);
+  }
+
+  const result = await ingestSourceContent({
+    content: page.content,
+    sections: page.sections,
+    name: source.name,
+    title: page.title || source.title,
+    kind: 'crawl',
+    uri: source.uri,
+    metadata: source.metadata,
+    chunking,
+    force
+  }, deps);
+
+  if (result.skipped) {
+    return {
+      content: [{ type: 'text', text: `Skipped "${source.title}": content unchanged since the last ingest.` }]
+    };
+  }
+
+  logActivity('crawl', `Re-ingested: ${source.uri}`, {
+    sourceId: source.id,
+    chunksCreated: result.chunksCreated,
+    staleChunksRemoved: result.staleChunksRemoved
+  });
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: `Re-ingested "${source.title}". Created ${result.chunksCreated} chunks and removed ${result.staleChunksRemoved} stale chunks.`
+      }
+    ]
+  };
+}
+
+/**
+ * Re-fetch one crawled page through Firecrawl, or directly (via the
+ * configured proxy) when no Firecrawl API key is set
+ */
+async function fetchCrawledPage(
+  url: string,
+  config: RAGConfig
+): Promise<{ content: string; title?: string; sections?: DocumentSection[] } | { error: string }> {
+  const firecrawlApiKey = config.apiKeys?.firecrawl;
+  if (firecrawlApiKey) {
+    const app = new FirecrawlApp({ apiKey: firecrawlApiKey });
+    const page = await app.scrapeUrl(url, {
+      formats: ['markdown'],
+      onlyMainContent: true
+    });
+
+    if (!page.success || !('markdown' in page) || !page.markdown) {
+      return { error: 'error' in page && page.error ? page.error : 'No content returned' };
+    }
+    return { content: page.markdown, title: page.metadata?.title };
+  }
+
+  const response = await createProxyManager(config).fetchWithProxy(url, {
+    headers: { 'User-Agent': config.crawler?.userAgent ?? DEFAULT_CRAWLER_USER_AGENT }
+  });
+  if (!response.ok) {
+    return { error: `HTTP ${response.status}` };
+  }
+
+  const document = await loadDocument({
+    data: Buffer.from(await response.arrayBuffer()),
+    path: url,
+    mimeType: response.headers.get('content-type') ?? undefined
+  });
+  if (!document.text.trim()) {
+    return { error: 'No content returned' };
+  }
+  return { content: document.text, title: document.title, sections: document.sections };
+}
+
+function errorResult(text: string): any {
+  return {
+    content: [{ type: 'text', text }],
+    isError: true
+  };
+}
@@ -1,46 +1,120 @@
 import type { VectorStore } from '../../adapters/vector/index.js';
 import type { Embedder } from '../../adapters/embeddings/index.js';
-import type { RAGConfig } from '../../types/index.js';
+import type { MetadataFilter, RAGConfig, RerankerType, SearchMode } from '../../types/index.js';
+import type { LLMProvider } from '../../types/llmProvider.js';
+import type { LexicalIndex } from '../../services/lexicalIndex.js';
+import { hybridSearch } from '../../services/hybridSearch.js';
+import { combineFilters } from '../../services/metadataFilter.js';
+import { createReranker, type Reranker } from '../../adapters/rerankers/index.js';
 import { logActivity } from '../../services/activity-log.js';
 
 interface SearchKnowledgeArgs {
   query: string;
   topK?: number;
   sources?: string[];
+  /** Metadata filter, ANDed with `sources` */
+  filter?: MetadataFilter;
+  mode?: SearchMode;
+  /** Rerank over-fetched candidates (default: `search.reranker` from config, else none) */
+  rerank?: RerankerType;
 }
 
 export async function searchKnowledgeTool(
   args: SearchKnowledgeArgs,
-  deps: { vectorStore: VectorStore; embedder: Embedder; config: RAGConfig }
+  deps: {
+    vectorStore: VectorStore;
+    embedder: Embedder;
+    config: RAGConfig;
+    lexicalIndex?: LexicalIndex | null;
+    llm?: LLMProvider | null;
+  }
 ): Promise<any> {
   const { query, topK = 10, sources } = args;
-  const { vectorStore, embedder } = deps;
+  const requestedMode = args.mode ?? deps.config.search?.defaultMode ?? 'hybrid';
+  const rerank = args.rerank ?? deps.config.search?.reranker ?? 'none';
 
-  const embedding = await embedder.embed(query);
-  
-  const searchOptions: any = { topK };
-  if (sources && sources.length > 0) {
-    searchOptions.filter = { source: { $in: sources } };
-  }
-  
-  const results = await vectorStore.search(embedding, searchOptions);
+  const filter = combineFilters(
+    sources && sources.length > 0 ? { source: { $in: sources } } : undefined,
+    args.filter
+  );
+
+  const loaded = await loadReranker(rerank, deps.config, deps.llm);
+  const { results, mode, reranker, rerankError = loaded.error } = await hybridSearch(query, deps, {
+    topK,
+    filter,
+    mode: requestedMode,
+    rrfK: deps.config.search?.rrfK,
+    reranker: loaded.reranker,
+  });
 
   logActivity('search', `Search: "${query.substring(0, 50)}${query.length > 50 ? '...' : ''}"`, {
     resultsCount: results.length,
     topK,
-    sources: sources || []
+    mode,
+    reranker,
+    rerankError,
+    sources: sources || [],
+    filter: args.filter
   });
 
-  const formattedResults = results.map((result: any, idx: number) => 
-    `[${idx + 1}] Score: ${result.score.toFixed(4)}\nSource: ${result.metadata.source || 'unknown'}\n${result.content}`
-  ).join('\n\n---\n\n');
+  const formattedResults = results.map((result: any, idx: number) => {
+    const retrieval = result.metadata.retrievalScore !== undefined
+      ? ` (retrieval ${result.metadata.retrievalScore.toFixed(4)})`
+      : '';
+    return `[${idx + 1}] Score: ${result.score.toFixed(4)}${retrieval}\nSource: ${formatSourceLocation(result.metadata)}\n${result.content}`;
+  }).join('\n\n---\n\n');
+
+  const notes = [
+    mode !== requestedMode ? `${requestedMode} search unavailable without a lexical index; used ${mode}` : null,
+    reranker ? `reranked by ${reranker}` : null,
+    rerankError ? `reranking skipped: ${rerankError}` : null,
+  ].filter(Boolean);
+  const modeNote = notes.length > 0 ? ` (${notes.join('; ')})` : '';
 
   return {
     content: [
       {
         type: 'text',
-        text: `Found ${results.length} results:\n\n${formattedResults}`
+        text: `Found ${results.length} results${modeNote}:\n\n${formattedResults}`
       }
     ]
   };
 }
+
+/**
+ * Create the requested reranker, reporting failures (e.g. a model that
+ * cannot be downloaded) instead of failing the search
+ */
+export async function loadReranker(
+  type: RerankerType,
+  config: RAGConfig,
+  llm?: LLMProvider | null
+): Promise<{ reranker: Reranker | null; error?: string }> {
+  try {
+    return { reranker: await createReranker(type, config, llm) };
+  } catch (error) {
+    return { reranker: null, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Source label with line range and symbol for code chunks, e.g. `src/a.ts:10-42 (function foo)`,
+ * or the page, cell, rows or heading a document chunk came from, e.g. `manual.pdf (page 3)`
+ */
+export function formatSourceLocation(metadata: Record<string, any>): string {
+  const source = metadata.source || 'unknown';
+  if (metadata.startLine === undefined) {
+    const location = [
+      metadata.page !== undefined ? `page ${metadata.page}` : null,
+      metadata.cell !== undefined ? `cell ${metadata.cell}` : null,
+      metadata.rowStart !== undefined ? `rows ${metadata.rowStart}-${metadata.rowEnd}` : null,
+      metadata.heading || metadata.jsonPath || null,
+    ].filter(Boolean);
+    return location.length > 0 ? `${source} (${location.join(', ')})` : source;
+  }
+
+  const symbol = metadata.symbol
+    ? ` (${metadata.symbolKind ? `${metadata.symbolKind} ` : ''}${metadata.symbol})`
+    : '';
+  return `${source}:${metadata.startLine}-${metadata.endLine}${symbol}`;
+}
@@ -2,6 +2,7 @@ import type { RAGConfig } from '../../types/index.js';
 import { createOpenSkillsClient, type Skill } from '../../integrations/openskills.js';
 import { createVectorStore } from '../../adapters/vector/index.js';
 import { createEmbedder } from '../../adapters/embeddings/index.js';
+import { getCollectionStores } from '../../services/collectionStores.js';
 import { chunkDocument } from '../../services/chunker.js';
 import { randomUUID } from 'crypto';
 
@@ -45,7 +46,8 @@ export async function readOpenSkillTool(
 }
 
 export async function ingestSkillsTool(
-  config: RAGConfig
+  config: RAGConfig,
+  collection?: string
 ): Promise<{ ingested: number; skills: string[] }> {
   const client = createOpenSkillsClient(config);
   
@@ -53,7 +55,7 @@ export async function ingestSkillsTool(
     throw new Error('OpenSkills integration is not enabled');
   }
 
-  const vectorStore = createVectorStore(config.vectorStore, config);
+  const { vectorStore, lexicalIndex } = getCollectionStores(config, collection);
   const embedder = await createEmbedder(config.embeddings, config);
   
   const documents = client.skillsToDocuments();
@@ -79,6 +81,7 @@ export async function ingestSkillsTool(
     }));
 
     await vectorStore.add(vectorDocs);
+    lexicalIndex.add(vectorDocs);
     ingestedSkills.push(doc.metadata.name);
   }
 
@@ -90,7 +93,8 @@ export async function ingestSkillsTool(
 
 export async function searchSkillsTool(
   config: RAGConfig,
-  params: { query: string; topK?: number }
+  params: { query: string; topK?: number },
+  collection?: string
 ): Promise<{ results: Array<{ name: string; content: string; score: number }> }> {
   const client = createOpenSkillsClient(config);
   
@@ -98,7 +102,7 @@ export async function searchSkillsTool(
     return { results: [] };
   }
 
-  const vectorStore = createVectorStore(config.vectorStore, config);
+  const vectorStore = createVectorStore(config.vectorStore, config, collection);
   const embedder = await createEmbedder(config.embeddings, config);
   
   const embedding = await embedder.embed(params.query);
@@ -0,0 +1,246 @@
+/**
+ * Answer Synthesizer
+ *
+ * Turns retrieved chunks into a written answer using the configured LLM provider.
+ * Every claim in the answer is cited inline with a numbered marker ([1], [2], ...)
+ * that maps back to the chunk ID and source it came from.
+ *
+ * When no provider is reachable, or it does not answer within `timeoutMs`,
+ * falls back to returning the numbered chunks verbatim so callers always get
+ * something usable.
+ */
+
+import { getLLMProvider, type LLMProvider } from '../adapters/llm/index.js';
+import type { SearchResult } from '../types/index.js';
+import { withTimeout } from './contextEnvironment.js';
+
+export interface Citation {
+  /** Marker number used in the answer text, e.g. 2 for [2] */
+  index: number;
+  chunkId: string;
+  source: string;
+  title?: string;
+  score: number;
+}
+
+export interface SynthesisResult {
+  answer: string;
+  /** Citations for every chunk passed to the model, in marker order */
+  citations: Citation[];
+  /** Marker numbers that actually appear in the answer */
+  citedIndexes: number[];
+  /** False when the chunk-dump fallback was used */
+  synthesized: boolean;
+  model?: string;
+  tokensUsed?: number;
+  fallbackReason?: string;
+}
+
+export interface SynthesizerOptions {
+  /** Maximum number of chunks offered to the model as numbered sources */
+  maxChunks: number;
+  /** Character budget for the sources block of the prompt */
+  maxContextChars: number;
+  maxTokens: number;
+  temperature: number;
+  /** Stop waiting for the LLM after this long and fall back to the chunks */
+  timeoutMs?: number;
+}
+
+export const DEFAULT_SYNTHESIZER_OPTIONS: SynthesizerOptions = {
+  maxChunks: 20,
+  maxContextChars: 24000,
+  maxTokens: 1500,
+  temperature: 0.2,
+};
+
+const SYSTEM_PROMPT = `You are a technical assistant answering questions from a knowledge base.
+
+Rules:
+1. Use ONLY the numbered sources provided. Do not use outside knowledge.
+2. Cite every factual statement with the number of the source it came from, e.g. "Tokens expire after 1 hour [2]." Use several markers when several sources support a statement, e.g. [1][3].
+3. If the sources do not contain the answer, say so plainly instead of guessing.
+4. Be concise. Prefer short paragraphs and bullet points. Include code only when the sources contain it.
+5. Do not add a list of sources at the end; it is generated for you.`;
+
+/**
+ * Answer Synthesizer - writes cited answers from retrieved chunks
+ */
+export class AnswerSynthesizer {
+  private llm: LLMProvider | null;
+  private options: SynthesizerOptions;
+
+  constructor(llm?: LLMProvider | null, options?: Partial<SynthesizerOptions>) {
+    this.llm = llm === undefined ? getLLMProvider() : llm;
+    this.options = { ...DEFAULT_SYNTHESIZER_OPTIONS, ...options };
+  }
+
+  /**
+   * Synthesize an answer to the query from the given chunks
+   *
+   * Chunks are expected to be ordered by relevance; only the first
+   * `maxChunks` that fit in the context budget are used. `analysis` is an
+   * optional uncited draft (e.g. from recursive retrieval) offered to the
+   * model as a starting point; the answer is still written from the sources.
+   */
+  async synthesize(query: string, chunks: SearchResult[], analysis?: string): Promise<SynthesisResult> {
+    const selected = this.selectChunks(chunks);
+    const citations = selected.map((chunk, idx) => this.toCitation(chunk, idx + 1));
+
+    if (selected.length === 0) {
+      return {
+        answer: 'No relevant information was found in the knowledge base.',
+        citations: [],
+        citedIndexes: [],
+        synthesized: false,
+        fallbackReason: 'No chunks retrieved',
+      };
+    }
+
+    if (!this.llm) {
+      return this.fallback(selected, citations, 'No LLM provider configured');
+    }
+
+    try {
+      const { timeoutMs } = this.options;
+      const request = this.llm.chat([
+        { role: 'system', content: SYSTEM_PROMPT },
+        { role: 'user', content: this.buildPrompt(query, selected, analysis) },
+      ], {
+        maxTokens: this.options.maxTokens,
+        temperature: this.options.temperature,
+        timeout: timeoutMs,
+      });
+      const response = timeoutMs === undefined
+        ? await request
+        : await withTimeout(request, timeoutMs, `LLM did not answer within ${timeoutMs}ms`);
+
+      const answer = response.content.trim();
+      if (answer.length === 0) {
+        return this.fallback(selected, citations, 'LLM returned an empty answer');
+      }
+
+      return {
+        answer,
+        citations,
+        citedIndexes: extractCitationIndexes(answer, citations.length),
+        synthesized: true,
+        model: response.model,
+        tokensUsed: response.usage?.totalTokens,
+      };
+    } catch (error) {
+      return this.fallback(
+        selected,
+        citations,
+        error instanceof Error ? error.message : 'LLM request failed'
+      );
+    }
+  }
+
+  private selectChunks(chunks: SearchResult[]): SearchResult[] {
+    const selected: SearchResult[] = [];
+    let usedChars = 0;
+
+    for (const chunk of chunks.slice(0, this.options.maxChunks)) {
+      if (selected.length > 0 && usedChars + chunk.content.length > this.options.maxContextChars) {
+        break;
+      }
+      selected.push(chunk);
+      usedChars += chunk.content.length;
+    }
+
+    return selected;
+  }
+
+  private buildPrompt(query: string, chunks: SearchResult[], analysis?: string): string {
+    const sources = chunks.map((chunk, idx) => {
+      const source = chunk.metadata?.source || 'unknown';
+      const title = chunk.metadata?.title && chunk.metadata.title !== source
+        ? ` - ${chunk.metadata.title}`
+        : '';
+      return `[${idx + 1}] (source: ${source}${title})\n${chunk.content}`;
+    }).join('\n\n---\n\n');
+
+    const draft = analysis?.trim()
+      ? `\n\n## Earlier Analysis (uncited; verify against the sources)\n${analysis.trim()}`
+      : '';
+
+    return `## Sources
+
+${sources}${draft}
+
+## Question
+${query}
+
+Answer the question using the sources above, citing them inline with [n] markers.`;
+  }
+
+  /**
+   * Chunk-dump fallback used when no LLM is available
+   */
+  private fallback(chunks: SearchResult[], citations: Citation[], reason: string): SynthesisResult {
+    const answer = chunks
+      .map((chunk, idx) => `[${idx + 1}] ${chunk.content}`)
+      .join('\n\n');
+
+    return {
+      answer,
+      citations,
+      citedIndexes: citations.map(c => c.index),
+      synthesized: false,
+      fallbackReason: reason,
+    };
+  }
+
+  private toCitation(chunk: SearchResult, index: number): Citation {
+    return {
+      index,
+      chunkId: chunk.id,
+      source: chunk.metadata?.source || 'unknown',
+      title: chunk.metadata?.title,
+      score: chunk.score,
+    };
+  }
+}
+
+/**
+ * Find the citation markers used in an answer, ignoring out-of-range numbers
+ */
+export function extractCitationIndexes(answer: string, maxIndex: number): number[] {
+  const indexes = new Set<number>();
+
+  for (const match of answer.matchAll(/\[(\d+(?:\s*,\s*\d+)*)\]/g)) {
+    for (const part of match[1].split(',')) {
+      const n = parseInt(part.trim(), 10);
+      if (n >= 1 && n <= maxIndex) {
+        indexes.add(n);
+      }
+    }
+  }
+
+  return Array.from(indexes).sort((a, b) => a - b);
+}
+
+/**
+ * Format citations as a markdown source list
+ *
+ * When `onlyCited` is given, only those marker numbers are listed.
+ */
+export function formatCitations(citations: Citation[], onlyCited?: number[]): string {
+  const wanted = onlyCited ? new Set(onlyCited) : null;
+
+  return citations
+    .filter(c => !wanted || wanted.has(c.index))
+    .map(c => {
+      const title = c.title && c.title !== c.source ? ` - ${c.title}` : '';
+      return `[${c.index}] ${c.source}${title} (chunk: ${c.chunkId}, score: ${c.score.toFixed(4)})`;
+    })
+    .join('\n');
+}
+
+export function createAnswerSynthesizer(
+  llm?: LLMProvider | null,
+  options?: Partial<SynthesizerOptions>
+): AnswerSynthesizer {
+  return new AnswerSynthesizer(llm, options);
+}
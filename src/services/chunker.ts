@@ -1,15 +1,44 @@
-import { encoding_for_model } from 'tiktoken';
-import type { Chunk, ChunkOptions } from '../types/index.js';
+import { encoding_for_model, type Tiktoken, type TiktokenModel } from 'tiktoken';
+import type { Chunk, ChunkBoundaryMode, ChunkOptions } from '../types/index.js';
 
-const tokenizer = encoding_for_model('gpt-3.5-turbo');
+export const DEFAULT_TOKENIZER_MODEL = 'gpt-3.5-turbo';
 
-function tokenCount(text: string): number {
-  return tokenizer.encode(text).length;
+const tokenizers = new Map<string, Tiktoken>();
+
+/**
+ * Get the (cached) tiktoken encoder for a model
+ */
+export function getTokenizer(model: string = DEFAULT_TOKENIZER_MODEL): Tiktoken {
+  let tokenizer = tokenizers.get(model);
+  if (!tokenizer) {
+    try {
+      tokenizer = encoding_for_model(model as TiktokenModel);
+    } catch {
+      throw new Error(`Unknown tokenizer model "${model}". Use a model name tiktoken recognises, e.g. gpt-4o or gpt-3.5-turbo.`);
+    }
+    tokenizers.set(model, tokenizer);
+  }
+  return tokenizer;
+}
+
+export function tokenCount(text: string, model?: string): number {
+  return getTokenizer(model).encode(text).length;
 }
 
-function splitBySemanticBoundaries(text: string): string[] {
+/**
+ * Resolve the boundary mode, honouring the older `respectBoundaries` flag
+ */
+export function getBoundaryMode(options: ChunkOptions): ChunkBoundaryMode {
+  return options.boundaryMode ?? (options.respectBoundaries === false ? 'none' : 'semantic');
+}
+
+function splitBySemanticBoundaries(text: string, mode: ChunkBoundaryMode): string[] {
   // Split by double newlines (paragraphs)
   let sections = text.split(/\n\n+/);
+
+  if (mode === 'paragraph') {
+    return sections.filter(s => s.trim().length > 0);
+  }
   
   // Further split long sections by headers (# ## ###)
   const finalSections: string[] = [];
@@ -27,22 +56,23 @@ function splitBySemanticBoundaries(text: string): string[] {
   return finalSections.filter(s => s.trim().length > 0);
 }
 
-function slidingWindowChunk(text: string, chunkSize: number, overlap: number): string[] {
+function slidingWindowChunk(text: string, chunkSize: number, overlap: number, model?: string): string[] {
   const chunks: string[] = [];
   const words = text.split(/\s+/);
   let currentChunk: string[] = [];
   let currentTokens = 0;
   
   for (const word of words) {
-    const wordTokens = tokenCount(word);
+    const wordTokens = tokenCount(word, model);
     if (currentTokens + wordTokens > chunkSize && currentChunk.length > 0) {
       // Save current chunk
       chunks.push(currentChunk.join(' '));
       
       // Start new chunk with overlap
       const overlapSize = Math.floor(currentChunk.length * (overlap / 100));
-      currentChunk = currentChunk.slice(-overlapSize);
-      currentTokens = tokenCount(currentChunk.join(' '));
+      // slice(-0) would keep the whole window
+      currentChunk = overlapSize > 0 ? currentChunk.slice(-overlapSize) : [];
+      currentTokens = tokenCount(currentChunk.join(' '), model);
     }
     
     currentChunk.push(word);
@@ -61,21 +91,22 @@ export function chunkDocument(text: string, options: ChunkOptions = {}): Chunk[]
   const {
     chunkSize = 512,
     chunkOverlap = 50,
-    respectBoundaries = true
+    tokenizerModel
   } = options;
+  const boundaryMode = getBoundaryMode(options);
 
-  if (respectBoundaries) {
+  if (boundaryMode !== 'none') {
     // Split by semantic boundaries first
-    const sections = splitBySemanticBoundaries(text);
+    const sections = splitBySemanticBoundaries(text, boundaryMode);
     const chunks: Chunk[] = [];
     
     for (const section of sections) {
-      const tokens = tokenCount(section);
+      const tokens = tokenCount(section, tokenizerModel);
       if (tokens <= chunkSize) {
         chunks.push({ text: section, index: chunks.length });
       } else {
         // Sliding window with overlap
-        const windowChunks = slidingWindowChunk(section, chunkSize, chunkOverlap);
+        const windowChunks = slidingWindowChunk(section, chunkSize, chunkOverlap, tokenizerModel);
         windowChunks.forEach((chunkText, i) => {
           chunks.push({ text: chunkText, index: chunks.length });
         });
@@ -85,7 +116,7 @@ export function chunkDocument(text: string, options: ChunkOptions = {}): Chunk[]
     return chunks;
   } else {
     // Simple sliding window without respecting boundaries
-    const windowChunks = slidingWindowChunk(text, chunkSize, chunkOverlap);
+    const windowChunks = slidingWindowChunk(text, chunkSize, chunkOverlap, tokenizerModel);
     return windowChunks.map((text, index) => ({ text, index }));
   }
 }
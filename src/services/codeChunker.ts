@@ -0,0 +1,217 @@
+/**
+ * Code-Aware Chunking
+ *
+ * Splits source files on top-level declarations (functions, classes,
+ * interfaces, types, exports) instead of blank lines, so a chunk holds a
+ * whole declaration together with its doc comment or decorators. Each chunk
+ * records the language, declared symbol and 1-based line range so search
+ * results can point at an exact file location.
+ */
+
+import { extname } from 'path';
+import type { Chunk, ChunkOptions } from '../types/index.js';
+import { ChunkType } from '../types/memory.js';
+import { chunkDocument, tokenCount } from './chunker.js';
+
+export type CodeLanguage = 'typescript' | 'javascript' | 'python' | 'go' | 'rust';
+
+const EXTENSION_LANGUAGES: Record<string, CodeLanguage> = {
+  '.ts': 'typescript',
+  '.tsx': 'typescript',
+  '.mts': 'typescript',
+  '.cts': 'typescript',
+  '.js': 'javascript',
+  '.jsx': 'javascript',
+  '.mjs': 'javascript',
+  '.cjs': 'javascript',
+  '.py': 'python',
+  '.go': 'go',
+  '.rs': 'rust',
+};
+
+interface DeclarationPattern {
+  regex: RegExp;
+  /** Capture group holding the declared name */
+  nameGroup: number;
+  /** Capture group holding the declaration keyword, if any */
+  kindGroup?: number;
+  kind?: string;
+}
+
+const JS_DECLARATIONS: DeclarationPattern[] = [
+  {
+    regex: /^(?:export\s+(?:default\s+)?)?(?:declare\s+)?(?:abstract\s+)?(?:async\s+)?(function\*?|class|interface|type|enum|const|let|var|namespace|module)\s+([A-Za-z_$][\w$]*)/,
+    kindGroup: 1,
+    nameGroup: 2,
+  },
+  { regex: /^export\s+default\b()/, nameGroup: 1, kind: 'export' },
+];
+
+const DECLARATIONS: Record<CodeLanguage, DeclarationPattern[]> = {
+  typescript: JS_DECLARATIONS,
+  javascript: JS_DECLARATIONS,
+  python: [
+    { regex: /^(?:async\s+)?(def|class)\s+([A-Za-z_]\w*)/, kindGroup: 1, nameGroup: 2 },
+  ],
+  go: [
+    { regex: /^func\s+(\([^)]*\)\s*)?([A-Za-z_]\w*)/, nameGroup: 2, kind: 'func' },
+    { regex: /^type\s+([A-Za-z_]\w*)/, nameGroup: 1, kind: 'type' },
+  ],
+  rust: [
+    {
+      regex: /^(?:pub(?:\([^)]*\))?\s+)?(?:async\s+)?(?:unsafe\s+)?(fn|struct|enum|trait|mod|type|const|static)\s+([A-Za-z_]\w*)/,
+      kindGroup: 1,
+      nameGroup: 2,
+    },
+    { regex: /^(impl)(?:<[^>]*>)?\s+(?:[\w:<>]+\s+for\s+)?([A-Za-z_][\w:]*)/, kindGroup: 1, nameGroup: 2 },
+  ],
+};
+
+/** Comments, decorators and attributes that belong to the declaration below them */
+const LEADING_LINE: Record<CodeLanguage, RegExp> = {
+  typescript: /^\s*(\/\/|\/\*|\*|@)/,
+  javascript: /^\s*(\/\/|\/\*|\*|@)/,
+  python: /^\s*(#|@)/,
+  go: /^\s*(\/\/|\/\*|\*)/,
+  rust: /^\s*(\/\/|\/\*|\*|#\[)/,
+};
+
+interface Segment {
+  /** 0-based, inclusive */
+  start: number;
+  end: number;
+  symbol?: string;
+  symbolKind?: string;
+}
+
+/**
+ * Detect the programming language from a file path or extension
+ */
+export function detectLanguage(pathOrExtension: string): CodeLanguage | null {
+  const ext = pathOrExtension.startsWith('.') && !pathOrExtension.includes('/')
+    ? pathOrExtension.toLowerCase()
+    : extname(pathOrExtension).toLowerCase();
+  return EXTENSION_LANGUAGES[ext] ?? null;
+}
+
+/**
+ * Chunk text using the strategy that fits its file type
+ *
+ * With the default `auto` strategy, source files in a supported language get
+ * declaration-based chunks and everything else goes through `chunkDocument`.
+ */
+export function chunkSourceText(text: string, path: string | null | undefined, options: ChunkOptions = {}): Chunk[] {
+  const language = path && options.strategy !== 'text' ? detectLanguage(path) : null;
+  return language ? chunkCode(text, language, options) : chunkDocument(text, options);
+}
+
+/**
+ * Split source code on top-level declarations
+ *
+ * Declarations larger than `chunkSize` tokens are split further on line
+ * boundaries; every part keeps the declaration's symbol.
+ */
+export function chunkCode(text: string, language: CodeLanguage, options: ChunkOptions = {}): Chunk[] {
+  const { chunkSize = 512, tokenizerModel } = options;
+  const lines = text.split(/\r?\n/);
+  const chunks: Chunk[] = [];
+
+  for (const segment of findSegments(lines, language)) {
+    for (const part of splitOversized(lines, segment, chunkSize, tokenizerModel)) {
+      const body = lines.slice(part.start, part.end + 1).join('\n');
+      chunks.push({
+        text: body,
+        index: chunks.length,
+        metadata: {
+          chunkType: ChunkType.CODE,
+          language,
+          symbol: part.symbol,
+          symbolKind: part.symbolKind,
+          startLine: part.start + 1,
+          endLine: part.end + 1,
+        },
+      });
+    }
+  }
+
+  return chunks;
+}
+
+function findSegments(lines: string[], language: CodeLanguage): Segment[] {
+  const starts: Array<{ line: number; symbol: string; symbolKind?: string }> = [];
+
+  lines.forEach((line, idx) => {
+    for (const pattern of DECLARATIONS[language]) {
+      const match = line.match(pattern.regex);
+      if (match) {
+        starts.push({
+          line: attachLeadingLines(lines, idx, LEADING_LINE[language]),
+          symbol: match[pattern.nameGroup] || 'default',
+          symbolKind: pattern.kindGroup ? match[pattern.kindGroup].replace('*', '') : pattern.kind,
+        });
+        break;
+      }
+    }
+  });
+
+  const segments: Segment[] = [];
+
+  // Imports and other module-level code before the first declaration
+  const firstStart = starts.length > 0 ? starts[0].line : lines.length;
+  if (firstStart > 0) {
+    segments.push({ start: 0, end: firstStart - 1 });
+  }
+
+  starts.forEach((start, idx) => {
+    const end = idx + 1 < starts.length ? starts[idx + 1].line - 1 : lines.length - 1;
+    segments.push({ start: start.line, end, symbol: start.symbol, symbolKind: start.symbolKind });
+  });
+
+  return segments
+    .map(segment => trimBlankLines(lines, segment))
+    .filter((segment): segment is Segment => segment !== null);
+}
+
+/**
+ * Move a declaration's start up over the comments and decorators directly above it
+ */
+function attachLeadingLines(lines: string[], declarationLine: number, leading: RegExp): number {
+  let start = declarationLine;
+  while (start > 0 && leading.test(lines[start - 1]) && lines[start - 1].trim().length > 0) {
+    start--;
+  }
+  return start;
+}
+
+function trimBlankLines(lines: string[], segment: Segment): Segment | null {
+  let { start, end } = segment;
+  while (start <= end && lines[start].trim() === '') start++;
+  while (end >= start && lines[end].trim() === '') end--;
+  return start <= end ? { ...segment, start, end } : null;
+}
+
+function splitOversized(lines: string[], segment: Segment, chunkSize: number, model?: string): Segment[] {
+  const text = lines.slice(segment.start, segment.end + 1).join('\n');
+  if (tokenCount(text, model) <= chunkSize) {
+    return [segment];
+  }
+
+  const parts: Segment[] = [];
+  let partStart = segment.start;
+  let partTokens = 0;
+
+  for (let i = segment.start; i <= segment.end; i++) {
+    const lineTokens = tokenCount(lines[i], model) + 1;
+    if (partTokens + lineTokens > chunkSize && i > partStart) {
+      parts.push({ ...segment, start: partStart, end: i - 1 });
+      partStart = i;
+      partTokens = 0;
+    }
+    partTokens += lineTokens;
+  }
+  parts.push({ ...segment, start: partStart, end: segment.end });
+
+  return parts
+    .map(part => trimBlankLines(lines, part))
+    .filter((part): part is Segment => part !== null);
+}
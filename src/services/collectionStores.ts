@@ -0,0 +1,94 @@
+/**
+ * Per-Collection Stores
+ *
+ * Opens the vector store, keyword index, source registry and memory metadata
+ * store of a collection. The default collection uses the shared singletons;
+ * the others get their own instances under the collection's directory,
+ * cached for the life of the process.
+ */
+
+import { existsSync, mkdirSync, rmSync } from 'fs';
+import { join } from 'path';
+import type { RAGConfig } from '../types/index.js';
+import { createVectorStore, type VectorStore } from '../adapters/vector/index.js';
+import { LexicalIndex, getLexicalIndex } from './lexicalIndex.js';
+import { SourceRegistry, getSourceRegistry } from './sourceRegistry.js';
+import { MemoryMetadataStore, getMemoryMetadataStore } from './memoryMetadataStore.js';
+import { DEFAULT_COLLECTION, getCollectionDir } from './collections.js';
+
+export interface CollectionStores {
+  collection: string;
+  vectorStore: VectorStore;
+  lexicalIndex: LexicalIndex;
+  sourceRegistry: SourceRegistry;
+  metadataStore: MemoryMetadataStore;
+}
+
+const opened = new Map<string, CollectionStores>();
+
+export function getCollectionStores(config: RAGConfig, collection: string = DEFAULT_COLLECTION): CollectionStores {
+  const cached = opened.get(collection);
+  if (cached) return cached;
+
+  let stores: CollectionStores;
+  if (collection === DEFAULT_COLLECTION) {
+    stores = {
+      collection,
+      vectorStore: createVectorStore(config.vectorStore, config),
+      lexicalIndex: getLexicalIndex(),
+      sourceRegistry: getSourceRegistry(),
+      metadataStore: getMemoryMetadataStore(),
+    };
+  } else {
+    const dir = getCollectionDir(collection);
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true });
+    }
+    stores = {
+      collection,
+      vectorStore: createVectorStore(config.vectorStore, config, collection),
+      lexicalIndex: new LexicalIndex(join(dir, 'lexical-index.db')),
+      sourceRegistry: new SourceRegistry(join(dir, 'sources.db')),
+      metadataStore: new MemoryMetadataStore(join(dir, 'memory.db')),
+    };
+  }
+
+  opened.set(collection, stores);
+  return stores;
+}
+
+/**
+ * Close the databases of non-default collections opened by this process
+ */
+export function closeCollectionStores(): void {
+  for (const [collection, stores] of opened) {
+    if (collection !== DEFAULT_COLLECTION) {
+      stores.lexicalIndex.close();
+      stores.sourceRegistry.close();
+      stores.metadataStore.close();
+    }
+  }
+  opened.clear();
+}
+
+/**
+ * Remove every chunk of a collection from its vector store and delete its
+ * local databases
+ */
+export async function deleteCollectionData(config: RAGConfig, collection: string): Promise<void> {
+  if (collection === DEFAULT_COLLECTION) {
+    throw new Error('The default collection cannot be deleted');
+  }
+
+  const stores = getCollectionStores(config, collection);
+  if (!stores.vectorStore.clear) {
+    throw new Error(`The ${config.vectorStore} vector store cannot clear a collection`);
+  }
+  await stores.vectorStore.clear();
+
+  stores.lexicalIndex.close();
+  stores.sourceRegistry.close();
+  stores.metadataStore.close();
+  opened.delete(collection);
+  rmSync(getCollectionDir(collection), { recursive: true, force: true });
+}
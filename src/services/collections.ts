@@ -0,0 +1,195 @@
+/**
+ * Named Collections
+ *
+ * A collection is a separate knowledge base with its own vector store
+ * collection, keyword index, source registry and memory metadata, so
+ * unrelated projects never mix results. The "default" collection always
+ * exists and keeps the original storage locations; the others keep their
+ * local data under ~/.cursor-rag/collections/<name>.
+ */
+
+import { homedir } from 'os';
+import { isAbsolute, join, resolve, sep } from 'path';
+import type { CollectionConfig, RAGConfig } from '../types/index.js';
+import { CONFIG_DIR } from './config.js';
+
+export const DEFAULT_COLLECTION = 'default';
+
+/** Short enough for every store's index and collection name limits */
+const COLLECTION_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]{0,31}$/;
+
+export class CollectionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CollectionError';
+  }
+}
+
+export interface CollectionInfo {
+  name: string;
+  description?: string;
+  paths: string[];
+  createdAt?: string;
+  /** Used when no collection is named and no workspace path matches */
+  isDefault: boolean;
+}
+
+/**
+ * @throws CollectionError unless the name is lowercase letters, digits, - and _
+ */
+export function validateCollectionName(name: string): string {
+  if (!COLLECTION_NAME_PATTERN.test(name)) {
+    throw new CollectionError(
+      `Invalid collection name "${name}"; use up to 32 lowercase letters, digits, - and _, starting with a letter or digit`
+    );
+  }
+  return name;
+}
+
+/**
+ * Directory for a collection's local databases and files
+ */
+export function getCollectionDir(collection: string = DEFAULT_COLLECTION): string {
+  return collection === DEFAULT_COLLECTION ? CONFIG_DIR : join(CONFIG_DIR, 'collections', collection);
+}
+
+/**
+ * Store-side name for a collection: the base name for the default
+ * collection, otherwise the base name with the collection appended
+ */
+export function scopedName(base: string, collection: string = DEFAULT_COLLECTION, separator = '-'): string {
+  return collection === DEFAULT_COLLECTION ? base : `${base}${separator}${collection}`;
+}
+
+export function listCollections(config: RAGConfig): CollectionInfo[] {
+  const defaultName = config.defaultCollection ?? DEFAULT_COLLECTION;
+  const configured = Object.entries(config.collections ?? {})
+    .filter(([name]) => name !== DEFAULT_COLLECTION)
+    .sort(([a], [b]) => a.localeCompare(b));
+
+  return [
+    { name: DEFAULT_COLLECTION, paths: [], isDefault: defaultName === DEFAULT_COLLECTION },
+    ...configured.map(([name, collection]) => ({
+      name,
+      description: collection.description,
+      paths: collection.paths ?? [],
+      createdAt: collection.createdAt,
+      isDefault: defaultName === name,
+    })),
+  ];
+}
+
+export function collectionExists(config: RAGConfig, name: string): boolean {
+  return name === DEFAULT_COLLECTION || !!config.collections?.[name];
+}
+
+/**
+ * Pick the collection for a request: the one named, else the one whose
+ * paths contain the workspace (longest match), else the configured default
+ *
+ * @throws CollectionError if a named collection does not exist
+ */
+export function resolveCollection(config: RAGConfig, requested?: string | null, workspacePath?: string | null): string {
+  if (requested) {
+    if (!collectionExists(config, requested)) {
+      throw new CollectionError(
+        `Unknown collection "${requested}". Known collections: ${listCollections(config).map(c => c.name).join(', ')}. ` +
+        `Create it with "cursor-rag collections create ${requested}".`
+      );
+    }
+    return requested;
+  }
+
+  if (workspacePath) {
+    const match = findCollectionForPath(config, workspacePath);
+    if (match) return match;
+  }
+
+  const fallback = config.defaultCollection ?? DEFAULT_COLLECTION;
+  return collectionExists(config, fallback) ? fallback : DEFAULT_COLLECTION;
+}
+
+/**
+ * Collection whose configured paths contain `path`, preferring the deepest path
+ */
+export function findCollectionForPath(config: RAGConfig, path: string): string | null {
+  const target = normalizePath(path);
+  let best: { name: string; length: number } | null = null;
+
+  for (const [name, collection] of Object.entries(config.collections ?? {})) {
+    for (const configured of collection.paths ?? []) {
+      const root = normalizePath(configured);
+      const contains = target === root || target.startsWith(root.endsWith(sep) ? root : root + sep);
+      if (contains && (!best || root.length > best.length)) {
+        best = { name, length: root.length };
+      }
+    }
+  }
+  return best?.name ?? null;
+}
+
+/**
+ * Workspace the MCP server was started for
+ *
+ * `cursor-rag setup` registers the server with `CURSOR_RAG_WORKSPACE` set to
+ * `${workspaceFolder}`; Cursor's `WORKSPACE_FOLDER_PATHS` and the working
+ * directory are fallbacks.
+ */
+export function getWorkspacePath(env: NodeJS.ProcessEnv = process.env, cwd: string = process.cwd()): string {
+  const explicit = env.CURSOR_RAG_WORKSPACE;
+  // Left uninterpolated when the client doesn't support ${workspaceFolder}
+  if (explicit && !explicit.startsWith('${')) return explicit;
+
+  const folders = env.WORKSPACE_FOLDER_PATHS?.split(',').map(p => p.trim()).filter(Boolean);
+  if (folders?.length) return folders[0];
+
+  return cwd;
+}
+
+/**
+ * Config with a new collection added
+ *
+ * @throws CollectionError for invalid or existing names
+ */
+export function addCollection(
+  config: RAGConfig,
+  name: string,
+  options: { description?: string; paths?: string[] } = {}
+): RAGConfig {
+  validateCollectionName(name);
+  if (collectionExists(config, name)) {
+    throw new CollectionError(`Collection "${name}" already exists`);
+  }
+
+  const collection: CollectionConfig = { createdAt: new Date().toISOString() };
+  if (options.description) collection.description = options.description;
+  if (options.paths?.length) collection.paths = options.paths.map(normalizePath);
+
+  return { ...config, collections: { ...config.collections, [name]: collection } };
+}
+
+/**
+ * Config with a collection removed; the default collection cannot be removed
+ *
+ * @throws CollectionError for the default or unknown collections
+ */
+export function removeCollection(config: RAGConfig, name: string): RAGConfig {
+  if (name === DEFAULT_COLLECTION) {
+    throw new CollectionError('The default collection cannot be deleted');
+  }
+  if (!collectionExists(config, name)) {
+    throw new CollectionError(`Unknown collection "${name}"`);
+  }
+
+  const { [name]: _removed, ...collections } = config.collections ?? {};
+  const updated: RAGConfig = { ...config, collections };
+  if (updated.defaultCollection === name) {
+    delete updated.defaultCollection;
+  }
+  return updated;
+}
+
+function normalizePath(path: string): string {
+  const expanded = path === '~' || path.startsWith('~/') ? join(homedir(), path.slice(1)) : path;
+  return isAbsolute(expanded) ? resolve(expanded) : resolve(process.cwd(), expanded);
+}
@@ -71,7 +71,9 @@ export async function registerWithCursor(): Promise<void> {
     command: 'node',
     args: [serverPath],
     env: {
-      CURSOR_RAG_CONFIG: CONFIG_FILE
+      CURSOR_RAG_CONFIG: CONFIG_FILE,
+      // Lets the server pick the collection configured for the open workspace
+      CURSOR_RAG_WORKSPACE: '${workspaceFolder}'
     }
   };
   
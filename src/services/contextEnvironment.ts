@@ -101,6 +101,34 @@ export class TimeoutError extends Error {
   }
 }
 
+/**
+ * Wait for an operation, rejecting with `TimeoutError` once `timeoutMs` passes
+ *
+ * The operation itself is not cancelled; callers simply stop waiting, so a
+ * slow model cannot hold a loop past its time limit.
+ */
+export async function withTimeout<T>(
+  operation: Promise<T>,
+  timeoutMs: number,
+  message: string = 'Operation timed out'
+): Promise<T> {
+  if (timeoutMs <= 0) {
+    operation.catch(() => {});
+    throw new TimeoutError(message);
+  }
+
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new TimeoutError(message)), timeoutMs);
+  });
+
+  try {
+    return await Promise.race([operation, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
 class CostTracker {
   total = 0;
   private budget: number;
@@ -372,13 +400,13 @@ Sub-calls: ${subCalls}/${this.config.maxSubCalls}
 
     const startTime = Date.now();
 
-    const response = await llm.invoke(
+    const response = await this.withDeadline(llm.invoke(
       `${query}\n\nContext:\n${contextStr}`,
       {
         maxTokens: options?.maxTokens ?? 2000,
         temperature: options?.temperature ?? 0.3,
       }
-    );
+    ));
 
     const cost = this.estimateCost(contextStr.length, response.length);
     this.costTracker.record(cost);
@@ -559,6 +587,16 @@ Sub-calls: ${subCalls}/${this.config.maxSubCalls}
     return [...this.executionLog];
   }
 
+  /**
+   * Record the estimated cost of an LLM call made outside `subQuery`,
+   * such as the controller's own planning calls
+   */
+  recordCost(inputChars: number, outputChars: number): number {
+    const cost = this.estimateCost(inputChars, outputChars);
+    this.costTracker.record(cost);
+    return cost;
+  }
+
   /**
    * Get total cost
    */
@@ -573,6 +611,21 @@ Sub-calls: ${subCalls}/${this.config.maxSubCalls}
     return Date.now() - this.startTime;
   }
 
+  /**
+   * Get the time left before the environment times out, in milliseconds
+   */
+  getRemainingTime(): number {
+    return Math.max(0, this.config.timeoutMs - this.getElapsedTime());
+  }
+
+  /**
+   * Wait for an LLM call made on behalf of this environment, giving up
+   * with `TimeoutError` when the environment's time limit passes
+   */
+  withDeadline<T>(operation: Promise<T>): Promise<T> {
+    return withTimeout(operation, this.getRemainingTime(), 'Environment timeout exceeded');
+  }
+
   /**
    * Get environment statistics
    */
@@ -615,15 +668,19 @@ Sub-calls: ${subCalls}/${this.config.maxSubCalls}
   }
 
   private estimateCost(inputChars: number, outputChars: number): number {
-    // Rough estimate based on typical token ratios
-    // ~4 chars per token, pricing similar to GPT-4o-mini
-    const inputTokens = inputChars / 4;
-    const outputTokens = outputChars / 4;
-    // $0.15 per 1M input tokens, $0.60 per 1M output tokens (GPT-4o-mini pricing)
-    return (inputTokens / 1_000_000) * 0.15 + (outputTokens / 1_000_000) * 0.60;
+    // Rough estimate based on typical token ratios: ~4 chars per token
+    return estimateTokenCost(inputChars / 4, outputChars / 4);
   }
 }
 
+/**
+ * Estimate the cost of an LLM call in USD, priced like GPT-4o-mini
+ */
+export function estimateTokenCost(inputTokens: number, outputTokens: number): number {
+  // $0.15 per 1M input tokens, $0.60 per 1M output tokens (GPT-4o-mini pricing)
+  return (inputTokens / 1_000_000) * 0.15 + (outputTokens / 1_000_000) * 0.60;
+}
+
 let instance: ContextEnvironment | null = null;
 
 export function createContextEnvironment(config?: Partial<EnvironmentConfig>): ContextEnvironment {
@@ -0,0 +1,216 @@
+/**
+ * Five-field cron expressions (minute hour day-of-month month day-of-week)
+ * evaluated in local time.
+ *
+ * Supports `*`, lists (`1,15`), ranges (`1-5`), steps (`0-30/10`, or `/15`
+ * after `*`), month and weekday names (`jan`, `mon-fri`), 7 as Sunday, and the
+ * `@hourly`, `@daily`, `@weekly`, `@monthly` and `@yearly` shorthands. As in
+ * standard cron, a day matches when either day field matches if both are
+ * restricted.
+ */
+
+export class CronError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CronError';
+  }
+}
+
+const ALIASES: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+};
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  /** Names mapped to values starting at `min` */
+  names?: string[];
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: MONTH_NAMES },
+  { name: 'day of week', min: 0, max: 7, names: DAY_NAMES },
+];
+
+/** Searching further than this means the expression never matches (e.g. `0 0 30 2 *`) */
+const MAX_SEARCH_YEARS = 28;
+
+const MINUTE_MS = 60 * 1000;
+
+export class CronExpression {
+  readonly expression: string;
+  private minutes: Set<number>;
+  private hours: Set<number>;
+  private daysOfMonth: Set<number>;
+  private months: Set<number>;
+  private daysOfWeek: Set<number>;
+  private dayOfMonthRestricted: boolean;
+  private dayOfWeekRestricted: boolean;
+
+  constructor(expression: string) {
+    this.expression = expression.trim();
+    const normalized = ALIASES[this.expression.toLowerCase()] ?? this.expression;
+    const fields = normalized.split(/\s+/);
+    if (fields.length !== 5) {
+      throw new CronError(
+        `Invalid cron expression "${expression}": expected 5 fields (minute hour day-of-month month day-of-week)`
+      );
+    }
+
+    const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, i) =>
+      parseField(field, FIELDS[i], expression)
+    );
+    this.minutes = minutes;
+    this.hours = hours;
+    this.daysOfMonth = daysOfMonth;
+    this.months = months;
+    // 7 is Sunday as well
+    this.daysOfWeek = new Set([...daysOfWeek].map(d => d % 7));
+    this.dayOfMonthRestricted = !fields[2].startsWith('*');
+    this.dayOfWeekRestricted = !fields[4].startsWith('*');
+  }
+
+  /**
+   * Whether the expression fires in the minute containing `date`
+   */
+  matches(date: Date): boolean {
+    return this.months.has(date.getMonth() + 1)
+      && this.dayMatches(date)
+      && this.hours.has(date.getHours())
+      && this.minutes.has(date.getMinutes());
+  }
+
+  /**
+   * First time the expression fires strictly after `after`
+   */
+  next(after: Date): Date {
+    let date = new Date(after.getTime());
+    date.setSeconds(0, 0);
+    date = new Date(date.getTime() + MINUTE_MS);
+    const limit = date.getFullYear() + MAX_SEARCH_YEARS;
+
+    while (date.getFullYear() <= limit) {
+      const [year, month, day, hour] = [date.getFullYear(), date.getMonth(), date.getDate(), date.getHours()];
+      if (!this.months.has(month + 1)) {
+        date = new Date(year, month + 1, 1);
+      } else if (!this.dayMatches(date)) {
+        date = new Date(year, month, day + 1);
+      } else if (!this.hours.has(hour)) {
+        date = new Date(year, month, day, hour + 1);
+      } else if (!this.minutes.has(date.getMinutes())) {
+        date = new Date(date.getTime() + MINUTE_MS);
+      } else {
+        return date;
+      }
+    }
+    throw new CronError(`Cron expression "${this.expression}" never fires`);
+  }
+
+  /**
+   * Last time the expression fired strictly before `before`
+   */
+  previous(before: Date): Date {
+    let date = new Date(before.getTime());
+    date.setSeconds(0, 0);
+    if (date.getTime() >= before.getTime()) {
+      date = new Date(date.getTime() - MINUTE_MS);
+    }
+    const limit = date.getFullYear() - MAX_SEARCH_YEARS;
+
+    while (date.getFullYear() >= limit) {
+      const [year, month, day, hour] = [date.getFullYear(), date.getMonth(), date.getDate(), date.getHours()];
+      // Step back to the last minute of the previous month, day or hour
+      if (!this.months.has(month + 1)) {
+        date = new Date(new Date(year, month, 1).getTime() - MINUTE_MS);
+      } else if (!this.dayMatches(date)) {
+        date = new Date(new Date(year, month, day).getTime() - MINUTE_MS);
+      } else if (!this.hours.has(hour)) {
+        date = new Date(new Date(year, month, day, hour).getTime() - MINUTE_MS);
+      } else if (!this.minutes.has(date.getMinutes())) {
+        date = new Date(date.getTime() - MINUTE_MS);
+      } else {
+        return date;
+      }
+    }
+    throw new CronError(`Cron expression "${this.expression}" never fires`);
+  }
+
+  toString(): string {
+    return this.expression;
+  }
+
+  private dayMatches(date: Date): boolean {
+    const dayOfMonth = this.daysOfMonth.has(date.getDate());
+    const dayOfWeek = this.daysOfWeek.has(date.getDay());
+    if (this.dayOfMonthRestricted && this.dayOfWeekRestricted) {
+      return dayOfMonth || dayOfWeek;
+    }
+    return dayOfMonth && dayOfWeek;
+  }
+}
+
+function parseField(field: string, spec: FieldSpec, expression: string): Set<number> {
+  const values = new Set<number>();
+  const invalid = (detail: string) =>
+    new CronError(`Invalid cron expression "${expression}": ${spec.name} field "${field}" ${detail}`);
+
+  for (const part of field.split(',')) {
+    const [range, stepText, extra] = part.split('/');
+    if (extra !== undefined || range === '') {
+      throw invalid('is malformed');
+    }
+
+    let step = 1;
+    if (stepText !== undefined) {
+      step = Number(stepText);
+      if (!/^\d+$/.test(stepText) || step < 1) {
+        throw invalid(`has an invalid step "${stepText}"`);
+      }
+    }
+
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      [start, end] = [spec.min, spec.max];
+    } else {
+      const [from, to, rest] = range.split('-');
+      if (rest !== undefined) {
+        throw invalid('is malformed');
+      }
+      start = parseValue(from, spec, invalid);
+      // "5/15" runs from 5 to the end of the range
+      end = to !== undefined ? parseValue(to, spec, invalid) : stepText !== undefined ? spec.max : start;
+      if (end < start) {
+        throw invalid(`has a backwards range "${range}"`);
+      }
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+function parseValue(text: string, spec: FieldSpec, invalid: (detail: string) => CronError): number {
+  const nameIndex = spec.names?.indexOf(text.toLowerCase()) ?? -1;
+  const value = nameIndex >= 0 ? spec.min + nameIndex : /^\d+$/.test(text) ? Number(text) : NaN;
+  if (Number.isNaN(value) || value < spec.min || value > spec.max) {
+    throw invalid(`has an out-of-range value "${text}" (${spec.min}-${spec.max})`);
+  }
+  return value;
+}
@@ -0,0 +1,300 @@
+/**
+ * Directory Ingestor
+ *
+ * Keeps the knowledge base in sync with a directory tree. Files are selected
+ * with include/exclude globs and `.gitignore` rules, and only files whose
+ * mtime or size changed since the last sync are read. Content-hash checks in
+ * `ingestSourceContent` then skip files that were touched but not edited.
+ * Files that disappear (or stop matching) have their chunks deleted.
+ */
+
+import { existsSync, readdirSync, readFileSync, statSync, watch, type FSWatcher } from 'fs';
+import { extname, join, relative, resolve } from 'path';
+import type { ChunkOptions } from '../types/index.js';
+import { loadDocument } from '../adapters/loaders/index.js';
+import type { SourceRegistry } from './sourceRegistry.js';
+import { GitignoreMatcher, matchesAnyGlob } from './globMatcher.js';
+import { deleteSource, ingestSourceContent, type SourceIngestDeps } from './sourceManager.js';
+
+/** File types ingested when no include globs are given */
+export const DEFAULT_INGEST_EXTENSIONS = [
+  '.txt', '.md', '.json', '.js', '.ts', '.jsx', '.tsx', '.py', '.java', '.cpp', '.c', '.h',
+  '.cs', '.go', '.rs', '.rb', '.php', '.html', '.htm', '.css', '.xml', '.yaml', '.yml',
+  '.pdf', '.docx', '.ipynb', '.csv', '.tsv',
+];
+
+export const DEFAULT_EXCLUDE_PATTERNS = ['**/.git/**', '**/node_modules/**'];
+
+export interface DirectoryIngestOptions {
+  /** Globs relative to the root; defaults to DEFAULT_INGEST_EXTENSIONS */
+  include?: string[];
+  exclude?: string[];
+  /** Honour .gitignore files found in the tree (default: true) */
+  gitignore?: boolean;
+  /** Chunking overrides applied to every file in the tree */
+  chunking?: ChunkOptions;
+  /** Re-read and re-embed every file regardless of mtime and hash */
+  force?: boolean;
+  /** Quiet period after a change event before syncing (watch mode) */
+  debounceMs?: number;
+  /** Full rescan interval in watch mode, as a fallback for missed events */
+  pollIntervalMs?: number;
+}
+
+export interface DirectorySyncResult {
+  scanned: number;
+  added: string[];
+  updated: string[];
+  unchanged: number;
+  removed: string[];
+  chunksCreated: number;
+  chunksRemoved: number;
+  errors: Array<{ path: string; error: string }>;
+}
+
+const DEFAULT_DEBOUNCE_MS = 500;
+const DEFAULT_POLL_INTERVAL_MS = 30000;
+
+export class DirectoryIngestor {
+  private root: string;
+  private label: string;
+  private deps: SourceIngestDeps & { sourceRegistry: SourceRegistry };
+  private options: DirectoryIngestOptions;
+  private exclude: string[];
+  private watcher: FSWatcher | null = null;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private debounceTimer: NodeJS.Timeout | null = null;
+  private syncing: Promise<DirectorySyncResult> | null = null;
+  private resyncRequested = false;
+
+  /**
+   * @param dir Directory to ingest; chunk sources are labelled relative to it as given
+   */
+  constructor(
+    dir: string,
+    deps: SourceIngestDeps & { sourceRegistry: SourceRegistry },
+    options: DirectoryIngestOptions = {}
+  ) {
+    this.root = resolve(dir);
+    this.label = dir;
+    this.deps = deps;
+    this.options = options;
+    this.exclude = [...DEFAULT_EXCLUDE_PATTERNS, ...(options.exclude ?? [])];
+  }
+
+  /**
+   * List the absolute paths of all files that should be ingested
+   */
+  scan(): string[] {
+    const files: string[] = [];
+    this.walk(this.root, new GitignoreMatcher(this.root), files);
+    return files.sort();
+  }
+
+  /**
+   * Ingest new and changed files and remove deleted ones
+   *
+   * Concurrent calls share the sync that is already running.
+   */
+  async sync(): Promise<DirectorySyncResult> {
+    if (this.syncing) {
+      return this.syncing;
+    }
+
+    this.syncing = this.runSync().finally(() => {
+      this.syncing = null;
+    });
+    return this.syncing;
+  }
+
+  /**
+   * Keep syncing on file system events until stop() is called
+   *
+   * Uses a recursive fs.watch where the platform supports it, with a
+   * periodic rescan as a safety net.
+   */
+  watch(
+    onSync: (result: DirectorySyncResult) => void,
+    onError: (error: Error) => void = () => {}
+  ): void {
+    const run = () => {
+      // A poll or debounced event during a sync would share its result; sync again afterwards instead
+      if (this.syncing) {
+        this.resyncRequested = true;
+        return;
+      }
+      this.sync()
+        .then(result => {
+          onSync(result);
+          if (this.resyncRequested) {
+            this.resyncRequested = false;
+            this.schedule(run);
+          }
+        })
+        .catch(onError);
+    };
+
+    try {
+      this.watcher = watch(this.root, { recursive: true }, (_event, filename) => {
+        if (filename && matchesAnyGlob(filename.toString(), this.exclude)) return;
+        if (this.syncing) {
+          this.resyncRequested = true;
+          return;
+        }
+        this.schedule(run);
+      });
+      this.watcher.on('error', error => {
+        onError(error);
+        this.watcher?.close();
+        this.watcher = null;
+      });
+    } catch (error) {
+      // Recursive watching is unavailable here; rely on polling
+      onError(error instanceof Error ? error : new Error(String(error)));
+    }
+
+    this.pollTimer = setInterval(run, this.options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS);
+  }
+
+  stop(): void {
+    this.watcher?.close();
+    this.watcher = null;
+    if (this.pollTimer) clearInterval(this.pollTimer);
+    if (this.debounceTimer) clearTimeout(this.debounceTimer);
+    this.pollTimer = null;
+    this.debounceTimer = null;
+  }
+
+  getRoot(): string {
+    return this.root;
+  }
+
+  private schedule(run: () => void): void {
+    if (this.debounceTimer) clearTimeout(this.debounceTimer);
+    this.debounceTimer = setTimeout(run, this.options.debounceMs ?? DEFAULT_DEBOUNCE_MS);
+  }
+
+  private async runSync(): Promise<DirectorySyncResult> {
+    const registry = this.deps.sourceRegistry;
+    const result: DirectorySyncResult = {
+      scanned: 0,
+      added: [],
+      updated: [],
+      unchanged: 0,
+      removed: [],
+      chunksCreated: 0,
+      chunksRemoved: 0,
+      errors: [],
+    };
+
+    const files = existsSync(this.root) ? this.scan() : [];
+    result.scanned = files.length;
+
+    for (const path of files) {
+      try {
+        const stat = statSync(path);
+        const tracked = registry.getTrackedFile(path);
+        const isKnown = !!tracked && !!registry.getSource(tracked.sourceId);
+
+        if (
+          !this.options.force &&
+          isKnown &&
+          tracked!.mtimeMs === stat.mtimeMs &&
+          tracked!.size === stat.size
+        ) {
+          result.unchanged++;
+          continue;
+        }
+
+        const name = join(this.label, relative(this.root, path));
+        const loaded = await loadDocument({ data: readFileSync(path), path });
+        const ingested = await ingestSourceContent({
+          content: loaded.text,
+          sections: loaded.sections,
+          name,
+          title: name,
+          kind: 'file',
+          uri: path,
+          metadata: { path: name, format: loaded.format },
+          chunking: this.options.chunking,
+          force: this.options.force,
+        }, this.deps);
+
+        const source = registry.getSource(ingested.sourceId);
+        if (source) {
+          registry.upsertTrackedFile({
+            path,
+            root: this.root,
+            sourceId: source.id,
+            mtimeMs: stat.mtimeMs,
+            size: stat.size,
+            contentHash: source.contentHash,
+          });
+        }
+
+        if (ingested.skipped) {
+          result.unchanged++;
+        } else {
+          (isKnown ? result.updated : result.added).push(path);
+          result.chunksCreated += ingested.chunksCreated;
+          result.chunksRemoved += ingested.staleChunksRemoved;
+        }
+      } catch (error) {
+        result.errors.push({ path, error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+
+    const current = new Set(files);
+    for (const tracked of registry.listTrackedFiles(this.root)) {
+      if (current.has(tracked.path)) continue;
+
+      try {
+        const deleted = await deleteSource(tracked.sourceId, this.deps);
+        registry.deleteTrackedFile(tracked.path);
+        result.removed.push(tracked.path);
+        result.chunksRemoved += deleted?.chunksDeleted ?? 0;
+      } catch (error) {
+        result.errors.push({ path: tracked.path, error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+
+    return result;
+  }
+
+  private walk(dir: string, gitignore: GitignoreMatcher, files: string[]): void {
+    if (this.options.gitignore !== false) {
+      gitignore.loadFrom(dir);
+    }
+
+    for (const entry of readdirSync(dir, { withFileTypes: true })) {
+      const path = join(dir, entry.name);
+      const rel = relative(this.root, path);
+
+      if (entry.isDirectory()) {
+        if (matchesAnyGlob(rel, this.exclude) || matchesAnyGlob(`${rel}/`, this.exclude)) continue;
+        if (this.options.gitignore !== false && gitignore.isIgnored(rel, true)) continue;
+        this.walk(path, gitignore, files);
+      } else if (entry.isFile()) {
+        if (matchesAnyGlob(rel, this.exclude)) continue;
+        if (this.options.gitignore !== false && gitignore.isIgnored(rel, false)) continue;
+        if (!this.isIncluded(rel)) continue;
+        files.push(path);
+      }
+    }
+  }
+
+  private isIncluded(rel: string): boolean {
+    if (this.options.include && this.options.include.length > 0) {
+      return matchesAnyGlob(rel, this.options.include);
+    }
+    return DEFAULT_INGEST_EXTENSIONS.includes(extname(rel).toLowerCase());
+  }
+}
+
+export function createDirectoryIngestor(
+  dir: string,
+  deps: SourceIngestDeps & { sourceRegistry: SourceRegistry },
+  options?: DirectoryIngestOptions
+): DirectoryIngestor {
+  return new DirectoryIngestor(dir, deps, options);
+}
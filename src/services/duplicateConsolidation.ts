@@ -0,0 +1,257 @@
+/**
+ * Near-Duplicate Consolidation
+ *
+ * Chat ingestion and memory tools tend to store the same solution several
+ * times in slightly different words. Consolidation clusters the memory chunks
+ * whose vectors are nearly identical, keeps one canonical chunk per cluster
+ * and folds the others into it: their access counts and importance move to
+ * the canonical chunk, a SUPERSEDES edge records the merge, their vectors are
+ * deleted from the vector store and their metadata is archived.
+ */
+
+import type { VectorStore } from '../types/index.js';
+import { ChunkType, RelationshipType, type ChunkMetadata } from '../types/memory.js';
+import type { LexicalIndex } from './lexicalIndex.js';
+import type { MemoryMetadataStore } from './memoryMetadataStore.js';
+import { RelationshipGraph } from './relationshipGraph.js';
+
+export const DEFAULT_DUPLICATE_THRESHOLD = 0.95;
+
+/**
+ * Chunk types written by chat ingestion and the memory tools. Documentation
+ * and code chunks belong to ingested sources, which manage their own chunks.
+ */
+export const DEFAULT_DUPLICATE_CHUNK_TYPES: ChunkType[] = [
+  ChunkType.SOLUTION,
+  ChunkType.PATTERN,
+  ChunkType.DECISION,
+  ChunkType.STANDARD,
+  ChunkType.PREFERENCE,
+];
+
+/** Chunks read from the vector store per scan request */
+const SCAN_PAGE_SIZE = 256;
+
+const PREVIEW_LENGTH = 80;
+
+export interface DuplicateConsolidationStores {
+  vectorStore: VectorStore;
+  metadataStore: MemoryMetadataStore;
+  lexicalIndex?: LexicalIndex;
+  relationshipGraph?: RelationshipGraph;
+}
+
+export interface DuplicateConsolidationOptions {
+  /** Minimum cosine similarity for two chunks to count as duplicates (default: 0.95) */
+  threshold?: number;
+  /** Chunk types considered; chunks only merge with chunks of the same type */
+  chunkTypes?: ChunkType[];
+  /** Report the clusters without changing anything */
+  dryRun?: boolean;
+}
+
+export interface DuplicateCluster {
+  canonical: { chunkId: string; chunkType: ChunkType; preview: string };
+  duplicates: Array<{ chunkId: string; similarity: number; preview: string }>;
+}
+
+export interface ConsolidationReport {
+  dryRun: boolean;
+  threshold: number;
+  chunksCompared: number;
+  clusters: DuplicateCluster[];
+  /** Duplicates folded into a canonical chunk (0 on a dry run) */
+  duplicatesMerged: number;
+  vectorsDeleted: number;
+}
+
+interface Candidate {
+  metadata: ChunkMetadata;
+  content: string;
+  /** Unit-length copy of the chunk's vector */
+  vector: Float32Array;
+}
+
+/**
+ * Find clusters of near-duplicate memory chunks and, unless `dryRun` is set,
+ * merge each into its canonical chunk
+ */
+export async function consolidateDuplicates(
+  stores: DuplicateConsolidationStores,
+  options: DuplicateConsolidationOptions = {}
+): Promise<ConsolidationReport> {
+  const threshold = options.threshold ?? DEFAULT_DUPLICATE_THRESHOLD;
+  const dryRun = options.dryRun ?? false;
+  if (!(threshold > 0 && threshold <= 1)) {
+    throw new Error(`Duplicate threshold must be between 0 and 1, got ${threshold}`);
+  }
+
+  const candidates = await loadCandidates(stores, options.chunkTypes ?? DEFAULT_DUPLICATE_CHUNK_TYPES);
+  const clusters = clusterCandidates(candidates, threshold);
+
+  const report: ConsolidationReport = {
+    dryRun,
+    threshold,
+    chunksCompared: candidates.length,
+    clusters: clusters.map(cluster => ({
+      canonical: {
+        chunkId: cluster.canonical.metadata.chunkId,
+        chunkType: cluster.canonical.metadata.chunkType,
+        preview: preview(cluster.canonical.content),
+      },
+      duplicates: cluster.duplicates.map(d => ({
+        chunkId: d.candidate.metadata.chunkId,
+        similarity: d.similarity,
+        preview: preview(d.candidate.content),
+      })),
+    })),
+    duplicatesMerged: 0,
+    vectorsDeleted: 0,
+  };
+
+  if (dryRun || clusters.length === 0) {
+    return report;
+  }
+
+  const { metadataStore } = stores;
+  const graph = stores.relationshipGraph ?? new RelationshipGraph(metadataStore);
+  const mergedAt = new Date().toISOString();
+
+  for (const { canonical, duplicates } of clusters) {
+    const merged = [canonical.metadata, ...duplicates.map(d => d.candidate.metadata)];
+    const lastAccessed = merged
+      .map(m => m.lastAccessedAt)
+      .filter((t): t is string => !!t)
+      .sort()
+      .pop();
+
+    metadataStore.updateChunkUsage(canonical.metadata.chunkId, {
+      accessCount: merged.reduce((sum, m) => sum + m.accessCount, 0),
+      importance: Math.max(...merged.map(m => m.importance)),
+      lastAccessedAt: lastAccessed ?? null,
+    });
+
+    for (const { candidate, similarity } of duplicates) {
+      graph.addRelationship(canonical.metadata.chunkId, candidate.metadata.chunkId, RelationshipType.SUPERSEDES, {
+        strength: similarity,
+        metadata: { supersededAt: mergedAt, reason: 'near-duplicate', similarity },
+      });
+      metadataStore.archiveChunk(candidate.metadata.chunkId);
+    }
+
+    const redundant = duplicates.map(d => d.candidate.metadata.chunkId);
+    await stores.vectorStore.delete(redundant);
+    stores.lexicalIndex?.delete(redundant);
+    report.duplicatesMerged += redundant.length;
+    report.vectorsDeleted += redundant.length;
+  }
+
+  return report;
+}
+
+/**
+ * Runner for the nightly consolidation, with the options fixed up front
+ */
+export function createDuplicateConsolidationRunner(
+  stores: DuplicateConsolidationStores,
+  options: Omit<DuplicateConsolidationOptions, 'dryRun'> = {}
+): () => Promise<ConsolidationReport> {
+  return () => consolidateDuplicates(stores, options);
+}
+
+/**
+ * Active chunks of the given types together with their vectors. Chunks the
+ * vector store no longer holds are left out.
+ */
+async function loadCandidates(stores: DuplicateConsolidationStores, chunkTypes: ChunkType[]): Promise<Candidate[]> {
+  const { vectorStore, metadataStore } = stores;
+  const metadata = new Map(
+    metadataStore.getAllChunkMetadata({ includeArchived: false, chunkTypes }).map(m => [m.chunkId, m])
+  );
+  if (metadata.size < 2) return [];
+
+  if (!vectorStore.scan) {
+    throw new Error('The vector store cannot list its chunks, so duplicates cannot be found');
+  }
+
+  const candidates: Candidate[] = [];
+  let cursor: string | null = null;
+  do {
+    const page = await vectorStore.scan(cursor, SCAN_PAGE_SIZE, { includeEmbeddings: true });
+    for (const chunk of page.chunks) {
+      const chunkMetadata = metadata.get(chunk.id);
+      if (chunkMetadata && chunk.embedding) {
+        candidates.push({ metadata: chunkMetadata, content: chunk.content, vector: normalize(chunk.embedding) });
+      }
+    }
+    cursor = page.nextCursor;
+  } while (cursor !== null);
+
+  return candidates;
+}
+
+/**
+ * Greedy leader clustering: the best remaining chunk (most important, then
+ * most accessed, then newest) becomes canonical and takes every remaining
+ * chunk of its type within the threshold. Comparing against the canonical
+ * chunk only keeps chains of slightly different chunks from merging.
+ */
+function clusterCandidates(
+  candidates: Candidate[],
+  threshold: number
+): Array<{ canonical: Candidate; duplicates: Array<{ candidate: Candidate; similarity: number }> }> {
+  const ordered = [...candidates].sort((a, b) =>
+    b.metadata.importance - a.metadata.importance
+    || b.metadata.accessCount - a.metadata.accessCount
+    || b.metadata.createdAt.localeCompare(a.metadata.createdAt)
+  );
+  const assigned = new Set<string>();
+  const clusters: Array<{ canonical: Candidate; duplicates: Array<{ candidate: Candidate; similarity: number }> }> = [];
+
+  for (const canonical of ordered) {
+    if (assigned.has(canonical.metadata.chunkId)) continue;
+    assigned.add(canonical.metadata.chunkId);
+
+    const duplicates: Array<{ candidate: Candidate; similarity: number }> = [];
+    for (const other of ordered) {
+      if (assigned.has(other.metadata.chunkId) || other.metadata.chunkType !== canonical.metadata.chunkType) continue;
+      if (other.vector.length !== canonical.vector.length) continue;
+
+      const similarity = dot(canonical.vector, other.vector);
+      if (similarity >= threshold) {
+        duplicates.push({ candidate: other, similarity: Math.round(similarity * 1000) / 1000 });
+        assigned.add(other.metadata.chunkId);
+      }
+    }
+
+    if (duplicates.length > 0) {
+      clusters.push({ canonical, duplicates });
+    }
+  }
+
+  return clusters;
+}
+
+function normalize(vector: number[]): Float32Array {
+  const result = Float32Array.from(vector);
+  const norm = Math.sqrt(result.reduce((sum, v) => sum + v * v, 0));
+  if (norm > 0) {
+    for (let i = 0; i < result.length; i++) {
+      result[i] /= norm;
+    }
+  }
+  return result;
+}
+
+function dot(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+}
+
+function preview(content: string): string {
+  const text = content.replace(/\s+/g, ' ').trim();
+  return text.length > PREVIEW_LENGTH ? `${text.slice(0, PREVIEW_LENGTH - 1)}…` : text;
+}
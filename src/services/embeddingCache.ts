@@ -0,0 +1,269 @@
+import Database from 'better-sqlite3';
+import { createHash } from 'crypto';
+import { join } from 'path';
+import { homedir } from 'os';
+import { existsSync, mkdirSync } from 'fs';
+
+const DEFAULT_DB_PATH = join(homedir(), '.cursor-rag', 'embedding-cache.db');
+
+/** Default cap on cached vectors (roughly 150 MB at 384 dimensions) */
+export const DEFAULT_MAX_ENTRIES = 100_000;
+
+export interface EmbeddingCacheOptions {
+  /** Entries kept before the least recently used are evicted */
+  maxEntries?: number;
+}
+
+export interface EmbeddingCacheModelStats {
+  model: string;
+  dimensions: number;
+  entries: number;
+}
+
+export interface EmbeddingCacheStats {
+  path: string;
+  entries: number;
+  maxEntries: number;
+  sizeBytes: number;
+  hits: number;
+  misses: number;
+  /** Hits over lookups, 0 before the first lookup */
+  hitRate: number;
+  evictions: number;
+  models: EmbeddingCacheModelStats[];
+}
+
+/**
+ * SQLite cache of embedding vectors
+ *
+ * Entries are keyed by model, dimensions and a hash of the normalized text,
+ * so switching models never returns stale vectors. Hit/miss counters are
+ * stored with the entries, which lets the dashboard report on lookups made
+ * by the MCP server and CLI.
+ */
+export class EmbeddingCache {
+  private db: Database.Database;
+  private dbPath: string;
+  private maxEntries: number;
+  private lastStamp = 0;
+
+  constructor(dbPath: string = DEFAULT_DB_PATH, options: EmbeddingCacheOptions = {}) {
+    this.dbPath = dbPath;
+    this.maxEntries = Math.max(1, options.maxEntries ?? DEFAULT_MAX_ENTRIES);
+
+    const dir = join(dbPath, '..');
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true });
+    }
+
+    this.db = new Database(dbPath);
+    this.db.pragma('journal_mode = WAL');
+    this.initialize();
+  }
+
+  private initialize(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS embeddings (
+        model TEXT NOT NULL,
+        dimensions INTEGER NOT NULL,
+        text_hash TEXT NOT NULL,
+        vector BLOB NOT NULL,
+        created_at INTEGER NOT NULL,
+        last_used_at INTEGER NOT NULL,
+        PRIMARY KEY (model, dimensions, text_hash)
+      );
+
+      -- Running hit, miss and eviction counts
+      CREATE TABLE IF NOT EXISTS cache_counters (
+        name TEXT PRIMARY KEY,
+        value INTEGER NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_embeddings_last_used ON embeddings(last_used_at);
+    `);
+  }
+
+  /**
+   * Look up cached vectors; missing texts come back as null
+   */
+  getMany(model: string, dimensions: number, texts: string[]): (number[] | null)[] {
+    const select = this.db.prepare(`
+      SELECT vector FROM embeddings WHERE model = ? AND dimensions = ? AND text_hash = ?
+    `);
+    const touch = this.db.prepare(`
+      UPDATE embeddings SET last_used_at = ? WHERE model = ? AND dimensions = ? AND text_hash = ?
+    `);
+
+    const lookup = this.db.transaction(() => {
+      const now = this.stamp();
+      let hits = 0;
+      const vectors = texts.map(text => {
+        const hash = hashEmbeddingText(text);
+        const row = select.get(model, dimensions, hash) as { vector: Buffer } | undefined;
+        if (!row) return null;
+
+        hits++;
+        touch.run(now, model, dimensions, hash);
+        return bufferToVector(row.vector);
+      });
+
+      this.increment('hits', hits);
+      this.increment('misses', texts.length - hits);
+      return vectors;
+    });
+
+    return lookup();
+  }
+
+  get(model: string, dimensions: number, text: string): number[] | null {
+    return this.getMany(model, dimensions, [text])[0];
+  }
+
+  /**
+   * Store vectors, evicting the least recently used entries past the size cap
+   */
+  setMany(model: string, dimensions: number, entries: Array<{ text: string; vector: number[] }>): void {
+    const upsert = this.db.prepare(`
+      INSERT INTO embeddings (model, dimensions, text_hash, vector, created_at, last_used_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+      ON CONFLICT(model, dimensions, text_hash) DO UPDATE SET
+        vector = excluded.vector,
+        last_used_at = excluded.last_used_at
+    `);
+
+    const store = this.db.transaction(() => {
+      const now = this.stamp();
+      for (const { text, vector } of entries) {
+        upsert.run(model, dimensions, hashEmbeddingText(text), vectorToBuffer(vector), now, now);
+      }
+      this.evict();
+    });
+
+    store();
+  }
+
+  set(model: string, dimensions: number, text: string, vector: number[]): void {
+    this.setMany(model, dimensions, [{ text, vector }]);
+  }
+
+  /**
+   * Remove cached vectors, optionally only those of one model
+   *
+   * Returns the number of entries removed. Clearing everything also resets
+   * the counters.
+   */
+  clear(model?: string): number {
+    if (model) {
+      return this.db.prepare('DELETE FROM embeddings WHERE model = ?').run(model).changes;
+    }
+
+    const removed = this.db.prepare('DELETE FROM embeddings').run().changes;
+    this.db.prepare('DELETE FROM cache_counters').run();
+    return removed;
+  }
+
+  getStats(): EmbeddingCacheStats {
+    const totals = this.db.prepare(`
+      SELECT COUNT(*) as entries, COALESCE(SUM(LENGTH(vector)), 0) as size FROM embeddings
+    `).get() as { entries: number; size: number };
+
+    const counters = new Map(
+      (this.db.prepare('SELECT name, value FROM cache_counters').all() as Array<{ name: string; value: number }>)
+        .map(row => [row.name, row.value])
+    );
+    const hits = counters.get('hits') ?? 0;
+    const misses = counters.get('misses') ?? 0;
+
+    const models = (this.db.prepare(`
+      SELECT model, dimensions, COUNT(*) as entries FROM embeddings
+      GROUP BY model, dimensions ORDER BY entries DESC
+    `).all() as EmbeddingCacheModelStats[]);
+
+    return {
+      path: this.dbPath,
+      entries: totals.entries,
+      maxEntries: this.maxEntries,
+      sizeBytes: totals.size,
+      hits,
+      misses,
+      hitRate: hits + misses > 0 ? hits / (hits + misses) : 0,
+      evictions: counters.get('evictions') ?? 0,
+      models,
+    };
+  }
+
+  getPath(): string {
+    return this.dbPath;
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  /**
+   * Millisecond timestamp that never repeats, so entries touched in the
+   * same millisecond still have a least recently used order
+   */
+  private stamp(): number {
+    this.lastStamp = Math.max(Date.now(), this.lastStamp + 1);
+    return this.lastStamp;
+  }
+
+  private evict(): void {
+    const { count } = this.db.prepare('SELECT COUNT(*) as count FROM embeddings').get() as { count: number };
+    const excess = count - this.maxEntries;
+    if (excess <= 0) return;
+
+    const result = this.db.prepare(`
+      DELETE FROM embeddings WHERE rowid IN (
+        SELECT rowid FROM embeddings ORDER BY last_used_at ASC, created_at ASC LIMIT ?
+      )
+    `).run(excess);
+    this.increment('evictions', result.changes);
+  }
+
+  private increment(name: string, by: number): void {
+    if (by <= 0) return;
+    this.db.prepare(`
+      INSERT INTO cache_counters (name, value) VALUES (?, ?)
+      ON CONFLICT(name) DO UPDATE SET value = value + excluded.value
+    `).run(name, by);
+  }
+}
+
+/**
+ * Hash text after normalizing Unicode form, line endings and whitespace runs,
+ * none of which change the embedding meaningfully
+ */
+export function hashEmbeddingText(text: string): string {
+  const normalized = text.normalize('NFC').replace(/\s+/g, ' ').trim();
+  return createHash('sha256').update(normalized).digest('hex');
+}
+
+function vectorToBuffer(vector: number[]): Buffer {
+  const floats = Float32Array.from(vector);
+  return Buffer.from(floats.buffer, floats.byteOffset, floats.byteLength);
+}
+
+function bufferToVector(buffer: Buffer): number[] {
+  // Copy first: SQLite buffers are not guaranteed to be 4-byte aligned
+  const bytes = buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength);
+  return Array.from(new Float32Array(bytes));
+}
+
+// Singleton instance
+let instance: EmbeddingCache | null = null;
+
+export function getEmbeddingCache(dbPath?: string, options?: EmbeddingCacheOptions): EmbeddingCache {
+  if (!instance) {
+    instance = new EmbeddingCache(dbPath, options);
+  }
+  return instance;
+}
+
+export function closeEmbeddingCache(): void {
+  if (instance) {
+    instance.close();
+    instance = null;
+  }
+}
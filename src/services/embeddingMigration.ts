@@ -0,0 +1,458 @@
+import Database from 'better-sqlite3';
+import { join } from 'path';
+import { homedir } from 'os';
+import { existsSync, mkdirSync } from 'fs';
+import type { Embedder } from '../adapters/embeddings/index.js';
+import type { RAGConfig, VectorStore } from '../types/index.js';
+import type { SourceEmbedderInfo } from '../types/sources.js';
+import { getEmbedderInfo, type SourceRegistry } from './sourceRegistry.js';
+import { DEFAULT_COLLECTION } from './collections.js';
+
+const DEFAULT_DB_PATH = join(homedir(), '.cursor-rag', 'reindex.db');
+
+/** Chunks read from the vector store per scan request */
+const SCAN_PAGE_SIZE = 256;
+
+const DEFAULT_BATCH_SIZE = 32;
+
+export interface EmbedderMismatch {
+  store: string;
+  collection: string;
+  /** Embedder the stored vectors were made with */
+  stored: SourceEmbedderInfo;
+  /** Embedder the config selects */
+  current: SourceEmbedderInfo;
+  message: string;
+}
+
+/**
+ * Thrown when new vectors would not match the ones already in the store
+ */
+export class EmbedderMismatchError extends Error {
+  readonly mismatch: EmbedderMismatch;
+
+  constructor(mismatch: EmbedderMismatch) {
+    super(mismatch.message);
+    this.name = 'EmbedderMismatchError';
+    this.mismatch = mismatch;
+  }
+}
+
+export type ReindexJobStatus = 'snapshot' | 'embedding' | 'completed';
+
+export interface ReindexJob {
+  id: number;
+  store: string;
+  collection: string;
+  target: SourceEmbedderInfo;
+  status: ReindexJobStatus;
+  total: number;
+  done: number;
+  /** Last error, kept until the job is resumed successfully */
+  error: string | null;
+  startedAt: Date;
+  updatedAt: Date;
+  completedAt: Date | null;
+}
+
+export interface ReindexProgress {
+  phase: 'snapshot' | 'embedding';
+  /** Chunks read (snapshot) or re-embedded (embedding) so far */
+  done: number;
+  /** Known once the snapshot is complete */
+  total: number | null;
+}
+
+export interface ReindexResult {
+  jobId: number;
+  /** True when an interrupted job was picked up */
+  resumed: boolean;
+  total: number;
+  /** Chunks re-embedded by this run */
+  reembedded: number;
+  embedder: SourceEmbedderInfo;
+  durationMs: number;
+}
+
+export interface EmbeddingReindexDeps {
+  vectorStore: VectorStore;
+  /** Embedder the chunks are moved to */
+  embedder: Embedder;
+  /** Config naming the target embedder provider and the vector store */
+  config: RAGConfig;
+  sourceRegistry: SourceRegistry;
+  /** Collection the stores belong to (default: "default") */
+  collection?: string;
+}
+
+export interface EmbeddingReindexOptions {
+  /** Chunks embedded and written per step (default: 32) */
+  batchSize?: number;
+  onProgress?: (progress: ReindexProgress) => void;
+}
+
+/**
+ * Compare the configured embedder with the one the store's vectors came from
+ *
+ * Returns null when they match or nothing has been stored yet.
+ */
+export function checkEmbedderCompatibility(
+  embedder: Embedder,
+  config: RAGConfig,
+  sourceRegistry: SourceRegistry,
+  collection: string = DEFAULT_COLLECTION
+): EmbedderMismatch | null {
+  const store = config.vectorStore;
+  const stored = sourceRegistry.getStoreEmbedder(store);
+  const current = getEmbedderInfo(embedder, config);
+
+  if (!stored || sameEmbedder(stored, current)) return null;
+
+  const collectionOption = collection === DEFAULT_COLLECTION ? '' : ` --collection ${collection}`;
+  return {
+    store,
+    collection,
+    stored,
+    current,
+    message:
+      `The ${store} vector store of the "${collection}" collection holds ${describeEmbedder(stored)} vectors ` +
+      `but the configured embedder is ${describeEmbedder(current)}. ` +
+      `Run "cursor-rag reindex --embeddings ${current.provider}${collectionOption}" to re-embed ` +
+      `the stored chunks, or switch the embeddings setting back to ${stored.provider}.`,
+  };
+}
+
+export function sameEmbedder(a: SourceEmbedderInfo, b: SourceEmbedderInfo): boolean {
+  return a.provider === b.provider && a.dimensions === b.dimensions && (!a.model || !b.model || a.model === b.model);
+}
+
+export function describeEmbedder(info: SourceEmbedderInfo): string {
+  return info.model
+    ? `${info.provider} (${info.model}, ${info.dimensions}d)`
+    : `${info.provider} (${info.dimensions}d)`;
+}
+
+/**
+ * Re-embeds every chunk in a vector store with a new embedder
+ *
+ * The job first copies chunk text and metadata into its own SQLite database,
+ * then clears the store (so collections with a fixed dimension can be
+ * recreated) and writes the chunks back batch by batch with their original
+ * IDs. Progress is saved after every batch: an interrupted job resumes where
+ * it stopped, and the copy keeps chunks safe while the store is half-filled.
+ */
+export class EmbeddingReindexer {
+  private db: Database.Database;
+  private dbPath: string;
+
+  constructor(dbPath: string = DEFAULT_DB_PATH) {
+    this.dbPath = dbPath;
+
+    const dir = join(dbPath, '..');
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true });
+    }
+
+    this.db = new Database(dbPath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('foreign_keys = ON');
+    this.initialize();
+  }
+
+  private initialize(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS reindex_jobs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        store TEXT NOT NULL,
+        collection TEXT NOT NULL DEFAULT 'default',
+        provider TEXT NOT NULL,
+        model TEXT,
+        dimensions INTEGER NOT NULL,
+        status TEXT NOT NULL,
+        scan_cursor TEXT,
+        cleared INTEGER NOT NULL DEFAULT 0,
+        total INTEGER NOT NULL DEFAULT 0,
+        done INTEGER NOT NULL DEFAULT 0,
+        error TEXT,
+        started_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        completed_at TEXT
+      );
+
+      -- Copy of each chunk, kept until the job completes
+      CREATE TABLE IF NOT EXISTS reindex_chunks (
+        job_id INTEGER NOT NULL REFERENCES reindex_jobs(id) ON DELETE CASCADE,
+        seq INTEGER NOT NULL,
+        chunk_id TEXT NOT NULL,
+        content TEXT NOT NULL,
+        metadata_json TEXT NOT NULL,
+        done INTEGER NOT NULL DEFAULT 0,
+        PRIMARY KEY (job_id, chunk_id)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_reindex_chunks_pending ON reindex_chunks(job_id, done, seq);
+    `);
+
+    // Jobs recorded before collections existed belong to the default collection
+    const columns = (this.db.pragma('table_info(reindex_jobs)') as Array<{ name: string }>).map(c => c.name);
+    if (!columns.includes('collection')) {
+      this.db.exec(`ALTER TABLE reindex_jobs ADD COLUMN collection TEXT NOT NULL DEFAULT '${DEFAULT_COLLECTION}'`);
+    }
+  }
+
+  /**
+   * The unfinished job for a collection in a store, if any
+   */
+  getActiveJob(store: string, collection: string = DEFAULT_COLLECTION): ReindexJob | null {
+    const row = this.db.prepare(`
+      SELECT * FROM reindex_jobs WHERE store = ? AND collection = ? AND status != 'completed'
+      ORDER BY id DESC LIMIT 1
+    `).get(store, collection) as any;
+    return row ? this.rowToJob(row) : null;
+  }
+
+  listJobs(limit = 10): ReindexJob[] {
+    const rows = this.db.prepare('SELECT * FROM reindex_jobs ORDER BY id DESC LIMIT ?').all(limit) as any[];
+    return rows.map(row => this.rowToJob(row));
+  }
+
+  /**
+   * Re-embed all chunks of the store, resuming an unfinished job
+   *
+   * A job left unfinished for a different embedder is retargeted; chunks it
+   * already wrote are embedded again.
+   */
+  async run(deps: EmbeddingReindexDeps, options: EmbeddingReindexOptions = {}): Promise<ReindexResult> {
+    const started = Date.now();
+    const store = deps.config.vectorStore;
+    const collection = deps.collection ?? DEFAULT_COLLECTION;
+    const target = getEmbedderInfo(deps.embedder, deps.config);
+    const batchSize = Math.max(1, options.batchSize ?? DEFAULT_BATCH_SIZE);
+
+    if (!deps.vectorStore.scan) {
+      throw new Error(`The ${store} vector store cannot list its chunks; re-ingest your sources instead`);
+    }
+
+    let job = this.getActiveJob(store, collection);
+    const resumed = job !== null;
+    if (!job) {
+      job = this.createJob(store, collection, target);
+    } else if (!sameEmbedder(job.target, target)) {
+      this.retarget(job.id, target);
+    }
+    const jobId = job.id;
+
+    try {
+      if (job.status === 'snapshot') {
+        await this.snapshot(jobId, deps.vectorStore, options.onProgress);
+      }
+
+      const state = this.db.prepare('SELECT cleared, total FROM reindex_jobs WHERE id = ?').get(jobId) as any;
+      if (!state.cleared) {
+        await this.clearStore(deps.vectorStore, jobId);
+        this.db.prepare('UPDATE reindex_jobs SET cleared = 1, updated_at = ? WHERE id = ?').run(now(), jobId);
+      }
+
+      const reembedded = await this.embedPending(jobId, state.total, deps, batchSize, options.onProgress);
+
+      this.complete(jobId, store, target, deps.sourceRegistry);
+
+      return { jobId, resumed, total: state.total, reembedded, embedder: target, durationMs: Date.now() - started };
+    } catch (error) {
+      this.db.prepare('UPDATE reindex_jobs SET error = ?, updated_at = ? WHERE id = ?')
+        .run(error instanceof Error ? error.message : String(error), now(), jobId);
+      throw error;
+    }
+  }
+
+  getPath(): string {
+    return this.dbPath;
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  private createJob(store: string, collection: string, target: SourceEmbedderInfo): ReindexJob {
+    const timestamp = now();
+    const result = this.db.prepare(`
+      INSERT INTO reindex_jobs (store, collection, provider, model, dimensions, status, started_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, 'snapshot', ?, ?)
+    `).run(store, collection, target.provider, target.model ?? null, target.dimensions, timestamp, timestamp);
+
+    const row = this.db.prepare('SELECT * FROM reindex_jobs WHERE id = ?').get(result.lastInsertRowid) as any;
+    return this.rowToJob(row);
+  }
+
+  private retarget(jobId: number, target: SourceEmbedderInfo): void {
+    const retargetJob = this.db.transaction(() => {
+      this.db.prepare(`
+        UPDATE reindex_jobs SET provider = ?, model = ?, dimensions = ?, done = 0, updated_at = ? WHERE id = ?
+      `).run(target.provider, target.model ?? null, target.dimensions, now(), jobId);
+      this.db.prepare('UPDATE reindex_chunks SET done = 0 WHERE job_id = ?').run(jobId);
+    });
+    retargetJob();
+  }
+
+  /**
+   * Copy chunk text and metadata out of the store, continuing from the
+   * last saved scan cursor
+   */
+  private async snapshot(
+    jobId: number,
+    vectorStore: VectorStore,
+    onProgress?: (progress: ReindexProgress) => void
+  ): Promise<void> {
+    const insert = this.db.prepare(`
+      INSERT OR IGNORE INTO reindex_chunks (job_id, seq, chunk_id, content, metadata_json)
+      VALUES (?, ?, ?, ?, ?)
+    `);
+    const saveCursor = this.db.prepare('UPDATE reindex_jobs SET scan_cursor = ?, total = ?, updated_at = ? WHERE id = ?');
+    const countChunks = this.db.prepare('SELECT COUNT(*) as count FROM reindex_chunks WHERE job_id = ?');
+
+    let cursor = (this.db.prepare('SELECT scan_cursor FROM reindex_jobs WHERE id = ?').get(jobId) as any).scan_cursor;
+    let copied = (countChunks.get(jobId) as any).count as number;
+
+    do {
+      const page = await vectorStore.scan!(cursor, SCAN_PAGE_SIZE);
+
+      const savePage = this.db.transaction(() => {
+        for (const chunk of page.chunks) {
+          insert.run(jobId, copied++, chunk.id, chunk.content, JSON.stringify(chunk.metadata ?? {}));
+        }
+        copied = (countChunks.get(jobId) as any).count;
+        saveCursor.run(page.nextCursor, copied, now(), jobId);
+      });
+      savePage();
+
+      cursor = page.nextCursor;
+      onProgress?.({ phase: 'snapshot', done: copied, total: null });
+    } while (cursor !== null);
+
+    this.db.prepare(`UPDATE reindex_jobs SET status = 'embedding', updated_at = ? WHERE id = ?`).run(now(), jobId);
+  }
+
+  private async clearStore(vectorStore: VectorStore, jobId: number): Promise<void> {
+    if (vectorStore.clear) {
+      await vectorStore.clear();
+      return;
+    }
+
+    // Without clear(), remove the copied chunks so no old vectors remain
+    const ids = (this.db.prepare('SELECT chunk_id FROM reindex_chunks WHERE job_id = ?').all(jobId) as any[])
+      .map(row => row.chunk_id);
+    for (let i = 0; i < ids.length; i += SCAN_PAGE_SIZE) {
+      await vectorStore.delete(ids.slice(i, i + SCAN_PAGE_SIZE));
+    }
+  }
+
+  private async embedPending(
+    jobId: number,
+    total: number,
+    deps: EmbeddingReindexDeps,
+    batchSize: number,
+    onProgress?: (progress: ReindexProgress) => void
+  ): Promise<number> {
+    const nextBatch = this.db.prepare(`
+      SELECT chunk_id, content, metadata_json FROM reindex_chunks
+      WHERE job_id = ? AND done = 0 ORDER BY seq LIMIT ?
+    `);
+    const markDone = this.db.prepare('UPDATE reindex_chunks SET done = 1 WHERE job_id = ? AND chunk_id = ?');
+    const saveProgress = this.db.prepare(`
+      UPDATE reindex_jobs SET done = (SELECT COUNT(*) FROM reindex_chunks WHERE job_id = ? AND done = 1),
+        error = NULL, updated_at = ? WHERE id = ?
+    `);
+
+    let reembedded = 0;
+    for (;;) {
+      const rows = nextBatch.all(jobId, batchSize) as any[];
+      if (rows.length === 0) break;
+
+      const embeddings = await deps.embedder.embedBatch(rows.map(row => row.content));
+      await deps.vectorStore.add(rows.map((row, idx) => ({
+        id: row.chunk_id,
+        embedding: embeddings[idx],
+        content: row.content,
+        metadata: JSON.parse(row.metadata_json),
+      })));
+
+      const saveBatch = this.db.transaction(() => {
+        for (const row of rows) markDone.run(jobId, row.chunk_id);
+        saveProgress.run(jobId, now(), jobId);
+      });
+      saveBatch();
+
+      reembedded += rows.length;
+      const { done } = this.db.prepare('SELECT done FROM reindex_jobs WHERE id = ?').get(jobId) as any;
+      onProgress?.({ phase: 'embedding', done, total });
+    }
+
+    return reembedded;
+  }
+
+  private complete(jobId: number, store: string, target: SourceEmbedderInfo, sourceRegistry: SourceRegistry): void {
+    sourceRegistry.setStoreEmbedder(store, target);
+    sourceRegistry.setSourcesEmbedder(target);
+
+    const finish = this.db.transaction(() => {
+      const timestamp = now();
+      this.db.prepare(`
+        UPDATE reindex_jobs SET status = 'completed', error = NULL, updated_at = ?, completed_at = ? WHERE id = ?
+      `).run(timestamp, timestamp, jobId);
+      this.db.prepare('DELETE FROM reindex_chunks WHERE job_id = ?').run(jobId);
+    });
+    finish();
+  }
+
+  private rowToJob(row: any): ReindexJob {
+    return {
+      id: row.id,
+      store: row.store,
+      collection: row.collection,
+      target: { provider: row.provider, model: row.model ?? undefined, dimensions: row.dimensions },
+      status: row.status as ReindexJobStatus,
+      total: row.total,
+      done: row.done,
+      error: row.error ?? null,
+      startedAt: new Date(row.started_at),
+      updatedAt: new Date(row.updated_at),
+      completedAt: row.completed_at ? new Date(row.completed_at) : null,
+    };
+  }
+}
+
+/**
+ * Runner for the monthly maintenance reindex: resumes an unfinished job, or
+ * starts one when the configured embedder no longer matches the store
+ */
+export function createEmbeddingReindexRunner(
+  deps: EmbeddingReindexDeps,
+  reindexer: EmbeddingReindexer = getEmbeddingReindexer()
+): () => Promise<ReindexResult | null> {
+  return async () => {
+    const pending = reindexer.getActiveJob(deps.config.vectorStore, deps.collection)
+      ?? checkEmbedderCompatibility(deps.embedder, deps.config, deps.sourceRegistry, deps.collection);
+    return pending ? reindexer.run(deps) : null;
+  };
+}
+
+function now(): string {
+  return new Date().toISOString();
+}
+
+// Singleton instance
+let instance: EmbeddingReindexer | null = null;
+
+export function getEmbeddingReindexer(dbPath?: string): EmbeddingReindexer {
+  if (!instance) {
+    instance = new EmbeddingReindexer(dbPath);
+  }
+  return instance;
+}
+
+export function closeEmbeddingReindexer(): void {
+  if (instance) {
+    instance.close();
+    instance = null;
+  }
+}
@@ -8,6 +8,7 @@ import type {
 } from '../types/memory.js';
 import { MemoryMetadataStore, getMemoryMetadataStore } from './memoryMetadataStore.js';
 import { DecayCalculator, getDecayCalculator, type DecayCalculatorConfig } from './decayCalculator.js';
+import type { LexicalIndex } from './lexicalIndex.js';
 
 /**
  * Score weights for hybrid ranking
@@ -32,12 +33,14 @@ export const DEFAULT_SCORE_WEIGHTS: ScoreWeights = {
  * 2. Calculates decay scores for all chunks
  * 3. Re-ranks search results using hybrid scoring (similarity + decay + importance)
  * 4. Records access patterns for future decay calculations
+ * 5. Keeps the keyword index, when given one, in step with the vector store
  */
 export class EnhancedVectorStore implements VectorStore {
   private vectorStore: VectorStore;
   private metadataStore: MemoryMetadataStore;
   private decayCalculator: DecayCalculator;
   private scoreWeights: ScoreWeights;
+  private lexicalIndex: LexicalIndex | null;
 
   constructor(
     vectorStore: VectorStore,
@@ -45,9 +48,11 @@ export class EnhancedVectorStore implements VectorStore {
       metadataStore?: MemoryMetadataStore;
       decayConfig?: Partial<DecayCalculatorConfig>;
       scoreWeights?: Partial<ScoreWeights>;
+      lexicalIndex?: LexicalIndex | null;
     }
   ) {
     this.vectorStore = vectorStore;
+    this.lexicalIndex = options?.lexicalIndex ?? null;
     this.metadataStore = options?.metadataStore || getMemoryMetadataStore();
     this.decayCalculator = options?.decayConfig 
       ? new DecayCalculator(options.decayConfig)
@@ -59,11 +64,12 @@ export class EnhancedVectorStore implements VectorStore {
   }
 
   /**
-   * Add documents to both vector store and metadata store
+   * Add documents to the vector store, keyword index and metadata store
    */
   async add(docs: VectorDocument[]): Promise<void> {
     // Add to vector store
     await this.vectorStore.add(docs);
+    this.lexicalIndex?.add(docs);
     
     // Add metadata for each document
     for (const doc of docs) {
@@ -167,6 +173,7 @@ export class EnhancedVectorStore implements VectorStore {
    */
   async delete(ids: string[]): Promise<void> {
     await this.vectorStore.delete(ids);
+    this.lexicalIndex?.delete(ids);
     
     for (const id of ids) {
       this.metadataStore.deleteChunkMetadata(id);
@@ -303,6 +310,7 @@ export function createEnhancedVectorStore(
     metadataDbPath?: string;
     decayConfig?: Partial<DecayCalculatorConfig>;
     scoreWeights?: Partial<ScoreWeights>;
+    lexicalIndex?: LexicalIndex | null;
   }
 ): EnhancedVectorStore {
   const metadataStore = options?.metadataDbPath 
@@ -313,5 +321,6 @@ export function createEnhancedVectorStore(
     metadataStore,
     decayConfig: options?.decayConfig,
     scoreWeights: options?.scoreWeights,
+    lexicalIndex: options?.lexicalIndex,
   });
 }
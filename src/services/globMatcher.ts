@@ -0,0 +1,150 @@
+import { existsSync, readFileSync } from 'fs';
+import { join, relative, sep } from 'path';
+
+/**
+ * Convert a glob pattern to a regular expression
+ *
+ * Supports `**` (any number of directories), `*` (anything but `/`),
+ * `?` (one character) and `{a,b}` alternation. Paths are matched with
+ * forward slashes.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let regex = '';
+  let braceDepth = 0;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '*') {
+      if (pattern[i + 1] === '*') {
+        // `**/` matches zero or more directories, a bare `**` matches anything
+        if (pattern[i + 2] === '/') {
+          regex += '(?:.*/)?';
+          i += 2;
+        } else {
+          regex += '.*';
+          i += 1;
+        }
+      } else {
+        regex += '[^/]*';
+      }
+    } else if (char === '?') {
+      regex += '[^/]';
+    } else if (char === '{') {
+      braceDepth++;
+      regex += '(?:';
+    } else if (char === '}' && braceDepth > 0) {
+      braceDepth--;
+      regex += ')';
+    } else if (char === ',' && braceDepth > 0) {
+      regex += '|';
+    } else {
+      regex += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${regex}$`);
+}
+
+/**
+ * Test a relative path against a glob
+ *
+ * Patterns without a slash (e.g. `*.md`) match the file name at any depth,
+ * like `.gitignore` rules do.
+ */
+export function matchesGlob(path: string, pattern: string): boolean {
+  const normalized = toPosix(path);
+  const regex = globToRegExp(pattern.replace(/^\.\//, ''));
+
+  if (regex.test(normalized)) return true;
+  if (!pattern.includes('/')) {
+    return regex.test(normalized.split('/').pop() || '');
+  }
+  return false;
+}
+
+export function matchesAnyGlob(path: string, patterns: string[]): boolean {
+  return patterns.some(pattern => matchesGlob(path, pattern));
+}
+
+interface GitignoreRule {
+  regex: RegExp;
+  negated: boolean;
+  dirOnly: boolean;
+  /** Rules without a slash match the basename at any depth below `base` */
+  anchored: boolean;
+  /** Directory (relative to the root, posix) containing the .gitignore */
+  base: string;
+}
+
+/**
+ * Accumulates `.gitignore` rules while walking a directory tree
+ *
+ * Later rules win, `!` re-includes, a trailing `/` restricts a rule to
+ * directories, and rules from nested `.gitignore` files apply below their
+ * own directory.
+ */
+export class GitignoreMatcher {
+  private rules: GitignoreRule[] = [];
+
+  constructor(private root: string) {}
+
+  /**
+   * Load the `.gitignore` in `dir` (absolute) if there is one
+   */
+  loadFrom(dir: string): void {
+    const file = join(dir, '.gitignore');
+    if (!existsSync(file)) return;
+
+    const base = toPosix(relative(this.root, dir));
+    this.addRules(readFileSync(file, 'utf-8'), base);
+  }
+
+  addRules(content: string, base = ''): void {
+    for (const rawLine of content.split(/\r?\n/)) {
+      let line = rawLine.trim();
+      if (!line || line.startsWith('#')) continue;
+
+      const negated = line.startsWith('!');
+      if (negated) line = line.slice(1);
+
+      const dirOnly = line.endsWith('/');
+      if (dirOnly) line = line.slice(0, -1);
+
+      const anchored = line.includes('/');
+      line = line.replace(/^\//, '');
+      if (!line) continue;
+
+      this.rules.push({ regex: globToRegExp(line), negated, dirOnly, anchored, base });
+    }
+  }
+
+  /**
+   * Whether a path relative to the root is ignored
+   */
+  isIgnored(relativePath: string, isDirectory: boolean): boolean {
+    const path = toPosix(relativePath);
+    let ignored = false;
+
+    for (const rule of this.rules) {
+      if (rule.dirOnly && !isDirectory) continue;
+
+      let candidate = path;
+      if (rule.base) {
+        if (!path.startsWith(`${rule.base}/`)) continue;
+        candidate = path.slice(rule.base.length + 1);
+      }
+
+      const target = rule.anchored ? candidate : candidate.split('/').pop() || '';
+      if (rule.regex.test(target)) {
+        ignored = !rule.negated;
+      }
+    }
+
+    return ignored;
+  }
+}
+
+function toPosix(path: string): string {
+  return path.split(sep).join('/');
+}
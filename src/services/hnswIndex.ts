@@ -0,0 +1,643 @@
+/**
+ * HNSW Approximate Nearest Neighbour Index
+ *
+ * Hierarchical navigable small world graph (Malkov & Yashunin, 2016) over
+ * normalized vectors, scored by cosine similarity. Vectors are held in the
+ * encoding the local vector store writes to disk (float32, float16 or int8),
+ * so quantization saves memory as well as disk space. Deleted nodes stay in
+ * the graph as waypoints until `compact()` unlinks them.
+ */
+
+import type { VectorQuantization } from '../types/index.js';
+
+const GRAPH_MAGIC = 'CRHNSW01';
+const GRAPH_HEADER_BYTES = 24;
+
+const DEFAULT_M = 16;
+const DEFAULT_EF_CONSTRUCTION = 100;
+const DEFAULT_EF_SEARCH = 64;
+const MAX_LEVEL = 16;
+
+export interface HnswOptions {
+  dimensions: number;
+  quantization?: VectorQuantization;
+  /** Links per node on upper layers; layer 0 keeps twice as many */
+  m?: number;
+  /** Candidate list size while inserting; higher builds a better graph, slower */
+  efConstruction?: number;
+  /** Candidate list size while searching; higher improves recall, slower */
+  efSearch?: number;
+  /** Seed for level assignment, so builds are reproducible */
+  seed?: number;
+}
+
+export interface HnswMatch {
+  node: number;
+  /** Cosine similarity to the query */
+  score: number;
+}
+
+export interface HnswSearchOptions {
+  ef?: number;
+  /** Only return nodes this accepts; others are still traversed */
+  accept?: (node: number) => boolean;
+}
+
+type VectorData = Float32Array | Uint16Array | Int8Array;
+
+export class HnswIndex {
+  readonly dimensions: number;
+  readonly quantization: VectorQuantization;
+  readonly m: number;
+  readonly efConstruction: number;
+  readonly efSearch: number;
+  /** Size of one encoded vector, as returned by `encode()` */
+  readonly bytesPerVector: number;
+
+  private vectors: VectorData[] = [];
+  private scales: number[] = [];
+  private levels: number[] = [];
+  private links: number[][][] = [];
+  private deleted = new Set<number>();
+  private entryPoint = -1;
+  private maxLevel = -1;
+  private readonly levelMultiplier: number;
+  private readonly random: () => number;
+  private readonly scratch: Float32Array;
+  private readonly candidateScratch: Float32Array;
+
+  constructor(options: HnswOptions) {
+    this.dimensions = options.dimensions;
+    this.quantization = options.quantization ?? 'none';
+    this.m = options.m ?? DEFAULT_M;
+    this.efConstruction = options.efConstruction ?? DEFAULT_EF_CONSTRUCTION;
+    this.efSearch = options.efSearch ?? DEFAULT_EF_SEARCH;
+    this.bytesPerVector = {
+      none: this.dimensions * 4,
+      float16: this.dimensions * 2,
+      int8: 4 + this.dimensions,
+    }[this.quantization];
+    this.levelMultiplier = 1 / Math.log(this.m);
+    this.random = mulberry32(options.seed ?? 42);
+    this.scratch = new Float32Array(this.dimensions);
+    this.candidateScratch = new Float32Array(this.dimensions);
+  }
+
+  /** Nodes in the index, including deleted ones not yet compacted away */
+  get size(): number {
+    return this.vectors.length;
+  }
+
+  get deletedCount(): number {
+    return this.deleted.size;
+  }
+
+  /**
+   * Normalize and encode a vector; int8 vectors start with a float32 scale
+   */
+  encode(vector: ArrayLike<number>): Uint8Array {
+    if (vector.length !== this.dimensions) {
+      throw new Error(`Expected a ${this.dimensions}-dimension vector, got ${vector.length}`);
+    }
+    const normalized = normalize(vector);
+    const bytes = new Uint8Array(this.bytesPerVector);
+
+    switch (this.quantization) {
+      case 'none':
+        new Float32Array(bytes.buffer).set(normalized);
+        break;
+      case 'float16': {
+        const halves = new Uint16Array(bytes.buffer);
+        for (let i = 0; i < normalized.length; i++) halves[i] = toHalf(normalized[i]);
+        break;
+      }
+      case 'int8': {
+        let maxAbs = 0;
+        for (const value of normalized) maxAbs = Math.max(maxAbs, Math.abs(value));
+        const scale = maxAbs / 127 || 1;
+        new DataView(bytes.buffer).setFloat32(0, scale, true);
+        const quantized = new Int8Array(bytes.buffer, 4);
+        for (let i = 0; i < normalized.length; i++) quantized[i] = Math.round(normalized[i] / scale);
+        break;
+      }
+    }
+    return bytes;
+  }
+
+  /**
+   * A stored vector, normalized and after quantization
+   */
+  getVector(node: number): number[] {
+    return Array.from(this.decode(node, new Float32Array(this.dimensions)));
+  }
+
+  /**
+   * Encoded bytes of a stored vector
+   */
+  getEncoded(node: number): Uint8Array {
+    const vector = this.vectors[node];
+    if (this.quantization !== 'int8') {
+      return new Uint8Array(vector.buffer, vector.byteOffset, vector.byteLength).slice();
+    }
+    const bytes = new Uint8Array(this.bytesPerVector);
+    new DataView(bytes.buffer).setFloat32(0, this.scales[node], true);
+    bytes.set(new Uint8Array(vector.buffer, vector.byteOffset, vector.byteLength), 4);
+    return bytes;
+  }
+
+  /**
+   * Store an encoded vector without linking it into the graph
+   *
+   * Call `link()` afterwards, or `restoreGraph()` for nodes a snapshot covers.
+   */
+  appendEncoded(bytes: Uint8Array): number {
+    if (bytes.length !== this.bytesPerVector) {
+      throw new Error(`Expected ${this.bytesPerVector} bytes per encoded vector, got ${bytes.length}`);
+    }
+    // Copy so every vector owns an aligned buffer (Buffer#slice would share memory)
+    const buffer = new Uint8Array(bytes).buffer;
+
+    switch (this.quantization) {
+      case 'none':
+        this.vectors.push(new Float32Array(buffer));
+        this.scales.push(1);
+        break;
+      case 'float16':
+        this.vectors.push(new Uint16Array(buffer));
+        this.scales.push(1);
+        break;
+      case 'int8':
+        this.vectors.push(new Int8Array(buffer, 4));
+        this.scales.push(new DataView(buffer).getFloat32(0, true));
+        break;
+    }
+    this.levels.push(-1);
+    this.links.push([]);
+    return this.vectors.length - 1;
+  }
+
+  /**
+   * Add a vector and link it into the graph
+   */
+  insert(vector: ArrayLike<number>): number {
+    const node = this.appendEncoded(this.encode(vector));
+    this.link(node);
+    return node;
+  }
+
+  /**
+   * Connect a stored node to its nearest neighbours on each of its layers
+   */
+  link(node: number): void {
+    if (this.levels[node] !== -1) return;
+
+    const query = this.decode(node, new Float32Array(this.dimensions));
+    const level = this.randomLevel();
+    this.levels[node] = level;
+    this.links[node] = Array.from({ length: level + 1 }, () => []);
+
+    if (this.entryPoint === -1) {
+      this.entryPoint = node;
+      this.maxLevel = level;
+      return;
+    }
+
+    let current: HnswMatch = { node: this.entryPoint, score: this.similarity(query, this.entryPoint) };
+    for (let layer = this.maxLevel; layer > level; layer--) {
+      current = this.greedy(query, current, layer);
+    }
+
+    for (let layer = Math.min(level, this.maxLevel); layer >= 0; layer--) {
+      const candidates = this.searchLayer(query, current, this.efConstruction, layer);
+      const neighbors = this.selectNeighbors(candidates, this.maxLinks(layer));
+      this.links[node][layer] = neighbors.map(n => n.node);
+      for (const neighbor of neighbors) {
+        this.connect(neighbor.node, node, layer);
+      }
+      current = candidates[0];
+    }
+
+    if (level > this.maxLevel) {
+      this.maxLevel = level;
+      this.entryPoint = node;
+    }
+  }
+
+  markDeleted(node: number): void {
+    this.deleted.add(node);
+  }
+
+  isDeleted(node: number): boolean {
+    return this.deleted.has(node);
+  }
+
+  /**
+   * Approximate k nearest live nodes, best first
+   */
+  search(query: ArrayLike<number>, k: number, options: HnswSearchOptions = {}): HnswMatch[] {
+    if (this.entryPoint === -1 || k <= 0) return [];
+
+    const normalized = normalize(query);
+    const accept = options.accept;
+    let current: HnswMatch = { node: this.entryPoint, score: this.similarity(normalized, this.entryPoint) };
+    for (let layer = this.maxLevel; layer > 0; layer--) {
+      current = this.greedy(normalized, current, layer);
+    }
+
+    const ef = Math.max(options.ef ?? this.efSearch, k);
+    return this.searchLayer(normalized, current, ef, 0, node => !this.deleted.has(node) && (!accept || accept(node)))
+      .slice(0, k);
+  }
+
+  /**
+   * Exact k nearest among the given live nodes, best first
+   */
+  exactSearch(query: ArrayLike<number>, k: number, nodes: Iterable<number>): HnswMatch[] {
+    const normalized = normalize(query);
+    const matches: HnswMatch[] = [];
+    for (const node of nodes) {
+      if (this.deleted.has(node)) continue;
+      matches.push({ node, score: this.similarity(normalized, node) });
+    }
+    return matches.sort((a, b) => b.score - a.score).slice(0, k);
+  }
+
+  /**
+   * Drop deleted nodes, relinking their neighbours, and renumber the rest
+   *
+   * @returns The new number of each old node, or -1 for removed nodes
+   */
+  compact(): number[] {
+    const mapping: number[] = [];
+    let next = 0;
+    for (let node = 0; node < this.size; node++) {
+      mapping.push(this.deleted.has(node) ? -1 : next++);
+    }
+    if (this.deleted.size === 0) return mapping;
+
+    // Replace links to deleted nodes with the deleted nodes' own live neighbours
+    for (let node = 0; node < this.size; node++) {
+      if (this.deleted.has(node)) continue;
+      for (let layer = 0; layer <= this.levels[node]; layer++) {
+        const links = this.links[node][layer];
+        if (!links.some(n => this.deleted.has(n))) continue;
+
+        const candidates = new Set<number>();
+        for (const neighbor of links) {
+          if (!this.deleted.has(neighbor)) {
+            candidates.add(neighbor);
+            continue;
+          }
+          for (const replacement of this.links[neighbor][layer] ?? []) {
+            if (replacement !== node && !this.deleted.has(replacement)) candidates.add(replacement);
+          }
+        }
+        this.links[node][layer] = this.rankAndSelect(node, Array.from(candidates), layer);
+      }
+    }
+
+    const live = (_: unknown, node: number) => mapping[node] !== -1;
+    this.vectors = this.vectors.filter(live);
+    this.scales = this.scales.filter(live);
+    this.levels = this.levels.filter(live);
+    this.links = this.links.filter(live).map(layers => layers.map(links => links.map(n => mapping[n])));
+    this.deleted.clear();
+
+    this.entryPoint = -1;
+    this.maxLevel = -1;
+    this.levels.forEach((level, node) => {
+      if (level > this.maxLevel) {
+        this.maxLevel = level;
+        this.entryPoint = node;
+      }
+    });
+    return mapping;
+  }
+
+  /**
+   * Serialize the graph structure; vectors are persisted separately
+   */
+  serializeGraph(): Buffer {
+    let size = GRAPH_HEADER_BYTES;
+    for (let node = 0; node < this.size; node++) {
+      size += 1;
+      for (const links of this.links[node]) size += 2 + links.length * 4;
+    }
+
+    const buffer = Buffer.alloc(size);
+    buffer.write(GRAPH_MAGIC, 0, 'ascii');
+    buffer.writeUInt32LE(this.size, 8);
+    buffer.writeInt32LE(this.entryPoint, 12);
+    buffer.writeInt32LE(this.maxLevel, 16);
+    buffer.writeUInt32LE(this.m, 20);
+
+    let offset = GRAPH_HEADER_BYTES;
+    for (let node = 0; node < this.size; node++) {
+      buffer.writeInt8(this.levels[node], offset++);
+      for (const links of this.links[node]) {
+        buffer.writeUInt16LE(links.length, offset);
+        offset += 2;
+        for (const neighbor of links) {
+          buffer.writeUInt32LE(neighbor, offset);
+          offset += 4;
+        }
+      }
+    }
+    return buffer;
+  }
+
+  /**
+   * Restore links for the first nodes from `serializeGraph()` output
+   *
+   * @returns Number of nodes restored; link the rest with `link()`
+   * @throws Error if the snapshot does not fit the stored vectors
+   */
+  restoreGraph(buffer: Buffer): number {
+    if (buffer.length < GRAPH_HEADER_BYTES || buffer.toString('ascii', 0, 8) !== GRAPH_MAGIC) {
+      throw new Error('Not an HNSW graph snapshot');
+    }
+    const count = buffer.readUInt32LE(8);
+    if (count > this.size) {
+      throw new Error(`Graph snapshot has ${count} nodes but only ${this.size} vectors are stored`);
+    }
+    if (buffer.readUInt32LE(20) !== this.m) {
+      throw new Error('Graph snapshot was built with a different m');
+    }
+
+    const levels: number[] = [];
+    const links: number[][][] = [];
+    let offset = GRAPH_HEADER_BYTES;
+    for (let node = 0; node < count; node++) {
+      const level = buffer.readInt8(offset++);
+      const layers: number[][] = [];
+      for (let layer = 0; layer <= level; layer++) {
+        const length = buffer.readUInt16LE(offset);
+        offset += 2;
+        const neighbors: number[] = [];
+        for (let i = 0; i < length; i++) {
+          const neighbor = buffer.readUInt32LE(offset);
+          if (neighbor >= count) throw new Error('Graph snapshot links to a node it does not contain');
+          neighbors.push(neighbor);
+          offset += 4;
+        }
+        layers.push(neighbors);
+      }
+      levels.push(level);
+      links.push(layers);
+    }
+
+    for (let node = 0; node < count; node++) {
+      this.levels[node] = levels[node];
+      this.links[node] = links[node];
+    }
+    this.entryPoint = buffer.readInt32LE(12);
+    this.maxLevel = buffer.readInt32LE(16);
+    return count;
+  }
+
+  private greedy(query: Float32Array, start: HnswMatch, layer: number): HnswMatch {
+    let current = start;
+    let improved = true;
+    while (improved) {
+      improved = false;
+      for (const neighbor of this.links[current.node][layer]) {
+        const score = this.similarity(query, neighbor);
+        if (score > current.score) {
+          current = { node: neighbor, score };
+          improved = true;
+        }
+      }
+    }
+    return current;
+  }
+
+  /**
+   * Best-first search of one layer; returns up to `ef` accepted nodes, best first
+   */
+  private searchLayer(
+    query: Float32Array,
+    entry: HnswMatch,
+    ef: number,
+    layer: number,
+    accept?: (node: number) => boolean
+  ): HnswMatch[] {
+    const visited = new Set<number>([entry.node]);
+    const candidates = new MatchHeap((a, b) => a.score > b.score);
+    const results = new MatchHeap((a, b) => a.score < b.score);
+    candidates.push(entry);
+    if (!accept || accept(entry.node)) results.push(entry);
+
+    while (candidates.size > 0) {
+      const current = candidates.pop()!;
+      if (results.size >= ef && current.score < results.peek()!.score) break;
+
+      for (const neighbor of this.links[current.node][layer]) {
+        if (visited.has(neighbor)) continue;
+        visited.add(neighbor);
+
+        const score = this.similarity(query, neighbor);
+        if (results.size < ef || score > results.peek()!.score) {
+          candidates.push({ node: neighbor, score });
+          if (!accept || accept(neighbor)) {
+            results.push({ node: neighbor, score });
+            if (results.size > ef) results.pop();
+          }
+        }
+      }
+    }
+
+    return results.toArray().sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * Neighbour selection heuristic: prefer candidates closer to the base than
+   * to any already selected neighbour, then fill up with the nearest skipped
+   */
+  private selectNeighbors(candidates: HnswMatch[], max: number): HnswMatch[] {
+    const selected: HnswMatch[] = [];
+    const skipped: HnswMatch[] = [];
+
+    for (const candidate of candidates) {
+      if (selected.length >= max) break;
+      const vector = this.decode(candidate.node, this.candidateScratch);
+      if (selected.every(s => this.similarity(vector, s.node) < candidate.score)) {
+        selected.push(candidate);
+      } else {
+        skipped.push(candidate);
+      }
+    }
+    for (const candidate of skipped) {
+      if (selected.length >= max) break;
+      selected.push(candidate);
+    }
+    return selected;
+  }
+
+  private connect(from: number, to: number, layer: number): void {
+    const links = this.links[from][layer];
+    links.push(to);
+    if (links.length > this.maxLinks(layer)) {
+      this.links[from][layer] = this.rankAndSelect(from, links, layer);
+    }
+  }
+
+  private rankAndSelect(base: number, nodes: number[], layer: number): number[] {
+    const vector = this.decode(base, this.scratch);
+    const ranked = nodes
+      .map(node => ({ node, score: this.similarity(vector, node) }))
+      .sort((a, b) => b.score - a.score);
+    return this.selectNeighbors(ranked, this.maxLinks(layer)).map(n => n.node);
+  }
+
+  private maxLinks(layer: number): number {
+    return layer === 0 ? this.m * 2 : this.m;
+  }
+
+  private randomLevel(): number {
+    return Math.min(MAX_LEVEL, Math.floor(-Math.log(1 - this.random()) * this.levelMultiplier));
+  }
+
+  private similarity(query: Float32Array, node: number): number {
+    const vector = this.vectors[node];
+    let dot = 0;
+
+    if (this.quantization === 'float16') {
+      const table = halfTable();
+      for (let i = 0; i < query.length; i++) dot += query[i] * table[vector[i]];
+      return dot;
+    }
+    for (let i = 0; i < query.length; i++) dot += query[i] * vector[i];
+    return dot * this.scales[node];
+  }
+
+  private decode(node: number, out: Float32Array): Float32Array {
+    const vector = this.vectors[node];
+    if (this.quantization === 'float16') {
+      const table = halfTable();
+      for (let i = 0; i < out.length; i++) out[i] = table[vector[i]];
+    } else {
+      const scale = this.scales[node];
+      for (let i = 0; i < out.length; i++) out[i] = vector[i] * scale;
+    }
+    return out;
+  }
+}
+
+/**
+ * Binary heap ordered so that `before(a, b)` puts `a` on top
+ */
+class MatchHeap {
+  private items: HnswMatch[] = [];
+
+  constructor(private before: (a: HnswMatch, b: HnswMatch) => boolean) {}
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  peek(): HnswMatch | undefined {
+    return this.items[0];
+  }
+
+  push(item: HnswMatch): void {
+    const items = this.items;
+    items.push(item);
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (!this.before(items[i], items[parent])) break;
+      [items[i], items[parent]] = [items[parent], items[i]];
+      i = parent;
+    }
+  }
+
+  pop(): HnswMatch | undefined {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop();
+    if (items.length === 0 || !last) return top;
+
+    items[0] = last;
+    let i = 0;
+    for (;;) {
+      const left = i * 2 + 1;
+      const right = left + 1;
+      let first = i;
+      if (left < items.length && this.before(items[left], items[first])) first = left;
+      if (right < items.length && this.before(items[right], items[first])) first = right;
+      if (first === i) break;
+      [items[i], items[first]] = [items[first], items[i]];
+      i = first;
+    }
+    return top;
+  }
+
+  toArray(): HnswMatch[] {
+    return this.items.slice();
+  }
+}
+
+function normalize(vector: ArrayLike<number>): Float32Array {
+  let norm = 0;
+  for (let i = 0; i < vector.length; i++) norm += vector[i] * vector[i];
+  norm = Math.sqrt(norm) || 1;
+
+  const normalized = new Float32Array(vector.length);
+  for (let i = 0; i < vector.length; i++) normalized[i] = vector[i] / norm;
+  return normalized;
+}
+
+const floatView = new Float32Array(1);
+const bitsView = new Uint32Array(floatView.buffer);
+let halfLookup: Float32Array | null = null;
+
+/**
+ * IEEE 754 half-precision bits of a float, rounded to nearest
+ */
+function toHalf(value: number): number {
+  floatView[0] = value;
+  const bits = bitsView[0];
+  const sign = (bits >>> 16) & 0x8000;
+  const exponent = ((bits >>> 23) & 0xff) - 127 + 15;
+  const mantissa = bits & 0x7fffff;
+
+  if (exponent >= 31) return sign | 0x7c00;
+  if (exponent <= 0) {
+    if (exponent < -10) return sign;
+    return sign | ((((mantissa | 0x800000) >> (1 - exponent)) + 0x1000) >> 13);
+  }
+  return sign | ((exponent << 10) + ((mantissa + 0x1000) >> 13));
+}
+
+/**
+ * Float value of every half-precision bit pattern
+ */
+function halfTable(): Float32Array {
+  if (halfLookup) return halfLookup;
+
+  halfLookup = new Float32Array(65536);
+  for (let bits = 0; bits < 65536; bits++) {
+    const sign = bits & 0x8000 ? -1 : 1;
+    const exponent = (bits >> 10) & 0x1f;
+    const fraction = bits & 0x3ff;
+    if (exponent === 0) {
+      halfLookup[bits] = sign * fraction * 2 ** -24;
+    } else if (exponent === 31) {
+      halfLookup[bits] = fraction ? NaN : sign * Infinity;
+    } else {
+      halfLookup[bits] = sign * (1 + fraction / 1024) * 2 ** (exponent - 15);
+    }
+  }
+  return halfLookup;
+}
+
+function mulberry32(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -15,6 +15,8 @@ export interface ScoreWeights {
   recency: number;
   graphBoost: number;
   typeBoost: number;
+  /** Applied only to results scored by a reranker */
+  rerank: number;
 }
 
 export const DEFAULT_SCORE_WEIGHTS: ScoreWeights = {
@@ -24,6 +26,7 @@ export const DEFAULT_SCORE_WEIGHTS: ScoreWeights = {
   recency: 0.10,
   graphBoost: 0.10,
   typeBoost: 0.10,
+  rerank: 0.35,
 };
 
 export interface TypeBoosts {
@@ -71,6 +74,8 @@ export interface ScoreComponents {
   recency: number;
   graphBoost: number;
   typeBoost: number;
+  /** Cross-encoder or LLM relevance from the search's rerank stage, when one ran */
+  rerank?: number;
 }
 
 export interface ScoredResult {
@@ -113,6 +118,7 @@ export interface SearchResultInput {
  * - Recency (recently accessed items)
  * - Graph boost (related to known-relevant items)
  * - Type boost (favor solutions/patterns over raw docs)
+ * - Rerank score (query relevance from a reranker, when the search used one)
  */
 export class HybridScorer {
   private config: ScoringConfig;
@@ -161,12 +167,13 @@ export class HybridScorer {
       const metadata = this.metadataStore.getChunkMetadata(result.id);
       
       const scores: ScoreComponents = {
-        similarity: result.score,
+        similarity: getRetrievalScore(result),
         decay: metadata?.decayScore ?? 1.0,
         importance: metadata?.importance ?? 0.5,
         recency: this.calculateRecencyScore(metadata?.lastAccessedAt),
         graphBoost: graphContext.get(result.id) ?? 0,
         typeBoost: this.getTypeBoost(metadata?.chunkType, context?.preferredTypes),
+        rerank: getRerankScore(result),
       };
 
       const finalScore = this.calculateFinalScore(scores);
@@ -274,12 +281,13 @@ export class HybridScorer {
     const metadata = this.metadataStore.getChunkMetadata(result.id);
     
     const scores: ScoreComponents = {
-      similarity: result.score,
+      similarity: getRetrievalScore(result),
       decay: metadata?.decayScore ?? 1.0,
       importance: metadata?.importance ?? 0.5,
       recency: this.calculateRecencyScore(metadata?.lastAccessedAt),
       graphBoost: 0,
       typeBoost: this.getTypeBoost(metadata?.chunkType, context?.preferredTypes),
+      rerank: getRerankScore(result),
     };
 
     return {
@@ -340,6 +348,9 @@ export class HybridScorer {
       `  Recency: ${scores.recency.toFixed(3)} × ${w.recency} = ${(scores.recency * w.recency).toFixed(3)}`,
       `  Graph Boost: ${scores.graphBoost.toFixed(3)} × ${w.graphBoost} = ${(scores.graphBoost * w.graphBoost).toFixed(3)}`,
       `  Type Boost: ${(scores.typeBoost - 1).toFixed(3)} × ${w.typeBoost} = ${((scores.typeBoost - 1) * w.typeBoost).toFixed(3)}`,
+      scores.rerank === undefined
+        ? `  Rerank: not applied`
+        : `  Rerank: ${scores.rerank.toFixed(3)} × ${w.rerank} = ${(scores.rerank * w.rerank).toFixed(3)}`,
       `  ─────────────────────────`,
       `  Final Score: ${finalScore.toFixed(3)}`,
     ];
@@ -378,7 +389,8 @@ export class HybridScorer {
       scores.importance * w.importance +
       scores.recency * w.recency +
       scores.graphBoost * w.graphBoost +
-      (scores.typeBoost - 1.0) * w.typeBoost
+      (scores.typeBoost - 1.0) * w.typeBoost +
+      (scores.rerank ?? 0) * w.rerank
     );
   }
 
@@ -483,6 +495,23 @@ export class HybridScorer {
   }
 }
 
+/**
+ * Similarity from retrieval; reranked results keep it in `retrievalScore`
+ * because their score is replaced by the rerank score
+ */
+function getRetrievalScore(result: SearchResultInput): number {
+  const score = result.metadata?.retrievalScore;
+  return typeof score === 'number' ? score : result.score;
+}
+
+/**
+ * Rerank score recorded by `hybridSearch` when a reranker ran
+ */
+function getRerankScore(result: SearchResultInput): number | undefined {
+  const score = result.metadata?.rerankScore;
+  return typeof score === 'number' ? score : undefined;
+}
+
 let instance: HybridScorer | null = null;
 
 export function getHybridScorer(
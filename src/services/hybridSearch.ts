@@ -0,0 +1,172 @@
+/**
+ * Hybrid Search
+ *
+ * Combines vector similarity with BM25 keyword search from the
+ * `LexicalIndex` using reciprocal rank fusion (RRF). RRF only looks at
+ * ranks, so the two very different score scales never need calibrating.
+ * An optional reranker then rescores the over-fetched candidates against
+ * the query before the top results are cut.
+ */
+
+import type { VectorStore, SearchResult, SearchMode, MetadataFilter } from '../types/index.js';
+import type { Embedder } from '../adapters/embeddings/index.js';
+import type { Reranker } from '../adapters/rerankers/index.js';
+import type { LexicalIndex } from './lexicalIndex.js';
+
+/** Standard RRF damping constant from Cormack et al. (2009) */
+export const DEFAULT_RRF_K = 60;
+
+/** Candidates handed to a reranker, as a multiple of topK */
+export const DEFAULT_RERANK_OVER_FETCH = 4;
+
+export interface HybridSearchDeps {
+  vectorStore: VectorStore;
+  embedder: Embedder;
+  lexicalIndex?: LexicalIndex | null;
+}
+
+export interface HybridSearchOptions {
+  topK: number;
+  filter?: MetadataFilter;
+  mode?: SearchMode;
+  rrfK?: number;
+  /**
+   * Candidates fetched from each list before fusion and reranking, as a
+   * multiple of topK (default: 2, or 4 with a reranker)
+   */
+  overFetch?: number;
+  /** Rescores candidates against the query; results then carry `rerankScore` and `retrievalScore` */
+  reranker?: Reranker | null;
+}
+
+export interface HybridSearchResponse {
+  results: SearchResult[];
+  /** Mode that actually ran (hybrid/lexical degrade to vector without an index) */
+  mode: SearchMode;
+  /** Name of the reranker that ordered the results */
+  reranker?: string;
+  /** Why reranking was skipped; results keep their retrieval order */
+  rerankError?: string;
+}
+
+/**
+ * Fuse ranked result lists with reciprocal rank fusion
+ *
+ * Each document scores sum(1 / (k + rank)) over the lists it appears in.
+ * Scores are normalized by the best possible score so a document ranked
+ * first in every list gets 1.0.
+ */
+export function reciprocalRankFusion(
+  lists: SearchResult[][],
+  k: number = DEFAULT_RRF_K
+): SearchResult[] {
+  const fused = new Map<string, { result: SearchResult; score: number }>();
+
+  for (const list of lists) {
+    list.forEach((result, idx) => {
+      const contribution = 1 / (k + idx + 1);
+      const existing = fused.get(result.id);
+      if (existing) {
+        existing.score += contribution;
+      } else {
+        fused.set(result.id, { result, score: contribution });
+      }
+    });
+  }
+
+  const maxScore = lists.filter(l => l.length > 0).length / (k + 1);
+
+  return Array.from(fused.values())
+    .sort((a, b) => b.score - a.score)
+    .map(({ result, score }) => ({
+      ...result,
+      score: maxScore > 0 ? score / maxScore : 0,
+    }));
+}
+
+/**
+ * Search the knowledge base in vector, lexical, or hybrid mode
+ */
+export async function hybridSearch(
+  query: string,
+  deps: HybridSearchDeps,
+  options: HybridSearchOptions
+): Promise<HybridSearchResponse> {
+  const { topK, filter, rrfK = DEFAULT_RRF_K, reranker } = options;
+  const overFetch = options.overFetch ?? (reranker ? DEFAULT_RERANK_OVER_FETCH : 2);
+  const lexicalIndex = deps.lexicalIndex ?? null;
+  const mode: SearchMode = lexicalIndex ? options.mode ?? 'hybrid' : 'vector';
+  const candidateK = topK * overFetch;
+
+  if (mode !== 'vector') {
+    // Chunks stored before the keyword index existed
+    await lexicalIndex!.backfill(deps.vectorStore);
+  }
+
+  let candidates: SearchResult[];
+  if (mode === 'lexical') {
+    candidates = lexicalIndex!.search(query, { topK: reranker ? candidateK : topK, filter });
+  } else if (mode === 'vector') {
+    const embedding = await deps.embedder.embed(query);
+    candidates = await deps.vectorStore.search(embedding, { topK: reranker ? candidateK : topK, filter });
+  } else {
+    const embedding = await deps.embedder.embed(query);
+    const vectorResults = await deps.vectorStore.search(embedding, { topK: candidateK, filter });
+    const lexicalResults = lexicalIndex!.search(query, { topK: candidateK, filter });
+
+    const vectorScores = new Map(vectorResults.map(r => [r.id, r.score]));
+    const lexicalScores = new Map(lexicalResults.map(r => [r.id, r.score]));
+
+    candidates = reciprocalRankFusion([vectorResults, lexicalResults], rrfK)
+      .slice(0, reranker ? candidateK : topK)
+      .map(r => ({
+        ...r,
+        metadata: {
+          ...r.metadata,
+          vectorScore: vectorScores.get(r.id),
+          lexicalScore: lexicalScores.get(r.id),
+        },
+      }));
+  }
+
+  if (!reranker || candidates.length === 0) {
+    return { results: candidates.slice(0, topK), mode };
+  }
+
+  try {
+    return { results: (await rerankResults(query, candidates, reranker)).slice(0, topK), mode, reranker: reranker.name };
+  } catch (error) {
+    return {
+      results: candidates.slice(0, topK),
+      mode,
+      rerankError: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * Reorder results by reranker score
+ *
+ * The reranker score becomes the result score; the retrieval score is kept
+ * in `metadata.retrievalScore`. Ties keep their retrieval order.
+ */
+export async function rerankResults(
+  query: string,
+  results: SearchResult[],
+  reranker: Reranker
+): Promise<SearchResult[]> {
+  const scores = await reranker.score(query, results.map(r => r.content));
+
+  return results
+    .map((result, idx) => ({ result, idx, score: scores[idx] ?? 0 }))
+    .sort((a, b) => b.score - a.score || a.idx - b.idx)
+    .map(({ result, score }) => ({
+      ...result,
+      score,
+      metadata: {
+        ...result.metadata,
+        retrievalScore: result.score,
+        rerankScore: score,
+      },
+    }));
+}
@@ -0,0 +1,519 @@
+/**
+ * Knowledge Base Archives
+ *
+ * An archive is a portable, single-file copy of a knowledge base: every
+ * chunk with its vector, the embedder the vectors came from, the memory
+ * metadata tables and the source registry. Archives are SQLite databases,
+ * written and read a page at a time, so large stores never have to fit in
+ * memory. Importing into another vector store migrates between adapters;
+ * importing with re-embedding moves the chunks to the configured embedder.
+ */
+
+import Database from 'better-sqlite3';
+import { existsSync, mkdirSync, readdirSync, renameSync, rmSync, statSync } from 'fs';
+import { join } from 'path';
+import { homedir } from 'os';
+import type { Embedder } from '../adapters/embeddings/index.js';
+import type { RAGConfig, VectorDocument, VectorStore } from '../types/index.js';
+import type { SourceEmbedderInfo } from '../types/sources.js';
+import type { LexicalIndex } from './lexicalIndex.js';
+import type { MemoryMetadataStore } from './memoryMetadataStore.js';
+import { getEmbedderInfo, type SourceRegistry } from './sourceRegistry.js';
+import { EmbedderMismatchError, checkEmbedderCompatibility, describeEmbedder, sameEmbedder } from './embeddingMigration.js';
+import { DEFAULT_COLLECTION } from './collections.js';
+
+export const ARCHIVE_FORMAT = 'cursor-rag-archive';
+export const ARCHIVE_VERSION = 1;
+export const ARCHIVE_EXTENSION = '.crag';
+
+export const DEFAULT_SNAPSHOT_DIR = join(homedir(), '.cursor-rag', 'snapshots');
+const DEFAULT_SNAPSHOT_KEEP = 5;
+
+/** Chunks read from the vector store per scan request */
+const SCAN_PAGE_SIZE = 256;
+
+/** Chunks embedded per call when re-embedding on import */
+const DEFAULT_BATCH_SIZE = 32;
+
+interface ArchiveTable {
+  name: string;
+  /** Columns left out, e.g. autoincrement IDs that differ between machines */
+  skip?: string[];
+}
+
+/** Memory metadata tables; the access log is local analytics and stays behind */
+const MEMORY_TABLES: ArchiveTable[] = [
+  { name: 'chunks_metadata' },
+  { name: 'relationships', skip: ['id'] },
+  { name: 'categories' },
+  { name: 'category_items' },
+  { name: 'processed_conversations' },
+];
+
+/** Source registry tables; tracked files hold mtimes that only mean something on this machine */
+const SOURCE_TABLES: ArchiveTable[] = [
+  { name: 'sources' },
+  { name: 'source_chunks' },
+];
+
+export class ArchiveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ArchiveError';
+  }
+}
+
+export interface ArchiveInfo {
+  format: string;
+  version: number;
+  createdAt: Date;
+  /** Vector store and collection the archive was exported from */
+  vectorStore: string;
+  collection: string;
+  /** Embedder the archived vectors came from; null when the store was empty */
+  embedder: SourceEmbedderInfo | null;
+  /** False when exported without vectors; importing then has to re-embed */
+  includesEmbeddings: boolean;
+  chunks: number;
+  /** Rows per copied metadata and registry table */
+  tables: Record<string, number>;
+}
+
+export interface KnowledgeBaseStores {
+  vectorStore: VectorStore;
+  config: RAGConfig;
+  sourceRegistry: SourceRegistry;
+  metadataStore: MemoryMetadataStore;
+  lexicalIndex?: LexicalIndex | null;
+  collection?: string;
+}
+
+export interface ExportOptions {
+  /** Leave vectors out for a smaller archive that must be re-embedded on import */
+  includeEmbeddings?: boolean;
+  /** Replace an existing file at the path */
+  overwrite?: boolean;
+  onProgress?: (done: number) => void;
+}
+
+export interface ExportResult {
+  path: string;
+  info: ArchiveInfo;
+  bytes: number;
+  durationMs: number;
+}
+
+export interface ImportOptions {
+  /** Embed chunk text with the given embedder instead of using the archived vectors */
+  reembed?: boolean;
+  /** Empty the vector store, keyword index, metadata and registry tables first */
+  replace?: boolean;
+  /** Chunks embedded per call when re-embedding (default: 32) */
+  batchSize?: number;
+  onProgress?: (done: number, total: number) => void;
+}
+
+export interface ImportResult {
+  info: ArchiveInfo;
+  chunks: number;
+  reembedded: boolean;
+  /** Embedder the imported vectors belong to */
+  embedder: SourceEmbedderInfo;
+  tables: Record<string, number>;
+  durationMs: number;
+}
+
+/**
+ * Write the chunks, vectors, memory metadata and source registry of a
+ * knowledge base to an archive
+ *
+ * The archive is written beside the target path and renamed into place
+ * once complete, so an interrupted export never leaves a truncated file.
+ */
+export async function exportKnowledgeBase(
+  stores: KnowledgeBaseStores,
+  path: string,
+  options: ExportOptions = {}
+): Promise<ExportResult> {
+  const started = Date.now();
+  const includeEmbeddings = options.includeEmbeddings ?? true;
+  const { vectorStore, config } = stores;
+
+  if (!vectorStore.scan) {
+    throw new ArchiveError(`The ${config.vectorStore} vector store cannot list its chunks, so it cannot be exported`);
+  }
+  if (existsSync(path) && !options.overwrite) {
+    throw new ArchiveError(`${path} already exists`);
+  }
+
+  const partialPath = `${path}.partial`;
+  rmSync(partialPath, { force: true });
+  const db = new Database(partialPath);
+
+  try {
+    db.exec(`
+      CREATE TABLE archive_info (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL
+      );
+
+      CREATE TABLE chunks (
+        seq INTEGER PRIMARY KEY,
+        chunk_id TEXT UNIQUE NOT NULL,
+        content TEXT NOT NULL,
+        metadata_json TEXT NOT NULL,
+        -- Little-endian float32; NULL when exported without vectors
+        embedding BLOB
+      );
+    `);
+
+    const insert = db.prepare('INSERT OR REPLACE INTO chunks (chunk_id, content, metadata_json, embedding) VALUES (?, ?, ?, ?)');
+    let embedder = stores.sourceRegistry.getStoreEmbedder(config.vectorStore);
+    let cursor: string | null = null;
+    let done = 0;
+
+    do {
+      const page = await vectorStore.scan(cursor, SCAN_PAGE_SIZE, { includeEmbeddings });
+      const savePage = db.transaction(() => {
+        for (const chunk of page.chunks) {
+          const vector = includeEmbeddings && chunk.embedding ? encodeVector(chunk.embedding) : null;
+          insert.run(chunk.id, chunk.content, JSON.stringify(chunk.metadata ?? {}), vector);
+        }
+      });
+      savePage();
+
+      // Stores ingested before embedders were recorded: keep the dimensions at least
+      if (!embedder && page.chunks[0]?.embedding) {
+        embedder = { provider: config.embeddings, dimensions: page.chunks[0].embedding.length };
+      }
+
+      done += page.chunks.length;
+      options.onProgress?.(done);
+      cursor = page.nextCursor;
+    } while (cursor !== null);
+
+    const tables: Record<string, number> = {
+      ...exportTables(db, stores.metadataStore.getPath(), MEMORY_TABLES),
+      ...exportTables(db, stores.sourceRegistry.getPath(), SOURCE_TABLES),
+    };
+
+    const info: ArchiveInfo = {
+      format: ARCHIVE_FORMAT,
+      version: ARCHIVE_VERSION,
+      createdAt: new Date(),
+      vectorStore: config.vectorStore,
+      collection: stores.collection ?? DEFAULT_COLLECTION,
+      embedder: embedder ?? null,
+      includesEmbeddings: includeEmbeddings,
+      chunks: (db.prepare('SELECT COUNT(*) as count FROM chunks').get() as any).count,
+      tables,
+    };
+    writeInfo(db, info);
+    db.close();
+
+    renameSync(partialPath, path);
+    return { path, info, bytes: statSync(path).size, durationMs: Date.now() - started };
+  } catch (error) {
+    if (db.open) db.close();
+    rmSync(partialPath, { force: true });
+    throw error;
+  }
+}
+
+/**
+ * Load an archive into a knowledge base
+ *
+ * Chunks keep their IDs, so importing into a store that already holds them
+ * updates them in place. Without re-embedding, the archived vectors must
+ * come from the embedder the stores are configured with.
+ *
+ * @throws ArchiveError if the file is not an archive or its vectors cannot be used
+ * @throws EmbedderMismatchError if the store holds vectors of another embedder
+ */
+export async function importKnowledgeBase(
+  stores: KnowledgeBaseStores & { embedder: Embedder },
+  path: string,
+  options: ImportOptions = {}
+): Promise<ImportResult> {
+  const started = Date.now();
+  const { vectorStore, config, sourceRegistry, lexicalIndex } = stores;
+  const info = readArchiveInfo(path);
+  const target = getEmbedderInfo(stores.embedder, config);
+  const batchSize = options.reembed ? Math.max(1, options.batchSize ?? DEFAULT_BATCH_SIZE) : SCAN_PAGE_SIZE;
+
+  const db = new Database(path, { readonly: true, fileMustExist: true });
+
+  try {
+    if (!options.reembed && info.chunks > 0) {
+      const missing = (db.prepare('SELECT COUNT(*) as count FROM chunks WHERE embedding IS NULL').get() as any).count;
+      if (missing > 0) {
+        throw new ArchiveError(`${missing} of ${info.chunks} chunks in the archive have no vectors; import it with re-embedding (cursor-rag import --reembed)`);
+      }
+      if (info.embedder && !sameEmbedder(info.embedder, target)) {
+        throw new ArchiveError(
+          `The archive holds ${describeEmbedder(info.embedder)} vectors but the configured embedder is ` +
+          `${describeEmbedder(target)}. Re-embed on import (cursor-rag import --reembed), or switch the embeddings setting to ${info.embedder.provider}.`
+        );
+      }
+    }
+
+    if (options.replace) {
+      if (!vectorStore.clear) {
+        throw new ArchiveError(`The ${config.vectorStore} vector store cannot be cleared before an import`);
+      }
+      await vectorStore.clear();
+      lexicalIndex?.clear();
+    } else {
+      const mismatch = checkEmbedderCompatibility(stores.embedder, config, sourceRegistry, stores.collection);
+      if (mismatch && (await vectorStore.count()) > 0) {
+        throw new EmbedderMismatchError(mismatch);
+      }
+    }
+
+    const nextPage = db.prepare('SELECT seq, chunk_id, content, metadata_json, embedding FROM chunks WHERE seq > ? ORDER BY seq LIMIT ?');
+    let lastSeq = 0;
+    let done = 0;
+
+    for (;;) {
+      const rows = nextPage.all(lastSeq, batchSize) as any[];
+      if (rows.length === 0) break;
+
+      const embeddings = options.reembed
+        ? await stores.embedder.embedBatch(rows.map(row => row.content))
+        : rows.map(row => decodeVector(row.embedding));
+      const docs: VectorDocument[] = rows.map((row, idx) => ({
+        id: row.chunk_id,
+        embedding: embeddings[idx],
+        content: row.content,
+        metadata: JSON.parse(row.metadata_json),
+      }));
+
+      await vectorStore.add(docs);
+      lexicalIndex?.add(docs);
+
+      lastSeq = rows[rows.length - 1].seq;
+      done += rows.length;
+      options.onProgress?.(done, info.chunks);
+    }
+    db.close();
+
+    const tables: Record<string, number> = {
+      ...importTables(path, stores.metadataStore.getPath(), MEMORY_TABLES, options.replace),
+      ...importTables(path, sourceRegistry.getPath(), SOURCE_TABLES, options.replace),
+    };
+
+    if (done > 0) {
+      sourceRegistry.setStoreEmbedder(config.vectorStore, target);
+    }
+    if (options.reembed) {
+      sourceRegistry.setSourcesEmbedder(target);
+    }
+
+    return { info, chunks: done, reembedded: !!options.reembed, embedder: target, tables, durationMs: Date.now() - started };
+  } finally {
+    if (db.open) db.close();
+  }
+}
+
+/**
+ * Describe an archive without importing it
+ *
+ * @throws ArchiveError if the file is missing or not an archive
+ */
+export function readArchiveInfo(path: string): ArchiveInfo {
+  if (!existsSync(path)) {
+    throw new ArchiveError(`Archive not found: ${path}`);
+  }
+
+  let values: Record<string, string>;
+  const db = new Database(path, { readonly: true, fileMustExist: true });
+  try {
+    const rows = db.prepare('SELECT key, value FROM archive_info').all() as Array<{ key: string; value: string }>;
+    values = Object.fromEntries(rows.map(row => [row.key, row.value]));
+  } catch {
+    throw new ArchiveError(`${path} is not a cursor-rag archive`);
+  } finally {
+    db.close();
+  }
+
+  if (values.format !== ARCHIVE_FORMAT) {
+    throw new ArchiveError(`${path} is not a cursor-rag archive`);
+  }
+  const version = Number(values.version);
+  if (version > ARCHIVE_VERSION) {
+    throw new ArchiveError(`${path} was written by a newer version (archive format ${version}); upgrade cursor-rag to import it`);
+  }
+
+  return {
+    format: values.format,
+    version,
+    createdAt: new Date(values.createdAt),
+    vectorStore: values.vectorStore,
+    collection: values.collection,
+    embedder: values.embedder ? JSON.parse(values.embedder) : null,
+    includesEmbeddings: values.includesEmbeddings === 'true',
+    chunks: Number(values.chunks),
+    tables: JSON.parse(values.tables || '{}'),
+  };
+}
+
+export interface SnapshotOptions {
+  /** Directory for snapshot archives (default: ~/.cursor-rag/snapshots) */
+  dir?: string;
+  /** Snapshots kept per collection; older ones are deleted (default: 5) */
+  keep?: number;
+}
+
+/**
+ * Runner for maintenance snapshots: exports the knowledge base to a
+ * timestamped archive and prunes the oldest ones
+ */
+export function createSnapshotRunner(
+  stores: KnowledgeBaseStores,
+  options: SnapshotOptions = {}
+): () => Promise<ExportResult> {
+  const dir = options.dir ?? DEFAULT_SNAPSHOT_DIR;
+  const keep = Math.max(1, options.keep ?? DEFAULT_SNAPSHOT_KEEP);
+  const prefix = `snapshot-${stores.collection ?? DEFAULT_COLLECTION}-`;
+
+  return async () => {
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true });
+    }
+
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const result = await exportKnowledgeBase(stores, join(dir, `${prefix}${timestamp}${ARCHIVE_EXTENSION}`));
+
+    // ISO timestamps sort chronologically
+    const snapshots = readdirSync(dir)
+      .filter(name => name.startsWith(prefix) && name.endsWith(ARCHIVE_EXTENSION))
+      .sort();
+    for (const name of snapshots.slice(0, -keep)) {
+      rmSync(join(dir, name), { force: true });
+    }
+
+    return result;
+  };
+}
+
+/**
+ * Snapshot archives in a directory, newest first
+ */
+export function listSnapshots(dir: string = DEFAULT_SNAPSHOT_DIR): Array<{ path: string; bytes: number; createdAt: Date }> {
+  if (!existsSync(dir)) return [];
+
+  return readdirSync(dir)
+    .filter(name => name.startsWith('snapshot-') && name.endsWith(ARCHIVE_EXTENSION))
+    .map(name => {
+      const stats = statSync(join(dir, name));
+      return { path: join(dir, name), bytes: stats.size, createdAt: stats.mtime };
+    })
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+}
+
+function writeInfo(db: Database.Database, info: ArchiveInfo): void {
+  const insert = db.prepare('INSERT OR REPLACE INTO archive_info (key, value) VALUES (?, ?)');
+  const values: Record<string, string> = {
+    format: info.format,
+    version: String(info.version),
+    createdAt: info.createdAt.toISOString(),
+    vectorStore: info.vectorStore,
+    collection: info.collection,
+    includesEmbeddings: String(info.includesEmbeddings),
+    chunks: String(info.chunks),
+    tables: JSON.stringify(info.tables),
+  };
+  if (info.embedder) values.embedder = JSON.stringify(info.embedder);
+
+  db.transaction(() => {
+    for (const [key, value] of Object.entries(values)) insert.run(key, value);
+  })();
+}
+
+/**
+ * Copy tables from a store database into an archive
+ *
+ * Skipped columns are left out; imports copy by column name, so archives
+ * stay readable as the store schemas gain columns.
+ */
+function exportTables(db: Database.Database, storePath: string, tables: ArchiveTable[]): Record<string, number> {
+  db.prepare('ATTACH DATABASE ? AS store').run(storePath);
+
+  try {
+    const copied: Record<string, number> = {};
+    db.transaction(() => {
+      for (const table of tables) {
+        const storeColumns = columnsOf(db, 'store', table.name).filter(c => !table.skip?.includes(c));
+        if (storeColumns.length === 0) continue;
+
+        const list = storeColumns.map(quote).join(', ');
+        db.exec(`CREATE TABLE main.${quote(table.name)} AS SELECT ${list} FROM store.${quote(table.name)}`);
+        copied[table.name] = (db.prepare(`SELECT COUNT(*) as count FROM main.${quote(table.name)}`).get() as any).count;
+      }
+    })();
+    return copied;
+  } finally {
+    db.exec('DETACH DATABASE store');
+  }
+}
+
+/**
+ * Upsert an archive's tables into a store database by column name
+ *
+ * Only columns present on both sides are copied. The archive is opened
+ * read-only, and a table the archive lacks or shares no columns with is
+ * left alone, even with `replace`.
+ */
+function importTables(
+  archivePath: string,
+  storePath: string,
+  tables: ArchiveTable[],
+  replace = false
+): Record<string, number> {
+  const archive = new Database(archivePath, { readonly: true, fileMustExist: true });
+  const store = new Database(storePath);
+
+  try {
+    const copied: Record<string, number> = {};
+    store.transaction(() => {
+      for (const table of tables) {
+        const archiveColumns = new Set(columnsOf(archive, 'main', table.name));
+        const columns = columnsOf(store, 'main', table.name)
+          .filter(c => !table.skip?.includes(c) && archiveColumns.has(c));
+        if (columns.length === 0) continue;
+
+        const list = columns.map(quote).join(', ');
+        if (replace) store.exec(`DELETE FROM ${quote(table.name)}`);
+        const insert = store.prepare(
+          `INSERT OR REPLACE INTO ${quote(table.name)} (${list}) VALUES (${columns.map(() => '?').join(', ')})`
+        );
+        let count = 0;
+        for (const row of archive.prepare(`SELECT ${list} FROM ${quote(table.name)}`).raw().iterate()) {
+          insert.run(row as unknown[]);
+          count++;
+        }
+        copied[table.name] = count;
+      }
+    })();
+    return copied;
+  } finally {
+    store.close();
+    archive.close();
+  }
+}
+
+function columnsOf(db: Database.Database, schema: string, table: string): string[] {
+  return (db.pragma(`${schema}.table_info(${quote(table)})`) as Array<{ name: string }>).map(column => column.name);
+}
+
+function quote(identifier: string): string {
+  return `"${identifier.replace(/"/g, '""')}"`;
+}
+
+function encodeVector(vector: number[]): Buffer {
+  return Buffer.from(new Float32Array(vector).buffer);
+}
+
+function decodeVector(blob: Buffer): number[] {
+  return Array.from(new Float32Array(new Uint8Array(blob).buffer));
+}
@@ -0,0 +1,322 @@
+import Database from 'better-sqlite3';
+import { join } from 'path';
+import { homedir } from 'os';
+import { existsSync, mkdirSync } from 'fs';
+import type { FilterNode, FilterScalar, MetadataFilter, SearchResult, VectorStore } from '../types/index.js';
+import { parseMetadataFilter } from './metadataFilter.js';
+
+const DEFAULT_DB_PATH = join(homedir(), '.cursor-rag', 'lexical-index.db');
+
+/** Maximum number of distinct terms sent to FTS5 for a single query */
+const MAX_QUERY_TERMS = 32;
+
+/** Chunks read from the vector store per page while backfilling */
+const BACKFILL_PAGE_SIZE = 500;
+
+/** Text values compared as dates by range filters */
+const ISO_DATE_GLOB = '[0-9][0-9][0-9][0-9]-[0-9][0-9]-[0-9][0-9]*';
+
+export interface LexicalDocument {
+  id: string;
+  content: string;
+  metadata: Record<string, any>;
+}
+
+export interface LexicalSearchOptions {
+  topK: number;
+  filter?: MetadataFilter;
+}
+
+/**
+ * SQLite FTS5 keyword index that sits beside any vector store
+ *
+ * Ranks chunks with BM25 so exact identifiers (error codes, function
+ * names, config keys) can be found even when their embeddings are not
+ * close to the query. Underscores are kept inside tokens so that
+ * `ERR_INVALID_ARG` or `max_retries` match as a single term.
+ */
+export class LexicalIndex {
+  private db: Database.Database;
+  private dbPath: string;
+  private backfilling: Promise<number> | null = null;
+
+  constructor(dbPath: string = DEFAULT_DB_PATH) {
+    this.dbPath = dbPath;
+
+    const dir = join(dbPath, '..');
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true });
+    }
+
+    this.db = new Database(dbPath);
+    this.db.pragma('journal_mode = WAL');
+    this.initialize();
+  }
+
+  private initialize(): void {
+    this.db.exec(`
+      -- Chunk text (content table for the FTS index)
+      CREATE TABLE IF NOT EXISTS lexical_documents (
+        rowid INTEGER PRIMARY KEY AUTOINCREMENT,
+        chunk_id TEXT UNIQUE NOT NULL,
+        source TEXT NOT NULL,
+        content TEXT NOT NULL,
+        metadata_json TEXT
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_lexical_documents_source ON lexical_documents(source);
+
+      -- External-content FTS5 index over chunk text
+      CREATE VIRTUAL TABLE IF NOT EXISTS lexical_fts USING fts5(
+        content,
+        content = 'lexical_documents',
+        content_rowid = 'rowid',
+        tokenize = "unicode61 tokenchars '_'"
+      );
+
+      -- Keep the FTS index in sync with the content table
+      CREATE TRIGGER IF NOT EXISTS lexical_documents_ai AFTER INSERT ON lexical_documents BEGIN
+        INSERT INTO lexical_fts(rowid, content) VALUES (new.rowid, new.content);
+      END;
+      CREATE TRIGGER IF NOT EXISTS lexical_documents_ad AFTER DELETE ON lexical_documents BEGIN
+        INSERT INTO lexical_fts(lexical_fts, rowid, content) VALUES ('delete', old.rowid, old.content);
+      END;
+      CREATE TRIGGER IF NOT EXISTS lexical_documents_au AFTER UPDATE ON lexical_documents BEGIN
+        INSERT INTO lexical_fts(lexical_fts, rowid, content) VALUES ('delete', old.rowid, old.content);
+        INSERT INTO lexical_fts(rowid, content) VALUES (new.rowid, new.content);
+      END;
+
+      -- Index bookkeeping, such as when the backfill from the vector store ran
+      CREATE TABLE IF NOT EXISTS lexical_state (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL
+      );
+    `);
+  }
+
+  /**
+   * Add or replace chunks in the index
+   */
+  add(docs: LexicalDocument[]): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO lexical_documents (chunk_id, source, content, metadata_json)
+      VALUES (@chunkId, @source, @content, @metadataJson)
+      ON CONFLICT(chunk_id) DO UPDATE SET
+        source = @source,
+        content = @content,
+        metadata_json = @metadataJson
+    `);
+
+    const transaction = this.db.transaction((items: LexicalDocument[]) => {
+      for (const doc of items) {
+        stmt.run({
+          chunkId: doc.id,
+          source: doc.metadata?.source || 'unknown',
+          content: doc.content,
+          metadataJson: JSON.stringify(doc.metadata ?? {}),
+        });
+      }
+    });
+
+    transaction(docs);
+  }
+
+  /**
+   * Remove chunks from the index
+   */
+  delete(ids: string[]): void {
+    const stmt = this.db.prepare('DELETE FROM lexical_documents WHERE chunk_id = ?');
+    const transaction = this.db.transaction((chunkIds: string[]) => {
+      for (const id of chunkIds) {
+        stmt.run(id);
+      }
+    });
+
+    transaction(ids);
+  }
+
+  /**
+   * BM25 keyword search
+   *
+   * Scores are positive BM25 values (higher is better). Metadata filters
+   * are evaluated on the stored metadata JSON, like the vector adapters.
+   */
+  search(query: string, options: LexicalSearchOptions): SearchResult[] {
+    const filter = parseMetadataFilter(options.filter);
+    const matchExpression = buildMatchExpression(query);
+    if (!matchExpression) return [];
+
+    let sql = `
+      SELECT d.chunk_id, d.content, d.metadata_json, bm25(lexical_fts) AS rank
+      FROM lexical_fts
+      JOIN lexical_documents d ON d.rowid = lexical_fts.rowid
+      WHERE lexical_fts MATCH ?
+    `;
+    const params: any[] = [matchExpression];
+
+    if (filter) {
+      sql += ` AND ${toSqlCondition(filter, params)}`;
+    }
+
+    sql += ' ORDER BY rank LIMIT ?';
+    params.push(options.topK);
+
+    const rows = this.db.prepare(sql).all(...params) as any[];
+
+    return rows.map(row => ({
+      id: row.chunk_id,
+      content: row.content,
+      metadata: row.metadata_json ? JSON.parse(row.metadata_json) : {},
+      score: -row.rank,
+    }));
+  }
+
+  has(chunkId: string): boolean {
+    return !!this.db.prepare('SELECT 1 FROM lexical_documents WHERE chunk_id = ?').get(chunkId);
+  }
+
+  count(): number {
+    return (this.db.prepare('SELECT COUNT(*) as count FROM lexical_documents').get() as any).count;
+  }
+
+  /**
+   * Remove every chunk from the index
+   */
+  clear(): void {
+    this.db.exec('DELETE FROM lexical_documents');
+  }
+
+  /**
+   * Index the vector store's chunks that are missing here, once per index
+   *
+   * Knowledge bases ingested before the keyword index existed hold chunks it
+   * has never seen, which lexical search would miss and hybrid search would
+   * rank by vector similarity alone. The scan runs the first time this is
+   * called (again with `force`); stores without `scan()` are left as they
+   * are. Returns the number of chunks added.
+   */
+  async backfill(vectorStore: VectorStore, options: { force?: boolean } = {}): Promise<number> {
+    if (!vectorStore.scan) return 0;
+    if (!options.force && this.db.prepare(`SELECT 1 FROM lexical_state WHERE key = 'backfilled_at'`).get()) return 0;
+
+    if (!this.backfilling) {
+      this.backfilling = this.scanInto(vectorStore).finally(() => {
+        this.backfilling = null;
+      });
+    }
+    return this.backfilling;
+  }
+
+  private async scanInto(vectorStore: VectorStore): Promise<number> {
+    let added = 0;
+    let cursor: string | null = null;
+    do {
+      const page = await vectorStore.scan!(cursor, BACKFILL_PAGE_SIZE);
+      const missing = page.chunks.filter(chunk => !this.has(chunk.id));
+      if (missing.length > 0) {
+        this.add(missing);
+        added += missing.length;
+      }
+      cursor = page.nextCursor;
+    } while (cursor !== null);
+
+    this.db.prepare(`INSERT OR REPLACE INTO lexical_state (key, value) VALUES ('backfilled_at', ?)`)
+      .run(new Date().toISOString());
+    return added;
+  }
+
+  /**
+   * Rebuild the FTS index from the content table
+   */
+  rebuild(): void {
+    this.db.exec(`INSERT INTO lexical_fts(lexical_fts) VALUES ('rebuild')`);
+  }
+
+  getPath(): string {
+    return this.dbPath;
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
+
+/**
+ * Turn free text into an FTS5 MATCH expression
+ *
+ * Each term is quoted so FTS5 operators and punctuation in the query
+ * cannot break the syntax; terms are OR-ed and left to BM25 to rank.
+ */
+export function buildMatchExpression(query: string): string | null {
+  const terms = query.match(/[\p{L}\p{N}_]+/gu) ?? [];
+  const unique = Array.from(new Set(terms.map(t => t.toLowerCase()))).slice(0, MAX_QUERY_TERMS);
+
+  if (unique.length === 0) return null;
+
+  return unique.map(t => `"${t}"`).join(' OR ');
+}
+
+/**
+ * Translate a parsed filter into SQL over `d.metadata_json`, pushing its
+ * parameters
+ *
+ * `json_each` yields the elements of array fields and the value itself for
+ * scalars, so array fields such as `tags` match when any element matches.
+ * Date strings are compared as epoch milliseconds.
+ */
+export function toSqlCondition(node: FilterNode, params: unknown[]): string {
+  if ('filters' in node) {
+    const joiner = node.op === '$and' ? ' AND ' : ' OR ';
+    return `(${node.filters.map(child => toSqlCondition(child, params)).join(joiner)})`;
+  }
+
+  const path = `$."${node.field}"`;
+  const anyValue = (condition: string) => `EXISTS (SELECT 1 FROM json_each(d.metadata_json, ?) WHERE ${condition})`;
+
+  switch (node.op) {
+    case '$exists':
+      params.push(path);
+      return `COALESCE(json_type(d.metadata_json, ?), 'null') ${node.value ? '!=' : '='} 'null'`;
+    case '$eq':
+    case '$ne':
+      params.push(path, toSqlValue(node.value));
+      return `${node.op === '$ne' ? 'NOT ' : ''}${anyValue('value = ?')}`;
+    case '$in':
+    case '$nin':
+      if (node.values.length === 0) return node.op === '$in' ? '0' : '1';
+      params.push(path, ...node.values.map(toSqlValue));
+      return `${node.op === '$nin' ? 'NOT ' : ''}${anyValue(`value IN (${node.values.map(() => '?').join(',')})`)}`;
+    default: {
+      const operator = { $gt: '>', $gte: '>=', $lt: '<', $lte: '<=' }[node.op];
+      params.push(path, node.value);
+      return anyValue(
+        `(CASE WHEN type IN ('integer', 'real') THEN value ` +
+        `WHEN type = 'text' AND value GLOB '${ISO_DATE_GLOB}' THEN (julianday(value) - 2440587.5) * 86400000.0 END) ${operator} ?`
+      );
+    }
+  }
+}
+
+/**
+ * SQLite stores JSON booleans as 1 and 0
+ */
+function toSqlValue(value: FilterScalar): string | number {
+  return typeof value === 'boolean' ? (value ? 1 : 0) : value;
+}
+
+// Singleton instance
+let instance: LexicalIndex | null = null;
+
+export function getLexicalIndex(dbPath?: string): LexicalIndex {
+  if (!instance) {
+    instance = new LexicalIndex(dbPath);
+  }
+  return instance;
+}
+
+export function closeLexicalIndex(): void {
+  if (instance) {
+    instance.close();
+    instance = null;
+  }
+}
@@ -1,15 +1,20 @@
-import type { ChunkMetadata } from '../types/memory.js';
+import { hostname } from 'os';
+import { randomUUID } from 'crypto';
+import type { ChunkMetadata, MaintenanceLock } from '../types/memory.js';
+import type { MaintenanceConfig } from '../config/memoryConfig.js';
 import { MemoryMetadataStore, getMemoryMetadataStore } from './memoryMetadataStore.js';
 import { DecayCalculator, getDecayCalculator, type UpdateResult } from './decayCalculator.js';
 import { CategoryManager, getCategoryManager } from './categoryManager.js';
 import { RelationshipGraph, getRelationshipGraph } from './relationshipGraph.js';
+import { CronExpression } from './cronSchedule.js';
 
 export type MaintenanceJobType = 
   | 'decay'
   | 'consolidate'
   | 'summarize'
   | 'reindex'
-  | 'cleanup';
+  | 'cleanup'
+  | 'snapshot';
 
 export interface MaintenanceJobResult {
   jobName: MaintenanceJobType | string;
@@ -26,40 +31,102 @@ export interface MaintenanceStats {
   lastConsolidation: Date | null;
   lastSummarization: Date | null;
   lastReindex: Date | null;
+  lastSnapshot: Date | null;
   totalJobsRun: number;
   totalErrors: number;
   jobHistory: MaintenanceJobResult[];
 }
 
 export interface SchedulerConfig {
+  hourlyCron: string;
   nightlyCron: string;
   weeklyCron: string;
   monthlyCron: string;
   enableAutoScheduling: boolean;
+  /** Run a job whose scheduled time passed while the machine slept or no scheduler was running */
+  catchUpMissedRuns: boolean;
+  /** A job lock older than this is considered abandoned */
+  lockTimeoutMs: number;
 }
 
 const DEFAULT_SCHEDULER_CONFIG: SchedulerConfig = {
+  hourlyCron: '0 * * * *',      // every hour
   nightlyCron: '0 3 * * *',     // 3 AM daily
   weeklyCron: '0 4 * * 0',      // 4 AM Sunday
   monthlyCron: '0 5 1 * *',     // 5 AM 1st of month
   enableAutoScheduling: false,
+  catchUpMissedRuns: true,
+  lockTimeoutMs: 6 * 60 * 60 * 1000,
 };
 
-interface DuplicateGroup {
-  primaryChunkId: string;
-  duplicateChunkIds: string[];
-  similarity: number;
+/** How often the scheduler checks for due jobs */
+const TICK_INTERVAL_MS = 60 * 1000;
+
+/** A run starting later than this after its scheduled time counts as a catch-up */
+const MISSED_RUN_GRACE_MS = 2 * TICK_INTERVAL_MS;
+
+const JOB_TYPES: MaintenanceJobType[] = ['decay', 'consolidate', 'summarize', 'reindex', 'cleanup', 'snapshot'];
+
+export type ScheduleName = 'hourly' | 'nightly' | 'weekly' | 'monthly';
+
+export interface ScheduledMaintenance {
+  name: ScheduleName;
+  cron: string;
+  /** Jobs run in order; the first one's history decides whether the schedule is due */
+  jobs: MaintenanceJobType[];
+  nextRun: Date;
+}
+
+/**
+ * Thrown when another scheduler (in this or another process) is running the job
+ */
+export class MaintenanceLockError extends Error {
+  constructor(public readonly lock: MaintenanceLock | null, jobName: string) {
+    super(lock
+      ? `Maintenance job "${jobName}" is already running (pid ${lock.pid} on ${lock.host} since ${lock.acquiredAt.toLocaleString()})`
+      : `Maintenance job "${jobName}" is already running`);
+    this.name = 'MaintenanceLockError';
+  }
 }
 
+/**
+ * Re-embeds stored chunks during the monthly reindex; resolves to null when
+ * nothing needed re-embedding
+ */
+export type EmbeddingReindexRunner = () => Promise<{ reembedded: number } | null>;
+
+/**
+ * Writes a backup archive of the knowledge base (see knowledgeArchive.ts)
+ */
+export type SnapshotRunner = () => Promise<{ path: string; bytes: number; info: { chunks: number } }>;
+
+/**
+ * Merges near-duplicate chunks during the nightly consolidation (see
+ * duplicateConsolidation.ts)
+ */
+export type DuplicateConsolidationRunner = () => Promise<{
+  clusters: unknown[];
+  duplicatesMerged: number;
+  vectorsDeleted: number;
+}>;
+
 export class MaintenanceScheduler {
   private metadataStore: MemoryMetadataStore;
   private decayCalculator: DecayCalculator;
   private categoryManager: CategoryManager;
   private relationshipGraph: RelationshipGraph;
   private config: SchedulerConfig;
+  private crons: Record<ScheduleName, CronExpression>;
   private running: boolean = false;
-  private intervalIds: NodeJS.Timeout[] = [];
-  private stats: MaintenanceStats;
+  private tickId: NodeJS.Timeout | null = null;
+  private ticking: boolean = false;
+  private startedAt: Date = new Date();
+  /** Scheduled time last attempted per schedule, so a skipped run is not retried every tick */
+  private attempted = new Map<ScheduleName, number>();
+  private lockOwner = `${hostname()}:${process.pid}:${randomUUID()}`;
+  private embeddingReindex: EmbeddingReindexRunner | null = null;
+  private snapshotRunner: SnapshotRunner | null = null;
+  private duplicateConsolidator: DuplicateConsolidationRunner | null = null;
 
   constructor(
     metadataStore?: MemoryMetadataStore,
@@ -73,15 +140,11 @@ export class MaintenanceScheduler {
     this.categoryManager = categoryManager || getCategoryManager(this.metadataStore);
     this.relationshipGraph = relationshipGraph || getRelationshipGraph(this.metadataStore);
     this.config = { ...DEFAULT_SCHEDULER_CONFIG, ...config };
-    
-    this.stats = {
-      lastDecayUpdate: null,
-      lastConsolidation: null,
-      lastSummarization: null,
-      lastReindex: null,
-      totalJobsRun: 0,
-      totalErrors: 0,
-      jobHistory: [],
+    this.crons = {
+      hourly: new CronExpression(this.config.hourlyCron),
+      nightly: new CronExpression(this.config.nightlyCron),
+      weekly: new CronExpression(this.config.weeklyCron),
+      monthly: new CronExpression(this.config.monthlyCron),
     };
   }
 
@@ -89,13 +152,72 @@ export class MaintenanceScheduler {
     return this.running;
   }
 
+  /**
+   * Statistics from the job history persisted in the metadata database, so
+   * they cover runs by earlier processes too
+   */
   getStats(): MaintenanceStats {
-    return { ...this.stats, jobHistory: [...this.stats.jobHistory] };
+    const summary = this.metadataStore.getMaintenanceRunSummary();
+    return {
+      lastDecayUpdate: summary.lastSuccess.decay ?? null,
+      lastConsolidation: summary.lastSuccess.consolidate ?? null,
+      lastSummarization: summary.lastSuccess.summarize ?? null,
+      lastReindex: summary.lastSuccess.reindex ?? null,
+      lastSnapshot: summary.lastSuccess.snapshot ?? null,
+      totalJobsRun: summary.totalRuns,
+      totalErrors: summary.totalErrors,
+      // Oldest first
+      jobHistory: this.metadataStore.getMaintenanceRuns({ limit: 100 }).reverse(),
+    };
   }
 
   /**
-   * Start the background scheduler using setInterval
-   * Note: For production use with persistent scheduling, consider using node-cron
+   * The cron schedules and when each next fires
+   */
+  getSchedule(now: Date = new Date()): ScheduledMaintenance[] {
+    const jobs: Record<ScheduleName, MaintenanceJobType[]> = {
+      hourly: ['decay'],
+      nightly: ['consolidate'],
+      weekly: this.snapshotRunner ? ['summarize', 'snapshot'] : ['summarize'],
+      monthly: ['reindex'],
+    };
+    return (Object.keys(this.crons) as ScheduleName[]).map(name => ({
+      name,
+      cron: this.crons[name].expression,
+      jobs: jobs[name],
+      nextRun: this.crons[name].next(now),
+    }));
+  }
+
+  /**
+   * Let the monthly reindex re-embed chunks (it needs the vector store and
+   * embedder, which the scheduler does not own)
+   */
+  setEmbeddingReindex(runner: EmbeddingReindexRunner | null): void {
+    this.embeddingReindex = runner;
+  }
+
+  /**
+   * Let the nightly consolidation merge near-duplicate chunks (it needs their
+   * vectors, which live in the vector store)
+   */
+  setDuplicateConsolidator(runner: DuplicateConsolidationRunner | null): void {
+    this.duplicateConsolidator = runner;
+  }
+
+  /**
+   * Back up the knowledge base weekly and before cleanup deletes anything
+   */
+  setSnapshotRunner(runner: SnapshotRunner | null): void {
+    this.snapshotRunner = runner;
+  }
+
+  /**
+   * Start the background scheduler
+   *
+   * Due jobs are checked every minute against the cron schedules and the
+   * persisted history. A check right away (and the first one after the
+   * machine wakes up) catches up on runs missed while nothing was running.
    */
   start(): void {
     if (this.running) {
@@ -104,55 +226,95 @@ export class MaintenanceScheduler {
     }
 
     this.running = true;
+    this.startedAt = new Date();
     console.log('Maintenance scheduler started');
     console.log('Schedules:');
-    console.log(`  - Decay updates: hourly`);
-    console.log(`  - Nightly consolidation: daily at 3 AM`);
-    console.log(`  - Weekly summarization: Sunday at 4 AM`);
-    console.log(`  - Monthly reindex: 1st of month at 5 AM`);
-
-    // Hourly decay update (every hour)
-    const hourlyId = setInterval(async () => {
-      await this.runDecayUpdate().catch(err => {
-        console.error('Hourly decay update failed:', err);
-      });
-    }, 60 * 60 * 1000); // 1 hour
-    this.intervalIds.push(hourlyId);
+    for (const schedule of this.getSchedule()) {
+      console.log(`  - ${schedule.name} (${schedule.cron}): ${schedule.jobs.join(', ')}, next ${schedule.nextRun.toLocaleString()}`);
+    }
 
-    // Calculate next run times and schedule
-    this.scheduleNightly();
-    this.scheduleWeekly();
-    this.scheduleMonthly();
+    this.tickId = setInterval(() => {
+      void this.tick();
+    }, TICK_INTERVAL_MS);
+    void this.tick();
   }
 
   stop(): void {
     if (!this.running) return;
 
-    for (const id of this.intervalIds) {
-      clearInterval(id);
+    if (this.tickId) {
+      clearInterval(this.tickId);
+      this.tickId = null;
     }
-    this.intervalIds = [];
     this.running = false;
     console.log('Maintenance scheduler stopped');
   }
 
   /**
-   * Run a specific maintenance job manually
+   * Run every schedule whose last scheduled time has passed since its first
+   * job last ran. Several missed occurrences result in a single run.
+   */
+  async runDueJobs(now: Date = new Date()): Promise<MaintenanceJobResult[]> {
+    const results: MaintenanceJobResult[] = [];
+
+    for (const schedule of this.getSchedule(now)) {
+      const due = this.crons[schedule.name].previous(now);
+      if (this.attempted.get(schedule.name) === due.getTime()) continue;
+
+      // Without any history, only times after this scheduler started count as missed
+      const lastRun = this.metadataStore.getLastMaintenanceRun(schedule.jobs[0])?.startTime ?? this.startedAt;
+      if (due <= lastRun) continue;
+      this.attempted.set(schedule.name, due.getTime());
+
+      const missed = now.getTime() - due.getTime() > MISSED_RUN_GRACE_MS;
+      if (missed && !this.config.catchUpMissedRuns) continue;
+      if (missed) {
+        console.log(`Catching up on the ${schedule.name} maintenance missed at ${due.toLocaleString()}`);
+      }
+
+      for (const job of schedule.jobs) {
+        try {
+          results.push(await this.runJob(job));
+        } catch (err) {
+          console.error(`Scheduled ${job} skipped: ${err instanceof Error ? err.message : String(err)}`);
+          break;
+        }
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Run a specific maintenance job
+   *
+   * Holds the job's lock in the metadata database for the duration, so the
+   * same job never runs twice at once across processes; throws
+   * MaintenanceLockError when it is already running.
    */
-  async runJob(jobName: MaintenanceJobType): Promise<MaintenanceJobResult> {
-    switch (jobName) {
-      case 'decay':
-        return this.runDecayUpdate();
-      case 'consolidate':
-        return this.runNightlyConsolidation();
-      case 'summarize':
-        return this.runWeeklySummarization();
-      case 'reindex':
-        return this.runMonthlyReindex();
-      case 'cleanup':
-        return this.runCleanup();
-      default:
-        throw new Error(`Unknown job type: ${jobName}`);
+  async runJob(jobName: MaintenanceJobType, options: { dryRun?: boolean } = {}): Promise<MaintenanceJobResult> {
+    if (!JOB_TYPES.includes(jobName)) {
+      throw new Error(`Unknown job type: ${jobName}`);
+    }
+
+    this.acquireJobLock(jobName);
+    try {
+      switch (jobName) {
+        case 'decay':
+          return await this.runDecayUpdate();
+        case 'consolidate':
+          return await this.runNightlyConsolidation();
+        case 'summarize':
+          return await this.runWeeklySummarization();
+        case 'reindex':
+          return await this.runMonthlyReindex();
+        case 'cleanup':
+          return await this.runCleanup(options.dryRun);
+        case 'snapshot':
+          return await this.runSnapshot();
+      }
+    } finally {
+      this.metadataStore.releaseMaintenanceLock(jobName, this.lockOwner);
     }
   }
 
@@ -168,8 +330,6 @@ export class MaintenanceScheduler {
       const result = this.decayCalculator.updateAllDecayScores(this.metadataStore, false);
       metrics.chunksUpdated = result.updated;
       metrics.duration = result.duration;
-
-      this.stats.lastDecayUpdate = new Date();
     } catch (err) {
       errors.push(err instanceof Error ? err.message : String(err));
     }
@@ -201,17 +361,18 @@ export class MaintenanceScheduler {
       metrics.decayUpdated = decayResult.updated;
       console.log(`  Updated ${decayResult.updated} decay scores`);
 
-      // 2. Find and consolidate near-duplicates
-      const duplicates = await this.findDuplicates();
-      metrics.duplicatesFound = duplicates.length;
-      for (const group of duplicates) {
+      // 2. Merge near-duplicates by embedding similarity
+      if (this.duplicateConsolidator) {
         try {
-          await this.mergeDuplicates(group);
+          const consolidation = await this.duplicateConsolidator();
+          metrics.duplicatesFound = consolidation.clusters.length;
+          metrics.duplicatesMerged = consolidation.duplicatesMerged;
+          metrics.vectorsDeleted = consolidation.vectorsDeleted;
+          console.log(`  Merged ${consolidation.duplicatesMerged} duplicates into ${consolidation.clusters.length} chunks`);
         } catch (err) {
           errors.push(`Failed to merge duplicates: ${err instanceof Error ? err.message : String(err)}`);
         }
       }
-      console.log(`  Found ${duplicates.length} duplicate groups`);
 
       // 3. Promote frequently accessed items (increase importance)
       const hotItems = this.getHotItems(24); // Last 24 hours
@@ -225,8 +386,6 @@ export class MaintenanceScheduler {
       const archivedIds = this.metadataStore.archiveStaleChunks(0.15);
       metrics.itemsArchived = archivedIds.length;
       console.log(`  Archived ${archivedIds.length} stale items`);
-
-      this.stats.lastConsolidation = new Date();
     } catch (err) {
       errors.push(err instanceof Error ? err.message : String(err));
     }
@@ -275,8 +434,6 @@ export class MaintenanceScheduler {
       if (metrics.contradictionsFound > 0) {
         console.log(`  Resolved ${metrics.contradictionsFound} contradictions`);
       }
-
-      this.stats.lastSummarization = new Date();
     } catch (err) {
       errors.push(err instanceof Error ? err.message : String(err));
     }
@@ -291,7 +448,8 @@ export class MaintenanceScheduler {
   }
 
   /**
-   * Monthly reindex: cleanup, relationship re-weighting, database optimization
+   * Monthly reindex: cleanup, relationship re-weighting, database optimization,
+   * and re-embedding when the embedder changed
    */
   async runMonthlyReindex(): Promise<MaintenanceJobResult> {
     const startTime = new Date();
@@ -330,7 +488,12 @@ export class MaintenanceScheduler {
       this.metadataStore.vacuum();
       console.log(`  Database vacuumed`);
 
-      this.stats.lastReindex = new Date();
+      // 5. Re-embed chunks if the embedder changed or a re-embedding was interrupted
+      if (this.embeddingReindex) {
+        const reembed = await this.embeddingReindex();
+        metrics.chunksReembedded = reembed?.reembedded ?? 0;
+        console.log(reembed ? `  Re-embedded ${reembed.reembedded} chunks` : `  Embeddings up to date`);
+      }
     } catch (err) {
       errors.push(err instanceof Error ? err.message : String(err));
     }
@@ -344,8 +507,37 @@ export class MaintenanceScheduler {
     return jobResult;
   }
 
+  /**
+   * Snapshot: export the knowledge base to a backup archive
+   */
+  async runSnapshot(): Promise<MaintenanceJobResult> {
+    const startTime = new Date();
+    const errors: string[] = [];
+    const metrics: Record<string, number> = {};
+
+    try {
+      if (!this.snapshotRunner) {
+        throw new Error('No snapshot runner configured');
+      }
+      const snapshot = await this.snapshotRunner();
+      metrics.chunksArchived = snapshot.info.chunks;
+      metrics.snapshotBytes = snapshot.bytes;
+      console.log(`  Snapshot written to ${snapshot.path}`);
+    } catch (err) {
+      errors.push(err instanceof Error ? err.message : String(err));
+    }
+
+    const endTime = new Date();
+    const jobResult = this.createJobResult('snapshot', startTime, endTime, metrics, errors);
+    this.recordJobResult(jobResult);
+    return jobResult;
+  }
+
   /**
    * General cleanup: remove archived items, compress data
+   *
+   * With a snapshot runner set, the knowledge base is backed up first and
+   * nothing is deleted if the backup fails.
    */
   async runCleanup(dryRun: boolean = false): Promise<MaintenanceJobResult> {
     const startTime = new Date();
@@ -373,6 +565,12 @@ export class MaintenanceScheduler {
       // 3. Calculate what would be deleted
       metrics.wouldDelete = archivedChunks.length;
 
+      if (!dryRun && this.snapshotRunner) {
+        const snapshot = await this.snapshotRunner();
+        metrics.snapshotBytes = snapshot.bytes;
+        console.log(`  Snapshot written to ${snapshot.path}`);
+      }
+
       if (dryRun) {
         console.log(`  Would delete ${archivedChunks.length} archived chunks`);
         console.log(`  ${lowDecayChunks.length} chunks have low decay scores (candidates for archival)`);
@@ -407,116 +605,30 @@ export class MaintenanceScheduler {
     return jobResult;
   }
 
-  private scheduleNightly(): void {
-    const now = new Date();
-    const next3AM = new Date(now);
-    next3AM.setHours(3, 0, 0, 0);
-    if (next3AM <= now) {
-      next3AM.setDate(next3AM.getDate() + 1);
-    }
-    
-    const msUntil3AM = next3AM.getTime() - now.getTime();
-    
-    setTimeout(() => {
-      this.runNightlyConsolidation().catch(console.error);
-      // Then run every 24 hours
-      const dailyId = setInterval(() => {
-        this.runNightlyConsolidation().catch(console.error);
-      }, 24 * 60 * 60 * 1000);
-      this.intervalIds.push(dailyId);
-    }, msUntil3AM);
-  }
-
-  private scheduleWeekly(): void {
-    const now = new Date();
-    const nextSunday4AM = new Date(now);
-    nextSunday4AM.setHours(4, 0, 0, 0);
-    const daysUntilSunday = (7 - now.getDay()) % 7;
-    nextSunday4AM.setDate(nextSunday4AM.getDate() + (daysUntilSunday === 0 && now.getHours() >= 4 ? 7 : daysUntilSunday));
-    
-    const msUntilSunday = nextSunday4AM.getTime() - now.getTime();
-    
-    setTimeout(() => {
-      this.runWeeklySummarization().catch(console.error);
-      // Then run every 7 days
-      const weeklyId = setInterval(() => {
-        this.runWeeklySummarization().catch(console.error);
-      }, 7 * 24 * 60 * 60 * 1000);
-      this.intervalIds.push(weeklyId);
-    }, msUntilSunday);
-  }
-
-  private scheduleMonthly(): void {
-    const now = new Date();
-    const nextFirst5AM = new Date(now.getFullYear(), now.getMonth() + 1, 1, 5, 0, 0);
-    if (now.getDate() === 1 && now.getHours() < 5) {
-      nextFirst5AM.setMonth(now.getMonth());
+  private async tick(): Promise<void> {
+    // A long job (e.g. the monthly reindex) delays the next checks instead of overlapping them
+    if (this.ticking) return;
+    this.ticking = true;
+    try {
+      await this.runDueJobs();
+    } catch (err) {
+      console.error('Maintenance scheduling failed:', err);
+    } finally {
+      this.ticking = false;
     }
-    
-    const msUntilFirst = nextFirst5AM.getTime() - now.getTime();
-    
-    setTimeout(() => {
-      this.runMonthlyReindex().catch(console.error);
-      // Schedule next month
-      this.scheduleMonthly();
-    }, msUntilFirst);
   }
 
-  /**
-   * Find potential duplicate chunks based on high similarity
-   */
-  private async findDuplicates(): Promise<DuplicateGroup[]> {
-    // For now, we do a basic approach: find chunks with identical sources and similar timestamps
-    // A more sophisticated approach would use vector similarity
-    const chunks = this.metadataStore.getAllChunkMetadata({ includeArchived: false });
-    const duplicateGroups: DuplicateGroup[] = [];
-    const processed = new Set<string>();
-
-    for (const chunk of chunks) {
-      if (processed.has(chunk.chunkId)) continue;
-
-      // Find chunks from the same source within 1 minute
-      const potentialDuplicates = chunks.filter(c => {
-        if (c.chunkId === chunk.chunkId || processed.has(c.chunkId)) return false;
-        
-        const metadata1 = this.metadataStore.getChunkMetadata(chunk.chunkId);
-        const metadata2 = this.metadataStore.getChunkMetadata(c.chunkId);
-        
-        if (!metadata1 || !metadata2) return false;
-
-        const time1 = new Date(chunk.createdAt).getTime();
-        const time2 = new Date(c.createdAt).getTime();
-        const timeDiff = Math.abs(time1 - time2);
-
-        return timeDiff < 60000; // Within 1 minute
-      });
-
-      if (potentialDuplicates.length > 0) {
-        duplicateGroups.push({
-          primaryChunkId: chunk.chunkId,
-          duplicateChunkIds: potentialDuplicates.map(c => c.chunkId),
-          similarity: 0.95,
-        });
-
-        processed.add(chunk.chunkId);
-        for (const dup of potentialDuplicates) {
-          processed.add(dup.chunkId);
-        }
-      }
-    }
-
-    return duplicateGroups;
-  }
+  private acquireJobLock(jobName: MaintenanceJobType): void {
+    const lock = { jobName, owner: this.lockOwner, host: hostname(), pid: process.pid };
+    if (this.metadataStore.acquireMaintenanceLock(lock, this.config.lockTimeoutMs)) return;
 
-  private async mergeDuplicates(group: DuplicateGroup): Promise<void> {
-    // Keep the primary chunk, archive the duplicates
-    // Transfer any unique relationships to the primary
-    for (const dupId of group.duplicateChunkIds) {
-      this.metadataStore.archiveChunk(dupId);
-      
-      // Could also create a SUPERSEDES relationship
-      this.relationshipGraph.markSupersedes(group.primaryChunkId, dupId, group.similarity);
+    // A process on this machine that died mid-job leaves its lock behind
+    const holder = this.metadataStore.getMaintenanceLocks().find(l => l.jobName === jobName) ?? null;
+    if (holder && holder.host === lock.host && holder.pid !== process.pid && !isProcessAlive(holder.pid)) {
+      this.metadataStore.releaseMaintenanceLock(jobName, holder.owner);
+      if (this.metadataStore.acquireMaintenanceLock(lock, this.config.lockTimeoutMs)) return;
     }
+    throw new MaintenanceLockError(holder, jobName);
   }
 
   private getHotItems(hours: number): { chunkId: string; accessCount: number }[] {
@@ -573,19 +685,39 @@ export class MaintenanceScheduler {
   }
 
   private recordJobResult(result: MaintenanceJobResult): void {
-    this.stats.totalJobsRun++;
-    if (!result.success) {
-      this.stats.totalErrors += result.errors.length;
-    }
-    
-    // Keep last 100 job results
-    this.stats.jobHistory.push(result);
-    if (this.stats.jobHistory.length > 100) {
-      this.stats.jobHistory.shift();
+    try {
+      this.metadataStore.recordMaintenanceRun(result);
+    } catch (err) {
+      console.error('Failed to record maintenance job:', err);
     }
   }
 }
 
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (err) {
+    // EPERM: the process exists but belongs to another user
+    return (err as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+/**
+ * Scheduler settings from the memory config: explicit cron expressions win
+ * over the day/hour settings
+ */
+export function schedulerConfigFromMaintenanceConfig(config: MaintenanceConfig): Partial<SchedulerConfig> {
+  return {
+    enableAutoScheduling: config.enableAutoScheduling,
+    catchUpMissedRuns: config.catchUpMissedRuns,
+    ...(config.hourlyCron && { hourlyCron: config.hourlyCron }),
+    nightlyCron: config.nightlyCron ?? `0 ${config.nightlyHour} * * *`,
+    weeklyCron: config.weeklyCron ?? `0 ${config.weeklyHour} * * ${config.weeklyDay}`,
+    monthlyCron: config.monthlyCron ?? `0 ${config.monthlyHour} ${config.monthlyDay} * *`,
+  };
+}
+
 let instance: MaintenanceScheduler | null = null;
 
 export function getMaintenanceScheduler(
@@ -10,6 +10,8 @@ import type {
   CategoryItem,
   AccessLogEntry,
   ProcessedConversation,
+  MaintenanceRun,
+  MaintenanceLock,
   MemoryStats,
   ChunkType,
   EntityTag,
@@ -115,6 +117,29 @@ export class MemoryMetadataStore {
         knowledge_extracted INTEGER DEFAULT 0
       );
 
+      -- Maintenance job history (survives scheduler restarts)
+      CREATE TABLE IF NOT EXISTS maintenance_runs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        job_name TEXT NOT NULL,
+        success INTEGER NOT NULL,
+        start_time TEXT NOT NULL,
+        end_time TEXT NOT NULL,
+        duration_ms INTEGER NOT NULL,
+        metrics_json TEXT,
+        errors_json TEXT,
+        error_count INTEGER DEFAULT 0
+      );
+
+      -- One row per running maintenance job, shared by all processes
+      CREATE TABLE IF NOT EXISTS maintenance_locks (
+        job_name TEXT PRIMARY KEY,
+        owner TEXT NOT NULL,
+        host TEXT NOT NULL,
+        pid INTEGER NOT NULL,
+        acquired_at TEXT NOT NULL,
+        expires_at TEXT NOT NULL
+      );
+
       -- Indexes for performance
       CREATE INDEX IF NOT EXISTS idx_chunks_decay ON chunks_metadata(decay_score);
       CREATE INDEX IF NOT EXISTS idx_chunks_type ON chunks_metadata(chunk_type);
@@ -127,6 +152,7 @@ export class MemoryMetadataStore {
       CREATE INDEX IF NOT EXISTS idx_access_log_time ON access_log(accessed_at);
       CREATE INDEX IF NOT EXISTS idx_category_items_chunk ON category_items(chunk_id);
       CREATE INDEX IF NOT EXISTS idx_category_items_category ON category_items(category_id);
+      CREATE INDEX IF NOT EXISTS idx_maintenance_runs_job ON maintenance_runs(job_name, start_time);
     `);
   }
 
@@ -259,6 +285,22 @@ export class MemoryMetadataStore {
     logStmt.run(chunkId, now, queryText || null, resultRank ?? null);
   }
 
+  /**
+   * Set access statistics and importance without touching the other columns
+   * (used when merging duplicates into one chunk)
+   */
+  updateChunkUsage(
+    chunkId: string,
+    usage: { accessCount: number; importance: number; lastAccessedAt: string | null }
+  ): void {
+    const stmt = this.db.prepare(`
+      UPDATE chunks_metadata 
+      SET access_count = ?, importance = ?, last_accessed_at = COALESCE(?, last_accessed_at), updated_at = ?
+      WHERE chunk_id = ?
+    `);
+    stmt.run(usage.accessCount, usage.importance, usage.lastAccessedAt, new Date().toISOString(), chunkId);
+  }
+
   updateDecayScore(chunkId: string, decayScore: number): void {
     const stmt = this.db.prepare(`
       UPDATE chunks_metadata 
@@ -328,6 +370,19 @@ export class MemoryMetadataStore {
     this.db.prepare('DELETE FROM chunks_metadata WHERE chunk_id = ?').run(chunkId);
   }
 
+  /**
+   * Delete metadata, relationships and access history for many chunks at once
+   */
+  deleteChunksMetadata(chunkIds: string[]): void {
+    const transaction = this.db.transaction((ids: string[]) => {
+      for (const chunkId of ids) {
+        this.deleteChunkMetadata(chunkId);
+      }
+    });
+
+    transaction(chunkIds);
+  }
+
   // ==================== Relationship Operations ====================
 
   addRelationship(
@@ -582,6 +637,138 @@ export class MemoryMetadataStore {
     };
   }
 
+  // ==================== Maintenance Jobs ====================
+
+  /**
+   * Record a finished maintenance job, keeping the newest `keep` runs
+   */
+  recordMaintenanceRun(run: Omit<MaintenanceRun, 'id'>, keep: number = 1000): number {
+    const result = this.db.prepare(`
+      INSERT INTO maintenance_runs (job_name, success, start_time, end_time, duration_ms, metrics_json, errors_json, error_count)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      run.jobName,
+      run.success ? 1 : 0,
+      run.startTime.toISOString(),
+      run.endTime.toISOString(),
+      run.duration,
+      JSON.stringify(run.metrics),
+      JSON.stringify(run.errors),
+      run.errors.length
+    );
+
+    this.db.prepare(`
+      DELETE FROM maintenance_runs
+      WHERE id <= (SELECT id FROM maintenance_runs ORDER BY id DESC LIMIT 1 OFFSET ?)
+    `).run(keep);
+
+    return Number(result.lastInsertRowid);
+  }
+
+  /**
+   * Maintenance runs, newest first
+   */
+  getMaintenanceRuns(options: { jobName?: string; limit?: number } = {}): MaintenanceRun[] {
+    let sql = 'SELECT * FROM maintenance_runs';
+    const params: unknown[] = [];
+
+    if (options.jobName) {
+      sql += ' WHERE job_name = ?';
+      params.push(options.jobName);
+    }
+
+    sql += ' ORDER BY start_time DESC, id DESC LIMIT ?';
+    params.push(options.limit ?? 100);
+
+    const rows = this.db.prepare(sql).all(...params) as any[];
+    return rows.map(row => this.rowToMaintenanceRun(row));
+  }
+
+  getLastMaintenanceRun(jobName: string): MaintenanceRun | null {
+    return this.getMaintenanceRuns({ jobName, limit: 1 })[0] ?? null;
+  }
+
+  /**
+   * Totals over the stored history and when each job last succeeded
+   */
+  getMaintenanceRunSummary(): { totalRuns: number; totalErrors: number; lastSuccess: Record<string, Date> } {
+    const totals = this.db.prepare(`
+      SELECT COUNT(*) as total_runs, SUM(CASE WHEN success = 0 THEN error_count ELSE 0 END) as total_errors
+      FROM maintenance_runs
+    `).get() as any;
+    const rows = this.db.prepare(`
+      SELECT job_name, MAX(end_time) as last_success
+      FROM maintenance_runs
+      WHERE success = 1
+      GROUP BY job_name
+    `).all() as any[];
+
+    const lastSuccess: Record<string, Date> = {};
+    for (const row of rows) {
+      lastSuccess[row.job_name] = new Date(row.last_success);
+    }
+
+    return {
+      totalRuns: totals.total_runs,
+      totalErrors: totals.total_errors || 0,
+      lastSuccess,
+    };
+  }
+
+  /**
+   * Take the lock for a maintenance job. Fails while another owner holds an
+   * unexpired lock, including when `owner` already holds it.
+   */
+  acquireMaintenanceLock(lock: Omit<MaintenanceLock, 'acquiredAt' | 'expiresAt'>, ttlMs: number): boolean {
+    const now = new Date();
+    const acquire = this.db.transaction(() => {
+      this.db.prepare('DELETE FROM maintenance_locks WHERE job_name = ? AND expires_at <= ?')
+        .run(lock.jobName, now.toISOString());
+      return this.db.prepare(`
+        INSERT OR IGNORE INTO maintenance_locks (job_name, owner, host, pid, acquired_at, expires_at)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `).run(
+        lock.jobName,
+        lock.owner,
+        lock.host,
+        lock.pid,
+        now.toISOString(),
+        new Date(now.getTime() + ttlMs).toISOString()
+      ).changes > 0;
+    });
+    // IMMEDIATE takes the write lock up front so two processes cannot both see the row missing
+    return acquire.immediate();
+  }
+
+  releaseMaintenanceLock(jobName: string, owner: string): void {
+    this.db.prepare('DELETE FROM maintenance_locks WHERE job_name = ? AND owner = ?').run(jobName, owner);
+  }
+
+  getMaintenanceLocks(): MaintenanceLock[] {
+    const rows = this.db.prepare('SELECT * FROM maintenance_locks ORDER BY acquired_at').all() as any[];
+    return rows.map(row => ({
+      jobName: row.job_name,
+      owner: row.owner,
+      host: row.host,
+      pid: row.pid,
+      acquiredAt: new Date(row.acquired_at),
+      expiresAt: new Date(row.expires_at),
+    }));
+  }
+
+  private rowToMaintenanceRun(row: any): MaintenanceRun {
+    return {
+      id: row.id,
+      jobName: row.job_name,
+      success: row.success === 1,
+      startTime: new Date(row.start_time),
+      endTime: new Date(row.end_time),
+      duration: row.duration_ms,
+      metrics: row.metrics_json ? JSON.parse(row.metrics_json) : {},
+      errors: row.errors_json ? JSON.parse(row.errors_json) : [],
+    };
+  }
+
   // ==================== Analytics & Stats ====================
 
   getMemoryStats(): MemoryStats {
@@ -643,6 +830,10 @@ export class MemoryMetadataStore {
 
   // ==================== Cleanup ====================
 
+  getPath(): string {
+    return this.dbPath;
+  }
+
   close(): void {
     this.db.close();
   }
@@ -0,0 +1,226 @@
+/**
+ * Metadata Filter Parsing and Evaluation
+ *
+ * Validates `MetadataFilter` JSON into a `FilterNode` tree for the vector
+ * store adapters to translate, and evaluates it in memory for stores
+ * without native filtering.
+ */
+
+import type {
+  FilterFieldNode,
+  FilterNode,
+  FilterScalar,
+  MetadataFilter,
+} from '../types/filter.js';
+
+const FIELD_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}([T ][\d:.]+(Z|[+-]\d{2}:?\d{2})?)?$/;
+const FIELD_OPERATORS = new Set(['$eq', '$ne', '$in', '$nin', '$gt', '$gte', '$lt', '$lte', '$exists']);
+
+export class MetadataFilterError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MetadataFilterError';
+  }
+}
+
+/**
+ * Parse a filter into a tree, or null when it has no conditions
+ *
+ * @throws MetadataFilterError for unknown operators, invalid field names or
+ * operands of the wrong type
+ */
+export function parseMetadataFilter(filter?: MetadataFilter | null): FilterNode | null {
+  if (filter === undefined || filter === null) return null;
+  if (!isPlainObject(filter)) {
+    throw new MetadataFilterError('Filter must be an object');
+  }
+  if (Object.keys(filter).length === 0) return null;
+  return parseGroup(filter, 'filter');
+}
+
+/**
+ * AND several filters together, skipping empty ones
+ */
+export function combineFilters(...filters: Array<MetadataFilter | null | undefined>): MetadataFilter | undefined {
+  const present = filters.filter((f): f is MetadataFilter => !!f && Object.keys(f).length > 0);
+  if (present.length === 0) return undefined;
+  return present.length === 1 ? present[0] : { $and: present };
+}
+
+/**
+ * Evaluate a parsed filter against chunk metadata
+ */
+export function matchesFilter(metadata: Record<string, any> | undefined, node: FilterNode | null): boolean {
+  if (!node) return true;
+
+  switch (node.op) {
+    case '$and':
+      return node.filters.every(child => matchesFilter(metadata, child));
+    case '$or':
+      return node.filters.some(child => matchesFilter(metadata, child));
+    default:
+      return matchesField(metadata?.[node.field], node);
+  }
+}
+
+/**
+ * Fields a filter refers to, for stores that only filter on indexed fields
+ */
+export function getFilterFields(node: FilterNode | null): string[] {
+  if (!node) return [];
+  if ('filters' in node) {
+    return Array.from(new Set(node.filters.flatMap(getFilterFields)));
+  }
+  return [node.field];
+}
+
+/**
+ * Error for a filter a vector store cannot express
+ */
+export function unsupportedFilter(store: string, detail: string): MetadataFilterError {
+  return new MetadataFilterError(`The ${store} vector store does not support ${detail} in search filters`);
+}
+
+function parseGroup(filter: MetadataFilter, path: string): FilterNode {
+  const nodes: FilterNode[] = [];
+
+  for (const [key, value] of Object.entries(filter)) {
+    if (value === undefined) continue;
+
+    if (key === '$and' || key === '$or') {
+      if (!Array.isArray(value) || value.length === 0) {
+        throw new MetadataFilterError(`${path}.${key} must be a non-empty array of filters`);
+      }
+      const filters = value.map((child, i) => {
+        if (!isPlainObject(child) || Object.keys(child).length === 0) {
+          throw new MetadataFilterError(`${path}.${key}[${i}] must be a non-empty filter object`);
+        }
+        return parseGroup(child as MetadataFilter, `${path}.${key}[${i}]`);
+      });
+      nodes.push(filters.length === 1 ? filters[0] : { op: key, filters });
+      continue;
+    }
+
+    if (key.startsWith('$')) {
+      throw new MetadataFilterError(`Unknown filter operator ${key} at ${path}; use $and or $or to combine filters`);
+    }
+    if (!FIELD_PATTERN.test(key)) {
+      throw new MetadataFilterError(`Invalid metadata field name "${key}"; use letters, digits and underscores`);
+    }
+
+    nodes.push(...parseField(key, value));
+  }
+
+  if (nodes.length === 0) {
+    throw new MetadataFilterError(`${path} has no conditions`);
+  }
+  return nodes.length === 1 ? nodes[0] : { op: '$and', filters: nodes };
+}
+
+function parseField(field: string, value: unknown): FilterFieldNode[] {
+  if (isScalar(value)) {
+    return [{ op: '$eq', field, value }];
+  }
+  if (Array.isArray(value)) {
+    return [{ op: '$in', field, values: parseScalars(field, '$in', value) }];
+  }
+  if (value === null) {
+    throw new MetadataFilterError(`"${field}" cannot be matched against null; use { $exists: false }`);
+  }
+  if (!isPlainObject(value) || Object.keys(value).length === 0) {
+    throw new MetadataFilterError(`"${field}" must be a value, an array of values, or an object of operators`);
+  }
+
+  return Object.entries(value).map(([operator, operand]): FilterFieldNode => {
+    if (!FIELD_OPERATORS.has(operator)) {
+      throw new MetadataFilterError(
+        `Unknown operator ${operator} on "${field}"; supported: ${Array.from(FIELD_OPERATORS).join(', ')}`
+      );
+    }
+
+    switch (operator) {
+      case '$eq':
+      case '$ne':
+        if (!isScalar(operand)) {
+          throw new MetadataFilterError(`${operator} on "${field}" expects a string, number or boolean`);
+        }
+        return { op: operator, field, value: operand };
+      case '$in':
+      case '$nin':
+        return { op: operator, field, values: parseScalars(field, operator, operand) };
+      case '$exists':
+        if (typeof operand !== 'boolean') {
+          throw new MetadataFilterError(`$exists on "${field}" expects true or false`);
+        }
+        return { op: '$exists', field, value: operand };
+      default:
+        return { op: operator as '$gt' | '$gte' | '$lt' | '$lte', field, value: parseRangeOperand(field, operator, operand) };
+    }
+  });
+}
+
+function parseScalars(field: string, operator: string, operand: unknown): FilterScalar[] {
+  if (!Array.isArray(operand) || !operand.every(isScalar)) {
+    throw new MetadataFilterError(`${operator} on "${field}" expects an array of strings, numbers or booleans`);
+  }
+  return operand;
+}
+
+function parseRangeOperand(field: string, operator: string, operand: unknown): number {
+  if (typeof operand === 'number' && Number.isFinite(operand)) return operand;
+  if (typeof operand === 'string' && ISO_DATE_PATTERN.test(operand)) {
+    const time = Date.parse(operand);
+    if (!Number.isNaN(time)) return time;
+  }
+  throw new MetadataFilterError(`${operator} on "${field}" expects a number or an ISO 8601 date`);
+}
+
+function matchesField(value: unknown, node: FilterFieldNode): boolean {
+  if (node.op === '$exists') {
+    return (value !== undefined && value !== null) === node.value;
+  }
+
+  const values = Array.isArray(value) ? value : value === undefined || value === null ? [] : [value];
+  switch (node.op) {
+    case '$eq':
+      return values.some(v => v === node.value);
+    case '$ne':
+      return !values.some(v => v === node.value);
+    case '$in':
+      return values.some(v => node.values.includes(v));
+    case '$nin':
+      return !values.some(v => node.values.includes(v));
+    default:
+      return values.some(v => {
+        const comparable = toComparable(v);
+        if (comparable === null) return false;
+        switch (node.op) {
+          case '$gt': return comparable > node.value;
+          case '$gte': return comparable >= node.value;
+          case '$lt': return comparable < node.value;
+          case '$lte': return comparable <= node.value;
+        }
+      });
+  }
+}
+
+/**
+ * Numbers as-is and ISO date strings as epoch milliseconds
+ */
+function toComparable(value: unknown): number | null {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && ISO_DATE_PATTERN.test(value)) {
+    const time = Date.parse(value);
+    return Number.isNaN(time) ? null : time;
+  }
+  return null;
+}
+
+function isScalar(value: unknown): value is FilterScalar {
+  return typeof value === 'string' || typeof value === 'boolean' || (typeof value === 'number' && Number.isFinite(value));
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,338 @@
+/**
+ * Project Versions
+ *
+ * Reads the versions a project actually uses from its manifests and
+ * lockfiles, so rules can be checked against them without hand-maintained
+ * version numbers. Lockfiles give the installed version of each declared
+ * dependency; without one, a manifest gives the lowest version its range
+ * allows. Only direct dependencies and the runtime versions the manifests
+ * declare (Node.js engines, requires-python, PHP, the go directive) are read.
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { dirname, join, resolve } from 'path';
+import { homedir } from 'os';
+import { formatVersion, minVersion, parseVersion } from './semver.js';
+
+export type ProjectEcosystem = 'npm' | 'python' | 'go' | 'composer' | 'runtime';
+
+export interface ProjectVersion {
+  /** Package name ("react", "django", "laravel/framework"); runtimes are "node", "python", "php" and "go" */
+  name: string;
+  ecosystem: ProjectEcosystem;
+  /** Installed version, or the lowest version the manifest's range allows */
+  version: string;
+  /** File the version was read from, relative to the project root */
+  source: string;
+  /** Whether the version is exact (from a lockfile or a pinned manifest entry) */
+  locked: boolean;
+}
+
+/** Files that mark a project root */
+export const PROJECT_MANIFESTS = ['package.json', 'pyproject.toml', 'go.mod', 'composer.json'];
+
+/**
+ * Nearest directory at or above `startDir` holding a project manifest. The
+ * search stops below the home directory, so global rules in ~/.cursor do not
+ * pick up whatever happens to live in the home directory.
+ */
+export function findProjectRoot(startDir: string): string | null {
+  const home = homedir();
+  let dir = resolve(startDir);
+
+  while (dir !== home) {
+    if (PROJECT_MANIFESTS.some(file => existsSync(join(dir, file)))) {
+      return dir;
+    }
+    const parent = dirname(dir);
+    if (parent === dir) break;
+    dir = parent;
+  }
+  return null;
+}
+
+/**
+ * Versions declared by the project at `root`, keyed by `ecosystem:name`
+ */
+export function detectProjectVersions(root: string): Map<string, ProjectVersion> {
+  const versions = new Map<string, ProjectVersion>();
+  const add = (ecosystem: ProjectEcosystem, name: string, spec: string, source: string) => {
+    const lowest = minVersion(spec);
+    if (lowest) {
+      const exact = parseVersion(spec);
+      versions.set(`${ecosystem}:${name}`, {
+        name,
+        ecosystem,
+        version: formatVersion(lowest),
+        source,
+        locked: exact?.precision === 3,
+      });
+    }
+  };
+  const lock = (ecosystem: ProjectEcosystem, name: string, version: string, source: string) => {
+    const parsed = parseVersion(version);
+    const declared = versions.get(`${ecosystem}:${name}`);
+    if (parsed && declared) {
+      versions.set(`${ecosystem}:${name}`, { ...declared, version: formatVersion(parsed), source, locked: true });
+    }
+  };
+
+  readNpmVersions(root, add, lock);
+  readPythonVersions(root, add, lock);
+  readGoVersions(root, add);
+  readComposerVersions(root, add, lock);
+
+  return versions;
+}
+
+/**
+ * Look up a package as `ecosystem:name` or by its bare name in any ecosystem
+ */
+export function findProjectVersion(versions: Map<string, ProjectVersion>, packageRef: string): ProjectVersion | undefined {
+  const exact = versions.get(packageRef);
+  if (exact || packageRef.includes(':')) return exact;
+
+  for (const version of versions.values()) {
+    if (version.name === packageRef) return version;
+  }
+  return undefined;
+}
+
+type AddVersion = (ecosystem: ProjectEcosystem, name: string, spec: string, source: string) => void;
+
+function readNpmVersions(root: string, add: AddVersion, lock: AddVersion): void {
+  const pkg = readJson(join(root, 'package.json'));
+  if (!pkg) return;
+
+  for (const field of ['dependencies', 'devDependencies', 'optionalDependencies']) {
+    for (const [name, spec] of Object.entries(pkg[field] ?? {})) {
+      if (typeof spec === 'string') add('npm', name, spec, 'package.json');
+    }
+  }
+  if (typeof pkg.engines?.node === 'string') {
+    add('runtime', 'node', pkg.engines.node, 'package.json');
+  }
+
+  for (const file of ['package-lock.json', 'npm-shrinkwrap.json']) {
+    const lockfile = readJson(join(root, file));
+    if (!lockfile) continue;
+    for (const [path, entry] of Object.entries<{ version?: string }>(lockfile.packages ?? {})) {
+      if (path.startsWith('node_modules/') && !path.includes('/node_modules/', 1) && entry.version) {
+        lock('npm', path.slice('node_modules/'.length), entry.version, file);
+      }
+    }
+    // Lockfile v1
+    for (const [name, entry] of Object.entries<{ version?: string }>(lockfile.dependencies ?? {})) {
+      if (entry.version && !lockfile.packages) lock('npm', name, entry.version, file);
+    }
+  }
+
+  const yarnLock = readText(join(root, 'yarn.lock'));
+  if (yarnLock) {
+    let names: string[] = [];
+    for (const line of yarnLock.split('\n')) {
+      if (/^\S.*:$/.test(line) && !line.startsWith('#')) {
+        // `"react@^18.2.0", react@^18.0.0:` or `"react@npm:^18.2.0":`
+        names = line.slice(0, -1).split(',').map(entry => {
+          const spec = entry.trim().replace(/^"|"$/g, '');
+          return spec.slice(0, spec.indexOf('@', 1));
+        });
+        continue;
+      }
+      const version = /^\s+version:?\s+"?([^"\s]+)"?/.exec(line);
+      if (version && names.length > 0) {
+        for (const name of new Set(names)) lock('npm', name, version[1], 'yarn.lock');
+        names = [];
+      }
+    }
+  }
+
+  const pnpmLock = readText(join(root, 'pnpm-lock.yaml'));
+  if (pnpmLock) {
+    for (const [name, version] of readPnpmRootDependencies(pnpmLock)) {
+      lock('npm', name, version, 'pnpm-lock.yaml');
+    }
+  }
+}
+
+/**
+ * Versions of the root project's dependencies in a pnpm lockfile: the `.`
+ * importer in lockfile v6+, the top-level dependency maps before that
+ */
+function readPnpmRootDependencies(content: string): Array<[string, string]> {
+  const result: Array<[string, string]> = [];
+  const lines = content.split('\n');
+  const hasImporters = lines.some(line => line === 'importers:');
+  let inRoot = !hasImporters;
+  let depsIndent = -1;
+  let pending: string | null = null;
+
+  for (const line of lines) {
+    if (line.trim() === '' || line.trim().startsWith('#')) continue;
+    const indent = line.length - line.trimStart().length;
+    const text = line.trim();
+
+    if (hasImporters && indent === 2) {
+      inRoot = text === '.:' || text === "'.':";
+      depsIndent = -1;
+      continue;
+    }
+    if (!hasImporters && indent === 0) {
+      depsIndent = -1;
+    }
+    if (!inRoot || (hasImporters && indent < 2)) continue;
+
+    if (/^(dependencies|devDependencies|optionalDependencies):$/.test(text)) {
+      depsIndent = indent;
+      pending = null;
+      continue;
+    }
+    if (depsIndent < 0 || indent <= depsIndent) {
+      depsIndent = -1;
+      continue;
+    }
+
+    const entry = /^'?([^':]+)'?:\s*(.*)$/.exec(text);
+    if (!entry) continue;
+    if (indent === depsIndent + 2) {
+      if (entry[2]) {
+        result.push([entry[1], entry[2]]);
+      } else {
+        pending = entry[1];
+      }
+    } else if (pending && entry[1] === 'version') {
+      result.push([pending, entry[2]]);
+      pending = null;
+    }
+  }
+
+  // Strip peer suffixes such as 18.2.0(react@18.2.0) and skip linked packages
+  return result
+    .map(([name, version]): [string, string] => [name, version.replace(/^'|'$/g, '').replace(/\(.*$/, '')])
+    .filter(([, version]) => !version.startsWith('link:'));
+}
+
+function readPythonVersions(root: string, add: AddVersion, lock: AddVersion): void {
+  const pyproject = readText(join(root, 'pyproject.toml'));
+  if (!pyproject) return;
+
+  let table = '';
+  let inDependencies = false;
+  for (const rawLine of pyproject.split('\n')) {
+    const line = rawLine.replace(/\s+#.*$/, '').trim();
+    const header = /^\[+([^\]]+)\]+$/.exec(line);
+    if (header) {
+      table = header[1].trim();
+      inDependencies = false;
+      continue;
+    }
+
+    if (table === 'project') {
+      const requiresPython = /^requires-python\s*=\s*["']([^"']+)["']/.exec(line);
+      if (requiresPython) add('runtime', 'python', requiresPython[1], 'pyproject.toml');
+
+      // PEP 621 dependency arrays, on one line or spread over several
+      if (/^dependencies\s*=\s*\[/.test(line)) inDependencies = true;
+      if (inDependencies) {
+        for (const [, requirement] of line.matchAll(/["']([^"']+)["']/g)) {
+          const parsed = /^([A-Za-z0-9][A-Za-z0-9._-]*)\s*(?:\[[^\]]*\])?\s*([^;]*)/.exec(requirement);
+          if (parsed?.[2].trim()) add('python', normalizePythonName(parsed[1]), parsed[2].trim(), 'pyproject.toml');
+        }
+        // Brackets inside quoted requirements are extras, not the end of the array
+        if (line.replace(/["'][^"']*["']/g, '').includes(']')) inDependencies = false;
+      }
+    } else if (/^tool\.poetry(\.group\.[^.]+)?\.(dev-)?dependencies$/.test(table)) {
+      // name = "^4.2" or name = { version = "^4.2", extras = [...] }
+      const entry = /^([A-Za-z0-9][A-Za-z0-9._-]*)\s*=\s*(?:["']([^"']+)["']|\{.*\bversion\s*=\s*["']([^"']+)["'])/.exec(line);
+      if (entry) {
+        const name = normalizePythonName(entry[1]);
+        add(name === 'python' ? 'runtime' : 'python', name, entry[2] ?? entry[3], 'pyproject.toml');
+      }
+    }
+  }
+
+  // poetry.lock and uv.lock share the [[package]] name/version layout
+  for (const file of ['poetry.lock', 'uv.lock']) {
+    const content = readText(join(root, file));
+    if (!content) continue;
+    for (const block of content.split(/^\[\[package\]\]\s*$/m).slice(1)) {
+      const name = /^name\s*=\s*"([^"]+)"/m.exec(block);
+      const version = /^version\s*=\s*"([^"]+)"/m.exec(block);
+      if (name && version) lock('python', normalizePythonName(name[1]), version[1], file);
+    }
+  }
+}
+
+function readGoVersions(root: string, add: AddVersion): void {
+  const goMod = readText(join(root, 'go.mod'));
+  if (!goMod) return;
+
+  let inRequire = false;
+  for (const rawLine of goMod.split('\n')) {
+    const line = rawLine.trim();
+    const directive = /^go\s+(\S+)$/.exec(line);
+    const toolchain = /^toolchain\s+go(\S+)$/.exec(line);
+    if (directive) add('runtime', 'go', directive[1], 'go.mod');
+    if (toolchain) add('runtime', 'go', toolchain[1], 'go.mod');
+
+    if (line === 'require (') {
+      inRequire = true;
+      continue;
+    }
+    if (inRequire && line === ')') {
+      inRequire = false;
+      continue;
+    }
+
+    const requirement = inRequire ? /^(\S+)\s+(v\S+)(.*)$/.exec(line) : /^require\s+(\S+)\s+(v\S+)(.*)$/.exec(line);
+    if (requirement && !requirement[3].includes('// indirect')) {
+      add('go', requirement[1], requirement[2], 'go.mod');
+    }
+  }
+}
+
+function readComposerVersions(root: string, add: AddVersion, lock: AddVersion): void {
+  const composer = readJson(join(root, 'composer.json'));
+  if (!composer) return;
+
+  for (const field of ['require', 'require-dev']) {
+    for (const [name, spec] of Object.entries(composer[field] ?? {})) {
+      if (typeof spec !== 'string') continue;
+      if (name === 'php') {
+        add('runtime', 'php', spec, 'composer.json');
+      } else if (name.includes('/')) {
+        add('composer', name, spec, 'composer.json');
+      }
+    }
+  }
+
+  const lockfile = readJson(join(root, 'composer.lock'));
+  for (const entry of [...(lockfile?.packages ?? []), ...(lockfile?.['packages-dev'] ?? [])]) {
+    if (typeof entry?.name === 'string' && typeof entry.version === 'string') {
+      lock('composer', entry.name, entry.version, 'composer.lock');
+    }
+  }
+}
+
+/** PEP 503 normalized name */
+function normalizePythonName(name: string): string {
+  return name.toLowerCase().replace(/[-_.]+/g, '-');
+}
+
+function readJson(path: string): any {
+  const content = readText(path);
+  if (!content) return null;
+  try {
+    return JSON.parse(content);
+  } catch {
+    return null;
+  }
+}
+
+function readText(path: string): string | null {
+  try {
+    return existsSync(path) ? readFileSync(path, 'utf-8') : null;
+  } catch {
+    return null;
+  }
+}
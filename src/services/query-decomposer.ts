@@ -3,8 +3,14 @@
  * 
  * This service breaks down complex queries into sub-questions
  * and generates follow-up questions based on retrieved context.
+ * 
+ * `QueryDecomposer` uses the configured LLM provider; the plain
+ * functions below are heuristics kept as the offline fallback.
  */
 
+import { getLLMProvider, type LLMProvider } from '../adapters/llm/index.js';
+import type { TokenUsage } from '../types/llmProvider.js';
+
 export interface SubQuestion {
   question: string;
   reasoning: string;
@@ -13,13 +19,20 @@ export interface SubQuestion {
 export interface FollowUpQuestion {
   query: string;
   reasoning: string;
+  /** Entity or concept the follow-up is meant to cover */
+  targetEntity?: string;
+}
+
+export interface RetrievalContext {
+  question: string;
+  chunks: any[];
+  iteration?: number;
 }
 
 /**
  * Decompose a complex query into sub-questions
  * 
- * For now, uses simple heuristics. In the future, this could use
- * an LLM to intelligently decompose queries.
+ * Heuristic version: splits on "and"/commas and repeated question marks.
  */
 export function decomposeQuery(query: string): string[] {
   // Simple heuristic: split by "and" or commas if they appear to separate distinct questions
@@ -47,10 +60,8 @@ export function decomposeQuery(query: string): string[] {
 /**
  * Generate follow-up questions based on retrieved context and original query
  * 
- * This is a placeholder for a more sophisticated implementation that would:
- * 1. Analyze gaps in the retrieved context
- * 2. Identify entities or concepts that need more detail
- * 3. Generate targeted follow-up queries
+ * Heuristic version: only fires when very little was retrieved. See
+ * `QueryDecomposer.generateFollowUps` for gap analysis.
  */
 export function generateFollowUps(
   originalQuery: string,
@@ -107,3 +118,241 @@ export function assessConfidence(
   
   return Math.min(baseConfidence + iterationBonus, 1.0);
 }
+
+export interface QueryDecomposerOptions {
+  /** Upper bound on sub-questions returned by decompose() */
+  maxSubQuestions: number;
+  /** Characters of each chunk shown to the model during gap analysis */
+  chunkPreviewChars: number;
+  /** Maximum chunks shown to the model during gap analysis */
+  maxContextChunks: number;
+  maxTokens: number;
+  temperature: number;
+  /** Called after each LLM call with its estimated token usage */
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+export const DEFAULT_DECOMPOSER_OPTIONS: QueryDecomposerOptions = {
+  maxSubQuestions: 5,
+  chunkPreviewChars: 300,
+  maxContextChunks: 15,
+  maxTokens: 800,
+  temperature: 0.2,
+};
+
+/**
+ * LLM-driven query decomposer
+ * 
+ * Falls back to the heuristics above whenever no provider is configured,
+ * the request fails, or the response cannot be parsed.
+ */
+export class QueryDecomposer {
+  private llm: LLMProvider | null;
+  private options: QueryDecomposerOptions;
+
+  constructor(llm?: LLMProvider | null, options?: Partial<QueryDecomposerOptions>) {
+    this.llm = llm === undefined ? getLLMProvider() : llm;
+    this.options = { ...DEFAULT_DECOMPOSER_OPTIONS, ...options };
+  }
+
+  /**
+   * Break a query into independently answerable sub-questions
+   */
+  async decompose(query: string): Promise<SubQuestion[]> {
+    const prompt = `Break the following question into the smallest set of self-contained sub-questions that must each be answered by searching a knowledge base before the original question can be answered.
+
+Rules:
+- If the question is already simple (single hop), return it unchanged as the only sub-question.
+- Each sub-question must make sense on its own: replace pronouns with the entities they refer to.
+- For multi-hop questions, order sub-questions so earlier answers feed later ones.
+- Return at most ${this.options.maxSubQuestions} sub-questions.
+
+Question: ${query}
+
+Respond with JSON only:
+{"subQuestions": [{"question": "...", "reasoning": "why this must be looked up"}]}`;
+
+    const parsed = await this.requestJson<{ subQuestions?: Array<Partial<SubQuestion>> }>(prompt);
+    const subQuestions = (parsed?.subQuestions ?? [])
+      .filter((s): s is SubQuestion => typeof s?.question === 'string' && s.question.trim().length > 0)
+      .map(s => ({
+        question: s.question.trim(),
+        reasoning: typeof s.reasoning === 'string' ? s.reasoning : '',
+      }))
+      .slice(0, this.options.maxSubQuestions);
+
+    if (subQuestions.length === 0) {
+      return decomposeQuery(query).map(question => ({
+        question,
+        reasoning: 'Heuristic split (LLM decomposition unavailable)',
+      }));
+    }
+
+    return subQuestions;
+  }
+
+  /**
+   * Find gaps in the retrieved context and propose targeted follow-up queries
+   * 
+   * Returns an empty list when the model judges the context sufficient.
+   * Follow-ups without a target entity take the missing entity their query
+   * names, and missing entities no follow-up targets are searched by name.
+   */
+  async generateFollowUps(
+    originalQuery: string,
+    context: RetrievalContext[],
+    maxFollowUps: number = 3
+  ): Promise<FollowUpQuestion[]> {
+    const asked = new Set(context.map(c => normalizeQuery(c.question)));
+    const prompt = this.buildFollowUpPrompt(originalQuery, context, maxFollowUps);
+
+    const parsed = await this.requestJson<{
+      sufficient?: boolean;
+      missingEntities?: string[];
+      followUps?: Array<Partial<FollowUpQuestion>>;
+    }>(prompt);
+
+    if (!parsed) {
+      return generateFollowUps(originalQuery, context, maxFollowUps);
+    }
+
+    if (parsed.sufficient === true) {
+      return [];
+    }
+
+    const missingEntities = (parsed.missingEntities ?? [])
+      .filter((e): e is string => typeof e === 'string' && e.trim().length > 0)
+      .map(e => e.trim());
+
+    const followUps = (parsed.followUps ?? [])
+      .filter((f): f is FollowUpQuestion => typeof f?.query === 'string' && f.query.trim().length > 0)
+      .map(f => {
+        const query = f.query.trim();
+        return {
+          query,
+          reasoning: typeof f.reasoning === 'string' ? f.reasoning : '',
+          targetEntity: typeof f.targetEntity === 'string'
+            ? f.targetEntity
+            : missingEntities.find(e => query.toLowerCase().includes(e.toLowerCase())),
+        };
+      });
+
+    const targeted = new Set(followUps.map(f => f.targetEntity?.toLowerCase()));
+    for (const entity of missingEntities) {
+      if (!targeted.has(entity.toLowerCase())) {
+        followUps.push({ query: entity, reasoning: 'Not explained by the retrieved excerpts', targetEntity: entity });
+        targeted.add(entity.toLowerCase());
+      }
+    }
+
+    return followUps
+      .filter(f => !asked.has(normalizeQuery(f.query)))
+      .slice(0, maxFollowUps);
+  }
+
+  private buildFollowUpPrompt(
+    originalQuery: string,
+    context: RetrievalContext[],
+    maxFollowUps: number
+  ): string {
+    const seen = new Set<string>();
+    const previews: string[] = [];
+
+    for (const step of context) {
+      for (const chunk of step.chunks) {
+        if (previews.length >= this.options.maxContextChunks) break;
+        if (!chunk?.content || seen.has(chunk.id)) continue;
+        seen.add(chunk.id);
+        const source = chunk.metadata?.source ? ` (${chunk.metadata.source})` : '';
+        previews.push(`- ${chunk.content.substring(0, this.options.chunkPreviewChars).replace(/\s+/g, ' ')}${source}`);
+      }
+    }
+
+    const askedQueries = context.map(c => `- ${c.question}`).join('\n');
+
+    return `You are reviewing search results gathered to answer a question, looking for gaps.
+
+## Original question
+${originalQuery}
+
+## Searches already run
+${askedQueries || '- (none)'}
+
+## Retrieved excerpts
+${previews.join('\n') || '- (nothing retrieved)'}
+
+Identify entities, components, or concepts that the question depends on but that the excerpts do not explain. For each gap, write a search query that targets the missing entity directly (use exact names, identifiers, and terms that would appear in documentation). Do not repeat searches already run. Propose at most ${maxFollowUps} queries.
+
+If the excerpts already contain everything needed, set "sufficient" to true and return no follow-ups.
+
+Respond with JSON only:
+{"sufficient": false, "missingEntities": ["..."], "followUps": [{"query": "...", "reasoning": "what gap this fills", "targetEntity": "..."}]}`;
+  }
+
+  private async requestJson<T>(prompt: string): Promise<T | null> {
+    if (!this.llm) return null;
+
+    try {
+      const messages = [
+        {
+          role: 'system' as const,
+          content: 'You plan searches for a retrieval system. Always respond with valid JSON matching the requested schema, without markdown code fences.',
+        },
+        { role: 'user' as const, content: prompt },
+      ];
+      const response = await this.llm.chat(messages, {
+        maxTokens: this.options.maxTokens,
+        temperature: this.options.temperature,
+        jsonMode: true,
+      });
+
+      this.options.onUsage?.(estimateUsage(messages.map(m => m.content).join('\n'), response.content));
+      return parseJsonObject<T>(response.content);
+    } catch {
+      return null;
+    }
+  }
+}
+
+/**
+ * Estimate token usage at ~4 characters per token
+ */
+function estimateUsage(prompt: string, completion: string): TokenUsage {
+  const promptTokens = Math.ceil(prompt.length / 4);
+  const completionTokens = Math.ceil(completion.length / 4);
+  return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+}
+
+function normalizeQuery(query: string): string {
+  return query.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+/**
+ * Parse a JSON object from an LLM response, tolerating code fences and prose
+ */
+function parseJsonObject<T>(content: string): T | null {
+  let cleaned = content.trim();
+  const fenced = cleaned.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
+  if (fenced) {
+    cleaned = fenced[1];
+  }
+
+  try {
+    return JSON.parse(cleaned) as T;
+  } catch {
+    const objectMatch = cleaned.match(/\{[\s\S]*\}/);
+    if (!objectMatch) return null;
+    try {
+      return JSON.parse(objectMatch[0]) as T;
+    } catch {
+      return null;
+    }
+  }
+}
+
+export function createQueryDecomposer(
+  llm?: LLMProvider | null,
+  options?: Partial<QueryDecomposerOptions>
+): QueryDecomposer {
+  return new QueryDecomposer(llm, options);
+}
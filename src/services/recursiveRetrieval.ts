@@ -11,11 +11,16 @@
  * - Cost tracking across iterations
  * - Early termination on budget/iteration limits
  * - Support for both simple and complex queries
+ * - RLM safeguards: per-model iteration and sub-call limits, strategy choice
+ *   by model capability, an output token budget that reserves room for the
+ *   answer, multi-signal answer validation and a circuit breaker that stops
+ *   runaway loops after repeated failed steps
  */
 
 import type { EnhancedChunk } from '../types/memory.js';
 import type { EnhancedSearchOptions } from '../types/memory.js';
-import type { SearchResult } from '../types/index.js';
+import type { SearchOptions, SearchResult } from '../types/index.js';
+import type { LLMProvider } from '../types/llmProvider.js';
 import {
   ContextEnvironment,
   createContextEnvironment,
@@ -27,6 +32,13 @@ import {
   TimeoutError,
 } from './contextEnvironment.js';
 import { HybridScorer, getHybridScorer } from './hybridScorer.js';
+import {
+  RLMSafeguards,
+  createRLMSafeguards,
+  CircuitOpenError,
+  type RetrievalStrategy,
+  type CircuitBreakerState,
+} from './rlmSafeguards.js';
 
 export interface RetrievalConfig {
   initialRetrievalK: number;
@@ -39,6 +51,8 @@ export interface RetrievalConfig {
     moderateMaxContext: number;
   };
   enableHybridScoring: boolean;
+  /** Model the safeguard limits are taken from (matched against `MODEL_CONFIGS`) */
+  modelName: string;
 }
 
 export const DEFAULT_RETRIEVAL_CONFIG: RetrievalConfig = {
@@ -52,23 +66,57 @@ export const DEFAULT_RETRIEVAL_CONFIG: RetrievalConfig = {
     moderateMaxContext: 200000,
   },
   enableHybridScoring: true,
+  modelName: 'default',
 };
 
+/**
+ * Text-based search used instead of embedding the query and calling the
+ * vector store directly, e.g. hybrid vector + keyword search with filters
+ */
+export type QueryRetriever = (query: string, topK: number) => Promise<SearchResult[]>;
+
 export interface RetrieveOptions {
   searchOptions?: Partial<EnhancedSearchOptions>;
-  forceStrategy?: 'direct' | 'recursive';
+  forceStrategy?: RetrievalStrategy;
+  /** Set to false when no LLM can drive recursion; `recursive` choices become `iterative` */
+  allowRecursive?: boolean;
   seedChunkIds?: string[];
+  retriever?: QueryRetriever;
+  /** Queries for the initial retrieval (e.g. decomposed sub-questions); defaults to the query itself */
+  initialQueries?: string[];
 }
 
 export interface RetrievalResult {
+  /**
+   * `direct` and `iterative` return the initial retrieval without LLM
+   * iterations; callers may run follow-up searches for `iterative`
+   */
   chunks: EnhancedChunk[];
-  strategy: 'direct' | 'recursive';
+  strategy: RetrievalStrategy;
   iterations: number;
   cost: number;
   answer?: string;
   executionLog?: ExecutionStep[];
   complexity?: 'simple' | 'moderate' | 'complex';
   terminationReason?: string;
+  safeguards: SafeguardReport;
+}
+
+/**
+ * Limits applied to a retrieval and how much of them was used
+ */
+export interface SafeguardReport {
+  model: string;
+  maxIterations: number;
+  maxSubCalls: number;
+  /** Output tokens spent on planning and sub-queries */
+  thinkingTokensUsed: number;
+  maxThinkingTokens: number;
+  /** Output tokens kept back for the final answer */
+  reservedForAnswer: number;
+  circuitBreaker: CircuitBreakerState;
+  /** Answers rejected by the termination detector, e.g. plans posing as answers */
+  rejectedAnswers: number;
 }
 
 export type ComplexityLevel = 'simple' | 'moderate' | 'complex';
@@ -79,8 +127,18 @@ export interface RetrievalAction {
   reasoning?: string;
 }
 
+/**
+ * Thrown inside a guarded step when the termination detector rejects an answer
+ */
+class RejectedAnswerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RejectedAnswerError';
+  }
+}
+
 interface VectorStoreInterface {
-  search(embedding: number[], options: { topK: number; filter?: Record<string, unknown> }): Promise<SearchResult[]>;
+  search(embedding: number[], options: SearchOptions): Promise<SearchResult[]>;
   enhancedSearch?(embedding: number[], options: EnhancedSearchOptions): Promise<EnhancedChunk[]>;
 }
 
@@ -124,13 +182,7 @@ export class RecursiveRetrievalController {
    */
   async retrieve(query: string, options?: RetrieveOptions): Promise<RetrievalResult> {
     // Step 1: Initial retrieval
-    const embedding = await this.embeddings.embed(query);
-    const searchOptions = {
-      topK: this.config.initialRetrievalK,
-      ...options?.searchOptions,
-    };
-
-    const rawResults = await this.vectorStore.search(embedding, searchOptions);
+    const rawResults = await this.initialRetrieval(query, options);
     
     // Convert SearchResult[] to EnhancedChunk[]
     const initialChunks = this.convertToEnhancedChunks(rawResults);
@@ -160,35 +212,32 @@ export class RecursiveRetrievalController {
       });
     }
 
-    // Step 2: Check for forced strategy
-    if (options?.forceStrategy === 'direct') {
-      return {
-        chunks: scoredChunks,
-        strategy: 'direct',
-        iterations: 1,
-        cost: 0,
-        complexity: 'simple',
-      };
-    }
-
-    // Step 3: Assess complexity
+    // Step 2: Assess complexity and choose a strategy the model can handle
+    const safeguards = createRLMSafeguards(this.config.modelName);
+    const modelConfig = safeguards.getModelConfig();
+    const maxIterations = Math.max(1, Math.min(this.config.maxIterations, modelConfig.maxIterations));
     const complexity = this.assessComplexity(query, scoredChunks);
 
-    if (options?.forceStrategy === 'recursive') {
-      // Force recursive even for simple queries
-    } else if (complexity === 'simple') {
+    let strategy = options?.forceStrategy ?? safeguards.chooseStrategy(complexity);
+    if (strategy === 'recursive' && !options?.forceStrategy && options?.allowRecursive === false) {
+      strategy = 'iterative';
+    }
+
+    if (strategy !== 'recursive') {
       return {
         chunks: scoredChunks,
-        strategy: 'direct',
+        strategy,
         iterations: 1,
         cost: 0,
         complexity,
+        safeguards: this.buildSafeguardReport(safeguards, maxIterations, 0),
       };
     }
 
-    // Step 4: Complex query - use RLM-style processing
+    // Step 3: RLM-style processing within the model's limits
     const envConfig: Partial<EnvironmentConfig> = {
-      maxIterations: this.config.maxIterations,
+      maxIterations,
+      maxSubCalls: modelConfig.maxSubCalls,
       costBudget: this.config.costBudget,
       timeoutMs: this.config.timeoutMs,
       enableAsyncSubCalls: this.config.enableRecursiveSubCalls,
@@ -197,7 +246,7 @@ export class RecursiveRetrievalController {
     const env = createContextEnvironment(envConfig);
     env.loadContext(scoredChunks);
 
-    const result = await this.iterativeProcess(query, env);
+    const result = await this.iterativeProcess(query, env, safeguards, maxIterations, options?.retriever);
     
     return {
       ...result,
@@ -205,6 +254,33 @@ export class RecursiveRetrievalController {
     };
   }
 
+  /**
+   * Run the initial queries and merge their results, keeping each chunk's best score
+   */
+  private async initialRetrieval(query: string, options?: RetrieveOptions): Promise<SearchResult[]> {
+    const queries = options?.initialQueries?.length ? options.initialQueries : [query];
+    const searchOptions = {
+      topK: this.config.initialRetrievalK,
+      ...options?.searchOptions,
+    };
+
+    const merged = new Map<string, SearchResult>();
+    for (const q of queries) {
+      const results = options?.retriever
+        ? await options.retriever(q, searchOptions.topK)
+        : await this.vectorStore.search(await this.embeddings.embed(q), searchOptions);
+
+      for (const result of results) {
+        const existing = merged.get(result.id);
+        if (!existing || result.score > existing.score) {
+          merged.set(result.id, result);
+        }
+      }
+    }
+
+    return Array.from(merged.values()).sort((a, b) => b.score - a.score);
+  }
+
   /**
    * Assess query complexity to decide strategy
    * Based on RLM paper: "more complex problems exhibit degradation at shorter lengths"
@@ -246,36 +322,60 @@ export class RecursiveRetrievalController {
    */
   private async iterativeProcess(
     query: string,
-    env: ContextEnvironment
+    env: ContextEnvironment,
+    safeguards: RLMSafeguards,
+    maxIterations: number,
+    retriever?: QueryRetriever
   ): Promise<RetrievalResult> {
     let iteration = 0;
     let answer: string | undefined;
     let terminationReason: string | undefined;
+    let rejectedAnswers = 0;
+    let lastFailure: string | undefined;
 
-    while (iteration < this.config.maxIterations) {
-      iteration++;
-      env.markIteration(iteration);
-
-      // Check termination conditions
+    while (iteration < maxIterations) {
+      // Check termination conditions before starting another iteration
       const termCheck = env.shouldTerminate();
       if (termCheck.terminate) {
         terminationReason = termCheck.reason;
         break;
       }
+      if (safeguards.getRemainingThinkingTokens() <= 0) {
+        terminationReason = 'Token budget exhausted';
+        break;
+      }
 
-      try {
-        // Get next action from LLM
-        const action = await this.getNextAction(query, env, iteration);
+      iteration++;
+      env.markIteration(iteration);
 
-        if (action.type === 'answer') {
-          answer = action.params.value as string;
+      try {
+        // Each step runs through the circuit breaker, so repeated failures
+        // or rejected answers stop the loop instead of burning iterations
+        const accepted = await safeguards.guard(async () => {
+          const { action, response } = await this.getNextAction(query, env, iteration, safeguards);
+
+          if (action.type !== 'answer') {
+            await this.executeAction(action, env, query, safeguards, retriever);
+            return undefined;
+          }
+
+          const check = safeguards.checkResponse(response, query);
+          if (!check.terminate) {
+            throw new RejectedAnswerError(`answer rejected (${check.reason.toLowerCase()})`);
+          }
+          return String(action.params.value ?? response);
+        });
+
+        if (accepted !== undefined) {
+          answer = accepted;
           terminationReason = 'Answer found';
           break;
         }
-
-        // Execute the action
-        await this.executeAction(action, env, query);
       } catch (error) {
+        if (error instanceof CircuitOpenError) {
+          terminationReason = this.circuitOpenReason(safeguards, lastFailure);
+          break;
+        }
         if (error instanceof BudgetExceededError) {
           terminationReason = 'Budget exceeded';
           break;
@@ -288,12 +388,21 @@ export class RecursiveRetrievalController {
           terminationReason = 'Timeout';
           break;
         }
-        throw error;
+        if (error instanceof RejectedAnswerError) {
+          rejectedAnswers++;
+        }
+
+        // Keep what was retrieved so far; the breaker decides when to give up
+        lastFailure = error instanceof Error ? error.message : String(error);
+        if (safeguards.getState().circuitBreakerState === 'open') {
+          terminationReason = this.circuitOpenReason(safeguards, lastFailure);
+          break;
+        }
       }
     }
 
-    if (!terminationReason && iteration >= this.config.maxIterations) {
-      terminationReason = 'Max iterations reached';
+    if (!terminationReason && iteration >= maxIterations) {
+      terminationReason = lastFailure ? `Max iterations reached (last failure: ${lastFailure})` : 'Max iterations reached';
     }
 
     // Collect relevant chunks from the environment
@@ -307,6 +416,30 @@ export class RecursiveRetrievalController {
       answer,
       executionLog: env.getExecutionLog(),
       terminationReason,
+      safeguards: this.buildSafeguardReport(safeguards, maxIterations, rejectedAnswers),
+    };
+  }
+
+  private circuitOpenReason(safeguards: RLMSafeguards, lastFailure?: string): string {
+    const failures = safeguards.getState().consecutiveFailures;
+    return `Circuit breaker open after ${failures} consecutive failed steps${lastFailure ? ` (last: ${lastFailure})` : ''}`;
+  }
+
+  private buildSafeguardReport(
+    safeguards: RLMSafeguards,
+    maxIterations: number,
+    rejectedAnswers: number
+  ): SafeguardReport {
+    const state = safeguards.getState();
+    return {
+      model: this.config.modelName,
+      maxIterations,
+      maxSubCalls: safeguards.getModelConfig().maxSubCalls,
+      thinkingTokensUsed: state.tokenBudget.currentUsed,
+      maxThinkingTokens: state.tokenBudget.maxThinkingTokens,
+      reservedForAnswer: state.tokenBudget.reservedForAnswer,
+      circuitBreaker: state.circuitBreakerState,
+      rejectedAnswers,
     };
   }
 
@@ -316,8 +449,9 @@ export class RecursiveRetrievalController {
   private async getNextAction(
     query: string,
     env: ContextEnvironment,
-    iteration: number
-  ): Promise<RetrievalAction> {
+    iteration: number,
+    safeguards: RLMSafeguards
+  ): Promise<{ action: RetrievalAction; response: string }> {
     const prompt = `You are processing a query using a context environment. Your goal is to find relevant information efficiently.
 
 ## Query
@@ -344,7 +478,10 @@ Based on the query and current state, decide your next action. Available actions
 4. **store** - Store intermediate findings
    \`{"type": "store", "params": {"variable": "findings", "value": "..."}}\`
 
-5. **answer** - Provide final answer if you have enough information
+5. **search** - Search the knowledge base again and load the results into a new variable
+   \`{"type": "search", "params": {"query": "token refresh flow", "topK": 10, "output": "refreshResults"}}\`
+
+6. **answer** - Provide final answer if you have enough information
    \`{"type": "answer", "params": {"value": "The answer based on the context is..."}}\`
 
 Respond with ONLY a JSON action:
@@ -358,12 +495,14 @@ Respond with ONLY a JSON action:
 
 Be efficient - filter first before examining everything. Use subQuery for semantic understanding.`;
 
-    const response = await this.llm.invoke(prompt, {
-      maxTokens: 1000,
+    const response = await env.withDeadline(this.llm.invoke(prompt, {
+      maxTokens: Math.min(1000, safeguards.getRemainingThinkingTokens()),
       temperature: 0.2,
-    });
+    }));
+    env.recordCost(prompt.length, response.length);
+    safeguards.recordThinking(response);
 
-    return this.parseAction(response);
+    return { action: this.parseAction(response), response };
   }
 
   /**
@@ -372,7 +511,9 @@ Be efficient - filter first before examining everything. Use subQuery for semant
   private async executeAction(
     action: RetrievalAction,
     env: ContextEnvironment,
-    query: string
+    query: string,
+    safeguards: RLMSafeguards,
+    retriever?: QueryRetriever
   ): Promise<void> {
     switch (action.type) {
       case 'peek': {
@@ -410,7 +551,10 @@ Be efficient - filter first before examining everything. Use subQuery for semant
         const chunks = env.getChunks(variable);
         
         if (chunks.length > 0) {
-          const response = await env.subQuery(this.subLlm, subQuery, chunks);
+          const maxTokens = Math.min(2000, safeguards.getRemainingThinkingTokens());
+          if (maxTokens <= 0) break;
+          const response = await env.subQuery(this.subLlm, subQuery, chunks, { maxTokens });
+          safeguards.recordThinking(response);
           const outputVar = (action.params.output as string) ?? '_lastSubQuery';
           env.store(outputVar, response);
         }
@@ -427,10 +571,11 @@ Be efficient - filter first before examining everything. Use subQuery for semant
       case 'search': {
         // Additional search with different parameters
         const searchQuery = (action.params.query as string) ?? query;
-        const embedding = await this.embeddings.embed(searchQuery);
         const topK = (action.params.topK as number) ?? 10;
         
-        const results = await this.vectorStore.search(embedding, { topK });
+        const results = retriever
+          ? await retriever(searchQuery, topK)
+          : await this.vectorStore.search(await this.embeddings.embed(searchQuery), { topK });
         const chunks = this.convertToEnhancedChunks(results);
         
         const outputVar = (action.params.output as string) ?? 'additionalResults';
@@ -559,6 +704,18 @@ Be efficient - filter first before examining everything. Use subQuery for semant
   }
 }
 
+/**
+ * Adapt an LLM provider to the `LLMService` interface the controller uses
+ */
+export function createProviderLLMService(provider: LLMProvider): LLMService {
+  return {
+    async invoke(prompt, options) {
+      const response = await provider.complete(prompt, options);
+      return response.content;
+    },
+  };
+}
+
 let instance: RecursiveRetrievalController | null = null;
 
 export function createRecursiveRetrievalController(
@@ -221,32 +221,27 @@ export interface ValidationResult {
  * Get model configuration, with fallback to default
  */
 export function getModelConfig(modelName: string): ModelConfig {
-  // Normalize model name
-  const normalized = modelName.toLowerCase();
-  
-  // Find matching config
-  for (const [key, config] of Object.entries(MODEL_CONFIGS)) {
-    if (normalized.includes(key)) {
-      return config;
-    }
-  }
-  
-  return MODEL_CONFIGS['default'];
+  const key = findModelKey(modelName, Object.keys(MODEL_CONFIGS));
+  return key ? MODEL_CONFIGS[key] : MODEL_CONFIGS['default'];
 }
 
 /**
  * Get model capabilities, with fallback to default
  */
 export function getModelCapabilities(modelName: string): ModelCapabilities {
+  const key = findModelKey(modelName, Object.keys(MODEL_CAPABILITIES));
+  return key ? MODEL_CAPABILITIES[key] : DEFAULT_MODEL_CAPABILITIES;
+}
+
+/**
+ * Find the longest table key contained in the model name, so that
+ * `gpt-4o-mini` matches its own entry rather than `gpt-4`
+ */
+function findModelKey(modelName: string, keys: string[]): string | undefined {
   const normalized = modelName.toLowerCase();
-  
-  for (const [key, capabilities] of Object.entries(MODEL_CAPABILITIES)) {
-    if (normalized.includes(key)) {
-      return capabilities;
-    }
-  }
-  
-  return DEFAULT_MODEL_CAPABILITIES;
+  return keys
+    .filter(key => normalized.includes(key))
+    .sort((a, b) => b.length - a.length)[0];
 }
 
 /**
@@ -481,6 +476,16 @@ export class TerminationDetector {
   }
 }
 
+/**
+ * Thrown by `CircuitBreaker.execute` while the circuit is open
+ */
+export class CircuitOpenError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CircuitOpenError';
+  }
+}
+
 /**
  * Circuit Breaker for runaway trajectories
  * Prevents excessive failures from consuming resources
@@ -498,13 +503,8 @@ export class CircuitBreaker {
   }
 
   async execute<T>(operation: () => Promise<T>): Promise<T> {
-    // Check if circuit is open
-    if (this.state === 'open') {
-      if (this.lastFailure && Date.now() - this.lastFailure.getTime() > this.resetTimeMs) {
-        this.state = 'half-open';
-      } else {
-        throw new Error('Circuit breaker is open - too many recent failures');
-      }
+    if (this.isOpen()) {
+      throw new CircuitOpenError('Circuit breaker is open - too many recent failures');
     }
 
     try {
@@ -530,6 +530,17 @@ export class CircuitBreaker {
     }
   }
 
+  /**
+   * Whether calls are currently refused; an open circuit moves to
+   * half-open (one trial call allowed) once the reset time has passed
+   */
+  isOpen(): boolean {
+    if (this.state === 'open' && this.lastFailure && Date.now() - this.lastFailure.getTime() > this.resetTimeMs) {
+      this.state = 'half-open';
+    }
+    return this.state === 'open';
+  }
+
   getState(): CircuitBreakerState {
     return this.state;
   }
@@ -802,6 +813,44 @@ export class RLMSafeguards {
     });
   }
 
+  /**
+   * Run an LLM-driven step through the circuit breaker
+   *
+   * Consecutive failed steps open the circuit, after which steps throw
+   * `CircuitOpenError` instead of running.
+   */
+  async guard<T>(operation: () => Promise<T>): Promise<T> {
+    return this.circuitBreaker.execute(operation);
+  }
+
+  /**
+   * Record model output spent on intermediate steps (~4 characters per token)
+   */
+  recordThinking(output: string): void {
+    this.tokenBudget.useTokens(Math.ceil(output.length / 4));
+  }
+
+  /**
+   * Output tokens left for intermediate steps before the answer reserve
+   */
+  getRemainingThinkingTokens(): number {
+    return this.tokenBudget.getRemainingThinkingTokens();
+  }
+
+  /**
+   * Output tokens kept back for the final answer
+   */
+  getReservedForAnswer(): number {
+    return this.tokenBudget.getReservedForAnswer();
+  }
+
+  /**
+   * Validate that an answer is a result rather than a plan
+   */
+  validateAnswer(answer: string, query: string): ValidationResult {
+    return this.terminationDetector.validateAnswer(answer, query);
+  }
+
   /**
    * Check response and update termination signals
    */
@@ -857,12 +906,14 @@ export class RLMSafeguards {
     tokenBudget: TokenBudget;
     terminationSignals: TerminationSignals;
     circuitBreakerState: CircuitBreakerState;
+    consecutiveFailures: number;
     cacheSize: number;
   } {
     return {
       tokenBudget: this.tokenBudget.getBudget(),
       terminationSignals: this.terminationDetector.getSignals(),
       circuitBreakerState: this.circuitBreaker.getState(),
+      consecutiveFailures: this.circuitBreaker.getFailures(),
       cacheSize: this.throttler.getCacheSize(),
     };
   }
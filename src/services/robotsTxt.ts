@@ -0,0 +1,114 @@
+/**
+ * robots.txt rules for one user agent
+ *
+ * Follows RFC 9309: the most specific matching group applies (falling back
+ * to `*`), the longest matching rule wins, and `Allow` wins ties. `*` and a
+ * trailing `$` are supported in paths. `Crawl-delay` and `Sitemap` lines are
+ * collected as well.
+ */
+export class RobotsTxt {
+  readonly sitemaps: string[];
+  readonly crawlDelaySeconds: number | null;
+  private rules: Array<{ allow: boolean; path: string; regex: RegExp }>;
+
+  private constructor(
+    rules: Array<{ allow: boolean; path: string }>,
+    crawlDelaySeconds: number | null,
+    sitemaps: string[]
+  ) {
+    this.rules = rules.map(rule => ({ ...rule, regex: pathPatternToRegExp(rule.path) }));
+    this.crawlDelaySeconds = crawlDelaySeconds;
+    this.sitemaps = sitemaps;
+  }
+
+  /**
+   * Parse robots.txt content for a user agent (e.g. `cursor-rag-crawler/1.0`)
+   */
+  static parse(content: string, userAgent: string): RobotsTxt {
+    const agentToken = userAgent.split('/')[0].toLowerCase();
+    const groups: Array<{ agents: string[]; rules: Array<{ allow: boolean; path: string }>; crawlDelay: number | null }> = [];
+    const sitemaps: string[] = [];
+    let current: (typeof groups)[number] | null = null;
+    let lastWasAgent = false;
+
+    for (const rawLine of content.split(/\r?\n/)) {
+      const line = rawLine.replace(/#.*$/, '').trim();
+      const separator = line.indexOf(':');
+      if (separator === -1) continue;
+
+      const field = line.slice(0, separator).trim().toLowerCase();
+      const value = line.slice(separator + 1).trim();
+
+      if (field === 'user-agent') {
+        // Consecutive user-agent lines share one group
+        if (!current || !lastWasAgent) {
+          current = { agents: [], rules: [], crawlDelay: null };
+          groups.push(current);
+        }
+        current.agents.push(value.toLowerCase());
+        lastWasAgent = true;
+        continue;
+      }
+
+      lastWasAgent = false;
+      if (field === 'sitemap') {
+        if (value) sitemaps.push(value);
+      } else if (current && (field === 'allow' || field === 'disallow')) {
+        // An empty Disallow allows everything and adds no rule
+        if (value) current.rules.push({ allow: field === 'allow', path: value });
+      } else if (current && field === 'crawl-delay') {
+        const delay = parseFloat(value);
+        if (!Number.isNaN(delay)) current.crawlDelay = delay;
+      }
+    }
+
+    const specific = groups.filter(g => g.agents.some(agent => agent !== '*' && agentToken.includes(agent)));
+    const matched = specific.length > 0 ? specific : groups.filter(g => g.agents.includes('*'));
+
+    return new RobotsTxt(
+      matched.flatMap(g => g.rules),
+      matched.map(g => g.crawlDelay).find(delay => delay !== null) ?? null,
+      sitemaps
+    );
+  }
+
+  /**
+   * Rules that allow everything, used when robots.txt is missing
+   */
+  static allowAll(): RobotsTxt {
+    return new RobotsTxt([], null, []);
+  }
+
+  /**
+   * Rules that disallow everything, used when robots.txt is unreachable
+   */
+  static disallowAll(): RobotsTxt {
+    return new RobotsTxt([{ allow: false, path: '/' }], null, []);
+  }
+
+  /**
+   * Whether a URL path (with query string) may be fetched
+   */
+  isAllowed(pathAndQuery: string): boolean {
+    if (pathAndQuery === '/robots.txt') return true;
+
+    let best: { allow: boolean; length: number } | null = null;
+    for (const rule of this.rules) {
+      if (!rule.regex.test(pathAndQuery)) continue;
+      const length = rule.path.length;
+      if (!best || length > best.length || (length === best.length && rule.allow)) {
+        best = { allow: rule.allow, length };
+      }
+    }
+    return best?.allow ?? true;
+  }
+}
+
+function pathPatternToRegExp(path: string): RegExp {
+  const anchored = path.endsWith('$');
+  const body = (anchored ? path.slice(0, -1) : path)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${body}${anchored ? '$' : ''}`);
+}
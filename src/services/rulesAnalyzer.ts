@@ -6,6 +6,7 @@
  */
 
 import { createHash } from 'crypto';
+import { dirname, sep } from 'path';
 import { createEmbedder, type Embedder } from '../adapters/embeddings/index.js';
 import { getLLMProvider, type LLMProvider } from '../adapters/llm/index.js';
 import type { RAGConfig } from '../types/index.js';
@@ -25,10 +26,13 @@ import type {
 import { DEFAULT_OPTIMIZER_OPTIONS } from '../types/rulesOptimizer.js';
 import { 
   loadRulesConfig, 
+  PROJECT_VERSION_CHECKS,
   type RulesAnalyzerConfig,
   type VersionCheck,
   type DeprecationPattern,
 } from '../config/rulesConfig.js';
+import { detectProjectVersions, findProjectRoot, findProjectVersion, type ProjectVersion } from './projectVersions.js';
+import { isOlderVersion } from './semver.js';
 
 /**
  * Cosine similarity between two vectors
@@ -50,6 +54,20 @@ function cosineSimilarity(a: number[], b: number[]): number {
   return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
 }
 
+/**
+ * Deepest directory containing all of the given directories
+ */
+function commonDirectory(dirs: string[]): string {
+  let common = dirs[0]!.split(sep);
+  for (const dir of dirs.slice(1)) {
+    const parts = dir.split(sep);
+    let i = 0;
+    while (i < common.length && common[i] === parts[i]) i++;
+    common = common.slice(0, i);
+  }
+  return common.join(sep) || sep;
+}
+
 /**
  * Jaccard similarity between two sets of tags
  */
@@ -61,6 +79,16 @@ function jaccardSimilarity(set1: Set<string>, set2: Set<string>): number {
   return intersection.size / union.size;
 }
 
+/**
+ * Common conflict patterns
+ */
+const CONFLICT_PATTERNS = [
+  { pattern: /\b(always|never|must|must not|do not|don't)\b/gi, type: 'directive' },
+  { pattern: /\bprefer\s+(\w+)\b/gi, type: 'preference' },
+  { pattern: /\buse\s+(\w+)\s+instead\s+of\s+(\w+)/gi, type: 'replacement' },
+  { pattern: /\bv?(\d+\.?\d*\.?\d*)\b/g, type: 'version' },
+];
+
 /**
  * Rules Analyzer for detecting duplicates, conflicts, and outdated patterns
  */
@@ -308,14 +336,6 @@ export class RulesAnalyzer {
   async findConflicts(rules: ParsedRule[]): Promise<RuleConflict[]> {
     const conflicts: RuleConflict[] = [];
 
-    // Common conflict patterns
-    const conflictPatterns = [
-      { pattern: /\b(always|never|must|must not|do not|don't)\b/gi, type: 'directive' },
-      { pattern: /\bprefer\s+(\w+)\b/gi, type: 'preference' },
-      { pattern: /\buse\s+(\w+)\s+instead\s+of\s+(\w+)/gi, type: 'replacement' },
-      { pattern: /\bv?(\d+\.?\d*\.?\d*)\b/g, type: 'version' },
-    ];
-
     for (let i = 0; i < rules.length; i++) {
       for (let j = i + 1; j < rules.length; j++) {
         const rule1 = rules[i]!;
@@ -326,7 +346,7 @@ export class RulesAnalyzer {
         if (tagOverlap < 0.3) continue;
 
         // Check for conflicting directives
-        const conflict = this.detectConflict(rule1, rule2, conflictPatterns);
+        const conflict = this.detectConflict(rule1, rule2, CONFLICT_PATTERNS);
         if (conflict) {
           conflicts.push(conflict);
         }
@@ -336,6 +356,14 @@ export class RulesAnalyzer {
     return conflicts;
   }
 
+  /**
+   * Check two rules for conflicting directives without requiring a shared
+   * topic, e.g. because both apply to the same files
+   */
+  compareRules(rule1: ParsedRule, rule2: ParsedRule): RuleConflict | null {
+    return this.detectConflict(rule1, rule2, CONFLICT_PATTERNS);
+  }
+
   /**
    * Find potentially outdated rules
    * 
@@ -343,13 +371,20 @@ export class RulesAnalyzer {
    * - File age (configurable maxAgeDays)
    * - Old year references (configurable oldYearThreshold)
    * - User-defined version checks
+   * - Framework and runtime versions of the analyzed project (analysis.projectVersions)
    * - User-defined deprecation patterns
    */
-  findOutdatedRules(rules: ParsedRule[]): OutdatedRule[] {
+  findOutdatedRules(
+    rules: ParsedRule[],
+    options: { projectRoot?: string; projectVersions?: boolean } = {}
+  ): OutdatedRule[] {
     const outdated: OutdatedRule[] = [];
     const { maxAgeDays, oldYearThreshold } = this.rulesConfig.analysis;
-    const versionChecks = this.rulesConfig.versionChecks.filter(v => v.enabled);
     const deprecationPatterns = this.rulesConfig.deprecationPatterns.filter(d => d.enabled);
+    const projectVersions = (options.projectVersions ?? this.rulesConfig.analysis.projectVersions)
+      ? this.loadProjectVersions(rules, options.projectRoot ?? this.rulesConfig.analysis.projectRoot)
+      : new Map<string, ProjectVersion>();
+    const versionChecks = this.resolveVersionChecks(projectVersions);
 
     for (const rule of rules) {
       const outdatedReferences: OutdatedRule['outdatedReferences'] = [];
@@ -379,22 +414,22 @@ export class RulesAnalyzer {
         }
       }
 
-      // Check user-defined version patterns
-      for (const check of versionChecks) {
+      // Check version mentions against configured and project versions
+      for (const { check, currentVersion, source } of versionChecks) {
         try {
           const regex = new RegExp(check.pattern, 'gi');
-          const match = regex.exec(rule.content);
-          if (match?.[1]) {
-            const mentionedVersion = parseFloat(match[1]);
-            const currentVersion = parseFloat(check.currentVersion);
-            
-            if (mentionedVersion < currentVersion) {
+          let match;
+          while ((match = regex.exec(rule.content)) !== null) {
+            if (match[0] === '') regex.lastIndex++;
+            if (match[1] && isOlderVersion(match[1], currentVersion)) {
               outdatedReferences.push({
                 reference: `${check.name} ${match[1]}`,
-                currentVersion: check.currentVersion,
-                suggestedUpdate: `${check.name} ${check.currentVersion}`,
+                currentVersion,
+                suggestedUpdate: `${check.name} ${currentVersion}`,
+                ...(source && { source }),
               });
               maxConfidence = Math.max(maxConfidence, 0.8);
+              break; // Only flag once per check
             }
           }
         } catch {
@@ -441,6 +476,41 @@ export class RulesAnalyzer {
     return outdated.sort((a, b) => b.confidence - a.confidence);
   }
 
+  /**
+   * Enabled version checks with the version each one compares against.
+   * Checks naming a package take its version from the project when it
+   * declares one; built-in framework checks run only for declared packages.
+   */
+  private resolveVersionChecks(
+    projectVersions: Map<string, ProjectVersion>
+  ): Array<{ check: VersionCheck; currentVersion: string; source?: string }> {
+    const configured = this.rulesConfig.versionChecks.filter(v => v.enabled);
+    const names = new Set(configured.map(v => v.name.toLowerCase()));
+    const checks = [
+      ...configured,
+      ...PROJECT_VERSION_CHECKS.filter(v => !names.has(v.name.toLowerCase())),
+    ];
+
+    return checks.flatMap(check => {
+      const detected = check.package ? findProjectVersion(projectVersions, check.package) : undefined;
+      if (detected) {
+        return [{ check, currentVersion: detected.version, source: detected.source }];
+      }
+      return check.currentVersion ? [{ check, currentVersion: check.currentVersion }] : [];
+    });
+  }
+
+  /**
+   * Versions of the project the rules belong to: the configured project root,
+   * or the nearest directory above the rules' common folder with a manifest
+   */
+  private loadProjectVersions(rules: ParsedRule[], projectRoot?: string): Map<string, ProjectVersion> {
+    if (!projectRoot && rules.length === 0) return new Map();
+
+    const root = projectRoot ?? findProjectRoot(commonDirectory(rules.map(r => dirname(r.sourceFile.path))));
+    return root ? detectProjectVersions(root) : new Map();
+  }
+
   /**
    * Generate merge candidates from clusters and duplicates
    */
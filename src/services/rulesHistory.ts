@@ -0,0 +1,436 @@
+/**
+ * Rules Optimizer History
+ *
+ * Every applied optimizer run writes a backup set: a directory named after
+ * the run ID that holds a copy of each file the run touches and a manifest
+ * with the run's file changes, token counts and, when the run produced one,
+ * its optimization report. Backup sets are never overwritten, so any past
+ * run can be listed, diffed against the files it replaced or rolled back.
+ * A restore writes a backup set of its own, which makes it undoable too.
+ */
+
+import { copyFileSync, existsSync, mkdirSync, readFileSync, readdirSync, rmSync, writeFileSync } from 'fs';
+import { dirname, join, relative, resolve } from 'path';
+import type { FileChange, OptimizationReport } from '../types/rulesOptimizer.js';
+
+export const RULES_BACKUP_VERSION = 1;
+export const RULES_BACKUP_MANIFEST = 'manifest.json';
+
+const FILES_DIR = 'files';
+
+/** Copies get an extension the rules parser skips, so backups inside a rules folder are never analyzed as rules */
+const BACKUP_EXTENSION = '.bak';
+
+const DIFF_CONTEXT_LINES = 3;
+
+export type RulesRunCommand = 'optimize' | 'merge' | 'rewrite' | 'auto-optimize' | 'restore';
+
+export class RulesHistoryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RulesHistoryError';
+  }
+}
+
+/**
+ * A file change as recorded in a backup set. The original content lives in
+ * the copy at `backupPath` (relative to the set) rather than in the manifest.
+ */
+export interface RulesBackupChange extends Omit<FileChange, 'originalContent'> {
+  /** Whether the file existed before the run; restoring removes files the run created */
+  existed: boolean;
+}
+
+export interface RulesBackupManifest {
+  version: number;
+  id: string;
+  command: RulesRunCommand;
+  createdAt: string;
+  /** Rules folder the run worked on */
+  folder: string;
+  tokensBefore: number;
+  tokensAfter: number;
+  changes: RulesBackupChange[];
+  /** Report the run applied; merge and rewrite runs carry their analysis report when they have one */
+  report?: OptimizationReport;
+  /** Set once the run has been rolled back */
+  restoredAt?: string;
+  /** Backup set written by that restore */
+  restoreId?: string;
+}
+
+export interface RulesRunSummary {
+  id: string;
+  command: RulesRunCommand;
+  createdAt: Date;
+  folder: string;
+  files: number;
+  tokensBefore: number;
+  tokensAfter: number;
+  tokensSaved: number;
+  restoredAt: Date | null;
+}
+
+export interface CreateRulesBackupOptions {
+  command: RulesRunCommand;
+  folder: string;
+  changes: FileChange[];
+  report?: OptimizationReport;
+  /** Token counts of the run; estimated from the file contents when left out */
+  tokensBefore?: number;
+  tokensAfter?: number;
+}
+
+export interface RulesRestoreOptions {
+  /** Restore only these files (absolute, or relative to the run's folder) */
+  paths?: string[];
+  /** Report what would be restored without touching any file */
+  dryRun?: boolean;
+}
+
+export interface RulesRestoreResult {
+  runId: string;
+  dryRun: boolean;
+  /** Files written back with their original content */
+  restored: string[];
+  /** Files the run created, removed again */
+  removed: string[];
+  /** Backup set holding the files as they were before the restore (null on a dry run) */
+  backupId: string | null;
+}
+
+export interface RulesFileDiff {
+  path: string;
+  changeType: FileChange['changeType'];
+  /** Unified diff; empty when the file is unchanged */
+  diff: string;
+}
+
+/**
+ * Copy the files a run is about to change into a new backup set and write
+ * its manifest. Call before touching any file.
+ */
+export function createRulesBackup(backupDir: string, options: CreateRulesBackupOptions): RulesBackupManifest {
+  const id = newRunId(backupDir);
+  const setDir = join(backupDir, id);
+  mkdirSync(join(setDir, FILES_DIR), { recursive: true });
+
+  // One entry per file; a later change to the same file describes its final state
+  const byPath = new Map<string, FileChange>();
+  for (const change of options.changes) {
+    byPath.set(resolve(change.path), change);
+  }
+
+  let estimatedBefore = 0;
+  let estimatedAfter = 0;
+  const changes: RulesBackupChange[] = [];
+
+  for (const [path, { originalContent: _original, ...change }] of byPath) {
+    const existed = existsSync(path);
+    const recorded: RulesBackupChange = { ...change, path, existed };
+
+    if (existed) {
+      const backupPath = join(FILES_DIR, `${String(changes.length + 1).padStart(4, '0')}${BACKUP_EXTENSION}`);
+      copyFileSync(path, join(setDir, backupPath));
+      recorded.backupPath = backupPath;
+      estimatedBefore += estimateTokens(readFileSync(path, 'utf-8'));
+    }
+    if (change.changeType !== 'delete' && change.newContent !== undefined) {
+      estimatedAfter += estimateTokens(change.newContent);
+    }
+
+    changes.push(recorded);
+  }
+
+  const manifest: RulesBackupManifest = {
+    version: RULES_BACKUP_VERSION,
+    id,
+    command: options.command,
+    createdAt: new Date().toISOString(),
+    folder: resolve(options.folder),
+    tokensBefore: options.tokensBefore ?? options.report?.summary.totalTokensBefore ?? estimatedBefore,
+    tokensAfter: options.tokensAfter ?? options.report?.summary.totalTokensAfter ?? estimatedAfter,
+    changes,
+    ...(options.report && { report: options.report }),
+  };
+
+  writeManifest(backupDir, manifest);
+  return manifest;
+}
+
+/**
+ * Runs with a backup set, newest first. Directories without a manifest,
+ * such as backups written before backup sets existed, are skipped.
+ */
+export function listRulesRuns(backupDir: string): RulesRunSummary[] {
+  if (!existsSync(backupDir)) return [];
+
+  const runs: RulesRunSummary[] = [];
+  for (const entry of readdirSync(backupDir, { withFileTypes: true })) {
+    if (!entry.isDirectory() || !existsSync(join(backupDir, entry.name, RULES_BACKUP_MANIFEST))) continue;
+
+    try {
+      const manifest = readRulesBackup(backupDir, entry.name);
+      runs.push({
+        id: manifest.id,
+        command: manifest.command,
+        createdAt: new Date(manifest.createdAt),
+        folder: manifest.folder,
+        files: manifest.changes.length,
+        tokensBefore: manifest.tokensBefore,
+        tokensAfter: manifest.tokensAfter,
+        tokensSaved: manifest.tokensBefore - manifest.tokensAfter,
+        restoredAt: manifest.restoredAt ? new Date(manifest.restoredAt) : null,
+      });
+    } catch {
+      // Unreadable manifest; leave the set out of the history
+    }
+  }
+
+  return runs.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id.localeCompare(a.id));
+}
+
+export function readRulesBackup(backupDir: string, runId: string): RulesBackupManifest {
+  if (!/^[\w.-]+$/.test(runId) || runId.startsWith('.')) {
+    throw new RulesHistoryError(`Invalid run ID: ${runId}`);
+  }
+
+  const manifestPath = join(backupDir, runId, RULES_BACKUP_MANIFEST);
+  if (!existsSync(manifestPath)) {
+    throw new RulesHistoryError(`No backup set for run ${runId} in ${backupDir}`);
+  }
+
+  const manifest = JSON.parse(readFileSync(manifestPath, 'utf-8')) as RulesBackupManifest;
+  if (manifest.version !== RULES_BACKUP_VERSION || !Array.isArray(manifest.changes)) {
+    throw new RulesHistoryError(`Unsupported backup set format in ${manifestPath}`);
+  }
+  return manifest;
+}
+
+/**
+ * Roll back all or some of a run's file changes: files the run modified or
+ * deleted get their original content back, files it created are removed.
+ */
+export function restoreRulesBackup(
+  backupDir: string,
+  runId: string,
+  options: RulesRestoreOptions = {}
+): RulesRestoreResult {
+  const manifest = readRulesBackup(backupDir, runId);
+  const selected = selectChanges(manifest, options.paths);
+  const dryRun = options.dryRun ?? false;
+
+  const restored = selected.filter(c => c.existed).map(c => c.path);
+  const removed = [
+    ...selected.filter(c => !c.existed).map(c => c.path),
+    ...selected.filter(c => c.changeType === 'rename' && c.newPath).map(c => resolve(c.newPath!)),
+  ].filter(path => existsSync(path));
+
+  for (const change of selected) {
+    if (change.existed && !existsSync(join(backupDir, runId, change.backupPath ?? ''))) {
+      throw new RulesHistoryError(`Backup copy of ${change.path} is missing from run ${runId}`);
+    }
+  }
+
+  if (dryRun) {
+    return { runId, dryRun, restored, removed, backupId: null };
+  }
+
+  const setDir = join(backupDir, runId);
+  const undo = createRulesBackup(backupDir, {
+    command: 'restore',
+    folder: manifest.folder,
+    changes: [
+      ...selected.filter(c => c.existed).map((c): FileChange => ({
+        path: c.path,
+        changeType: existsSync(c.path) ? 'modify' : 'create',
+        newContent: readFileSync(join(setDir, c.backupPath!), 'utf-8'),
+      })),
+      ...removed.map((path): FileChange => ({ path, changeType: 'delete' })),
+    ],
+  });
+
+  for (const change of selected.filter(c => c.existed)) {
+    mkdirSync(dirname(change.path), { recursive: true });
+    copyFileSync(join(setDir, change.backupPath!), change.path);
+  }
+  for (const path of removed) {
+    rmSync(path, { force: true });
+  }
+
+  writeManifest(backupDir, { ...manifest, restoredAt: new Date().toISOString(), restoreId: undo.id });
+  return { runId, dryRun, restored, removed, backupId: undo.id };
+}
+
+/**
+ * Unified diffs from each file's original content to what the run wrote:
+ * the new content the run recorded or, without one, the file as it is now
+ */
+export function diffRulesBackup(backupDir: string, runId: string, paths?: string[]): RulesFileDiff[] {
+  const manifest = readRulesBackup(backupDir, runId);
+
+  return selectChanges(manifest, paths).map(change => {
+    const before = change.existed ? readFileSync(join(backupDir, runId, change.backupPath!), 'utf-8') : '';
+    const target = change.newPath ? resolve(change.newPath) : change.path;
+    const after = change.changeType === 'delete'
+      ? ''
+      : change.newContent ?? (existsSync(target) ? readFileSync(target, 'utf-8') : '');
+    const name = relative(manifest.folder, change.path) || change.path;
+
+    return {
+      path: change.path,
+      changeType: change.changeType,
+      diff: unifiedDiff(before, after, {
+        fromFile: change.existed ? `a/${name}` : '/dev/null',
+        toFile: change.changeType === 'delete' ? '/dev/null' : `b/${relative(manifest.folder, target) || target}`,
+      }),
+    };
+  });
+}
+
+/**
+ * Line-based unified diff of two texts, empty when they are equal
+ */
+export function unifiedDiff(
+  before: string,
+  after: string,
+  options: { fromFile?: string; toFile?: string; context?: number } = {}
+): string {
+  if (before === after) return '';
+
+  const context = options.context ?? DIFF_CONTEXT_LINES;
+  const ops = diffLines(splitLines(before), splitLines(after));
+  const lines = [`--- ${options.fromFile ?? 'a'}`, `+++ ${options.toFile ?? 'b'}`];
+
+  // Line numbers before each op, in the old and the new text
+  const oldLine: number[] = [];
+  const newLine: number[] = [];
+  let o = 0;
+  let n = 0;
+  for (const op of ops) {
+    oldLine.push(o);
+    newLine.push(n);
+    if (op.type !== '+') o++;
+    if (op.type !== '-') n++;
+  }
+  oldLine.push(o);
+  newLine.push(n);
+
+  const changed = ops.flatMap((op, i) => (op.type === ' ' ? [] : [i]));
+  let index = 0;
+  while (index < changed.length) {
+    // Changes closer than twice the context share a hunk
+    let last = index;
+    while (last + 1 < changed.length && changed[last + 1] - changed[last] <= 2 * context + 1) {
+      last++;
+    }
+
+    const start = Math.max(0, changed[index] - context);
+    const end = Math.min(ops.length, changed[last] + context + 1);
+    const oldCount = oldLine[end] - oldLine[start];
+    const newCount = newLine[end] - newLine[start];
+    lines.push(`@@ -${hunkRange(oldLine[start], oldCount)} +${hunkRange(newLine[start], newCount)} @@`);
+    for (const op of ops.slice(start, end)) {
+      lines.push(`${op.type}${op.line}`);
+    }
+
+    index = last + 1;
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+interface DiffOp {
+  type: ' ' | '-' | '+';
+  line: string;
+}
+
+/**
+ * Longest-common-subsequence line diff. Rule files are small, and trimming
+ * the common head and tail keeps the table to the lines that changed.
+ */
+function diffLines(a: string[], b: string[]): DiffOp[] {
+  let head = 0;
+  while (head < a.length && head < b.length && a[head] === b[head]) head++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > head && endB > head && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const rows = endA - head;
+  const cols = endB - head;
+  const width = cols + 1;
+  const lcs = new Uint32Array((rows + 1) * width);
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lcs[i * width + j] = a[head + i] === b[head + j]
+        ? lcs[(i + 1) * width + j + 1] + 1
+        : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const ops: DiffOp[] = a.slice(0, head).map(line => ({ type: ' ', line }));
+  let i = 0;
+  let j = 0;
+  while (i < rows && j < cols) {
+    if (a[head + i] === b[head + j]) {
+      ops.push({ type: ' ', line: a[head + i] });
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+      ops.push({ type: '-', line: a[head + i++] });
+    } else {
+      ops.push({ type: '+', line: b[head + j++] });
+    }
+  }
+  while (i < rows) ops.push({ type: '-', line: a[head + i++] });
+  while (j < cols) ops.push({ type: '+', line: b[head + j++] });
+  ops.push(...a.slice(endA).map((line): DiffOp => ({ type: ' ', line })));
+
+  return ops;
+}
+
+function splitLines(text: string): string[] {
+  return text === '' ? [] : text.replace(/\n$/, '').split('\n');
+}
+
+/** Hunk header range; an empty range points at the line before it */
+function hunkRange(linesBefore: number, count: number): string {
+  return count === 0 ? `${linesBefore},0` : `${linesBefore + 1},${count}`;
+}
+
+/**
+ * The changes a restore or diff covers; every requested path has to belong to the run
+ */
+function selectChanges(manifest: RulesBackupManifest, paths?: string[]): RulesBackupChange[] {
+  if (!paths || paths.length === 0) return manifest.changes;
+
+  return paths.map(path => {
+    const absolute = resolve(manifest.folder, path);
+    const change = manifest.changes.find(c => c.path === absolute || (c.newPath && resolve(c.newPath) === absolute));
+    if (!change) {
+      throw new RulesHistoryError(`Run ${manifest.id} did not change ${path}`);
+    }
+    return change;
+  });
+}
+
+function writeManifest(backupDir: string, manifest: RulesBackupManifest): void {
+  writeFileSync(join(backupDir, manifest.id, RULES_BACKUP_MANIFEST), JSON.stringify(manifest, null, 2));
+}
+
+/** Timestamp ID, suffixed when two runs start within the same millisecond */
+function newRunId(backupDir: string): string {
+  const base = new Date().toISOString().replace(/[:.]/g, '-');
+  let id = base;
+  for (let n = 2; existsSync(join(backupDir, id)); n++) {
+    id = `${base}-${n}`;
+  }
+  return id;
+}
+
+function estimateTokens(content: string): number {
+  return Math.ceil(content.length / 4);
+}
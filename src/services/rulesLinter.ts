@@ -0,0 +1,420 @@
+/**
+ * Rules Linter
+ *
+ * Checks rule frontmatter against the project the rules are written for.
+ * Cursor attaches a rule to a request when it has `alwaysApply: true` or
+ * when one of its `globs` matches a file in play, so the linter matches the
+ * globs against the project's files (honouring .gitignore) and reports:
+ * - globs that match no file
+ * - alwaysApply rules that together exceed the token budget
+ * - rules that apply to the same files with conflicting directives
+ * - rules without a description
+ * It also totals the tokens of the rules that apply to a given file.
+ */
+
+import { existsSync, readdirSync, statSync } from 'fs';
+import { homedir } from 'os';
+import { basename, dirname, isAbsolute, join, relative, resolve, sep } from 'path';
+import { GitignoreMatcher, matchesAnyGlob, matchesGlob } from './globMatcher.js';
+import { findProjectRoot } from './projectVersions.js';
+import type { RulesAnalyzer } from './rulesAnalyzer.js';
+import type { ParsedRule, RuleConflict, RuleFrontmatter } from '../types/rulesOptimizer.js';
+
+/** Directories never matched against rule globs */
+export const LINT_EXCLUDE_PATTERNS = ['**/.git/**', '**/node_modules/**'];
+
+/** Shared files listed per conflict */
+const SAMPLE_FILES = 5;
+
+const SEVERITY_ORDER: Record<RuleLintSeverity, number> = { error: 0, warning: 1, info: 2 };
+
+export type RuleLintCode = 'unmatched-glob' | 'always-apply-budget' | 'conflicting-overlap' | 'missing-description';
+
+export type RuleLintSeverity = 'error' | 'warning' | 'info';
+
+export interface RuleLintIssue {
+  code: RuleLintCode;
+  severity: RuleLintSeverity;
+  /** Rule file the issue is about (the rules folder for the budget) */
+  path: string;
+  message: string;
+  /** Glob that matches nothing */
+  glob?: string;
+  /** Other rule files involved: the conflicting rule, or the alwaysApply rules over budget */
+  related?: string[];
+  /** Project files both conflicting rules apply to (a sample) */
+  files?: string[];
+  sharedFiles?: number;
+  statements?: RuleConflict['conflictingStatements'];
+}
+
+/**
+ * How one rule file is activated
+ */
+export interface RuleActivation {
+  path: string;
+  title: string;
+  description: string | null;
+  alwaysApply: boolean;
+  globs: string[];
+  tokens: number;
+  /** Project files matched by each glob */
+  globMatches: Record<string, number>;
+  /** Project files matched by any glob */
+  matchedFiles: number;
+}
+
+export interface ActiveRule {
+  path: string;
+  title: string;
+  tokens: number;
+  /** `alwaysApply` or the glob that matched */
+  reason: string;
+}
+
+export interface ActiveRules {
+  /** File path relative to the project */
+  file: string;
+  rules: ActiveRule[];
+  totalTokens: number;
+}
+
+export interface RulesLintOptions {
+  /** Rules folder */
+  folder: string;
+  /** Project the globs refer to (default: nearest manifest above the folder, or the folder holding `.cursor`) */
+  projectRoot?: string;
+  /** Default: lint.alwaysApplyTokenBudget */
+  alwaysApplyTokenBudget?: number;
+  /** File (absolute or relative to the project) to total the active rules for */
+  file?: string;
+}
+
+export interface RulesLintReport {
+  folder: string;
+  projectRoot: string;
+  filesScanned: number;
+  alwaysApplyTokens: number;
+  alwaysApplyTokenBudget: number;
+  rules: RuleActivation[];
+  issues: RuleLintIssue[];
+  summary: {
+    errors: number;
+    warnings: number;
+    info: number;
+  };
+  activeFor?: ActiveRules;
+}
+
+export class RulesLintError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RulesLintError';
+  }
+}
+
+/**
+ * Globs of a rule's frontmatter. Cursor writes them as one comma-separated
+ * string; commas inside `{a,b}` belong to the glob.
+ */
+export function ruleGlobs(frontmatter: RuleFrontmatter | undefined): string[] {
+  const value = frontmatter?.globs;
+  const entries = typeof value === 'string' ? [value] : Array.isArray(value) ? value : [];
+  const globs: string[] = [];
+
+  for (const entry of entries) {
+    if (typeof entry !== 'string') continue;
+    let depth = 0;
+    let current = '';
+    for (const char of entry) {
+      if (char === '{') depth++;
+      if (char === '}' && depth > 0) depth--;
+      if (char === ',' && depth === 0) {
+        globs.push(current);
+        current = '';
+      } else {
+        current += char;
+      }
+    }
+    globs.push(current);
+  }
+
+  return globs
+    .map(glob => glob.trim().replace(/^["']|["']$/g, ''))
+    .filter(Boolean);
+}
+
+/**
+ * Rules Cursor includes in every request: `alwaysApply: true`, AGENTS.md and
+ * legacy .cursorrules
+ */
+export function isAlwaysApplied(rule: ParsedRule): boolean {
+  return rule.frontmatter?.alwaysApply === true
+    || rule.sourceFile.format === 'cursorrules'
+    || rule.sourceFile.filename.toUpperCase() === 'AGENTS.MD';
+}
+
+/**
+ * Project the rules in `folder` are written for
+ */
+export function resolveLintProjectRoot(folder: string): string {
+  const root = findProjectRoot(folder);
+  if (root) return root;
+
+  // Rules in <project>/.cursor/rules without a manifest in the project
+  const cursorProject = cursorProjectDir(folder);
+  if (cursorProject) return cursorProject;
+
+  throw new RulesLintError(`No project found above ${folder}; pass the project root`);
+}
+
+/**
+ * Files of the project (relative, forward slashes), skipping .git,
+ * node_modules and anything .gitignore excludes
+ */
+export function listProjectFiles(root: string): string[] {
+  const files: string[] = [];
+  const gitignore = new GitignoreMatcher(root);
+
+  const walk = (dir: string) => {
+    gitignore.loadFrom(dir);
+
+    for (const entry of readdirSync(dir, { withFileTypes: true })) {
+      const path = join(dir, entry.name);
+      const rel = relative(root, path).split(sep).join('/');
+
+      if (entry.isDirectory()) {
+        if (matchesAnyGlob(`${rel}/`, LINT_EXCLUDE_PATTERNS) || gitignore.isIgnored(rel, true)) continue;
+        walk(path);
+      } else if (entry.isFile()) {
+        if (matchesAnyGlob(rel, LINT_EXCLUDE_PATTERNS) || gitignore.isIgnored(rel, false)) continue;
+        files.push(rel);
+      }
+    }
+  };
+
+  walk(root);
+  return files.sort();
+}
+
+/**
+ * Rules that apply to `file` (relative to the project) and their total tokens
+ */
+export function activeRulesFor(rules: RuleActivation[], file: string): ActiveRules {
+  const normalized = file.split(sep).join('/').replace(/^\.\//, '');
+  const active: ActiveRule[] = [];
+
+  for (const rule of rules) {
+    const glob = rule.globs.find(g => matchesGlob(normalized, g));
+    if (rule.alwaysApply || glob) {
+      active.push({
+        path: rule.path,
+        title: rule.title,
+        tokens: rule.tokens,
+        reason: rule.alwaysApply ? 'alwaysApply' : glob!,
+      });
+    }
+  }
+
+  return {
+    file: normalized,
+    rules: active,
+    totalTokens: active.reduce((sum, r) => sum + r.tokens, 0),
+  };
+}
+
+/**
+ * Lint parsed rules against the project's files
+ */
+export function lintRules(
+  rules: ParsedRule[],
+  analyzer: Pick<RulesAnalyzer, 'compareRules' | 'getConfig'>,
+  options: RulesLintOptions
+): RulesLintReport {
+  const folder = resolve(options.folder);
+  const projectRoot = resolve(options.projectRoot ?? resolveLintProjectRoot(folder));
+  if (!existsSync(projectRoot) || !statSync(projectRoot).isDirectory()) {
+    throw new RulesLintError(`Project not found: ${projectRoot}`);
+  }
+  const budget = options.alwaysApplyTokenBudget ?? analyzer.getConfig().lint.alwaysApplyTokenBudget;
+  const files = listProjectFiles(projectRoot);
+
+  // Sections of one file share its frontmatter, so rule files are linted as a whole
+  const byFile = new Map<string, ParsedRule[]>();
+  for (const rule of rules) {
+    const group = byFile.get(rule.sourceFile.path) ?? [];
+    group.push(rule);
+    byFile.set(rule.sourceFile.path, group);
+  }
+
+  const activations: RuleActivation[] = [];
+  const matched = new Map<string, Set<number>>();
+  const issues: RuleLintIssue[] = [];
+
+  for (const [path, group] of byFile) {
+    const first = group[0]!;
+    const globs = ruleGlobs(first.frontmatter);
+    const description = typeof first.frontmatter?.description === 'string' && first.frontmatter.description.trim()
+      ? first.frontmatter.description.trim()
+      : null;
+    const alwaysApply = isAlwaysApplied(first);
+
+    const globMatches: Record<string, number> = {};
+    const matchedIndexes = new Set<number>();
+    for (const glob of globs) {
+      globMatches[glob] = 0;
+      files.forEach((file, index) => {
+        if (matchesGlob(file, glob)) {
+          globMatches[glob]!++;
+          matchedIndexes.add(index);
+        }
+      });
+    }
+    matched.set(path, matchedIndexes);
+
+    const activation: RuleActivation = {
+      path,
+      title: first.isSection ? basename(path) : first.title,
+      description,
+      alwaysApply,
+      globs,
+      tokens: group.reduce((sum, r) => sum + r.tokenCount, 0),
+      globMatches,
+      matchedFiles: matchedIndexes.size,
+    };
+    activations.push(activation);
+
+    for (const glob of globs) {
+      if (globMatches[glob] === 0) {
+        issues.push({
+          code: 'unmatched-glob',
+          // A rule none of whose globs match is never attached
+          severity: matchedIndexes.size === 0 && !alwaysApply ? 'error' : 'warning',
+          path,
+          glob,
+          message: `Glob "${glob}" matches no files in the project`,
+        });
+      }
+    }
+
+    if (!description && first.sourceFile.format === 'mdc') {
+      const agentRequested = !alwaysApply && globs.length === 0;
+      issues.push({
+        code: 'missing-description',
+        severity: agentRequested ? 'warning' : 'info',
+        path,
+        message: agentRequested
+          ? 'No description, globs or alwaysApply: the agent cannot tell when to use this rule'
+          : 'No description',
+      });
+    }
+  }
+
+  const alwaysApplied = activations.filter(r => r.alwaysApply);
+  const alwaysApplyTokens = alwaysApplied.reduce((sum, r) => sum + r.tokens, 0);
+  if (alwaysApplyTokens > budget) {
+    issues.push({
+      code: 'always-apply-budget',
+      severity: 'error',
+      path: folder,
+      related: [...alwaysApplied].sort((a, b) => b.tokens - a.tokens).map(r => r.path),
+      message: `alwaysApply rules use ${alwaysApplyTokens.toLocaleString()} tokens on every request, ` +
+        `over the budget of ${budget.toLocaleString()}`,
+    });
+  }
+
+  issues.push(...findConflictingOverlaps(activations, byFile, matched, files, analyzer));
+
+  issues.sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity] || a.path.localeCompare(b.path));
+
+  const file = options.file
+    ? (isAbsolute(options.file) ? relative(projectRoot, options.file) : options.file)
+    : undefined;
+
+  return {
+    folder,
+    projectRoot,
+    filesScanned: files.length,
+    alwaysApplyTokens,
+    alwaysApplyTokenBudget: budget,
+    rules: activations,
+    issues,
+    summary: {
+      errors: issues.filter(i => i.severity === 'error').length,
+      warnings: issues.filter(i => i.severity === 'warning').length,
+      info: issues.filter(i => i.severity === 'info').length,
+    },
+    activeFor: file !== undefined ? activeRulesFor(activations, file) : undefined,
+  };
+}
+
+/**
+ * Pairs of rule files that apply to at least one common project file and
+ * contain conflicting directives
+ */
+function findConflictingOverlaps(
+  activations: RuleActivation[],
+  byFile: Map<string, ParsedRule[]>,
+  matched: Map<string, Set<number>>,
+  files: string[],
+  analyzer: Pick<RulesAnalyzer, 'compareRules'>
+): RuleLintIssue[] {
+  const issues: RuleLintIssue[] = [];
+  const everyFile = files.map((_, index) => index);
+
+  for (let i = 0; i < activations.length; i++) {
+    for (let j = i + 1; j < activations.length; j++) {
+      const a = activations[i]!;
+      const b = activations[j]!;
+
+      let shared: number[];
+      if (a.alwaysApply && b.alwaysApply) {
+        shared = everyFile;
+      } else if (a.alwaysApply || b.alwaysApply) {
+        shared = [...matched.get(a.alwaysApply ? b.path : a.path)!];
+      } else {
+        const other = matched.get(b.path)!;
+        shared = [...matched.get(a.path)!].filter(index => other.has(index));
+      }
+      // Two alwaysApply rules meet in every request, even in an empty project
+      if (shared.length === 0 && !(a.alwaysApply && b.alwaysApply)) continue;
+
+      const statements: RuleConflict['conflictingStatements'] = [];
+      for (const rule1 of byFile.get(a.path)!) {
+        for (const rule2 of byFile.get(b.path)!) {
+          const conflict = analyzer.compareRules(rule1, rule2);
+          if (conflict) statements.push(...conflict.conflictingStatements);
+        }
+      }
+      if (statements.length === 0) continue;
+
+      issues.push({
+        code: 'conflicting-overlap',
+        severity: 'warning',
+        path: a.path,
+        related: [b.path],
+        files: shared.slice(0, SAMPLE_FILES).map(index => files[index]!),
+        sharedFiles: shared.length,
+        statements,
+        message: `Conflicts with ${basename(b.path)} on ${shared.length} shared file(s): ` +
+          `${statements.length} conflicting statement(s)`,
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Directory holding the rules folder's `.cursor` directory, if any
+ */
+function cursorProjectDir(folder: string): string | null {
+  // ~/.cursor holds the global rules; like findProjectRoot, never treat home as a project
+  const home = homedir();
+  let dir = resolve(folder);
+  while (dir !== home && dirname(dir) !== dir) {
+    if (basename(dir) === '.cursor') return dirname(dir) === home ? null : dirname(dir);
+    dir = dirname(dir);
+  }
+  return null;
+}
@@ -0,0 +1,170 @@
+/**
+ * Semantic Versions
+ *
+ * Loose semver parsing and comparison for version numbers found in rule text,
+ * manifests and lockfiles. Versions in prose are often partial ("React 18",
+ * "PHP 8.3"), so a parsed version remembers how many parts it was written
+ * with and can be compared at that precision. Ranges understand the npm,
+ * Composer and Python (PEP 440) operators well enough to find the lowest
+ * version they allow.
+ */
+
+export interface SemVer {
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease: Array<string | number>;
+  /** Numeric parts written: 1 for "18", 2 for "18.2", 3 for "18.2.1" */
+  precision: 1 | 2 | 3;
+}
+
+const VERSION_PATTERN = /^(\d+)(?:\.(\d+))?(?:\.(\d+))?(?:-?([0-9A-Za-z][0-9A-Za-z.-]*))?(?:\+[0-9A-Za-z.-]*)?$/;
+
+const OPERATOR_PATTERN = /^(\^|~>|~=|~|>=|<=|>|<|===|==|=|!=)?(.*)$/;
+
+const ZERO: SemVer = { major: 0, minor: 0, patch: 0, prerelease: [], precision: 1 };
+
+/**
+ * Parse a single version such as "18", "v5.0.0-beta.1", "4.2rc1" or
+ * "1.9.1+incompatible". Returns null for anything else, including ranges.
+ */
+export function parseVersion(text: string): SemVer | null {
+  const match = VERSION_PATTERN.exec(text.trim().replace(/^[=v]+/i, '').replace(/\.+$/, ''));
+  if (!match) return null;
+
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2] ?? 0),
+    patch: Number(match[3] ?? 0),
+    prerelease: match[4] ? match[4].split('.').map(id => (/^\d+$/.test(id) ? Number(id) : id)) : [],
+    precision: match[3] !== undefined ? 3 : match[2] !== undefined ? 2 : 1,
+  };
+}
+
+/**
+ * Version as written, up to its precision
+ */
+export function formatVersion(version: SemVer): string {
+  const parts = [version.major, version.minor, version.patch].slice(0, version.precision);
+  return parts.join('.') + (version.prerelease.length > 0 ? `-${version.prerelease.join('.')}` : '');
+}
+
+/**
+ * Semver precedence: negative when `a` is older than `b`. A prerelease is
+ * older than its release.
+ */
+export function compareVersions(a: SemVer, b: SemVer): number {
+  return a.major - b.major
+    || a.minor - b.minor
+    || a.patch - b.patch
+    || comparePrerelease(a.prerelease, b.prerelease);
+}
+
+/**
+ * Compare only the parts both versions were written with, so "18" equals
+ * "18.3.1" while "18.2" is older than "18.10"
+ */
+export function compareAtPrecision(a: SemVer, b: SemVer): number {
+  const precision = Math.min(a.precision, b.precision);
+  return a.major - b.major
+    || (precision >= 2 ? a.minor - b.minor : 0)
+    || (precision >= 3 ? a.patch - b.patch || comparePrerelease(a.prerelease, b.prerelease) : 0);
+}
+
+/**
+ * Lowest version a range allows, e.g. 18.2.0 for "^18.2.0", 4.2 for
+ * ">=4.2,<5" and 11.0 for "^11.0|^12.0". A plain version is its own lowest
+ * version. Returns null when the range cannot be parsed.
+ */
+export function minVersion(range: string): SemVer | null {
+  const exact = parseVersion(range);
+  if (exact) return exact;
+
+  let lowest: SemVer | null = null;
+  for (const set of range.split(/\|\|?/)) {
+    const bound = lowerBound(set);
+    if (!bound) return null;
+    if (!lowest || compareVersions(bound, lowest) < 0) {
+      lowest = bound;
+    }
+  }
+  return lowest;
+}
+
+/**
+ * Whether a mentioned version is older than every version `current` allows.
+ * `current` is a version or a range. Returns null when either cannot be parsed.
+ */
+export function isOlderVersion(mentioned: string, current: string): boolean | null {
+  const version = parseVersion(mentioned);
+  const lowest = minVersion(current);
+  if (!version || !lowest) return null;
+  return compareAtPrecision(version, lowest) < 0;
+}
+
+function comparePrerelease(a: Array<string | number>, b: Array<string | number>): number {
+  if (a.length === 0 || b.length === 0) return b.length - a.length;
+
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    const x = a[i];
+    const y = b[i];
+    if (x === y) continue;
+    if (typeof x === 'number' && typeof y === 'number') return x - y;
+    if (typeof x === 'number') return -1;
+    if (typeof y === 'number') return 1;
+    return x < y ? -1 : 1;
+  }
+  return a.length - b.length;
+}
+
+/**
+ * Lowest version of one comparator set ("^18.2", ">=4.2, <5", "1.2 - 2.3");
+ * undefined when a comparator cannot be parsed
+ */
+function lowerBound(set: string): SemVer | undefined {
+  const normalized = set.trim().replace(/(\^|~>|~=|~|>=|<=|>|<|===|==|=|!=)\s+/g, '$1');
+
+  const hyphen = /^(\S+)\s+-\s+\S+$/.exec(normalized);
+  if (hyphen) {
+    return xRange(hyphen[1]) ?? undefined;
+  }
+
+  let bound = ZERO;
+  for (const comparator of normalized.split(/[\s,]+/).filter(Boolean)) {
+    const [, operator = '', text] = OPERATOR_PATTERN.exec(comparator)!;
+    const version = xRange(text);
+    if (!version) return undefined;
+
+    let lower: SemVer;
+    switch (operator) {
+      case '<':
+      case '<=':
+      case '!=':
+        // Upper bounds and exclusions leave the lowest version alone
+        continue;
+      case '>':
+        lower = version.precision === 3
+          ? { ...version, patch: version.patch + 1, prerelease: [] }
+          : version.precision === 2
+            ? { ...version, minor: version.minor + 1 }
+            : { ...version, major: version.major + 1 };
+        break;
+      default:
+        lower = version;
+    }
+
+    if (compareVersions(lower, bound) > 0) {
+      bound = lower;
+    }
+  }
+  return bound;
+}
+
+/**
+ * Version with wildcards ("1.x", "4.2.*", "*") reduced to the parts before them
+ */
+function xRange(text: string): SemVer | null {
+  const trimmed = text.replace(/(\.[xX*])+$/, '');
+  if (trimmed === '' || trimmed === '*' || trimmed.toLowerCase() === 'x') return ZERO;
+  return parseVersion(trimmed);
+}
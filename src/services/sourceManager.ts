@@ -0,0 +1,305 @@
+/**
+ * Source Manager
+ *
+ * Single write path for ingested sources. Chunks, embeds and stores a
+ * document, records it in the `SourceRegistry`, and on re-ingest replaces
+ * the previous chunks in the vector store, lexical index and memory
+ * metadata store. Unchanged content (same hash) is skipped.
+ */
+
+import { randomUUID } from 'crypto';
+import type { VectorStore } from '../adapters/vector/index.js';
+import type { Embedder } from '../adapters/embeddings/index.js';
+import type { DocumentSection } from '../adapters/loaders/index.js';
+import type { ChunkBoundaryMode, ChunkOptions, ChunkStrategy, RAGConfig, VectorDocument } from '../types/index.js';
+import type { SourceKind, SourceRecord } from '../types/sources.js';
+import type { LexicalIndex } from './lexicalIndex.js';
+import type { MemoryMetadataStore } from './memoryMetadataStore.js';
+import {
+  createSourceId,
+  getEmbedderInfo,
+  hashContent,
+  type SourceRegistry,
+} from './sourceRegistry.js';
+import { checkEmbedderCompatibility, EmbedderMismatchError } from './embeddingMigration.js';
+import { chunkSourceText } from './codeChunker.js';
+import { DEFAULT_TOKENIZER_MODEL, getTokenizer } from './chunker.js';
+
+export const DEFAULT_CHUNK_OPTIONS: ChunkOptions = {
+  chunkSize: 512,
+  chunkOverlap: 50,
+  boundaryMode: 'semantic',
+  tokenizerModel: DEFAULT_TOKENIZER_MODEL,
+  strategy: 'auto',
+};
+
+const BOUNDARY_MODES: ChunkBoundaryMode[] = ['semantic', 'paragraph', 'none'];
+const CHUNK_STRATEGIES: ChunkStrategy[] = ['auto', 'text'];
+
+export interface SourceStoreDeps {
+  vectorStore: VectorStore;
+  lexicalIndex?: LexicalIndex | null;
+  sourceRegistry?: SourceRegistry | null;
+  metadataStore?: MemoryMetadataStore | null;
+}
+
+export interface SourceIngestDeps extends SourceStoreDeps {
+  embedder: Embedder;
+  config: RAGConfig;
+  /** Collection the stores belong to, named in errors (default: "default") */
+  collection?: string;
+}
+
+export interface SourceContentInput {
+  /** Extracted text; the content hash is taken over this */
+  content: string;
+  /** Structure from a document loader, chunked section by section; defaults to one section */
+  sections?: DocumentSection[];
+  /** Label written to chunk `metadata.source` */
+  name: string;
+  title: string;
+  kind: SourceKind;
+  /** URL or absolute path; null for raw text */
+  uri: string | null;
+  metadata?: Record<string, any>;
+  /** Overrides for this ingest; unset fields come from the source's recorded settings, then the config */
+  chunking?: ChunkOptions;
+  /** Re-embed even when the content hash is unchanged */
+  force?: boolean;
+}
+
+export interface SourceIngestResult {
+  sourceId: string;
+  chunksCreated: number;
+  staleChunksRemoved: number;
+  /** True when the content hash matched the registry and nothing was written */
+  skipped: boolean;
+}
+
+export interface SourceDeleteResult {
+  source: SourceRecord;
+  chunksDeleted: number;
+}
+
+export interface UntrackedSource {
+  /** Chunk `metadata.source` */
+  name: string;
+  chunks: number;
+}
+
+/** Chunks read from the vector store per page while looking for untracked chunks */
+const SCAN_PAGE_SIZE = 500;
+
+/**
+ * Derive the registry ID for a piece of content
+ *
+ * Sources with a location are keyed by it; raw text is keyed by its title,
+ * or by its content when untitled so separate snippets stay separate.
+ */
+export function resolveSourceId(
+  kind: SourceKind,
+  uri: string | null,
+  title: string | undefined,
+  contentHash: string
+): string {
+  return createSourceId(kind, uri ?? (title ? `title:${title}` : contentHash));
+}
+
+/**
+ * Merge chunking settings (later layers win) and validate the result
+ *
+ * Undefined fields are ignored, so partial overrides only replace what they
+ * set. The result always has every field filled in; recording it with a
+ * source pins the settings even if the defaults change later.
+ */
+export function resolveChunkOptions(...layers: Array<ChunkOptions | null | undefined>): ChunkOptions {
+  const resolved: ChunkOptions = { ...DEFAULT_CHUNK_OPTIONS };
+
+  for (const layer of layers) {
+    if (!layer) continue;
+    for (const [key, value] of Object.entries(layer)) {
+      if (value !== undefined) {
+        (resolved as Record<string, unknown>)[key] = value;
+      }
+    }
+    if (layer.boundaryMode === undefined && layer.respectBoundaries !== undefined) {
+      resolved.boundaryMode = layer.respectBoundaries ? 'semantic' : 'none';
+    }
+  }
+  delete resolved.respectBoundaries;
+
+  const { chunkSize, chunkOverlap, boundaryMode, strategy } = resolved;
+  if (!Number.isInteger(chunkSize) || chunkSize! < 1) {
+    throw new Error(`Invalid chunkSize ${chunkSize}: expected a positive number of tokens`);
+  }
+  if (typeof chunkOverlap !== 'number' || chunkOverlap < 0 || chunkOverlap >= 100) {
+    throw new Error(`Invalid chunkOverlap ${chunkOverlap}: expected a percentage from 0 to 99`);
+  }
+  if (!BOUNDARY_MODES.includes(boundaryMode!)) {
+    throw new Error(`Invalid boundaryMode "${boundaryMode}": expected one of ${BOUNDARY_MODES.join(', ')}`);
+  }
+  if (!CHUNK_STRATEGIES.includes(strategy!)) {
+    throw new Error(`Invalid chunking strategy "${strategy}": expected one of ${CHUNK_STRATEGIES.join(', ')}`);
+  }
+  getTokenizer(resolved.tokenizerModel);
+
+  return resolved;
+}
+
+function sameChunkOptions(a: ChunkOptions, b: ChunkOptions): boolean {
+  return (Object.keys(DEFAULT_CHUNK_OPTIONS) as Array<keyof ChunkOptions>).every(key => a[key] === b[key]);
+}
+
+/**
+ * Chunk, embed and store a document, replacing any previous version
+ *
+ * Re-ingests reuse the chunking settings recorded for the source unless the
+ * input overrides them; changed settings re-chunk even unchanged content.
+ */
+export async function ingestSourceContent(
+  input: SourceContentInput,
+  deps: SourceIngestDeps
+): Promise<SourceIngestResult> {
+  const { vectorStore, embedder, sourceRegistry } = deps;
+  const contentHash = hashContent(input.content);
+  const sourceId = resolveSourceId(input.kind, input.uri, input.title, contentHash);
+
+  const previous = sourceRegistry?.getSource(sourceId) ?? null;
+  const chunking = resolveChunkOptions(deps.config.chunking, previous?.chunking, input.chunking);
+
+  if (
+    previous &&
+    previous.contentHash === contentHash &&
+    sameChunkOptions(resolveChunkOptions(previous.chunking), chunking) &&
+    !input.force
+  ) {
+    return { sourceId, chunksCreated: 0, staleChunksRemoved: 0, skipped: true };
+  }
+
+  // Never mix vectors of different embedders in one store
+  const mismatch = sourceRegistry ? checkEmbedderCompatibility(embedder, deps.config, sourceRegistry, deps.collection) : null;
+  if (mismatch) {
+    throw new EmbedderMismatchError(mismatch);
+  }
+
+  // Source files are chunked on declarations, chosen by extension; crawled pages are always markdown
+  const chunkPath = input.kind === 'crawl' ? null : input.uri ?? input.title;
+  const sections = input.sections ?? [{ text: input.content, metadata: {} }];
+  const chunks = sections
+    .flatMap(section =>
+      chunkSourceText(section.text, chunkPath, chunking).map(chunk => ({
+        ...chunk,
+        metadata: { ...section.metadata, ...chunk.metadata },
+      }))
+    )
+    .map((chunk, index) => ({ ...chunk, index }));
+  const embeddings = await embedder.embedBatch(chunks.map(c => c.text));
+
+  // Epoch milliseconds, so every store can range-filter on it
+  const createdAt = Date.now();
+  const documents: VectorDocument[] = chunks.map((chunk, idx) => ({
+    id: randomUUID(),
+    embedding: embeddings[idx],
+    content: chunk.text,
+    metadata: {
+      ...input.metadata,
+      ...chunk.metadata,
+      source: input.name,
+      sourceId,
+      title: input.title,
+      chunkIndex: chunk.index,
+      createdAt
+    }
+  }));
+
+  // Write the new chunks before removing the old ones so the source is never missing
+  await vectorStore.add(documents);
+  deps.lexicalIndex?.add(documents);
+
+  const embedderInfo = getEmbedderInfo(embedder, deps.config);
+  sourceRegistry?.upsertSource({
+    id: sourceId,
+    name: input.name,
+    title: input.title,
+    kind: input.kind,
+    uri: input.uri,
+    chunkIds: documents.map(d => d.id),
+    contentHash,
+    embedder: embedderInfo,
+    chunking,
+    metadata: input.metadata,
+  });
+  sourceRegistry?.setStoreEmbedder(deps.config.vectorStore, embedderInfo);
+
+  const staleChunkIds = previous?.chunkIds ?? [];
+  if (staleChunkIds.length > 0) {
+    await removeChunks(staleChunkIds, deps);
+  }
+
+  return {
+    sourceId,
+    chunksCreated: documents.length,
+    staleChunksRemoved: staleChunkIds.length,
+    skipped: false,
+  };
+}
+
+/**
+ * Remove chunks from every store that tracks them
+ */
+export async function removeChunks(chunkIds: string[], deps: SourceStoreDeps): Promise<void> {
+  if (chunkIds.length === 0) return;
+
+  await deps.vectorStore.delete(chunkIds);
+  deps.lexicalIndex?.delete(chunkIds);
+  deps.metadataStore?.deleteChunksMetadata(chunkIds);
+}
+
+/**
+ * Delete a source (by ID, URI/path, or name) and all of its chunks
+ *
+ * Returns null when the source is not in the registry.
+ */
+export async function deleteSource(
+  ref: string,
+  deps: SourceStoreDeps & { sourceRegistry: SourceRegistry }
+): Promise<SourceDeleteResult | null> {
+  const source = deps.sourceRegistry.findSource(ref);
+  if (!source) return null;
+
+  await removeChunks(source.chunkIds, deps);
+  deps.sourceRegistry.deleteSource(source.id);
+
+  return { source, chunksDeleted: source.chunkIds.length };
+}
+
+/**
+ * Chunks no registered source owns, grouped by `metadata.source`
+ *
+ * Knowledge bases ingested before sources were recorded hold chunks the
+ * registry has never seen; memories and extracted knowledge show up here too.
+ * Largest groups come first. Returns null when the store cannot be scanned.
+ */
+export async function findUntrackedSources(
+  vectorStore: VectorStore,
+  sourceRegistry: SourceRegistry
+): Promise<UntrackedSource[] | null> {
+  if (!vectorStore.scan) return null;
+
+  const tracked = new Set(sourceRegistry.listSources().flatMap(source => source.chunkIds));
+  const counts = new Map<string, number>();
+  let cursor: string | null = null;
+  do {
+    const page = await vectorStore.scan(cursor, SCAN_PAGE_SIZE);
+    for (const chunk of page.chunks) {
+      if (tracked.has(chunk.id)) continue;
+      const name = typeof chunk.metadata?.source === 'string' ? chunk.metadata.source : 'unknown';
+      counts.set(name, (counts.get(name) ?? 0) + 1);
+    }
+    cursor = page.nextCursor;
+  } while (cursor !== null);
+
+  return [...counts]
+    .map(([name, chunks]) => ({ name, chunks }))
+    .sort((a, b) => b.chunks - a.chunks || a.name.localeCompare(b.name));
+}
@@ -0,0 +1,377 @@
+import Database from 'better-sqlite3';
+import { createHash } from 'crypto';
+import { join } from 'path';
+import { homedir } from 'os';
+import { existsSync, mkdirSync } from 'fs';
+import type { Embedder } from '../adapters/embeddings/index.js';
+import type { RAGConfig } from '../types/index.js';
+import type {
+  SourceEmbedderInfo,
+  SourceKind,
+  SourceRecord,
+  SourceRecordInput,
+  SourceRegistryStats,
+  TrackedFile,
+} from '../types/sources.js';
+
+const DEFAULT_DB_PATH = join(homedir(), '.cursor-rag', 'sources.db');
+
+/**
+ * SQLite registry of ingested sources
+ *
+ * Written at ingest and crawl time so sources can be listed, counted and
+ * mapped back to their chunk IDs without querying the vector store.
+ */
+export class SourceRegistry {
+  private db: Database.Database;
+  private dbPath: string;
+
+  constructor(dbPath: string = DEFAULT_DB_PATH) {
+    this.dbPath = dbPath;
+
+    const dir = join(dbPath, '..');
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true });
+    }
+
+    this.db = new Database(dbPath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('foreign_keys = ON');
+    this.initialize();
+  }
+
+  private initialize(): void {
+    this.db.exec(`
+      -- One row per ingested document
+      CREATE TABLE IF NOT EXISTS sources (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        title TEXT NOT NULL,
+        kind TEXT NOT NULL,
+        uri TEXT,
+        content_hash TEXT NOT NULL,
+        embedder_provider TEXT NOT NULL,
+        embedder_model TEXT,
+        embedder_dimensions INTEGER NOT NULL,
+        chunking_json TEXT NOT NULL,
+        metadata_json TEXT,
+        ingested_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+
+      -- Chunk IDs written to the vector store for each source
+      CREATE TABLE IF NOT EXISTS source_chunks (
+        chunk_id TEXT PRIMARY KEY,
+        source_id TEXT NOT NULL REFERENCES sources(id) ON DELETE CASCADE,
+        chunk_index INTEGER NOT NULL
+      );
+
+      -- Files under watched directories, for mtime-based change detection
+      CREATE TABLE IF NOT EXISTS tracked_files (
+        path TEXT PRIMARY KEY,
+        root TEXT NOT NULL,
+        source_id TEXT NOT NULL REFERENCES sources(id) ON DELETE CASCADE,
+        mtime_ms REAL NOT NULL,
+        size INTEGER NOT NULL,
+        content_hash TEXT NOT NULL
+      );
+
+      -- Embedder whose vectors each vector store holds
+      CREATE TABLE IF NOT EXISTS store_embedders (
+        store TEXT PRIMARY KEY,
+        provider TEXT NOT NULL,
+        model TEXT,
+        dimensions INTEGER NOT NULL,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_sources_name ON sources(name);
+      CREATE INDEX IF NOT EXISTS idx_tracked_files_root ON tracked_files(root);
+      CREATE INDEX IF NOT EXISTS idx_sources_uri ON sources(uri);
+      CREATE INDEX IF NOT EXISTS idx_source_chunks_source ON source_chunks(source_id);
+    `);
+  }
+
+  /**
+   * Insert or replace a source and its chunk list
+   *
+   * The original ingest time is kept when a source is re-registered.
+   */
+  upsertSource(input: SourceRecordInput): SourceRecord {
+    const upsert = this.db.prepare(`
+      INSERT INTO sources (
+        id, name, title, kind, uri, content_hash,
+        embedder_provider, embedder_model, embedder_dimensions,
+        chunking_json, metadata_json, ingested_at, updated_at
+      ) VALUES (
+        @id, @name, @title, @kind, @uri, @contentHash,
+        @embedderProvider, @embedderModel, @embedderDimensions,
+        @chunkingJson, @metadataJson, @now, @now
+      )
+      ON CONFLICT(id) DO UPDATE SET
+        name = @name,
+        title = @title,
+        kind = @kind,
+        uri = @uri,
+        content_hash = @contentHash,
+        embedder_provider = @embedderProvider,
+        embedder_model = @embedderModel,
+        embedder_dimensions = @embedderDimensions,
+        chunking_json = @chunkingJson,
+        metadata_json = @metadataJson,
+        updated_at = @now
+    `);
+    const clearChunks = this.db.prepare('DELETE FROM source_chunks WHERE source_id = ?');
+    const insertChunk = this.db.prepare(`
+      INSERT OR REPLACE INTO source_chunks (chunk_id, source_id, chunk_index)
+      VALUES (?, ?, ?)
+    `);
+
+    const now = new Date().toISOString();
+
+    const transaction = this.db.transaction((record: SourceRecordInput) => {
+      upsert.run({
+        id: record.id,
+        name: record.name,
+        title: record.title,
+        kind: record.kind,
+        uri: record.uri,
+        contentHash: record.contentHash,
+        embedderProvider: record.embedder.provider,
+        embedderModel: record.embedder.model ?? null,
+        embedderDimensions: record.embedder.dimensions,
+        chunkingJson: JSON.stringify(record.chunking),
+        metadataJson: record.metadata ? JSON.stringify(record.metadata) : null,
+        now,
+      });
+
+      clearChunks.run(record.id);
+      record.chunkIds.forEach((chunkId, idx) => insertChunk.run(chunkId, record.id, idx));
+    });
+
+    transaction(input);
+    return this.getSource(input.id)!;
+  }
+
+  getSource(id: string): SourceRecord | null {
+    const row = this.db.prepare('SELECT * FROM sources WHERE id = ?').get(id) as any;
+    return row ? this.rowToSource(row) : null;
+  }
+
+  /**
+   * Look a source up by ID, URI/path, or name
+   */
+  findSource(ref: string): SourceRecord | null {
+    const byId = this.getSource(ref);
+    if (byId) return byId;
+
+    const row = this.db.prepare(`
+      SELECT * FROM sources WHERE uri = ? OR name = ?
+      ORDER BY updated_at DESC LIMIT 1
+    `).get(ref, ref) as any;
+    return row ? this.rowToSource(row) : null;
+  }
+
+  listSources(options: { kind?: SourceKind } = {}): SourceRecord[] {
+    let sql = 'SELECT * FROM sources';
+    const params: any[] = [];
+
+    if (options.kind) {
+      sql += ' WHERE kind = ?';
+      params.push(options.kind);
+    }
+
+    sql += ' ORDER BY updated_at DESC, name ASC';
+
+    const rows = this.db.prepare(sql).all(...params) as any[];
+    return rows.map(row => this.rowToSource(row));
+  }
+
+  getChunkIds(sourceId: string): string[] {
+    const rows = this.db.prepare(`
+      SELECT chunk_id FROM source_chunks WHERE source_id = ? ORDER BY chunk_index
+    `).all(sourceId) as any[];
+    return rows.map(row => row.chunk_id);
+  }
+
+  /**
+   * Find which source a chunk belongs to
+   */
+  getSourceIdForChunk(chunkId: string): string | null {
+    const row = this.db.prepare('SELECT source_id FROM source_chunks WHERE chunk_id = ?').get(chunkId) as any;
+    return row?.source_id ?? null;
+  }
+
+  /**
+   * Remove a source and its chunk list from the registry
+   */
+  deleteSource(id: string): boolean {
+    const result = this.db.prepare('DELETE FROM sources WHERE id = ?').run(id);
+    return result.changes > 0;
+  }
+
+  // ==================== Tracked Files ====================
+
+  getTrackedFile(path: string): TrackedFile | null {
+    const row = this.db.prepare('SELECT * FROM tracked_files WHERE path = ?').get(path) as any;
+    return row ? this.rowToTrackedFile(row) : null;
+  }
+
+  /**
+   * Record the state of a file; the source must already be registered
+   */
+  upsertTrackedFile(file: TrackedFile): void {
+    this.db.prepare(`
+      INSERT INTO tracked_files (path, root, source_id, mtime_ms, size, content_hash)
+      VALUES (@path, @root, @sourceId, @mtimeMs, @size, @contentHash)
+      ON CONFLICT(path) DO UPDATE SET
+        root = @root,
+        source_id = @sourceId,
+        mtime_ms = @mtimeMs,
+        size = @size,
+        content_hash = @contentHash
+    `).run(file);
+  }
+
+  listTrackedFiles(root: string): TrackedFile[] {
+    const rows = this.db.prepare('SELECT * FROM tracked_files WHERE root = ? ORDER BY path').all(root) as any[];
+    return rows.map(row => this.rowToTrackedFile(row));
+  }
+
+  deleteTrackedFile(path: string): void {
+    this.db.prepare('DELETE FROM tracked_files WHERE path = ?').run(path);
+  }
+
+  // ==================== Store Embedders ====================
+
+  /**
+   * Embedder the vectors in a store were made with
+   *
+   * Stores filled before this was recorded fall back to the embedder of the
+   * most recently ingested source; null when nothing was ingested.
+   */
+  getStoreEmbedder(store: string): SourceEmbedderInfo | null {
+    const row = this.db.prepare('SELECT * FROM store_embedders WHERE store = ?').get(store) as any;
+    if (row) {
+      return { provider: row.provider, model: row.model ?? undefined, dimensions: row.dimensions };
+    }
+
+    const latest = this.db.prepare(`
+      SELECT embedder_provider, embedder_model, embedder_dimensions FROM sources
+      ORDER BY updated_at DESC LIMIT 1
+    `).get() as any;
+    return latest
+      ? { provider: latest.embedder_provider, model: latest.embedder_model ?? undefined, dimensions: latest.embedder_dimensions }
+      : null;
+  }
+
+  setStoreEmbedder(store: string, embedder: SourceEmbedderInfo): void {
+    this.db.prepare(`
+      INSERT INTO store_embedders (store, provider, model, dimensions, updated_at)
+      VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(store) DO UPDATE SET
+        provider = excluded.provider,
+        model = excluded.model,
+        dimensions = excluded.dimensions,
+        updated_at = excluded.updated_at
+    `).run(store, embedder.provider, embedder.model ?? null, embedder.dimensions, new Date().toISOString());
+  }
+
+  /**
+   * Record a new embedder on every source, after their chunks were re-embedded
+   */
+  setSourcesEmbedder(embedder: SourceEmbedderInfo): number {
+    return this.db.prepare(`
+      UPDATE sources SET embedder_provider = ?, embedder_model = ?, embedder_dimensions = ?
+    `).run(embedder.provider, embedder.model ?? null, embedder.dimensions).changes;
+  }
+
+  getStats(): SourceRegistryStats {
+    const totalSources = (this.db.prepare('SELECT COUNT(*) as count FROM sources').get() as any).count;
+    const totalChunks = (this.db.prepare('SELECT COUNT(*) as count FROM source_chunks').get() as any).count;
+
+    const byKind: Record<string, number> = {};
+    const kindRows = this.db.prepare('SELECT kind, COUNT(*) as count FROM sources GROUP BY kind').all() as any[];
+    for (const row of kindRows) {
+      byKind[row.kind] = row.count;
+    }
+
+    return { totalSources, totalChunks, byKind };
+  }
+
+  getPath(): string {
+    return this.dbPath;
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  private rowToTrackedFile(row: any): TrackedFile {
+    return {
+      path: row.path,
+      root: row.root,
+      sourceId: row.source_id,
+      mtimeMs: row.mtime_ms,
+      size: row.size,
+      contentHash: row.content_hash,
+    };
+  }
+
+  private rowToSource(row: any): SourceRecord {
+    return {
+      id: row.id,
+      name: row.name,
+      title: row.title,
+      kind: row.kind as SourceKind,
+      uri: row.uri ?? null,
+      chunkIds: this.getChunkIds(row.id),
+      contentHash: row.content_hash,
+      embedder: {
+        provider: row.embedder_provider,
+        model: row.embedder_model ?? undefined,
+        dimensions: row.embedder_dimensions,
+      },
+      chunking: JSON.parse(row.chunking_json),
+      metadata: row.metadata_json ? JSON.parse(row.metadata_json) : undefined,
+      ingestedAt: new Date(row.ingested_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+}
+
+/**
+ * Derive a stable source ID from its kind and location
+ */
+export function createSourceId(kind: SourceKind, locator: string): string {
+  return createHash('sha256').update(`${kind}:${locator}`).digest('hex').slice(0, 16);
+}
+
+export function hashContent(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+export function getEmbedderInfo(embedder: Embedder, config: RAGConfig): SourceEmbedderInfo {
+  return {
+    provider: config.embeddings,
+    model: embedder.modelName,
+    dimensions: embedder.dimensions,
+  };
+}
+
+// Singleton instance
+let instance: SourceRegistry | null = null;
+
+export function getSourceRegistry(dbPath?: string): SourceRegistry {
+  if (!instance) {
+    instance = new SourceRegistry(dbPath);
+  }
+  return instance;
+}
+
+export function closeSourceRegistry(): void {
+  if (instance) {
+    instance.close();
+    instance = null;
+  }
+}
@@ -0,0 +1,343 @@
+/**
+ * Web Crawler
+ *
+ * Built-in breadth-first crawler used when Firecrawl is not configured.
+ * Stays within the start URL's origin (and optionally a path prefix),
+ * honours each origin's robots.txt including Crawl-delay, seeds the queue from
+ * sitemap.xml, rate-limits requests, and sends them through the
+ * `ProxyManager` so configured proxies apply. Pages are extracted with the
+ * document loaders, so HTML, PDFs and other linked documents all work.
+ */
+
+import { parseHTML } from 'linkedom';
+import type { RAGConfig } from '../types/index.js';
+import { createProxyManager } from '../proxy/index.js';
+import { findDocumentLoader, loadDocument, type LoadedDocument } from '../adapters/loaders/index.js';
+import { RobotsTxt } from './robotsTxt.js';
+
+export const DEFAULT_CRAWLER_USER_AGENT = 'cursor-rag-crawler/1.0 (+https://github.com/garethdaine/cursor-recursive-rag)';
+
+/** Sitemap files followed from a sitemap index */
+const MAX_SITEMAP_FILES = 10;
+
+export type CrawlFetch = (url: string, init?: RequestInit) => Promise<Response>;
+
+export interface CrawlOptions {
+  maxPages?: number;
+  /** Link hops from the start URL (sitemap entries count as one hop) */
+  maxDepth?: number;
+  /** Only follow links on the start URL's origin (default: true) */
+  sameOrigin?: boolean;
+  /** Only crawl URLs whose path starts with this prefix, e.g. `/docs/` */
+  pathPrefix?: string;
+  /** Honour robots.txt rules and Crawl-delay (default: true) */
+  respectRobots?: boolean;
+  /** Seed the queue from robots.txt sitemaps and /sitemap.xml (default: true) */
+  useSitemap?: boolean;
+  /** Minimum delay between requests (default: 500ms) */
+  delayMs?: number;
+  /** Per-request timeout (default: 15000ms) */
+  timeoutMs?: number;
+  userAgent?: string;
+}
+
+export interface CrawledPage {
+  url: string;
+  depth: number;
+  title?: string;
+  document: LoadedDocument;
+}
+
+export interface CrawlSummary {
+  pagesCrawled: number;
+  skipped: Array<{ url: string; reason: string }>;
+}
+
+interface QueueItem {
+  url: string;
+  depth: number;
+}
+
+const DEFAULTS = {
+  maxPages: 100,
+  maxDepth: 3,
+  delayMs: 500,
+  timeoutMs: 15000,
+};
+
+export class WebCrawler {
+  private options: CrawlOptions;
+  private fetchFn: CrawlFetch;
+  private lastRequestAt = 0;
+
+  constructor(options: CrawlOptions = {}, fetchFn: CrawlFetch = fetch) {
+    this.options = options;
+    this.fetchFn = fetchFn;
+  }
+
+  /**
+   * Crawl from a start URL, handing each extracted page to `onPage`
+   *
+   * Pages are processed one at a time so ingestion keeps pace with fetching.
+   * Errors thrown by `onPage` stop the crawl.
+   */
+  async crawl(startUrl: string, onPage: (page: CrawledPage) => Promise<void>): Promise<CrawlSummary> {
+    const start = new URL(startUrl);
+    start.hash = '';
+
+    const maxPages = this.options.maxPages ?? DEFAULTS.maxPages;
+    const maxDepth = this.options.maxDepth ?? DEFAULTS.maxDepth;
+    const summary: CrawlSummary = { pagesCrawled: 0, skipped: [] };
+
+    // Each origin has its own robots.txt, loaded the first time one of its pages is dequeued
+    const robotsByOrigin = new Map<string, RobotsTxt>();
+    const robotsFor = async (url: URL): Promise<RobotsTxt> => {
+      let robots = robotsByOrigin.get(url.origin);
+      if (!robots) {
+        robots = this.options.respectRobots === false ? RobotsTxt.allowAll() : await this.loadRobots(url);
+        robotsByOrigin.set(url.origin, robots);
+      }
+      return robots;
+    };
+    const delayFor = (robots: RobotsTxt): number => Math.max(
+      this.options.delayMs ?? DEFAULTS.delayMs,
+      (robots.crawlDelaySeconds ?? 0) * 1000
+    );
+
+    const seen = new Set<string>([start.href]);
+    const queue: QueueItem[] = [{ url: start.href, depth: 0 }];
+
+    if (this.options.useSitemap !== false && maxDepth > 0) {
+      const robots = await robotsFor(start);
+      for (const url of await this.loadSitemapUrls(start, robots, delayFor(robots))) {
+        if (!seen.has(url) && this.inScope(new URL(url), start)) {
+          seen.add(url);
+          queue.push({ url, depth: 1 });
+        }
+      }
+    }
+
+    while (queue.length > 0 && summary.pagesCrawled < maxPages) {
+      const item = queue.shift()!;
+      const url = new URL(item.url);
+      const robots = await robotsFor(url);
+
+      if (!robots.isAllowed(url.pathname + url.search)) {
+        summary.skipped.push({ url: item.url, reason: 'disallowed by robots.txt' });
+        continue;
+      }
+
+      let response: Response;
+      try {
+        response = await this.request(item.url, delayFor(robots));
+      } catch (error) {
+        summary.skipped.push({ url: item.url, reason: error instanceof Error ? error.message : 'request failed' });
+        continue;
+      }
+
+      if (!response.ok) {
+        summary.skipped.push({ url: item.url, reason: `HTTP ${response.status}` });
+        await response.body?.cancel();
+        continue;
+      }
+
+      // Redirects may leave the crawl scope or land on a page already queued
+      const finalUrl = new URL(response.url || item.url);
+      finalUrl.hash = '';
+      if (finalUrl.href !== item.url) {
+        if (!this.inScope(finalUrl, start) || seen.has(finalUrl.href)) {
+          summary.skipped.push({ url: item.url, reason: `redirected to ${finalUrl.href}` });
+          await response.body?.cancel();
+          continue;
+        }
+        seen.add(finalUrl.href);
+      }
+
+      const mimeType = response.headers.get('content-type') ?? undefined;
+      if (!isSupportedContent(finalUrl.href, mimeType)) {
+        summary.skipped.push({ url: finalUrl.href, reason: `unsupported content type ${mimeType ?? 'unknown'}` });
+        await response.body?.cancel();
+        continue;
+      }
+
+      const data = Buffer.from(await response.arrayBuffer());
+      const isHtml = findDocumentLoader({ path: finalUrl.href, mimeType })?.name === 'html';
+      const directives = isHtml ? readHtmlDirectives(data, finalUrl) : { links: [], noindex: false, nofollow: false };
+
+      if (!directives.nofollow && item.depth < maxDepth) {
+        for (const link of directives.links) {
+          if (!seen.has(link.href) && this.inScope(link, start)) {
+            seen.add(link.href);
+            queue.push({ url: link.href, depth: item.depth + 1 });
+          }
+        }
+      }
+
+      if (directives.noindex) {
+        summary.skipped.push({ url: finalUrl.href, reason: 'noindex' });
+        continue;
+      }
+
+      let document: LoadedDocument;
+      try {
+        document = await loadDocument({ data, path: finalUrl.href, mimeType });
+      } catch (error) {
+        summary.skipped.push({ url: finalUrl.href, reason: error instanceof Error ? error.message : 'extraction failed' });
+        continue;
+      }
+
+      if (!document.text.trim()) {
+        summary.skipped.push({ url: finalUrl.href, reason: 'no text content' });
+        continue;
+      }
+
+      await onPage({ url: finalUrl.href, depth: item.depth, title: document.title, document });
+      summary.pagesCrawled++;
+    }
+
+    return summary;
+  }
+
+  private inScope(url: URL, start: URL): boolean {
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return false;
+    if (this.options.sameOrigin !== false && url.origin !== start.origin) return false;
+    if (this.options.pathPrefix && !url.pathname.startsWith(this.options.pathPrefix)) return false;
+    return true;
+  }
+
+  private async loadRobots(origin: URL): Promise<RobotsTxt> {
+    const userAgent = this.options.userAgent ?? DEFAULT_CRAWLER_USER_AGENT;
+    try {
+      const response = await this.request(new URL('/robots.txt', origin).href, 0);
+      if (!response.ok) {
+        await response.body?.cancel();
+        // RFC 9309: no robots.txt (4xx) allows everything, a server error disallows everything
+        return response.status >= 400 && response.status < 500 ? RobotsTxt.allowAll() : RobotsTxt.disallowAll();
+      }
+      return RobotsTxt.parse(await response.text(), userAgent);
+    } catch {
+      // Unreachable counts as a server error
+      return RobotsTxt.disallowAll();
+    }
+  }
+
+  private async loadSitemapUrls(start: URL, robots: RobotsTxt, delayMs: number): Promise<string[]> {
+    const fallback = robots.isAllowed('/sitemap.xml') ? [new URL('/sitemap.xml', start).href] : [];
+    const pending = robots.sitemaps.length > 0 ? [...robots.sitemaps] : fallback;
+    const urls: string[] = [];
+    let filesRead = 0;
+
+    while (pending.length > 0 && filesRead < MAX_SITEMAP_FILES) {
+      const sitemapUrl = pending.shift()!;
+      filesRead++;
+
+      try {
+        const response = await this.request(sitemapUrl, delayMs);
+        if (!response.ok) {
+          await response.body?.cancel();
+          continue;
+        }
+
+        const xml = await response.text();
+        const locations = Array.from(xml.matchAll(/<loc>\s*([^<]+?)\s*<\/loc>/gi), m => decodeXmlEntities(m[1]));
+
+        if (/<sitemapindex[\s>]/i.test(xml)) {
+          pending.push(...locations);
+        } else {
+          for (const location of locations) {
+            try {
+              const url = new URL(location);
+              url.hash = '';
+              urls.push(url.href);
+            } catch {
+              // Ignore malformed entries
+            }
+          }
+        }
+      } catch {
+        // A missing or broken sitemap is not fatal
+      }
+    }
+
+    return urls;
+  }
+
+  /**
+   * Fetch a URL, waiting so requests are at least `delayMs` apart
+   */
+  private async request(url: string, delayMs: number): Promise<Response> {
+    const wait = this.lastRequestAt + delayMs - Date.now();
+    if (wait > 0) {
+      await new Promise(resolve => setTimeout(resolve, wait));
+    }
+    this.lastRequestAt = Date.now();
+
+    return this.fetchFn(url, {
+      headers: { 'User-Agent': this.options.userAgent ?? DEFAULT_CRAWLER_USER_AGENT },
+      redirect: 'follow',
+      signal: AbortSignal.timeout(this.options.timeoutMs ?? DEFAULTS.timeoutMs),
+    });
+  }
+}
+
+/**
+ * Create a crawler that sends requests through the configured proxy
+ */
+export function createWebCrawler(config: RAGConfig, options: CrawlOptions = {}): WebCrawler {
+  const proxyManager = createProxyManager(config);
+  return new WebCrawler(
+    { ...config.crawler, ...options },
+    (url, init) => proxyManager.fetchWithProxy(url, init)
+  );
+}
+
+function isSupportedContent(url: string, mimeType: string | undefined): boolean {
+  if (findDocumentLoader({ path: url, mimeType })) return true;
+  const type = mimeType?.split(';')[0].trim().toLowerCase();
+  return !type || type.startsWith('text/');
+}
+
+function readHtmlDirectives(data: Buffer, pageUrl: URL): { links: URL[]; noindex: boolean; nofollow: boolean } {
+  const { document } = parseHTML(data.toString('utf-8'));
+
+  const robotsMeta = (Array.from(document.querySelectorAll('meta[name]')) as any[])
+    .filter(meta => meta.getAttribute('name').toLowerCase() === 'robots')
+    .map(meta => (meta.getAttribute('content') ?? '').toLowerCase())
+    .join(',');
+  const base = document.querySelector('base[href]')?.getAttribute('href');
+  let baseUrl = pageUrl;
+  if (base) {
+    try {
+      baseUrl = new URL(base, pageUrl);
+    } catch {
+      // Keep the page URL
+    }
+  }
+
+  const links: URL[] = [];
+  for (const anchor of Array.from(document.querySelectorAll('a[href]')) as any[]) {
+    if ((anchor.getAttribute('rel') ?? '').toLowerCase().split(/\s+/).includes('nofollow')) continue;
+    try {
+      const link = new URL(anchor.getAttribute('href'), baseUrl);
+      link.hash = '';
+      links.push(link);
+    } catch {
+      // Ignore malformed hrefs
+    }
+  }
+
+  return {
+    links,
+    noindex: /\b(noindex|none)\b/.test(robotsMeta),
+    nofollow: /\b(nofollow|none)\b/.test(robotsMeta),
+  };
+}
+
+function decodeXmlEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
@@ -0,0 +1,59 @@
+/**
+ * Metadata Filter Types
+ *
+ * Search filters are written as MongoDB-style JSON (`MetadataFilter`), the
+ * form agents send through MCP, and parsed into a `FilterNode` tree that each
+ * vector store translates into its native query language.
+ */
+
+export type FilterScalar = string | number | boolean;
+
+/**
+ * Operators on one metadata field; several operators on a field must all match
+ *
+ * Range operators take numbers or ISO 8601 dates, which are compared as
+ * epoch milliseconds (e.g. `createdAt`). On array fields such as `tags`,
+ * `$eq`, `$in` and the range operators match when any element matches, and
+ * `$ne` and `$nin` when none does.
+ */
+export interface FieldCondition {
+  $eq?: FilterScalar;
+  $ne?: FilterScalar;
+  $in?: FilterScalar[];
+  $nin?: FilterScalar[];
+  $gt?: number | string;
+  $gte?: number | string;
+  $lt?: number | string;
+  $lte?: number | string;
+  /** Whether the field is set (not missing or null) */
+  $exists?: boolean;
+}
+
+/**
+ * Filter over chunk metadata, e.g.
+ * `{ chunkType: 'code', language: { $in: ['ts', 'go'] }, createdAt: { $gt: '2026-01-01' } }`
+ *
+ * Fields at one level must all match. A bare value matches exactly and an
+ * array of values behaves like `$in`.
+ */
+export interface MetadataFilter {
+  $and?: MetadataFilter[];
+  $or?: MetadataFilter[];
+  [field: string]: FilterScalar | FilterScalar[] | FieldCondition | MetadataFilter[] | undefined;
+}
+
+export type FilterComparisonOperator = '$eq' | '$ne';
+export type FilterRangeOperator = '$gt' | '$gte' | '$lt' | '$lte';
+export type FilterSetOperator = '$in' | '$nin';
+
+/**
+ * Parsed filter tree
+ */
+export type FilterNode =
+  | { op: '$and' | '$or'; filters: FilterNode[] }
+  | { op: FilterComparisonOperator; field: string; value: FilterScalar }
+  | { op: FilterRangeOperator; field: string; value: number }
+  | { op: FilterSetOperator; field: string; values: FilterScalar[] }
+  | { op: '$exists'; field: string; value: boolean };
+
+export type FilterFieldNode = Exclude<FilterNode, { op: '$and' | '$or' }>;
@@ -1,8 +1,34 @@
+import type { MetadataFilter } from './filter.js';
+
 export interface VectorStore {
   add(docs: VectorDocument[]): Promise<void>;
   search(embedding: number[], options: SearchOptions): Promise<SearchResult[]>;
   delete(ids: string[]): Promise<void>;
   count(): Promise<number>;
+  /** Page through stored chunks; pass the returned cursor to continue */
+  scan?(cursor: string | null, limit: number, options?: VectorStoreScanOptions): Promise<VectorStoreScanPage>;
+  /** Remove every chunk, so vectors of another dimension can be stored */
+  clear?(): Promise<void>;
+}
+
+/** Chunk as held by a vector store; the vector is only read on request */
+export interface StoredChunk {
+  id: string;
+  content: string;
+  metadata: Record<string, any>;
+  /** Set when scanned with `includeEmbeddings` */
+  embedding?: number[];
+}
+
+export interface VectorStoreScanOptions {
+  /** Also read each chunk's vector (an extra round trip on some stores) */
+  includeEmbeddings?: boolean;
+}
+
+export interface VectorStoreScanPage {
+  chunks: StoredChunk[];
+  /** Null once every chunk has been returned */
+  nextCursor: string | null;
 }
 
 export interface VectorDocument {
@@ -30,9 +56,21 @@ export interface SearchResult {
 
 export interface SearchOptions {
   topK: number;
-  filter?: Record<string, any>;
+  filter?: MetadataFilter;
 }
 
+/**
+ * Encoding of stored vectors: float32, float16 or int8 with a per-vector scale
+ */
+export type VectorQuantization = 'none' | 'float16' | 'int8';
+
+/**
+ * Retrieval mode: embeddings only, BM25 keywords only, or both fused with RRF
+ */
+export type SearchMode = 'vector' | 'lexical' | 'hybrid';
+
+export type RerankerType = 'none' | 'cross-encoder' | 'llm';
+
 export interface MCPGatewayConfig {
   enabled: boolean;
   url: string;
@@ -46,7 +84,7 @@ export interface OpenSkillsConfig {
 }
 
 export interface RAGConfig {
-  vectorStore: 'memory' | 'chroma' | 'qdrant' | 'redis' | 'redis-stack' | 'vectorize';
+  vectorStore: 'memory' | 'local' | 'chroma' | 'qdrant' | 'redis' | 'redis-stack' | 'vectorize';
   embeddings: 'xenova' | 'openai' | 'ollama';
   apiKeys?: {
     openai?: string;
@@ -62,12 +100,35 @@ export interface RAGConfig {
       baseUrl?: string;
       model?: string;
     };
+    cloudflare?: {
+      accountId?: string;
+      /** API token with Vectorize edit permission */
+      apiToken?: string;
+    };
   };
   vectorStoreConfig?: {
     chromaUrl?: string;
     redisUrl?: string;
     vectorDim?: number;
     useRediSearch?: boolean;
+    /** Vectorize index name (default: cursor-rag-knowledge-base) */
+    vectorizeIndex?: string;
+    /** Vectorize namespace to keep this knowledge base's vectors in */
+    vectorizeNamespace?: string;
+    /** Cloudflare API base URL (default: https://api.cloudflare.com/client/v4) */
+    vectorizeApiUrl?: string;
+    /** Per-request timeout of the Vectorize API in ms (default: 30000) */
+    vectorizeTimeoutMs?: number;
+    /** Directory of the local vector store (default: ~/.cursor-rag/local-store) */
+    localPath?: string;
+    /** Vector encoding for a new local store (default: none, i.e. float32) */
+    localQuantization?: VectorQuantization;
+    /** HNSW links per node in the local store (default: 16) */
+    hnswM?: number;
+    /** HNSW candidate list size while inserting (default: 100) */
+    hnswEfConstruction?: number;
+    /** HNSW candidate list size while searching (default: 64) */
+    hnswEfSearch?: number;
     [key: string]: any;
   };
   proxy?: ProxyConfig;
@@ -81,12 +142,85 @@ export interface RAGConfig {
   };
   mcpGateway?: MCPGatewayConfig;
   openSkills?: OpenSkillsConfig;
+  search?: {
+    /** Default mode for search_knowledge and recursive_query (default: hybrid) */
+    defaultMode?: SearchMode;
+    /** Reciprocal rank fusion constant (default: 60) */
+    rrfK?: number;
+    /** Default reranker for search_knowledge and recursive_query (default: none) */
+    reranker?: RerankerType;
+    /** Hugging Face cross-encoder model (default: Xenova/ms-marco-MiniLM-L-6-v2) */
+    rerankModel?: string;
+  };
+  /** SQLite cache of embedding vectors, keyed by model, dimensions and text hash */
+  embeddingCache?: {
+    /** Serve repeated texts from the cache (default: true) */
+    enabled?: boolean;
+    /** Entries kept before least recently used ones are evicted (default: 100000) */
+    maxEntries?: number;
+  };
+  /** Default chunking for ingest; per-ingest settings override it and are recorded per source */
+  chunking?: ChunkOptions;
+  /** Built-in crawler used when no Firecrawl API key is configured */
+  crawler?: {
+    /** Minimum delay between requests in ms (default: 500); robots.txt Crawl-delay can raise it */
+    delayMs?: number;
+    /** Per-request timeout in ms (default: 15000) */
+    timeoutMs?: number;
+    userAgent?: string;
+    /** Honour robots.txt (default: true) */
+    respectRobots?: boolean;
+    /** Seed the crawl from sitemap.xml (default: true) */
+    useSitemap?: boolean;
+  };
+  /** Named knowledge bases besides the always-present "default" collection */
+  collections?: Record<string, CollectionConfig>;
+  /** Collection used when a tool names none and no workspace path matches (default: "default") */
+  defaultCollection?: string;
+  /** Backup archives written by the maintenance scheduler */
+  snapshots?: {
+    /** Directory for snapshot archives (default: ~/.cursor-rag/snapshots) */
+    dir?: string;
+    /** Snapshots kept per collection (default: 5) */
+    keep?: number;
+  };
 }
 
+/**
+ * A separate knowledge base with its own vectors, keyword index, sources and memory
+ */
+export interface CollectionConfig {
+  description?: string;
+  /** Workspace folders whose MCP sessions use this collection by default */
+  paths?: string[];
+  /** ISO 8601 creation time */
+  createdAt?: string;
+}
+
+/**
+ * Where text is split before oversized sections fall back to a sliding window:
+ * paragraphs and markdown headings (`semantic`), blank lines only (`paragraph`),
+ * or nowhere (`none`)
+ */
+export type ChunkBoundaryMode = 'semantic' | 'paragraph' | 'none';
+
+/**
+ * `auto` uses declaration-based chunking for source files (by extension) and
+ * text chunking otherwise; `text` always uses text chunking
+ */
+export type ChunkStrategy = 'auto' | 'text';
+
 export interface ChunkOptions {
+  /** Maximum chunk size in tokens (default: 512) */
   chunkSize?: number;
+  /** Sliding-window overlap as a percentage of the previous window (default: 50) */
   chunkOverlap?: number;
+  /** Shorthand for boundaryMode: false is the same as 'none' */
   respectBoundaries?: boolean;
+  boundaryMode?: ChunkBoundaryMode;
+  /** tiktoken model whose tokenizer measures chunk size (default: gpt-3.5-turbo) */
+  tokenizerModel?: string;
+  strategy?: ChunkStrategy;
 }
 
 export interface Chunk {
@@ -119,3 +253,6 @@ export * from './llmProvider.js';
 
 // Re-export rules optimizer types
 export * from './rulesOptimizer.js';
+
+// Re-export metadata filter types
+export * from './filter.js';
@@ -5,6 +5,8 @@
  * and relationship mapping for an advanced memory system.
  */
 
+import type { MetadataFilter } from './filter.js';
+
 /**
  * Chunk type classification for different knowledge categories
  */
@@ -231,6 +233,32 @@ export interface ProcessedConversation {
   knowledgeExtracted: number;
 }
 
+/**
+ * Persisted result of a maintenance job run
+ */
+export interface MaintenanceRun {
+  id: number;
+  jobName: string;
+  success: boolean;
+  startTime: Date;
+  endTime: Date;
+  duration: number;
+  metrics: Record<string, number>;
+  errors: string[];
+}
+
+/**
+ * Lock held by the process running a maintenance job
+ */
+export interface MaintenanceLock {
+  jobName: string;
+  owner: string;
+  host: string;
+  pid: number;
+  acquiredAt: Date;
+  expiresAt: Date;
+}
+
 
 /**
  * Hybrid search result with decay-adjusted scoring
@@ -256,7 +284,7 @@ export interface EnhancedSearchResult {
  */
 export interface EnhancedSearchOptions {
   topK: number;
-  filter?: Record<string, unknown>;
+  filter?: MetadataFilter;
   minDecayScore?: number;
   chunkTypes?: ChunkType[];
   includeArchived?: boolean;
@@ -267,6 +267,8 @@ export interface OutdatedRule {
     reference: string;
     currentVersion?: string;
     suggestedUpdate?: string;
+    /** Manifest or lockfile the current version was read from */
+    source?: string;
   }>;
 }
 
@@ -0,0 +1,57 @@
+/**
+ * Source Registry Types
+ *
+ * A source is one ingested document (file, URL, crawled page, or raw text)
+ * together with the chunk IDs it produced in the vector store.
+ */
+
+import type { ChunkOptions } from './index.js';
+
+export type SourceKind = 'file' | 'url' | 'crawl' | 'text';
+
+export interface SourceEmbedderInfo {
+  provider: string;
+  model?: string;
+  dimensions: number;
+}
+
+export interface SourceRecord {
+  /** Stable ID derived from the source kind and location */
+  id: string;
+  /** Label written to chunk `metadata.source` (used for search filters) */
+  name: string;
+  title: string;
+  kind: SourceKind;
+  /** URL or absolute file path; null for raw text */
+  uri: string | null;
+  chunkIds: string[];
+  /** SHA-256 of the ingested content */
+  contentHash: string;
+  embedder: SourceEmbedderInfo;
+  chunking: ChunkOptions;
+  metadata?: Record<string, any>;
+  ingestedAt: Date;
+  updatedAt: Date;
+}
+
+export type SourceRecordInput = Omit<SourceRecord, 'ingestedAt' | 'updatedAt'>;
+
+/**
+ * Last-seen state of a file under a watched directory
+ */
+export interface TrackedFile {
+  /** Absolute path */
+  path: string;
+  /** Absolute path of the directory being tracked */
+  root: string;
+  sourceId: string;
+  mtimeMs: number;
+  size: number;
+  contentHash: string;
+}
+
+export interface SourceRegistryStats {
+  totalSources: number;
+  totalChunks: number;
+  byKind: Record<string, number>;
+}
@@ -0,0 +1,84 @@
+import { createServer, type IncomingMessage, type Server } from 'http';
+import type { AddressInfo } from 'net';
+
+export interface FixtureRoute {
+  status?: number;
+  contentType?: string;
+  body?: string | Buffer;
+  /** Respond with a 301 to this path instead */
+  redirect?: string;
+}
+
+export interface FixtureServer {
+  /** Origin, e.g. `http://127.0.0.1:54321` */
+  url: string;
+  /** Request paths in arrival order */
+  requests: string[];
+  /** `Date.now()` at each request, matching `requests` */
+  requestTimes: number[];
+  /** Headers of the last request to each path */
+  headers: Map<string, IncomingMessage['headers']>;
+  close(): Promise<void>;
+}
+
+/**
+ * Serve fixed responses keyed by path (with query string) on a random local port
+ *
+ * Pass a function to build routes that need the server's origin, such as
+ * sitemaps with absolute URLs. Unknown paths get a 404.
+ */
+export async function startFixtureServer(
+  routesOrFactory: Record<string, FixtureRoute> | ((origin: string) => Record<string, FixtureRoute>)
+): Promise<FixtureServer> {
+  let routes: Record<string, FixtureRoute> = {};
+  const requests: string[] = [];
+  const requestTimes: number[] = [];
+  const headers = new Map<string, IncomingMessage['headers']>();
+
+  const server: Server = createServer((req, res) => {
+    const path = req.url ?? '/';
+    requests.push(path);
+    requestTimes.push(Date.now());
+    headers.set(path, req.headers);
+
+    const route = routes[path];
+    if (!route) {
+      res.writeHead(404, { 'Content-Type': 'text/plain' });
+      res.end('Not found');
+      return;
+    }
+    if (route.redirect) {
+      res.writeHead(301, { Location: route.redirect });
+      res.end();
+      return;
+    }
+
+    res.writeHead(route.status ?? 200, { 'Content-Type': route.contentType ?? 'text/html; charset=utf-8' });
+    res.end(route.body ?? '');
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  const url = `http://127.0.0.1:${port}`;
+  routes = typeof routesOrFactory === 'function' ? routesOrFactory(url) : routesOrFactory;
+
+  return {
+    url,
+    requests,
+    requestTimes,
+    headers,
+    close: () => new Promise<void>(resolve => {
+      server.closeAllConnections();
+      server.close(() => resolve());
+    }),
+  };
+}
+
+/**
+ * An HTML page with a title, a heading, a paragraph and links
+ */
+export function htmlPage(title: string, body: string, links: string[] = [], head: string = ''): string {
+  const anchors = links.map(href => `<li><a href="${href}">${href}</a></li>`).join('');
+  return `<!DOCTYPE html><html><head><title>${title}</title>${head}</head><body>` +
+    `<main><h1>${title}</h1><p>${body}</p><ul>${anchors}</ul></main></body></html>`;
+}
@@ -5,8 +5,16 @@ import { rmSync, existsSync, mkdirSync, writeFileSync } from 'fs';
 import { searchKnowledgeTool } from '../../../src/server/tools/search.js';
 import { ingestDocumentTool } from '../../../src/server/tools/ingest.js';
 import { listSourcesTool } from '../../../src/server/tools/list-sources.js';
-import type { VectorStore, VectorDocument, SearchResult, SearchOptions, RAGConfig } from '../../../src/types/index.js';
+import { deleteSourceTool } from '../../../src/server/tools/delete-source.js';
+import { reingestSourceTool } from '../../../src/server/tools/reingest-source.js';
+import { crawlAndIngestTool } from '../../../src/server/tools/crawl.js';
+import { recursiveQueryTool } from '../../../src/server/tools/recursive-query.js';
+import { SourceRegistry } from '../../../src/services/sourceRegistry.js';
+import type { VectorStore, VectorDocument, SearchResult, SearchOptions, RAGConfig, VectorStoreScanPage } from '../../../src/types/index.js';
 import { createMockEmbeddingsAdapter } from '../../mocks/embeddings.js';
+import { createMockLLMProvider } from '../../mocks/llmProvider.js';
+import { createPdf } from '../../fixtures/binaryDocuments.js';
+import { startFixtureServer, htmlPage, type FixtureRoute } from '../../fixtures/httpServer.js';
 
 const testId = `test-mcp-tools-${Date.now()}-${Math.random().toString(36).slice(2)}`;
 const testDir = join(tmpdir(), testId);
@@ -59,6 +67,16 @@ class InMemoryVectorStore implements VectorStore {
     return this.documents.size;
   }
 
+  async scan(cursor: string | null, limit: number): Promise<VectorStoreScanPage> {
+    const offset = cursor ? Number(cursor) : 0;
+    const docs = this.getAll();
+    const next = offset + limit;
+    return {
+      chunks: docs.slice(offset, next).map(({ id, content, metadata }) => ({ id, content, metadata })),
+      nextCursor: next < docs.length ? String(next) : null,
+    };
+  }
+
   getAll(): VectorDocument[] {
     return Array.from(this.documents.values());
   }
@@ -91,7 +109,8 @@ describe('MCP Tools Integration', () => {
   let vectorStore: InMemoryVectorStore;
   let embedder: ReturnType<typeof createMockEmbeddingsAdapter>;
   let config: RAGConfig;
-  let deps: { vectorStore: InMemoryVectorStore; embedder: typeof embedder; config: RAGConfig };
+  let sourceRegistry: SourceRegistry;
+  let deps: { vectorStore: InMemoryVectorStore; embedder: typeof embedder; config: RAGConfig; sourceRegistry: SourceRegistry };
 
   beforeEach(() => {
     mkdirSync(testDir, { recursive: true });
@@ -102,10 +121,12 @@ describe('MCP Tools Integration', () => {
       vectorStore: 'memory',
       embeddings: 'xenova',
     };
-    deps = { vectorStore, embedder, config };
+    sourceRegistry = new SourceRegistry(join(testDir, 'sources.db'));
+    deps = { vectorStore, embedder, config, sourceRegistry };
   });
 
   afterEach(() => {
+    sourceRegistry.close();
     if (existsSync(testDir)) {
       rmSync(testDir, { recursive: true, force: true });
     }
@@ -186,6 +207,115 @@ describe('MCP Tools Integration', () => {
 
       expect(result.content[0].text).toContain('Found 0 results');
     });
+
+    it('should rerank over-fetched results with the LLM', async () => {
+      const llm = createMockLLMProvider({ defaultResponse: '[3] > [2] > [1]' });
+
+      const result = await searchKnowledgeTool(
+        { query: 'JavaScript', topK: 1, mode: 'vector', rerank: 'llm' },
+        { ...deps, llm }
+      );
+
+      expect(llm.chat).toHaveBeenCalledTimes(1);
+      expect(result.content[0].text).toContain('Found 1 results (reranked by llm:');
+      expect(result.content[0].text).toMatch(/Score: 1\.0000 \(retrieval -?\d+\.\d+\)/);
+    });
+
+    it('should fall back to retrieval order when reranking fails', async () => {
+      const llm = createMockLLMProvider({ shouldFail: true });
+
+      const result = await searchKnowledgeTool(
+        { query: 'JavaScript', mode: 'vector', rerank: 'llm' },
+        { ...deps, llm }
+      );
+
+      expect(result.isError).toBeUndefined();
+      expect(result.content[0].text).toContain('Found 3 results (reranking skipped: Mock LLM failure)');
+    });
+  });
+
+  describe('recursive_query tool', () => {
+    beforeEach(async () => {
+      await ingestDocumentTool({ source: 'Access tokens are refreshed every hour by the auth service.', title: 'auth-guide' }, deps);
+      await ingestDocumentTool({ source: 'Failed charges are retried three times by billing.', title: 'billing-guide' }, deps);
+    });
+
+    it('should answer directly and report the retrieval without an LLM', async () => {
+      const result = await recursiveQueryTool({ query: 'How are access tokens refreshed?' }, { ...deps, llm: null });
+      const text = result.content[0].text;
+
+      expect(text).toContain('## Retrieval');
+      expect(text).toContain('- Strategy: direct');
+      expect(text).toMatch(/- Iterations: \d+/);
+      expect(text).toContain('- Cost: $0.0000 of $0.50 budget');
+      expect(text).toMatch(/- Terminated: (Confidence threshold reached|No further follow-up questions|Max iterations reached)/);
+      expect(text).toContain('auth-guide');
+    });
+
+    it('should run recursive retrieval with the LLM when forced', async () => {
+      const llm = createMockLLMProvider({
+        responses: new Map([
+          ['Your goal is to find relevant information', '{"type": "answer", "params": {"value": "Tokens refresh hourly."}}'],
+          ['## Question', 'Access tokens are refreshed every hour [1].'],
+        ]),
+      });
+
+      const result = await recursiveQueryTool(
+        { query: 'How are access tokens refreshed?', strategy: 'recursive', costBudget: 0.25 },
+        { ...deps, llm }
+      );
+      const text = result.content[0].text;
+
+      expect(text).toContain('Access tokens are refreshed every hour [1].');
+      expect(text).toContain('- Strategy: recursive');
+      expect(text).toContain('- Iterations: 1');
+      expect(text).toContain('of $0.25 budget');
+      expect(text).toContain('- Terminated: Answer found');
+      expect(text).toMatch(/- Tokens: \d+ of 3072 thinking tokens; 1024 reserved for the answer/);
+      expect(text).toMatch(/- Time: [\d.]+s of 120\.0s/);
+      const synthesisPrompt = vi.mocked(llm.chat).mock.calls.at(-1)![0][1].content;
+      expect(synthesisPrompt).toContain('Tokens refresh hourly.');
+    });
+
+    it('should not let a limited local model drive recursion', async () => {
+      const llm = {
+        ...createMockLLMProvider({ responses: new Map([['## Question', 'Tokens refresh hourly and charges retry [1][2].']]) }),
+        type: 'ollama' as const,
+      };
+
+      const result = await recursiveQueryTool(
+        { query: 'Compare access token refresh and billing retries', minConfidence: 0 },
+        { ...deps, llm }
+      );
+      const text = result.content[0].text;
+
+      expect(text).toContain('- Strategy: iterative (complexity: moderate)');
+      expect(text).toContain('(limits for llama3.2)');
+      expect(text).toContain('- Tokens: 0 of 1536 thinking tokens; 512 reserved for the answer');
+      const prompts = vi.mocked(llm.complete).mock.calls.map(call => call[0]);
+      expect(prompts.some(prompt => prompt.includes('Your goal is to find relevant information'))).toBe(false);
+    });
+
+    it('should charge follow-up generation to the cost and token budgets', async () => {
+      let round = 0;
+      const llm = createMockLLMProvider({
+        responseFn: async messages => messages.at(-1)!.content.includes('looking for gaps')
+          ? JSON.stringify({ sufficient: false, followUps: [{ query: `billing retry schedule ${++round}`, reasoning: 'gap' }] })
+          : 'Charges are retried three times [1].',
+      });
+
+      const result = await recursiveQueryTool(
+        { query: 'How are failed charges retried?', strategy: 'iterative', minConfidence: 1, costBudget: 0.00001 },
+        { ...deps, llm }
+      );
+      const text = result.content[0].text;
+
+      expect(round).toBe(1);
+      // The controller's initial retrieval counts as the first iteration
+      expect(text).toContain('- Iterations: 2 of');
+      expect(text).toContain('- Terminated: Budget exceeded');
+      expect(text).toMatch(/- Tokens: [1-9]\d* of \d+ thinking tokens/);
+    });
   });
 
   describe('ingest_document tool', () => {
@@ -263,31 +393,40 @@ const x = 1;
 
       expect(result.isError).toBeFalsy();
     });
+
+    it('should extract PDF text and record page numbers on chunks', async () => {
+      const pdfPath = join(testDir, 'manual.pdf');
+      writeFileSync(pdfPath, createPdf(['Installation steps', 'Troubleshooting tips']));
+
+      const result = await ingestDocumentTool({ source: pdfPath }, deps);
+      const docs = vectorStore.getAll();
+
+      expect(result.isError).toBeFalsy();
+      expect(docs.map(d => [d.content, d.metadata.page, d.metadata.format])).toEqual([
+        ['Installation steps', 1, 'pdf'],
+        ['Troubleshooting tips', 2, 'pdf'],
+      ]);
+
+      const search = await searchKnowledgeTool({ query: 'Troubleshooting tips', topK: 1 }, deps);
+      expect(search.content[0].text).toContain(`${pdfPath} (page 2)`);
+    });
+
+    it('should report documents that cannot be parsed', async () => {
+      const brokenPath = join(testDir, 'broken.ipynb');
+      writeFileSync(brokenPath, '{ not json');
+
+      const result = await ingestDocumentTool({ source: brokenPath }, deps);
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Failed to extract text');
+    });
   });
 
   describe('list_sources tool', () => {
     beforeEach(async () => {
-      const docs: VectorDocument[] = [
-        {
-          id: 'doc-1',
-          content: 'Content from source A',
-          embedding: await embedder.embed('source A'),
-          metadata: { source: 'source-a' },
-        },
-        {
-          id: 'doc-2',
-          content: 'More content from source A',
-          embedding: await embedder.embed('source A again'),
-          metadata: { source: 'source-a' },
-        },
-        {
-          id: 'doc-3',
-          content: 'Content from source B',
-          embedding: await embedder.embed('source B'),
-          metadata: { source: 'source-b' },
-        },
-      ];
-      await vectorStore.add(docs);
+      const longContent = Array.from({ length: 40 }, (_, i) => `Paragraph ${i} of source A.`).join('\n\n');
+      await ingestDocumentTool({ source: longContent, title: 'source-a' }, deps);
+      await ingestDocumentTool({ source: 'Content from source B', title: 'source-b' }, deps);
     });
 
     it('should list all unique sources', async () => {
@@ -297,19 +436,152 @@ const x = 1;
       expect(result.content[0].text).toContain('source-b');
     });
 
-    it('should include chunk counts per source', async () => {
+    it('should include exact chunk counts per source', async () => {
       const result = await listSourcesTool({}, deps);
+      const text = result.content[0].text;
+      const sourceA = sourceRegistry.findSource('source-a')!;
+
+      expect(sourceA.chunkIds.length).toBeGreaterThan(1);
+      expect(text).toContain(`source-a (${sourceA.chunkIds.length} chunks, text)`);
+      expect(text).toContain('source-b (1 chunks, text)');
+      expect(text).toContain(`with ${await vectorStore.count()} chunks`);
+      expect(text).not.toContain('sample-based');
+    });
 
-      expect(result.content[0].text).toContain('2');
-      expect(result.content[0].text).toContain('1');
+    it('should record hash, embedder and chunker settings', () => {
+      const sourceB = sourceRegistry.findSource('source-b')!;
+
+      expect(sourceB.contentHash).toMatch(/^[a-f0-9]{64}$/);
+      expect(sourceB.embedder).toEqual({ provider: 'xenova', model: 'mock-embedding-model', dimensions: 384 });
+      expect(sourceB.chunking).toMatchObject({ chunkSize: 512, chunkOverlap: 50 });
+      expect(vectorStore.getAll().find(d => d.id === sourceB.chunkIds[0])?.metadata.sourceId).toBe(sourceB.id);
     });
 
-    it('should handle empty vector store', async () => {
-      const emptyStore = new InMemoryVectorStore();
-      const result = await listSourcesTool({}, { ...deps, vectorStore: emptyStore });
+    it('should handle an empty registry', async () => {
+      const emptyRegistry = new SourceRegistry(join(testDir, 'empty-sources.db'));
+      const result = await listSourcesTool({}, { ...deps, sourceRegistry: emptyRegistry });
+      emptyRegistry.close();
 
       expect(result.content[0].text).toMatch(/(No sources|0 source)/i);
     });
+
+    it('should point out chunks ingested before sources were tracked', async () => {
+      await vectorStore.add([
+        { id: 'legacy-1', content: 'Old guide part 1', embedding: [1, 0], metadata: { source: 'old-guide.md' } },
+        { id: 'legacy-2', content: 'Old guide part 2', embedding: [0, 1], metadata: { source: 'old-guide.md' } },
+      ]);
+      const emptyRegistry = new SourceRegistry(join(testDir, 'legacy-sources.db'));
+      const result = await listSourcesTool({}, { ...deps, sourceRegistry: emptyRegistry });
+      emptyRegistry.close();
+      const text = result.content[0].text;
+
+      expect(text).toContain(`holds ${await vectorStore.count()} chunks from 3 source(s)`);
+      expect(text).toContain('- old-guide.md (2 chunks)');
+      expect(text).toContain('Re-ingest them');
+    });
+  });
+
+  describe('delete_source and reingest_source tools', () => {
+    it('should delete a source and its chunks', async () => {
+      await ingestDocumentTool({ source: 'Temporary notes', title: 'temp-notes' }, deps);
+      await ingestDocumentTool({ source: 'Permanent notes', title: 'keep-notes' }, deps);
+
+      const result = await deleteSourceTool({ source: 'temp-notes' }, deps);
+
+      expect(result.isError).toBeFalsy();
+      expect(result.content[0].text).toContain('Deleted source "temp-notes"');
+      expect(vectorStore.getSourcesList().map(s => s.source)).toEqual(['keep-notes']);
+      expect(sourceRegistry.findSource('temp-notes')).toBeNull();
+    });
+
+    it('should report unknown sources as errors', async () => {
+      const result = await deleteSourceTool({ source: 'missing' }, deps);
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Source not found');
+    });
+
+    it('should re-ingest a changed file in place', async () => {
+      const filePath = join(testDir, 'guide.md');
+      writeFileSync(filePath, 'Version one of the guide.');
+      await ingestDocumentTool({ source: filePath }, deps);
+
+      const unchanged = await reingestSourceTool({ source: filePath }, deps);
+      expect(unchanged.content[0].text).toContain('unchanged');
+
+      writeFileSync(filePath, 'Version two of the guide.');
+      const result = await reingestSourceTool({ source: filePath }, deps);
+
+      expect(result.isError).toBeFalsy();
+      expect(result.content[0].text).toContain('Replaced 1 stale chunks');
+      expect(vectorStore.getAll().map(d => d.content)).toEqual(['Version two of the guide.']);
+      expect(sourceRegistry.listSources()).toHaveLength(1);
+    });
+
+    it('should keep the recorded name when re-ingesting a document with its own title', async () => {
+      const filePath = join(testDir, 'page.html');
+      writeFileSync(filePath, '<html><head><title>Deploy Guide</title></head><body><p>Version one of the deploy guide.</p></body></html>');
+      await ingestDocumentTool({ source: filePath }, deps);
+
+      writeFileSync(filePath, '<html><head><title>Deploy Guide</title></head><body><p>Version two of the deploy guide.</p></body></html>');
+      const result = await reingestSourceTool({ source: filePath }, deps);
+
+      expect(result.isError).toBeFalsy();
+      expect(vectorStore.getAll().map(d => d.metadata.source)).toEqual([filePath]);
+      expect(sourceRegistry.listSources().map(s => [s.name, s.title])).toEqual([[filePath, 'Deploy Guide']]);
+      expect(sourceRegistry.findSource(filePath)).not.toBeNull();
+    });
+
+    it('should refuse to re-ingest raw text sources', async () => {
+      await ingestDocumentTool({ source: 'Inline text', title: 'inline' }, deps);
+
+      const result = await reingestSourceTool({ source: 'inline' }, deps);
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('raw text');
+    });
+  });
+
+  describe('crawl_and_ingest tool', () => {
+    it('should crawl with the built-in crawler when no Firecrawl key is configured', async () => {
+      const routes: Record<string, FixtureRoute> = {
+        '/robots.txt': { contentType: 'text/plain', body: 'User-agent: *\nDisallow: /admin\n' },
+        '/docs/': { body: htmlPage('Docs Home', 'Start here for the widget docs.', ['/docs/install', '/docs/admin', '/admin']) },
+        '/docs/install': { body: htmlPage('Install', 'Run the widget installer.') },
+        '/docs/admin': { body: htmlPage('Admin Docs', 'Administer widgets.') },
+        '/admin': { body: htmlPage('Admin', 'Private console.') },
+      };
+      const site = await startFixtureServer(routes);
+      const crawlDeps = { ...deps, config: { ...config, crawler: { delayMs: 0 } } };
+
+      try {
+        const result = await crawlAndIngestTool({ url: `${site.url}/docs/`, pathPrefix: '/docs/' }, crawlDeps);
+
+        expect(result.isError).toBeFalsy();
+        expect(result.content[0].text).toContain('Successfully crawled and ingested 3 pages');
+        expect(site.requests).not.toContain('/admin');
+
+        const sources = sourceRegistry.listSources({ kind: 'crawl' });
+        expect(sources.map(s => s.title).sort()).toEqual(['Admin Docs', 'Docs Home', 'Install']);
+        expect(sources[0].metadata).toMatchObject({ crawlRoot: `${site.url}/docs/`, format: 'html' });
+
+        routes['/docs/install'] = { body: htmlPage('Install', 'Run the new widget installer.') };
+        const reingested = await reingestSourceTool({ source: `${site.url}/docs/install` }, crawlDeps);
+
+        expect(reingested.isError).toBeFalsy();
+        expect(reingested.content[0].text).toContain('Re-ingested "Install"');
+        expect(vectorStore.getAll().some(d => d.content.includes('new widget installer'))).toBe(true);
+      } finally {
+        await site.close();
+      }
+    });
+
+    it('should require a key when Firecrawl is requested explicitly', async () => {
+      const result = await crawlAndIngestTool({ url: 'https://example.com', engine: 'firecrawl' }, deps);
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Firecrawl API key not configured');
+    });
   });
 
   describe('Tool Response Format', () => {
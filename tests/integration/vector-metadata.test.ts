@@ -5,6 +5,7 @@ import { rmSync, existsSync, mkdirSync } from 'fs';
 import { EnhancedVectorStore, DEFAULT_SCORE_WEIGHTS } from '../../src/services/enhancedVectorStore.js';
 import { MemoryMetadataStore } from '../../src/services/memoryMetadataStore.js';
 import { DecayCalculator } from '../../src/services/decayCalculator.js';
+import { LexicalIndex } from '../../src/services/lexicalIndex.js';
 import type { VectorStore, VectorDocument, SearchResult, SearchOptions } from '../../src/types/index.js';
 import type { ChunkType } from '../../src/types/memory.js';
 
@@ -443,6 +444,32 @@ describe('EnhancedVectorStore + MemoryMetadataStore Integration', () => {
     });
   });
 
+  describe('Keyword Index', () => {
+    let lexicalIndex: LexicalIndex;
+
+    beforeEach(() => {
+      lexicalIndex = new LexicalIndex(join(testDir, 'lexical.db'));
+      enhancedStore = new EnhancedVectorStore(vectorStore, { metadataStore, lexicalIndex });
+    });
+
+    afterEach(() => {
+      lexicalIndex.close();
+    });
+
+    it('should index added documents and drop deleted ones', async () => {
+      await enhancedStore.add([
+        createDocument('solution', 'Fixed ERR_SOCKET_TIMEOUT by raising the pool size', [1, 0, 0]),
+        createDocument('other', 'Unrelated decision', [0, 1, 0]),
+      ]);
+
+      expect(lexicalIndex.search('ERR_SOCKET_TIMEOUT', { topK: 5 }).map(r => r.id)).toEqual(['solution']);
+
+      await enhancedStore.delete(['solution']);
+      expect(lexicalIndex.has('solution')).toBe(false);
+      expect(lexicalIndex.count()).toBe(1);
+    });
+  });
+
   describe('Memory Statistics', () => {
     beforeEach(async () => {
       await enhancedStore.add([
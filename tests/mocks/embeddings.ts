@@ -28,6 +28,8 @@ export function createMockEmbeddingsAdapter(
     embedBatch: vi.fn(async (texts: string[]) => {
       return Promise.all(texts.map(embed));
     }),
+    dimensions: dimension,
+    modelName: 'mock-embedding-model',
     getDimension: vi.fn(() => dimension),
     getConfig: vi.fn((): EmbeddingsConfig => ({
       provider: 'mock',
@@ -9,3 +9,6 @@ export type { MockLLMOptions } from './llmProvider.js';
 
 export { createInMemoryDatabase, createMockMetadataStore } from './database.js';
 export type { MockMetadataStore } from './database.js';
+
+export { startMockVectorize } from './vectorizeServer.js';
+export type { MockVectorizeServer, MockVectorizeOptions, MockVectorizeIndex, MockVectorizeVector } from './vectorizeServer.js';
@@ -0,0 +1,242 @@
+import { createServer, type IncomingMessage, type ServerResponse, type Server } from 'http';
+import type { AddressInfo } from 'net';
+
+export interface MockVectorizeVector {
+  id: string;
+  values: number[];
+  metadata?: Record<string, any>;
+  namespace?: string;
+}
+
+export interface MockVectorizeIndex {
+  dimensions: number;
+  metric: string;
+  metadataIndexes: string[];
+  vectors: Map<string, MockVectorizeVector>;
+}
+
+export interface MockVectorizeOptions {
+  accountId?: string;
+  apiToken?: string;
+  /** Reject upserts that would grow an index past this many vectors */
+  maxVectors?: number;
+}
+
+export interface MockVectorizeServer {
+  /** Value for `vectorStoreConfig.vectorizeApiUrl` */
+  apiUrl: string;
+  indexes: Map<string, MockVectorizeIndex>;
+  /** `METHOD path` of each request, without the account prefix */
+  requests: string[];
+  /** Answer the next `count` requests with HTTP 429 */
+  rateLimitNext(count: number): void;
+  /** Leave the next `count` requests unanswered */
+  stallNext(count: number): void;
+  close(): Promise<void>;
+}
+
+/**
+ * Emulate the Cloudflare Vectorize v2 REST API on a random local port
+ *
+ * Covers index create/get/delete, metadata indexes, NDJSON upserts, queries
+ * with metadata filters and namespaces, get/delete by IDs, info and vector
+ * listing, with the API's topK and get_by_ids limits.
+ */
+export async function startMockVectorize(options: MockVectorizeOptions = {}): Promise<MockVectorizeServer> {
+  const accountId = options.accountId ?? 'test-account';
+  const apiToken = options.apiToken ?? 'test-token';
+  const indexes = new Map<string, MockVectorizeIndex>();
+  const requests: string[] = [];
+  let rateLimited = 0;
+  let stalled = 0;
+
+  const prefix = `/client/v4/accounts/${accountId}/vectorize/v2`;
+
+  const handle = async (req: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const path = url.pathname.startsWith(prefix) ? url.pathname.slice(prefix.length) : url.pathname;
+    requests.push(`${req.method} ${path}`);
+
+    if (req.headers.authorization !== `Bearer ${apiToken}`) {
+      return fail(res, 401, 10000, 'Authentication error');
+    }
+    if (!url.pathname.startsWith(prefix)) {
+      return fail(res, 404, 7003, 'Could not route to the requested path');
+    }
+    if (stalled > 0) {
+      stalled--;
+      return;
+    }
+    if (rateLimited > 0) {
+      rateLimited--;
+      res.setHeader('Retry-After', '0');
+      return fail(res, 429, 971, 'Please wait and consider throttling your request speed');
+    }
+
+    const raw = await readBody(req);
+    const body = raw && req.headers['content-type'] === 'application/json' ? JSON.parse(raw) : undefined;
+
+    if (path === '/indexes' && req.method === 'POST') {
+      if (indexes.has(body.name)) return fail(res, 409, 3002, 'vectorize.index.duplicate_name');
+      indexes.set(body.name, {
+        dimensions: body.config.dimensions,
+        metric: body.config.metric,
+        metadataIndexes: [],
+        vectors: new Map(),
+      });
+      return ok(res, { name: body.name, config: body.config });
+    }
+
+    const match = /^\/indexes\/([^/]+)(?:\/(.+))?$/.exec(path);
+    if (!match) return fail(res, 404, 7003, 'Could not route to the requested path');
+    const name = decodeURIComponent(match[1]);
+    const action = match[2];
+    const index = indexes.get(name);
+    if (!index) return fail(res, 404, 3000, 'vectorize.index.not_found');
+
+    switch (`${req.method} ${action ?? ''}`) {
+      case 'GET ':
+        return ok(res, { name, config: { dimensions: index.dimensions, metric: index.metric } });
+
+      case 'DELETE ':
+        indexes.delete(name);
+        return ok(res, null);
+
+      case 'GET info':
+        return ok(res, { dimensions: index.dimensions, vectorCount: index.vectors.size });
+
+      case 'POST metadata_index/create':
+        index.metadataIndexes.push(body.propertyName);
+        return ok(res, { mutationId: `m-${requests.length}` });
+
+      case 'POST upsert': {
+        const vectors: MockVectorizeVector[] = raw.split('\n').filter(Boolean).map(line => JSON.parse(line));
+        const added = vectors.filter(v => !index.vectors.has(v.id)).length;
+        if (options.maxVectors !== undefined && index.vectors.size + added > options.maxVectors) {
+          return fail(res, 400, 40008, `You have exceeded the maximum number of vectors (${options.maxVectors}) allowed for this index`);
+        }
+        for (const vector of vectors) {
+          if (vector.values.length !== index.dimensions) {
+            return fail(res, 400, 40012, `vector dimensions ${vector.values.length} do not match index dimensions ${index.dimensions}`);
+          }
+        }
+        vectors.forEach(v => index.vectors.set(v.id, v));
+        return ok(res, { mutationId: `m-${requests.length}` });
+      }
+
+      case 'POST query': {
+        const limit = body.returnValues || body.returnMetadata === 'all' ? 20 : 100;
+        if (body.topK > limit) {
+          return fail(res, 400, 40025, `topK must be at most ${limit} when returning values or all metadata`);
+        }
+        const matches = [...index.vectors.values()]
+          .filter(v => body.namespace === undefined || v.namespace === body.namespace)
+          .filter(v => matchesFilter(v.metadata ?? {}, body.filter ?? {}, index.metadataIndexes))
+          .map(v => ({
+            id: v.id,
+            score: cosine(body.vector, v.values),
+            ...(v.namespace ? { namespace: v.namespace } : {}),
+            ...(body.returnMetadata === 'all' ? { metadata: v.metadata } : {}),
+          }))
+          .sort((a, b) => b.score - a.score)
+          .slice(0, body.topK);
+        return ok(res, { count: matches.length, matches });
+      }
+
+      case 'POST get_by_ids':
+        if (body.ids.length > 20) return fail(res, 400, 40026, 'get_by_ids accepts at most 20 ids');
+        return ok(res, body.ids.filter((id: string) => index.vectors.has(id)).map((id: string) => index.vectors.get(id)));
+
+      case 'POST delete_by_ids':
+        body.ids.forEach((id: string) => index.vectors.delete(id));
+        return ok(res, { mutationId: `m-${requests.length}` });
+
+      case 'GET list': {
+        const count = Number(url.searchParams.get('count') ?? 100);
+        const start = Number(url.searchParams.get('cursor') ?? 0);
+        const ids = [...index.vectors.keys()].sort();
+        const page = ids.slice(start, start + count);
+        const isTruncated = start + page.length < ids.length;
+        return ok(res, {
+          count: page.length,
+          totalCount: ids.length,
+          isTruncated,
+          nextCursor: isTruncated ? String(start + page.length) : null,
+          vectors: page.map(id => ({ id })),
+        });
+      }
+
+      default:
+        return fail(res, 404, 7003, 'Could not route to the requested path');
+    }
+  };
+
+  const server: Server = createServer((req, res) => {
+    handle(req, res).catch(error => fail(res, 500, 1000, String(error)));
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    apiUrl: `http://127.0.0.1:${port}/client/v4`,
+    indexes,
+    requests,
+    rateLimitNext: (count: number) => { rateLimited = count; },
+    stallNext: (count: number) => { stalled = count; },
+    close: () => new Promise<void>(resolve => {
+      server.closeAllConnections();
+      server.close(() => resolve());
+    }),
+  };
+}
+
+function matchesFilter(metadata: Record<string, any>, filter: Record<string, any>, indexed: string[]): boolean {
+  return Object.entries(filter).every(([key, condition]) => {
+    // Vectorize ignores vectors whose property isn't indexed
+    if (!indexed.includes(key)) return false;
+    const value = metadata[key];
+    return Object.entries(condition as Record<string, any>).every(([operator, operand]) => {
+      switch (operator) {
+        case '$eq': return value === operand;
+        case '$ne': return value !== operand;
+        case '$in': return operand.includes(value);
+        case '$nin': return !operand.includes(value);
+        case '$gt': return value > operand;
+        case '$gte': return value >= operand;
+        case '$lt': return value < operand;
+        case '$lte': return value <= operand;
+        default: throw new Error(`Unsupported operator ${operator}`);
+      }
+    });
+  });
+}
+
+function cosine(a: number[], b: number[]): number {
+  let dot = 0, normA = 0, normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let data = '';
+    req.on('data', chunk => { data += chunk; });
+    req.on('end', () => resolve(data));
+    req.on('error', reject);
+  });
+}
+
+function ok(res: ServerResponse, result: unknown): void {
+  res.writeHead(200, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ success: true, errors: [], messages: [], result }));
+}
+
+function fail(res: ServerResponse, status: number, code: number, message: string): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ success: false, errors: [{ code, message }], messages: [], result: null }));
+}
@@ -0,0 +1,178 @@
+import { describe, it, expect } from 'vitest';
+import {
+  findDocumentLoader,
+  loadDocument,
+  parseDelimited,
+  splitMarkdownSections,
+} from '../../../src/adapters/loaders/index.js';
+import { createDocx, createPdf } from '../../fixtures/binaryDocuments.js';
+
+const ARTICLE_HTML = `<!DOCTYPE html>
+<html>
+<head><title>Install Guide | Example Docs</title></head>
+<body>
+  <nav><a href="/">Home</a> <a href="/docs">Docs</a> <a href="/blog">Blog</a></nav>
+  <main>
+    <article>
+      <h1>Install Guide</h1>
+      <p>${'This guide explains how to install the command line tool on every platform. '.repeat(6)}</p>
+      <h2>Linux</h2>
+      <p>Run the installer with <code>sudo</code>. ${'Package managers are supported as well. '.repeat(6)}</p>
+      <ul><li>Download the archive</li><li>Extract it</li></ul>
+      <pre><code>npm install -g example-cli
+example --version</code></pre>
+      <table>
+        <tr><th>Platform</th><th>Status</th></tr>
+        <tr><td>Linux</td><td>Supported</td></tr>
+      </table>
+    </article>
+  </main>
+  <footer>Copyright Example Inc.</footer>
+  <script>trackPageView();</script>
+</body>
+</html>`;
+
+describe('document loaders', () => {
+  describe('findDocumentLoader', () => {
+    it('should pick loaders by extension, including URL paths', () => {
+      expect(findDocumentLoader({ path: '/docs/manual.PDF' })?.name).toBe('pdf');
+      expect(findDocumentLoader({ path: 'https://example.com/report.docx?download=1' })?.name).toBe('docx');
+      expect(findDocumentLoader({ path: 'notes.md' })).toBeNull();
+    });
+
+    it('should prefer a known extension over the MIME type', () => {
+      expect(findDocumentLoader({ path: 'analysis.ipynb', mimeType: 'application/json' })?.name).toBe('ipynb');
+      expect(findDocumentLoader({ path: 'https://example.com/page.php', mimeType: 'text/html; charset=utf-8' })?.name).toBe('html');
+      expect(findDocumentLoader({ mimeType: 'text/plain' })).toBeNull();
+    });
+  });
+
+  describe('html', () => {
+    it('should keep the main content as markdown and drop boilerplate', async () => {
+      const doc = await loadDocument({ data: Buffer.from(ARTICLE_HTML), path: 'https://example.com/install' });
+
+      expect(doc.format).toBe('html');
+      expect(doc.title).toBe('Install Guide | Example Docs');
+      expect(doc.text).toContain('## Linux');
+      expect(doc.text).toContain('- Download the archive');
+      expect(doc.text).toContain('```\nnpm install -g example-cli\nexample --version\n```');
+      expect(doc.text).toContain('| Platform | Status |');
+      expect(doc.text).not.toContain('Copyright');
+      expect(doc.text).not.toContain('trackPageView');
+      expect(doc.text).not.toContain('<p>');
+    });
+
+    it('should record the heading path of each section', async () => {
+      const doc = await loadDocument({ data: Buffer.from(ARTICLE_HTML), mimeType: 'text/html' });
+      const linux = doc.sections.find(s => s.text.includes('Run the installer'));
+
+      expect(linux?.metadata.heading).toMatch(/Linux$/);
+    });
+  });
+
+  describe('splitMarkdownSections', () => {
+    it('should nest headings and ignore headings inside code fences', () => {
+      const sections = splitMarkdownSections('Intro\n\n# A\ntext\n## B\n```\n# not a heading\n```\n# C\nmore');
+
+      expect(sections.map(s => s.metadata.heading)).toEqual([undefined, 'A', 'A > B', 'C']);
+    });
+  });
+
+  describe('pdf', () => {
+    it('should extract text per page', async () => {
+      const doc = await loadDocument({ data: createPdf(['First page text', 'Second page text']), path: 'manual.pdf' });
+
+      expect(doc.format).toBe('pdf');
+      expect(doc.sections).toEqual([
+        { text: 'First page text', metadata: { page: 1 } },
+        { text: 'Second page text', metadata: { page: 2 } },
+      ]);
+    });
+
+    it('should sniff PDFs without an extension', async () => {
+      const doc = await loadDocument({ data: createPdf(['Sniffed']) });
+
+      expect(doc.format).toBe('pdf');
+    });
+  });
+
+  describe('docx', () => {
+    it('should keep heading styles as markdown headings', async () => {
+      const doc = await loadDocument({
+        data: createDocx([
+          ['Heading1', 'Design Overview'],
+          ['', 'The service is split into three parts.'],
+          ['Heading2', 'Storage'],
+          ['', 'Chunks live in SQLite.'],
+        ]),
+        path: 'design.docx',
+      });
+
+      expect(doc.format).toBe('docx');
+      expect(doc.title).toBe('Design Overview');
+      expect(doc.text).toContain('## Storage\n\nChunks live in SQLite.');
+      expect(doc.sections.map(s => s.metadata.heading)).toEqual(['Design Overview', 'Design Overview > Storage']);
+    });
+  });
+
+  describe('ipynb', () => {
+    it('should emit one section per cell with fenced code and outputs', async () => {
+      const notebook = {
+        metadata: { kernelspec: { language: 'python' } },
+        cells: [
+          { cell_type: 'markdown', source: ['# Analysis\n', 'Loads the data.'] },
+          {
+            cell_type: 'code',
+            source: 'print(len(rows))',
+            outputs: [{ output_type: 'stream', text: ['42\n'] }],
+          },
+          { cell_type: 'code', source: '', outputs: [] },
+        ],
+      };
+
+      const doc = await loadDocument({ data: Buffer.from(JSON.stringify(notebook)), path: 'analysis.ipynb' });
+
+      expect(doc.title).toBe('Analysis');
+      expect(doc.sections).toHaveLength(2);
+      expect(doc.sections[1]).toEqual({
+        text: '```python\nprint(len(rows))\n```\n\nOutput:\n```\n42\n```',
+        metadata: { cell: 2, cellType: 'code' },
+      });
+    });
+  });
+
+  describe('csv and json', () => {
+    it('should parse quoted fields', () => {
+      expect(parseDelimited('a,b\n"x, y","say ""hi"""\r\n')).toEqual([['a', 'b'], ['x, y', 'say "hi"']]);
+    });
+
+    it('should render rows as column/value pairs grouped with row ranges', async () => {
+      const rows = Array.from({ length: 30 }, (_, i) => `user${i},${i % 2 ? 'admin' : 'viewer'}`);
+      const doc = await loadDocument({ data: Buffer.from(['name,role', ...rows].join('\n')), path: 'users.csv' });
+
+      expect(doc.sections).toHaveLength(2);
+      expect(doc.sections[0].text.split('\n')[0]).toBe('name: user0; role: viewer');
+      expect(doc.sections[1].metadata).toEqual({ rowStart: 26, rowEnd: 30 });
+    });
+
+    it('should flatten JSON objects into one section per top-level key', async () => {
+      const config = { server: { port: 8080, hosts: ['a', 'b'] }, features: [{ name: 'search', enabled: true }] };
+      const doc = await loadDocument({ data: Buffer.from(JSON.stringify(config)), path: 'config.json' });
+
+      expect(doc.sections).toEqual([
+        { text: 'server.port: 8080\nserver.hosts: a, b', metadata: { jsonPath: 'server' } },
+        { text: 'features[0].name: search\nfeatures[0].enabled: true', metadata: { jsonPath: 'features' } },
+      ]);
+    });
+  });
+
+  it('should read unknown types as text', async () => {
+    const doc = await loadDocument({ data: Buffer.from('# Notes\n\nPlain markdown.'), path: 'notes.md' });
+
+    expect(doc).toEqual({
+      text: '# Notes\n\nPlain markdown.',
+      sections: [{ text: '# Notes\n\nPlain markdown.', metadata: {} }],
+      format: 'text',
+    });
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { LLMProviderManager } from '../../../src/adapters/llm/index.js';
+import type { LLMResponse } from '../../../src/types/llmProvider.js';
+
+const reply = (content: string): LLMResponse => ({ content, model: 'test', latencyMs: 1 } as LLMResponse);
+
+/**
+ * Manager over a local primary and a hosted fallback with stubbed calls
+ */
+function createManager(options = {}) {
+  const manager = new LLMProviderManager([
+    { provider: 'ollama', defaultModel: 'llama3.2' },
+    { provider: 'openai', apiKey: 'sk-test' },
+  ], options);
+  const [primary, fallback] = manager.getAllProviders();
+
+  vi.spyOn(primary, 'isAvailable').mockResolvedValue(true);
+  vi.spyOn(fallback, 'isAvailable').mockResolvedValue(true);
+  const primaryChat = vi.spyOn(primary, 'chat').mockRejectedValue(new Error('model load timed out'));
+  const fallbackChat = vi.spyOn(fallback, 'chat').mockResolvedValue(reply('from fallback'));
+
+  return { manager, primaryChat, fallbackChat };
+}
+
+describe('LLMProviderManager', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('should report the primary model', () => {
+    expect(createManager().manager.getPrimaryModel()).toBe('llama3.2');
+  });
+
+  it('should fail over and skip a provider once its circuit opens', async () => {
+    const { manager, primaryChat, fallbackChat } = createManager();
+
+    for (let i = 0; i < 4; i++) {
+      expect((await manager.complete('hi')).content).toBe('from fallback');
+    }
+
+    expect(primaryChat).toHaveBeenCalledTimes(3);
+    expect(fallbackChat).toHaveBeenCalledTimes(4);
+    expect(manager.getCircuitStatus()).toEqual([
+      { provider: expect.any(String), type: 'ollama', state: 'open', failures: 3 },
+      { provider: expect.any(String), type: 'openai', state: 'closed', failures: 0 },
+    ]);
+  });
+
+  it('should retry a tripped provider after the reset time', async () => {
+    const { manager, primaryChat } = createManager({ circuitBreakerThreshold: 1, circuitBreakerResetMs: 20 });
+
+    await manager.complete('hi');
+    primaryChat.mockResolvedValue(reply('from primary'));
+    expect((await manager.complete('hi')).content).toBe('from fallback');
+
+    await new Promise(resolve => setTimeout(resolve, 30));
+
+    expect((await manager.complete('hi')).content).toBe('from primary');
+    expect(manager.getCircuitStatus()[0].state).toBe('closed');
+  });
+
+  it('should report skipped providers when every circuit is open', async () => {
+    const { manager, fallbackChat } = createManager({ circuitBreakerThreshold: 1 });
+    fallbackChat.mockRejectedValue(new Error('rate limited'));
+
+    await expect(manager.complete('hi')).rejects.toThrow('rate limited');
+    await expect(manager.complete('hi')).rejects.toThrow(/skipped after 1 consecutive failures/);
+    expect(await manager.isAvailable()).toBe(false);
+  });
+});
@@ -0,0 +1,186 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { appendFileSync, existsSync, mkdtempSync, rmSync, statSync, utimesSync, writeFileSync } from 'fs';
+import { LocalAdapter } from '../../../src/adapters/vector/local.js';
+import type { RAGConfig, VectorDocument } from '../../../src/types/index.js';
+
+const createDoc = (id: string, embedding: number[], metadata: Record<string, any> = { source: 'docs' }): VectorDocument => ({
+  id,
+  content: `Content of ${id} – ünïcode`,
+  embedding,
+  metadata,
+});
+
+/** Deterministic unit-ish vector per index */
+const vectorFor = (i: number, dimensions = 8) =>
+  Array.from({ length: dimensions }, (_, d) => Math.sin(i * 12.9898 + d * 78.233));
+
+describe('LocalAdapter', () => {
+  let dir: string;
+
+  const createAdapter = (overrides: Partial<NonNullable<RAGConfig['vectorStoreConfig']>> = {}) =>
+    new LocalAdapter({
+      vectorStore: 'local',
+      embeddings: 'xenova',
+      vectorStoreConfig: { localPath: dir, ...overrides },
+    });
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'test-local-store-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should search, update and delete chunks', async () => {
+    const adapter = createAdapter();
+    await adapter.add([createDoc('a', [1, 0, 0]), createDoc('b', [0, 1, 0]), createDoc('c', [0.7, 0.7, 0])]);
+
+    const results = await adapter.search([1, 0.1, 0], { topK: 2 });
+    expect(results.map(r => r.id)).toEqual(['a', 'c']);
+    expect(results[0]).toMatchObject({ content: 'Content of a – ünïcode', metadata: { source: 'docs' } });
+
+    await adapter.add([createDoc('a', [0, 0, 1], { source: 'moved' })]);
+    await adapter.delete(['b', 'missing']);
+
+    expect(await adapter.count()).toBe(2);
+    expect((await adapter.search([0, 0, 1], { topK: 1 }))[0]).toMatchObject({ id: 'a', metadata: { source: 'moved' } });
+  });
+
+  it('should persist appends and reload them from disk', async () => {
+    const adapter = createAdapter();
+    await adapter.add([createDoc('a', [1, 0, 0]), createDoc('b', [0, 1, 0])]);
+    const size = statSync(join(dir, 'vectors.log')).size;
+    await adapter.add([createDoc('c', [0, 0, 1])]);
+    await adapter.delete(['a']);
+
+    // Writes append to the log instead of rewriting it
+    expect(statSync(join(dir, 'vectors.log')).size).toBeGreaterThan(size);
+
+    const reloaded = createAdapter();
+    expect(await reloaded.count()).toBe(2);
+    expect((await reloaded.search([0, 0, 1], { topK: 1 }))[0]).toMatchObject({ id: 'c', content: 'Content of c – ünïcode' });
+    expect(existsSync(join(dir, 'index.hnsw'))).toBe(true);
+  });
+
+  it('should discard a partially written record on load', async () => {
+    await createAdapter().add([createDoc('a', [1, 0, 0])]);
+    appendFileSync(join(dir, 'vectors.log'), Buffer.from([1, 200, 0, 0, 0, 1, 2]));
+
+    const reloaded = createAdapter();
+    expect(await reloaded.count()).toBe(1);
+    await reloaded.add([createDoc('b', [0, 1, 0])]);
+    expect(await createAdapter().count()).toBe(2);
+  });
+
+  it('should pick up appends and compactions made by another process', async () => {
+    const writer = createAdapter();
+    const reader = createAdapter();
+    await writer.add([createDoc('a', [1, 0, 0]), createDoc('b', [0, 1, 0])]);
+    expect(await reader.count()).toBe(2);
+
+    await writer.add([createDoc('c', [0, 0, 1])]);
+    expect((await reader.search([0, 0, 1], { topK: 1 }))[0]).toMatchObject({ id: 'c', content: 'Content of c – ünïcode' });
+
+    // Both write to the same log without overwriting each other's records
+    await reader.add([createDoc('d', [0.5, 0.5, 0])]);
+    await writer.delete(['a']);
+    expect((await writer.search([0.5, 0.5, 0], { topK: 1 }))[0]).toMatchObject({ id: 'd', content: 'Content of d – ünïcode' });
+    expect(await reader.count()).toBe(3);
+
+    const docs = Array.from({ length: 2000 }, (_, i) => createDoc(`doc-${i}`, vectorFor(i, 3)));
+    await writer.add(docs);
+    await writer.delete(docs.slice(0, 1500).map(d => d.id));
+    await reader.add([createDoc('e', [0, 0.5, 0.5])]);
+
+    expect((await reader.search(vectorFor(1999, 3), { topK: 1 }))[0]).toMatchObject({ id: 'doc-1999', content: 'Content of doc-1999 – ünïcode' });
+    expect((await writer.search([0, 0.5, 0.5], { topK: 1 }))[0]).toMatchObject({ id: 'e', content: 'Content of e – ünïcode' });
+    expect(await createAdapter().count()).toBe(504);
+    expect(existsSync(join(dir, 'vectors.log.lock'))).toBe(false);
+  });
+
+  it('should take over a write lock left behind by a crashed process', async () => {
+    const adapter = createAdapter();
+    await adapter.add([createDoc('a', [1, 0, 0])]);
+
+    const lockPath = join(dir, 'vectors.log.lock');
+    writeFileSync(lockPath, String(process.pid));
+    const old = new Date(Date.now() - 60_000);
+    utimesSync(lockPath, old, old);
+
+    await adapter.add([createDoc('b', [0, 1, 0])]);
+    expect(await createAdapter().count()).toBe(2);
+    expect(existsSync(lockPath)).toBe(false);
+  });
+
+  it('should use the HNSW graph for large stores and keep it across reloads', async () => {
+    const adapter = createAdapter();
+    const docs = Array.from({ length: 1500 }, (_, i) => createDoc(`doc-${i}`, vectorFor(i), { source: 'docs', parity: i % 2 }));
+    await adapter.add(docs);
+
+    const reloaded = createAdapter();
+    const results = await reloaded.search(vectorFor(777), { topK: 5 });
+    expect(results[0].id).toBe('doc-777');
+
+    const odd = await reloaded.search(vectorFor(778), { topK: 5, filter: { parity: 1 } });
+    expect(odd).toHaveLength(5);
+    expect(odd.every(r => r.metadata.parity === 1)).toBe(true);
+  });
+
+  it('should compact the log once deleted chunks make up half of it', async () => {
+    const adapter = createAdapter();
+    const docs = Array.from({ length: 2000 }, (_, i) => createDoc(`doc-${i}`, vectorFor(i)));
+    await adapter.add(docs);
+    const before = statSync(join(dir, 'vectors.log')).size;
+
+    await adapter.delete(docs.slice(0, 1000).map(d => d.id));
+
+    expect(statSync(join(dir, 'vectors.log')).size).toBeLessThan(before * 0.6);
+    expect(await adapter.count()).toBe(1000);
+    expect((await adapter.search(vectorFor(1500), { topK: 1 }))[0].id).toBe('doc-1500');
+
+    const reloaded = createAdapter();
+    expect(await reloaded.count()).toBe(1000);
+    expect((await reloaded.search(vectorFor(1999), { topK: 1 }))[0]).toMatchObject({ id: 'doc-1999', content: 'Content of doc-1999 – ünïcode' });
+  });
+
+  it('should store quantized vectors in a smaller file', async () => {
+    const docs = Array.from({ length: 50 }, (_, i) => createDoc(`doc-${i}`, vectorFor(i, 256)));
+    const sizes: Record<string, number> = {};
+
+    for (const quantization of ['none', 'int8'] as const) {
+      const adapter = createAdapter({ localPath: join(dir, quantization), localQuantization: quantization });
+      await adapter.add(docs);
+      sizes[quantization] = statSync(join(dir, quantization, 'vectors.log')).size;
+      expect((await adapter.search(vectorFor(7, 256), { topK: 1 }))[0].id).toBe('doc-7');
+    }
+
+    expect(sizes.int8).toBeLessThan(sizes.none / 2);
+  });
+
+  it('should scan every chunk and clear the store', async () => {
+    const adapter = createAdapter();
+    await adapter.add(['a', 'b', 'c'].map((id, i) => createDoc(id, vectorFor(i, 3))));
+    await adapter.delete(['b']);
+
+    const first = await adapter.scan(null, 1);
+    const second = await adapter.scan(first.nextCursor, 5);
+    expect(first.chunks.map(c => c.id)).toEqual(['a']);
+    expect(second.chunks.map(c => c.id)).toEqual(['c']);
+    expect(second.nextCursor).toBeNull();
+
+    await adapter.clear();
+    await adapter.add([createDoc('d', [1, 0, 0, 0])]);
+    expect(await createAdapter().count()).toBe(1);
+  });
+
+  it('should explain dimension mismatches', async () => {
+    const adapter = createAdapter();
+    await adapter.add([createDoc('a', [1, 0, 0])]);
+
+    await expect(adapter.add([createDoc('b', [1, 0])])).rejects.toThrow(/holds 3-dimension vectors but chunk b has 2.*reindex --embeddings/);
+    await expect(adapter.search([1, 0], { topK: 1 })).rejects.toThrow(/query has 2 dimensions/);
+  });
+});
@@ -140,6 +140,22 @@ describe('MemoryAdapter', () => {
       expect(results.map(r => r.id)).not.toContain('similar');
     });
 
+    it('should filter on other metadata fields with operators', async () => {
+      await adapter.add([
+        { id: 'ts', content: 'TS', embedding: [1, 0, 0], metadata: { source: 'a', language: 'typescript', tags: ['auth'], createdAt: 2000 } },
+        { id: 'go', content: 'Go', embedding: [1, 0, 0], metadata: { source: 'b', language: 'go', tags: ['billing'], createdAt: 1000 } },
+      ]);
+
+      const results = await adapter.search([1, 0, 0], {
+        topK: 10,
+        filter: { $or: [{ tags: 'auth' }, { language: 'go', createdAt: { $lt: 500 } }] },
+      });
+
+      expect(results.map(r => r.id)).toEqual(['ts']);
+      await expect(adapter.search([1, 0, 0], { topK: 1, filter: { language: { $like: 'ts' } } as any }))
+        .rejects.toThrow(/Unknown operator \$like/);
+    });
+
     it('should return content and metadata', async () => {
       const results = await adapter.search([1, 0, 0], { topK: 1 });
 
@@ -228,6 +244,37 @@ describe('MemoryAdapter', () => {
 
       expect(results[0].score).toBeCloseTo(-1, 5);
     });
+
+    it('should explain dimension mismatches', async () => {
+      await adapter.add([createDoc('doc', 'Test', [1, 0, 0])]);
+
+      await expect(adapter.search([1, 0], { topK: 1 })).rejects.toThrow(
+        /query has 2 dimensions, stored chunk has 3.*cursor-rag reindex --embeddings/
+      );
+    });
+  });
+
+  describe('scan and clear', () => {
+    it('should page through stored chunks without their vectors', async () => {
+      await adapter.add(['a', 'b', 'c'].map(id => createDoc(id, `Doc ${id}`, [0.1, 0.2, 0.3])));
+
+      const first = await adapter.scan(null, 2);
+      const second = await adapter.scan(first.nextCursor, 2);
+
+      expect(first.chunks.map((c: any) => c.id)).toEqual(['a', 'b']);
+      expect(first.chunks[0]).toEqual({ id: 'a', content: 'Doc a', metadata: { source: 'test' } });
+      expect(second.chunks.map((c: any) => c.id)).toEqual(['c']);
+      expect(second.nextCursor).toBeNull();
+    });
+
+    it('should remove every chunk', async () => {
+      await adapter.add([createDoc('doc', 'Test', [1, 0, 0])]);
+
+      await adapter.clear();
+
+      expect(await adapter.count()).toBe(0);
+      expect(await new MemoryAdapter({ vectorStore: 'memory' } as any).count()).toBe(0);
+    });
   });
 
   describe('persistence', () => {
@@ -242,5 +289,15 @@ describe('MemoryAdapter', () => {
       const results = await newAdapter.search([0.1, 0.2, 0.3], { topK: 1 });
       expect(results[0].id).toBe('persisted');
     });
+
+    it('should keep each collection in its own file', async () => {
+      const work = new MemoryAdapter({ vectorStore: 'memory' } as any, 'work');
+      await adapter.add([createDoc('shared', 'Default doc', [1, 0, 0])]);
+      await work.add([createDoc('private', 'Work doc', [1, 0, 0])]);
+
+      expect(existsSync(join(testDir, 'collections', 'work', 'memory-store.json'))).toBe(true);
+      expect((await adapter.search([1, 0, 0], { topK: 5 })).map((r: any) => r.id)).toEqual(['shared']);
+      expect((await work.search([1, 0, 0], { topK: 5 })).map((r: any) => r.id)).toEqual(['private']);
+    });
   });
 });
@@ -0,0 +1,137 @@
+import { describe, it, expect, vi } from 'vitest';
+import { LLMListwiseReranker, createReranker, parseRanking, type Reranker } from '../../../src/adapters/rerankers/index.js';
+import { hybridSearch, rerankResults } from '../../../src/services/hybridSearch.js';
+import { HybridScorer, type ScoredResult } from '../../../src/services/hybridScorer.js';
+import type { RAGConfig, SearchResult, VectorStore } from '../../../src/types/index.js';
+import { createMockEmbeddingsAdapter } from '../../mocks/embeddings.js';
+import { createMockLLMProvider } from '../../mocks/llmProvider.js';
+
+const config: RAGConfig = { vectorStore: 'memory', embeddings: 'xenova' };
+
+function createResult(id: string, score: number): SearchResult {
+  return { id, content: `content ${id}`, metadata: { source: 'docs.md' }, score };
+}
+
+function createVectorStore(results: SearchResult[]): VectorStore {
+  return {
+    add: vi.fn(),
+    search: vi.fn(async (_embedding: number[], options: { topK: number }) => results.slice(0, options.topK)),
+    delete: vi.fn(),
+    count: vi.fn(async () => results.length),
+  };
+}
+
+/**
+ * Reranker scoring documents by a fixed id order, highest first
+ */
+function fixedReranker(order: string[]): Reranker {
+  return {
+    name: 'fixed',
+    score: vi.fn(async (_query: string, documents: string[]) =>
+      documents.map(doc => {
+        const rank = order.indexOf(doc.replace('content ', ''));
+        return rank === -1 ? 0 : 1 - rank / order.length;
+      })
+    ),
+  };
+}
+
+describe('parseRanking', () => {
+  it('should read passage numbers in order, skipping duplicates and out-of-range numbers', () => {
+    expect(parseRanking('[3] > [1] > [3] > [9] > [2]', 3)).toEqual([2, 0, 1]);
+  });
+
+  it('should return nothing for text without numbers', () => {
+    expect(parseRanking('I cannot rank these.', 3)).toEqual([]);
+  });
+});
+
+describe('LLMListwiseReranker', () => {
+  it('should score passages by their position in the ranking', async () => {
+    const llm = createMockLLMProvider({ defaultResponse: '[2] > [3]' });
+    const reranker = new LLMListwiseReranker(llm, { maxDocuments: 3 });
+
+    const scores = await reranker.score('refresh tokens', ['a', 'b', 'c', 'd']);
+
+    expect(scores[1]).toBe(1);
+    expect(scores[2]).toBeCloseTo(2 / 3);
+    expect(scores[0]).toBeCloseTo(1 / 3);
+    expect(scores[3]).toBe(0);
+    expect(llm.chat).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fail when the reply contains no ranking', async () => {
+    const reranker = new LLMListwiseReranker(createMockLLMProvider({ defaultResponse: 'No idea.' }));
+
+    await expect(reranker.score('q', ['a', 'b'])).rejects.toThrow('LLM reranker returned no ranking');
+  });
+});
+
+describe('createReranker', () => {
+  it('should return null for none', async () => {
+    expect(await createReranker('none', config)).toBeNull();
+  });
+
+  it('should require an LLM provider for llm reranking', async () => {
+    await expect(createReranker('llm', config, null)).rejects.toThrow('LLM reranking needs an LLM provider');
+  });
+});
+
+describe('rerankResults', () => {
+  it('should order by rerank score and keep the retrieval score', async () => {
+    const results = await rerankResults('q', [createResult('a', 0.9), createResult('b', 0.5)], fixedReranker(['b', 'a']));
+
+    expect(results.map(r => r.id)).toEqual(['b', 'a']);
+    expect(results[0].score).toBe(1);
+    expect(results[0].metadata).toMatchObject({ retrievalScore: 0.5, rerankScore: 1 });
+  });
+});
+
+describe('hybridSearch with a reranker', () => {
+  const results = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'].map((id, idx) => createResult(id, 1 - idx / 10));
+  const embedder = createMockEmbeddingsAdapter({ dimension: 8 });
+
+  it('should over-fetch candidates before reranking', async () => {
+    const vectorStore = createVectorStore(results);
+    const reranker = fixedReranker(['g', 'a']);
+
+    const response = await hybridSearch('q', { vectorStore, embedder }, { topK: 2, mode: 'vector', reranker });
+
+    expect(vectorStore.search).toHaveBeenCalledWith(expect.any(Array), { topK: 8, filter: undefined });
+    expect(response.results.map(r => r.id)).toEqual(['g', 'a']);
+    expect(response.reranker).toBe('fixed');
+  });
+
+  it('should keep the retrieval order when reranking fails', async () => {
+    const reranker: Reranker = { name: 'broken', score: async () => { throw new Error('model not found'); } };
+
+    const response = await hybridSearch('q', { vectorStore: createVectorStore(results), embedder }, {
+      topK: 2,
+      mode: 'vector',
+      reranker,
+    });
+
+    expect(response.results.map(r => r.id)).toEqual(['a', 'b']);
+    expect(response.reranker).toBeUndefined();
+    expect(response.rerankError).toBe('model not found');
+  });
+});
+
+describe('HybridScorer.explainScore', () => {
+  const scorer = new HybridScorer({} as any, {} as any, {} as any);
+  const scored = (rerank?: number): ScoredResult => ({
+    id: 'chunk-1',
+    content: 'content',
+    metadata: {},
+    scores: { similarity: 0.8, decay: 1, importance: 0.5, recency: 0, graphBoost: 0, typeBoost: 1, rerank },
+    finalScore: 0.9,
+  });
+
+  it('should include the rerank component', () => {
+    expect(scorer.explainScore(scored(0.6))).toContain('Rerank: 0.600 × 0.35 = 0.210');
+  });
+
+  it('should note when no reranker was applied', () => {
+    expect(scorer.explainScore(scored())).toContain('Rerank: not applied');
+  });
+});
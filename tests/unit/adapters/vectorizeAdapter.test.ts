@@ -0,0 +1,245 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  VectorizeAdapter,
+  VectorizeApiError,
+  VectorizeQuotaError,
+  retryDelayMs,
+  toVectorizeFilter,
+} from '../../../src/adapters/vector/vectorize.js';
+import { parseMetadataFilter } from '../../../src/services/metadataFilter.js';
+import type { MetadataFilter, RAGConfig, VectorDocument } from '../../../src/types/index.js';
+import { startMockVectorize, type MockVectorizeServer } from '../../mocks/vectorizeServer.js';
+
+const createDoc = (id: string, embedding: number[], metadata: Record<string, any> = { source: 'docs' }): VectorDocument => ({
+  id,
+  content: `Content of ${id}`,
+  embedding,
+  metadata,
+});
+
+describe('VectorizeAdapter', () => {
+  let server: MockVectorizeServer;
+
+  const createAdapter = (overrides: Partial<NonNullable<RAGConfig['vectorStoreConfig']>> = {}, apiToken = 'test-token') =>
+    new VectorizeAdapter({
+      vectorStore: 'vectorize',
+      embeddings: 'xenova',
+      apiKeys: { cloudflare: { accountId: 'test-account', apiToken } },
+      vectorStoreConfig: { vectorizeApiUrl: server.apiUrl, ...overrides },
+    });
+
+  beforeEach(async () => {
+    server = await startMockVectorize({ maxVectors: 2000 });
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it('should require Cloudflare credentials', () => {
+    expect(() => new VectorizeAdapter({ vectorStore: 'vectorize', embeddings: 'xenova' })).toThrow(/apiKeys\.cloudflare\.accountId/);
+  });
+
+  it('should create the index with filterable metadata on first add', async () => {
+    const adapter = createAdapter();
+
+    await adapter.add([createDoc('a', [1, 0, 0])]);
+
+    const index = server.indexes.get('cursor-rag-knowledge-base')!;
+    expect(index).toMatchObject({
+      dimensions: 3,
+      metric: 'cosine',
+      metadataIndexes: ['source', 'type', 'chunkType', 'language', 'createdAt'],
+    });
+    expect(index.vectors.get('a')?.metadata).toEqual({ source: 'docs', content: 'Content of a' });
+  });
+
+  it('should return content and metadata from search', async () => {
+    const adapter = createAdapter();
+    await adapter.add([createDoc('a', [1, 0, 0]), createDoc('b', [0, 1, 0])]);
+
+    const results = await adapter.search([1, 0.1, 0], { topK: 1 });
+
+    expect(results).toHaveLength(1);
+    expect(results[0]).toMatchObject({ id: 'a', content: 'Content of a', metadata: { source: 'docs' } });
+    expect(results[0].score).toBeGreaterThan(0.9);
+  });
+
+  it('should filter by source with $in like the other adapters', async () => {
+    const adapter = createAdapter();
+    await adapter.add([
+      createDoc('a', [1, 0, 0], { source: 'auth.md' }),
+      createDoc('b', [0.9, 0.1, 0], { source: 'billing.md' }),
+      createDoc('c', [0.8, 0.2, 0], { source: 'setup.md', type: 'skill' }),
+    ]);
+
+    const bySources = await adapter.search([1, 0, 0], { topK: 5, filter: { source: { $in: ['auth.md', 'setup.md'] } } });
+    const byType = await adapter.search([1, 0, 0], { topK: 5, filter: { type: 'skill' } });
+
+    expect(bySources.map(r => r.id)).toEqual(['a', 'c']);
+    expect(byType.map(r => r.id)).toEqual(['c']);
+  });
+
+  it('should fetch metadata by ID when topK exceeds the metadata limit', async () => {
+    const adapter = createAdapter();
+    await adapter.add(Array.from({ length: 30 }, (_, i) => createDoc(`doc-${i}`, [1, i / 30, 0])));
+
+    const results = await adapter.search([1, 0, 0], { topK: 25 });
+
+    expect(results).toHaveLength(25);
+    expect(results.every(r => r.content.startsWith('Content of doc-'))).toBe(true);
+    expect(server.requests.filter(r => r.endsWith('/get_by_ids'))).toHaveLength(2);
+  });
+
+  it('should batch large upserts and deletes', async () => {
+    const adapter = createAdapter();
+    const docs = Array.from({ length: 1500 }, (_, i) => createDoc(`doc-${i}`, [1, 0, i]));
+
+    await adapter.add(docs);
+    expect(await adapter.count()).toBe(1500);
+    expect(server.requests.filter(r => r.endsWith('/upsert'))).toHaveLength(2);
+
+    await adapter.delete(docs.slice(0, 1200).map(d => d.id));
+    expect(await adapter.count()).toBe(300);
+    expect(server.requests.filter(r => r.endsWith('/delete_by_ids'))).toHaveLength(2);
+  });
+
+  it('should keep namespaces apart within one index', async () => {
+    const team = createAdapter({ vectorizeNamespace: 'team' });
+    const personal = createAdapter({ vectorizeNamespace: 'personal' });
+    await team.add([createDoc('t1', [1, 0, 0]), createDoc('t2', [0, 1, 0])]);
+    await personal.add([createDoc('p1', [1, 0, 0])]);
+
+    expect((await team.search([1, 0, 0], { topK: 5 })).map(r => r.id)).toEqual(['t1', 't2']);
+    expect(await team.count()).toBe(2);
+    expect(await personal.count()).toBe(1);
+
+    await team.clear();
+    expect(await team.count()).toBe(0);
+    expect((await personal.search([1, 0, 0], { topK: 5 })).map(r => r.id)).toEqual(['p1']);
+  });
+
+  it('should scan every chunk with a cursor', async () => {
+    const adapter = createAdapter();
+    await adapter.add(['a', 'b', 'c'].map(id => createDoc(id, [1, 0, 0])));
+
+    const first = await adapter.scan(null, 2);
+    const second = await adapter.scan(first.nextCursor, 2);
+
+    expect(first.chunks).toEqual([
+      { id: 'a', content: 'Content of a', metadata: { source: 'docs' } },
+      { id: 'b', content: 'Content of b', metadata: { source: 'docs' } },
+    ]);
+    expect(second.chunks.map(c => c.id)).toEqual(['c']);
+    expect(second.nextCursor).toBeNull();
+  });
+
+  it('should drop the index on clear so it can be recreated with new dimensions', async () => {
+    const adapter = createAdapter();
+    await adapter.add([createDoc('a', [1, 0, 0])]);
+
+    await adapter.clear();
+    await adapter.add([createDoc('a', [1, 0, 0, 0])]);
+
+    expect(server.indexes.get('cursor-rag-knowledge-base')?.dimensions).toBe(4);
+  });
+
+  it('should explain dimension mismatches before calling the API', async () => {
+    const adapter = createAdapter();
+    await adapter.add([createDoc('a', [1, 0, 0])]);
+
+    await expect(adapter.add([createDoc('b', [1, 0])])).rejects.toThrow(/has 3 dimensions but chunk b has 2.*reindex --embeddings/);
+  });
+
+  it('should reject chunks over the metadata size limit', async () => {
+    const adapter = createAdapter();
+    const doc = { ...createDoc('big', [1, 0, 0]), content: 'x'.repeat(11 * 1024) };
+
+    await expect(adapter.add([doc])).rejects.toBeInstanceOf(VectorizeQuotaError);
+  });
+
+  it('should report vector quota errors clearly', async () => {
+    await server.close();
+    server = await startMockVectorize({ maxVectors: 2 });
+    const adapter = createAdapter();
+
+    const error = await adapter.add(['a', 'b', 'c'].map(id => createDoc(id, [1, 0, 0]))).catch(e => e);
+
+    expect(error).toBeInstanceOf(VectorizeQuotaError);
+    expect(error.message).toMatch(/hit a Vectorize limit on index "cursor-rag-knowledge-base".*maximum number of vectors \(2\)/);
+    expect(error.code).toBe(40008);
+  });
+
+  it('should retry rate-limited requests and then give up with a quota error', async () => {
+    const adapter = createAdapter();
+    await adapter.add([createDoc('a', [1, 0, 0])]);
+
+    server.rateLimitNext(2);
+    expect(await adapter.search([1, 0, 0], { topK: 1 })).toHaveLength(1);
+
+    server.rateLimitNext(3);
+    const error = await adapter.search([1, 0, 0], { topK: 1 }).catch(e => e);
+    expect(error).toBeInstanceOf(VectorizeQuotaError);
+    expect(error.status).toBe(429);
+  });
+
+  it('should wait for Retry-After in seconds or as a date, and back off without it', () => {
+    const now = Date.parse('2026-10-19T12:00:00Z');
+
+    expect(retryDelayMs('2', 0, now)).toBe(2000);
+    expect(retryDelayMs('Mon, 19 Oct 2026 12:00:05 GMT', 0, now)).toBe(5000);
+    expect(retryDelayMs('Mon, 19 Oct 2026 11:59:00 GMT', 0, now)).toBe(0);
+    expect(retryDelayMs(null, 0, now)).toBe(1000);
+    expect(retryDelayMs('soon', 1, now)).toBe(2000);
+    expect(retryDelayMs('3600', 0, now)).toBe(30_000);
+  });
+
+  it('should give up on requests that take longer than the timeout', async () => {
+    const adapter = createAdapter({ vectorizeTimeoutMs: 100 });
+
+    server.stallNext(1);
+    await expect(adapter.count()).rejects.toThrow(/Vectorize GET \/indexes\/cursor-rag-knowledge-base timed out after 100ms/);
+  });
+
+  it('should explain rejected API tokens', async () => {
+    const error = await createAdapter({}, 'wrong-token').count().catch(e => e);
+
+    expect(error).toBeInstanceOf(VectorizeApiError);
+    expect(error.message).toMatch(/rejected: Authentication error.*Vectorize edit permission/);
+  });
+
+  describe('toVectorizeFilter', () => {
+    const translate = (filter: MetadataFilter) => toVectorizeFilter(parseMetadataFilter(filter));
+
+    it('should translate bare values, arrays, ranges and nested $and', () => {
+      expect(translate({
+        source: 'a.md',
+        type: ['skill', 'rule'],
+        $and: [{ createdAt: { $gte: '2026-01-01T00:00:00Z' } }, { createdAt: { $lt: 1_800_000_000_000 } }],
+      })).toEqual({
+        source: { $eq: 'a.md' },
+        type: { $in: ['skill', 'rule'] },
+        createdAt: { $gte: Date.UTC(2026, 0, 1), $lt: 1_800_000_000_000 },
+      });
+      expect(translate({})).toBeUndefined();
+    });
+
+    it('should reject filters Vectorize cannot express', () => {
+      expect(() => translate({ $or: [{ source: 'a' }, { source: 'b' }] })).toThrow(/does not support \$or/);
+      expect(() => translate({ language: { $exists: true } })).toThrow(/\$exists/);
+      expect(() => translate({ tags: 'auth' })).toThrow(/can only filter on source, type, chunkType, language, createdAt; not on tags/);
+    });
+
+    it('should filter by date ranges against the API', async () => {
+      const adapter = createAdapter();
+      await adapter.add([
+        createDoc('old', [1, 0, 0], { source: 'a', createdAt: Date.UTC(2025, 5, 1) }),
+        createDoc('new', [1, 0, 0], { source: 'a', createdAt: Date.UTC(2026, 5, 1) }),
+      ]);
+
+      const results = await adapter.search([1, 0, 0], { topK: 5, filter: { createdAt: { $gt: '2026-01-01' } } });
+
+      expect(results.map(r => r.id)).toEqual(['new']);
+    });
+  });
+});
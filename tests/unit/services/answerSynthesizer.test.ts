@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import {
+  AnswerSynthesizer,
+  extractCitationIndexes,
+  formatCitations,
+} from '../../../src/services/answerSynthesizer.js';
+import type { SearchResult } from '../../../src/types/index.js';
+import { createMockLLMProvider } from '../../mocks/llmProvider.js';
+
+function createResult(id: string, content: string, source: string, score = 0.8): SearchResult {
+  return { id, content, metadata: { source, title: source }, score };
+}
+
+describe('AnswerSynthesizer', () => {
+  const chunks = [
+    createResult('chunk-a', 'JWT tokens expire after one hour.', 'auth-guide.md', 0.9),
+    createResult('chunk-b', 'Refresh tokens are stored in an httpOnly cookie.', 'auth-guide.md', 0.85),
+    createResult('chunk-c', 'The build uses esbuild.', 'build.md', 0.4),
+  ];
+
+  it('should synthesize an answer with citations mapped to chunk IDs', async () => {
+    const llm = createMockLLMProvider({
+      defaultResponse: 'Access tokens expire after an hour [1] and refresh tokens live in a cookie [2].',
+    });
+    const synthesizer = new AnswerSynthesizer(llm);
+
+    const result = await synthesizer.synthesize('How does auth work?', chunks);
+
+    expect(result.synthesized).toBe(true);
+    expect(result.answer).toContain('[1]');
+    expect(result.citations).toHaveLength(3);
+    expect(result.citations[0]).toMatchObject({ index: 1, chunkId: 'chunk-a', source: 'auth-guide.md' });
+    expect(result.citedIndexes).toEqual([1, 2]);
+  });
+
+  it('should number the sources in the prompt', async () => {
+    const llm = createMockLLMProvider({ defaultResponse: 'Answer [1].' });
+    const synthesizer = new AnswerSynthesizer(llm);
+
+    await synthesizer.synthesize('question', chunks);
+
+    const messages = (llm.chat as any).mock.calls[0][0];
+    const userPrompt = messages[messages.length - 1].content;
+    expect(userPrompt).toContain('[1] (source: auth-guide.md)');
+    expect(userPrompt).toContain('[3] (source: build.md)');
+    expect(userPrompt).toContain('question');
+  });
+
+  it('should fall back to a chunk dump when the LLM fails', async () => {
+    const llm = createMockLLMProvider({ shouldFail: true });
+    const synthesizer = new AnswerSynthesizer(llm);
+
+    const result = await synthesizer.synthesize('How does auth work?', chunks);
+
+    expect(result.synthesized).toBe(false);
+    expect(result.fallbackReason).toBe('Mock LLM failure');
+    expect(result.answer).toContain('[1] JWT tokens expire after one hour.');
+    expect(result.answer).toContain('[3] The build uses esbuild.');
+  });
+
+  it('should fall back when no provider is configured', async () => {
+    const synthesizer = new AnswerSynthesizer(null);
+
+    const result = await synthesizer.synthesize('question', chunks);
+
+    expect(result.synthesized).toBe(false);
+    expect(result.citations).toHaveLength(3);
+  });
+
+  it('should respect the chunk and context limits', async () => {
+    const llm = createMockLLMProvider({ defaultResponse: 'Answer [1].' });
+    const synthesizer = new AnswerSynthesizer(llm, { maxChunks: 2 });
+
+    const result = await synthesizer.synthesize('question', chunks);
+    expect(result.citations).toHaveLength(2);
+
+    const tight = new AnswerSynthesizer(llm, { maxContextChars: 40 });
+    const tightResult = await tight.synthesize('question', chunks);
+    expect(tightResult.citations).toHaveLength(1);
+  });
+
+  it('should report when nothing was retrieved', async () => {
+    const llm = createMockLLMProvider();
+    const synthesizer = new AnswerSynthesizer(llm);
+
+    const result = await synthesizer.synthesize('question', []);
+
+    expect(result.synthesized).toBe(false);
+    expect(llm.chat).not.toHaveBeenCalled();
+  });
+});
+
+describe('extractCitationIndexes', () => {
+  it('should collect single and grouped markers within range', () => {
+    expect(extractCitationIndexes('A [2]. B [1][3]. C [1, 4]. D [9].', 4)).toEqual([1, 2, 3, 4]);
+  });
+
+  it('should ignore non-numeric brackets', () => {
+    expect(extractCitationIndexes('See [docs] and [x1].', 5)).toEqual([]);
+  });
+});
+
+describe('formatCitations', () => {
+  it('should list only the cited sources when asked', () => {
+    const citations = [
+      { index: 1, chunkId: 'a', source: 'one.md', score: 0.9 },
+      { index: 2, chunkId: 'b', source: 'two.md', score: 0.8 },
+    ];
+
+    const text = formatCitations(citations, [2]);
+    expect(text).toContain('[2] two.md (chunk: b');
+    expect(text).not.toContain('one.md');
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { chunkDocument } from '../../../src/services/chunker.js';
+import { chunkDocument, tokenCount } from '../../../src/services/chunker.js';
 import { SAMPLE_MARKDOWN_DOC, SAMPLE_MIXED_DOC } from '../../fixtures/documents.js';
 
 describe('chunkDocument', () => {
@@ -85,6 +85,14 @@ describe('chunkDocument', () => {
         expect(hasOverlap).toBe(true);
       }
     });
+
+    it('should start each window empty with chunkOverlap 0', () => {
+      const text = Array.from({ length: 60 }, () => 'apple').join(' ');
+      const chunks = chunkDocument(text, { chunkSize: 20, chunkOverlap: 0 });
+
+      expect(chunks).toHaveLength(3);
+      expect(chunks.map(c => c.text.split(/\s+/).length)).toEqual([20, 20, 20]);
+    });
   });
 
   describe('boundary options', () => {
@@ -95,6 +103,32 @@ describe('chunkDocument', () => {
       
       expect(withBoundaries.length).toBeGreaterThanOrEqual(withoutBoundaries.length - 1);
     });
+
+    it('should keep headings with their paragraph in paragraph mode', () => {
+      const text = '# Title\nIntro line.\n## Section\nSection body.\n\nNext paragraph.';
+      const semantic = chunkDocument(text, { boundaryMode: 'semantic' });
+      const paragraph = chunkDocument(text, { boundaryMode: 'paragraph' });
+
+      expect(semantic).toHaveLength(3);
+      expect(paragraph).toHaveLength(2);
+      expect(paragraph[0].text).toContain('## Section');
+    });
+
+    it('should not split on boundaries in none mode', () => {
+      const chunks = chunkDocument('First paragraph.\n\nSecond paragraph.', { boundaryMode: 'none' });
+
+      expect(chunks).toHaveLength(1);
+    });
+  });
+
+  describe('tokenizer model', () => {
+    it('should count tokens with the requested model', () => {
+      expect(tokenCount('hello world', 'gpt-4o')).toBeGreaterThan(0);
+    });
+
+    it('should reject unknown models', () => {
+      expect(() => chunkDocument('text', { tokenizerModel: 'not-a-model' })).toThrow('Unknown tokenizer model');
+    });
   });
 
   describe('edge cases', () => {
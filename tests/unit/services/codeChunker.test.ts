@@ -0,0 +1,144 @@
+import { describe, it, expect } from 'vitest';
+import { chunkCode, chunkSourceText, detectLanguage } from '../../../src/services/codeChunker.js';
+import { ChunkType } from '../../../src/types/memory.js';
+
+const TS_SOURCE = `import { readFileSync } from 'fs';
+import type { Config } from './types.js';
+
+/**
+ * Load the config file
+ */
+export function loadConfig(path: string): Config {
+  const raw = readFileSync(path, 'utf-8');
+
+  return JSON.parse(raw);
+}
+
+export interface Options {
+  verbose: boolean;
+}
+
+@Injectable()
+export class ConfigService {
+  constructor(private path: string) {}
+
+  get(): Config {
+    return loadConfig(this.path);
+  }
+}
+
+export const DEFAULT_PATH = './config.json';
+`;
+
+describe('detectLanguage', () => {
+  it('should map extensions to languages', () => {
+    expect(detectLanguage('src/app.tsx')).toBe('typescript');
+    expect(detectLanguage('main.go')).toBe('go');
+    expect(detectLanguage('.py')).toBe('python');
+    expect(detectLanguage('README.md')).toBeNull();
+  });
+});
+
+describe('chunkCode', () => {
+  it('should split TypeScript on top-level declarations with line ranges', () => {
+    const chunks = chunkCode(TS_SOURCE, 'typescript');
+
+    expect(chunks.map(c => c.metadata?.symbol)).toEqual([
+      undefined,
+      'loadConfig',
+      'Options',
+      'ConfigService',
+      'DEFAULT_PATH',
+    ]);
+
+    const fn = chunks[1];
+    expect(fn.text).toContain('Load the config file');
+    expect(fn.text).toContain('return JSON.parse(raw);');
+    expect(fn.metadata).toMatchObject({
+      chunkType: ChunkType.CODE,
+      language: 'typescript',
+      symbolKind: 'function',
+      startLine: 4,
+      endLine: 11,
+    });
+
+    const cls = chunks[3];
+    expect(cls.text.startsWith('@Injectable()')).toBe(true);
+    expect(cls.metadata).toMatchObject({ symbolKind: 'class', startLine: 17, endLine: 24 });
+  });
+
+  it('should keep Python methods inside their class', () => {
+    const source = [
+      'import os',
+      '',
+      '@dataclass',
+      'class Settings:',
+      '    name: str',
+      '',
+      '    def load(self):',
+      '        return os.environ',
+      '',
+      'async def main():',
+      '    pass',
+    ].join('\n');
+
+    const chunks = chunkCode(source, 'python');
+
+    expect(chunks.map(c => [c.metadata?.symbol, c.metadata?.startLine, c.metadata?.endLine])).toEqual([
+      [undefined, 1, 1],
+      ['Settings', 3, 8],
+      ['main', 10, 11],
+    ]);
+  });
+
+  it('should recognise Go functions, methods and types', () => {
+    const source = [
+      'package main',
+      '',
+      '// Server handles requests',
+      'type Server struct {',
+      '\taddr string',
+      '}',
+      '',
+      'func (s *Server) Start() error {',
+      '\treturn nil',
+      '}',
+      '',
+      'func main() {}',
+    ].join('\n');
+
+    const chunks = chunkCode(source, 'go');
+
+    expect(chunks.map(c => c.metadata?.symbol)).toEqual([undefined, 'Server', 'Start', 'main']);
+    expect(chunks[1].metadata?.startLine).toBe(3);
+  });
+
+  it('should split oversized declarations and keep the symbol on every part', () => {
+    const body = Array.from({ length: 200 }, (_, i) => `  const value${i} = compute(${i});`).join('\n');
+    const source = `export function huge() {\n${body}\n}\n`;
+
+    const chunks = chunkCode(source, 'typescript', { chunkSize: 128 });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.every(c => c.metadata?.symbol === 'huge')).toBe(true);
+    expect(chunks[0].metadata?.startLine).toBe(1);
+    expect(chunks[chunks.length - 1].metadata?.endLine).toBe(202);
+    for (let i = 1; i < chunks.length; i++) {
+      expect(chunks[i].metadata?.startLine).toBe(chunks[i - 1].metadata?.endLine + 1);
+    }
+  });
+});
+
+describe('chunkSourceText', () => {
+  it('should fall back to text chunking for non-code files', () => {
+    const chunks = chunkSourceText('# Title\n\nSome prose.', 'docs/guide.md');
+
+    expect(chunks[0].metadata).toBeUndefined();
+  });
+
+  it('should use code chunking for supported extensions', () => {
+    const chunks = chunkSourceText(TS_SOURCE, '/repo/src/config.ts');
+
+    expect(chunks[1].metadata?.language).toBe('typescript');
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect, vi } from 'vitest';
+import { homedir, tmpdir } from 'os';
+import { join } from 'path';
+import type { RAGConfig } from '../../../src/types/index.js';
+
+const testDir = join(tmpdir(), 'test-collections');
+
+vi.mock('../../../src/services/config.js', () => ({
+  CONFIG_DIR: testDir,
+}));
+
+const {
+  CollectionError,
+  addCollection,
+  getCollectionDir,
+  getWorkspacePath,
+  listCollections,
+  removeCollection,
+  resolveCollection,
+  scopedName,
+  validateCollectionName,
+} = await import('../../../src/services/collections.js');
+
+const baseConfig: RAGConfig = { vectorStore: 'memory', embeddings: 'xenova' };
+
+const config: RAGConfig = {
+  ...baseConfig,
+  collections: {
+    work: { paths: ['/repos/work'] },
+    'work-api': { paths: ['/repos/work/api'], description: 'API service' },
+    oss: { paths: ['/repos/oss', '/src/oss'] },
+  },
+};
+
+describe('collections', () => {
+  describe('resolveCollection', () => {
+    it('should use the named collection and reject unknown ones', () => {
+      expect(resolveCollection(config, 'oss', '/repos/work')).toBe('oss');
+      expect(resolveCollection(config, 'default')).toBe('default');
+      expect(() => resolveCollection(config, 'missing')).toThrow(CollectionError);
+      expect(() => resolveCollection(config, 'missing')).toThrow(/Known collections: default, oss, work, work-api/);
+    });
+
+    it('should pick the collection with the deepest path containing the workspace', () => {
+      expect(resolveCollection(config, undefined, '/repos/work')).toBe('work');
+      expect(resolveCollection(config, undefined, '/repos/work/web/src')).toBe('work');
+      expect(resolveCollection(config, undefined, '/repos/work/api/src')).toBe('work-api');
+      expect(resolveCollection(config, undefined, '/src/oss/lib')).toBe('oss');
+      // Prefix of a directory name is not a match
+      expect(resolveCollection(config, undefined, '/repos/workshop')).toBe('default');
+    });
+
+    it('should fall back to the configured default collection', () => {
+      expect(resolveCollection({ ...config, defaultCollection: 'oss' }, undefined, '/elsewhere')).toBe('oss');
+      expect(resolveCollection({ ...config, defaultCollection: 'removed' }, undefined, '/elsewhere')).toBe('default');
+    });
+  });
+
+  it('should add and remove collections without touching the original config', () => {
+    const added = addCollection(baseConfig, 'notes', { description: 'Personal notes', paths: ['~/notes'] });
+    expect(baseConfig.collections).toBeUndefined();
+    expect(added.collections?.notes).toMatchObject({ description: 'Personal notes', paths: [join(homedir(), 'notes')] });
+    expect(() => addCollection(added, 'notes')).toThrow(/already exists/);
+
+    const removed = removeCollection({ ...added, defaultCollection: 'notes' }, 'notes');
+    expect(removed.collections).toEqual({});
+    expect(removed.defaultCollection).toBeUndefined();
+    expect(() => removeCollection(added, 'default')).toThrow(/cannot be deleted/);
+    expect(() => removeCollection(added, 'missing')).toThrow(/Unknown collection/);
+  });
+
+  it('should validate collection names', () => {
+    expect(validateCollectionName('team-a_2')).toBe('team-a_2');
+    for (const name of ['', 'Work', 'a b', '-work', 'x'.repeat(33), '../etc']) {
+      expect(() => validateCollectionName(name)).toThrow(CollectionError);
+    }
+  });
+
+  it('should list the default collection first and mark the default', () => {
+    const listed = listCollections({ ...config, defaultCollection: 'work' });
+    expect(listed.map(c => c.name)).toEqual(['default', 'oss', 'work', 'work-api']);
+    expect(listed.filter(c => c.isDefault).map(c => c.name)).toEqual(['work']);
+    expect(listed[3]).toMatchObject({ description: 'API service', paths: ['/repos/work/api'] });
+  });
+
+  it('should keep the default collection in the original locations', () => {
+    expect(getCollectionDir('default')).toBe(testDir);
+    expect(getCollectionDir('work')).toBe(join(testDir, 'collections', 'work'));
+    expect(scopedName('cursor-rag-knowledge-base', 'default')).toBe('cursor-rag-knowledge-base');
+    expect(scopedName('cursor-rag-idx', 'work', ':')).toBe('cursor-rag-idx:work');
+  });
+
+  it('should read the workspace from the environment before the working directory', () => {
+    expect(getWorkspacePath({ CURSOR_RAG_WORKSPACE: '/repos/work' }, '/cwd')).toBe('/repos/work');
+    expect(getWorkspacePath({ CURSOR_RAG_WORKSPACE: '${workspaceFolder}', WORKSPACE_FOLDER_PATHS: '/a,/b' }, '/cwd')).toBe('/a');
+    expect(getWorkspacePath({}, '/cwd')).toBe('/cwd');
+  });
+});
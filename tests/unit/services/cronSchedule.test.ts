@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { CronError, CronExpression } from '../../../src/services/cronSchedule.js';
+
+/** Local-time date, as cron expressions are evaluated in local time */
+const at = (year: number, month: number, day: number, hour = 0, minute = 0) =>
+  new Date(year, month - 1, day, hour, minute);
+
+describe('CronExpression', () => {
+  it('should find the next and previous daily run', () => {
+    const cron = new CronExpression('0 3 * * *');
+
+    expect(cron.next(at(2026, 3, 10, 1, 30))).toEqual(at(2026, 3, 10, 3));
+    expect(cron.next(at(2026, 3, 10, 3))).toEqual(at(2026, 3, 11, 3));
+    expect(cron.previous(at(2026, 3, 10, 3, 0))).toEqual(at(2026, 3, 9, 3));
+    expect(cron.previous(new Date(at(2026, 3, 10, 3).getTime() + 1000))).toEqual(at(2026, 3, 10, 3));
+    expect(cron.next(at(2026, 12, 31, 23, 59))).toEqual(at(2027, 1, 1, 3));
+  });
+
+  it('should support lists, ranges, steps and names', () => {
+    const cron = new CronExpression('*/20 9-17 * * mon-fri');
+
+    // 2026-03-13 is a Friday
+    expect(cron.next(at(2026, 3, 13, 17, 40))).toEqual(at(2026, 3, 16, 9));
+    expect(cron.previous(at(2026, 3, 16, 9))).toEqual(at(2026, 3, 13, 17, 40));
+    expect(cron.matches(at(2026, 3, 16, 12, 20))).toBe(true);
+    expect(cron.matches(at(2026, 3, 15, 12, 20))).toBe(false);
+
+    expect(new CronExpression('5,35 0 1 jan,JUL *').next(at(2026, 2, 1))).toEqual(at(2026, 7, 1, 0, 5));
+    expect(new CronExpression('10/25 * * * *').next(at(2026, 3, 1, 0, 36))).toEqual(at(2026, 3, 1, 1, 10));
+  });
+
+  it('should treat 7 as Sunday and match either day field when both are set', () => {
+    // 2026-03-15 is a Sunday
+    expect(new CronExpression('0 4 * * 7').next(at(2026, 3, 10))).toEqual(at(2026, 3, 15, 4));
+    expect(new CronExpression('0 4 * * sun').previous(at(2026, 3, 15, 4))).toEqual(at(2026, 3, 8, 4));
+
+    const either = new CronExpression('0 0 20 * 0');
+    expect(either.next(at(2026, 3, 16))).toEqual(at(2026, 3, 20));
+    expect(either.next(at(2026, 3, 20))).toEqual(at(2026, 3, 22));
+  });
+
+  it('should skip months without the day', () => {
+    const cron = new CronExpression('0 5 31 * *');
+    expect(cron.next(at(2026, 4, 1))).toEqual(at(2026, 5, 31, 5));
+    expect(cron.previous(at(2026, 5, 1))).toEqual(at(2026, 3, 31, 5));
+    expect(new CronExpression('0 0 29 2 *').next(at(2026, 1, 1))).toEqual(at(2028, 2, 29));
+  });
+
+  it('should expand shorthands', () => {
+    expect(new CronExpression('@monthly').next(at(2026, 3, 10))).toEqual(at(2026, 4, 1));
+    expect(new CronExpression('@hourly').previous(at(2026, 3, 10, 7, 59))).toEqual(at(2026, 3, 10, 7));
+  });
+
+  it('should reject invalid expressions', () => {
+    for (const expression of ['', '0 3 * *', '60 * * * *', '0 24 * * *', '0 0 0 * *', '0 0 * 13 *', '5-1 * * * *', '*/0 * * * *', '0 0 * * funday', '1/2/3 * * * *']) {
+      expect(() => new CronExpression(expression)).toThrow(CronError);
+    }
+    expect(() => new CronExpression('0 0 30 2 *').next(at(2026, 1, 1))).toThrow(/never fires/);
+  });
+});
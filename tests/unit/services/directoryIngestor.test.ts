@@ -0,0 +1,163 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { rmSync, existsSync, mkdirSync, writeFileSync, utimesSync } from 'fs';
+import { DirectoryIngestor } from '../../../src/services/directoryIngestor.js';
+import { SourceRegistry } from '../../../src/services/sourceRegistry.js';
+import type { RAGConfig, VectorDocument, VectorStore, SearchResult } from '../../../src/types/index.js';
+import { createMockEmbeddingsAdapter } from '../../mocks/embeddings.js';
+
+class InMemoryVectorStore implements VectorStore {
+  documents = new Map<string, VectorDocument>();
+
+  async add(docs: VectorDocument[]): Promise<void> {
+    for (const doc of docs) this.documents.set(doc.id, doc);
+  }
+
+  async search(): Promise<SearchResult[]> {
+    return [];
+  }
+
+  async delete(ids: string[]): Promise<void> {
+    for (const id of ids) this.documents.delete(id);
+  }
+
+  async count(): Promise<number> {
+    return this.documents.size;
+  }
+}
+
+describe('DirectoryIngestor', () => {
+  let testDir: string;
+  let docsDir: string;
+  let registry: SourceRegistry;
+  let vectorStore: InMemoryVectorStore;
+  let deps: any;
+
+  const write = (rel: string, content: string) => {
+    const path = join(docsDir, rel);
+    mkdirSync(join(path, '..'), { recursive: true });
+    writeFileSync(path, content);
+    return path;
+  };
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `test-dir-ingest-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    docsDir = join(testDir, 'docs');
+    mkdirSync(docsDir, { recursive: true });
+
+    registry = new SourceRegistry(join(testDir, 'sources.db'));
+    vectorStore = new InMemoryVectorStore();
+    const config: RAGConfig = { vectorStore: 'memory', embeddings: 'xenova' };
+    deps = { vectorStore, embedder: createMockEmbeddingsAdapter({ dimension: 8 }), config, sourceRegistry: registry };
+  });
+
+  afterEach(() => {
+    registry.close();
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should apply include, exclude and .gitignore rules', () => {
+    write('guide.md', 'guide');
+    write('api/reference.md', 'reference');
+    write('notes.txt', 'notes');
+    write('image.png', 'binary');
+    write('drafts/wip.md', 'draft');
+    write('node_modules/pkg/readme.md', 'dependency');
+    write('.gitignore', 'drafts/\n');
+
+    const all = new DirectoryIngestor(docsDir, deps).scan().map(p => p.slice(docsDir.length + 1));
+    expect(all).toEqual(['api/reference.md', 'guide.md', 'notes.txt']);
+
+    const filtered = new DirectoryIngestor(docsDir, deps, { include: ['**/*.md'], exclude: ['api/**'] })
+      .scan().map(p => p.slice(docsDir.length + 1));
+    expect(filtered).toEqual(['guide.md']);
+
+    const noGitignore = new DirectoryIngestor(docsDir, deps, { gitignore: false })
+      .scan().map(p => p.slice(docsDir.length + 1));
+    expect(noGitignore).toContain('drafts/wip.md');
+  });
+
+  it('should only re-ingest new or changed files and remove deleted ones', async () => {
+    const guide = write('guide.md', 'Version one.');
+    const faq = write('faq.md', 'Questions.');
+    const ingestor = new DirectoryIngestor(docsDir, deps);
+
+    const first = await ingestor.sync();
+    expect(first.added).toHaveLength(2);
+    expect(registry.listTrackedFiles(ingestor.getRoot())).toHaveLength(2);
+
+    const second = await ingestor.sync();
+    expect(second).toMatchObject({ added: [], updated: [], unchanged: 2, removed: [] });
+    expect(deps.embedder.embedBatch).toHaveBeenCalledTimes(2);
+
+    writeFileSync(guide, 'Version two.');
+    utimesSync(guide, new Date(), new Date(Date.now() + 5000));
+    rmSync(faq);
+
+    const third = await ingestor.sync();
+    expect(third.updated).toEqual([guide]);
+    expect(third.removed).toEqual([faq]);
+    expect(Array.from(vectorStore.documents.values()).map(d => d.content)).toEqual(['Version two.']);
+    expect(registry.getStats().totalSources).toBe(1);
+  });
+
+  it('should treat a touched but unedited file as unchanged', async () => {
+    const guide = write('guide.md', 'Stable content.');
+    const ingestor = new DirectoryIngestor(docsDir, deps);
+    await ingestor.sync();
+
+    utimesSync(guide, new Date(), new Date(Date.now() + 5000));
+    const result = await ingestor.sync();
+
+    expect(result.unchanged).toBe(1);
+    expect(deps.embedder.embedBatch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should pick up changes while watching', async () => {
+    write('guide.md', 'Initial.');
+    const ingestor = new DirectoryIngestor(docsDir, deps, { debounceMs: 10, pollIntervalMs: 50 });
+    await ingestor.sync();
+
+    const onSync = vi.fn();
+    ingestor.watch(onSync);
+    write('new.md', 'Added later.');
+
+    try {
+      await vi.waitFor(() => {
+        expect(onSync.mock.calls.some(([result]) => result.added.length === 1)).toBe(true);
+      }, { timeout: 3000 });
+    } finally {
+      ingestor.stop();
+    }
+
+    expect(registry.getStats().totalSources).toBe(2);
+  });
+
+  it('should report each sync once when polls fire during a slow sync', async () => {
+    write('guide.md', 'Initial.');
+    const embedBatch = deps.embedder.embedBatch;
+    deps.embedder.embedBatch = vi.fn(async (texts: string[]) => {
+      await new Promise(resolve => setTimeout(resolve, 150));
+      return embedBatch(texts);
+    });
+    const ingestor = new DirectoryIngestor(docsDir, deps, { debounceMs: 10, pollIntervalMs: 20 });
+
+    const onSync = vi.fn();
+    ingestor.watch(onSync);
+
+    try {
+      await vi.waitFor(() => {
+        expect(onSync.mock.calls.some(([result]) => result.added.length === 1)).toBe(true);
+      }, { timeout: 3000 });
+    } finally {
+      ingestor.stop();
+    }
+
+    const results = onSync.mock.calls.map(([result]) => result);
+    expect(new Set(results).size).toBe(results.length);
+    expect(results.filter(result => result.added.length === 1)).toHaveLength(1);
+  });
+});
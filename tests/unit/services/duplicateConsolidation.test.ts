@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { mkdirSync, rmSync } from 'fs';
+import type { RAGConfig } from '../../../src/types/index.js';
+import { ChunkType, RelationshipType } from '../../../src/types/memory.js';
+
+const testDir = join(tmpdir(), `test-duplicates-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+
+vi.mock('../../../src/services/config.js', () => ({
+  CONFIG_DIR: testDir,
+}));
+
+const { MemoryAdapter } = await import('../../../src/adapters/vector/memory.js');
+const { MemoryMetadataStore } = await import('../../../src/services/memoryMetadataStore.js');
+const { LexicalIndex } = await import('../../../src/services/lexicalIndex.js');
+const { consolidateDuplicates } = await import('../../../src/services/duplicateConsolidation.js');
+
+const config: RAGConfig = { vectorStore: 'memory', embeddings: 'xenova' };
+
+describe('consolidateDuplicates', () => {
+  let stores: {
+    vectorStore: InstanceType<typeof MemoryAdapter>;
+    metadataStore: InstanceType<typeof MemoryMetadataStore>;
+    lexicalIndex: InstanceType<typeof LexicalIndex>;
+  };
+
+  const addChunk = async (
+    id: string,
+    embedding: number[],
+    metadata: { chunkType?: ChunkType; importance?: number; accessCount?: number } = {}
+  ) => {
+    const content = `Chunk ${id}: retry the token refresh after a 401`;
+    await stores.vectorStore.add([{ id, content, embedding, metadata: {} }]);
+    stores.lexicalIndex.add([{ id, content, metadata: {} }]);
+    stores.metadataStore.upsertChunkMetadata({
+      chunkId: id,
+      chunkType: metadata.chunkType ?? ChunkType.SOLUTION,
+      importance: metadata.importance ?? 0.5,
+      accessCount: metadata.accessCount ?? 0,
+    });
+  };
+
+  beforeEach(async () => {
+    mkdirSync(testDir, { recursive: true });
+    stores = {
+      vectorStore: new MemoryAdapter(config),
+      metadataStore: new MemoryMetadataStore(join(testDir, 'memory.db')),
+      lexicalIndex: new LexicalIndex(join(testDir, 'lexical.db')),
+    };
+
+    await addChunk('a', [1, 0, 0, 0.02], { importance: 0.6, accessCount: 2 });
+    await addChunk('b', [1, 0, 0, 0], { importance: 0.8, accessCount: 3 });
+    await addChunk('c', [0.98, 0.05, 0, 0], { accessCount: 4 });
+    await addChunk('d', [0, 1, 0, 0]);
+    // Same vector as b, but another type
+    await addChunk('e', [1, 0, 0, 0], { chunkType: ChunkType.DECISION });
+  });
+
+  afterEach(() => {
+    stores.metadataStore.close();
+    stores.lexicalIndex.close();
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should report clusters on a dry run without changing anything', async () => {
+    const report = await consolidateDuplicates(stores, { dryRun: true });
+
+    expect(report).toMatchObject({ dryRun: true, threshold: 0.95, chunksCompared: 5, duplicatesMerged: 0 });
+    expect(report.clusters).toHaveLength(1);
+    expect(report.clusters[0].canonical).toMatchObject({ chunkId: 'b', chunkType: ChunkType.SOLUTION });
+    expect(report.clusters[0].duplicates.map(d => d.chunkId).sort()).toEqual(['a', 'c']);
+    expect(report.clusters[0].duplicates[0].preview).toMatch(/^Chunk [ac]: retry/);
+
+    expect(await stores.vectorStore.count()).toBe(5);
+    expect(stores.metadataStore.getChunkMetadata('a')?.isArchived).toBe(false);
+  });
+
+  it('should merge duplicates into the canonical chunk', async () => {
+    stores.metadataStore.recordAccess('c');
+    const report = await consolidateDuplicates(stores);
+
+    expect(report).toMatchObject({ dryRun: false, duplicatesMerged: 2, vectorsDeleted: 2 });
+    expect(await stores.vectorStore.count()).toBe(3);
+    expect(stores.lexicalIndex.has('a')).toBe(false);
+
+    const canonical = stores.metadataStore.getChunkMetadata('b');
+    expect(canonical).toMatchObject({ accessCount: 10, importance: 0.8, chunkType: ChunkType.SOLUTION });
+    expect(canonical?.lastAccessedAt).toBe(stores.metadataStore.getChunkMetadata('c')?.lastAccessedAt);
+    expect(stores.metadataStore.getChunkMetadata('a')?.isArchived).toBe(true);
+
+    const superseded = stores.metadataStore.getRelatedChunkIds('b', RelationshipType.SUPERSEDES).sort();
+    expect(superseded).toEqual(['a', 'c']);
+
+    // Archived duplicates are not compared again
+    expect((await consolidateDuplicates(stores)).clusters).toEqual([]);
+  });
+
+  it('should respect the threshold', async () => {
+    const report = await consolidateDuplicates(stores, { threshold: 0.9995, dryRun: true });
+    expect(report.clusters.map(c => c.duplicates.map(d => d.chunkId))).toEqual([['a']]);
+
+    await expect(consolidateDuplicates(stores, { threshold: 1.5 })).rejects.toThrow(/between 0 and 1/);
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { EmbeddingCache, hashEmbeddingText } from '../../../src/services/embeddingCache.js';
+import { CachedEmbedder } from '../../../src/adapters/embeddings/cached.js';
+import { createMockEmbeddingsAdapter } from '../../mocks/embeddings.js';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { rmSync, existsSync } from 'fs';
+
+describe('EmbeddingCache', () => {
+  let cache: EmbeddingCache;
+  let dbPath: string;
+
+  const open = (maxEntries?: number) => {
+    cache = new EmbeddingCache(dbPath, { maxEntries });
+    return cache;
+  };
+
+  beforeEach(() => {
+    dbPath = join(tmpdir(), `test-embedding-cache-${Date.now()}-${Math.random().toString(36).slice(2)}.db`);
+  });
+
+  afterEach(() => {
+    cache.close();
+    for (const path of [dbPath, `${dbPath}-wal`, `${dbPath}-shm`]) {
+      if (existsSync(path)) rmSync(path, { force: true });
+    }
+  });
+
+  it('should return stored vectors and count hits and misses', () => {
+    open();
+    cache.set('xenova:mini', 3, 'hello world', [0.5, -0.25, 1]);
+
+    expect(cache.get('xenova:mini', 3, 'hello world')).toEqual([0.5, -0.25, 1]);
+    expect(cache.get('xenova:mini', 3, 'goodbye')).toBeNull();
+    expect(cache.getStats()).toMatchObject({ entries: 1, hits: 1, misses: 1, hitRate: 0.5, sizeBytes: 12 });
+  });
+
+  it('should key entries by model and dimensions', () => {
+    open();
+    cache.set('xenova:mini', 3, 'text', [1, 2, 3]);
+
+    expect(cache.get('openai:small', 3, 'text')).toBeNull();
+    expect(cache.get('xenova:mini', 4, 'text')).toBeNull();
+  });
+
+  it('should ignore whitespace and Unicode form differences', () => {
+    expect(hashEmbeddingText('  cafe\u0301\r\n  latte ')).toBe(hashEmbeddingText('caf\u00e9 latte'));
+    expect(hashEmbeddingText('cafe latte')).not.toBe(hashEmbeddingText('café latte'));
+  });
+
+  it('should evict the least recently used entries past the cap', () => {
+    open(2);
+    cache.set('m', 1, 'a', [1]);
+    cache.set('m', 1, 'b', [2]);
+    cache.get('m', 1, 'a');
+    cache.set('m', 1, 'c', [3]);
+
+    expect(cache.get('m', 1, 'a')).toEqual([1]);
+    expect(cache.get('m', 1, 'b')).toBeNull();
+    expect(cache.get('m', 1, 'c')).toEqual([3]);
+    expect(cache.getStats()).toMatchObject({ entries: 2, evictions: 1 });
+  });
+
+  it('should keep entries and counters across reopening', () => {
+    open();
+    cache.set('m', 1, 'a', [1]);
+    cache.get('m', 1, 'a');
+    cache.close();
+
+    open();
+    expect(cache.getStats()).toMatchObject({ entries: 1, hits: 1 });
+  });
+
+  it('should clear one model or everything', () => {
+    open();
+    cache.set('m1', 1, 'a', [1]);
+    cache.set('m2', 1, 'a', [2]);
+    cache.get('m1', 1, 'a');
+
+    expect(cache.clear('m1')).toBe(1);
+    expect(cache.getStats().models).toEqual([{ model: 'm2', dimensions: 1, entries: 1 }]);
+
+    expect(cache.clear()).toBe(1);
+    expect(cache.getStats()).toMatchObject({ entries: 0, hits: 0, misses: 0 });
+  });
+
+  describe('CachedEmbedder', () => {
+    it('should embed only texts missing from the cache', async () => {
+      const inner = createMockEmbeddingsAdapter({ dimension: 4 });
+      const embedder = new CachedEmbedder(inner, open(), 'mock');
+
+      const first = await embedder.embedBatch(['alpha', 'beta']);
+      const second = await embedder.embedBatch(['beta', 'gamma', 'alpha']);
+
+      expect(inner.embedBatch).toHaveBeenCalledTimes(2);
+      expect(inner.embedBatch).toHaveBeenLastCalledWith(['gamma']);
+      expect(second[0]).toEqual(first[1].map(v => Math.fround(v)));
+      expect(second[2]).toEqual(first[0].map(v => Math.fround(v)));
+      expect(cache.getStats().models).toEqual([{ model: 'mock:mock-embedding-model', dimensions: 4, entries: 3 }]);
+    });
+
+    it('should serve repeated queries from the cache', async () => {
+      const inner = createMockEmbeddingsAdapter({ dimension: 4 });
+      const embedder = new CachedEmbedder(inner, open(), 'mock');
+
+      await embedder.embed('how do tokens refresh?');
+      await embedder.embed('how do tokens refresh?');
+
+      expect(inner.embed).toHaveBeenCalledTimes(1);
+      expect(embedder.dimensions).toBe(4);
+      expect(embedder.modelName).toBe('mock-embedding-model');
+    });
+  });
+});
@@ -0,0 +1,220 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  EmbeddingReindexer,
+  EmbedderMismatchError,
+  checkEmbedderCompatibility,
+  createEmbeddingReindexRunner,
+} from '../../../src/services/embeddingMigration.js';
+import { SourceRegistry, createSourceId, hashContent } from '../../../src/services/sourceRegistry.js';
+import { ingestSourceContent } from '../../../src/services/sourceManager.js';
+import type { RAGConfig, VectorDocument, VectorStore, VectorStoreScanPage } from '../../../src/types/index.js';
+import { createMockEmbeddingsAdapter } from '../../mocks/embeddings.js';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { rmSync, existsSync } from 'fs';
+
+/**
+ * In-memory store with scan/clear that rejects vectors of a second dimension,
+ * like collections created with a fixed size
+ */
+class FixedDimensionStore implements VectorStore {
+  docs = new Map<string, VectorDocument>();
+
+  async add(docs: VectorDocument[]): Promise<void> {
+    const dimension = this.docs.values().next().value?.embedding.length;
+    for (const doc of docs) {
+      if (dimension !== undefined && doc.embedding.length !== dimension) {
+        throw new Error(`Vector dimension error: expected dim: ${dimension}, got ${doc.embedding.length}`);
+      }
+      this.docs.set(doc.id, doc);
+    }
+  }
+
+  async search() {
+    return [];
+  }
+
+  async delete(ids: string[]): Promise<void> {
+    ids.forEach(id => this.docs.delete(id));
+  }
+
+  async count(): Promise<number> {
+    return this.docs.size;
+  }
+
+  async scan(cursor: string | null, limit: number): Promise<VectorStoreScanPage> {
+    const start = cursor ? parseInt(cursor, 10) : 0;
+    const page = Array.from(this.docs.values()).slice(start, start + limit);
+    return {
+      chunks: page.map(({ id, content, metadata }) => ({ id, content, metadata })),
+      nextCursor: start + page.length < this.docs.size ? String(start + page.length) : null,
+    };
+  }
+
+  async clear(): Promise<void> {
+    this.docs.clear();
+  }
+}
+
+const xenovaConfig: RAGConfig = { vectorStore: 'memory', embeddings: 'xenova' };
+const openaiConfig: RAGConfig = { vectorStore: 'memory', embeddings: 'openai' };
+
+describe('embedding migration', () => {
+  let registry: SourceRegistry;
+  let reindexer: EmbeddingReindexer;
+  let store: FixedDimensionStore;
+  let paths: string[];
+
+  beforeEach(async () => {
+    const base = join(tmpdir(), `test-reindex-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    paths = [`${base}-sources.db`, `${base}-reindex.db`];
+    registry = new SourceRegistry(paths[0]);
+    reindexer = new EmbeddingReindexer(paths[1]);
+    store = new FixedDimensionStore();
+
+    await ingestSourceContent(
+      {
+        kind: 'text',
+        name: 'auth.md',
+        title: 'Auth',
+        content: Array.from({ length: 40 }, (_, i) => `Paragraph ${i} about token refresh.`).join('\n\n'),
+        chunking: { chunkSize: 20 },
+      },
+      { vectorStore: store, embedder: createMockEmbeddingsAdapter({ dimension: 8 }), config: xenovaConfig, sourceRegistry: registry }
+    );
+  });
+
+  afterEach(() => {
+    registry.close();
+    reindexer.close();
+    for (const path of paths.flatMap(p => [p, `${p}-wal`, `${p}-shm`])) {
+      if (existsSync(path)) rmSync(path, { force: true });
+    }
+  });
+
+  it('should record the embedder of the store at ingest', () => {
+    expect(registry.getStoreEmbedder('memory')).toEqual({
+      provider: 'xenova',
+      model: 'mock-embedding-model',
+      dimensions: 8,
+    });
+  });
+
+  it('should detect a changed embedder', () => {
+    const mismatch = checkEmbedderCompatibility(createMockEmbeddingsAdapter({ dimension: 16 }), openaiConfig, registry);
+
+    expect(mismatch?.stored.dimensions).toBe(8);
+    expect(mismatch?.current).toMatchObject({ provider: 'openai', dimensions: 16 });
+    expect(mismatch?.message).toContain('cursor-rag reindex --embeddings openai');
+    expect(mismatch?.message).not.toContain('--collection');
+    expect(checkEmbedderCompatibility(createMockEmbeddingsAdapter({ dimension: 16 }), openaiConfig, registry, 'docs')?.message)
+      .toContain('"docs" collection holds xenova');
+    expect(checkEmbedderCompatibility(createMockEmbeddingsAdapter({ dimension: 16 }), openaiConfig, registry, 'docs')?.message)
+      .toContain('cursor-rag reindex --embeddings openai --collection docs');
+    expect(checkEmbedderCompatibility(createMockEmbeddingsAdapter({ dimension: 8 }), xenovaConfig, registry)).toBeNull();
+  });
+
+  it('should refuse to ingest with a mismatched embedder', async () => {
+    await expect(ingestSourceContent(
+      { kind: 'text', name: 'billing.md', title: 'Billing', content: 'Charges are retried.' },
+      { vectorStore: store, embedder: createMockEmbeddingsAdapter({ dimension: 16 }), config: openaiConfig, sourceRegistry: registry }
+    )).rejects.toBeInstanceOf(EmbedderMismatchError);
+  });
+
+  it('should re-embed every chunk with its ID, content and metadata', async () => {
+    const before = Array.from(store.docs.values());
+    const embedder = createMockEmbeddingsAdapter({ dimension: 16 });
+    const progress = vi.fn();
+
+    const result = await reindexer.run(
+      { vectorStore: store, embedder, config: openaiConfig, sourceRegistry: registry },
+      { batchSize: 4, onProgress: progress }
+    );
+
+    expect(result).toMatchObject({ resumed: false, total: before.length, reembedded: before.length });
+    expect(store.docs.size).toBe(before.length);
+    for (const doc of before) {
+      const after = store.docs.get(doc.id)!;
+      expect(after.embedding).toHaveLength(16);
+      expect(after.content).toBe(doc.content);
+      expect(after.metadata).toEqual(doc.metadata);
+    }
+    expect(progress).toHaveBeenLastCalledWith({ phase: 'embedding', done: before.length, total: before.length });
+    expect(registry.getStoreEmbedder('memory')).toMatchObject({ provider: 'openai', dimensions: 16 });
+    expect(registry.listSources()[0].embedder).toMatchObject({ provider: 'openai', dimensions: 16 });
+    expect(reindexer.getActiveJob('memory')).toBeNull();
+  });
+
+  it('should resume an interrupted job without re-embedding finished batches', async () => {
+    const total = store.docs.size;
+    const embedder = createMockEmbeddingsAdapter({ dimension: 16 });
+    const realBatch = embedder.embedBatch;
+    let calls = 0;
+    embedder.embedBatch = vi.fn(async (texts: string[]) => {
+      if (++calls === 2) throw new Error('rate limited');
+      return realBatch(texts);
+    });
+    const deps = { vectorStore: store, embedder, config: openaiConfig, sourceRegistry: registry };
+
+    await expect(reindexer.run(deps, { batchSize: 4 })).rejects.toThrow('rate limited');
+
+    const job = reindexer.getActiveJob('memory')!;
+    expect(job).toMatchObject({ collection: 'default', status: 'embedding', total, done: 4, error: 'rate limited' });
+    // Other collections in the same store keep their own jobs
+    expect(reindexer.getActiveJob('memory', 'docs')).toBeNull();
+    const docsStore = new FixedDimensionStore();
+    await docsStore.add([{ id: 'd1', content: 'Docs chunk', embedding: new Array(8).fill(0.1), metadata: {} }]);
+    paths.push(`${paths[0]}-docs`);
+    const docsRegistry = new SourceRegistry(`${paths[0]}-docs`);
+    const docsResult = await reindexer.run({
+      vectorStore: docsStore,
+      embedder: createMockEmbeddingsAdapter({ dimension: 16 }),
+      config: openaiConfig,
+      sourceRegistry: docsRegistry,
+      collection: 'docs',
+    });
+    docsRegistry.close();
+    expect(docsResult).toMatchObject({ resumed: false, total: 1 });
+    expect(reindexer.getActiveJob('memory')?.id).toBe(job.id);
+    expect(store.docs.size).toBe(4);
+
+    const result = await reindexer.run(deps, { batchSize: 4 });
+
+    expect(result).toMatchObject({ jobId: job.id, resumed: true, total, reembedded: total - 4 });
+    expect(store.docs.size).toBe(total);
+    expect(reindexer.listJobs()[0]).toMatchObject({ status: 'completed', error: null });
+  });
+
+  it('should re-embed from the maintenance runner only when needed', async () => {
+    const current = createEmbeddingReindexRunner(
+      { vectorStore: store, embedder: createMockEmbeddingsAdapter({ dimension: 8 }), config: xenovaConfig, sourceRegistry: registry },
+      reindexer
+    );
+    expect(await current()).toBeNull();
+
+    const changed = createEmbeddingReindexRunner(
+      { vectorStore: store, embedder: createMockEmbeddingsAdapter({ dimension: 16 }), config: openaiConfig, sourceRegistry: registry },
+      reindexer
+    );
+    expect((await changed())?.reembedded).toBe(store.docs.size);
+  });
+
+  it('should fall back to the latest source for stores recorded before tracking', () => {
+    const legacy = new SourceRegistry(`${paths[0]}-legacy`);
+    paths.push(`${paths[0]}-legacy`);
+    legacy.upsertSource({
+      id: createSourceId('text', 'old'),
+      name: 'old',
+      title: 'Old',
+      kind: 'text',
+      uri: null,
+      chunkIds: ['c1'],
+      contentHash: hashContent('old'),
+      embedder: { provider: 'ollama', model: 'nomic-embed-text', dimensions: 768 },
+      chunking: { chunkSize: 512, chunkOverlap: 50 },
+    });
+
+    expect(legacy.getStoreEmbedder('qdrant')).toEqual({ provider: 'ollama', model: 'nomic-embed-text', dimensions: 768 });
+    legacy.close();
+  });
+});
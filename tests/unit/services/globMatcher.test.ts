@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { globToRegExp, matchesGlob, GitignoreMatcher } from '../../../src/services/globMatcher.js';
+
+describe('globToRegExp', () => {
+  it('should handle stars, double stars and alternation', () => {
+    expect(globToRegExp('docs/*.md').test('docs/a.md')).toBe(true);
+    expect(globToRegExp('docs/*.md').test('docs/sub/a.md')).toBe(false);
+    expect(globToRegExp('docs/**/*.md').test('docs/a.md')).toBe(true);
+    expect(globToRegExp('docs/**/*.md').test('docs/sub/deep/a.md')).toBe(true);
+    expect(globToRegExp('**/*.{ts,tsx}').test('src/app.tsx')).toBe(true);
+    expect(globToRegExp('file?.txt').test('file1.txt')).toBe(true);
+    expect(globToRegExp('a.b').test('axb')).toBe(false);
+  });
+});
+
+describe('matchesGlob', () => {
+  it('should match slash-free patterns against the file name at any depth', () => {
+    expect(matchesGlob('src/deep/notes.md', '*.md')).toBe(true);
+    expect(matchesGlob('src/deep/notes.md', 'src/*.md')).toBe(false);
+  });
+});
+
+describe('GitignoreMatcher', () => {
+  it('should apply ignore, negation and directory-only rules', () => {
+    const matcher = new GitignoreMatcher('/repo');
+    matcher.addRules(['# comment', '*.log', '!keep.log', 'build/', '/secret.md'].join('\n'));
+
+    expect(matcher.isIgnored('logs/app.log', false)).toBe(true);
+    expect(matcher.isIgnored('keep.log', false)).toBe(false);
+    expect(matcher.isIgnored('build', true)).toBe(true);
+    expect(matcher.isIgnored('build', false)).toBe(false);
+    expect(matcher.isIgnored('secret.md', false)).toBe(true);
+    expect(matcher.isIgnored('docs/secret.md', false)).toBe(false);
+  });
+
+  it('should scope nested rules to their directory', () => {
+    const matcher = new GitignoreMatcher('/repo');
+    matcher.addRules('drafts/', 'docs');
+
+    expect(matcher.isIgnored('docs/drafts', true)).toBe(true);
+    expect(matcher.isIgnored('drafts', true)).toBe(false);
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { HnswIndex } from '../../../src/services/hnswIndex.js';
+import type { VectorQuantization } from '../../../src/types/index.js';
+
+function randomVectors(count: number, dimensions: number, seed = 1): number[][] {
+  let state = seed;
+  const next = () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 2147483648 - 0.5;
+  };
+  return Array.from({ length: count }, () => Array.from({ length: dimensions }, next));
+}
+
+function recall(index: HnswIndex, queries: number[][], k: number): number {
+  const all = Array.from({ length: index.size }, (_, i) => i);
+  let found = 0;
+  for (const query of queries) {
+    const exact = new Set(index.exactSearch(query, k, all).map(m => m.node));
+    found += index.search(query, k).filter(m => exact.has(m.node)).length;
+  }
+  return found / (queries.length * k);
+}
+
+describe('HnswIndex', () => {
+  const vectors = randomVectors(1500, 24);
+  const queries = randomVectors(20, 24, 99);
+
+  it('should find nearly the same neighbours as an exact search', () => {
+    const index = new HnswIndex({ dimensions: 24 });
+    vectors.forEach(v => index.insert(v));
+
+    expect(recall(index, queries, 10)).toBeGreaterThan(0.9);
+    const [best] = index.search(vectors[42], 1);
+    expect(best.node).toBe(42);
+    expect(best.score).toBeCloseTo(1, 5);
+  });
+
+  it.each<VectorQuantization>(['float16', 'int8'])('should keep scores close with %s quantization', quantization => {
+    const exact = new HnswIndex({ dimensions: 24 });
+    const quantized = new HnswIndex({ dimensions: 24, quantization });
+    vectors.slice(0, 200).forEach(v => {
+      exact.insert(v);
+      quantized.insert(v);
+    });
+
+    expect(quantized.bytesPerVector).toBe(quantization === 'int8' ? 28 : 48);
+    const nodes = Array.from({ length: 200 }, (_, i) => i);
+    const expected = exact.exactSearch(queries[0], 5, nodes);
+    const actual = quantized.exactSearch(queries[0], 5, nodes);
+    actual.forEach((match, i) => expect(match.score).toBeCloseTo(expected[i].score, 1));
+    expect(actual[0].node).toBe(expected[0].node);
+  });
+
+  it('should skip deleted nodes and still reach the rest after compaction', () => {
+    const index = new HnswIndex({ dimensions: 24 });
+    vectors.slice(0, 600).forEach(v => index.insert(v));
+    for (let node = 0; node < 600; node += 2) index.markDeleted(node);
+
+    expect(index.search(vectors[10], 5).every(m => m.node % 2 === 1)).toBe(true);
+
+    const mapping = index.compact();
+    expect(index.size).toBe(300);
+    expect(index.deletedCount).toBe(0);
+    expect(mapping[10]).toBe(-1);
+    expect(mapping[11]).toBe(5);
+    expect(index.search(vectors[11], 1)[0].node).toBe(5);
+    expect(recall(index, queries, 10)).toBeGreaterThan(0.85);
+  });
+
+  it('should restore a serialized graph and link nodes added after it', () => {
+    const original = new HnswIndex({ dimensions: 24 });
+    vectors.slice(0, 500).forEach(v => original.insert(v));
+    const snapshot = original.serializeGraph();
+
+    const restored = new HnswIndex({ dimensions: 24 });
+    for (let node = 0; node < 500; node++) restored.appendEncoded(original.getEncoded(node));
+    const extra = vectors.slice(500, 600).map(v => restored.appendEncoded(restored.encode(v)));
+
+    expect(restored.restoreGraph(snapshot)).toBe(500);
+    extra.forEach(node => restored.link(node));
+
+    expect(restored.search(vectors[123], 1)[0].node).toBe(123);
+    expect(restored.search(vectors[550], 1)[0].node).toBe(550);
+  });
+
+  it('should reject snapshots that do not fit the stored vectors', () => {
+    const index = new HnswIndex({ dimensions: 24 });
+    vectors.slice(0, 10).forEach(v => index.insert(v));
+    const snapshot = index.serializeGraph();
+
+    expect(() => new HnswIndex({ dimensions: 24 }).restoreGraph(snapshot)).toThrow(/10 nodes but only 0 vectors/);
+    expect(() => index.restoreGraph(Buffer.from('not a graph'))).toThrow(/Not an HNSW graph/);
+  });
+});
@@ -0,0 +1,204 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { existsSync, mkdirSync, readFileSync, readdirSync, rmSync, writeFileSync } from 'fs';
+import Database from 'better-sqlite3';
+import type { RAGConfig } from '../../../src/types/index.js';
+import { RelationshipType } from '../../../src/types/memory.js';
+import { createMockEmbeddingsAdapter } from '../../mocks/embeddings.js';
+
+const testDir = join(tmpdir(), `test-archive-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+
+vi.mock('../../../src/services/config.js', () => ({
+  CONFIG_DIR: testDir,
+}));
+
+const { MemoryAdapter } = await import('../../../src/adapters/vector/memory.js');
+const { LocalAdapter } = await import('../../../src/adapters/vector/local.js');
+const { SourceRegistry } = await import('../../../src/services/sourceRegistry.js');
+const { MemoryMetadataStore } = await import('../../../src/services/memoryMetadataStore.js');
+const { LexicalIndex } = await import('../../../src/services/lexicalIndex.js');
+const { ingestSourceContent } = await import('../../../src/services/sourceManager.js');
+const { EmbedderMismatchError } = await import('../../../src/services/embeddingMigration.js');
+const {
+  ArchiveError,
+  createSnapshotRunner,
+  exportKnowledgeBase,
+  importKnowledgeBase,
+  readArchiveInfo,
+} = await import('../../../src/services/knowledgeArchive.js');
+
+const memoryConfig: RAGConfig = { vectorStore: 'memory', embeddings: 'xenova' };
+
+describe('knowledge base archives', () => {
+  let counter = 0;
+
+  /** Registry, metadata and keyword databases in their own directory */
+  const openStores = (config: RAGConfig, vectorStore = new MemoryAdapter(config)) => {
+    const dir = join(testDir, `kb-${counter++}`);
+    mkdirSync(dir, { recursive: true });
+    return {
+      vectorStore,
+      config,
+      sourceRegistry: new SourceRegistry(join(dir, 'sources.db')),
+      metadataStore: new MemoryMetadataStore(join(dir, 'memory.db')),
+      lexicalIndex: new LexicalIndex(join(dir, 'lexical.db')),
+      dir,
+    };
+  };
+  const localStores = (config: Partial<RAGConfig> = {}) => {
+    const dir = join(testDir, `local-${counter++}`);
+    const localConfig: RAGConfig = { ...memoryConfig, vectorStore: 'local', vectorStoreConfig: { localPath: dir }, ...config };
+    return openStores(localConfig, new LocalAdapter(localConfig));
+  };
+
+  let source: ReturnType<typeof openStores>;
+  let chunkIds: string[];
+  const embedder = createMockEmbeddingsAdapter({ dimension: 8 });
+
+  beforeEach(async () => {
+    mkdirSync(testDir, { recursive: true });
+    source = openStores(memoryConfig);
+
+    await ingestSourceContent(
+      {
+        kind: 'text',
+        name: 'auth.md',
+        title: 'Auth',
+        content: Array.from({ length: 12 }, (_, i) => `Paragraph ${i} about token refresh.`).join('\n\n'),
+        chunking: { chunkSize: 20 },
+      },
+      { ...source, embedder }
+    );
+    chunkIds = source.sourceRegistry.listSources()[0].chunkIds;
+    source.metadataStore.addRelationship(chunkIds[0], chunkIds[1], RelationshipType.RELATES_TO, 0.8);
+    source.metadataStore.upsertCategory({ id: 'cat:auth', name: 'auth', description: 'Authentication' });
+    source.metadataStore.assignChunkToCategory(chunkIds[0], 'cat:auth', 0.9);
+    source.metadataStore.markConversationProcessed('conv-1', 10, 2, 1);
+  });
+
+  afterEach(() => {
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should migrate chunks, vectors, metadata and sources to another vector store', async () => {
+    const path = join(testDir, 'kb.crag');
+    const exported = await exportKnowledgeBase(source, path);
+
+    expect(exported.info).toMatchObject({
+      vectorStore: 'memory',
+      collection: 'default',
+      chunks: chunkIds.length,
+      includesEmbeddings: true,
+      embedder: { provider: 'xenova', model: 'mock-embedding-model', dimensions: 8 },
+    });
+    expect(exported.info.tables).toMatchObject({ relationships: 1, category_items: 1, processed_conversations: 1, sources: 1 });
+    expect(readArchiveInfo(path).chunks).toBe(chunkIds.length);
+    expect(existsSync(`${path}.partial`)).toBe(false);
+
+    const target = localStores();
+    const imported = await importKnowledgeBase({ ...target, embedder }, path);
+
+    expect(imported).toMatchObject({ chunks: chunkIds.length, reembedded: false });
+    expect(await target.vectorStore.count()).toBe(chunkIds.length);
+    const [hit] = await target.vectorStore.search(await embedder.embed((await source.vectorStore.scan(null, 1)).chunks[0].content), { topK: 1 });
+    expect(hit.id).toBe((await source.vectorStore.scan(null, 1)).chunks[0].id);
+    expect(target.lexicalIndex.count()).toBe(chunkIds.length);
+    expect(target.sourceRegistry.listSources()[0].chunkIds).toEqual(chunkIds);
+    expect(target.sourceRegistry.getStoreEmbedder('local')).toMatchObject({ provider: 'xenova', dimensions: 8 });
+    expect(target.metadataStore.getRelationships(chunkIds[0], 'from')).toHaveLength(1);
+    expect(target.metadataStore.getChunkCategories(chunkIds[0])[0]).toMatchObject({ categoryId: 'cat:auth' });
+    expect(target.metadataStore.isConversationProcessed('conv-1')).toBe(true);
+  });
+
+  it('should re-embed on import and refuse mismatched vectors otherwise', async () => {
+    const path = join(testDir, 'kb.crag');
+    await exportKnowledgeBase(source, path);
+    const openaiEmbedder = createMockEmbeddingsAdapter({ dimension: 16 });
+    const target = localStores({ embeddings: 'openai' });
+
+    await expect(importKnowledgeBase({ ...target, embedder: openaiEmbedder }, path)).rejects.toThrow(/--reembed/);
+
+    const imported = await importKnowledgeBase({ ...target, embedder: openaiEmbedder }, path, { reembed: true, batchSize: 3 });
+    expect(imported.embedder).toMatchObject({ provider: 'openai', dimensions: 16 });
+    expect(openaiEmbedder.embedBatch).toHaveBeenCalledTimes(Math.ceil(chunkIds.length / 3));
+    expect(target.sourceRegistry.listSources()[0].embedder).toMatchObject({ provider: 'openai', dimensions: 16 });
+    expect((await target.vectorStore.scan!(null, 1, { includeEmbeddings: true })).chunks[0].embedding).toHaveLength(16);
+  });
+
+  it('should merge into a store unless it holds vectors of another embedder, and replace on request', async () => {
+    const path = join(testDir, 'kb.crag');
+    await exportKnowledgeBase(source, path);
+
+    const target = localStores();
+    await ingestSourceContent({ kind: 'text', name: 'billing.md', title: 'Billing', content: 'Charges are retried nightly.' }, { ...target, embedder });
+    await importKnowledgeBase({ ...target, embedder }, path);
+    expect(target.sourceRegistry.listSources()).toHaveLength(2);
+
+    await importKnowledgeBase({ ...target, embedder }, path, { replace: true });
+    expect(target.sourceRegistry.listSources().map(s => s.name)).toEqual(['auth.md']);
+    expect(await target.vectorStore.count()).toBe(chunkIds.length);
+
+    const other = localStores();
+    await ingestSourceContent(
+      { kind: 'text', name: 'billing.md', title: 'Billing', content: 'Charges are retried nightly.' },
+      { ...other, config: { ...other.config, embeddings: 'openai' }, embedder: createMockEmbeddingsAdapter({ dimension: 16 }) }
+    );
+    await expect(importKnowledgeBase({ ...other, embedder }, path)).rejects.toBeInstanceOf(EmbedderMismatchError);
+  });
+
+  it('should keep store tables the archive lacks when replacing, and leave the archive untouched', async () => {
+    const path = join(testDir, 'kb.crag');
+    await exportKnowledgeBase(source, path);
+    // An archive written before relationships were exported
+    const db = new Database(path);
+    db.exec('DROP TABLE relationships');
+    db.close();
+    const archiveBytes = readFileSync(path);
+
+    const target = localStores();
+    target.metadataStore.addRelationship('a', 'b', RelationshipType.RELATES_TO, 0.5);
+    const imported = await importKnowledgeBase({ ...target, embedder }, path, { replace: true });
+
+    expect(imported.tables.relationships).toBeUndefined();
+    expect(target.metadataStore.getRelationships('a', 'from')).toHaveLength(1);
+    expect(target.metadataStore.getChunkCategories(chunkIds[0])[0]).toMatchObject({ categoryId: 'cat:auth' });
+    expect(readFileSync(path).equals(archiveBytes)).toBe(true);
+  });
+
+  it('should require re-embedding for archives exported without vectors', async () => {
+    const path = join(testDir, 'text-only.crag');
+    const exported = await exportKnowledgeBase(source, path, { includeEmbeddings: false });
+    expect(exported.info.includesEmbeddings).toBe(false);
+
+    const target = localStores();
+    await expect(importKnowledgeBase({ ...target, embedder }, path)).rejects.toThrow(/have no vectors/);
+    await importKnowledgeBase({ ...target, embedder }, path, { reembed: true });
+    expect(await target.vectorStore.count()).toBe(chunkIds.length);
+  });
+
+  it('should not overwrite files or read files that are not archives', async () => {
+    const path = join(testDir, 'kb.crag');
+    await exportKnowledgeBase(source, path);
+    await expect(exportKnowledgeBase(source, path)).rejects.toThrow(/already exists/);
+
+    const notArchive = join(testDir, 'notes.crag');
+    writeFileSync(notArchive, 'just text');
+    expect(() => readArchiveInfo(notArchive)).toThrow(ArchiveError);
+    expect(() => readArchiveInfo(join(testDir, 'missing.crag'))).toThrow(/not found/);
+  });
+
+  it('should keep the newest snapshots', async () => {
+    const dir = join(testDir, 'snapshots');
+    const snapshot = createSnapshotRunner({ ...source, collection: 'work' }, { dir, keep: 2 });
+
+    const paths: string[] = [];
+    for (let i = 0; i < 3; i++) {
+      paths.push((await snapshot()).path);
+      await new Promise(resolve => setTimeout(resolve, 5));
+    }
+
+    expect(readdirSync(dir).sort()).toEqual(paths.slice(1).map(p => p.slice(dir.length + 1)));
+    expect(readArchiveInfo(paths[2])).toMatchObject({ collection: 'work', chunks: chunkIds.length });
+  });
+});
@@ -0,0 +1,239 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { LexicalIndex, buildMatchExpression } from '../../../src/services/lexicalIndex.js';
+import { hybridSearch, reciprocalRankFusion } from '../../../src/services/hybridSearch.js';
+import type { MetadataFilter, SearchResult, VectorStore } from '../../../src/types/index.js';
+import { createMockEmbeddingsAdapter } from '../../mocks/embeddings.js';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { rmSync, existsSync } from 'fs';
+
+function createDoc(id: string, content: string, source = 'docs.md') {
+  return { id, content, metadata: { source } };
+}
+
+function createResult(id: string, score: number): SearchResult {
+  return { id, content: `content ${id}`, metadata: { source: 'docs.md' }, score };
+}
+
+function createVectorStore(results: SearchResult[]): VectorStore {
+  return {
+    add: vi.fn(),
+    search: vi.fn(async (_embedding: number[], options: { topK: number }) => results.slice(0, options.topK)),
+    delete: vi.fn(),
+    count: vi.fn(async () => results.length),
+  };
+}
+
+function createScannableStore(docs: Array<ReturnType<typeof createDoc>>): VectorStore {
+  return {
+    ...createVectorStore([]),
+    scan: vi.fn(async (cursor: string | null, limit: number) => {
+      const offset = cursor ? Number(cursor) : 0;
+      const next = offset + limit;
+      return { chunks: docs.slice(offset, next), nextCursor: next < docs.length ? String(next) : null };
+    }),
+  };
+}
+
+describe('LexicalIndex', () => {
+  let index: LexicalIndex;
+  let dbPath: string;
+
+  beforeEach(() => {
+    dbPath = join(tmpdir(), `test-lexical-${Date.now()}-${Math.random().toString(36).slice(2)}.db`);
+    index = new LexicalIndex(dbPath);
+  });
+
+  afterEach(() => {
+    index.close();
+    if (existsSync(dbPath)) {
+      rmSync(dbPath, { force: true });
+    }
+    const walPath = `${dbPath}-wal`;
+    const shmPath = `${dbPath}-shm`;
+    if (existsSync(walPath)) rmSync(walPath, { force: true });
+    if (existsSync(shmPath)) rmSync(shmPath, { force: true });
+  });
+
+  it('should rank exact identifier matches first', () => {
+    index.add([
+      createDoc('a', 'Authentication overview and session handling.'),
+      createDoc('b', 'Throws ERR_INVALID_ARG_TYPE when the callback is missing.'),
+      createDoc('c', 'Set max_retries in the client config to control retries.'),
+    ]);
+
+    const results = index.search('ERR_INVALID_ARG_TYPE', { topK: 5 });
+
+    expect(results).toHaveLength(1);
+    expect(results[0].id).toBe('b');
+    expect(results[0].score).toBeGreaterThan(0);
+    expect(index.search('max_retries', { topK: 5 })[0].id).toBe('c');
+  });
+
+  it('should replace content on re-add and remove deleted chunks', () => {
+    index.add([createDoc('a', 'original wording')]);
+    index.add([createDoc('a', 'replacement wording')]);
+
+    expect(index.count()).toBe(1);
+    expect(index.search('original', { topK: 5 })).toHaveLength(0);
+    expect(index.search('replacement', { topK: 5 })).toHaveLength(1);
+
+    index.delete(['a']);
+    expect(index.has('a')).toBe(false);
+    expect(index.search('replacement', { topK: 5 })).toHaveLength(0);
+  });
+
+  it('should apply source filters', () => {
+    index.add([
+      createDoc('a', 'webhook retry policy', 'stripe.md'),
+      createDoc('b', 'webhook retry policy', 'github.md'),
+    ]);
+
+    const single = index.search('webhook', { topK: 5, filter: { source: 'github.md' } });
+    expect(single.map(r => r.id)).toEqual(['b']);
+
+    const multi = index.search('webhook', { topK: 5, filter: { source: { $in: ['stripe.md', 'github.md'] } } });
+    expect(multi).toHaveLength(2);
+  });
+
+  it('should apply metadata filters to the stored metadata', () => {
+    index.add([
+      { id: 'a', content: 'webhook handler', metadata: { source: 's', language: 'typescript', tags: ['auth', 'api'], createdAt: '2026-03-01T00:00:00Z' } },
+      { id: 'b', content: 'webhook handler', metadata: { source: 's', language: 'go', tags: ['billing'], createdAt: Date.UTC(2025, 0, 1), archived: true } },
+      { id: 'c', content: 'webhook handler', metadata: { source: 's', chunkType: 'code' } },
+    ]);
+    const ids = (filter: MetadataFilter) => index.search('webhook', { topK: 5, filter }).map(r => r.id).sort();
+
+    expect(ids({ tags: 'auth' })).toEqual(['a']);
+    expect(ids({ tags: { $nin: ['auth'] } })).toEqual(['b', 'c']);
+    expect(ids({ createdAt: { $gt: '2026-01-01' } })).toEqual(['a']);
+    expect(ids({ createdAt: { $lt: '2026-01-01' } })).toEqual(['b']);
+    expect(ids({ language: { $exists: false } })).toEqual(['c']);
+    expect(ids({ archived: true })).toEqual(['b']);
+    expect(ids({ $or: [{ language: 'go' }, { chunkType: 'code' }] })).toEqual(['b', 'c']);
+    expect(ids({ language: { $in: [] } })).toEqual([]);
+  });
+
+  it('should tolerate FTS5 syntax characters in queries', () => {
+    index.add([createDoc('a', 'Use the NEAR operator carefully')]);
+
+    expect(() => index.search('"unbalanced (quote* AND OR', { topK: 5 })).not.toThrow();
+    expect(index.search('?!', { topK: 5 })).toEqual([]);
+  });
+
+  it('should backfill chunks stored before the index existed, once', async () => {
+    const chunks = [
+      createDoc('old-1', 'ERR_QUOTA_EXCEEDED is returned past the limit'),
+      createDoc('old-2', 'Rotate the signing key yearly'),
+    ];
+    const vectorStore = createScannableStore(chunks);
+    index.add([createDoc('old-2', 'Rotate the signing key yearly')]);
+
+    expect(await index.backfill(vectorStore)).toBe(1);
+    expect(index.search('ERR_QUOTA_EXCEEDED', { topK: 5 }).map(r => r.id)).toEqual(['old-1']);
+
+    chunks.push(createDoc('old-3', 'ERR_QUOTA_EXCEEDED again'));
+    expect(await index.backfill(vectorStore)).toBe(0);
+    expect(await index.backfill(vectorStore, { force: true })).toBe(1);
+  });
+
+  it('should persist the backfill across reopening', async () => {
+    const chunks = [createDoc('old-1', 'legacy chunk')];
+    const vectorStore = createScannableStore(chunks);
+    await index.backfill(vectorStore);
+    index.close();
+
+    index = new LexicalIndex(dbPath);
+    chunks.push(createDoc('old-2', 'another legacy chunk'));
+    expect(await index.backfill(vectorStore)).toBe(0);
+    expect(index.count()).toBe(1);
+  });
+
+  it('should skip stores that cannot be scanned', async () => {
+    expect(await index.backfill(createVectorStore([createResult('a', 0.5)]))).toBe(0);
+    expect(index.count()).toBe(0);
+  });
+});
+
+describe('buildMatchExpression', () => {
+  it('should quote and OR unique lowercase terms', () => {
+    expect(buildMatchExpression('Fix ERR_X in fix-path')).toBe('"fix" OR "err_x" OR "in" OR "path"');
+    expect(buildMatchExpression('  ')).toBeNull();
+  });
+});
+
+describe('reciprocalRankFusion', () => {
+  it('should favour documents ranked well in both lists', () => {
+    const fused = reciprocalRankFusion([
+      [createResult('a', 0.9), createResult('b', 0.8), createResult('c', 0.7)],
+      [createResult('b', 12), createResult('c', 10)],
+    ]);
+
+    expect(fused.map(r => r.id)).toEqual(['b', 'c', 'a']);
+  });
+
+  it('should normalize a top-ranked document in every list to 1', () => {
+    const fused = reciprocalRankFusion([[createResult('a', 0.5)], [createResult('a', 3)]]);
+    expect(fused[0].score).toBeCloseTo(1);
+  });
+});
+
+describe('hybridSearch', () => {
+  let index: LexicalIndex;
+  let dbPath: string;
+
+  beforeEach(() => {
+    dbPath = join(tmpdir(), `test-hybrid-${Date.now()}-${Math.random().toString(36).slice(2)}.db`);
+    index = new LexicalIndex(dbPath);
+    index.add([createDoc('lex-only', 'ERR_TIMEOUT is raised after 30 seconds.')]);
+  });
+
+  afterEach(() => {
+    index.close();
+    for (const path of [dbPath, `${dbPath}-wal`, `${dbPath}-shm`]) {
+      if (existsSync(path)) rmSync(path, { force: true });
+    }
+  });
+
+  it('should fuse vector and lexical results and keep both scores', async () => {
+    const vectorStore = createVectorStore([createResult('vec-only', 0.82)]);
+    const embedder = createMockEmbeddingsAdapter({ dimension: 8 });
+
+    const { results, mode } = await hybridSearch('ERR_TIMEOUT', { vectorStore, embedder, lexicalIndex: index }, { topK: 5 });
+
+    expect(mode).toBe('hybrid');
+    expect(results.map(r => r.id).sort()).toEqual(['lex-only', 'vec-only']);
+    const lexical = results.find(r => r.id === 'lex-only')!;
+    expect(lexical.metadata.lexicalScore).toBeGreaterThan(0);
+    expect(lexical.metadata.vectorScore).toBeUndefined();
+  });
+
+  it('should skip embedding in lexical mode', async () => {
+    const vectorStore = createVectorStore([]);
+    const embedder = createMockEmbeddingsAdapter({ dimension: 8 });
+
+    const { results } = await hybridSearch('ERR_TIMEOUT', { vectorStore, embedder, lexicalIndex: index }, { topK: 5, mode: 'lexical' });
+
+    expect(results[0].id).toBe('lex-only');
+    expect(embedder.embed).not.toHaveBeenCalled();
+  });
+
+  it('should backfill existing chunks before a lexical search', async () => {
+    const vectorStore = createScannableStore([createDoc('legacy', 'ERR_LEGACY_ONLY was ingested long ago')]);
+    const embedder = createMockEmbeddingsAdapter({ dimension: 8 });
+
+    const { results } = await hybridSearch('ERR_LEGACY_ONLY', { vectorStore, embedder, lexicalIndex: index }, { topK: 5, mode: 'lexical' });
+
+    expect(results.map(r => r.id)).toEqual(['legacy']);
+  });
+
+  it('should fall back to vector search without a lexical index', async () => {
+    const vectorStore = createVectorStore([createResult('vec-only', 0.82)]);
+    const embedder = createMockEmbeddingsAdapter({ dimension: 8 });
+
+    const { results, mode } = await hybridSearch('anything', { vectorStore, embedder }, { topK: 5, mode: 'hybrid' });
+
+    expect(mode).toBe('vector');
+    expect(results[0].score).toBe(0.82);
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { hostname, tmpdir } from 'os';
+import { join } from 'path';
+import { rmSync } from 'fs';
+import { MemoryMetadataStore } from '../../../src/services/memoryMetadataStore.js';
+import { DecayCalculator } from '../../../src/services/decayCalculator.js';
+import { RelationshipGraph } from '../../../src/services/relationshipGraph.js';
+import {
+  MaintenanceLockError,
+  MaintenanceScheduler,
+  schedulerConfigFromMaintenanceConfig,
+  type SchedulerConfig,
+} from '../../../src/services/maintenanceScheduler.js';
+import { DEFAULT_MEMORY_CONFIG } from '../../../src/config/memoryConfig.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('MaintenanceScheduler', () => {
+  let store: MemoryMetadataStore;
+  let dbPath: string;
+
+  const createScheduler = (config: Partial<SchedulerConfig> = {}) =>
+    new MaintenanceScheduler(store, new DecayCalculator(), undefined, new RelationshipGraph(store), config);
+
+  const recordRun = (jobName: string, startTime: Date) => {
+    store.recordMaintenanceRun({
+      jobName,
+      success: true,
+      startTime,
+      endTime: startTime,
+      duration: 0,
+      metrics: {},
+      errors: [],
+    });
+  };
+
+  /** History in which every schedule except the nightly one is up to date */
+  const recordUpToDateRuns = (now: Date) => {
+    for (const job of ['decay', 'summarize', 'reindex']) {
+      recordRun(job, now);
+    }
+  };
+
+  beforeEach(() => {
+    dbPath = join(tmpdir(), `test-scheduler-${Date.now()}-${Math.random().toString(36).slice(2)}.db`);
+    store = new MemoryMetadataStore(dbPath);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    store.close();
+    for (const path of [dbPath, `${dbPath}-wal`, `${dbPath}-shm`]) {
+      rmSync(path, { force: true });
+    }
+  });
+
+  it('should catch up once on a run missed while no scheduler was running', async () => {
+    const now = new Date();
+    recordUpToDateRuns(now);
+    recordRun('consolidate', new Date(now.getTime() - 72 * HOUR_MS));
+
+    const scheduler = createScheduler();
+    const results = await scheduler.runDueJobs(now);
+
+    expect(results.map(r => r.jobName)).toEqual(['consolidate']);
+    expect(await scheduler.runDueJobs(now)).toEqual([]);
+    expect(await createScheduler().runDueJobs(now)).toEqual([]);
+  });
+
+  it('should not run anything on a first start or catch up when disabled', async () => {
+    const now = new Date();
+    expect(await createScheduler().runDueJobs(now)).toEqual([]);
+
+    recordUpToDateRuns(now);
+    recordRun('consolidate', new Date(now.getTime() - 72 * HOUR_MS));
+    // Scheduled hours ago, well past the grace period of an on-time run
+    const nightlyCron = `0 ${new Date(now.getTime() - 3 * HOUR_MS).getHours()} * * *`;
+    expect(await createScheduler({ nightlyCron, catchUpMissedRuns: false }).runDueJobs(now)).toEqual([]);
+  });
+
+  it('should follow the configured cron expressions', () => {
+    const scheduler = createScheduler({ nightlyCron: '30 1 * * *' });
+    const nightly = scheduler.getSchedule(new Date(2026, 2, 10, 12)).find(s => s.name === 'nightly');
+
+    expect(nightly).toMatchObject({ cron: '30 1 * * *', jobs: ['consolidate'], nextRun: new Date(2026, 2, 11, 1, 30) });
+    expect(() => createScheduler({ weeklyCron: '0 4 * *' })).toThrow(/expected 5 fields/);
+    expect(schedulerConfigFromMaintenanceConfig({ ...DEFAULT_MEMORY_CONFIG.maintenanceConfig, weeklyDay: 6, monthlyCron: '@monthly' }))
+      .toMatchObject({ nightlyCron: '0 3 * * *', weeklyCron: '0 4 * * 6', monthlyCron: '@monthly' });
+  });
+
+  it('should not run a job another live process holds the lock for', async () => {
+    store.acquireMaintenanceLock({ jobName: 'decay', owner: 'other', host: hostname(), pid: process.pid }, HOUR_MS);
+    const scheduler = createScheduler();
+
+    await expect(scheduler.runJob('decay')).rejects.toBeInstanceOf(MaintenanceLockError);
+    expect(store.getMaintenanceRuns()).toHaveLength(0);
+
+    store.releaseMaintenanceLock('decay', 'other');
+    expect((await scheduler.runJob('decay')).success).toBe(true);
+    expect(store.getMaintenanceLocks()).toEqual([]);
+  });
+
+  it('should take over the lock of a process that died', async () => {
+    store.acquireMaintenanceLock({ jobName: 'decay', owner: 'crashed', host: hostname(), pid: 2 ** 31 - 2 }, HOUR_MS);
+
+    expect((await createScheduler().runJob('decay')).success).toBe(true);
+  });
+
+  it('should keep job history and stats across scheduler instances', async () => {
+    await createScheduler().runJob('decay');
+    await createScheduler().runJob('cleanup', { dryRun: true });
+
+    const stats = createScheduler().getStats();
+    expect(stats.totalJobsRun).toBe(2);
+    expect(stats.jobHistory.map(j => j.jobName)).toEqual(['decay', 'cleanup']);
+    expect(stats.lastDecayUpdate).toBeInstanceOf(Date);
+    expect(stats.lastConsolidation).toBeNull();
+  });
+});
@@ -408,6 +408,60 @@ describe('MemoryMetadataStore', () => {
     });
   });
 
+  describe('Maintenance Jobs', () => {
+    const run = (jobName: string, startTime: string, errors: string[] = []) => {
+      const start = new Date(startTime);
+      return store.recordMaintenanceRun({
+        jobName,
+        success: errors.length === 0,
+        startTime: start,
+        endTime: new Date(start.getTime() + 1500),
+        duration: 1500,
+        metrics: { chunksUpdated: 3 },
+        errors,
+      }, 3);
+    };
+
+    it('should record runs newest first and prune old ones', () => {
+      run('decay', '2026-03-01T01:00:00Z');
+      run('consolidate', '2026-03-01T03:00:00Z', ['merge failed', 'archive failed']);
+      run('decay', '2026-03-01T02:00:00Z');
+      run('decay', '2026-03-01T04:00:00Z');
+
+      const runs = store.getMaintenanceRuns();
+      expect(runs.map(r => r.startTime.toISOString())).toEqual([
+        '2026-03-01T04:00:00.000Z',
+        '2026-03-01T03:00:00.000Z',
+        '2026-03-01T02:00:00.000Z',
+      ]);
+      expect(runs[1]).toMatchObject({ jobName: 'consolidate', success: false, errors: ['merge failed', 'archive failed'] });
+      expect(store.getLastMaintenanceRun('decay')?.metrics).toEqual({ chunksUpdated: 3 });
+      expect(store.getLastMaintenanceRun('reindex')).toBeNull();
+
+      const summary = store.getMaintenanceRunSummary();
+      expect(summary).toMatchObject({ totalRuns: 3, totalErrors: 2 });
+      expect(summary.lastSuccess.decay.toISOString()).toBe('2026-03-01T04:00:01.500Z');
+      expect(summary.lastSuccess.consolidate).toBeUndefined();
+    });
+
+    it('should let only one owner hold a job lock until it is released or expires', () => {
+      const lock = { jobName: 'reindex', owner: 'a', host: 'box', pid: 1 };
+
+      expect(store.acquireMaintenanceLock(lock, 60_000)).toBe(true);
+      expect(store.acquireMaintenanceLock({ ...lock, owner: 'b' }, 60_000)).toBe(false);
+      expect(store.acquireMaintenanceLock(lock, 60_000)).toBe(false);
+      expect(store.acquireMaintenanceLock({ ...lock, jobName: 'decay' }, 60_000)).toBe(true);
+
+      store.releaseMaintenanceLock('reindex', 'b');
+      expect(store.getMaintenanceLocks().map(l => l.jobName)).toEqual(['reindex', 'decay']);
+      store.releaseMaintenanceLock('reindex', 'a');
+      expect(store.acquireMaintenanceLock({ ...lock, owner: 'b' }, -1)).toBe(true);
+      // An expired lock is taken over
+      expect(store.acquireMaintenanceLock(lock, 60_000)).toBe(true);
+      expect(store.getMaintenanceLocks().find(l => l.jobName === 'reindex')?.owner).toBe('a');
+    });
+  });
+
   describe('Memory Stats', () => {
     it('should return correct stats', () => {
       store.upsertChunkMetadata({ chunkId: 'chunk-1', chunkType: ChunkType.SOLUTION });
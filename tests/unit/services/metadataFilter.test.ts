@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import {
+  MetadataFilterError,
+  combineFilters,
+  matchesFilter,
+  parseMetadataFilter,
+} from '../../../src/services/metadataFilter.js';
+import { toQdrantFilter } from '../../../src/adapters/vector/qdrant.js';
+import { toChromaWhere } from '../../../src/adapters/vector/chroma.js';
+import { toRediSearchQuery } from '../../../src/adapters/vector/redis.js';
+import type { MetadataFilter } from '../../../src/types/index.js';
+
+describe('parseMetadataFilter', () => {
+  it('should treat bare values as $eq and arrays as $in', () => {
+    expect(parseMetadataFilter({ chunkType: 'code', language: ['ts', 'go'] })).toEqual({
+      op: '$and',
+      filters: [
+        { op: '$eq', field: 'chunkType', value: 'code' },
+        { op: '$in', field: 'language', values: ['ts', 'go'] },
+      ],
+    });
+  });
+
+  it('should return null for empty filters', () => {
+    expect(parseMetadataFilter(undefined)).toBeNull();
+    expect(parseMetadataFilter({})).toBeNull();
+  });
+
+  it('should convert ISO dates in range operands to epoch milliseconds', () => {
+    expect(parseMetadataFilter({ createdAt: { $gte: '2026-01-01T00:00:00Z' } })).toEqual({
+      op: '$gte',
+      field: 'createdAt',
+      value: Date.UTC(2026, 0, 1),
+    });
+  });
+
+  it('should reject unknown operators, invalid fields and bad operands', () => {
+    expect(() => parseMetadataFilter({ language: { $like: 'ts' } } as any)).toThrow(MetadataFilterError);
+    expect(() => parseMetadataFilter({ $not: [{ language: 'ts' }] } as any)).toThrow(/Unknown filter operator \$not/);
+    expect(() => parseMetadataFilter({ 'meta.lang': 'ts' })).toThrow(/Invalid metadata field name/);
+    expect(() => parseMetadataFilter({ language: null } as any)).toThrow(/\$exists: false/);
+    expect(() => parseMetadataFilter({ createdAt: { $gt: 'yesterday' } })).toThrow(/number or an ISO 8601 date/);
+    expect(() => parseMetadataFilter({ $or: [] })).toThrow(/non-empty array/);
+  });
+});
+
+describe('matchesFilter', () => {
+  const metadata = {
+    source: 'auth.md',
+    chunkType: 'code',
+    language: 'typescript',
+    tags: ['auth', 'api'],
+    createdAt: '2026-03-01T00:00:00Z',
+  };
+  const matches = (filter: MetadataFilter) => matchesFilter(metadata, parseMetadataFilter(filter));
+
+  it('should match any element of array fields', () => {
+    expect(matches({ tags: 'auth' })).toBe(true);
+    expect(matches({ tags: { $in: ['billing', 'api'] } })).toBe(true);
+    expect(matches({ tags: { $nin: ['api'] } })).toBe(false);
+  });
+
+  it('should treat missing fields as not equal and not existing', () => {
+    expect(matches({ owner: { $ne: 'alice' } })).toBe(true);
+    expect(matches({ owner: { $exists: false } })).toBe(true);
+    expect(matches({ language: { $exists: true } })).toBe(true);
+    expect(matches({ owner: 'alice' })).toBe(false);
+  });
+
+  it('should compare dates and combine with $and/$or', () => {
+    expect(matches({ createdAt: { $gt: '2026-01-01', $lt: Date.UTC(2027, 0, 1) } })).toBe(true);
+    expect(matches({ $or: [{ language: 'go' }, { createdAt: { $lt: '2025-01-01' } }] })).toBe(false);
+    expect(matches({ $or: [{ language: 'go' }, { chunkType: 'code' }], source: 'auth.md' })).toBe(true);
+  });
+});
+
+describe('combineFilters', () => {
+  it('should AND the non-empty filters', () => {
+    expect(combineFilters(undefined, {})).toBeUndefined();
+    expect(combineFilters({ source: 'a' }, undefined)).toEqual({ source: 'a' });
+    expect(combineFilters({ source: 'a' }, { tags: 'x' })).toEqual({ $and: [{ source: 'a' }, { tags: 'x' }] });
+  });
+});
+
+describe('native filter translation', () => {
+  const filter = parseMetadataFilter({
+    chunkType: 'code',
+    language: { $nin: ['go'] },
+    $or: [{ tags: 'auth' }, { createdAt: { $gte: 1000 } }],
+  });
+
+  it('should build Qdrant must/should/must_not conditions', () => {
+    expect(toQdrantFilter(filter)).toEqual({
+      must: [
+        { key: 'chunkType', match: { value: 'code' } },
+        { must_not: [{ key: 'language', match: { any: ['go'] } }] },
+        { should: [{ key: 'tags', match: { value: 'auth' } }, { key: 'createdAt', range: { gte: 1000 } }] },
+      ],
+    });
+    expect(toQdrantFilter(parseMetadataFilter({ language: { $exists: false } }))).toEqual({
+      must: [{ is_empty: { key: 'language' } }],
+    });
+  });
+
+  it('should build a Chroma where clause', () => {
+    expect(toChromaWhere(filter)).toEqual({
+      $and: [
+        { chunkType: { $eq: 'code' } },
+        { language: { $nin: ['go'] } },
+        { $or: [{ tags: { $eq: 'auth' } }, { createdAt: { $gte: 1000 } }] },
+      ],
+    });
+    expect(() => toChromaWhere(parseMetadataFilter({ language: { $exists: true } }))).toThrow(/Chroma.*\$exists/);
+  });
+
+  it('should build a RediSearch query over tag and numeric fields', () => {
+    expect(toRediSearchQuery(null)).toBe('*');
+    expect(toRediSearchQuery(filter)).toBe('(@chunkType:{code} -@language:{go} (@tags:{auth} | @createdAt:[1000 +inf]))');
+    expect(toRediSearchQuery(parseMetadataFilter({ source: 'docs/auth-guide.md' }))).toBe('@source:{docs\\/auth\\-guide\\.md}');
+    expect(toRediSearchQuery(parseMetadataFilter({ language: { $in: [] } }))).toBeNull();
+    expect(() => toRediSearchQuery(parseMetadataFilter({ owner: 'alice' }))).toThrow(/not on owner/);
+    expect(() => toRediSearchQuery(parseMetadataFilter({ language: { $gt: 1 } }))).toThrow(/tag field "language"/);
+  });
+});
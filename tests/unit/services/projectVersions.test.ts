@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { mkdirSync, rmSync, writeFileSync } from 'fs';
+import { detectProjectVersions, findProjectRoot, findProjectVersion } from '../../../src/services/projectVersions.js';
+import { parseRulesDirectory } from '../../../src/services/rulesParser.js';
+import { DEFAULT_RULES_CONFIG } from '../../../src/config/rulesConfig.js';
+
+// Outdated detection needs no embedder; keep the model runtime from loading
+vi.mock('../../../src/adapters/embeddings/index.js', () => ({
+  createEmbedder: vi.fn(),
+}));
+
+const { RulesAnalyzer } = await import('../../../src/services/rulesAnalyzer.js');
+
+describe('project versions', () => {
+  let root: string;
+
+  const write = (path: string, content: string | object) => {
+    mkdirSync(join(root, path, '..'), { recursive: true });
+    writeFileSync(join(root, path), typeof content === 'string' ? content : JSON.stringify(content, null, 2));
+  };
+
+  beforeEach(() => {
+    root = join(tmpdir(), `test-project-versions-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    mkdirSync(root, { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should prefer lockfile versions over manifest ranges', () => {
+    write('package.json', {
+      dependencies: { react: '^18.2.0', '@angular/core': '~17.1.0' },
+      devDependencies: { typescript: '^5.3.0' },
+      engines: { node: '>=20' },
+    });
+    write('package-lock.json', {
+      lockfileVersion: 3,
+      packages: {
+        '': {},
+        'node_modules/react': { version: '18.3.1' },
+        'node_modules/@angular/core': { version: '17.1.2' },
+        'node_modules/foo/node_modules/react': { version: '16.14.0' },
+      },
+    });
+
+    const versions = detectProjectVersions(root);
+    expect(versions.get('npm:react')).toEqual({
+      name: 'react', ecosystem: 'npm', version: '18.3.1', source: 'package-lock.json', locked: true,
+    });
+    expect(versions.get('npm:@angular/core')?.version).toBe('17.1.2');
+    expect(versions.get('npm:typescript')).toMatchObject({ version: '5.3.0', source: 'package.json', locked: false });
+    expect(findProjectVersion(versions, 'node')?.version).toBe('20');
+  });
+
+  it('should read yarn and pnpm lockfiles', () => {
+    write('package.json', { dependencies: { react: '^18.0.0', vue: '^3.3.0' } });
+    write('yarn.lock', '# yarn lockfile v1\n\n"react@^18.0.0", react@^18.2.0:\n  version "18.2.0"\n  resolved "https://example"\n');
+    expect(detectProjectVersions(root).get('npm:react')?.version).toBe('18.2.0');
+
+    rmSync(join(root, 'yarn.lock'));
+    write('pnpm-lock.yaml', [
+      "lockfileVersion: '9.0'",
+      '',
+      'importers:',
+      '',
+      '  .:',
+      '    dependencies:',
+      '      react:',
+      '        specifier: ^18.0.0',
+      '        version: 18.3.1',
+      '      vue:',
+      '        specifier: ^3.3.0',
+      '        version: 3.4.21(typescript@5.4.2)',
+      '',
+      '  packages/app:',
+      '    dependencies:',
+      '      react:',
+      '        specifier: ^17.0.0',
+      '        version: 17.0.2',
+      '',
+    ].join('\n'));
+    const versions = detectProjectVersions(root);
+    expect(versions.get('npm:react')?.version).toBe('18.3.1');
+    expect(versions.get('npm:vue')).toMatchObject({ version: '3.4.21', source: 'pnpm-lock.yaml' });
+  });
+
+  it('should read Python, Go and Composer projects', () => {
+    write('pyproject.toml', [
+      '[project]',
+      'requires-python = ">=3.11"',
+      'dependencies = [',
+      '  "Django[argon2]>=4.2,<6",',
+      '  "pydantic==2.6.1",',
+      ']',
+      '',
+      '[tool.poetry.dependencies]',
+      'fastapi = { version = "^0.110", extras = ["all"] }',
+    ].join('\n'));
+    write('poetry.lock', '[[package]]\nname = "Django"\nversion = "5.0.3"\n\n[[package]]\nname = "fastapi"\nversion = "0.110.0"\n');
+    write('go.mod', 'module example.com/app\n\ngo 1.22\n\nrequire (\n\tgithub.com/gin-gonic/gin v1.9.1\n\tgolang.org/x/net v0.20.0 // indirect\n)\n');
+    write('composer.json', { require: { php: '^8.2', 'laravel/framework': '^11.0', 'ext-json': '*' } });
+    write('composer.lock', { packages: [{ name: 'laravel/framework', version: 'v11.2.0' }] });
+
+    const versions = detectProjectVersions(root);
+    expect(versions.get('python:django')).toMatchObject({ version: '5.0.3', source: 'poetry.lock' });
+    expect(versions.get('python:pydantic')).toMatchObject({ version: '2.6.1', locked: true });
+    expect(versions.get('python:fastapi')?.version).toBe('0.110.0');
+    expect(versions.get('runtime:python')?.version).toBe('3.11');
+    expect(versions.get('runtime:go')?.version).toBe('1.22');
+    expect(versions.get('go:github.com/gin-gonic/gin')?.version).toBe('1.9.1');
+    expect(versions.has('go:golang.org/x/net')).toBe(false);
+    expect(versions.get('composer:laravel/framework')).toMatchObject({ version: '11.2.0', source: 'composer.lock' });
+    expect(versions.get('runtime:php')?.version).toBe('8.2');
+  });
+
+  it('should flag rules that mention older framework versions than the project uses', () => {
+    write('package.json', { dependencies: { react: '^19.0.0', next: '15.1.0' } });
+    write('.cursor/rules/react.md', '# React\n\nWrite class components as in React 16.8 and use Next.js 15.\n');
+    write('.cursor/rules/current.md', '# Current\n\nThis project uses React 19 and Next.js 15.1.\n');
+    write('.cursor/rules/typescript.md', '# TypeScript\n\nTarget TypeScript 4.9 features.\n');
+
+    const rulesDir = join(root, '.cursor', 'rules');
+    expect(findProjectRoot(rulesDir)).toBe(root);
+
+    const config = {
+      ...DEFAULT_RULES_CONFIG,
+      versionChecks: [{ name: 'TypeScript', pattern: '\\btypescript\\s+(\\d+(?:\\.\\d+)?)', currentVersion: '5.4', enabled: true }],
+    };
+    const analyzer = new RulesAnalyzer({ vectorStore: 'memory', embeddings: 'xenova' }, { useLLM: false }, config);
+    const rules = parseRulesDirectory(rulesDir);
+
+    const outdated = analyzer.findOutdatedRules(rules);
+    expect(outdated.map(o => o.rule.title).sort()).toEqual(['React', 'TypeScript']);
+    expect(outdated.find(o => o.rule.title === 'React')?.outdatedReferences).toEqual([
+      { reference: 'React 16.8', currentVersion: '19.0.0', suggestedUpdate: 'React 19.0.0', source: 'package.json' },
+    ]);
+    expect(outdated.find(o => o.rule.title === 'TypeScript')?.outdatedReferences[0].currentVersion).toBe('5.4');
+
+    expect(analyzer.findOutdatedRules(rules, { projectVersions: false }).map(o => o.rule.title)).toEqual(['TypeScript']);
+  });
+});
@@ -0,0 +1,168 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  QueryDecomposer,
+  decomposeQuery,
+} from '../../../src/services/query-decomposer.js';
+import { createMockLLMProvider, createMockLLMWithJSONResponse } from '../../mocks/llmProvider.js';
+
+const context = [
+  {
+    question: 'How does the billing service call the ledger?',
+    chunks: [
+      { id: 'c1', content: 'The billing service publishes InvoiceCreated events.', metadata: { source: 'billing.md' }, score: 0.8 },
+    ],
+    iteration: 0,
+  },
+];
+
+describe('QueryDecomposer', () => {
+  describe('decompose', () => {
+    it('should return structured sub-questions from the LLM', async () => {
+      const llm = createMockLLMWithJSONResponse({
+        subQuestions: [
+          { question: 'Which service owns the ledger?', reasoning: 'Need the owner first' },
+          { question: 'How does billing talk to the ledger service?', reasoning: 'Second hop' },
+        ],
+      });
+      const decomposer = new QueryDecomposer(llm);
+
+      const result = await decomposer.decompose('How does billing reach the ledger owner?');
+
+      expect(result).toHaveLength(2);
+      expect(result[0]).toEqual({ question: 'Which service owns the ledger?', reasoning: 'Need the owner first' });
+    });
+
+    it('should accept JSON wrapped in code fences', async () => {
+      const llm = createMockLLMProvider({
+        defaultResponse: '```json\n{"subQuestions": [{"question": "What is X?", "reasoning": "r"}]}\n```',
+      });
+      const decomposer = new QueryDecomposer(llm);
+
+      const result = await decomposer.decompose('What is X?');
+
+      expect(result).toEqual([{ question: 'What is X?', reasoning: 'r' }]);
+    });
+
+    it('should cap the number of sub-questions', async () => {
+      const llm = createMockLLMWithJSONResponse({
+        subQuestions: Array.from({ length: 8 }, (_, i) => ({ question: `Q${i}?`, reasoning: '' })),
+      });
+      const decomposer = new QueryDecomposer(llm, { maxSubQuestions: 3 });
+
+      expect(await decomposer.decompose('big question')).toHaveLength(3);
+    });
+
+    it('should fall back to heuristics when the LLM fails', async () => {
+      const decomposer = new QueryDecomposer(createMockLLMProvider({ shouldFail: true }));
+      const query = 'What is React? What is Vue?';
+
+      const result = await decomposer.decompose(query);
+
+      expect(result.map(r => r.question)).toEqual(decomposeQuery(query));
+    });
+
+    it('should fall back to heuristics when no provider is configured', async () => {
+      const decomposer = new QueryDecomposer(null);
+
+      const result = await decomposer.decompose('Simple question');
+
+      expect(result).toHaveLength(1);
+      expect(result[0].question).toBe('Simple question');
+    });
+  });
+
+  describe('generateFollowUps', () => {
+    it('should return follow-ups aimed at missing entities', async () => {
+      const llm = createMockLLMWithJSONResponse({
+        sufficient: false,
+        missingEntities: ['LedgerConsumer'],
+        followUps: [
+          { query: 'LedgerConsumer InvoiceCreated handler', reasoning: 'Consumer side is missing', targetEntity: 'LedgerConsumer' },
+        ],
+      });
+      const decomposer = new QueryDecomposer(llm);
+
+      const followUps = await decomposer.generateFollowUps('How does billing reach the ledger?', context);
+
+      expect(followUps).toEqual([
+        { query: 'LedgerConsumer InvoiceCreated handler', reasoning: 'Consumer side is missing', targetEntity: 'LedgerConsumer' },
+      ]);
+    });
+
+    it('should target follow-ups at the missing entities they name', async () => {
+      const llm = createMockLLMWithJSONResponse({
+        sufficient: false,
+        missingEntities: ['LedgerConsumer', 'RetryQueue'],
+        followUps: [{ query: 'ledgerconsumer subscription setup', reasoning: 'Consumer side is missing' }],
+      });
+      const decomposer = new QueryDecomposer(llm);
+
+      const followUps = await decomposer.generateFollowUps('How does billing reach the ledger?', context);
+
+      expect(followUps).toEqual([
+        { query: 'ledgerconsumer subscription setup', reasoning: 'Consumer side is missing', targetEntity: 'LedgerConsumer' },
+        { query: 'RetryQueue', reasoning: 'Not explained by the retrieved excerpts', targetEntity: 'RetryQueue' },
+      ]);
+    });
+
+    it('should show retrieved excerpts and prior searches to the LLM', async () => {
+      const llm = createMockLLMWithJSONResponse({ sufficient: true, followUps: [] });
+      const decomposer = new QueryDecomposer(llm);
+
+      await decomposer.generateFollowUps('How does billing reach the ledger?', context);
+
+      const messages = (llm.chat as any).mock.calls[0][0];
+      const prompt = messages[messages.length - 1].content;
+      expect(prompt).toContain('InvoiceCreated events');
+      expect(prompt).toContain('How does the billing service call the ledger?');
+    });
+
+    it('should return nothing when the context is sufficient', async () => {
+      const llm = createMockLLMWithJSONResponse({ sufficient: true, followUps: [{ query: 'ignored' }] });
+      const decomposer = new QueryDecomposer(llm);
+
+      expect(await decomposer.generateFollowUps('q', context)).toEqual([]);
+    });
+
+    it('should drop follow-ups that repeat earlier searches', async () => {
+      const llm = createMockLLMWithJSONResponse({
+        followUps: [
+          { query: 'How does the billing service call the ledger', reasoning: 'repeat' },
+          { query: 'ledger retry policy', reasoning: 'new' },
+        ],
+      });
+      const decomposer = new QueryDecomposer(llm);
+
+      const followUps = await decomposer.generateFollowUps('q', context);
+
+      expect(followUps.map(f => f.query)).toEqual(['ledger retry policy']);
+    });
+
+    it('should fall back to heuristics on unparseable output', async () => {
+      const llm = createMockLLMProvider({ defaultResponse: 'not json at all' });
+      const decomposer = new QueryDecomposer(llm);
+
+      const followUps = await decomposer.generateFollowUps('how to deploy', [{ question: 'how to deploy', chunks: [] }]);
+
+      expect(followUps[0].query).toContain('What are the steps to');
+    });
+
+    it('should report the estimated token usage of each call', async () => {
+      const llm = createMockLLMWithJSONResponse({ sufficient: true, followUps: [] });
+      const onUsage = vi.fn();
+      const decomposer = new QueryDecomposer(llm, { onUsage });
+
+      await decomposer.generateFollowUps('How does billing reach the ledger?', context);
+
+      const messages = (llm.chat as any).mock.calls[0][0];
+      const promptChars = messages.map((m: { content: string }) => m.content).join('\n').length;
+      const completionChars = JSON.stringify({ sufficient: true, followUps: [] }).length;
+      expect(onUsage).toHaveBeenCalledOnce();
+      expect(onUsage).toHaveBeenCalledWith({
+        promptTokens: Math.ceil(promptChars / 4),
+        completionTokens: Math.ceil(completionChars / 4),
+        totalTokens: Math.ceil(promptChars / 4) + Math.ceil(completionChars / 4),
+      });
+    });
+  });
+});
@@ -0,0 +1,226 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  RecursiveRetrievalController,
+  createProviderLLMService,
+  type QueryRetriever,
+} from '../../../src/services/recursiveRetrieval.js';
+import type { LLMService } from '../../../src/services/contextEnvironment.js';
+import type { SearchResult } from '../../../src/types/index.js';
+import { createMockLLMProvider } from '../../mocks/llmProvider.js';
+
+const CHUNKS: SearchResult[] = [
+  { id: 'auth-1', content: 'Tokens are refreshed by the auth service every hour.', metadata: { source: 'auth.md' }, score: 0.9 },
+  { id: 'auth-2', content: 'Refresh failures raise AuthError 401.', metadata: { source: 'auth.md' }, score: 0.7 },
+  { id: 'billing-1', content: 'Billing retries failed charges three times.', metadata: { source: 'billing.md' }, score: 0.6 },
+];
+
+const vectorStore = { search: vi.fn(async () => CHUNKS) };
+const embeddings = { embed: vi.fn(async () => [0.1, 0.2]) };
+
+/**
+ * Retriever returning chunks whose content mentions any word of the query
+ */
+const keywordRetriever: QueryRetriever = async (query, topK) => {
+  const words = query.toLowerCase().split(/\W+/).filter(w => w.length > 3);
+  return CHUNKS.filter(c => words.some(w => c.content.toLowerCase().includes(w))).slice(0, topK);
+};
+
+/**
+ * LLM service replaying a fixed list of actions, then answering
+ */
+function scriptedLLM(actions: object[]): LLMService & { prompts: string[] } {
+  const prompts: string[] = [];
+  return {
+    prompts,
+    invoke: async (prompt: string) => {
+      prompts.push(prompt);
+      const next = actions[prompts.length - 1] ?? { type: 'answer', params: { value: 'Done.' } };
+      return JSON.stringify(next);
+    },
+  };
+}
+
+const controller = (llm: LLMService, config = {}) =>
+  new RecursiveRetrievalController(vectorStore, embeddings, llm, undefined, {
+    enableHybridScoring: false,
+    ...config,
+  });
+
+describe('RecursiveRetrievalController', () => {
+  it('should answer simple queries directly without calling the LLM', async () => {
+    const llm = scriptedLLM([]);
+
+    const result = await controller(llm).retrieve('Where are tokens refreshed?');
+
+    expect(result.strategy).toBe('direct');
+    expect(result.complexity).toBe('simple');
+    expect(result.chunks.map(c => c.id)).toEqual(['auth-1', 'auth-2', 'billing-1']);
+    expect(llm.prompts).toHaveLength(0);
+  });
+
+  it('should merge results of the initial queries through the retriever', async () => {
+    const result = await controller(scriptedLLM([])).retrieve('What happens on failures?', {
+      retriever: keywordRetriever,
+      initialQueries: ['How are tokens refreshed?', 'Which failures affect charges?'],
+      forceStrategy: 'direct',
+    });
+
+    expect(result.chunks.map(c => c.id).sort()).toEqual(['auth-1', 'auth-2', 'billing-1']);
+    expect(vectorStore.search).not.toHaveBeenCalled();
+  });
+
+  it('should iterate with LLM actions and load extra searches through the retriever', async () => {
+    const llm = scriptedLLM([
+      { type: 'filter', params: { variable: 'context', pattern: 'refresh', output: 'refresh' } },
+      { type: 'search', params: { query: 'billing charges', output: 'billing' } },
+      { type: 'answer', params: { value: 'Tokens refresh hourly.' } },
+    ]);
+    const retriever = vi.fn(keywordRetriever);
+
+    const result = await controller(llm).retrieve('Compare token refresh and billing retries', {
+      retriever,
+      forceStrategy: 'recursive',
+    });
+
+    expect(result.strategy).toBe('recursive');
+    expect(result.iterations).toBe(3);
+    expect(result.answer).toBe('Tokens refresh hourly.');
+    expect(result.terminationReason).toBe('Answer found');
+    expect(result.cost).toBeGreaterThan(0);
+    expect(retriever).toHaveBeenCalledWith('billing charges', 10);
+    expect(result.chunks.map(c => c.id)).toContain('billing-1');
+    expect(llm.prompts[0]).toContain('**search**');
+  });
+
+  it('should run at least one iteration when maxIterations is 1', async () => {
+    const llm = scriptedLLM([{ type: 'peek', params: { variable: 'context', start: 0, end: 1 } }]);
+
+    const result = await controller(llm, { maxIterations: 1 }).retrieve('Summarize auth', {
+      forceStrategy: 'recursive',
+    });
+
+    expect(llm.prompts).toHaveLength(1);
+    expect(result.iterations).toBe(1);
+    expect(result.terminationReason).toBe('Max iterations reached');
+  });
+
+  it('should stop when the cost budget is spent', async () => {
+    const llm = scriptedLLM(Array(10).fill({ type: 'peek', params: { variable: 'context' } }));
+
+    const result = await controller(llm, { costBudget: 1e-9 }).retrieve('Summarize auth', {
+      forceStrategy: 'recursive',
+    });
+
+    expect(llm.prompts).toHaveLength(1);
+    expect(result.terminationReason).toBe('Cost budget exceeded');
+  });
+
+  it('should keep the retrieved chunks when the LLM keeps failing', async () => {
+    const invoke = vi.fn(async () => { throw new Error('connection refused'); });
+
+    const result = await controller({ invoke }).retrieve('Summarize auth', { forceStrategy: 'recursive' });
+
+    expect(invoke).toHaveBeenCalledTimes(3);
+    expect(result.terminationReason).toBe(
+      'Circuit breaker open after 3 consecutive failed steps (last: connection refused)'
+    );
+    expect(result.safeguards.circuitBreaker).toBe('open');
+    expect(result.chunks).toHaveLength(3);
+  });
+
+  it('should recover from a single failed step', async () => {
+    let calls = 0;
+    const llm: LLMService = {
+      invoke: async () => {
+        if (++calls === 1) throw new Error('connection reset');
+        return JSON.stringify({ type: 'answer', params: { value: 'Tokens are refreshed hourly.' } });
+      },
+    };
+
+    const result = await controller(llm).retrieve('Summarize auth', { forceStrategy: 'recursive' });
+
+    expect(result.iterations).toBe(2);
+    expect(result.terminationReason).toBe('Answer found');
+    expect(result.safeguards.circuitBreaker).toBe('closed');
+  });
+
+  describe('safeguards', () => {
+    it('should avoid recursion on models with limited code execution', async () => {
+      const llm = scriptedLLM([]);
+
+      const result = await controller(llm, { modelName: 'llama3.2' }).retrieve('Compare token refresh and billing retries');
+
+      expect(result.strategy).toBe('iterative');
+      expect(result.complexity).toBe('moderate');
+      expect(result.safeguards).toMatchObject({ model: 'llama3.2', maxIterations: 8, maxSubCalls: 40 });
+      expect(llm.prompts).toHaveLength(0);
+    });
+
+    it('should not choose recursion when it is not allowed', async () => {
+      const result = await controller(scriptedLLM([]), { modelName: 'gpt-4o' }).retrieve(
+        'Compare token refresh and billing retries',
+        { allowRecursive: false }
+      );
+
+      expect(result.strategy).toBe('iterative');
+    });
+
+    it('should cap iterations at the model limit', async () => {
+      const llm = scriptedLLM(Array(20).fill({ type: 'peek', params: { variable: 'context' } }));
+
+      const result = await controller(llm, { modelName: 'local', maxIterations: 10 }).retrieve('Summarize auth', {
+        forceStrategy: 'recursive',
+      });
+
+      expect(result.iterations).toBe(5);
+      expect(result.safeguards.maxIterations).toBe(5);
+      expect(result.terminationReason).toBe('Max iterations reached');
+    });
+
+    it('should reject plans posing as answers', async () => {
+      const llm: LLMService = { invoke: async () => 'Let me look at more of the context before answering.' };
+
+      const result = await controller(llm).retrieve('Summarize auth', { forceStrategy: 'recursive' });
+
+      expect(result.answer).toBeUndefined();
+      expect(result.safeguards.rejectedAnswers).toBe(3);
+      expect(result.terminationReason).toMatch(/^Circuit breaker open after 3 consecutive failed steps \(last: answer rejected/);
+    });
+
+    it('should stop when the thinking token budget is spent and keep the answer reserve', async () => {
+      const llm = scriptedLLM(Array(5).fill({
+        type: 'peek',
+        params: { variable: 'context' },
+        reasoning: 'x'.repeat(4000),
+      }));
+
+      const result = await controller(llm, { modelName: 'local' }).retrieve('Summarize auth', {
+        forceStrategy: 'recursive',
+      });
+
+      expect(llm.prompts).toHaveLength(1);
+      expect(result.terminationReason).toBe('Token budget exhausted');
+      expect(result.safeguards.thinkingTokensUsed).toBeGreaterThanOrEqual(result.safeguards.maxThinkingTokens);
+      expect(result.safeguards.reservedForAnswer).toBe(256);
+    });
+
+    it('should stop waiting for a slow model at the time limit', async () => {
+      const llm: LLMService = { invoke: () => new Promise(resolve => setTimeout(() => resolve('{}'), 5000)) };
+      const started = Date.now();
+
+      const result = await controller(llm, { timeoutMs: 100 }).retrieve('Summarize auth', { forceStrategy: 'recursive' });
+
+      expect(result.terminationReason).toBe('Timeout');
+      expect(Date.now() - started).toBeLessThan(2000);
+      expect(result.chunks).toHaveLength(3);
+    });
+  });
+
+  it('should adapt LLM providers to the LLM service interface', async () => {
+    const provider = createMockLLMProvider({ defaultResponse: 'provider says hi' });
+    const service = createProviderLLMService(provider);
+
+    expect(await service.invoke('hello', { maxTokens: 10 })).toBe('provider says hi');
+    expect(provider.complete).toHaveBeenCalledWith('hello', { maxTokens: 10 });
+  });
+});
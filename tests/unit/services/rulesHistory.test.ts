@@ -0,0 +1,139 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { existsSync, mkdirSync, readFileSync, rmSync, unlinkSync, writeFileSync } from 'fs';
+import {
+  RulesHistoryError,
+  createRulesBackup,
+  diffRulesBackup,
+  listRulesRuns,
+  readRulesBackup,
+  restoreRulesBackup,
+  unifiedDiff,
+} from '../../../src/services/rulesHistory.js';
+import { parseRulesDirectory } from '../../../src/services/rulesParser.js';
+
+describe('rules history', () => {
+  let folder: string;
+  let backupDir: string;
+
+  const rulePath = (name: string) => join(folder, name);
+  const read = (name: string) => readFileSync(rulePath(name), 'utf-8');
+
+  /** Back up, then apply the changes the way the optimizer would */
+  const applyRun = () => {
+    const manifest = createRulesBackup(backupDir, {
+      command: 'merge',
+      folder,
+      changes: [
+        { path: rulePath('testing.md'), changeType: 'modify', newContent: '# Testing\n\nUse vitest.\nMock the network.\n' },
+        { path: rulePath('mocks.md'), changeType: 'delete' },
+        { path: rulePath('summary.md'), changeType: 'create', newContent: '# Summary\n' },
+      ],
+      tokensBefore: 40,
+      tokensAfter: 25,
+    });
+    writeFileSync(rulePath('testing.md'), '# Testing\n\nUse vitest.\nMock the network.\n');
+    unlinkSync(rulePath('mocks.md'));
+    writeFileSync(rulePath('summary.md'), '# Summary\n');
+    return manifest;
+  };
+
+  beforeEach(() => {
+    folder = join(tmpdir(), `test-rules-history-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    backupDir = join(folder, '.cursor-rag', 'rules-backup');
+    mkdirSync(folder, { recursive: true });
+    writeFileSync(rulePath('testing.md'), '# Testing\n\nUse vitest.\n');
+    writeFileSync(rulePath('mocks.md'), '# Mocks\n\nMock the network.\n');
+  });
+
+  afterEach(() => {
+    rmSync(folder, { recursive: true, force: true });
+  });
+
+  it('should keep every run as its own backup set with a manifest', () => {
+    const first = applyRun();
+    const second = createRulesBackup(backupDir, {
+      command: 'rewrite',
+      folder,
+      changes: [{ path: rulePath('testing.md'), changeType: 'modify', newContent: '# Testing\n' }],
+    });
+
+    expect(second.id).not.toBe(first.id);
+    expect(readRulesBackup(backupDir, first.id).changes.map(c => [c.changeType, c.existed])).toEqual([
+      ['modify', true],
+      ['delete', true],
+      ['create', false],
+    ]);
+
+    const runs = listRulesRuns(backupDir);
+    expect(runs.map(r => r.id)).toEqual([second.id, first.id]);
+    expect(runs[1]).toMatchObject({ command: 'merge', files: 3, tokensSaved: 15, restoredAt: null });
+    expect(runs[0].tokensBefore).toBeGreaterThan(runs[0].tokensAfter);
+
+    // Backup copies are not picked up as rules
+    expect(parseRulesDirectory(folder).map(r => r.sourceFile.filename).sort()).toEqual(['summary.md', 'testing.md']);
+  });
+
+  it('should restore all changes of a run and make the restore undoable', () => {
+    const run = applyRun();
+    const result = restoreRulesBackup(backupDir, run.id);
+
+    expect(result.restored).toEqual([rulePath('testing.md'), rulePath('mocks.md')]);
+    expect(result.removed).toEqual([rulePath('summary.md')]);
+    expect(read('testing.md')).toBe('# Testing\n\nUse vitest.\n');
+    expect(read('mocks.md')).toBe('# Mocks\n\nMock the network.\n');
+    expect(existsSync(rulePath('summary.md'))).toBe(false);
+    expect(listRulesRuns(backupDir).find(r => r.id === run.id)?.restoredAt).toBeInstanceOf(Date);
+
+    restoreRulesBackup(backupDir, result.backupId!);
+    expect(read('testing.md')).toBe('# Testing\n\nUse vitest.\nMock the network.\n');
+    expect(existsSync(rulePath('mocks.md'))).toBe(false);
+    expect(read('summary.md')).toBe('# Summary\n');
+  });
+
+  it('should restore selected files only and preview on a dry run', () => {
+    const run = applyRun();
+
+    const preview = restoreRulesBackup(backupDir, run.id, { paths: ['mocks.md'], dryRun: true });
+    expect(preview).toMatchObject({ dryRun: true, restored: [rulePath('mocks.md')], removed: [], backupId: null });
+    expect(existsSync(rulePath('mocks.md'))).toBe(false);
+
+    restoreRulesBackup(backupDir, run.id, { paths: ['mocks.md'] });
+    expect(read('mocks.md')).toBe('# Mocks\n\nMock the network.\n');
+    expect(read('testing.md')).toBe('# Testing\n\nUse vitest.\nMock the network.\n');
+
+    expect(() => restoreRulesBackup(backupDir, run.id, { paths: ['other.md'] })).toThrow(RulesHistoryError);
+    expect(() => restoreRulesBackup(backupDir, '../escape')).toThrow(/Invalid run ID/);
+  });
+
+  it('should diff each file against its original', () => {
+    const run = applyRun();
+    const [testing, mocks, summary] = diffRulesBackup(backupDir, run.id);
+
+    expect(testing.diff).toBe([
+      '--- a/testing.md',
+      '+++ b/testing.md',
+      '@@ -1,3 +1,4 @@',
+      ' # Testing',
+      ' ',
+      ' Use vitest.',
+      '+Mock the network.',
+      '',
+    ].join('\n'));
+    expect(mocks.diff).toContain('+++ /dev/null\n@@ -1,3 +0,0 @@\n-# Mocks\n');
+    expect(summary.diff).toContain('--- /dev/null\n+++ b/summary.md\n@@ -0,0 +1,1 @@\n+# Summary\n');
+    expect(diffRulesBackup(backupDir, run.id, ['testing.md'])).toHaveLength(1);
+  });
+
+  it('should split distant changes into separate hunks', () => {
+    const before = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`).join('\n');
+    const after = before.replace('line 2\n', 'line two\n').replace('line 19\n', '');
+
+    expect(unifiedDiff(before, after).split('\n').filter(l => l.startsWith('@@'))).toEqual([
+      '@@ -1,5 +1,5 @@',
+      '@@ -16,5 +16,4 @@',
+    ]);
+    expect(unifiedDiff('same\n', 'same\n')).toBe('');
+  });
+});
@@ -0,0 +1,167 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { mkdirSync, rmSync, writeFileSync } from 'fs';
+import { parseRulesDirectory } from '../../../src/services/rulesParser.js';
+import { DEFAULT_RULES_CONFIG } from '../../../src/config/rulesConfig.js';
+import {
+  RulesLintError,
+  activeRulesFor,
+  lintRules,
+  listProjectFiles,
+  ruleGlobs,
+} from '../../../src/services/rulesLinter.js';
+
+// Linting needs no embedder; keep the model runtime from loading
+vi.mock('../../../src/adapters/embeddings/index.js', () => ({
+  createEmbedder: vi.fn(),
+}));
+
+const home = vi.hoisted(() => ({ dir: '' }));
+vi.mock('os', async importOriginal => {
+  const os = await importOriginal<typeof import('os')>();
+  return { ...os, homedir: () => home.dir || os.homedir() };
+});
+
+const { RulesAnalyzer } = await import('../../../src/services/rulesAnalyzer.js');
+
+describe('rules linter', () => {
+  let root: string;
+  let rulesDir: string;
+
+  const write = (path: string, content: string) => {
+    mkdirSync(join(root, path, '..'), { recursive: true });
+    writeFileSync(join(root, path), content);
+  };
+  const rule = (name: string) => join(rulesDir, name);
+  const analyzer = () => new RulesAnalyzer({ vectorStore: 'memory', embeddings: 'xenova' }, { useLLM: false }, DEFAULT_RULES_CONFIG);
+  const lint = (options: { alwaysApplyTokenBudget?: number; file?: string } = {}) =>
+    lintRules(parseRulesDirectory(rulesDir), analyzer(), { folder: rulesDir, ...options });
+
+  beforeEach(() => {
+    root = join(tmpdir(), `test-rules-lint-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    rulesDir = join(root, '.cursor', 'rules');
+    write('package.json', '{}');
+    write('.gitignore', 'dist/\n');
+    write('src/app.ts', '');
+    write('src/ui/button.tsx', '');
+    write('tests/app.test.ts', '');
+    write('dist/app.js', '');
+    write('node_modules/pkg/index.js', '');
+
+    write('.cursor/rules/typescript.mdc', [
+      '---',
+      'description: TypeScript conventions',
+      'globs: src/**/*.{ts,tsx}, dist/**',
+      '---',
+      '# TypeScript',
+      '',
+      'Always use named exports for modules in this project.',
+    ].join('\n'));
+    write('.cursor/rules/general.mdc', [
+      '---',
+      'description: General conventions',
+      'alwaysApply: true',
+      '---',
+      '# General',
+      '',
+      'Never use named exports for modules in this project.',
+    ].join('\n'));
+    write('.cursor/rules/legacy.mdc', '---\nglobs: lib/**/*.js\n---\n# Legacy\n\nKeep jQuery plugins in lib.\n');
+    write('.cursor/rules/notes.mdc', '# Notes\n\nWrite release notes for every change.\n');
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should split globs on commas outside braces', () => {
+    expect(ruleGlobs({ globs: 'src/**/*.{ts,tsx}, "tests/**" ,' })).toEqual(['src/**/*.{ts,tsx}', 'tests/**']);
+    expect(ruleGlobs({ globs: ['*.md', 'docs/**'] })).toEqual(['*.md', 'docs/**']);
+    // An empty `globs:` line is parsed as 0
+    expect(ruleGlobs({ globs: 0 as unknown as string })).toEqual([]);
+  });
+
+  it('should match globs against project files that are not ignored', () => {
+    expect(listProjectFiles(root)).not.toContain('dist/app.js');
+    expect(listProjectFiles(root)).not.toContain('node_modules/pkg/index.js');
+
+    const report = lint();
+    expect(report.projectRoot).toBe(root);
+
+    const typescript = report.rules.find(r => r.path === rule('typescript.mdc'))!;
+    expect(typescript.globMatches).toEqual({ 'src/**/*.{ts,tsx}': 2, 'dist/**': 0 });
+
+    const unmatched = report.issues.filter(i => i.code === 'unmatched-glob');
+    expect(unmatched.map(i => [i.severity, i.glob])).toEqual([
+      // legacy.mdc never attaches, typescript.mdc still does through its other glob
+      ['error', 'lib/**/*.js'],
+      ['warning', 'dist/**'],
+    ]);
+  });
+
+  it('should report conflicts between rules on shared files and missing descriptions', () => {
+    const report = lint();
+
+    const conflicts = report.issues.filter(i => i.code === 'conflicting-overlap');
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0]).toMatchObject({
+      related: [rule('typescript.mdc')],
+      files: ['src/app.ts', 'src/ui/button.tsx'],
+      sharedFiles: 2,
+    });
+    expect(conflicts[0].statements?.[0].statement1).toMatch(/^Never use named exports/);
+
+    expect(report.issues.filter(i => i.code === 'missing-description').map(i => [i.severity, i.path])).toEqual([
+      ['warning', rule('notes.mdc')],
+      ['info', rule('legacy.mdc')],
+    ]);
+  });
+
+  it('should enforce the alwaysApply token budget', () => {
+    const general = lint().rules.find(r => r.alwaysApply)!;
+    expect(lint().issues.some(i => i.code === 'always-apply-budget')).toBe(false);
+
+    const report = lint({ alwaysApplyTokenBudget: general.tokens - 1 });
+    expect(report.alwaysApplyTokens).toBe(general.tokens);
+    expect(report.issues[0]).toMatchObject({ code: 'always-apply-budget', severity: 'error', related: [rule('general.mdc')] });
+    expect(report.summary.errors).toBe(2);
+  });
+
+  it('should total the tokens of the rules that apply to a file', () => {
+    const report = lint({ file: join(root, 'src', 'ui', 'button.tsx') });
+    const tokens = (name: string) => report.rules.find(r => r.path === rule(name))!.tokens;
+
+    expect(report.activeFor).toMatchObject({ file: 'src/ui/button.tsx' });
+    expect(report.activeFor!.rules.map(r => [r.path, r.reason]).sort()).toEqual([
+      [rule('general.mdc'), 'alwaysApply'],
+      [rule('typescript.mdc'), 'src/**/*.{ts,tsx}'],
+    ]);
+    expect(report.activeFor!.totalTokens).toBe(tokens('general.mdc') + tokens('typescript.mdc'));
+    expect(activeRulesFor(report.rules, 'README.md').totalTokens).toBe(tokens('general.mdc'));
+  });
+
+  it('should require a project it can find', () => {
+    const loose = join(tmpdir(), `test-rules-lint-loose-${Date.now()}`);
+    mkdirSync(loose, { recursive: true });
+    try {
+      expect(() => lintRules([], analyzer(), { folder: loose })).toThrow(RulesLintError);
+      expect(() => lintRules([], analyzer(), { folder: loose, projectRoot: join(loose, 'missing') })).toThrow(/Project not found/);
+    } finally {
+      rmSync(loose, { recursive: true, force: true });
+    }
+  });
+
+  it('should not take the home directory for the project of ~/.cursor/rules', () => {
+    home.dir = join(tmpdir(), `test-rules-lint-home-${Date.now()}`);
+    const globalRules = join(home.dir, '.cursor', 'rules');
+    mkdirSync(globalRules, { recursive: true });
+    try {
+      expect(() => lintRules([], analyzer(), { folder: globalRules })).toThrow(RulesLintError);
+      expect(() => lintRules([], analyzer(), { folder: globalRules })).toThrow(/pass the project root/);
+    } finally {
+      rmSync(home.dir, { recursive: true, force: true });
+      home.dir = '';
+    }
+  });
+});
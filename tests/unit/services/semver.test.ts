@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { compareVersions, isOlderVersion, minVersion, parseVersion, formatVersion } from '../../../src/services/semver.js';
+
+const version = (text: string) => parseVersion(text)!;
+
+describe('semver', () => {
+  it('should parse partial, prefixed and prerelease versions', () => {
+    expect(parseVersion('18')).toMatchObject({ major: 18, minor: 0, patch: 0, precision: 1 });
+    expect(parseVersion('v5.0.0-beta.1')).toMatchObject({ major: 5, prerelease: ['beta', 1], precision: 3 });
+    expect(parseVersion('4.2rc1')).toMatchObject({ major: 4, minor: 2, prerelease: ['rc1'] });
+    expect(parseVersion('1.9.1+incompatible')).toMatchObject({ patch: 1, prerelease: [] });
+    expect(parseVersion('^18.2.0')).toBeNull();
+    expect(parseVersion('latest')).toBeNull();
+  });
+
+  it('should order versions numerically and prereleases before releases', () => {
+    expect(compareVersions(version('18.10'), version('18.9'))).toBeGreaterThan(0);
+    expect(compareVersions(version('5.0.0-beta'), version('5.0.0'))).toBeLessThan(0);
+    expect(compareVersions(version('5.0.0-beta.2'), version('5.0.0-beta.10'))).toBeLessThan(0);
+    expect(compareVersions(version('5.0.0-alpha'), version('5.0.0-beta'))).toBeLessThan(0);
+  });
+
+  it('should find the lowest version of a range', () => {
+    expect(formatVersion(minVersion('^18.2.0')!)).toBe('18.2.0');
+    expect(formatVersion(minVersion('>=4.2,<5')!)).toBe('4.2');
+    expect(formatVersion(minVersion('^11.0|^12.0')!)).toBe('11.0');
+    expect(formatVersion(minVersion('>= 1.2.3 < 2 || 0.9.x')!)).toBe('0.9');
+    expect(formatVersion(minVersion('>18.2.1')!)).toBe('18.2.2');
+    expect(formatVersion(minVersion('1.2 - 2.3')!)).toBe('1.2');
+    expect(formatVersion(minVersion('~=3.11')!)).toBe('3.11');
+    expect(minVersion('workspace:*')).toBeNull();
+  });
+
+  it('should compare mentions at the precision they were written with', () => {
+    expect(isOlderVersion('18.10', '18.9')).toBe(false);
+    expect(isOlderVersion('18.9', '18.10')).toBe(true);
+    expect(isOlderVersion('18', '18.3.1')).toBe(false);
+    expect(isOlderVersion('17', '^18.2.0')).toBe(true);
+    expect(isOlderVersion('5.0.0-beta', '5.0.0')).toBe(true);
+    expect(isOlderVersion('19.1', '19')).toBe(false);
+    expect(isOlderVersion('4', '>=4.2 <6')).toBe(false);
+    expect(isOlderVersion('3', '>=4.2 <6')).toBe(true);
+    expect(isOlderVersion('next', '18')).toBeNull();
+  });
+});
@@ -0,0 +1,196 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { rmSync, existsSync, mkdirSync } from 'fs';
+import {
+  ingestSourceContent,
+  deleteSource,
+  resolveChunkOptions,
+  DEFAULT_CHUNK_OPTIONS,
+  type SourceContentInput,
+} from '../../../src/services/sourceManager.js';
+import { SourceRegistry } from '../../../src/services/sourceRegistry.js';
+import { LexicalIndex } from '../../../src/services/lexicalIndex.js';
+import { MemoryMetadataStore } from '../../../src/services/memoryMetadataStore.js';
+import { RelationshipType } from '../../../src/types/memory.js';
+import type { RAGConfig, VectorDocument, VectorStore, SearchResult } from '../../../src/types/index.js';
+import { createMockEmbeddingsAdapter } from '../../mocks/embeddings.js';
+
+class InMemoryVectorStore implements VectorStore {
+  private documents = new Map<string, VectorDocument>();
+
+  async add(docs: VectorDocument[]): Promise<void> {
+    for (const doc of docs) this.documents.set(doc.id, doc);
+  }
+
+  async search(): Promise<SearchResult[]> {
+    return [];
+  }
+
+  async delete(ids: string[]): Promise<void> {
+    for (const id of ids) this.documents.delete(id);
+  }
+
+  async count(): Promise<number> {
+    return this.documents.size;
+  }
+}
+
+function createInput(content: string, overrides: Partial<SourceContentInput> = {}): SourceContentInput {
+  return {
+    content,
+    name: 'guide.md',
+    title: 'guide.md',
+    kind: 'file',
+    uri: '/docs/guide.md',
+    ...overrides,
+  };
+}
+
+describe('sourceManager', () => {
+  let testDir: string;
+  let deps: {
+    vectorStore: InMemoryVectorStore;
+    embedder: ReturnType<typeof createMockEmbeddingsAdapter>;
+    config: RAGConfig;
+    sourceRegistry: SourceRegistry;
+    lexicalIndex: LexicalIndex;
+    metadataStore: MemoryMetadataStore;
+  };
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `test-source-manager-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    mkdirSync(testDir, { recursive: true });
+
+    const config: RAGConfig = { vectorStore: 'memory', embeddings: 'xenova' };
+    deps = {
+      vectorStore: new InMemoryVectorStore(),
+      embedder: createMockEmbeddingsAdapter({ dimension: 16 }),
+      config,
+      sourceRegistry: new SourceRegistry(join(testDir, 'sources.db')),
+      lexicalIndex: new LexicalIndex(join(testDir, 'lexical.db')),
+      metadataStore: new MemoryMetadataStore(join(testDir, 'memory.db')),
+    };
+  });
+
+  afterEach(() => {
+    deps.sourceRegistry.close();
+    deps.lexicalIndex.close();
+    deps.metadataStore.close();
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should skip unchanged content without embedding', async () => {
+    const first = await ingestSourceContent(createInput('Original guide text.'), deps);
+    const second = await ingestSourceContent(createInput('Original guide text.'), deps);
+
+    expect(first.skipped).toBe(false);
+    expect(second).toMatchObject({ sourceId: first.sourceId, skipped: true, chunksCreated: 0 });
+    expect(deps.embedder.embedBatch).toHaveBeenCalledTimes(1);
+    expect(await deps.vectorStore.count()).toBe(first.chunksCreated);
+  });
+
+  it('should re-embed unchanged content when forced', async () => {
+    await ingestSourceContent(createInput('Original guide text.'), deps);
+    const forced = await ingestSourceContent(createInput('Original guide text.', { force: true }), deps);
+
+    expect(forced.skipped).toBe(false);
+    expect(forced.staleChunksRemoved).toBe(1);
+    expect(await deps.vectorStore.count()).toBe(1);
+  });
+
+  it('should replace stale chunks in every store when content changes', async () => {
+    const first = await ingestSourceContent(createInput('The retry limit is MAX_RETRIES_OLD.'), deps);
+    const oldChunkIds = deps.sourceRegistry.getChunkIds(first.sourceId);
+    deps.metadataStore.upsertChunkMetadata({ chunkId: oldChunkIds[0], source: 'guide.md' });
+    deps.metadataStore.addRelationship(oldChunkIds[0], 'other-chunk', RelationshipType.RELATES_TO);
+
+    const second = await ingestSourceContent(createInput('The retry limit is MAX_RETRIES_NEW.'), deps);
+
+    expect(second.sourceId).toBe(first.sourceId);
+    expect(second.staleChunksRemoved).toBe(oldChunkIds.length);
+    expect(await deps.vectorStore.count()).toBe(second.chunksCreated);
+    expect(deps.lexicalIndex.search('MAX_RETRIES_OLD', { topK: 5 })).toHaveLength(0);
+    expect(deps.lexicalIndex.search('MAX_RETRIES_NEW', { topK: 5 })).toHaveLength(1);
+    expect(deps.metadataStore.getChunkMetadata(oldChunkIds[0])).toBeNull();
+    expect(deps.metadataStore.getRelationships(oldChunkIds[0])).toHaveLength(0);
+    expect(deps.sourceRegistry.getStats()).toMatchObject({ totalSources: 1, totalChunks: second.chunksCreated });
+  });
+
+  it('should delete a source and all of its chunks', async () => {
+    const { sourceId } = await ingestSourceContent(createInput('Guide text to delete.'), deps);
+    await ingestSourceContent(createInput('Another guide.', { name: 'other.md', title: 'other.md', uri: '/docs/other.md' }), deps);
+
+    const result = await deleteSource('/docs/guide.md', deps);
+
+    expect(result?.source.id).toBe(sourceId);
+    expect(result?.chunksDeleted).toBe(1);
+    expect(deps.sourceRegistry.getSource(sourceId)).toBeNull();
+    expect(await deps.vectorStore.count()).toBe(1);
+    expect(deps.lexicalIndex.count()).toBe(1);
+    expect(await deleteSource('/docs/guide.md', deps)).toBeNull();
+  });
+
+  describe('chunking settings', () => {
+    const longText = Array.from({ length: 40 }, (_, i) => `Paragraph ${i} describes endpoint number ${i} in detail.`).join('\n\n');
+
+    it('should record config defaults with the source', async () => {
+      deps.config.chunking = { chunkSize: 256, boundaryMode: 'paragraph' };
+
+      const { sourceId } = await ingestSourceContent(createInput('Design doc.'), deps);
+
+      expect(deps.sourceRegistry.getSource(sourceId)?.chunking).toEqual({
+        ...DEFAULT_CHUNK_OPTIONS,
+        chunkSize: 256,
+        boundaryMode: 'paragraph',
+      });
+    });
+
+    it('should reuse the recorded settings when re-ingesting without overrides', async () => {
+      const small = await ingestSourceContent(createInput(longText, { chunking: { chunkSize: 16 } }), deps);
+      const changed = await ingestSourceContent(createInput(`${longText}\n\nOne more paragraph.`), deps);
+
+      expect(deps.sourceRegistry.getSource(small.sourceId)?.chunking.chunkSize).toBe(16);
+      expect(changed.chunksCreated).toBeGreaterThan(small.chunksCreated);
+    });
+
+    it('should re-chunk unchanged content when the settings change', async () => {
+      const first = await ingestSourceContent(createInput(longText, { chunking: { boundaryMode: 'none' } }), deps);
+      const same = await ingestSourceContent(createInput(longText, { chunking: { boundaryMode: 'none' } }), deps);
+      const rechunked = await ingestSourceContent(createInput(longText, { chunking: { boundaryMode: 'paragraph' } }), deps);
+
+      expect(first.chunksCreated).toBe(1);
+      expect(same.skipped).toBe(true);
+      expect(rechunked).toMatchObject({ skipped: false, chunksCreated: 40, staleChunksRemoved: 1 });
+      expect(deps.sourceRegistry.getSource(first.sourceId)?.chunking.boundaryMode).toBe('paragraph');
+    });
+
+    it('should merge layers and map respectBoundaries to a boundary mode', () => {
+      const resolved = resolveChunkOptions(
+        { chunkSize: 1024, tokenizerModel: 'gpt-4o' },
+        { chunkSize: undefined, chunkOverlap: 10, respectBoundaries: false }
+      );
+
+      expect(resolved).toEqual({
+        chunkSize: 1024,
+        chunkOverlap: 10,
+        boundaryMode: 'none',
+        tokenizerModel: 'gpt-4o',
+        strategy: 'auto',
+      });
+    });
+
+    it('should reject invalid settings', async () => {
+      expect(() => resolveChunkOptions({ chunkSize: 0 })).toThrow('Invalid chunkSize');
+      expect(() => resolveChunkOptions({ chunkOverlap: 100 })).toThrow('Invalid chunkOverlap');
+      expect(() => resolveChunkOptions({ boundaryMode: 'lines' as any })).toThrow('Invalid boundaryMode');
+      expect(() => resolveChunkOptions({ tokenizerModel: 'not-a-model' })).toThrow('Unknown tokenizer model');
+      await expect(
+        ingestSourceContent(createInput('Text.', { chunking: { chunkSize: -1 } }), deps)
+      ).rejects.toThrow('Invalid chunkSize');
+      expect(deps.embedder.embedBatch).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { SourceRegistry, createSourceId, hashContent } from '../../../src/services/sourceRegistry.js';
+import type { SourceRecordInput } from '../../../src/types/sources.js';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { rmSync, existsSync } from 'fs';
+
+function createInput(overrides: Partial<SourceRecordInput> = {}): SourceRecordInput {
+  return {
+    id: createSourceId('file', '/docs/auth.md'),
+    name: '/docs/auth.md',
+    title: 'Auth Guide',
+    kind: 'file',
+    uri: '/docs/auth.md',
+    chunkIds: ['chunk-1', 'chunk-2', 'chunk-3'],
+    contentHash: hashContent('auth content'),
+    embedder: { provider: 'xenova', model: 'Xenova/all-MiniLM-L6-v2', dimensions: 384 },
+    chunking: { chunkSize: 512, chunkOverlap: 50, respectBoundaries: true },
+    ...overrides,
+  };
+}
+
+describe('SourceRegistry', () => {
+  let registry: SourceRegistry;
+  let dbPath: string;
+
+  beforeEach(() => {
+    dbPath = join(tmpdir(), `test-sources-${Date.now()}-${Math.random().toString(36).slice(2)}.db`);
+    registry = new SourceRegistry(dbPath);
+  });
+
+  afterEach(() => {
+    registry.close();
+    for (const path of [dbPath, `${dbPath}-wal`, `${dbPath}-shm`]) {
+      if (existsSync(path)) rmSync(path, { force: true });
+    }
+  });
+
+  it('should store and retrieve a source with its chunk IDs in order', () => {
+    const input = createInput();
+    registry.upsertSource(input);
+
+    const source = registry.getSource(input.id);
+
+    expect(source).toMatchObject({
+      title: 'Auth Guide',
+      kind: 'file',
+      uri: '/docs/auth.md',
+      contentHash: input.contentHash,
+      embedder: input.embedder,
+      chunking: input.chunking,
+    });
+    expect(source?.chunkIds).toEqual(['chunk-1', 'chunk-2', 'chunk-3']);
+    expect(source?.ingestedAt).toBeInstanceOf(Date);
+  });
+
+  it('should replace the chunk list and keep the ingest time on re-register', () => {
+    const first = registry.upsertSource(createInput());
+    const second = registry.upsertSource(createInput({ chunkIds: ['chunk-9'], contentHash: 'changed' }));
+
+    expect(second.chunkIds).toEqual(['chunk-9']);
+    expect(second.contentHash).toBe('changed');
+    expect(second.ingestedAt.getTime()).toBe(first.ingestedAt.getTime());
+    expect(registry.getSourceIdForChunk('chunk-1')).toBeNull();
+    expect(registry.getStats().totalChunks).toBe(1);
+  });
+
+  it('should find sources by ID, URI or name', () => {
+    const input = createInput({ name: 'auth-docs' });
+    registry.upsertSource(input);
+
+    expect(registry.findSource(input.id)?.id).toBe(input.id);
+    expect(registry.findSource('/docs/auth.md')?.id).toBe(input.id);
+    expect(registry.findSource('auth-docs')?.id).toBe(input.id);
+    expect(registry.findSource('missing')).toBeNull();
+  });
+
+  it('should report exact counts and filter by kind', () => {
+    registry.upsertSource(createInput());
+    registry.upsertSource(createInput({
+      id: createSourceId('url', 'https://example.com'),
+      name: 'https://example.com',
+      kind: 'url',
+      uri: 'https://example.com',
+      chunkIds: ['web-1', 'web-2'],
+    }));
+
+    expect(registry.getStats()).toEqual({ totalSources: 2, totalChunks: 5, byKind: { file: 1, url: 1 } });
+    expect(registry.listSources({ kind: 'url' }).map(s => s.name)).toEqual(['https://example.com']);
+  });
+
+  it('should delete a source along with its chunk mapping', () => {
+    const input = createInput();
+    registry.upsertSource(input);
+
+    expect(registry.deleteSource(input.id)).toBe(true);
+    expect(registry.getSource(input.id)).toBeNull();
+    expect(registry.getChunkIds(input.id)).toEqual([]);
+    expect(registry.deleteSource(input.id)).toBe(false);
+  });
+});
+
+describe('createSourceId', () => {
+  it('should be stable and distinguish kinds', () => {
+    expect(createSourceId('file', '/a.md')).toBe(createSourceId('file', '/a.md'));
+    expect(createSourceId('file', '/a.md')).not.toBe(createSourceId('url', '/a.md'));
+  });
+});
@@ -0,0 +1,364 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { createServer, type Server } from 'http';
+import { connect } from 'net';
+import type { AddressInfo } from 'net';
+import { WebCrawler, createWebCrawler, type CrawledPage, type CrawlOptions } from '../../../src/services/webCrawler.js';
+import { RobotsTxt } from '../../../src/services/robotsTxt.js';
+import { ProxyManager } from '../../../src/proxy/index.js';
+import type { RAGConfig } from '../../../src/types/index.js';
+import { startFixtureServer, htmlPage, type FixtureServer } from '../../fixtures/httpServer.js';
+import { createPdf } from '../../fixtures/binaryDocuments.js';
+
+describe('RobotsTxt', () => {
+  const content = [
+    'User-agent: *',
+    'Disallow: /private/',
+    'Allow: /private/open',
+    'Disallow: /*.zip$',
+    'Crawl-delay: 2',
+    '',
+    'User-agent: cursor-rag-crawler',
+    'User-agent: othercrawler',
+    'Disallow: /no-bots/',
+    '',
+    'Sitemap: https://example.com/sitemap.xml',
+  ].join('\n');
+
+  it('should apply the generic group when no specific group matches', () => {
+    const robots = RobotsTxt.parse(content, 'somebot/2.0');
+
+    expect(robots.isAllowed('/docs/intro')).toBe(true);
+    expect(robots.isAllowed('/private/secret')).toBe(false);
+    expect(robots.isAllowed('/private/open/page')).toBe(true);
+    expect(robots.isAllowed('/files/archive.zip')).toBe(false);
+    expect(robots.isAllowed('/files/archive.zip?v=1')).toBe(true);
+    expect(robots.crawlDelaySeconds).toBe(2);
+  });
+
+  it('should prefer the group naming the user agent', () => {
+    const robots = RobotsTxt.parse(content, 'cursor-rag-crawler/1.0 (+https://example.com)');
+
+    expect(robots.isAllowed('/no-bots/page')).toBe(false);
+    expect(robots.isAllowed('/private/secret')).toBe(true);
+    expect(robots.crawlDelaySeconds).toBeNull();
+  });
+
+  it('should collect sitemaps and always allow robots.txt itself', () => {
+    const robots = RobotsTxt.parse('User-agent: *\nDisallow: /', 'bot');
+
+    expect(robots.isAllowed('/anything')).toBe(false);
+    expect(robots.isAllowed('/robots.txt')).toBe(true);
+    expect(RobotsTxt.parse(content, 'bot').sitemaps).toEqual(['https://example.com/sitemap.xml']);
+  });
+});
+
+describe('WebCrawler', () => {
+  let site: FixtureServer | null = null;
+
+  afterEach(async () => {
+    await site?.close();
+    site = null;
+  });
+
+  const crawl = async (options: CrawlOptions, path: string = '/') => {
+    const pages: CrawledPage[] = [];
+    const crawler = new WebCrawler({ delayMs: 0, ...options });
+    const summary = await crawler.crawl(`${site!.url}${path}`, async page => {
+      pages.push(page);
+    });
+    return { pages, summary, paths: pages.map(p => new URL(p.url).pathname) };
+  };
+
+  it('should follow same-origin links breadth-first and extract each page', async () => {
+    site = await startFixtureServer({
+      '/': { body: htmlPage('Home', 'Welcome to the docs site.', ['/a', '/b', 'https://external.example/page']) },
+      '/a': { body: htmlPage('Page A', 'Alpha content.', ['/', '/c']) },
+      '/b': { body: htmlPage('Page B', 'Bravo content.') },
+      '/c': { body: htmlPage('Page C', 'Charlie content.') },
+    });
+
+    const { pages, paths, summary } = await crawl({});
+
+    expect(paths).toEqual(['/', '/a', '/b', '/c']);
+    expect(summary.pagesCrawled).toBe(4);
+    expect(pages[1].title).toBe('Page A');
+    expect(pages[1].depth).toBe(1);
+    expect(pages[1].document.text).toContain('Alpha content.');
+    expect(pages[1].document.format).toBe('html');
+    expect(site.requests.some(p => p.includes('external'))).toBe(false);
+  });
+
+  it('should stop at maxDepth and maxPages', async () => {
+    site = await startFixtureServer({
+      '/': { body: htmlPage('Home', 'Root page.', ['/one']) },
+      '/one': { body: htmlPage('One', 'Depth one.', ['/two']) },
+      '/two': { body: htmlPage('Two', 'Depth two.', ['/three']) },
+      '/three': { body: htmlPage('Three', 'Depth three.') },
+    });
+
+    expect((await crawl({ maxDepth: 1 })).paths).toEqual(['/', '/one']);
+    expect(site.requests).not.toContain('/two');
+
+    expect((await crawl({ maxPages: 3 })).paths).toEqual(['/', '/one', '/two']);
+  });
+
+  it('should only crawl URLs under the path prefix', async () => {
+    site = await startFixtureServer({
+      '/docs/': { body: htmlPage('Docs', 'Documentation index.', ['/docs/guide', '/blog/post']) },
+      '/docs/guide': { body: htmlPage('Guide', 'A guide.') },
+      '/blog/post': { body: htmlPage('Post', 'A blog post.') },
+    });
+
+    const { paths } = await crawl({ pathPrefix: '/docs/' }, '/docs/');
+
+    expect(paths).toEqual(['/docs/', '/docs/guide']);
+    expect(site.requests).not.toContain('/blog/post');
+  });
+
+  it('should honour robots.txt rules unless disabled', async () => {
+    site = await startFixtureServer({
+      '/robots.txt': { contentType: 'text/plain', body: 'User-agent: *\nDisallow: /private\n' },
+      '/': { body: htmlPage('Home', 'Public page.', ['/private', '/public']) },
+      '/private': { body: htmlPage('Private', 'Secret page.') },
+      '/public': { body: htmlPage('Public', 'Open page.') },
+    });
+
+    const respected = await crawl({});
+    expect(respected.paths).toEqual(['/', '/public']);
+    expect(respected.summary.skipped).toContainEqual({
+      url: `${site.url}/private`,
+      reason: 'disallowed by robots.txt',
+    });
+    expect(site.requests).not.toContain('/private');
+
+    const ignored = await crawl({ respectRobots: false });
+    expect(ignored.paths).toContain('/private');
+  });
+
+  it('should crawl nothing while robots.txt returns a server error', async () => {
+    site = await startFixtureServer({
+      '/robots.txt': { status: 503, body: 'Service unavailable' },
+      '/': { body: htmlPage('Home', 'Start page.', ['/next']) },
+      '/next': { body: htmlPage('Next', 'Second page.') },
+    });
+
+    const { paths, summary } = await crawl({});
+
+    expect(paths).toEqual([]);
+    expect(summary.skipped).toContainEqual({ url: `${site.url}/`, reason: 'disallowed by robots.txt' });
+    expect(site.requests).toEqual(['/robots.txt']);
+  });
+
+  it('should crawl everything when robots.txt is forbidden', async () => {
+    site = await startFixtureServer({
+      '/robots.txt': { status: 403, body: 'Forbidden' },
+      '/': { body: htmlPage('Home', 'Start page.', ['/next']) },
+      '/next': { body: htmlPage('Next', 'Second page.') },
+    });
+
+    expect((await crawl({ useSitemap: false })).paths).toEqual(['/', '/next']);
+  });
+
+  it('should apply each origin its own robots.txt when crawling across origins', async () => {
+    const other = await startFixtureServer({
+      '/robots.txt': { contentType: 'text/plain', body: 'User-agent: *\nDisallow: /blocked\nCrawl-delay: 0.1\n' },
+      '/blocked': { body: htmlPage('Blocked', 'Not for crawlers.') },
+      '/open': { body: htmlPage('Open', 'Open page.', ['/open-2']) },
+      '/open-2': { body: htmlPage('Open 2', 'Second open page.') },
+    });
+
+    try {
+      site = await startFixtureServer({
+        '/robots.txt': { contentType: 'text/plain', body: 'User-agent: *\nDisallow: /open\n' },
+        '/': { body: htmlPage('Home', 'Start page.', [`${other.url}/blocked`, `${other.url}/open`]) },
+      });
+
+      const { pages, summary } = await crawl({ sameOrigin: false, useSitemap: false });
+
+      // The start origin's Disallow: /open does not apply to the other origin
+      expect(pages.map(p => p.url)).toEqual([`${site.url}/`, `${other.url}/open`, `${other.url}/open-2`]);
+      expect(summary.skipped).toContainEqual({ url: `${other.url}/blocked`, reason: 'disallowed by robots.txt' });
+      expect(other.requests.filter(p => p === '/robots.txt')).toHaveLength(1);
+      expect(other.requests).not.toContain('/blocked');
+
+      const times = other.requestTimes.filter((_, idx) => other.requests[idx] !== '/robots.txt');
+      expect(times[1] - times[0]).toBeGreaterThanOrEqual(95);
+    } finally {
+      await other.close();
+    }
+  });
+
+  it('should seed the crawl from the sitemap', async () => {
+    site = await startFixtureServer(origin => ({
+      '/robots.txt': { contentType: 'text/plain', body: `User-agent: *\nAllow: /\nSitemap: ${origin}/sitemap-index.xml\n` },
+      '/': { body: htmlPage('Home', 'Nothing links to the orphan.') },
+      '/orphan': { body: htmlPage('Orphan', 'Only listed in the sitemap.') },
+      '/sitemap-index.xml': {
+        contentType: 'application/xml',
+        body: `<?xml version="1.0"?><sitemapindex><sitemap><loc>${origin}/pages.xml</loc></sitemap></sitemapindex>`,
+      },
+      '/pages.xml': {
+        contentType: 'application/xml',
+        body: `<?xml version="1.0"?><urlset><url><loc>${origin}/orphan</loc></url>` +
+          '<url><loc>https://external.example/x</loc></url></urlset>',
+      },
+    }));
+
+    const { pages, paths } = await crawl({});
+
+    expect(paths).toEqual(['/', '/orphan']);
+    expect(pages[1].depth).toBe(1);
+
+    expect((await crawl({ useSitemap: false })).paths).toEqual(['/']);
+  });
+
+  it('should skip unsupported content, errors and noindex pages but load linked documents', async () => {
+    site = await startFixtureServer({
+      '/': {
+        body: htmlPage('Home', 'Links to assorted files.', ['/logo.png', '/missing', '/hidden', '/manual.pdf']),
+      },
+      '/logo.png': { contentType: 'image/png', body: Buffer.from([0x89, 0x50, 0x4e, 0x47]) },
+      '/hidden': {
+        body: htmlPage('Hidden', 'Not for indexing.', ['/behind-noindex'], '<meta name="robots" content="noindex">'),
+      },
+      '/behind-noindex': { body: htmlPage('Behind', 'Linked from a noindex page.') },
+      '/manual.pdf': { contentType: 'application/pdf', body: createPdf(['Manual page one']) },
+    });
+
+    const { paths, pages, summary } = await crawl({});
+
+    expect(paths).toEqual(['/', '/manual.pdf', '/behind-noindex']);
+    expect(pages[1].document.format).toBe('pdf');
+    expect(pages[1].document.text).toContain('Manual page one');
+    expect(summary.skipped).toEqual(expect.arrayContaining([
+      { url: `${site.url}/logo.png`, reason: 'unsupported content type image/png' },
+      { url: `${site.url}/missing`, reason: 'HTTP 404' },
+      { url: `${site.url}/hidden`, reason: 'noindex' },
+    ]));
+  });
+
+  it('should not follow redirects out of scope or onto pages already seen', async () => {
+    site = await startFixtureServer({
+      '/docs/': { body: htmlPage('Home', 'Start page.', ['/docs/old', '/docs/moved', '/docs/elsewhere']) },
+      '/docs/old': { redirect: '/docs/' },
+      '/docs/moved': { redirect: '/docs/new' },
+      '/docs/new': { body: htmlPage('New', 'Moved here.') },
+      '/docs/elsewhere': { redirect: '/blog/post' },
+      '/blog/post': { body: htmlPage('Post', 'Blog post.') },
+    });
+
+    const { paths, summary } = await crawl({ pathPrefix: '/docs/' }, '/docs/');
+
+    expect(paths).toEqual(['/docs/', '/docs/new']);
+    expect(summary.skipped).toEqual(expect.arrayContaining([
+      { url: `${site.url}/docs/old`, reason: `redirected to ${site.url}/docs/` },
+      { url: `${site.url}/docs/elsewhere`, reason: `redirected to ${site.url}/blog/post` },
+    ]));
+  });
+
+  it('should space requests by the configured delay and robots Crawl-delay', async () => {
+    site = await startFixtureServer({
+      '/': { body: htmlPage('Home', 'Start page.', ['/a', '/b']) },
+      '/a': { body: htmlPage('A', 'Page A.') },
+      '/b': { body: htmlPage('B', 'Page B.') },
+    });
+
+    await crawl({ delayMs: 60, useSitemap: false });
+
+    const pageTimes = site.requestTimes.filter((_, idx) => site!.requests[idx] !== '/robots.txt');
+    for (let i = 1; i < pageTimes.length; i++) {
+      expect(pageTimes[i] - pageTimes[i - 1]).toBeGreaterThanOrEqual(55);
+    }
+
+    await site.close();
+    site = await startFixtureServer({
+      '/robots.txt': { contentType: 'text/plain', body: 'User-agent: *\nCrawl-delay: 0.1\n' },
+      '/': { body: htmlPage('Home', 'Start page.', ['/a']) },
+      '/a': { body: htmlPage('A', 'Page A.') },
+    });
+
+    await crawl({ useSitemap: false });
+
+    const times = site.requestTimes.filter((_, idx) => site!.requests[idx] !== '/robots.txt');
+    expect(times[1] - times[0]).toBeGreaterThanOrEqual(95);
+  });
+
+  it('should send its user agent', async () => {
+    site = await startFixtureServer({ '/': { body: htmlPage('Home', 'Start page.') } });
+
+    await crawl({ userAgent: 'test-crawler/0.1' });
+
+    expect(site.headers.get('/')?.['user-agent']).toBe('test-crawler/0.1');
+  });
+});
+
+describe('createWebCrawler', () => {
+  let site: FixtureServer | null = null;
+  let proxy: Server | null = null;
+
+  afterEach(async () => {
+    await site?.close();
+    site = null;
+    if (proxy) {
+      proxy.closeAllConnections();
+      await new Promise(resolve => proxy!.close(resolve));
+      proxy = null;
+    }
+  });
+
+  it('should route requests through the configured proxy', async () => {
+    site = await startFixtureServer({
+      '/': { body: htmlPage('Home', 'Fetched through the proxy.', ['/a']) },
+      '/a': { body: htmlPage('A', 'Also through the proxy.') },
+    });
+
+    const tunnels: Array<{ target: string; auth: string | undefined }> = [];
+    proxy = createServer();
+    proxy.on('connect', (req, clientSocket, head) => {
+      tunnels.push({ target: req.url!, auth: req.headers['proxy-authorization'] });
+      const [host, port] = req.url!.split(':');
+      const upstream = connect(Number(port), host, () => {
+        clientSocket.write('HTTP/1.1 200 Connection Established\r\n\r\n');
+        upstream.write(head);
+        upstream.pipe(clientSocket);
+        clientSocket.pipe(upstream);
+      });
+      upstream.on('error', () => clientSocket.destroy());
+      clientSocket.on('error', () => upstream.destroy());
+    });
+    await new Promise<void>(resolve => proxy!.listen(0, '127.0.0.1', resolve));
+
+    const config = {
+      proxy: {
+        enabled: true,
+        driver: 'decodo',
+        host: '127.0.0.1',
+        port: (proxy.address() as AddressInfo).port,
+        username: 'user',
+        password: 'secret',
+      },
+      crawler: { delayMs: 0 },
+    } as unknown as RAGConfig;
+
+    const pages: string[] = [];
+    const summary = await createWebCrawler(config, { useSitemap: false }).crawl(`${site.url}/`, async page => {
+      pages.push(page.document.text);
+    });
+
+    expect(summary.pagesCrawled).toBe(2);
+    expect(pages[0]).toContain('Fetched through the proxy.');
+    expect(tunnels.length).toBeGreaterThan(0);
+    expect(tunnels[0].target).toBe(site.url.replace('http://', ''));
+    expect(tunnels[0].auth).toBe(`Basic ${Buffer.from('user:secret').toString('base64')}`);
+  });
+
+  it('should fetch directly when the proxy is disabled', async () => {
+    site = await startFixtureServer({ '/': { body: htmlPage('Home', 'Direct request.') } });
+
+    const manager = new ProxyManager({ proxy: { enabled: false, driver: 'none' } } as unknown as RAGConfig);
+    const response = await manager.fetchWithProxy(`${site.url}/`, { headers: { 'User-Agent': 'direct-test' } });
+
+    expect(await response.text()).toContain('Direct request.');
+    expect(site.headers.get('/')?.['user-agent']).toBe('direct-test');
+  });
+});